@@ -10,9 +10,20 @@ import { LeadModel, CreateLead } from '../../types/lead';
 describe('AIAppointmentWorkflowCoordinator Integration Tests', () => {
   let coordinator: AIAppointmentWorkflowCoordinator;
   let testLead: LeadModel;
+  let dialer: { placeCallback: ReturnType<typeof vi.fn> };
 
   beforeEach(() => {
-    coordinator = new AIAppointmentWorkflowCoordinator();
+    // Messages and calls are accepted by stubs; the flows below are what is
+    // tested
+    dialer = { placeCallback: vi.fn().mockResolvedValue(true) };
+    coordinator = new AIAppointmentWorkflowCoordinator(
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      { sendMessage: vi.fn().mockResolvedValue({ sent: true }) },
+      dialer
+    );
 
     // Create a test lead
     const leadData: CreateLead = {
@@ -38,6 +49,11 @@ describe('AIAppointmentWorkflowCoordinator Integration Tests', () => {
     };
 
     testLead = LeadModel.create(leadData);
+
+    // Without a database every lead is reached at the test lead's details
+    vi.spyOn(coordinator as any, 'findLeadContact').mockResolvedValue(
+      testLead.data.contactInfo
+    );
   });
 
   describe('End-to-End Campaign Workflows', () => {
@@ -245,15 +261,12 @@ describe('AIAppointmentWorkflowCoordinator Integration Tests', () => {
       expect(callback2.status).toBe('pending');
       expect(callback3.status).toBe('pending');
 
-      // Mock the attemptCallback method for controlled testing
+      // The first lead answers, the second does not
       let callAttempts = 0;
-      vi.spyOn(coordinator as any, 'attemptCallback').mockImplementation(
-        async (callback: any) => {
-          callAttempts++;
-          // First callback succeeds, second fails
-          return callback.id === callback1.id;
-        }
-      );
+      dialer.placeCallback.mockImplementation(async (callback: any) => {
+        callAttempts++;
+        return callback.id === callback1.id;
+      });
 
       // Wait a bit to ensure callbacks are due
       await new Promise((resolve) => setTimeout(resolve, 100));
@@ -272,6 +285,7 @@ describe('AIAppointmentWorkflowCoordinator Integration Tests', () => {
 
       expect(updatedCallback2.status).toBe('pending'); // Still pending, will retry
       expect(updatedCallback2.attempts).toBe(1);
+      expect(updatedCallback2.scheduledAt.getTime()).toBeGreaterThan(Date.now());
 
       expect(updatedCallback3.status).toBe('pending'); // Not due yet
       expect(updatedCallback3.attempts).toBe(0);
@@ -440,6 +440,19 @@ describe('AICRMManagementAgent', () => {
       expect(mockBatchSyncLeads).toHaveBeenCalledWith([mockLead]);
       expect(mockBatchSyncInteractions).toHaveBeenCalled();
     });
+
+    it('should count rows that fail validation as failed', async () => {
+      (mockDbManager.query as Mock)
+        .mockResolvedValueOnce({
+          rows: [{ ...mockDatabaseRow(mockLead), id: 'not-a-uuid' }],
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      const result = await agent.syncAllPendingData();
+
+      expect(result.leads).toEqual({ success: 0, failed: 1 });
+      expect(result.interactions).toEqual({ success: 0, failed: 0 });
+    });
   });
 
   // Helper functions to create mock database rows
@@ -337,7 +337,7 @@ describe('AIHeadAgent', () => {
       const customRule: RoutingRule = {
         id: 'custom-rule',
         name: 'Custom Test Rule',
-        condition: (lead) => lead.source === 'referral',
+        condition: { field: 'lead.source', operator: 'equals', value: 'referral' },
         action: {
           targetAgent: 'inbound',
           priority: 'high',
@@ -364,7 +364,7 @@ describe('AIHeadAgent', () => {
       const customRule: RoutingRule = {
         id: 'removable-rule',
         name: 'Removable Rule',
-        condition: () => true,
+        condition: { field: 'lead.id', operator: 'exists' },
         action: {
           targetAgent: 'inbound',
           priority: 'high',
@@ -394,7 +394,7 @@ describe('AIHeadAgent', () => {
       const highPriorityRule: RoutingRule = {
         id: 'high-priority',
         name: 'High Priority Rule',
-        condition: () => true,
+        condition: { field: 'lead.id', operator: 'exists' },
         action: {
           targetAgent: 'inbound',
           priority: 'high',
@@ -409,7 +409,7 @@ describe('AIHeadAgent', () => {
       const lowPriorityRule: RoutingRule = {
         id: 'low-priority',
         name: 'Low Priority Rule',
-        condition: () => true,
+        condition: { field: 'lead.id', operator: 'exists' },
         action: {
           targetAgent: 'outbound',
           priority: 'low',
@@ -572,4 +572,142 @@ describe('AIHeadAgent', () => {
       expect(analysis.leadType).toBe('hot');
     });
   });
+
+  describe('Routing Rule Versions', () => {
+    const vipRule = {
+      id: 'vip-referral',
+      name: 'VIP Referral',
+      condition: {
+        all: [
+          { field: 'lead.source', operator: 'equals', value: 'referral' },
+          {
+            field: 'lead.qualificationData.qualificationScore',
+            operator: 'greater_than',
+            value: 0.8,
+          },
+        ],
+      },
+      action: {
+        targetAgent: 'inbound',
+        priority: 'high',
+        reasoning: ['VIP referral'],
+        estimatedResponseTime: 15,
+        suggestedActions: ['Call immediately'],
+      },
+      priority: 0,
+    };
+
+    it('should record the configured rules as version 1 on first load', async () => {
+      await aiHeadAgent.loadRoutingRules('admin');
+
+      const history =
+        await aiHeadAgent.getRoutingRuleHistory('hot-lead-immediate');
+      expect(history).toHaveLength(1);
+      expect(history[0].version).toBe(1);
+      expect(history[0].change).toBe('created');
+      expect(history[0].changedBy).toBe('admin');
+    });
+
+    it('should version created, updated and deleted rules', async () => {
+      const created = await aiHeadAgent.createRoutingRule(vipRule, 'ana');
+      expect(created.enabled).toBe(true);
+
+      await aiHeadAgent.updateRoutingRule(
+        'vip-referral',
+        { priority: 5 },
+        'bruno'
+      );
+      expect(await aiHeadAgent.deleteRoutingRule('vip-referral', 'ana')).toBe(
+        true
+      );
+
+      const history = await aiHeadAgent.getRoutingRuleHistory('vip-referral');
+      expect(history.map((v) => [v.version, v.change, v.changedBy])).toEqual([
+        [1, 'created', 'ana'],
+        [2, 'updated', 'bruno'],
+        [3, 'deleted', 'ana'],
+      ]);
+      expect(history[1].definition?.priority).toBe(5);
+      expect(history[2].definition).toBeNull();
+      expect(aiHeadAgent.getRoutingRule('vip-referral')).toBeUndefined();
+    });
+
+    it('should reject invalid and duplicate rules', async () => {
+      await expect(
+        aiHeadAgent.createRoutingRule({
+          ...vipRule,
+          condition: { field: 'lead.source', operator: 'equals' },
+        })
+      ).rejects.toThrow('Routing rule validation');
+
+      await aiHeadAgent.createRoutingRule(vipRule);
+      await expect(aiHeadAgent.createRoutingRule(vipRule)).rejects.toThrow(
+        'already exists'
+      );
+      expect(
+        await aiHeadAgent.updateRoutingRule('missing-rule', { priority: 1 })
+      ).toBeNull();
+    });
+
+    it('should roll back to an earlier version, including after deletion', async () => {
+      await aiHeadAgent.createRoutingRule(vipRule);
+      await aiHeadAgent.updateRoutingRule('vip-referral', { enabled: false });
+      await aiHeadAgent.deleteRoutingRule('vip-referral');
+
+      const restored = await aiHeadAgent.rollbackRoutingRule(
+        'vip-referral',
+        1,
+        'ana'
+      );
+
+      expect(restored?.enabled).toBe(true);
+      expect(aiHeadAgent.getRoutingRule('vip-referral')?.enabled).toBe(true);
+      const history = await aiHeadAgent.getRoutingRuleHistory('vip-referral');
+      expect(history[3]).toMatchObject({
+        version: 4,
+        change: 'rolled_back',
+        restoredFromVersion: 1,
+      });
+      expect(
+        await aiHeadAgent.rollbackRoutingRule('vip-referral', 3)
+      ).toBeNull();
+    });
+
+    it('should dry-run routing without recording the analysis', async () => {
+      await aiHeadAgent.createRoutingRule(vipRule);
+      const referralLead: Lead = {
+        ...mockLead,
+        source: 'referral',
+        qualificationData: {
+          ...mockLead.qualificationData,
+          qualificationScore: 0.9,
+        },
+      };
+
+      const result = aiHeadAgent.dryRunRouting(referralLead);
+
+      expect(result.matchedRuleId).toBe('vip-referral');
+      expect(result.decision.reasoning).toContain('VIP referral');
+      expect(result.evaluations[0]).toMatchObject({
+        ruleId: 'vip-referral',
+        matched: true,
+      });
+      expect(aiHeadAgent.getLeadRoutingHistory(referralLead.id)).toBeUndefined();
+    });
+
+    it('should evaluate thresholds from the current configuration', () => {
+      expect(aiHeadAgent.dryRunRouting(mockLead).matchedRuleId).toBe(
+        'hot-lead-immediate'
+      );
+
+      // No urgency reaches the new threshold, so the next rule applies
+      aiHeadAgent.updateConfig({
+        urgencyThresholds: { high: 11, medium: 5 },
+      });
+
+      expect(aiHeadAgent.dryRunRouting(mockLead).matchedRuleId).toBe(
+        'direct-inquiry-inbound'
+      );
+    });
+  });
 });
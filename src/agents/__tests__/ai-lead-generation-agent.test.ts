@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   AILeadGenerationAgent,
   Campaign,
@@ -8,6 +8,16 @@ import {
 } from '../ai-lead-generation-agent';
 import { Lead, LeadModel } from '../../types/lead';
 import { Interaction, InteractionModel } from '../../types/interaction';
+import {
+  DEFERRED_MESSAGE_JOB,
+  MultiChannelCommunicationManager,
+} from '../../communication/multi-channel-manager';
+import { ConsentLedger } from '../../communication/consent-ledger';
+import {
+  MessageProvider,
+  createMessageProviders,
+} from '../../communication/providers';
+import { InMemoryJobStore, JobQueue, JobWorker } from '../../jobs';
 
 describe('AILeadGenerationAgent', () => {
   let agent: AILeadGenerationAgent;
@@ -15,7 +25,16 @@ describe('AILeadGenerationAgent', () => {
   let mockInteractions: Map<string, Interaction[]>;
 
   beforeEach(() => {
-    agent = new AILeadGenerationAgent('test-agent');
+    // Messages are only sent inside the lead's send window
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    // Consent is covered by the communication manager tests
+    agent = new AILeadGenerationAgent(
+      'test-agent',
+      {},
+      new MultiChannelCommunicationManager(createMessageProviders(), {
+        consentLedger: new ConsentLedger({ requireOptIn: [] }),
+      })
+    );
 
     // Create mock leads with valid UUIDs
     mockLeads = [
@@ -152,6 +171,10 @@ describe('AILeadGenerationAgent', () => {
     ]);
   });
 
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   describe('processColdLeads', () => {
     it('should identify and process cold leads that need follow-up', async () => {
       const sequences = await agent.processColdLeads(mockLeads);
@@ -789,4 +812,162 @@ describe('AILeadGenerationAgent', () => {
       consoleSpy.mockRestore();
     });
   });
+
+  describe('message delivery', () => {
+    let emailProvider: MessageProvider & { send: ReturnType<typeof vi.fn> };
+    let communicationManager: MultiChannelCommunicationManager;
+
+    beforeEach(() => {
+      emailProvider = {
+        name: 'mock',
+        channel: 'email',
+        send: vi.fn().mockResolvedValue({
+          provider: 'mock',
+          messageId: 'message-1',
+          status: 'sent',
+        }),
+      };
+      communicationManager = new MultiChannelCommunicationManager(
+        [emailProvider],
+        { consentLedger: new ConsentLedger({ requireOptIn: [] }) }
+      );
+      agent = new AILeadGenerationAgent('test-agent', {}, communicationManager);
+    });
+
+    it('should send sequence messages to the lead through the communication manager', async () => {
+      const [sequence] = await agent.processColdLeads(mockLeads);
+
+      expect(emailProvider.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'email',
+          to: 'john@example.com',
+          subject: 'Following up on your inquiry',
+        })
+      );
+      expect(sequence.currentStep).toBe(1);
+      expect(sequence.interactions).toHaveLength(1);
+      expect(
+        await communicationManager.getDelivery('message-1')
+      ).toMatchObject({ leadId: mockLeads[0].id, status: 'sent' });
+    });
+
+    it('should fail the sequence when the lead opted out of the channel', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      await communicationManager.optOutFromChannel(mockLeads[0].id, 'email');
+
+      const [sequence] = await agent.processColdLeads(mockLeads);
+
+      expect(emailProvider.send).not.toHaveBeenCalled();
+      expect(sequence.status).toBe('failed');
+      expect(sequence.interactions).toHaveLength(0);
+    });
+
+    it('should retry the step later when frequency limits are reached', async () => {
+      await communicationManager.recordCommunicationAttempt(
+        mockLeads[0].id,
+        'email',
+        true
+      );
+
+      const [sequence] = await agent.processColdLeads(mockLeads);
+
+      expect(emailProvider.send).not.toHaveBeenCalled();
+      expect(sequence.status).toBe('active');
+      expect(sequence.currentStep).toBe(0);
+      expect(sequence.nextScheduledAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should hold the step until the send window opens', async () => {
+      const jobs = new JobQueue(new InMemoryJobStore());
+      const enqueue = vi.spyOn(jobs, 'enqueue');
+      communicationManager = new MultiChannelCommunicationManager(
+        [emailProvider],
+        { jobs, consentLedger: new ConsentLedger({ requireOptIn: [] }) }
+      );
+      agent = new AILeadGenerationAgent('test-agent', {}, communicationManager);
+      mockLeads[0].contactInfo.timezone = 'Asia/Tokyo';
+
+      const [sequence] = await agent.processColdLeads(mockLeads);
+
+      expect(emailProvider.send).not.toHaveBeenCalled();
+      expect(enqueue).not.toHaveBeenCalledWith(
+        DEFERRED_MESSAGE_JOB,
+        expect.anything(),
+        expect.anything()
+      );
+      expect(sequence.status).toBe('active');
+      expect(sequence.currentStep).toBe(0);
+      expect(sequence.nextScheduledAt.getTime()).toBeGreaterThan(Date.now());
+
+      // The step's job is deferred rather than completed
+      expect(
+        await (agent as any).runSequenceStepJob({
+          sequence,
+          contactInfo: mockLeads[0].contactInfo,
+        })
+      ).toEqual({ deferUntil: sequence.nextScheduledAt });
+      expect(emailProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should not send a step again when its job runs twice', async () => {
+      const [sequence] = await agent.processColdLeads(mockLeads);
+      expect(emailProvider.send).toHaveBeenCalledTimes(1);
+
+      // Another worker runs the first step's job again, as after a crash
+      // between sending and completing it
+      const restarted = new AILeadGenerationAgent(
+        'test-agent',
+        {},
+        communicationManager
+      );
+      await (restarted as any).runSequenceStepJob({
+        sequence: { ...sequence, currentStep: 0, interactions: [] },
+        contactInfo: mockLeads[0].contactInfo,
+      });
+
+      expect(emailProvider.send).toHaveBeenCalledTimes(1);
+      const [resumed] = restarted.getSequencesForLead(mockLeads[0].id);
+      expect(resumed.currentStep).toBe(1);
+    });
+
+    it('should carry on with the sequence from the job queue after a restart', async () => {
+      const store = new InMemoryJobStore();
+      const jobs = new JobQueue(store);
+      agent = new AILeadGenerationAgent(
+        'test-agent',
+        {},
+        communicationManager,
+        jobs
+      );
+      const [sequence] = await agent.processColdLeads(mockLeads);
+
+      // A fresh instance only knows the sequence from the queued job
+      const restarted = new AILeadGenerationAgent(
+        'test-agent',
+        {},
+        communicationManager,
+        jobs
+      );
+      const worker = new JobWorker(store, { workerId: 'worker-1' });
+      restarted.registerJobHandlers(worker);
+
+      expect(await worker.runOnce()).toBe(0);
+      vi.setSystemTime(sequence.nextScheduledAt);
+      expect(await worker.runOnce()).toBe(1);
+
+      expect(emailProvider.send).toHaveBeenCalledTimes(2);
+      expect(emailProvider.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({ to: 'john@example.com' })
+      );
+      const [resumed] = restarted.getSequencesForLead(mockLeads[0].id);
+      expect(resumed).toMatchObject({ id: sequence.id, currentStep: 2 });
+
+      // Scheduling step 2 again keeps the one job already queued for it
+      await (restarted as any).scheduleSequenceExecution(resumed, new Date());
+      expect(await worker.runOnce()).toBe(0);
+      vi.setSystemTime(resumed.nextScheduledAt);
+      expect(await worker.runOnce()).toBe(1);
+      expect(emailProvider.send).toHaveBeenCalledTimes(3);
+    });
+  });
 });
@@ -5,14 +5,47 @@ import {
 } from '../customer-retention-agent';
 import { Lead, LeadModel } from '../../types/lead';
 import { Interaction, InteractionModel } from '../../types/interaction';
+import { ConsentLedger } from '../../communication/consent-ledger';
+import { MultiChannelCommunicationManager } from '../../communication/multi-channel-manager';
+import {
+  MessageChannel,
+  MessageProvider,
+} from '../../communication/providers';
+import { InMemoryJobStore, JobQueue, JobWorker } from '../../jobs';
+
+function createMockProvider(channel: MessageChannel) {
+  return {
+    name: 'mock',
+    channel,
+    send: vi.fn().mockResolvedValue({
+      provider: 'mock',
+      messageId: `${channel}-message`,
+      status: 'sent',
+    }),
+  } satisfies MessageProvider;
+}
 
 describe('CustomerRetentionAgent', () => {
   let agent: CustomerRetentionAgent;
+  let communicationManager: MultiChannelCommunicationManager;
+  let providers: Record<MessageChannel, ReturnType<typeof createMockProvider>>;
   let mockLead: Lead;
   let mockInteractions: Interaction[];
 
   beforeEach(() => {
-    agent = new CustomerRetentionAgent();
+    // Messages are only sent inside the lead's send window
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    providers = {
+      email: createMockProvider('email'),
+      sms: createMockProvider('sms'),
+      whatsapp: createMockProvider('whatsapp'),
+    };
+    communicationManager = new MultiChannelCommunicationManager(
+      Object.values(providers),
+      // Consent is covered by the communication manager tests
+      { consentLedger: new ConsentLedger({ requireOptIn: [] }) }
+    );
+    agent = new CustomerRetentionAgent({}, {}, communicationManager);
 
     // Create mock lead data
     mockLead = LeadModel.create({
@@ -66,6 +99,7 @@ describe('CustomerRetentionAgent', () => {
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.useRealTimers();
   });
 
   describe('Initialization', () => {
@@ -431,6 +465,198 @@ describe('CustomerRetentionAgent', () => {
       expect(updatedSession?.status).toBe('active'); // Still active
     });
 
+    it('should send the next campaign message from the job queue', async () => {
+      const store = new InMemoryJobStore();
+      const jobs = new JobQueue(store);
+      const config = {
+        campaigns: [
+          {
+            id: 'gentle_reengagement',
+            name: 'Gentle Re-engagement Campaign',
+            triggers: ['inactive_60_days'],
+            messageSequence: [
+              {
+                templateId: 'sms_gentle_reengagement',
+                channel: 'sms' as const,
+                delayDays: 0,
+              },
+              {
+                templateId: 'email_personalized_update',
+                channel: 'email' as const,
+                delayDays: 1,
+              },
+            ],
+            enabled: true,
+            maxAttempts: 3,
+            successCriteria: ['response_received'],
+          },
+        ],
+      };
+      agent = new CustomerRetentionAgent(
+        config,
+        {},
+        communicationManager,
+        jobs
+      );
+      const [session] = await agent.detectInactiveCustomers(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+      await agent.handleCustomerResponse(
+        mockLead.id,
+        'Thanks for the information.',
+        'email'
+      );
+      const sent = () =>
+        Object.values(providers).reduce(
+          (total, provider) => total + provider.send.mock.calls.length,
+          0
+        );
+      expect(sent()).toBe(1);
+
+      // A fresh instance picks the campaign up from the queued job
+      const restarted = new CustomerRetentionAgent(
+        config,
+        {},
+        communicationManager,
+        jobs
+      );
+      const worker = new JobWorker(store, { workerId: 'worker-1' });
+      restarted.registerJobHandlers(worker);
+
+      expect(await worker.runOnce()).toBe(0);
+      vi.setSystemTime(Date.now() + 24 * 60 * 60 * 1000);
+      expect(await worker.runOnce()).toBe(1);
+
+      expect(providers.email.send).toHaveBeenCalledTimes(1);
+      expect(restarted.getSession(session.id)).toMatchObject({
+        messagesAttempted: 2,
+        startedAt: session.startedAt,
+      });
+    });
+
+    it('should hold campaign steps until the send window opens', async () => {
+      const store = new InMemoryJobStore();
+      const jobs = new JobQueue(store);
+      // Midnight in Tokyo
+      mockLead.contactInfo.timezone = 'Asia/Tokyo';
+      const leads = { findById: vi.fn().mockResolvedValue(mockLead) };
+      agent = new CustomerRetentionAgent(
+        {},
+        { leads: leads as any },
+        communicationManager,
+        jobs
+      );
+      const worker = new JobWorker(store, { workerId: 'worker-1' });
+      agent.registerJobHandlers(worker);
+      const sent = () =>
+        Object.values(providers).reduce(
+          (total, provider) => total + provider.send.mock.calls.length,
+          0
+        );
+
+      const [session] = await agent.detectInactiveCustomers(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+
+      const windowOpens = new Date('2026-01-14T23:00:00.000Z');
+      expect(sent()).toBe(0);
+      expect(agent.getSession(session.id)).toMatchObject({
+        currentStep: 0,
+        heldUntil: windowOpens,
+      });
+      // The step's job is deferred rather than completed
+      expect(
+        await (agent as any).runCampaignStepJob({ session: { ...session } })
+      ).toEqual({ deferUntil: windowOpens });
+      expect(await worker.runOnce()).toBe(0);
+
+      vi.setSystemTime(windowOpens);
+      expect(await worker.runOnce()).toBe(1);
+
+      expect(sent()).toBe(1);
+      expect(agent.getSession(session.id)).toMatchObject({
+        currentStep: 1,
+        heldUntil: undefined,
+      });
+    });
+
+    it('should not send a campaign step again when its job runs twice', async () => {
+      const [session] = await agent.detectInactiveCustomers(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+      const sent = () =>
+        Object.values(providers).reduce(
+          (total, provider) => total + provider.send.mock.calls.length,
+          0
+        );
+      expect(sent()).toBe(1);
+
+      // Another worker runs the first step's job again, as after a crash
+      // between sending and completing it
+      const restarted = new CustomerRetentionAgent(
+        {},
+        {},
+        communicationManager
+      );
+      await (restarted as any).runCampaignStepJob({
+        session: { ...session, currentStep: 0, messagesAttempted: 0 },
+      });
+
+      expect(sent()).toBe(1);
+      expect(restarted.getSession(session.id)?.currentStep).toBe(1);
+    });
+
+    it('should handle replies on another instance through stored sessions', async () => {
+      const stored = new Map<string, any>();
+      const agentSessions = {
+        save: vi.fn(async (session: any) => {
+          // Stored as JSON, so dates come back as strings
+          stored.set(session.id, JSON.parse(JSON.stringify(session)));
+        }),
+        findActiveForLead: vi.fn(
+          async (kind: string, leadId: string) =>
+            Array.from(stored.values()).find(
+              (session) =>
+                session.kind === kind &&
+                session.leadId === leadId &&
+                session.status === 'active'
+            ) ?? null
+        ),
+      };
+      const first = new CustomerRetentionAgent(
+        {},
+        { agentSessions: agentSessions as any },
+        communicationManager
+      );
+      const second = new CustomerRetentionAgent(
+        {},
+        { agentSessions: agentSessions as any },
+        communicationManager
+      );
+
+      const [session] = await first.detectInactiveCustomers(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+      const result = await second.handleCustomerResponse(
+        mockLead.id,
+        "Yes, I'm very interested!",
+        'sms'
+      );
+
+      expect(result.responseType).toBe('positive');
+      expect(second.getSession(session.id)?.startedAt).toEqual(
+        session.startedAt
+      );
+      expect(stored.get(session.id)).toMatchObject({
+        kind: 're_engagement',
+        status: 'completed',
+      });
+    });
+
     it('should throw error for response without active session', async () => {
       await expect(
         agent.handleCustomerResponse('non-existent-lead', 'Hello', 'sms')
@@ -524,59 +750,106 @@ describe('CustomerRetentionAgent', () => {
   describe('Multi-Channel Communication', () => {
     it('should send SMS messages', async () => {
       const success = await agent.sendMessage(
+        mockLead.id,
         'sms',
-        { phone: '+1234567890' },
+        { phone: '+1234567890', timezone: 'UTC' },
         { content: 'Test SMS message' }
       );
 
       expect(success).toBe(true);
-      expect(console.log).toHaveBeenCalledWith(
-        expect.stringContaining('Sending SMS to +1234567890')
+      expect(providers.sms.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'sms',
+          to: '+1234567890',
+          content: 'Test SMS message',
+        })
       );
     });
 
     it('should send email messages', async () => {
       const success = await agent.sendMessage(
+        mockLead.id,
         'email',
-        { email: 'test@example.com' },
+        { email: 'test@example.com', timezone: 'UTC' },
         { subject: 'Test Subject', content: 'Test email content' }
       );
 
       expect(success).toBe(true);
-      expect(console.log).toHaveBeenCalledWith(
-        expect.stringContaining('Sending email to test@example.com')
+      expect(providers.email.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'email',
+          to: 'test@example.com',
+          subject: 'Test Subject',
+          content: 'Test email content',
+        })
       );
     });
 
     it('should send WhatsApp messages', async () => {
       const success = await agent.sendMessage(
+        mockLead.id,
         'whatsapp',
-        { phone: '+1234567890' },
+        { phone: '+1234567890', timezone: 'UTC' },
         { content: 'Test WhatsApp message' }
       );
 
       expect(success).toBe(true);
-      expect(console.log).toHaveBeenCalledWith(
-        expect.stringContaining('Sending WhatsApp to +1234567890')
+      expect(providers.whatsapp.send).toHaveBeenCalledWith(
+        expect.objectContaining({ channel: 'whatsapp', to: '+1234567890' })
       );
     });
 
     it('should fail gracefully when contact info is missing', async () => {
       const smsSuccess = await agent.sendMessage(
+        mockLead.id,
         'sms',
-        { email: 'test@example.com' }, // No phone for SMS
+        { email: 'test@example.com', timezone: 'UTC' }, // No phone for SMS
         { content: 'Test message' }
       );
 
       const emailSuccess = await agent.sendMessage(
+        mockLead.id,
         'email',
-        { phone: '+1234567890' }, // No email for email
+        { phone: '+1234567890', timezone: 'UTC' }, // No email for email
         { content: 'Test message' }
       );
 
       expect(smsSuccess).toBe(false);
       expect(emailSuccess).toBe(false);
     });
+
+    it('should not send to leads who opted out of the channel', async () => {
+      await communicationManager.optOutFromChannel(mockLead.id, 'sms');
+
+      const success = await agent.sendMessage(
+        mockLead.id,
+        'sms',
+        { phone: '+1234567890', timezone: 'UTC' },
+        { content: 'Test message' }
+      );
+
+      expect(success).toBe(false);
+      expect(providers.sms.send).not.toHaveBeenCalled();
+    });
+
+    it('should enforce the channel cooldown', async () => {
+      const first = await agent.sendMessage(
+        mockLead.id,
+        'sms',
+        { phone: '+1234567890', timezone: 'UTC' },
+        { content: 'First message' }
+      );
+      const second = await agent.sendMessage(
+        mockLead.id,
+        'sms',
+        { phone: '+1234567890', timezone: 'UTC' },
+        { content: 'Second message' }
+      );
+
+      expect(first).toBe(true);
+      expect(second).toBe(false);
+      expect(providers.sms.send).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('Configuration Management', () => {
@@ -743,21 +1016,18 @@ describe('CustomerRetentionAgent', () => {
 
     it('should handle communication failures gracefully', async () => {
       // Mock a communication failure
-      const originalSendSMS = agent['sendSMS'];
-      agent['sendSMS'] = vi
-        .fn()
-        .mockRejectedValue(new Error('SMS service unavailable'));
+      providers.sms.send.mockRejectedValue(
+        new Error('SMS service unavailable')
+      );
 
       const success = await agent.sendMessage(
+        mockLead.id,
         'sms',
-        { phone: '+1234567890' },
+        { phone: '+1234567890', timezone: 'UTC' },
         { content: 'Test message' }
       );
 
       expect(success).toBe(false);
-
-      // Restore original method
-      agent['sendSMS'] = originalSendSMS;
     });
   });
 
@@ -802,8 +1072,13 @@ describe('CustomerRetentionAgent', () => {
 
       for (const channel of channels) {
         const success = await agent.sendMessage(
+          mockLead.id,
           channel,
-          { phone: '+1234567890', email: 'test@example.com' },
+          {
+            phone: '+1234567890',
+            email: 'test@example.com',
+            timezone: 'UTC',
+          },
           { content: 'Test message', subject: 'Test' }
         );
         expect(success).toBe(true);
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { recordAgentInteraction } from '../interaction-recorder';
+import { InteractionModel } from '../../types/interaction';
+import { logger } from '../../utils/logger';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const interaction = InteractionModel.create({
+  leadId: '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f',
+  agentId: 'test-agent',
+  type: 'sms',
+  direction: 'outbound',
+  content: 'Hi!',
+  outcome: {
+    status: 'successful',
+    appointmentBooked: false,
+    qualificationUpdated: false,
+    escalationRequired: false,
+  },
+}).data;
+
+describe('recordAgentInteraction', () => {
+  it('should store the interaction', async () => {
+    const interactions = { create: vi.fn().mockResolvedValue(interaction) };
+
+    await recordAgentInteraction(interactions as any, interaction);
+
+    expect(interactions.create).toHaveBeenCalledWith(interaction);
+  });
+
+  it('should log storage failures instead of throwing', async () => {
+    const interactions = {
+      create: vi.fn().mockRejectedValue(new Error('connection reset')),
+    };
+
+    await expect(
+      recordAgentInteraction(interactions as any, interaction)
+    ).resolves.toBeUndefined();
+    expect(logger.error).toHaveBeenCalledWith(
+      `Failed to store interaction ${interaction.id}`,
+      expect.any(Error)
+    );
+  });
+
+  it('should skip storage without a repository', async () => {
+    await expect(
+      recordAgentInteraction(undefined, interaction)
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNextQuestionId,
+  parseAnswer,
+  validateQualificationFlow,
+} from '../qualification-flow';
+import {
+  QualificationQuestion,
+  QualificationScript,
+} from '../virtual-sales-assistant';
+
+const question = (
+  id: string,
+  overrides: Partial<QualificationQuestion> = {}
+): QualificationQuestion => ({
+  id,
+  type: 'custom',
+  question: `Question ${id}?`,
+  expectedAnswerType: 'text',
+  required: true,
+  weight: 0.25,
+  ...overrides,
+});
+
+const script = (questions: QualificationQuestion[]): QualificationScript => ({
+  id: 'buyer-flow',
+  name: 'Buyer flow',
+  questions,
+  scoringRules: [],
+  enabled: true,
+});
+
+describe('qualification flow', () => {
+  const buyerFlow = script([
+    question('payment', {
+      expectedAnswerType: 'choice',
+      choices: ['Cash', 'Mortgage'],
+      next: [{ when: "answers.payment == 'cash'", next: 'selling' }],
+    }),
+    question('preapproval', { expectedAnswerType: 'boolean' }),
+    question('selling', {
+      expectedAnswerType: 'boolean',
+      next: [{ when: "answers.selling == 'no'", next: null }],
+    }),
+    question('current_home'),
+  ]);
+
+  it('should follow the first matching transition, then the script order', () => {
+    const next = (id: string, answers: Record<string, string>) =>
+      getNextQuestionId(buyerFlow, id, { answers });
+
+    expect(next('payment', { payment: 'Cash' })).toBe('selling');
+    expect(next('payment', { payment: 'Mortgage' })).toBe('preapproval');
+    expect(next('selling', { selling: 'no' })).toBeNull();
+    expect(next('selling', { selling: 'yes' })).toBe('current_home');
+    expect(next('current_home', {})).toBeNull();
+  });
+
+  it('should parse answers by their expected type', () => {
+    const yesNo = question('q', { expectedAnswerType: 'boolean' });
+    const count = question('q', { expectedAnswerType: 'number' });
+
+    expect(parseAnswer(yesNo, 'Yes, no problem')).toBe('yes');
+    expect(parseAnswer(yesNo, "No, I don't")).toBe('no');
+    expect(parseAnswer(yesNo, 'Hmm')).toBeUndefined();
+    expect(parseAnswer(count, 'About 1,200 sqft')).toBe('1200');
+    expect(parseAnswer(buyerFlow.questions[0], "I'll pay cash")).toBe('Cash');
+    expect(parseAnswer(buyerFlow.questions[0], 'Not sure yet')).toBeUndefined();
+  });
+
+  it('should accept a valid question graph', () => {
+    expect(validateQualificationFlow(buyerFlow)).toEqual([]);
+  });
+
+  it('should report unknown targets, unreachable questions and loops', () => {
+    const broken = script([
+      question('a', {
+        next: [
+          { when: "answers.b == 'yes'", next: 'c' },
+          { when: 'answers.missing exists', next: 'nowhere' },
+          { next: 'b' },
+        ],
+      }),
+      question('b', { next: [{ next: 'a' }] }),
+      question('c', {
+        next: [{ when: 'budget >', next: null }, { next: null }],
+      }),
+      question('orphan'),
+    ]);
+
+    expect(validateQualificationFlow(broken)).toEqual([
+      'Transition 2 of question a leads to unknown question nowhere',
+      'Transition 2 of question a uses the answer to unknown question missing',
+      expect.stringContaining(
+        'Transition 1 of question c: Unexpected end of condition'
+      ),
+      'Question orphan can never be asked',
+      'Questions loop: a -> b -> a',
+    ]);
+  });
+
+  it('should report a missing start question and duplicate IDs', () => {
+    expect(
+      validateQualificationFlow({
+        ...script([question('a'), question('a')]),
+        startQuestionId: 'b',
+      })
+    ).toEqual([
+      'Question a is defined more than once',
+      'Start question b does not exist',
+    ]);
+  });
+});
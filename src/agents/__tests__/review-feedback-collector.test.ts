@@ -11,6 +11,13 @@ import {
 import { Lead, LeadModel } from '../../types/lead';
 import { Interaction, InteractionModel } from '../../types/interaction';
 import { generateUUID } from '../../types/validation';
+import { ConsentLedger } from '../../communication/consent-ledger';
+import { MultiChannelCommunicationManager } from '../../communication/multi-channel-manager';
+import {
+  MessageProvider,
+  createMessageProviders,
+} from '../../communication/providers';
+import { InMemoryJobStore, JobQueue, JobWorker } from '../../jobs';
 
 describe('ReviewFeedbackCollectorAgent', () => {
   let agent: ReviewFeedbackCollectorAgent;
@@ -18,7 +25,16 @@ describe('ReviewFeedbackCollectorAgent', () => {
   let mockInteractions: Interaction[];
 
   beforeEach(() => {
-    agent = new ReviewFeedbackCollectorAgent();
+    // Messages are only sent inside the lead's send window
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    // Consent is covered by the communication manager tests
+    agent = new ReviewFeedbackCollectorAgent(
+      {},
+      {},
+      new MultiChannelCommunicationManager(createMessageProviders(), {
+        consentLedger: new ConsentLedger({ requireOptIn: [] }),
+      })
+    );
 
     const leadId = generateUUID();
     const interactionId = generateUUID();
@@ -77,6 +93,7 @@ describe('ReviewFeedbackCollectorAgent', () => {
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.useRealTimers();
   });
 
   describe('Initialization', () => {
@@ -684,4 +701,169 @@ describe('ReviewFeedbackCollectorAgent', () => {
       expect(session.feedbackContent).toBe(feedback);
     });
   });
+
+  describe('Message Delivery', () => {
+    let emailProvider: MessageProvider & { send: ReturnType<typeof vi.fn> };
+    let communicationManager: MultiChannelCommunicationManager;
+
+    beforeEach(() => {
+      emailProvider = {
+        name: 'mock',
+        channel: 'email',
+        send: vi.fn().mockImplementation(async () => ({
+          provider: 'mock',
+          messageId: generateUUID(),
+          status: 'sent',
+        })),
+      };
+      communicationManager = new MultiChannelCommunicationManager(
+        [emailProvider],
+        { consentLedger: new ConsentLedger({ requireOptIn: [] }) }
+      );
+      agent = new ReviewFeedbackCollectorAgent({}, {}, communicationManager);
+    });
+
+    it('should send feedback requests through the communication manager', async () => {
+      await agent.detectCompletedProjects(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+
+      expect(emailProvider.send).toHaveBeenCalledTimes(1);
+      expect(emailProvider.send).toHaveBeenCalledWith(
+        expect.objectContaining({
+          channel: 'email',
+          to: 'john.smith@example.com',
+        })
+      );
+
+      const attempts =
+        await communicationManager.getCommunicationAttempts(mockLead.id);
+      expect(attempts).toHaveLength(1);
+      expect(attempts[0].successful).toBe(true);
+    });
+
+    it('should send the review request as a reply despite the channel cooldown', async () => {
+      await agent.detectCompletedProjects(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+
+      await agent.handleFeedbackResponse(
+        mockLead.id,
+        'Excellent service! Very professional and helpful!',
+        'email'
+      );
+
+      expect(emailProvider.send).toHaveBeenCalledTimes(2);
+      expect(agent.getActiveSessions()[0].reviewRequested).toBe(true);
+    });
+
+    it('should send follow-ups from the job queue up to the maximum', async () => {
+      const store = new InMemoryJobStore();
+      const jobs = new JobQueue(store);
+      agent = new ReviewFeedbackCollectorAgent(
+        { followUpDelayHours: 72, maxFollowUpAttempts: 2 },
+        {},
+        communicationManager,
+        jobs
+      );
+      const [session] = await agent.detectCompletedProjects(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+
+      // Follow-ups run on a fresh instance, as after a restart
+      const restarted = new ReviewFeedbackCollectorAgent(
+        { followUpDelayHours: 72, maxFollowUpAttempts: 2 },
+        {},
+        communicationManager,
+        jobs
+      );
+      const worker = new JobWorker(store, { workerId: 'worker-1' });
+      restarted.registerJobHandlers(worker);
+
+      for (let check = 0; check < 3; check++) {
+        expect(await worker.runOnce()).toBe(0);
+        vi.setSystemTime(Date.now() + 72 * 60 * 60 * 1000);
+        expect(await worker.runOnce()).toBe(1);
+      }
+
+      expect(emailProvider.send).toHaveBeenCalledTimes(3);
+      expect(restarted.getSession(session.id)).toMatchObject({
+        status: 'completed',
+        outcome: 'no_response',
+      });
+      vi.setSystemTime(Date.now() + 72 * 60 * 60 * 1000);
+      expect(await worker.runOnce()).toBe(0);
+    });
+
+    it('should hold follow-ups until the send window opens and send each once', async () => {
+      const store = new InMemoryJobStore();
+      const jobs = new JobQueue(store);
+      const leads = { findById: vi.fn().mockResolvedValue(mockLead) };
+      agent = new ReviewFeedbackCollectorAgent(
+        { followUpDelayHours: 72, maxFollowUpAttempts: 2 },
+        { leads: leads as any },
+        communicationManager,
+        jobs
+      );
+      const worker = new JobWorker(store, { workerId: 'worker-1' });
+      agent.registerJobHandlers(worker);
+      const [session] = await agent.detectCompletedProjects(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+      expect(emailProvider.send).toHaveBeenCalledTimes(1);
+
+      // The follow-up falls at midnight for a lead in Tokyo
+      mockLead.contactInfo.timezone = 'Asia/Tokyo';
+      vi.setSystemTime(Date.now() + 72 * 60 * 60 * 1000);
+      expect(await worker.runOnce()).toBe(1);
+
+      const windowOpens = new Date('2026-01-17T23:00:00.000Z');
+      expect(emailProvider.send).toHaveBeenCalledTimes(1);
+      expect(agent.getSession(session.id)?.heldUntil).toEqual(windowOpens);
+
+      vi.setSystemTime(windowOpens);
+      expect(await worker.runOnce()).toBe(1);
+      expect(emailProvider.send).toHaveBeenCalledTimes(2);
+
+      // The same check running again, as after a crash before its job
+      // completed, does not send the follow-up twice
+      await (agent as any).runFollowUpCheckJob({ session, followUpsSent: 0 });
+      expect(emailProvider.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not contact leads who opted out', async () => {
+      await communicationManager.optOutFromChannel(mockLead.id, 'email');
+
+      await agent.detectCompletedProjects(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+
+      expect(emailProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should notify management of escalations without lead frequency limits', async () => {
+      await agent.detectCompletedProjects(
+        [mockLead],
+        new Map([[mockLead.id, mockInteractions]])
+      );
+
+      await agent.handleFeedbackResponse(
+        mockLead.id,
+        'I had a terrible experience. The agent was unprofessional and there were many delays.',
+        'email'
+      );
+
+      expect(emailProvider.send).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          to: 'management@company.com',
+          subject: expect.stringContaining('URGENT'),
+        })
+      );
+    });
+  });
 });
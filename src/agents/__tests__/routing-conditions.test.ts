@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateCondition, RoutingContext } from '../routing-conditions';
+import { Lead } from '../../types/lead';
+import { RuleCondition } from '../../types/routing-rule';
+
+const now = new Date('2026-01-14T15:00:00.000Z');
+
+const lead: Lead = {
+  id: '550e8400-e29b-41d4-a716-446655440000',
+  source: 'website',
+  contactInfo: {
+    name: 'Maria Souza',
+    email: 'maria@example.com',
+    preferredChannel: 'email',
+  },
+  leadType: 'warm',
+  urgencyLevel: 6,
+  intentSignals: ['requested_tour', 'pricing_inquiry'],
+  qualificationData: {
+    budget: { min: 200000, max: 400000 },
+    location: 'Lisboa',
+    qualificationScore: 0.7,
+  },
+  status: 'new',
+  createdAt: new Date('2026-01-14T12:00:00.000Z'),
+  updatedAt: new Date('2026-01-14T12:00:00.000Z'),
+};
+
+const context: RoutingContext = {
+  lead,
+  analysis: { leadType: 'warm', intentScore: 0.55, urgencyLevel: 6 },
+  config: { intentThresholds: { high: 0.7, medium: 0.4 } },
+  now,
+};
+
+const evaluate = (condition: RuleCondition) =>
+  evaluateCondition(condition, context);
+
+describe('evaluateCondition', () => {
+  it('should compare fields with literals', () => {
+    expect(
+      evaluate({ field: 'lead.source', operator: 'equals', value: 'website' })
+    ).toBe(true);
+    expect(
+      evaluate({
+        field: 'lead.source',
+        operator: 'not_equals',
+        value: 'website',
+      })
+    ).toBe(false);
+    expect(
+      evaluate({
+        field: 'lead.qualificationData.qualificationScore',
+        operator: 'greater_than',
+        value: 0.5,
+      })
+    ).toBe(true);
+    expect(
+      evaluate({
+        field: 'analysis.urgencyLevel',
+        operator: 'less_than_or_equal',
+        value: 5,
+      })
+    ).toBe(false);
+  });
+
+  it('should compare fields with other fields', () => {
+    expect(
+      evaluate({
+        field: 'analysis.intentScore',
+        operator: 'greater_than_or_equal',
+        value: { field: 'config.intentThresholds.medium' },
+      })
+    ).toBe(true);
+    expect(
+      evaluate({
+        field: 'analysis.intentScore',
+        operator: 'greater_than_or_equal',
+        value: { field: 'config.intentThresholds.high' },
+      })
+    ).toBe(false);
+  });
+
+  it('should support in and contains', () => {
+    expect(
+      evaluate({
+        field: 'lead.source',
+        operator: 'in',
+        value: ['website', 'referral'],
+      })
+    ).toBe(true);
+    expect(
+      evaluate({ field: 'lead.source', operator: 'not_in', value: ['website'] })
+    ).toBe(false);
+    expect(
+      evaluate({
+        field: 'lead.intentSignals',
+        operator: 'contains',
+        value: 'requested_tour',
+      })
+    ).toBe(true);
+    expect(
+      evaluate({
+        field: 'lead.contactInfo.email',
+        operator: 'contains',
+        value: '@EXAMPLE.com',
+      })
+    ).toBe(true);
+  });
+
+  it('should combine conditions with all, any and not', () => {
+    const condition: RuleCondition = {
+      all: [
+        { field: 'analysis.leadType', operator: 'equals', value: 'warm' },
+        {
+          any: [
+            { field: 'lead.source', operator: 'equals', value: 'referral' },
+            { not: { field: 'lead.contactInfo.phone', operator: 'exists' } },
+          ],
+        },
+      ],
+    };
+
+    expect(evaluate(condition)).toBe(true);
+    expect(
+      evaluateCondition(condition, {
+        ...context,
+        lead: {
+          ...lead,
+          contactInfo: { ...lead.contactInfo, phone: '+351912345678' },
+        },
+      })
+    ).toBe(false);
+  });
+
+  it('should expose the lead age in hours', () => {
+    expect(
+      evaluate({ field: 'lead.ageHours', operator: 'less_than', value: 4 })
+    ).toBe(true);
+    expect(
+      evaluate({ field: 'lead.ageHours', operator: 'greater_than', value: 3 })
+    ).toBe(false);
+  });
+
+  it('should treat unknown fields as missing', () => {
+    expect(
+      evaluate({ field: 'lead.notAField', operator: 'equals', value: null })
+    ).toBe(false);
+    expect(evaluate({ field: 'lead.constructor', operator: 'exists' })).toBe(
+      false
+    );
+    expect(
+      evaluate({ field: 'lead.source', operator: 'greater_than', value: 3 })
+    ).toBe(false);
+  });
+});
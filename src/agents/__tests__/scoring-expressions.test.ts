@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compileScoringCondition,
+  parseTimelineDays,
+  validateScoringCondition,
+  ScoringData,
+} from '../scoring-expressions';
+
+const data: ScoringData = {
+  budget: { min: 400000, max: 650000 },
+  location: 'Downtown Lisbon',
+  propertyType: 'Condo',
+  timeline: 'Probably within 1-3 months',
+};
+
+const matches = (condition: string, input: ScoringData = data) =>
+  compileScoringCondition(condition)(input);
+
+describe('compileScoringCondition', () => {
+  it('should compare numbers, with suffixes and durations', () => {
+    expect(matches('budget > 500000')).toBe(true);
+    expect(matches('budget >= 650k')).toBe(true);
+    expect(matches('budget_min < 0.4m')).toBe(false);
+    expect(matches('budget between 300k and 700k')).toBe(true);
+    expect(matches('timeline_days <= 3 months')).toBe(true);
+    expect(matches('timeline_days < 2 weeks')).toBe(false);
+  });
+
+  it('should match strings ignoring case', () => {
+    expect(matches("location contains 'downtown'")).toBe(true);
+    expect(matches("property_type in ('condo', 'townhouse')")).toBe(true);
+    expect(matches('property_type = "CONDO"')).toBe(true);
+    expect(matches("property_type != 'condo'")).toBe(false);
+  });
+
+  it('should combine conditions with precedence and parentheses', () => {
+    expect(
+      matches("budget > 1m or location contains 'lisbon' and budget exists")
+    ).toBe(true);
+    expect(
+      matches("(budget > 1m or location contains 'lisbon') and not budget exists")
+    ).toBe(false);
+    expect(matches('!(budget < 100k) && timeline exists')).toBe(true);
+  });
+
+  it('should treat missing values as not matching', () => {
+    expect(matches('budget > 0', {})).toBe(false);
+    expect(matches('budget != 5', {})).toBe(false);
+    expect(matches('not budget exists', {})).toBe(true);
+    expect(matches('timeline_days <= 90', { timeline: 'not sure yet' })).toBe(
+      false
+    );
+  });
+
+  it('should keep supporting the original named conditions', () => {
+    expect(matches('budget_mentioned')).toBe(true);
+    expect(matches('timeline_within_3_months')).toBe(true);
+    expect(matches('specific_location_mentioned', {})).toBe(false);
+  });
+
+  it('should not read object prototype properties as fields', () => {
+    expect(validateScoringCondition('constructor exists')).toContain(
+      "Unknown field 'constructor'"
+    );
+    expect(validateScoringCondition('__proto__ exists')).toContain(
+      "Unknown field '__proto__'"
+    );
+    expect(
+      compileScoringCondition('answers.constructor exists')({ answers: {} })
+    ).toBe(false);
+  });
+
+  it('should report invalid conditions with their position', () => {
+    expect(validateScoringCondition('budget > 500000')).toBeNull();
+    expect(validateScoringCondition('budgt > 5')).toBe(
+      'Unknown field \'budgt\' at position 1 of "budgt > 5"'
+    );
+    expect(validateScoringCondition("budget > 'high'")).toContain(
+      "'>' cannot compare high (string) with a number"
+    );
+    expect(validateScoringCondition('budget >')).toContain(
+      'Unexpected end of condition'
+    );
+    expect(validateScoringCondition('location')).toContain(
+      "Expected a comparison after 'location'"
+    );
+    expect(validateScoringCondition("location contains 'x")).toContain(
+      'Unterminated string'
+    );
+    expect(validateScoringCondition('budget > 5; process.exit()')).toContain(
+      "Unexpected character ';'"
+    );
+    expect(validateScoringCondition('  ')).toBe('Condition is empty');
+  });
+});
+
+describe('parseTimelineDays', () => {
+  it('should read common timeline answers', () => {
+    expect(parseTimelineDays('Within 30 days')).toBe(30);
+    expect(parseTimelineDays('1-3 months')).toBe(90);
+    expect(parseTimelineDays('6+ months')).toBe(180);
+    expect(parseTimelineDays('in a couple of weeks')).toBe(14);
+    expect(parseTimelineDays('next year probably')).toBe(365);
+    expect(parseTimelineDays('ASAP!')).toBe(0);
+    expect(parseTimelineDays('whenever')).toBeUndefined();
+  });
+
+  it('should read Portuguese timeline answers', () => {
+    expect(parseTimelineDays('em 3 meses')).toBe(90);
+    expect(parseTimelineDays('Daqui a duas semanas')).toBe(14);
+    expect(parseTimelineDays('de 3 a 6 meses')).toBe(180);
+    expect(parseTimelineDays('entre 1 e 2 anos')).toBe(730);
+    expect(parseTimelineDays('dentro de um mês')).toBe(30);
+    expect(parseTimelineDays('três meses')).toBe(90);
+    expect(parseTimelineDays('Semana que vem')).toBe(7);
+    expect(parseTimelineDays('no próximo ano')).toBe(365);
+    expect(parseTimelineDays('amanhã')).toBe(1);
+    expect(parseTimelineDays('o quanto antes')).toBe(0);
+    expect(parseTimelineDays('ainda não sei')).toBeUndefined();
+  });
+});
@@ -1,10 +1,15 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import {
   VirtualSalesAssistant,
   VSAConfig,
   CallSession,
 } from '../virtual-sales-assistant';
 import { LeadModel, CreateLead } from '../../types/lead';
+import {
+  MockTelephonyServer,
+  SpeechProvider,
+  WebSocketCallControl,
+} from '../../communication/voice';
 
 describe('VirtualSalesAssistant', () => {
   let vsa: VirtualSalesAssistant;
@@ -224,6 +229,50 @@ describe('VirtualSalesAssistant', () => {
     });
   });
 
+  describe('Appointment Availability', () => {
+    let session: CallSession;
+
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-07-01T17:00:00.000Z'));
+      session = await vsa.initiateCall(testLead.data);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should offer the next free configured time slots', async () => {
+      await expect((vsa as any).getAvailableSlots(testLead.id)).resolves.toBe(
+        'tomorrow at 09:00, or tomorrow at 10:00, or tomorrow at 11:00'
+      );
+
+      await vsa.bookAppointment(session.id, {
+        type: 'consultation',
+        scheduledAt: new Date('2024-07-02T10:00:00.000Z'),
+      });
+
+      await expect((vsa as any).getAvailableSlots(testLead.id)).resolves.toBe(
+        'tomorrow at 09:00, or tomorrow at 11:00, or tomorrow at 14:00'
+      );
+    });
+
+    it('should enforce the buffer time between appointments', async () => {
+      await vsa.bookAppointment(session.id, {
+        type: 'consultation',
+        scheduledAt: new Date('2024-07-02T10:00:00.000Z'),
+      });
+
+      await expect(
+        vsa.bookAppointment(session.id, {
+          type: 'property_viewing',
+          scheduledAt: new Date('2024-07-02T10:40:00.000Z'),
+        })
+      ).rejects.toThrow('already has an appointment');
+      expect(vsa.getAppointments()).toHaveLength(1);
+    });
+  });
+
   describe('Human Transfer', () => {
     let session: CallSession;
 
@@ -332,6 +381,66 @@ describe('VirtualSalesAssistant', () => {
       expect(interaction.content).toContain('Appointment successfully booked');
       expect(interaction.content).toContain('Qualification score');
     });
+
+    it('should store the interaction with call sentiment', async () => {
+      const interactions = { create: vi.fn().mockResolvedValue(undefined) };
+      const storingVsa = new VirtualSalesAssistant({}, {
+        interactions: interactions as any,
+      });
+      const storedSession = await storingVsa.initiateCall(testLead.data);
+      await storingVsa.processCustomerResponse(
+        storedSession.id,
+        'Yes, this sounds great'
+      );
+
+      const interaction = await storingVsa.completeCall(storedSession.id);
+
+      expect(interactions.create).toHaveBeenCalledWith(interaction);
+      expect(interaction.sentiment?.score).toBeGreaterThan(0);
+      expect(interaction.sentiment?.confidence).toBe(0.85);
+    });
+
+    it('should store the redacted transcript with the interaction', async () => {
+      const transcripts = { save: vi.fn().mockResolvedValue(undefined) };
+      const storingVsa = new VirtualSalesAssistant({}, {
+        transcripts: transcripts as any,
+      });
+      const storedSession = await storingVsa.initiateCall(testLead.data);
+      await storingVsa.processCustomerResponse(
+        storedSession.id,
+        'Sure, can I pay the deposit with card 4111 1111 1111 1111?'
+      );
+
+      const interaction = await storingVsa.completeCall(storedSession.id);
+
+      const [transcript] = transcripts.save.mock.calls[0];
+      expect(transcript).toMatchObject({
+        interactionId: interaction.id,
+        leadId: testLead.id,
+        sessionId: storedSession.id,
+        channel: 'call',
+        redactions: 1,
+      });
+      expect(transcript.turns).toHaveLength(3);
+      expect(transcript.turns[1]).toMatchObject({
+        speaker: 'customer',
+        text: 'Sure, can I pay the deposit with card [REDACTED CARD]?',
+        confidence: 0.85,
+      });
+      expect(transcript.turns[1].sentiment).toBeDefined();
+    });
+
+    it('should still complete the call when storage fails', async () => {
+      const interactions = {
+        create: vi.fn().mockRejectedValue(new Error('connection lost')),
+      };
+      const storingVsa = new VirtualSalesAssistant({}, {
+        interactions: interactions as any,
+      });
+      const storedSession = await storingVsa.initiateCall(testLead.data);
+
+      await expect(storingVsa.completeCall(storedSession.id)).resolves.toBeDefined();
+    });
   });
 
   describe('Session Management', () => {
@@ -393,6 +502,541 @@ describe('VirtualSalesAssistant', () => {
       // Should have default scripts initialized
       expect(newVSA).toBeDefined();
     });
+
+    it('should reject qualification scripts with invalid scoring rules', () => {
+      const [script] = vsa.getQualificationScripts();
+
+      expect(() =>
+        vsa.registerQualificationScript({
+          ...script,
+          scoringRules: [
+            {
+              questionId: 'budget',
+              condition: 'budget >> 500000',
+              score: 1,
+              description: 'Typo in operator',
+            },
+            {
+              questionId: 'financing',
+              condition: 'budget exists',
+              score: 1,
+              description: 'No such question',
+            },
+          ],
+        })
+      ).toThrow(
+        /Scoring rule 1: Expected a field or value but found '>'.*Scoring rule 2 refers to unknown question financing/
+      );
+      expect(
+        () =>
+          new VirtualSalesAssistant({
+            qualificationScripts: [
+              {
+                ...script,
+                scoringRules: [
+                  { ...script.scoringRules[0], condition: 'price > 5' },
+                ],
+              },
+            ],
+          })
+      ).toThrow("Unknown field 'price'");
+    });
+
+    it('should score leads with the expressions of a registered script', async () => {
+      const [script] = vsa.getQualificationScripts();
+      vsa.registerQualificationScript({
+        ...script,
+        scoringRules: [
+          {
+            questionId: 'budget',
+            condition: 'budget_max > 550k',
+            score: 1,
+            description: 'Budget above the local median',
+          },
+          {
+            questionId: 'location',
+            condition: "location contains 'downtown'",
+            score: 1,
+            description: 'Looking downtown',
+          },
+        ],
+      });
+      const session = await vsa.initiateCall(testLead.data);
+
+      await vsa.processCustomerResponse(session.id, 'My budget is $500,000');
+
+      expect(vsa.getQualificationScripts()).toHaveLength(1);
+      expect(vsa.getSession(session.id)?.qualificationScore).toBe(0.5);
+    });
+
+    it('should branch on answers and clarify answers it does not understand', async () => {
+      const [script] = vsa.getQualificationScripts();
+      vsa.registerQualificationScript({
+        ...script,
+        questions: [
+          {
+            id: 'payment',
+            type: 'custom',
+            question: 'How are you planning to pay for the property?',
+            expectedAnswerType: 'choice',
+            choices: ['Cash', 'Mortgage'],
+            required: true,
+            weight: 0.5,
+            next: [{ when: "answers.payment == 'cash'", next: 'selling' }],
+            clarificationPrompts: ['Will you pay in cash or with a mortgage?'],
+          },
+          {
+            id: 'preapproval',
+            type: 'custom',
+            question: 'Are you pre-approved for a mortgage?',
+            expectedAnswerType: 'boolean',
+            required: true,
+            weight: 0.5,
+          },
+          {
+            id: 'selling',
+            type: 'custom',
+            question: 'Do you need to sell your current home first?',
+            expectedAnswerType: 'boolean',
+            required: true,
+            weight: 0.5,
+            next: [{ when: "answers.selling == 'no'", next: null }],
+          },
+          {
+            id: 'current_home',
+            type: 'custom',
+            question: 'Where is your current home?',
+            expectedAnswerType: 'text',
+            required: false,
+            weight: 0.5,
+          },
+        ],
+        scoringRules: [],
+      });
+      const session = await vsa.initiateCall(testLead.data);
+
+      const replies = [];
+      for (const response of [
+        'Yes, I have a few minutes',
+        'Hmm, good question',
+        'Cash',
+        'Yes',
+        'In the suburbs',
+      ]) {
+        replies.push(await vsa.processCustomerResponse(session.id, response));
+      }
+
+      expect(replies.slice(0, 4)).toEqual([
+        'How are you planning to pay for the property?',
+        'Will you pay in cash or with a mortgage?',
+        'Do you need to sell your current home first?',
+        'Where is your current home?',
+      ]);
+      expect(replies[4]).toContain('schedule');
+      expect(vsa.getSession(session.id)?.answers).toEqual({
+        payment: 'Cash',
+        selling: 'yes',
+        current_home: 'In the suburbs',
+      });
+    });
+  });
+
+  describe('Voice Calls', () => {
+    let telephony: MockTelephonyServer;
+    let calls: WebSocketCallControl;
+    let speech: SpeechProvider;
+    let voiceVsa: VirtualSalesAssistant;
+
+    beforeEach(async () => {
+      telephony = new MockTelephonyServer();
+      calls = new WebSocketCallControl({
+        url: await telephony.listen(),
+        requestTimeoutMs: 2000,
+      });
+      speech = {
+        name: 'test',
+        transcribe: vi.fn(),
+        synthesize: vi.fn().mockResolvedValue({
+          data: Buffer.from('audio'),
+          contentType: 'audio/wav',
+        }),
+      };
+      voiceVsa = new VirtualSalesAssistant(
+        {
+          humanTransfer: {
+            enabled: true,
+            transferThreshold: 0.7,
+            availableAgents: ['agent-001'],
+            maxWaitTime: 300,
+          },
+        },
+        {},
+        undefined,
+        undefined,
+        { speech, calls }
+      );
+    });
+
+    afterEach(async () => {
+      await calls.close();
+      await telephony.close();
+    });
+
+    it('should run a qualification call until the lead hangs up', async () => {
+      telephony.scriptCall('+1-555-123-4567', {
+        utterances: [
+          'Yes, I have a few minutes',
+          { text: 'My budget is around $500,000', confidence: 0.8 },
+        ],
+      });
+
+      const session = await voiceVsa.initiateCall(testLead.data);
+      const interaction = await voiceVsa.conductCall(session.id);
+
+      const call = telephony.getCall(session.id)!;
+      expect(call.status).toBe('completed');
+      expect(session.recording?.url).toBe(
+        `mock://recordings/${session.id}.wav`
+      );
+      expect(call.prompts).toEqual(
+        session.transcript
+          .filter((entry) => entry.speaker === 'agent')
+          .map((entry) => entry.text)
+      );
+      expect(call.prompts[0]).toContain('John');
+      expect(speech.synthesize).toHaveBeenCalledWith(call.prompts[0], {
+        language: 'en-US',
+        voiceId: undefined,
+        model: undefined,
+      });
+      expect(session.transcript[3].confidence).toBe(0.8);
+      expect(session.qualificationData.budget).toBeDefined();
+      expect(interaction.type).toBe('call');
+      expect(interaction.outcome.status).toBe('successful');
+    });
+
+    it('should hand the call to the assigned agent on a human transfer', async () => {
+      telephony.scriptCall('+1-555-123-4567', {
+        utterances: [
+          'Yes',
+          "Well, it depends on many factors and I'm not sure about the complicated financial situation...",
+          'Hello?',
+        ],
+      });
+
+      const session = await voiceVsa.initiateCall(testLead.data);
+      const interaction = await voiceVsa.conductCall(session.id);
+
+      const call = telephony.getCall(session.id)!;
+      expect(call.status).toBe('transferred');
+      expect(call.transferredTo).toBe('agent-001');
+      expect(call.prompts[call.prompts.length - 1]).toContain(
+        'connect you with one of our senior agents'
+      );
+      expect(call.utterances).toHaveLength(2);
+      expect(interaction.outcome.status).toBe('transferred');
+    });
+
+    it('should transcribe audio when the platform sends no transcript', async () => {
+      const gather = vi
+        .spyOn(calls, 'gather')
+        .mockResolvedValueOnce({
+          audio: { data: Buffer.from('wav'), contentType: 'audio/wav' },
+        })
+        .mockResolvedValueOnce(null);
+      vi.mocked(speech.transcribe).mockResolvedValue({
+        text: 'Yes, go ahead',
+        confidence: 0.6,
+      });
+      telephony.scriptCall('+1-555-123-4567', { utterances: [] });
+
+      const session = await voiceVsa.initiateCall(testLead.data);
+      await voiceVsa.conductCall(session.id);
+
+      expect(gather).toHaveBeenCalledTimes(2);
+      expect(session.transcript[1]).toMatchObject({
+        speaker: 'customer',
+        text: 'Yes, go ahead',
+        confidence: 0.6,
+      });
+    });
+
+    it('should fail the call when the lead does not answer', async () => {
+      telephony.scriptCall('+1-555-123-4567', {
+        answer: false,
+        utterances: [],
+      });
+
+      await expect(voiceVsa.initiateCall(testLead.data)).rejects.toThrow(
+        'Failed to initiate call: Telephony dial failed'
+      );
+      expect(voiceVsa.getActiveSessions()).toHaveLength(0);
+    });
+  });
+
+  describe('Text Conversations', () => {
+    const sendMessage = vi.fn();
+    let textVsa: VirtualSalesAssistant;
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+      sendMessage.mockReset().mockResolvedValue({ sent: true });
+      textVsa = new VirtualSalesAssistant(
+        {
+          textConversations: {
+            inactivityTimeoutMinutes: 180,
+            resumePrompts: [{ afterMinutes: 30, message: 'Still there?' }],
+            checkIntervalMs: 60000,
+          },
+        },
+        {},
+        undefined,
+        { sendMessage }
+      );
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should qualify over WhatsApp and send each reply', async () => {
+      const session = await textVsa.startTextConversation(
+        testLead.data,
+        'whatsapp'
+      );
+
+      expect(session.channel).toBe('whatsapp');
+      expect(session.transcript[0].text).toContain('Hi John');
+      expect(sendMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          leadId: testLead.id,
+          channel: 'whatsapp',
+          to: '+1-555-123-4567',
+          reply: false,
+        })
+      );
+
+      const reply = await textVsa.processCustomerResponse(
+        session.id,
+        'Yes, go ahead'
+      );
+
+      expect(reply).toContain('budget');
+      expect(sendMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ content: reply, reply: true })
+      );
+      expect(session.transcript[1].confidence).toBe(1);
+    });
+
+    it('should not transfer long text conversations to a human', async () => {
+      const session = await textVsa.startTextConversation(
+        testLead.data,
+        'sms'
+      );
+      vi.setSystemTime(new Date('2026-01-14T17:00:00.000Z'));
+
+      await textVsa.processCustomerResponse(session.id, 'Yes, go ahead');
+
+      expect(session.status).toBe('active');
+    });
+
+    it('should prompt silent leads with the pending question, then expire', async () => {
+      const session = await textVsa.startTextConversation(
+        testLead.data,
+        'whatsapp'
+      );
+      const question = await textVsa.processCustomerResponse(
+        session.id,
+        'Yes, go ahead'
+      );
+
+      const at = (time: string) =>
+        textVsa.checkInactiveSessions(new Date(`2026-01-14T${time}.000Z`));
+
+      expect((await at('15:20:00')).prompted).toHaveLength(0);
+      expect((await at('15:31:00')).prompted).toEqual([session]);
+      expect(sendMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          content: `Still there? ${question}`,
+          reply: false,
+        })
+      );
+      expect((await at('16:00:00')).prompted).toHaveLength(0);
+
+      const { expired } = await at('18:00:00');
+
+      expect(expired).toEqual([session]);
+      expect(session.status).toBe('expired');
+      expect(textVsa.getActiveSessions()).toHaveLength(0);
+    });
+
+    it('should repeat only the pending question in later resume prompts', async () => {
+      textVsa.updateConfig({
+        textConversations: {
+          inactivityTimeoutMinutes: 180,
+          resumePrompts: [
+            { afterMinutes: 30, message: 'Still there?' },
+            { afterMinutes: 90, message: 'Just checking in.' },
+          ],
+          checkIntervalMs: 60000,
+        },
+      });
+      const session = await textVsa.startTextConversation(
+        testLead.data,
+        'sms'
+      );
+      const question = await textVsa.processCustomerResponse(
+        session.id,
+        'Yes, go ahead'
+      );
+
+      await textVsa.checkInactiveSessions(new Date('2026-01-14T15:31:00.000Z'));
+      await textVsa.checkInactiveSessions(new Date('2026-01-14T16:31:00.000Z'));
+
+      const prompts = sendMessage.mock.calls.slice(-2).map(([m]) => m.content);
+
+      expect(prompts).toEqual([
+        `Still there? ${question}`,
+        `Just checking in. ${question}`,
+      ]);
+    });
+
+    it('should store text conversations and resume them from the database', async () => {
+      const stored = new Map<string, any>();
+      const agentSessions = {
+        save: vi.fn(async (session: any) => {
+          stored.set(session.id, JSON.parse(JSON.stringify(session)));
+        }),
+        findById: vi.fn(async (kind: string, id: string) =>
+          stored.get(id)?.kind === kind ? stored.get(id) : null
+        ),
+        findActiveForLead: vi.fn(
+          async (kind: string, leadId: string) =>
+            [...stored.values()].find(
+              (session) =>
+                session.kind === kind &&
+                session.leadId === leadId &&
+                session.status === 'active'
+            ) ?? null
+        ),
+      };
+      const options = {
+        textConversations: {
+          inactivityTimeoutMinutes: 180,
+          resumePrompts: [],
+          checkIntervalMs: 60000,
+        },
+      };
+      const session = await new VirtualSalesAssistant(
+        options,
+        { agentSessions: agentSessions as any },
+        undefined,
+        { sendMessage }
+      ).startTextConversation(testLead.data, 'sms');
+
+      expect(agentSessions.save).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: session.id,
+          kind: 'sales',
+          leadId: testLead.id,
+          status: 'active',
+        })
+      );
+
+      // Another instance picks up the lead's reply
+      const restarted = new VirtualSalesAssistant(
+        options,
+        { agentSessions: agentSessions as any },
+        undefined,
+        { sendMessage }
+      );
+      const found = await restarted.findActiveSession(testLead.id);
+
+      expect(found?.id).toBe(session.id);
+      expect(found?.lastActivityAt).toEqual(session.lastActivityAt);
+
+      const reply = await restarted.processCustomerResponse(
+        session.id,
+        'Yes, go ahead'
+      );
+
+      expect(reply).toContain('budget');
+      expect(stored.get(session.id).state.transcript).toHaveLength(3);
+    });
+
+    it('should prompt and expire conversations stored by other instances', async () => {
+      const stored = new Map<string, any>();
+      const agentSessions = {
+        save: vi.fn(async (session: any) => {
+          stored.set(session.id, JSON.parse(JSON.stringify(session)));
+        }),
+        findById: vi.fn(async (_kind: string, id: string) => stored.get(id) ?? null),
+        findActive: vi.fn(async (kind: string) =>
+          [...stored.values()].filter(
+            (session) => session.kind === kind && session.status === 'active'
+          )
+        ),
+      };
+      const options = {
+        textConversations: {
+          inactivityTimeoutMinutes: 180,
+          resumePrompts: [{ afterMinutes: 30, message: 'Still there?' }],
+          checkIntervalMs: 60000,
+        },
+      };
+      const session = await new VirtualSalesAssistant(
+        options,
+        { agentSessions: agentSessions as any },
+        undefined,
+        { sendMessage }
+      ).startTextConversation(testLead.data, 'sms');
+
+      // The worker's assistant only knows the conversation from the database
+      const worker = new VirtualSalesAssistant(
+        options,
+        { agentSessions: agentSessions as any },
+        undefined,
+        { sendMessage }
+      );
+
+      const { prompted } = await worker.checkInactiveSessions(
+        new Date('2026-01-14T15:31:00.000Z')
+      );
+      expect(prompted.map(({ id }) => id)).toEqual([session.id]);
+      expect(sendMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({ content: 'Still there?', to: session.to })
+      );
+      expect(stored.get(session.id).state.resumePromptsSent).toBe(1);
+
+      const { expired } = await worker.checkInactiveSessions(
+        new Date('2026-01-14T18:00:00.000Z')
+      );
+      expect(expired.map(({ id }) => id)).toEqual([session.id]);
+      expect(stored.get(session.id).status).toBe('expired');
+      expect(agentSessions.findActive).toHaveBeenCalledWith('sales', 500);
+    });
+
+    it('should record chat conversations without sending messages', async () => {
+      const session = await textVsa.startTextConversation(
+        testLead.data,
+        'chat',
+        { inactivityTimeoutMinutes: 10 }
+      );
+
+      await textVsa.checkInactiveSessions(
+        new Date('2026-01-14T15:10:00.000Z')
+      );
+      const interaction = await textVsa.completeCall(session.id);
+
+      expect(sendMessage).not.toHaveBeenCalled();
+      expect(interaction.type).toBe('chat');
+      expect(interaction.duration).toBeUndefined();
+      expect(interaction.outcome.status).toBe('pending');
+      expect(interaction.content).toContain(
+        'chat conversation expired after the lead went silent'
+      );
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,49 @@
+import { AgentSessionRepository } from '../database/repositories';
+import { AgentSessionKind } from '../types/agent-session';
+
+/**
+ * Fields every agent session has in common
+ */
+export interface StoredSessionFields {
+  id: string;
+  leadId: string;
+  status: string;
+  startedAt: Date;
+}
+
+/**
+ * Store an agent's session, so a reply reaches it after a restart or on
+ * another instance. Without a repository (tests, examples) nothing is
+ * stored and the agent's in-memory copy is the only one.
+ */
+export async function saveAgentSession(
+  sessions: AgentSessionRepository | undefined,
+  kind: AgentSessionKind,
+  session: StoredSessionFields
+): Promise<void> {
+  if (!sessions) return;
+
+  await sessions.save({
+    id: session.id,
+    kind,
+    leadId: session.leadId,
+    status: session.status,
+    state: { ...session },
+    startedAt: session.startedAt,
+    updatedAt: new Date(),
+  });
+}
+
+/**
+ * The lead's most recent active session of this kind from the database,
+ * with its dates restored by `revive`
+ */
+export async function loadActiveAgentSession<T extends StoredSessionFields>(
+  sessions: AgentSessionRepository,
+  kind: AgentSessionKind,
+  leadId: string,
+  revive: (state: T) => T
+): Promise<T | null> {
+  const stored = await sessions.findActiveForLead(kind, leadId);
+  return stored ? revive(stored.state as T) : null;
+}
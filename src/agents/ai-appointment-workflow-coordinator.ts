@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { Lead, LeadModel } from '../types/lead';
 import {
   Interaction,
@@ -9,108 +10,105 @@ import {
   AgentPerformanceModel,
 } from '../types/agent-performance';
 import { generateUUID } from '../types/validation';
+import { Appointment, AppointmentType } from '../types/appointment';
+import { DatabaseManager } from '../database/manager';
+import {
+  Repositories,
+  createRepositories,
+  withRepositories,
+} from '../database/repositories';
+import {
+  AvailabilityCalendar,
+  AvailableSlot,
+  BusyPeriod,
+  TimeRange,
+} from '../scheduling/availability-calendar';
+import {
+  IcsAttachment,
+  IcsParticipant,
+  createAppointmentAttachment,
+} from '../scheduling/ics';
+import { SendWindowScheduler } from '../scheduling/send-window';
+import { MultiChannelCommunicationManager } from '../communication/multi-channel-manager';
+import {
+  MessageAttachment,
+  MessageChannel,
+  createMessageProviders,
+} from '../communication/providers';
+import { config } from '../config/environment';
+import { JobQueue, JobWorker } from '../jobs';
+import {
+  Campaign,
+  CampaignAudience,
+  CampaignStep,
+  CampaignPerformance,
+  Callback,
+  ReminderSequence,
+  Reminder,
+} from '../types/workflow';
+
+export type { Appointment } from '../types/appointment';
+
+export type {
+  Campaign,
+  CampaignAudience,
+  CampaignStep,
+  CampaignCondition,
+  CampaignPerformance,
+  Callback,
+  ReminderSequence,
+  Reminder,
+} from '../types/workflow';
+
+// Maximum number of due callbacks or reminders claimed per processing run
+const DUE_BATCH_SIZE = 50;
+
+// Job that processes due callbacks and reminders, then queues its next run
+export const PROCESS_DUE_WORK_JOB = 'appointments.process-due-work';
+const DUE_WORK_INTERVAL_MS = 60 * 1000;
+
+// Wait before calling back a lead that was not reached, doubled after
+// every attempt up to the maximum
+const CALLBACK_RETRY_DELAY_MS = 15 * 60 * 1000;
+const CALLBACK_MAX_RETRY_DELAY_MS = 4 * 60 * 60 * 1000;
+
+// Appointment length in minutes when the caller does not give one
+export const DEFAULT_APPOINTMENT_DURATIONS: Record<AppointmentType, number> = {
+  consultation: 60,
+  site_visit: 60,
+  follow_up: 30,
+  callback: 15,
+};
+
+const OPEN_APPOINTMENT_STATUSES: Appointment['status'][] = [
+  'scheduled',
+  'confirmed',
+  'rescheduled',
+];
 
-// Campaign types and interfaces
-export interface Campaign {
-  id: string;
-  name: string;
-  type:
-    | 'callback_sequence'
-    | 'appointment_booking'
-    | 'follow_up'
-    | 're_engagement';
-  status: 'active' | 'paused' | 'completed' | 'cancelled';
-  targetAudience: CampaignAudience;
-  steps: CampaignStep[];
-  performance: CampaignPerformance;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-export interface CampaignAudience {
-  leadTypes: ('hot' | 'warm' | 'cold')[];
-  sources: string[];
-  qualificationScoreMin?: number;
-  qualificationScoreMax?: number;
-  tags?: string[];
-}
-
-export interface CampaignStep {
-  id: string;
-  order: number;
-  type: 'callback' | 'appointment' | 'message' | 'email' | 'wait';
-  delayHours: number;
-  content?: string;
-  conditions?: CampaignCondition[];
-}
-
-export interface CampaignCondition {
-  field: string;
-  operator: 'equals' | 'not_equals' | 'greater_than' | 'less_than' | 'contains';
-  value: any;
-}
-
-export interface CampaignPerformance {
-  totalLeads: number;
-  completedSteps: number;
-  appointmentsBooked: number;
-  callbacksScheduled: number;
-  conversionRate: number;
-  averageCompletionTime: number;
-}
-
-// Appointment types
-export interface Appointment {
-  id: string;
-  leadId: string;
-  campaignId?: string;
-  type: 'consultation' | 'site_visit' | 'callback' | 'follow_up';
-  status:
-    | 'scheduled'
-    | 'confirmed'
-    | 'rescheduled'
-    | 'cancelled'
-    | 'completed'
-    | 'no_show';
-  scheduledAt: Date;
-  duration: number; // in minutes
-  location?: string;
-  notes?: string;
-  confirmationSent: boolean;
-  remindersSent: number;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-// Callback and reminder types
-export interface Callback {
-  id: string;
-  leadId: string;
-  campaignId?: string;
-  scheduledAt: Date;
-  status: 'pending' | 'completed' | 'failed' | 'cancelled';
-  attempts: number;
-  maxAttempts: number;
-  notes?: string;
-  createdAt: Date;
-  updatedAt: Date;
+/**
+ * iCalendar update for an appointment's attendees, emitted as
+ * 'calendarUpdate' whenever an appointment is booked, confirmed,
+ * rescheduled or cancelled
+ */
+export interface CalendarUpdate {
+  appointment: Appointment;
+  method: 'REQUEST' | 'CANCEL';
+  attachment: IcsAttachment;
 }
 
-export interface ReminderSequence {
-  id: string;
-  appointmentId: string;
-  reminders: Reminder[];
-  status: 'active' | 'completed' | 'cancelled';
-  createdAt: Date;
+/**
+ * Places the calls of due callbacks. Resolves with whether the lead was
+ * reached; rejects when the call could not be placed.
+ */
+export interface CallbackDialer {
+  placeCallback(_callback: Callback): Promise<boolean>;
 }
 
-export interface Reminder {
-  id: string;
-  type: 'email' | 'sms' | 'call';
-  scheduledAt: Date;
-  status: 'pending' | 'sent' | 'failed';
-  content: string;
-  sentAt?: Date;
+export interface SlotSearchOptions {
+  agentIds?: string[];
+  durationMinutes?: number;
+  limit?: number;
 }
 
 /**
@@ -118,16 +116,84 @@ export interface Reminder {
  *
  * Handles multi-step campaign orchestration, callback scheduling,
  * appointment booking, and campaign performance tracking.
+ *
+ * With a DatabaseManager every change is written through to Postgres and
+ * due callbacks and reminders are claimed with row locks, so several
+ * workers can process them safely. The in-memory maps act as a cache of
+ * this instance's state; call restoreState() after a restart to reload it.
+ *
+ * Bookings are checked against the AvailabilityCalendar: a lead or agent
+ * cannot hold two appointments closer than the buffer time, and agents are
+ * only booked inside their working hours.
+ *
+ * Due callbacks are only called with a CallbackDialer; without one they
+ * stay pending. A lead that is not reached is called again later, with a
+ * growing delay, until the callback runs out of attempts.
+ *
+ * Reminders are moved out of the lead's quiet hours to the next allowed
+ * send time; a reminder that could only go out after the appointment starts
+ * is left out. Reminders, confirmations and campaign messages go to the
+ * lead's contact details through the communication manager, so consent and
+ * frequency limits apply to them as to any other outreach.
+ *
+ * Events: 'calendarUpdate' (CalendarUpdate) carries an .ics invitation or
+ * cancellation whose SEQUENCE grows with every reschedule or cancellation.
+ *
+ * Instead of polling processPendingCallbacks() and processPendingReminders(),
+ * register the coordinator on a job worker: a recurring job then processes
+ * due work every minute, on whichever worker claims it.
  */
-export class AIAppointmentWorkflowCoordinator {
+export class AIAppointmentWorkflowCoordinator extends EventEmitter {
   private agentId: string;
+  private dbManager?: DatabaseManager;
   private campaigns: Map<string, Campaign> = new Map();
   private appointments: Map<string, Appointment> = new Map();
   private callbacks: Map<string, Callback> = new Map();
   private reminderSequences: Map<string, ReminderSequence> = new Map();
-
-  constructor(agentId: string = 'ai-appointment-workflow-coordinator') {
+  private availability: AvailabilityCalendar;
+  private sendWindows: SendWindowScheduler;
+  private messenger: Pick<MultiChannelCommunicationManager, 'sendMessage'>;
+  private dialer?: CallbackDialer;
+  private missingDialerReported = false;
+
+  constructor(
+    agentId: string = 'ai-appointment-workflow-coordinator',
+    dbManager?: DatabaseManager,
+    availability: AvailabilityCalendar = new AvailabilityCalendar(),
+    sendWindows: SendWindowScheduler = new SendWindowScheduler(),
+    messenger: Pick<MultiChannelCommunicationManager, 'sendMessage'> =
+      new MultiChannelCommunicationManager(createMessageProviders()),
+    dialer?: CallbackDialer
+  ) {
+    super();
     this.agentId = agentId;
+    this.dbManager = dbManager;
+    this.availability = availability;
+    this.sendWindows = sendWindows;
+    this.messenger = messenger;
+    this.dialer = dialer;
+  }
+
+  /**
+   * Reload active campaigns, open appointments, pending callbacks and
+   * active reminder sequences from the database
+   */
+  async restoreState(): Promise<void> {
+    if (!this.dbManager) return;
+
+    const repositories = createRepositories(this.dbManager);
+    const [campaigns, appointments, callbacks, reminderSequences] =
+      await Promise.all([
+        repositories.campaigns.findActive(),
+        repositories.appointments.findOpen(),
+        repositories.callbacks.findPending(),
+        repositories.reminderSequences.findActive(),
+      ]);
+
+    campaigns.forEach((c) => this.campaigns.set(c.id, c));
+    appointments.forEach((a) => this.appointments.set(a.id, a));
+    callbacks.forEach((c) => this.callbacks.set(c.id, c));
+    reminderSequences.forEach((rs) => this.reminderSequences.set(rs.id, rs));
   }
 
   /**
@@ -162,6 +228,8 @@ export class AIAppointmentWorkflowCoordinator {
       updatedAt: new Date(),
     };
 
+    await this.persist(({ campaigns }) => campaigns.create(campaign));
+
     this.campaigns.set(campaign.id, campaign);
     return campaign;
   }
@@ -187,6 +255,13 @@ export class AIAppointmentWorkflowCoordinator {
       updatedAt: new Date(),
     };
 
+    await this.persist(async ({ callbacks, campaigns }) => {
+      await callbacks.create(callback);
+      if (campaignId) {
+        await campaigns.incrementPerformance(campaignId, 'callbacksScheduled');
+      }
+    });
+
     this.callbacks.set(callback.id, callback);
 
     // Update campaign performance if part of a campaign
@@ -200,20 +275,23 @@ export class AIAppointmentWorkflowCoordinator {
   }
 
   /**
-   * Book an appointment for a lead
+   * Book an appointment for a lead. Without an agentId the first agent in
+   * the availability calendar who is free at that time is assigned.
    */
   async bookAppointment(
     leadId: string,
     type: Appointment['type'],
     scheduledAt: Date,
-    duration: number = 60,
+    duration: number = DEFAULT_APPOINTMENT_DURATIONS[type],
     location?: string,
-    campaignId?: string
+    campaignId?: string,
+    agentId?: string
   ): Promise<Appointment> {
     const appointment: Appointment = {
       id: generateUUID(),
       leadId,
       campaignId,
+      agentId,
       type,
       status: 'scheduled',
       scheduledAt,
@@ -221,14 +299,29 @@ export class AIAppointmentWorkflowCoordinator {
       location,
       confirmationSent: false,
       remindersSent: 0,
+      sequence: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    this.appointments.set(appointment.id, appointment);
-
     // Create reminder sequence
-    await this.createReminderSequence(appointment.id);
+    const reminderSequence = await this.createReminderSequence(appointment);
+
+    if (!this.dbManager) {
+      await this.assignSlot(appointment);
+    }
+    await this.persist(async (repositories) => {
+      const { appointments, reminderSequences, campaigns } = repositories;
+      await this.assignSlot(appointment, repositories);
+      await appointments.create(appointment);
+      await reminderSequences.create(reminderSequence);
+      if (campaignId) {
+        await campaigns.incrementPerformance(campaignId, 'appointmentsBooked');
+      }
+    });
+
+    this.appointments.set(appointment.id, appointment);
+    this.reminderSequences.set(reminderSequence.id, reminderSequence);
 
     // Update campaign performance if part of a campaign
     if (campaignId && this.campaigns.has(campaignId)) {
@@ -237,51 +330,79 @@ export class AIAppointmentWorkflowCoordinator {
       campaign.updatedAt = new Date();
     }
 
+    this.publishCalendarUpdate(appointment, 'REQUEST');
+
     return appointment;
   }
 
   /**
-   * Create reminder sequence for an appointment
+   * Create reminder sequence for an appointment, with every reminder inside
+   * the lead's send window
    */
   private async createReminderSequence(
-    appointmentId: string
+    appointment: Appointment
   ): Promise<ReminderSequence> {
-    const appointment = this.appointments.get(appointmentId);
-    if (!appointment) {
-      throw new Error(`Appointment not found: ${appointmentId}`);
+    const reminders: Reminder[] = [
+      // 24 hours before
+      {
+        id: generateUUID(),
+        type: 'email',
+        scheduledAt: new Date(
+          appointment.scheduledAt.getTime() - 24 * 60 * 60 * 1000
+        ),
+        status: 'pending',
+        content: `Reminder: You have an appointment scheduled for ${appointment.scheduledAt.toLocaleString()}`,
+      },
+      // 2 hours before
+      {
+        id: generateUUID(),
+        type: 'sms',
+        scheduledAt: new Date(
+          appointment.scheduledAt.getTime() - 2 * 60 * 60 * 1000
+        ),
+        status: 'pending',
+        content: `Reminder: Your appointment is in 2 hours at ${appointment.scheduledAt.toLocaleString()}`,
+      },
+    ];
+
+    const contact = await this.findLeadContact(appointment.leadId);
+    const now = new Date();
+    for (const reminder of reminders) {
+      const target = {
+        timezone: contact?.timezone,
+        phone: reminder.type === 'email' ? undefined : contact?.phone,
+      };
+      // Without the lead's timezone there is no window to move into; the
+      // send itself is refused then
+      if (this.sendWindows.resolveTimezones(target).length === 0) continue;
+
+      reminder.scheduledAt = this.sendWindows.nextAllowedTime(
+        target,
+        reminder.scheduledAt > now ? reminder.scheduledAt : now
+      );
     }
 
-    const reminderSequence: ReminderSequence = {
+    return {
       id: generateUUID(),
-      appointmentId,
+      appointmentId: appointment.id,
       status: 'active',
-      reminders: [
-        // 24 hours before
-        {
-          id: generateUUID(),
-          type: 'email',
-          scheduledAt: new Date(
-            appointment.scheduledAt.getTime() - 24 * 60 * 60 * 1000
-          ),
-          status: 'pending',
-          content: `Reminder: You have an appointment scheduled for ${appointment.scheduledAt.toLocaleString()}`,
-        },
-        // 2 hours before
-        {
-          id: generateUUID(),
-          type: 'sms',
-          scheduledAt: new Date(
-            appointment.scheduledAt.getTime() - 2 * 60 * 60 * 1000
-          ),
-          status: 'pending',
-          content: `Reminder: Your appointment is in 2 hours at ${appointment.scheduledAt.toLocaleString()}`,
-        },
-      ],
+      reminders: reminders.filter(
+        (reminder) => reminder.scheduledAt < appointment.scheduledAt
+      ),
       createdAt: new Date(),
     };
+  }
 
-    this.reminderSequences.set(reminderSequence.id, reminderSequence);
-    return reminderSequence;
+  /**
+   * Timezone and phone number of a lead, when the database knows the lead
+   */
+  private async findLeadContact(
+    leadId: string
+  ): Promise<Lead['contactInfo'] | null> {
+    if (!this.dbManager) return null;
+
+    const lead = await createRepositories(this.dbManager).leads.findById(leadId);
+    return lead?.contactInfo ?? null;
   }
 
   /**
@@ -292,45 +413,85 @@ export class AIAppointmentWorkflowCoordinator {
     newScheduledAt: Date,
     reason?: string
   ): Promise<Appointment> {
-    const appointment = this.appointments.get(appointmentId);
-    if (!appointment) {
-      throw new Error(`Appointment not found: ${appointmentId}`);
-    }
-
-    appointment.scheduledAt = newScheduledAt;
-    appointment.status = 'rescheduled';
-    appointment.notes = reason ? `Rescheduled: ${reason}` : 'Rescheduled';
-    appointment.updatedAt = new Date();
-
-    // Update reminder sequence
-    const reminderSequence = Array.from(this.reminderSequences.values()).find(
-      (rs) => rs.appointmentId === appointmentId
-    );
+    const appointment = await this.findAppointment(appointmentId);
+    const rescheduled: Appointment = {
+      ...appointment,
+      scheduledAt: newScheduledAt,
+      status: 'rescheduled',
+      notes: reason ? `Rescheduled: ${reason}` : 'Rescheduled',
+      sequence: (appointment.sequence ?? 0) + 1,
+      updatedAt: new Date(),
+    };
 
-    if (reminderSequence) {
-      // Cancel existing reminders
-      reminderSequence.status = 'cancelled';
+    // Replace the reminder sequence so reminders follow the new time
+    const previousSequences = this.findReminderSequences(appointmentId);
+    const reminderSequence = await this.createReminderSequence(rescheduled);
 
-      // Create new reminder sequence
-      await this.createReminderSequence(appointmentId);
+    if (!this.dbManager) {
+      await this.assignSlot(rescheduled);
     }
+    await this.persist(async (repositories) => {
+      const { appointments, reminderSequences } = repositories;
+      await this.assignSlot(rescheduled, repositories);
+      await appointments.save(rescheduled);
+      await reminderSequences.cancelForAppointment(appointmentId);
+      await reminderSequences.create(reminderSequence);
+    });
+
+    Object.assign(appointment, rescheduled);
+    previousSequences.forEach((rs) => (rs.status = 'cancelled'));
+    this.reminderSequences.set(reminderSequence.id, reminderSequence);
+
+    this.publishCalendarUpdate(appointment, 'REQUEST');
 
     return appointment;
   }
 
+  /**
+   * Free slots for an appointment of the given type within the range,
+   * earliest first. Only agents in the availability calendar are offered.
+   */
+  async findAvailableSlots(
+    leadId: string,
+    type: Appointment['type'],
+    range: TimeRange,
+    options: SlotSearchOptions = {}
+  ): Promise<AvailableSlot[]> {
+    const agentIds = options.agentIds ?? this.availability.getAgentIds();
+    const busy = await this.findBusyPeriods(
+      leadId,
+      agentIds,
+      this.widenByBuffer(range)
+    );
+
+    return this.availability.findSlots({
+      leadId,
+      durationMinutes:
+        options.durationMinutes ?? DEFAULT_APPOINTMENT_DURATIONS[type],
+      range,
+      busy,
+      agentIds,
+      limit: options.limit,
+    });
+  }
+
   /**
    * Confirm an appointment
    */
   async confirmAppointment(appointmentId: string): Promise<Appointment> {
-    const appointment = this.appointments.get(appointmentId);
-    if (!appointment) {
-      throw new Error(`Appointment not found: ${appointmentId}`);
-    }
+    const appointment = await this.findAppointment(appointmentId);
 
     appointment.status = 'confirmed';
-    appointment.confirmationSent = true;
     appointment.updatedAt = new Date();
 
+    const update = this.publishCalendarUpdate(appointment, 'REQUEST');
+    appointment.confirmationSent = await this.sendConfirmation(
+      appointment,
+      update.attachment
+    );
+
+    await this.persist(({ appointments }) => appointments.save(appointment));
+
     return appointment;
   }
 
@@ -341,23 +502,24 @@ export class AIAppointmentWorkflowCoordinator {
     appointmentId: string,
     reason?: string
   ): Promise<Appointment> {
-    const appointment = this.appointments.get(appointmentId);
-    if (!appointment) {
-      throw new Error(`Appointment not found: ${appointmentId}`);
-    }
+    const appointment = await this.findAppointment(appointmentId);
 
     appointment.status = 'cancelled';
     appointment.notes = reason ? `Cancelled: ${reason}` : 'Cancelled';
+    appointment.sequence = (appointment.sequence ?? 0) + 1;
     appointment.updatedAt = new Date();
 
+    await this.persist(async ({ appointments, reminderSequences }) => {
+      await appointments.save(appointment);
+      await reminderSequences.cancelForAppointment(appointmentId);
+    });
+
     // Cancel reminder sequence
-    const reminderSequence = Array.from(this.reminderSequences.values()).find(
-      (rs) => rs.appointmentId === appointmentId
+    this.findReminderSequences(appointmentId).forEach(
+      (rs) => (rs.status = 'cancelled')
     );
 
-    if (reminderSequence) {
-      reminderSequence.status = 'cancelled';
-    }
+    this.publishCalendarUpdate(appointment, 'CANCEL');
 
     return appointment;
   }
@@ -370,10 +532,7 @@ export class AIAppointmentWorkflowCoordinator {
     leadId: string,
     stepId: string
   ): Promise<boolean> {
-    const campaign = this.campaigns.get(campaignId);
-    if (!campaign) {
-      throw new Error(`Campaign not found: ${campaignId}`);
-    }
+    const campaign = await this.findCampaign(campaignId);
 
     const step = campaign.steps.find((s) => s.id === stepId);
     if (!step) {
@@ -406,10 +565,13 @@ export class AIAppointmentWorkflowCoordinator {
 
         case 'message':
         case 'email':
-          // These would integrate with communication systems
-          // For now, we'll log the action
-          console.log(
-            `Sending ${step.type} to lead ${leadId}: ${step.content}`
+          if (!step.content) {
+            throw new Error(`Campaign step ${stepId} has no content`);
+          }
+          await this.sendToLead(
+            leadId,
+            step.type === 'email' ? 'email' : undefined,
+            { subject: campaign.name, content: step.content }
           );
           break;
 
@@ -422,6 +584,9 @@ export class AIAppointmentWorkflowCoordinator {
       }
 
       // Update campaign performance
+      await this.persist(({ campaigns }) =>
+        campaigns.incrementPerformance(campaignId, 'completedSteps')
+      );
       campaign.performance.completedSteps++;
       campaign.updatedAt = new Date();
 
@@ -435,11 +600,75 @@ export class AIAppointmentWorkflowCoordinator {
     }
   }
 
+  /**
+   * Process due callbacks and reminders from a recurring job, and queue the
+   * first run
+   */
+  async registerJobHandlers(worker: JobWorker, jobs: JobQueue): Promise<void> {
+    worker.register(PROCESS_DUE_WORK_JOB, async (_payload, job) => {
+      // Queue the next run first, so a failing run does not end the cycle.
+      // After downtime the next run follows now, not the missed intervals.
+      await this.scheduleDueWork(
+        jobs,
+        new Date(
+          Math.max(job.runAt.getTime(), Date.now()) + DUE_WORK_INTERVAL_MS
+        )
+      );
+      await this.processPendingCallbacks();
+      await this.processPendingReminders();
+    });
+
+    await this.scheduleDueWork(jobs, new Date());
+  }
+
+  /**
+   * Queue a due-work run for the interval containing `at`. Every worker
+   * queues the same run, keyed by its interval, so only one is added.
+   */
+  private async scheduleDueWork(jobs: JobQueue, at: Date): Promise<void> {
+    const runAt = new Date(
+      Math.floor(at.getTime() / DUE_WORK_INTERVAL_MS) * DUE_WORK_INTERVAL_MS
+    );
+    await jobs.enqueue(
+      PROCESS_DUE_WORK_JOB,
+      {},
+      {
+        runAt,
+        idempotencyKey: `${PROCESS_DUE_WORK_JOB}:${runAt.toISOString()}`,
+      }
+    );
+  }
+
   /**
    * Process pending callbacks
    */
   async processPendingCallbacks(): Promise<void> {
+    const dialer = this.dialer;
+    if (!dialer) {
+      if (!this.missingDialerReported) {
+        console.warn('No callback dialer configured, due callbacks stay pending');
+        this.missingDialerReported = true;
+      }
+      return;
+    }
+
     const now = new Date();
+
+    if (this.dbManager) {
+      // Due callbacks stay locked until the transaction commits, so other
+      // workers skip them instead of calling the same lead twice
+      await withRepositories(this.dbManager, async ({ callbacks }) => {
+        const dueCallbacks = await callbacks.claimDue(now, DUE_BATCH_SIZE);
+
+        for (const callback of dueCallbacks) {
+          await this.runCallback(callback, dialer);
+          await callbacks.save(callback);
+          this.callbacks.set(callback.id, callback);
+        }
+      });
+      return;
+    }
+
     const pendingCallbacks = Array.from(this.callbacks.values()).filter(
       (callback) =>
         callback.status === 'pending' &&
@@ -448,36 +677,39 @@ export class AIAppointmentWorkflowCoordinator {
     );
 
     for (const callback of pendingCallbacks) {
-      try {
-        // Attempt the callback
-        callback.attempts++;
-
-        // In a real implementation, this would make an actual call
-        const success = await this.attemptCallback(callback);
-
-        if (success) {
-          callback.status = 'completed';
-        } else if (callback.attempts >= callback.maxAttempts) {
-          callback.status = 'failed';
-        }
-
-        callback.updatedAt = new Date();
-      } catch (error) {
-        console.error(`Failed to process callback ${callback.id}:`, error);
-        callback.status = 'failed';
-        callback.updatedAt = new Date();
-      }
+      await this.runCallback(callback, dialer);
     }
   }
 
   /**
-   * Attempt a callback (placeholder for actual implementation)
+   * Make one callback attempt and update its status. A call that could not
+   * be placed counts as an attempt that did not reach the lead.
    */
-  private async attemptCallback(callback: Callback): Promise<boolean> {
-    // This would integrate with actual calling systems
-    // For now, simulate success/failure
-    console.log(`Attempting callback for lead ${callback.leadId}`);
-    return Math.random() > 0.3; // 70% success rate simulation
+  private async runCallback(
+    callback: Callback,
+    dialer: CallbackDialer
+  ): Promise<void> {
+    callback.attempts++;
+
+    let reached = false;
+    try {
+      reached = await dialer.placeCallback(callback);
+    } catch (error) {
+      console.error(`Failed to process callback ${callback.id}:`, error);
+    }
+
+    if (reached) {
+      callback.status = 'completed';
+    } else if (callback.attempts >= callback.maxAttempts) {
+      callback.status = 'failed';
+    } else {
+      const delay = Math.min(
+        CALLBACK_RETRY_DELAY_MS * 2 ** (callback.attempts - 1),
+        CALLBACK_MAX_RETRY_DELAY_MS
+      );
+      callback.scheduledAt = new Date(Date.now() + delay);
+    }
+    callback.updatedAt = new Date();
   }
 
   /**
@@ -486,6 +718,37 @@ export class AIAppointmentWorkflowCoordinator {
   async processPendingReminders(): Promise<void> {
     const now = new Date();
 
+    if (this.dbManager) {
+      await withRepositories(
+        this.dbManager,
+        async ({ reminderSequences, appointments }) => {
+          const dueReminders = await reminderSequences.claimDue(
+            now,
+            DUE_BATCH_SIZE
+          );
+
+          for (const due of dueReminders) {
+            const { sequenceId, appointmentId, leadId, reminder } = due;
+            const sent = await this.deliverReminder(reminder, leadId);
+            await reminderSequences.saveReminder(reminder);
+            if (sent) {
+              await appointments.incrementRemindersSent(appointmentId);
+            }
+            this.syncCachedReminder(sequenceId, appointmentId, reminder);
+          }
+
+          const completed = await reminderSequences.completeFinished([
+            ...new Set(dueReminders.map((due) => due.sequenceId)),
+          ]);
+          completed.forEach((id) => {
+            const cached = this.reminderSequences.get(id);
+            if (cached) cached.status = 'completed';
+          });
+        }
+      );
+      return;
+    }
+
     for (const reminderSequence of this.reminderSequences.values()) {
       if (reminderSequence.status !== 'active') continue;
 
@@ -494,23 +757,15 @@ export class AIAppointmentWorkflowCoordinator {
           reminder.status === 'pending' && reminder.scheduledAt <= now
       );
 
+      const appointment = this.appointments.get(reminderSequence.appointmentId);
+      if (!appointment) continue;
+
       for (const reminder of pendingReminders) {
-        try {
-          // Send the reminder
-          await this.sendReminder(reminder);
-          reminder.status = 'sent';
-          reminder.sentAt = new Date();
-
-          // Update appointment reminder count
-          const appointment = this.appointments.get(
-            reminderSequence.appointmentId
-          );
-          if (appointment) {
-            appointment.remindersSent++;
-          }
-        } catch (error) {
-          console.error(`Failed to send reminder ${reminder.id}:`, error);
-          reminder.status = 'failed';
+        const sent = await this.deliverReminder(reminder, appointment.leadId);
+
+        // Update appointment reminder count
+        if (sent) {
+          appointment.remindersSent++;
         }
       }
 
@@ -526,11 +781,351 @@ export class AIAppointmentWorkflowCoordinator {
   }
 
   /**
-   * Send a reminder (placeholder for actual implementation)
+   * Send a reminder and record whether it was delivered
+   */
+  private async deliverReminder(
+    reminder: Reminder,
+    leadId: string
+  ): Promise<boolean> {
+    try {
+      await this.sendReminder(reminder, leadId);
+      reminder.status = 'sent';
+      reminder.sentAt = new Date();
+      return true;
+    } catch (error) {
+      console.error(`Failed to send reminder ${reminder.id}:`, error);
+      reminder.status = 'failed';
+      return false;
+    }
+  }
+
+  /**
+   * Send a reminder on its own channel. Call reminders need a person on the
+   * line, so they are never sent automatically.
+   */
+  private async sendReminder(reminder: Reminder, leadId: string): Promise<void> {
+    if (reminder.type === 'call') {
+      throw new Error('Call reminders cannot be sent as messages');
+    }
+
+    await this.sendToLead(leadId, reminder.type, {
+      subject: 'Appointment reminder',
+      content: reminder.content,
+    });
+  }
+
+  /**
+   * Send the confirmation with the calendar invitation attached: by email
+   * when the lead has an address, otherwise on their preferred channel
+   * without it. Returns whether it went out.
+   */
+  private async sendConfirmation(
+    appointment: Appointment,
+    invitation: IcsAttachment
+  ): Promise<boolean> {
+    const content = `Your appointment on ${appointment.scheduledAt.toLocaleString()} is confirmed.`;
+
+    try {
+      await this.sendToLead(appointment.leadId, undefined, {
+        subject: 'Appointment confirmed',
+        content,
+        attachments: [invitation],
+      });
+      return true;
+    } catch (error) {
+      console.error(
+        `Failed to send confirmation for appointment ${appointment.id}:`,
+        error
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Send a message to a lead through the communication manager, on the
+   * given channel or one chosen from the lead's contact details. Messages
+   * deferred to the lead's send window count as sent; any other message
+   * that is not sent throws.
+   */
+  private async sendToLead(
+    leadId: string,
+    channel: MessageChannel | undefined,
+    message: {
+      subject: string;
+      content: string;
+      attachments?: MessageAttachment[];
+    }
+  ): Promise<void> {
+    const contact = await this.findLeadContact(leadId);
+    if (!contact) {
+      throw new Error(`No contact details for lead ${leadId}`);
+    }
+
+    const selected = channel ?? this.selectChannel(contact, message);
+    const to = selected === 'email' ? contact.email : contact.phone;
+    if (!to) {
+      throw new Error(`Lead ${leadId} has no ${selected} contact details`);
+    }
+
+    const result = await this.messenger.sendMessage({
+      leadId,
+      channel: selected,
+      to,
+      subject: selected === 'email' ? message.subject : undefined,
+      content: message.content,
+      attachments: selected === 'email' ? message.attachments : undefined,
+      metadata: { agentId: this.agentId },
+      timezone: contact.timezone,
+    });
+
+    if (!result.sent && !result.deferred) {
+      throw new Error(
+        `${selected} message to lead ${leadId} not sent: ${result.reason}`
+      );
+    }
+  }
+
+  /**
+   * Email for attachments or when the lead prefers it, otherwise the
+   * lead's preferred text channel, falling back to SMS
+   */
+  private selectChannel(
+    contact: Lead['contactInfo'],
+    message: { attachments?: MessageAttachment[] }
+  ): MessageChannel {
+    const preferred = contact.preferredChannel;
+
+    if (contact.email && (message.attachments?.length || preferred === 'email')) {
+      return 'email';
+    }
+    if (!contact.phone) return 'email';
+    return preferred === 'whatsapp' ? 'whatsapp' : 'sms';
+  }
+
+  /**
+   * Build the .ics invitation or cancellation for an appointment, with
+   * alarms for its pending reminders, and emit it as 'calendarUpdate'
+   */
+  private publishCalendarUpdate(
+    appointment: Appointment,
+    method: CalendarUpdate['method']
+  ): CalendarUpdate {
+    const reminders = this.findReminderSequences(appointment.id).flatMap(
+      (rs) => rs.reminders
+    );
+    const organizer: IcsParticipant | undefined = config.CALENDAR_ORGANIZER_EMAIL
+      ? {
+          email: config.CALENDAR_ORGANIZER_EMAIL,
+          name: config.CALENDAR_ORGANIZER_NAME || undefined,
+        }
+      : undefined;
+
+    const update: CalendarUpdate = {
+      appointment,
+      method,
+      attachment: createAppointmentAttachment(appointment, method, {
+        reminders,
+        organizer,
+      }),
+    };
+    this.emit('calendarUpdate', update);
+    return update;
+  }
+
+  /**
+   * Mirror a reminder processed from the database into the cached sequence
+   */
+  private syncCachedReminder(
+    sequenceId: string,
+    appointmentId: string,
+    reminder: Reminder
+  ): void {
+    const sequence = this.reminderSequences.get(sequenceId);
+    const index =
+      sequence?.reminders.findIndex((r) => r.id === reminder.id) ?? -1;
+    if (sequence && index >= 0) {
+      sequence.reminders[index] = reminder;
+    }
+
+    const appointment = this.appointments.get(appointmentId);
+    if (appointment && reminder.status === 'sent') {
+      appointment.remindersSent++;
+    }
+  }
+
+  /**
+   * Look up an appointment in memory, falling back to the database
+   */
+  private async findAppointment(appointmentId: string): Promise<Appointment> {
+    let appointment = this.appointments.get(appointmentId);
+    if (!appointment && this.dbManager) {
+      appointment =
+        (await createRepositories(this.dbManager).appointments.findById(
+          appointmentId
+        )) ?? undefined;
+      if (appointment) this.appointments.set(appointment.id, appointment);
+    }
+    if (!appointment) {
+      throw new Error(`Appointment not found: ${appointmentId}`);
+    }
+    return appointment;
+  }
+
+  /**
+   * Look up a campaign in memory, falling back to the database
+   */
+  private async findCampaign(campaignId: string): Promise<Campaign> {
+    let campaign = this.campaigns.get(campaignId);
+    if (!campaign && this.dbManager) {
+      campaign =
+        (await createRepositories(this.dbManager).campaigns.findById(
+          campaignId
+        )) ?? undefined;
+      if (campaign) this.campaigns.set(campaign.id, campaign);
+    }
+    if (!campaign) {
+      throw new Error(`Campaign not found: ${campaignId}`);
+    }
+    return campaign;
+  }
+
+  /**
+   * Reject the appointment if it clashes with another appointment of the
+   * lead, and settle which agent attends it. Inside a transaction the
+   * lead's and agents' schedules are locked and read from the database;
+   * otherwise the in-memory appointments are checked.
+   */
+  private async assignSlot(
+    appointment: Appointment,
+    repositories?: Pick<Repositories, 'appointments' | 'busyBlocks'>
+  ): Promise<void> {
+    const candidate: BusyPeriod = {
+      appointmentId: appointment.id,
+      leadId: appointment.leadId,
+      start: appointment.scheduledAt,
+      end: new Date(
+        appointment.scheduledAt.getTime() + appointment.duration * 60 * 1000
+      ),
+    };
+    const agentIds = appointment.agentId
+      ? [appointment.agentId]
+      : this.availability.getAgentIds();
+
+    if (repositories) {
+      await repositories.appointments.lockSchedule([
+        `lead:${appointment.leadId}`,
+        ...agentIds.map((agentId) => `agent:${agentId}`),
+      ]);
+    }
+    const busy = await this.findBusyPeriods(
+      appointment.leadId,
+      agentIds,
+      this.widenByBuffer(candidate),
+      repositories
+    );
+
+    if (this.availability.findConflicts(candidate, busy).length > 0) {
+      throw new Error(
+        `Lead ${appointment.leadId} already has an appointment within ${this.availability.bufferMinutes} minutes of ${candidate.start.toISOString()}`
+      );
+    }
+    if (agentIds.length === 0) return;
+
+    // Agents without a schedule in the calendar are only checked for overlaps
+    const agentId = agentIds.find(
+      (id) =>
+        (!this.availability.hasSchedule(id) ||
+          this.availability.isWorking(id, candidate.start, candidate.end)) &&
+        this.availability.findConflicts({ ...candidate, agentId: id }, busy)
+          .length === 0
+    );
+    if (!agentId) {
+      throw new Error(
+        appointment.agentId
+          ? `Agent ${appointment.agentId} is not available at ${candidate.start.toISOString()}`
+          : `No agent available at ${candidate.start.toISOString()}`
+      );
+    }
+    appointment.agentId = agentId;
+  }
+
+  /**
+   * Open appointments of the lead or agents and the agents' imported busy
+   * blocks overlapping the range, from the given repositories, the
+   * database, or memory in that order. In memory the availability
+   * calendar adds the imported blocks itself.
+   */
+  private async findBusyPeriods(
+    leadId: string,
+    agentIds: string[],
+    range: TimeRange,
+    repositories?: Pick<Repositories, 'appointments' | 'busyBlocks'>
+  ): Promise<BusyPeriod[]> {
+    const source =
+      repositories ?? (this.dbManager && createRepositories(this.dbManager));
+
+    const busyBlocks = source
+      ? await source.busyBlocks.findOverlapping(agentIds, range.start, range.end)
+      : [];
+    const overlapping = source
+      ? await source.appointments.findOverlapping(
+          leadId,
+          agentIds,
+          range.start,
+          range.end
+        )
+      : Array.from(this.appointments.values()).filter(
+          (appointment) =>
+            OPEN_APPOINTMENT_STATUSES.includes(appointment.status) &&
+            (appointment.leadId === leadId ||
+              (appointment.agentId !== undefined &&
+                agentIds.includes(appointment.agentId))) &&
+            appointment.scheduledAt < range.end &&
+            appointment.scheduledAt.getTime() + appointment.duration * 60 * 1000 >
+              range.start.getTime()
+        );
+
+    return [
+      ...overlapping.map((appointment) => ({
+        appointmentId: appointment.id,
+        leadId: appointment.leadId,
+        agentId: appointment.agentId,
+        start: appointment.scheduledAt,
+        end: new Date(
+          appointment.scheduledAt.getTime() + appointment.duration * 60 * 1000
+        ),
+      })),
+      ...busyBlocks.map((block) => ({
+        agentId: block.agentId,
+        start: block.start,
+        end: block.end,
+      })),
+    ];
+  }
+
+  private widenByBuffer(range: TimeRange): TimeRange {
+    const buffer = this.availability.bufferMinutes * 60 * 1000;
+    return {
+      start: new Date(range.start.getTime() - buffer),
+      end: new Date(range.end.getTime() + buffer),
+    };
+  }
+
+  private findReminderSequences(appointmentId: string): ReminderSequence[] {
+    return Array.from(this.reminderSequences.values()).filter(
+      (rs) => rs.appointmentId === appointmentId && rs.status === 'active'
+    );
+  }
+
+  /**
+   * Run writes against the database in one transaction. Without a
+   * database the coordinator keeps its state in memory only.
    */
-  private async sendReminder(reminder: Reminder): Promise<void> {
-    // This would integrate with actual communication systems
-    console.log(`Sending ${reminder.type} reminder: ${reminder.content}`);
+  private async persist(
+    work: (repositories: Repositories) => Promise<unknown>
+  ): Promise<void> {
+    if (!this.dbManager) return;
+    await withRepositories(this.dbManager, work);
   }
 
   /**
@@ -3,6 +3,14 @@ import { DatabaseManager } from '../database/manager';
 import { GoHighLevelClient } from '../integrations/gohighlevel/client';
 import { Lead, LeadModel, LeadStatus } from '../types/lead';
 import { Interaction } from '../types/interaction';
+import { AuditLogEntry } from '../types/audit-log';
+import {
+  AuditLogRepository,
+  InteractionRepository,
+  LeadRepository,
+  MappedRows,
+} from '../database/repositories';
+import type { ResponseSlaEngine } from '../monitoring/response-sla-engine';
 import { logger } from '../utils/logger';
 
 export interface CRMSyncResult {
@@ -23,19 +31,10 @@ export interface DataQualityIssue {
 export interface AICRMOptions {
   syncTimeoutMs?: number;
   duplicateThreshold?: number;
+  responseSla?: ResponseSlaEngine; // stopped by the first outbound interaction
 }
 
-export interface AuditLogEntry {
-  id: string;
-  entityType: 'lead' | 'interaction' | 'sync';
-  entityId: string;
-  action: 'create' | 'update' | 'delete' | 'sync';
-  changes: Record<string, { old: any; new: any }>;
-  userId?: string;
-  agentId: string;
-  timestamp: Date;
-  metadata?: Record<string, any>;
-}
+export type { AuditLogEntry } from '../types/audit-log';
 
 export interface CRMManagementConfig {
   syncTimeoutMs: number;
@@ -68,6 +67,9 @@ async function syncInteractionToN8n(interaction: Interaction, contactId: string)
 
 export class AICRMManagementAgent {
   private db: DatabaseManager;
+  private leads: LeadRepository;
+  private interactions: InteractionRepository;
+  private auditLogs: AuditLogRepository;
   private ghl: GoHighLevelClient;
   private opts: AICRMOptions;
   private config: CRMManagementConfig;
@@ -82,6 +84,9 @@ export class AICRMManagementAgent {
     opts: AICRMOptions = {}
   ) {
     this.db = db;
+    this.leads = new LeadRepository(db);
+    this.interactions = new InteractionRepository(db);
+    this.auditLogs = new AuditLogRepository(db);
     this.ghl = ghl;
     this.opts = opts;
     this.config = {
@@ -99,6 +104,13 @@ export class AICRMManagementAgent {
    */
   async logInteraction(interaction: Interaction): Promise<CRMSyncResult> {
     const startTime = Date.now();
+    this.opts.responseSla?.recordInteraction(interaction).catch((error) => {
+      logger.error(
+        `Failed to record response SLA for lead ${interaction.leadId}`,
+        error
+      );
+    });
+
     const timeoutPromise = new Promise<CRMSyncResult>((_, reject) => {
       setTimeout(() => {
         reject(
@@ -334,28 +346,7 @@ export class AICRMManagementAgent {
    */
   async createAuditLog(entry: Omit<AuditLogEntry, 'id'>): Promise<void> {
     try {
-      const auditEntry: AuditLogEntry = {
-        ...entry,
-        id: this.generateUUID(),
-      };
-
-      await this.db.query(
-        `INSERT INTO audit_logs (
-          id, entity_type, entity_id, action, changes, user_id, agent_id, 
-          timestamp, metadata
-        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-        [
-          auditEntry.id,
-          auditEntry.entityType,
-          auditEntry.entityId,
-          auditEntry.action,
-          JSON.stringify(auditEntry.changes),
-          auditEntry.userId,
-          auditEntry.agentId,
-          auditEntry.timestamp,
-          JSON.stringify(auditEntry.metadata || {}),
-        ]
-      );
+      await this.auditLogs.create(entry);
 
       logger.debug(
         `Audit log created for ${entry.entityType} ${entry.entityId}`
@@ -379,8 +370,8 @@ export class AICRMManagementAgent {
       // Get all leads that need syncing
       const pendingLeads = await this.getPendingLeadsForSync();
       let leadSuccess = 0;
-      let leadFailed = 0;
-      for (const lead of pendingLeads) {
+      let leadFailed = pendingLeads.invalid.length;
+      for (const lead of pendingLeads.records) {
         try {
           await syncLeadToN8n(lead);
           leadSuccess++;
@@ -392,10 +383,11 @@ export class AICRMManagementAgent {
       // Get all interactions that need syncing
       const pendingInteractions = await this.getPendingInteractionsForSync();
       let interactionSuccess = 0;
-      let interactionFailed = 0;
-      for (const { interaction, contactId } of pendingInteractions) {
+      let interactionFailed = pendingInteractions.invalid.length;
+      for (const interaction of pendingInteractions.records) {
         try {
-          await syncInteractionToN8n(interaction, contactId);
+          // Simplified - would need actual GHL contact ID mapping
+          await syncInteractionToN8n(interaction, interaction.leadId);
           interactionSuccess++;
         } catch {
           interactionFailed++;
@@ -457,112 +449,15 @@ export class AICRMManagementAgent {
   private async storeInteractionInDatabase(
     interaction: Interaction
   ): Promise<void> {
-    await this.db.query(
-      `INSERT INTO interactions (
-        id, lead_id, agent_id, type, direction, content, outcome_status,
-        appointment_booked, qualification_updated, escalation_required,
-        duration_seconds, sentiment_score, next_action, next_action_scheduled_at,
-        created_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
-      [
-        interaction.id,
-        interaction.leadId,
-        interaction.agentId,
-        interaction.type,
-        interaction.direction,
-        interaction.content,
-        interaction.outcome.status,
-        interaction.outcome.appointmentBooked,
-        interaction.outcome.qualificationUpdated,
-        interaction.outcome.escalationRequired,
-        interaction.duration,
-        interaction.sentiment?.score,
-        interaction.nextAction?.action,
-        interaction.nextAction?.scheduledAt,
-        interaction.timestamp,
-      ]
-    );
+    await this.interactions.create(interaction);
   }
 
   private async getLeadFromDatabase(leadId: string): Promise<Lead | null> {
-    const result = await this.db.query(
-      'SELECT * FROM leads WHERE id = $1',
-      [leadId]
-    );
-
-    if (result.rows.length === 0) {
-      return null;
-    }
-
-    const row = result.rows[0];
-    return this.mapDatabaseRowToLead(row);
+    return this.leads.findById(leadId);
   }
 
   private async updateLeadInDatabase(lead: Lead): Promise<void> {
-    await this.db.query(
-      `UPDATE leads SET 
-        source = $2, name = $3, email = $4, phone = $5, preferred_channel = $6,
-        timezone = $7, lead_type = $8, urgency_level = $9, intent_signals = $10,
-        budget_min = $11, budget_max = $12, location = $13, property_type = $14,
-        timeline = $15, qualification_score = $16, status = $17, assigned_agent = $18,
-        updated_at = $19
-      WHERE id = $1`,
-      [
-        lead.id,
-        lead.source,
-        lead.contactInfo.name,
-        lead.contactInfo.email,
-        lead.contactInfo.phone,
-        lead.contactInfo.preferredChannel,
-        lead.contactInfo.timezone,
-        lead.leadType,
-        lead.urgencyLevel,
-        lead.intentSignals,
-        lead.qualificationData.budget?.min,
-        lead.qualificationData.budget?.max,
-        lead.qualificationData.location,
-        lead.qualificationData.propertyType,
-        lead.qualificationData.timeline,
-        lead.qualificationData.qualificationScore,
-        lead.status,
-        lead.assignedAgent,
-        lead.updatedAt,
-      ]
-    );
-  }
-
-  private mapDatabaseRowToLead(row: any): Lead {
-    return {
-      id: row.id,
-      source: row.source,
-      contactInfo: {
-        name: row.name,
-        email: row.email,
-        phone: row.phone,
-        preferredChannel: row.preferred_channel,
-        timezone: row.timezone,
-      },
-      leadType: row.lead_type,
-      urgencyLevel: row.urgency_level,
-      intentSignals: row.intent_signals || [],
-      qualificationData: {
-        budget:
-          row.budget_min || row.budget_max
-            ? {
-                min: row.budget_min,
-                max: row.budget_max,
-              }
-            : undefined,
-        location: row.location,
-        propertyType: row.property_type,
-        timeline: row.timeline,
-        qualificationScore: row.qualification_score,
-      },
-      status: row.status,
-      assignedAgent: row.assigned_agent,
-      createdAt: row.created_at,
-      updatedAt: row.updated_at,
-    };
+    await this.leads.save(lead);
   }
 
   private isValidStatusTransition(
@@ -653,70 +548,31 @@ export class AICRMManagementAgent {
     return result.rows.map((row: any) => row.id);
   }
 
-  private async getPendingLeadsForSync(): Promise<Lead[]> {
-    const result = await this.db.query(
-      `
-      SELECT * FROM leads 
-      WHERE updated_at > NOW() - INTERVAL '1 hour'
-      ORDER BY updated_at DESC
-      LIMIT $1
-    `,
-      [this.config.batchSize]
+  private async getPendingLeadsForSync(): Promise<MappedRows<Lead>> {
+    const pending = await this.leads.findUpdatedSince(
+      new Date(Date.now() - 60 * 60 * 1000),
+      this.config.batchSize
     );
-
-    return result.rows.map((row: any) => this.mapDatabaseRowToLead(row));
+    this.logInvalidRows('lead', pending);
+    return pending;
   }
 
   private async getPendingInteractionsForSync(): Promise<
-    { interaction: Interaction; contactId: string }[]
+    MappedRows<Interaction>
   > {
     // This is a simplified implementation - in production you'd track sync status
-    const result = await this.db.query(
-      `
-      SELECT i.*, l.id as lead_id FROM interactions i
-      JOIN leads l ON i.lead_id = l.id
-      WHERE i.created_at > NOW() - INTERVAL '1 hour'
-      ORDER BY i.created_at DESC
-      LIMIT $1
-    `,
-      [this.config.batchSize]
+    const pending = await this.interactions.findCreatedSince(
+      new Date(Date.now() - 60 * 60 * 1000),
+      this.config.batchSize
     );
-
-    return result.rows.map((row: any) => ({
-      interaction: this.mapDatabaseRowToInteraction(row),
-      contactId: row.lead_id, // Simplified - would need actual GHL contact ID mapping
-    }));
+    this.logInvalidRows('interaction', pending);
+    return pending;
   }
 
-  private mapDatabaseRowToInteraction(row: any): Interaction {
-    return {
-      id: row.id,
-      leadId: row.lead_id,
-      agentId: row.agent_id,
-      type: row.type,
-      direction: row.direction,
-      content: row.content,
-      outcome: {
-        status: row.outcome_status,
-        appointmentBooked: row.appointment_booked,
-        qualificationUpdated: row.qualification_updated,
-        escalationRequired: row.escalation_required,
-      },
-      duration: row.duration_seconds,
-      sentiment: row.sentiment_score
-        ? {
-            score: row.sentiment_score,
-            confidence: 0.8, // Simplified
-          }
-        : undefined,
-      nextAction: row.next_action
-        ? {
-            action: row.next_action,
-            scheduledAt: row.next_action_scheduled_at,
-          }
-        : undefined,
-      timestamp: row.created_at,
-    };
+  private logInvalidRows(type: string, rows: MappedRows<unknown>): void {
+    for (const { id, error } of rows.invalid) {
+      logger.warn(`Skipping invalid ${type} ${id} in sync: ${error}`);
+    }
   }
 
   private queueForRetry(type: string, id: string, data: any): void {
@@ -738,14 +594,4 @@ export class AICRMManagementAgent {
     }
   }
 
-  private generateUUID(): string {
-    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(
-      /[xy]/g,
-      function (c) {
-        const r = (Math.random() * 16) | 0;
-        const v = c == 'x' ? r : (r & 0x3) | 0x8;
-        return v.toString(16);
-      }
-    );
-  }
 }
@@ -4,6 +4,15 @@ import {
   AgentPerformance,
   PerformanceMetrics,
 } from '../types/agent-performance';
+import {
+  RoutingRuleDefinition,
+  RoutingRuleValidation,
+  RoutingRuleVersion,
+  RuleCondition,
+} from '../types/routing-rule';
+import { Repositories } from '../database/repositories';
+import { evaluateCondition } from './routing-conditions';
+import { RoutingRuleStore } from './routing-rule-store';
 
 /**
  * Lead analysis result containing evaluation metrics
@@ -46,18 +55,35 @@ export interface PerformanceFeedback {
 }
 
 /**
- * Routing rule configuration
+ * Routing rule configuration. The condition is declarative JSON, so rules
+ * can be stored, edited at runtime and audited.
  */
 export interface RoutingRule {
   id: string;
   name: string;
-  condition: (lead: Lead, analysis: LeadAnalysisResult) => boolean;
+  condition: RuleCondition;
   action: RoutingDecision;
   priority: number;
   enabled: boolean;
   successRate?: number;
 }
 
+/**
+ * Outcome of routing a lead without acting on it
+ */
+export interface RoutingDryRun {
+  analysis: Omit<LeadAnalysisResult, 'routingRecommendation' | 'confidence'>;
+  matchedRuleId: string | null;
+  decision: RoutingDecision;
+  evaluations: Array<{
+    ruleId: string;
+    name: string;
+    priority: number;
+    enabled: boolean;
+    matched: boolean;
+  }>;
+}
+
 /**
  * AI Head Agent configuration
  */
@@ -110,14 +136,20 @@ const DEFAULT_CONFIG: AIHeadAgentConfig = {
  * - Process performance feedback for system optimization
  * - Coordinate between inbound and outbound workflows
  * - Implement dynamic routing rule adjustments
+ * - Keep a version history of routing rules edited through the rule API
  */
 export class AIHeadAgent {
   private config: AIHeadAgentConfig;
   private performanceHistory: Map<string, PerformanceFeedback[]> = new Map();
   private routingHistory: Map<string, LeadAnalysisResult> = new Map();
+  private ruleStore: RoutingRuleStore;
 
-  constructor(config: Partial<AIHeadAgentConfig> = {}) {
+  constructor(
+    config: Partial<AIHeadAgentConfig> = {},
+    repositories: Partial<Repositories> = {}
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.ruleStore = new RoutingRuleStore(repositories.routingRules);
     if (!config.hasOwnProperty('routingRules') || !config.routingRules) {
       this.initializeDefaultRoutingRules();
     }
@@ -131,9 +163,16 @@ export class AIHeadAgent {
       {
         id: 'hot-lead-immediate',
         name: 'Hot Lead Immediate Response',
-        condition: (lead, analysis) =>
-          analysis.leadType === 'hot' ||
-          analysis.urgencyLevel >= this.config.urgencyThresholds.high,
+        condition: {
+          any: [
+            { field: 'analysis.leadType', operator: 'equals', value: 'hot' },
+            {
+              field: 'analysis.urgencyLevel',
+              operator: 'greater_than_or_equal',
+              value: { field: 'config.urgencyThresholds.high' },
+            },
+          ],
+        },
         action: {
           targetAgent: 'inbound',
           priority: 'high',
@@ -153,9 +192,16 @@ export class AIHeadAgent {
       {
         id: 'direct-inquiry-inbound',
         name: 'Direct Inquiry to Inbound',
-        condition: (lead, analysis) =>
-          lead.source === 'website' &&
-          analysis.intentScore >= this.config.intentThresholds.high,
+        condition: {
+          all: [
+            { field: 'lead.source', operator: 'equals', value: 'website' },
+            {
+              field: 'analysis.intentScore',
+              operator: 'greater_than_or_equal',
+              value: { field: 'config.intentThresholds.high' },
+            },
+          ],
+        },
         action: {
           targetAgent: 'inbound',
           priority: 'high',
@@ -169,9 +215,16 @@ export class AIHeadAgent {
       {
         id: 'warm-lead-nurture',
         name: 'Warm Lead Nurturing',
-        condition: (lead, analysis) =>
-          analysis.leadType === 'warm' &&
-          analysis.intentScore >= this.config.intentThresholds.medium,
+        condition: {
+          all: [
+            { field: 'analysis.leadType', operator: 'equals', value: 'warm' },
+            {
+              field: 'analysis.intentScore',
+              operator: 'greater_than_or_equal',
+              value: { field: 'config.intentThresholds.medium' },
+            },
+          ],
+        },
         action: {
           targetAgent: 'outbound',
           priority: 'medium',
@@ -185,9 +238,16 @@ export class AIHeadAgent {
       {
         id: 'cold-lead-outbound',
         name: 'Cold Lead Outbound Processing',
-        condition: (lead, analysis) =>
-          analysis.leadType === 'cold' ||
-          analysis.intentScore < this.config.intentThresholds.medium,
+        condition: {
+          any: [
+            { field: 'analysis.leadType', operator: 'equals', value: 'cold' },
+            {
+              field: 'analysis.intentScore',
+              operator: 'less_than',
+              value: { field: 'config.intentThresholds.medium' },
+            },
+          ],
+        },
         action: {
           targetAgent: 'outbound',
           priority: 'low',
@@ -218,17 +278,12 @@ export class AIHeadAgent {
         throw new Error('Lead ID is required and cannot be empty');
       }
 
-      // Evaluate lead type based on existing data and signals
-      const evaluatedLeadType = this.evaluateLeadType(lead);
-
-      // Calculate urgency level
-      const urgencyLevel = this.calculateUrgencyLevel(lead);
-
-      // Analyze intent signals
-      const intentScore = this.analyzeIntentSignals(lead);
-
-      // Evaluate source quality
-      const sourceQuality = this.evaluateSourceQuality(lead.source);
+      const {
+        leadType: evaluatedLeadType,
+        urgencyLevel,
+        intentScore,
+        sourceQuality,
+      } = this.evaluateLead(lead);
 
       // Determine routing decision
       const routingRecommendation = this.determineRouting(lead, {
@@ -270,6 +325,24 @@ export class AIHeadAgent {
     }
   }
 
+  /**
+   * Lead type, urgency, intent and source quality: the inputs of routing
+   */
+  private evaluateLead(
+    lead: Lead
+  ): Pick<
+    LeadAnalysisResult,
+    'leadType' | 'urgencyLevel' | 'intentScore' | 'sourceQuality'
+  > {
+    return {
+      // Evaluate lead type based on existing data and signals
+      leadType: this.evaluateLeadType(lead),
+      urgencyLevel: this.calculateUrgencyLevel(lead),
+      intentScore: this.analyzeIntentSignals(lead),
+      sourceQuality: this.evaluateSourceQuality(lead.source),
+    };
+  }
+
   /**
    * Evaluate lead type based on existing data and behavioral signals
    */
@@ -466,17 +539,10 @@ export class AIHeadAgent {
     analysis: Partial<LeadAnalysisResult>
   ): RoutingDecision {
     // Find the first matching routing rule
-    for (const rule of this.config.routingRules
-      .filter((r) => r.enabled)
-      .sort((a, b) => a.priority - b.priority)) {
-      if (rule.condition(lead, analysis as LeadAnalysisResult)) {
-        // Apply any performance-based adjustments
-        const adjustedAction = this.applyPerformanceAdjustments(
-          rule.action,
-          rule.id
-        );
-        return adjustedAction;
-      }
+    const rule = this.findMatchingRule(lead, analysis);
+    if (rule) {
+      // Apply any performance-based adjustments
+      return this.applyPerformanceAdjustments(rule.action, rule.id);
     }
 
     // Fallback routing if no rules match
@@ -492,6 +558,40 @@ export class AIHeadAgent {
     };
   }
 
+  /**
+   * Enabled rules in the order they are tried
+   */
+  private getActiveRules(): RoutingRule[] {
+    return this.config.routingRules
+      .filter((r) => r.enabled)
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  private findMatchingRule(
+    lead: Lead,
+    analysis: Partial<LeadAnalysisResult>
+  ): RoutingRule | undefined {
+    return this.getActiveRules().find((rule) =>
+      this.ruleMatches(rule, lead, analysis)
+    );
+  }
+
+  private ruleMatches(
+    rule: RoutingRule,
+    lead: Lead,
+    analysis: Partial<LeadAnalysisResult>
+  ): boolean {
+    return evaluateCondition(rule.condition, {
+      lead,
+      analysis,
+      config: {
+        urgencyThresholds: this.config.urgencyThresholds,
+        intentThresholds: this.config.intentThresholds,
+        responseTimeSLA: this.config.responseTimeSLA,
+      },
+    });
+  }
+
   /**
    * Apply performance-based adjustments to routing decisions
    */
@@ -689,7 +789,8 @@ export class AIHeadAgent {
   }
 
   /**
-   * Add or update a routing rule
+   * Add or update a routing rule for this process only; use
+   * createRoutingRule or updateRoutingRule to record a version
    */
   addRoutingRule(rule: RoutingRule): void {
     const existingIndex = this.config.routingRules.findIndex(
@@ -714,6 +815,154 @@ export class AIHeadAgent {
     );
   }
 
+  /**
+   * Load the persisted routing rules, replacing the configured ones. When
+   * nothing has been persisted yet, the configured rules become version 1.
+   */
+  async loadRoutingRules(changedBy: string = 'system'): Promise<void> {
+    const stored = await this.ruleStore.getCurrentRules();
+    if (stored.length === 0) {
+      for (const rule of this.config.routingRules) {
+        await this.ruleStore.record(rule.id, 'created', toDefinition(rule), {
+          changedBy,
+        });
+      }
+      return;
+    }
+
+    this.config.routingRules = stored
+      .map((definition) => ({ ...definition }))
+      .sort((a, b) => a.priority - b.priority);
+  }
+
+  getRoutingRule(ruleId: string): RoutingRule | undefined {
+    return this.config.routingRules.find((r) => r.id === ruleId);
+  }
+
+  /**
+   * Create a routing rule and record it as version 1
+   */
+  async createRoutingRule(
+    input: unknown,
+    changedBy?: string
+  ): Promise<RoutingRule> {
+    const validation = RoutingRuleValidation.validateRoutingRule(input);
+    if (!validation.success) {
+      throw validation.error;
+    }
+    if (this.getRoutingRule(validation.data.id)) {
+      throw new Error(`Routing rule ${validation.data.id} already exists`);
+    }
+
+    await this.ruleStore.record(validation.data.id, 'created', validation.data, {
+      changedBy,
+    });
+    const rule: RoutingRule = { ...validation.data };
+    this.addRoutingRule(rule);
+    return rule;
+  }
+
+  /**
+   * Change fields of a routing rule, recording a new version. Returns null
+   * when the rule does not exist.
+   */
+  async updateRoutingRule(
+    ruleId: string,
+    updates: Record<string, unknown>,
+    changedBy?: string
+  ): Promise<RoutingRule | null> {
+    const existing = this.getRoutingRule(ruleId);
+    if (!existing) return null;
+
+    const validation = RoutingRuleValidation.validateRoutingRule({
+      ...toDefinition(existing),
+      ...updates,
+      id: ruleId,
+    });
+    if (!validation.success) {
+      throw validation.error;
+    }
+
+    await this.ruleStore.record(ruleId, 'updated', validation.data, {
+      changedBy,
+    });
+    const rule: RoutingRule = {
+      ...validation.data,
+      successRate: existing.successRate,
+    };
+    this.addRoutingRule(rule);
+    return rule;
+  }
+
+  /**
+   * Delete a routing rule; its history is kept. Returns false when the rule
+   * does not exist.
+   */
+  async deleteRoutingRule(ruleId: string, changedBy?: string): Promise<boolean> {
+    if (!this.getRoutingRule(ruleId)) return false;
+
+    await this.ruleStore.record(ruleId, 'deleted', null, { changedBy });
+    this.removeRoutingRule(ruleId);
+    return true;
+  }
+
+  /**
+   * Restore the definition a rule had in an earlier version, as a new
+   * version. Deleted rules can be restored too. Returns null when the
+   * version does not exist or is a deletion.
+   */
+  async rollbackRoutingRule(
+    ruleId: string,
+    version: number,
+    changedBy?: string
+  ): Promise<RoutingRule | null> {
+    const target = await this.ruleStore.getVersion(ruleId, version);
+    if (!target?.definition) return null;
+
+    await this.ruleStore.record(ruleId, 'rolled_back', target.definition, {
+      changedBy,
+      restoredFromVersion: version,
+    });
+    const rule: RoutingRule = {
+      ...target.definition,
+      successRate: this.getRoutingRule(ruleId)?.successRate,
+    };
+    this.addRoutingRule(rule);
+    return rule;
+  }
+
+  async getRoutingRuleHistory(ruleId: string): Promise<RoutingRuleVersion[]> {
+    return this.ruleStore.getHistory(ruleId);
+  }
+
+  /**
+   * Which rule a lead would hit, with the result of every rule, without
+   * recording the analysis
+   */
+  dryRunRouting(lead: Lead): RoutingDryRun {
+    const analysis = this.evaluateLead(lead);
+    const matched = this.findMatchingRule(lead, analysis);
+
+    return {
+      analysis: {
+        leadId: lead.id,
+        ...analysis,
+        analysisTimestamp: new Date(),
+      },
+      matchedRuleId: matched?.id ?? null,
+      decision: this.determineRouting(lead, analysis),
+      evaluations: [...this.config.routingRules]
+        .sort((a, b) => a.priority - b.priority)
+        .map((rule) => ({
+          ruleId: rule.id,
+          name: rule.name,
+          priority: rule.priority,
+          enabled: rule.enabled,
+          matched: this.ruleMatches(rule, lead, analysis),
+        })),
+    };
+  }
+
   /**
    * Get lead age in hours
    */
@@ -753,7 +1002,7 @@ export class AIHeadAgent {
     routingAdjustments?: {
       urgencyThresholds?: { high: number; medium: number };
       intentThresholds?: { high: number; medium: number };
-      sourceQualityWeights?: Partial<Record<LeadSource, number>>;
+      sourceQualityWeights?: Record<LeadSource, number>;
     };
     newRoutingRules?: RoutingRule[];
     ruleUpdates?: Array<{ ruleId: string; updates: Partial<RoutingRule> }>;
@@ -844,3 +1093,14 @@ export class AIHeadAgent {
     this.config.optimizationEnabled = enabled;
   }
 }
+
+function toDefinition(rule: RoutingRule): RoutingRuleDefinition {
+  return {
+    id: rule.id,
+    name: rule.name,
+    condition: rule.condition,
+    action: rule.action,
+    priority: rule.priority,
+    enabled: rule.enabled,
+  };
+}
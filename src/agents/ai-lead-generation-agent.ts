@@ -5,6 +5,17 @@ import {
   CreateInteraction,
 } from '../types/interaction';
 import { AgentPerformanceModel } from '../types/agent-performance';
+import { Repositories } from '../database/repositories';
+import { recordAgentInteraction } from './interaction-recorder';
+import {
+  MultiChannelCommunicationManager,
+  SendMessageResult,
+} from '../communication/multi-channel-manager';
+import { createMessageProviders } from '../communication/providers';
+import { JobDeferral, JobQueue, JobWorker } from '../jobs';
+
+// Job that sends one step of an outbound sequence
+export const LEAD_SEQUENCE_STEP_JOB = 'lead-generation.sequence-step';
 
 // Campaign types and interfaces
 export interface Campaign {
@@ -120,18 +131,54 @@ export interface VariantPerformance {
   conversionRate: number;
 }
 
+interface SequenceStepJob {
+  sequence: OutboundSequence;
+  contactInfo?: Lead['contactInfo'];
+}
+
+/**
+ * Sequence as it comes back from a job payload, with its dates restored
+ */
+function reviveSequence(sequence: OutboundSequence): OutboundSequence {
+  return {
+    ...sequence,
+    interactions: [...sequence.interactions],
+    nextScheduledAt: new Date(sequence.nextScheduledAt),
+    createdAt: new Date(sequence.createdAt),
+    updatedAt: new Date(sequence.updatedAt),
+  };
+}
+
 /**
  * AI Lead Generation Agent for outbound processing
  * Handles cold lead follow-up, warm lead re-engagement, and campaign-driven outreach
+ *
+ * With a JobQueue every later sequence step is a delayed job, so sequences
+ * carry on across restarts; register the handlers on the worker with
+ * registerJobHandlers().
  */
 export class AILeadGenerationAgent {
   private agentId: string;
   private campaigns: Map<string, Campaign> = new Map();
   private sequences: Map<string, OutboundSequence> = new Map();
   private performanceData: Map<string, CampaignPerformance> = new Map();
-
-  constructor(agentId: string = 'ai-lead-generation-agent') {
+  private contacts: Map<string, Lead['contactInfo']> = new Map();
+  private repositories: Partial<Repositories>;
+  private communicationManager: MultiChannelCommunicationManager;
+  private jobs?: JobQueue;
+
+  constructor(
+    agentId: string = 'ai-lead-generation-agent',
+    repositories: Partial<Repositories> = {},
+    communicationManager = new MultiChannelCommunicationManager(
+      createMessageProviders()
+    ),
+    jobs?: JobQueue
+  ) {
     this.agentId = agentId;
+    this.repositories = repositories;
+    this.communicationManager = communicationManager;
+    this.jobs = jobs;
   }
 
   /**
@@ -271,6 +318,7 @@ export class AILeadGenerationAgent {
     };
 
     this.sequences.set(sequenceId, sequence);
+    this.contacts.set(lead.id, lead.contactInfo);
     return sequence;
   }
 
@@ -301,6 +349,7 @@ export class AILeadGenerationAgent {
     };
 
     this.sequences.set(sequenceId, sequence);
+    this.contacts.set(lead.id, lead.contactInfo);
     return sequence;
   }
 
@@ -327,6 +376,7 @@ export class AILeadGenerationAgent {
     };
 
     this.sequences.set(sequenceId, sequence);
+    this.contacts.set(lead.id, lead.contactInfo);
     return sequence;
   }
 
@@ -334,50 +384,112 @@ export class AILeadGenerationAgent {
    * Execute a single step in an outbound sequence
    */
   private async executeSequenceStep(sequence: OutboundSequence): Promise<void> {
+    try {
+      const retryAt = await this.sendSequenceStep(sequence);
+      if (retryAt) {
+        // Send window or frequency limits: retry the same step later
+        await this.scheduleSequenceExecution(sequence, retryAt);
+      }
+    } catch (error) {
+      console.error(
+        `Failed to execute sequence step for ${sequence.id}:`,
+        error
+      );
+      sequence.status = 'failed';
+    }
+  }
+
+  /**
+   * Send the current step of a sequence and schedule the next one. Returns
+   * the time to try the step again when the lead's send window or
+   * frequency limits hold it back.
+   */
+  private async sendSequenceStep(
+    sequence: OutboundSequence
+  ): Promise<Date | undefined> {
     if (sequence.currentStep >= sequence.totalSteps) {
       sequence.status = 'completed';
-      return;
+      return undefined;
     }
 
-    try {
-      // Get the message template for current step
-      const messageTemplate = await this.getMessageTemplateForStep(sequence);
+    // Get the message template for current step
+    const messageTemplate = await this.getMessageTemplateForStep(sequence);
 
-      // Personalize the message
-      const personalizedMessage = await this.personalizeMessage(
-        messageTemplate,
-        sequence.leadId
-      );
+    // Personalize the message
+    const personalizedMessage = await this.personalizeMessage(
+      messageTemplate,
+      sequence.leadId
+    );
 
-      // Create and send interaction
-      const interaction = await this.createOutboundInteraction(
-        sequence.leadId,
-        messageTemplate.channel,
-        personalizedMessage
+    // Send the message, then record it as an interaction. The step is
+    // sent at most once, even when its job runs again after sending.
+    const result = await this.sendOutboundMessage(
+      sequence.leadId,
+      messageTemplate,
+      personalizedMessage,
+      `${sequence.id}:step:${sequence.currentStep}`
+    );
+    if (!result.sent) {
+      if (result.nextAllowedTime) {
+        sequence.nextScheduledAt = result.nextAllowedTime;
+        sequence.updatedAt = new Date();
+        return result.nextAllowedTime;
+      }
+      throw new Error(
+        `Message to lead ${sequence.leadId} was not sent: ${result.reason}`
       );
+    }
 
-      // Update sequence
-      sequence.interactions.push(interaction.id);
-      sequence.currentStep++;
-      sequence.nextScheduledAt = this.calculateNextStepTime(sequence);
-      sequence.updatedAt = new Date();
+    const interaction = await this.createOutboundInteraction(
+      sequence.leadId,
+      messageTemplate.channel,
+      personalizedMessage
+    );
 
-      // Schedule next step if not completed
-      if (sequence.currentStep < sequence.totalSteps) {
-        await this.scheduleSequenceExecution(
-          sequence,
-          sequence.nextScheduledAt
-        );
-      } else {
-        sequence.status = 'completed';
-      }
-    } catch (error) {
-      console.error(
-        `Failed to execute sequence step for ${sequence.id}:`,
-        error
-      );
-      sequence.status = 'failed';
+    // Update sequence
+    sequence.interactions.push(interaction.id);
+    sequence.currentStep++;
+    sequence.nextScheduledAt = this.calculateNextStepTime(sequence);
+    sequence.updatedAt = new Date();
+
+    // Schedule next step if not completed
+    if (sequence.currentStep < sequence.totalSteps) {
+      await this.scheduleSequenceExecution(sequence, sequence.nextScheduledAt);
+    } else {
+      sequence.status = 'completed';
     }
+    return undefined;
+  }
+
+  /**
+   * Run a queued sequence step. After a restart the job carries the only
+   * copy of the sequence.
+   */
+  private async runSequenceStepJob(
+    job: SequenceStepJob
+  ): Promise<JobDeferral | void> {
+    const snapshot = reviveSequence(job.sequence);
+    const cached = this.sequences.get(snapshot.id);
+    const sequence =
+      cached && cached.currentStep >= snapshot.currentStep ? cached : snapshot;
+
+    // Skip steps this instance already sent, e.g. when the job ran again
+    // after its worker lost the lease, and sequences no longer running
+    if (
+      sequence.currentStep !== snapshot.currentStep ||
+      sequence.status !== 'active'
+    ) {
+      return;
+    }
+
+    this.sequences.set(sequence.id, sequence);
+    if (job.contactInfo) {
+      this.contacts.set(sequence.leadId, job.contactInfo);
+    }
+
+    // Failures are thrown so the queue retries the step
+    const retryAt = await this.sendSequenceStep(sequence);
+    return retryAt ? { deferUntil: retryAt } : undefined;
   }
 
   /**
@@ -504,6 +616,45 @@ export class AILeadGenerationAgent {
     }
   }
 
+  /**
+   * Send a sequence message to the lead through the communication manager.
+   * Outside the lead's send window it is not deferred by the manager: the
+   * step is tried again at nextAllowedTime instead.
+   */
+  private async sendOutboundMessage(
+    leadId: string,
+    template: MessageTemplate,
+    content: string,
+    idempotencyKey: string
+  ): Promise<SendMessageResult> {
+    const contactInfo = this.contacts.get(leadId);
+    const to =
+      template.channel === 'email' ? contactInfo?.email : contactInfo?.phone;
+    if (!to) {
+      return {
+        sent: false,
+        reason: `Lead has no contact details for ${template.channel}`,
+      };
+    }
+
+    return this.communicationManager.sendMessage({
+      leadId,
+      channel: template.channel,
+      to,
+      subject: template.subject
+        ? await this.personalizeMessage(
+            { ...template, content: template.subject },
+            leadId
+          )
+        : undefined,
+      content,
+      metadata: { agentId: this.agentId },
+      timezone: contactInfo?.timezone,
+      idempotencyKey,
+      deferOutsideWindow: false,
+    });
+  }
+
   /**
    * Create outbound interaction
    */
@@ -527,7 +678,13 @@ export class AILeadGenerationAgent {
       },
     };
 
-    return InteractionModel.create(interactionData);
+    const interaction = InteractionModel.create(interactionData);
+    await recordAgentInteraction(
+      this.repositories.interactions,
+      interaction.data
+    );
+
+    return interaction;
   }
 
   /**
@@ -793,16 +950,40 @@ export class AILeadGenerationAgent {
     ];
   }
 
+  /**
+   * Queue the current step of a sequence. Without a job queue the time is
+   * only logged.
+   */
   private async scheduleSequenceExecution(
     sequence: OutboundSequence,
     scheduledTime: Date
   ): Promise<void> {
-    // In a real implementation, this would integrate with a job scheduler
-    // For now, we'll just log the scheduling
-    console.log(
-      `Scheduled sequence ${
-        sequence.id
-      } for execution at ${scheduledTime.toISOString()}`
+    if (!this.jobs) {
+      console.log(
+        `Scheduled sequence ${
+          sequence.id
+        } for execution at ${scheduledTime.toISOString()}`
+      );
+      return;
+    }
+
+    const job: SequenceStepJob = {
+      sequence,
+      contactInfo: this.contacts.get(sequence.leadId),
+    };
+    await this.jobs.enqueue(LEAD_SEQUENCE_STEP_JOB, job, {
+      runAt: scheduledTime,
+      // One job per step, however often the step gets scheduled
+      idempotencyKey: `${sequence.id}:step:${sequence.currentStep}`,
+    });
+  }
+
+  /**
+   * Run queued sequence steps on a job worker
+   */
+  registerJobHandlers(worker: JobWorker): void {
+    worker.register(LEAD_SEQUENCE_STEP_JOB, (payload) =>
+      this.runSequenceStepJob(payload as SequenceStepJob)
     );
   }
 
@@ -637,7 +637,7 @@ export class ChiefAgent {
    */
   private addSystemAlert(
     alert: Omit<SystemAlert, 'id' | 'timestamp' | 'acknowledged'>
-  ): void {
+  ): SystemAlert {
     const alertId = this.generateId();
     const systemAlert: SystemAlert = {
       ...alert,
@@ -647,6 +647,16 @@ export class ChiefAgent {
     };
 
     this.systemAlerts.set(alertId, systemAlert);
+    return systemAlert;
+  }
+
+  /**
+   * Raise an alert on behalf of another component, e.g. an SLA breach
+   */
+  raiseAlert(
+    alert: Omit<SystemAlert, 'id' | 'timestamp' | 'acknowledged'>
+  ): SystemAlert {
+    return this.addSystemAlert(alert);
   }
 
   /**
@@ -5,6 +5,24 @@ import {
   CreateInteraction,
   InteractionType,
 } from '../types/interaction';
+import { Repositories } from '../database/repositories';
+import { recordAgentInteraction } from './interaction-recorder';
+import { loadActiveAgentSession, saveAgentSession } from './agent-sessions';
+import {
+  MultiChannelCommunicationManager,
+  SendMessageResult,
+} from '../communication/multi-channel-manager';
+import {
+  MessageChannel,
+  createMessageProviders,
+} from '../communication/providers';
+import { JobDeferral, JobQueue, JobWorker } from '../jobs';
+
+// Job that sends the next message of a re-engagement campaign
+export const RETENTION_CAMPAIGN_STEP_JOB = 'retention.campaign-step';
+
+// Wait after a neutral response before the next campaign message
+const NEXT_STEP_DELAY_MS = 24 * 60 * 60 * 1000;
 
 /**
  * Re-engagement trigger configuration
@@ -67,6 +85,9 @@ export interface ReengagementSession {
   currentStep: number;
   messagesAttempted: number;
   lastContactAt?: Date;
+  // When to try the current step again after the lead's send window or
+  // frequency limits held it back
+  heldUntil?: Date;
   responseReceived: boolean;
   completedAt?: Date;
   outcome?: 're_engaged' | 'no_response' | 'opted_out' | 'converted';
@@ -178,6 +199,24 @@ const DEFAULT_CONFIG: CustomerRetentionConfig = {
   maxConcurrentCampaigns: 50,
 };
 
+/**
+ * Session as it comes back from a job payload or the database, with its
+ * dates restored
+ */
+function reviveSession(session: ReengagementSession): ReengagementSession {
+  return {
+    ...session,
+    startedAt: new Date(session.startedAt),
+    lastContactAt: session.lastContactAt
+      ? new Date(session.lastContactAt)
+      : undefined,
+    heldUntil: session.heldUntil ? new Date(session.heldUntil) : undefined,
+    completedAt: session.completedAt
+      ? new Date(session.completedAt)
+      : undefined,
+  };
+}
+
 /**
  * Customer Retention & Re-engagement Agent
  *
@@ -187,14 +226,32 @@ const DEFAULT_CONFIG: CustomerRetentionConfig = {
  * - Execute multi-channel outreach campaigns
  * - Handle responses and route to appropriate workflows
  * - Track engagement success and optimize campaigns
+ *
+ * With a JobQueue the next campaign step is a delayed job carrying the
+ * session, so campaigns survive restarts; without one it is a timer in
+ * this process. With repositories every session change is stored, so
+ * replies find their session on any instance.
  */
 export class CustomerRetentionAgent {
   private config: CustomerRetentionConfig;
   private activeSessions: Map<string, ReengagementSession> = new Map();
   private engagementAnalyses: Map<string, EngagementAnalysis> = new Map();
-
-  constructor(config: Partial<CustomerRetentionConfig> = {}) {
+  private repositories: Partial<Repositories>;
+  private communicationManager: MultiChannelCommunicationManager;
+  private jobs?: JobQueue;
+
+  constructor(
+    config: Partial<CustomerRetentionConfig> = {},
+    repositories: Partial<Repositories> = {},
+    communicationManager = new MultiChannelCommunicationManager(
+      createMessageProviders()
+    ),
+    jobs?: JobQueue
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.repositories = repositories;
+    this.communicationManager = communicationManager;
+    this.jobs = jobs;
     this.initializeDefaultConfiguration();
   }
 
@@ -472,7 +529,7 @@ Best,
       const leadInteractions = interactions.get(lead.id) || [];
 
       // Skip if already in an active campaign
-      if (this.hasActiveCampaign(lead.id)) {
+      if (await this.findActiveSession(lead.id)) {
         continue;
       }
 
@@ -526,14 +583,14 @@ Best,
       responseReceived: false,
     };
 
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     // Generate engagement analysis
     const analysis = await this.analyzeCustomerEngagement(lead, []);
     this.engagementAnalyses.set(lead.id, analysis);
 
     // Send first message
-    await this.executeNextCampaignStep(session.id);
+    await this.executeScheduledCampaignStep(session.id);
 
     return session;
   }
@@ -559,7 +616,7 @@ Best,
       session.status = 'completed';
       session.outcome = 'no_response';
       session.completedAt = new Date();
-      this.activeSessions.set(sessionId, session);
+      await this.saveSession(session);
       return false;
     }
 
@@ -569,7 +626,7 @@ Best,
       session.status = 'completed';
       session.outcome = 'no_response';
       session.completedAt = new Date();
-      this.activeSessions.set(sessionId, session);
+      await this.saveSession(session);
       return false;
     }
 
@@ -589,12 +646,84 @@ Best,
       session.messagesAttempted++;
       session.currentStep++;
       session.lastContactAt = new Date();
-      this.activeSessions.set(sessionId, session);
+      await this.saveSession(session);
     }
 
     return success;
   }
 
+  /**
+   * Execute the next campaign step outside the job queue, trying it again
+   * later when it is held back
+   */
+  private async executeScheduledCampaignStep(sessionId: string): Promise<void> {
+    await this.executeNextCampaignStep(sessionId);
+
+    const session = this.activeSessions.get(sessionId);
+    if (session?.status === 'active' && session.heldUntil) {
+      await this.scheduleNextCampaignStep(
+        session,
+        session.heldUntil.getTime() - Date.now()
+      );
+    }
+  }
+
+  /**
+   * Run the next campaign step after a delay
+   */
+  private async scheduleNextCampaignStep(
+    session: ReengagementSession,
+    delayMs: number
+  ): Promise<void> {
+    if (!this.jobs) {
+      setTimeout(() => this.executeScheduledCampaignStep(session.id), delayMs);
+      return;
+    }
+
+    await this.jobs.enqueue(
+      RETENTION_CAMPAIGN_STEP_JOB,
+      { session },
+      {
+        runAt: new Date(Date.now() + delayMs),
+        // Several responses to one message still send the next one once
+        idempotencyKey: `${session.id}:step:${session.currentStep}`,
+      }
+    );
+  }
+
+  /**
+   * Run a queued campaign step. After a restart the job carries the only
+   * copy of the session. A step held back by the lead's send window or
+   * frequency limits defers the job until it may be sent.
+   */
+  private async runCampaignStepJob(job: {
+    session: ReengagementSession;
+  }): Promise<JobDeferral | void> {
+    const snapshot = reviveSession(job.session);
+    const cached = this.activeSessions.get(snapshot.id);
+    const session =
+      cached && cached.currentStep >= snapshot.currentStep ? cached : snapshot;
+
+    // The step already went out from this instance
+    if (session.currentStep !== snapshot.currentStep) return;
+
+    await this.saveSession(session);
+    await this.executeNextCampaignStep(session.id);
+
+    if (session.status === 'active' && session.heldUntil) {
+      return { deferUntil: session.heldUntil };
+    }
+  }
+
+  /**
+   * Run queued campaign steps on a job worker
+   */
+  registerJobHandlers(worker: JobWorker): void {
+    worker.register(RETENTION_CAMPAIGN_STEP_JOB, (payload) =>
+      this.runCampaignStepJob(payload as { session: ReengagementSession })
+    );
+  }
+
   /**
    * Send a re-engagement message
    */
@@ -611,7 +740,6 @@ Best,
     if (!template) return false;
 
     // Get lead data for personalization
-    // In a real implementation, this would fetch from database
     const leadData = await this.getLeadData(session.leadId);
     const analysis = this.engagementAnalyses.get(session.leadId);
 
@@ -622,14 +750,25 @@ Best,
       analysis
     );
 
-    // Send message via appropriate channel
-    const success = await this.sendMessage(
+    // Send message via appropriate channel. The step is sent at most once,
+    // even when its job runs again after sending, and is tried again later
+    // rather than deferred when it falls outside the lead's send window.
+    const result = await this.deliverMessage(
+      session.leadId,
       campaignMessage.channel,
       leadData.contactInfo,
-      personalizedMessage
+      personalizedMessage,
+      {
+        idempotencyKey: `${session.id}:step:${session.currentStep}`,
+        deferOutsideWindow: false,
+      }
     );
+    session.heldUntil = result.sent ? undefined : result.nextAllowedTime;
+    if (session.heldUntil) {
+      await this.saveSession(session);
+    }
 
-    if (success) {
+    if (result.sent) {
       // Create interaction record
       const interaction = InteractionModel.create({
         leadId: session.leadId,
@@ -645,11 +784,14 @@ Best,
         },
       });
 
-      // In a real implementation, this would be saved to database
+      await recordAgentInteraction(
+        this.repositories.interactions,
+        interaction.data
+      );
       console.log(`Re-engagement message sent: ${interaction.id}`);
     }
 
-    return success;
+    return result.sent;
   }
 
   /**
@@ -695,89 +837,94 @@ Best,
   }
 
   /**
-   * Send message via specified channel
+   * Send message via specified channel. Delivery goes through the
+   * communication manager, which enforces opt-outs and frequency limits and
+   * defers messages outside the lead's send window; deferred counts as sent.
    */
   async sendMessage(
+    leadId: string,
     channel: InteractionType,
     contactInfo: any,
     message: { subject?: string; content: string }
   ): Promise<boolean> {
-    try {
-      switch (channel) {
-        case 'sms':
-          if (!this.config.channels.sms.enabled || !contactInfo.phone) {
-            return false;
-          }
-          return await this.sendSMS(contactInfo.phone, message.content);
+    const result = await this.deliverMessage(
+      leadId,
+      channel,
+      contactInfo,
+      message
+    );
+    return result.sent || result.deferred === true;
+  }
 
-        case 'email':
-          if (!this.config.channels.email.enabled || !contactInfo.email) {
-            return false;
-          }
-          return await this.sendEmail(
-            contactInfo.email,
-            message.subject || 'Re-engagement',
-            message.content
-          );
+  /**
+   * Send a message through the communication manager, with the manager's
+   * result. Failures are logged and reported as not sent.
+   */
+  private async deliverMessage(
+    leadId: string,
+    channel: InteractionType,
+    contactInfo: any,
+    message: { subject?: string; content: string },
+    options: { idempotencyKey?: string; deferOutsideWindow?: boolean } = {}
+  ): Promise<SendMessageResult> {
+    const to = this.getRecipient(channel, contactInfo);
+    if (!to) {
+      return { sent: false, reason: `No recipient for ${channel}` };
+    }
 
-        case 'whatsapp':
-          if (!this.config.channels.whatsapp.enabled || !contactInfo.phone) {
-            return false;
-          }
-          return await this.sendWhatsApp(contactInfo.phone, message.content);
+    try {
+      const result = await this.communicationManager.sendMessage({
+        leadId,
+        channel: channel as MessageChannel,
+        to,
+        subject:
+          channel === 'email' ? message.subject || 'Re-engagement' : undefined,
+        content: message.content,
+        timezone: contactInfo.timezone,
+        ...options,
+      });
 
-        default:
-          return false;
+      if (result.deferred) {
+        console.log(
+          `${channel} message to lead ${leadId} deferred until ${result.nextAllowedTime?.toISOString()}`
+        );
+      } else if (!result.sent) {
+        console.warn(
+          `${channel} message to lead ${leadId} not sent: ${result.reason}`
+        );
       }
+      return result;
     } catch (error) {
       console.error(`Failed to send ${channel} message:`, error);
-      return false;
+      return {
+        sent: false,
+        reason: error instanceof Error ? error.message : String(error),
+      };
     }
   }
 
   /**
-   * Send SMS message
+   * Address for the channel, if the channel is enabled and the lead has one
    */
-  private async sendSMS(
-    phoneNumber: string,
-    content: string
-  ): Promise<boolean> {
-    // Integration with SMS provider (e.g., Twilio)
-    console.log(`Sending SMS to ${phoneNumber}: ${content}`);
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    return true;
-  }
-
-  /**
-   * Send email message
-   */
-  private async sendEmail(
-    email: string,
-    subject: string,
-    content: string
-  ): Promise<boolean> {
-    // Integration with email provider (e.g., SendGrid)
-    console.log(
-      `Sending email to ${email} with subject "${subject}": ${content}`
-    );
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    return true;
-  }
+  private getRecipient(
+    channel: InteractionType,
+    contactInfo: any
+  ): string | null {
+    switch (channel) {
+      case 'sms':
+      case 'whatsapp':
+        return this.config.channels[channel].enabled && contactInfo.phone
+          ? contactInfo.phone
+          : null;
+
+      case 'email':
+        return this.config.channels.email.enabled && contactInfo.email
+          ? contactInfo.email
+          : null;
 
-  /**
-   * Send WhatsApp message
-   */
-  private async sendWhatsApp(
-    phoneNumber: string,
-    content: string
-  ): Promise<boolean> {
-    // Integration with WhatsApp Business API
-    console.log(`Sending WhatsApp to ${phoneNumber}: ${content}`);
-    // Simulate API call
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    return true;
+      default:
+        return null;
+    }
   }
 
   /**
@@ -789,9 +936,7 @@ Best,
     channel: InteractionType
   ): Promise<ResponseHandlingResult> {
     // Find active session for this lead
-    const session = Array.from(this.activeSessions.values()).find(
-      (s) => s.leadId === leadId && s.status === 'active'
-    );
+    const session = await this.findActiveSession(leadId);
 
     if (!session) {
       throw new Error('No active re-engagement session found for lead');
@@ -802,7 +947,7 @@ Best,
 
     // Update session
     session.responseReceived = true;
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     // Determine next action based on response
     const result: ResponseHandlingResult = {
@@ -819,10 +964,7 @@ Best,
           'Neutral response - continuing campaign sequence'
         );
         // Schedule next message if available
-        setTimeout(
-          () => this.executeNextCampaignStep(session.id),
-          24 * 60 * 60 * 1000
-        ); // 24 hours
+        await this.scheduleNextCampaignStep(session, NEXT_STEP_DELAY_MS);
         break;
 
       case 'escalate':
@@ -863,6 +1005,10 @@ Best,
       },
     });
 
+    await recordAgentInteraction(
+      this.repositories.interactions,
+      interaction.data
+    );
     console.log(`Customer response processed: ${interaction.id}`);
 
     return result;
@@ -951,7 +1097,7 @@ Best,
     session.status = 'completed';
     session.outcome = 're_engaged';
     session.completedAt = new Date();
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     // In a real implementation, this would integrate with the human agent queue
     console.log(`Escalating re-engaged lead ${session.leadId} to human agent`);
@@ -964,7 +1110,7 @@ Best,
     session.status = 'completed';
     session.outcome = 'converted';
     session.completedAt = new Date();
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     console.log(
       `Lead ${session.leadId} marked as converted from re-engagement`
@@ -976,7 +1122,7 @@ Best,
    */
   private async pauseCampaign(session: ReengagementSession): Promise<void> {
     session.status = 'paused';
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     console.log(`Re-engagement campaign paused for lead ${session.leadId}`);
   }
@@ -990,7 +1136,7 @@ Best,
     session.status = 'completed';
     session.outcome = 'opted_out';
     session.completedAt = new Date();
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     // Update lead preferences to respect opt-out
     console.log(`Lead ${session.leadId} opted out of re-engagement campaigns`);
@@ -1109,9 +1255,15 @@ Best,
     return 'Budget not specified';
   }
 
-  private hasActiveCampaign(leadId: string): boolean {
-    return Array.from(this.activeSessions.values()).some(
-      (session) => session.leadId === leadId && session.status === 'active'
+  /**
+   * Keep the session in memory and, with a repository, in the database
+   */
+  private async saveSession(session: ReengagementSession): Promise<void> {
+    this.activeSessions.set(session.id, session);
+    await saveAgentSession(
+      this.repositories.agentSessions,
+      're_engagement',
+      session
     );
   }
 
@@ -1125,14 +1277,19 @@ Best,
   }
 
   private async getLeadData(leadId: string): Promise<any> {
-    // In a real implementation, this would fetch from database
-    // For now, return mock data
+    if (this.repositories.leads) {
+      const lead = await this.repositories.leads.findById(leadId);
+      if (lead) return lead;
+    }
+
+    // Without a repository (or an unknown lead) fall back to placeholder data
     return {
       id: leadId,
       contactInfo: {
         name: 'John Doe',
         email: 'john@example.com',
         phone: '+1234567890',
+        timezone: 'UTC',
       },
       qualificationData: {
         location: 'Downtown',
@@ -1183,6 +1340,31 @@ Best,
     return this.activeSessions.get(sessionId);
   }
 
+  /**
+   * The lead's active session. With a repository the database is read, so
+   * sessions started before a restart or on another instance are found.
+   */
+  async findActiveSession(
+    leadId: string
+  ): Promise<ReengagementSession | undefined> {
+    if (!this.repositories.agentSessions) {
+      return Array.from(this.activeSessions.values()).find(
+        (session) => session.leadId === leadId && session.status === 'active'
+      );
+    }
+
+    const session = await loadActiveAgentSession(
+      this.repositories.agentSessions,
+      're_engagement',
+      leadId,
+      reviveSession
+    );
+    if (!session) return undefined;
+
+    this.activeSessions.set(session.id, session);
+    return session;
+  }
+
   /**
    * Get engagement analysis for a lead
    */
@@ -207,9 +207,16 @@ async function demonstrateAIHeadAgent() {
   aiHeadAgent.addRoutingRule({
     id: 'vip-referral',
     name: 'VIP Referral Priority',
-    condition: (lead) =>
-      lead.source === 'referral' &&
-      lead.qualificationData.qualificationScore > 0.8,
+    condition: {
+      all: [
+        { field: 'lead.source', operator: 'equals', value: 'referral' },
+        {
+          field: 'lead.qualificationData.qualificationScore',
+          operator: 'greater_than',
+          value: 0.8,
+        },
+      ],
+    },
     action: {
       targetAgent: 'inbound',
       priority: 'high',
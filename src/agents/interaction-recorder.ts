@@ -0,0 +1,21 @@
+import { InteractionRepository } from '../database/repositories';
+import { Interaction } from '../types/interaction';
+import { logger } from '../utils/logger';
+
+/**
+ * Store an interaction an agent took part in. Without a repository (tests,
+ * examples) nothing is stored, and a storage failure is logged rather than
+ * thrown so the outreach or conversation that produced it carries on.
+ */
+export async function recordAgentInteraction(
+  interactions: InteractionRepository | undefined,
+  interaction: Interaction
+): Promise<void> {
+  if (!interactions) return;
+
+  try {
+    await interactions.create(interaction);
+  } catch (error) {
+    logger.error(`Failed to store interaction ${interaction.id}`, error);
+  }
+}
@@ -534,7 +534,11 @@ export class ContinuousOptimizationLoop {
         const fastResponseRule: RoutingRule = {
           id: `fast_response_${Date.now()}`,
           name: 'Fast Response Priority',
-          condition: (lead, analysis) => analysis.urgencyLevel >= 6,
+          condition: {
+            field: 'analysis.urgencyLevel',
+            operator: 'greater_than_or_equal',
+            value: 6,
+          },
           action: {
             targetAgent: 'inbound',
             priority: 'high',
@@ -0,0 +1,203 @@
+import type {
+  QualificationQuestion,
+  QualificationScript,
+} from './virtual-sales-assistant';
+import {
+  ScoringData,
+  compileScoringCondition,
+  validateScoringCondition,
+} from './scoring-expressions';
+
+const YES_PATTERN = /\b(yes|yeah|yep|sure|correct|definitely|i do|we do)\b/;
+const NO_PATTERN = /\b(no|nope|not really|don't|do not|never)\b/;
+
+/**
+ * ID of the first question of a script
+ */
+export function getStartQuestionId(
+  script: QualificationScript
+): string | undefined {
+  return script.startQuestionId ?? script.questions[0]?.id;
+}
+
+/**
+ * Question to ask after the given one. The first transition whose condition
+ * matches the collected data wins; without a match the flow continues with
+ * the next question of the script. Returns null at the end of the script.
+ */
+export function getNextQuestionId(
+  script: QualificationScript,
+  questionId: string,
+  data: ScoringData
+): string | null {
+  const index = script.questions.findIndex((q) => q.id === questionId);
+  const question = script.questions[index];
+  if (!question) return null;
+
+  const transition = question.next?.find(
+    (t) => t.when === undefined || compileScoringCondition(t.when)(data)
+  );
+  if (transition) return transition.next;
+
+  return script.questions[index + 1]?.id ?? null;
+}
+
+/**
+ * Answer to a question parsed from a response, or undefined when the
+ * response does not answer it. Choices are returned as written in the
+ * script, booleans as "yes" or "no".
+ */
+export function parseAnswer(
+  question: QualificationQuestion,
+  response: string
+): string | undefined {
+  const lower = response.toLowerCase().trim();
+  if (!lower) return undefined;
+
+  switch (question.expectedAnswerType) {
+    case 'choice':
+      return question.choices?.find((choice) =>
+        lower.includes(choice.toLowerCase())
+      );
+    case 'boolean': {
+      const yes = lower.search(YES_PATTERN);
+      const no = lower.search(NO_PATTERN);
+      if (yes === -1 && no === -1) return undefined;
+      if (no === -1 || (yes !== -1 && yes < no)) return 'yes';
+      return 'no';
+    }
+    case 'number': {
+      const match = response.match(/\d[\d,]*(\.\d+)?/);
+      return match ? match[0].replace(/,/g, '') : undefined;
+    }
+    case 'text':
+      return response.trim();
+  }
+}
+
+/**
+ * Problems with the question graph of a script: unknown or duplicate
+ * questions, invalid transition conditions, questions that can never be
+ * asked and loops between questions
+ */
+export function validateQualificationFlow(
+  script: QualificationScript
+): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  for (const question of script.questions) {
+    if (ids.has(question.id)) {
+      errors.push(`Question ${question.id} is defined more than once`);
+    }
+    ids.add(question.id);
+  }
+
+  const startId = getStartQuestionId(script);
+  if (startId === undefined) return errors;
+  if (!ids.has(startId)) {
+    errors.push(`Start question ${startId} does not exist`);
+    return errors;
+  }
+
+  for (const question of script.questions) {
+    question.next?.forEach((transition, index) => {
+      const label = `Transition ${index + 1} of question ${question.id}`;
+      if (transition.next !== null && !ids.has(transition.next)) {
+        errors.push(`${label} leads to unknown question ${transition.next}`);
+      }
+      if (transition.when === undefined) return;
+
+      const problem = validateScoringCondition(transition.when);
+      if (problem) {
+        errors.push(`${label}: ${problem}`);
+      }
+      for (const [, answerId] of transition.when.matchAll(
+        /\banswers\.([a-z_][\w-]*)/gi
+      )) {
+        if (!ids.has(answerId)) {
+          errors.push(
+            `${label} uses the answer to unknown question ${answerId}`
+          );
+        }
+      }
+    });
+  }
+
+  const edges = getEdges(script, ids);
+
+  const reachable = new Set<string>([startId]);
+  const queue = [startId];
+  while (queue.length > 0) {
+    for (const target of edges.get(queue.shift()!) ?? []) {
+      if (!reachable.has(target)) {
+        reachable.add(target);
+        queue.push(target);
+      }
+    }
+  }
+  for (const id of ids) {
+    if (!reachable.has(id)) {
+      errors.push(`Question ${id} can never be asked`);
+    }
+  }
+
+  const loop = findLoop(startId, edges);
+  if (loop) {
+    errors.push(`Questions loop: ${loop.join(' -> ')}`);
+  }
+
+  return errors;
+}
+
+/**
+ * Questions that can follow each question
+ */
+function getEdges(
+  script: QualificationScript,
+  ids: Set<string>
+): Map<string, string[]> {
+  const edges = new Map<string, string[]>();
+
+  script.questions.forEach((question, index) => {
+    const targets = (question.next ?? [])
+      .map((transition) => transition.next)
+      .filter((id): id is string => id !== null && ids.has(id));
+    const unconditional = question.next?.some((t) => t.when === undefined);
+    const following = script.questions[index + 1]?.id;
+    if (!unconditional && following) {
+      targets.push(following);
+    }
+    edges.set(question.id, targets);
+  });
+
+  return edges;
+}
+
+/**
+ * First loop found by a depth-first walk, as the path that closes it
+ */
+function findLoop(
+  startId: string,
+  edges: Map<string, string[]>
+): string[] | null {
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    const position = path.indexOf(id);
+    if (position !== -1) return [...path.slice(position), id];
+    if (done.has(id)) return null;
+
+    path.push(id);
+    for (const target of edges.get(id) ?? []) {
+      const loop = visit(target);
+      if (loop) return loop;
+    }
+    path.pop();
+    done.add(id);
+    return null;
+  };
+
+  return visit(startId);
+}
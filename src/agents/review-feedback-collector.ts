@@ -6,6 +6,26 @@ import {
   InteractionType,
   SentimentScore,
 } from '../types/interaction';
+import { Repositories } from '../database/repositories';
+import { recordAgentInteraction } from './interaction-recorder';
+import { loadActiveAgentSession, saveAgentSession } from './agent-sessions';
+import {
+  MultiChannelCommunicationManager,
+  SendMessageResult,
+} from '../communication/multi-channel-manager';
+import {
+  MessageChannel,
+  createMessageProviders,
+} from '../communication/providers';
+import { JobDeferral, JobQueue, JobWorker } from '../jobs';
+
+// Job that checks whether a feedback request needs a follow-up
+export const FEEDBACK_FOLLOW_UP_JOB = 'feedback.follow-up-check';
+
+interface FollowUpCheckJob {
+  session: FeedbackSession;
+  followUpsSent: number;
+}
 
 /**
  * Project completion trigger configuration
@@ -58,6 +78,9 @@ export interface FeedbackSession {
   feedbackContent?: string;
   reviewRequested: boolean;
   escalationRequired: boolean;
+  // When to try a follow-up again after the lead's send window or
+  // frequency limits held it back
+  heldUntil?: Date;
   completedAt?: Date;
   outcome?:
     | 'positive_review'
@@ -190,6 +213,21 @@ const DEFAULT_CONFIG: ReviewFeedbackConfig = {
   maxFollowUpAttempts: 2,
 };
 
+/**
+ * Session as it comes back from a job payload or the database, with its
+ * dates restored
+ */
+function reviveSession(session: FeedbackSession): FeedbackSession {
+  return {
+    ...session,
+    startedAt: new Date(session.startedAt),
+    heldUntil: session.heldUntil ? new Date(session.heldUntil) : undefined,
+    completedAt: session.completedAt
+      ? new Date(session.completedAt)
+      : undefined,
+  };
+}
+
 /**
  * Review & Feedback Collector Agent
  *
@@ -200,14 +238,32 @@ const DEFAULT_CONFIG: ReviewFeedbackConfig = {
  * - Escalate negative feedback to human management
  * - Guide positive feedback to public review platforms
  * - Track feedback collection success and optimize approaches
+ *
+ * With a JobQueue follow-up checks are delayed jobs carrying the session,
+ * so they survive restarts; without one they are timers in this process.
+ * With repositories every session change is stored, so replies find their
+ * session on any instance.
  */
 export class ReviewFeedbackCollectorAgent {
   private config: ReviewFeedbackConfig;
   private activeSessions: Map<string, FeedbackSession> = new Map();
   private escalations: Map<string, IssueEscalation> = new Map();
-
-  constructor(config: Partial<ReviewFeedbackConfig> = {}) {
+  private repositories: Partial<Repositories>;
+  private communicationManager: MultiChannelCommunicationManager;
+  private jobs?: JobQueue;
+
+  constructor(
+    config: Partial<ReviewFeedbackConfig> = {},
+    repositories: Partial<Repositories> = {},
+    communicationManager = new MultiChannelCommunicationManager(
+      createMessageProviders()
+    ),
+    jobs?: JobQueue
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
+    this.repositories = repositories;
+    this.communicationManager = communicationManager;
+    this.jobs = jobs;
     this.initializeDefaultConfiguration();
   }
 
@@ -454,7 +510,7 @@ Gratefully,
       const leadInteractions = interactions.get(lead.id) || [];
 
       // Skip if already has an active feedback session
-      if (this.hasActiveFeedbackSession(lead.id)) {
+      if (await this.findActiveSession(lead.id)) {
         continue;
       }
 
@@ -494,7 +550,7 @@ Gratefully,
       escalationRequired: false,
     };
 
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     // Send initial congratulatory message with feedback request
     await this.sendInitialFeedbackRequest(session.id);
@@ -542,6 +598,7 @@ Gratefully,
       leadData
     );
     const success = await this.sendMessage(
+      session.leadId,
       template.channel,
       leadData.contactInfo,
       personalizedMessage
@@ -563,13 +620,15 @@ Gratefully,
         },
       });
 
+      await recordAgentInteraction(
+        this.repositories.interactions,
+        interaction.data
+      );
+
       console.log(`Initial feedback request sent: ${interaction.id}`);
 
       // Schedule follow-up if no response received
-      setTimeout(
-        () => this.checkForFollowUp(sessionId),
-        this.config.followUpDelayHours * 60 * 60 * 1000
-      );
+      await this.scheduleFollowUpCheck(session, 0);
     }
 
     return success;
@@ -584,9 +643,7 @@ Gratefully,
     channel: InteractionType
   ): Promise<FeedbackAnalysis> {
     // Find active session for this lead
-    const session = Array.from(this.activeSessions.values()).find(
-      (s) => s.leadId === leadId && s.status === 'active'
-    );
+    const session = await this.findActiveSession(leadId);
 
     if (!session) {
       throw new Error('No active feedback session found for lead');
@@ -599,7 +656,7 @@ Gratefully,
     session.feedbackReceived = true;
     session.feedbackContent = feedbackContent;
     session.sentimentScore = analysis.sentiment;
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     // Create interaction record
     const interaction = InteractionModel.create({
@@ -617,6 +674,11 @@ Gratefully,
       sentiment: analysis.sentiment,
     });
 
+    await recordAgentInteraction(
+      this.repositories.interactions,
+      interaction.data
+    );
+
     console.log(`Feedback received and analyzed: ${interaction.id}`);
 
     // Handle based on analysis results
@@ -629,7 +691,7 @@ Gratefully,
       session.status = 'completed';
       session.outcome = 'neutral';
       session.completedAt = new Date();
-      this.activeSessions.set(session.id, session);
+      await this.saveSession(session);
     }
 
     return analysis;
@@ -774,7 +836,7 @@ Gratefully,
       session.status = 'completed';
       session.outcome = 'negative_escalated';
       session.completedAt = new Date();
-      this.activeSessions.set(session.id, session);
+      await this.saveSession(session);
       return;
     }
 
@@ -815,7 +877,7 @@ Gratefully,
     // Update session
     session.escalationRequired = true;
     session.status = 'escalated';
-    this.activeSessions.set(session.id, session);
+    await this.saveSession(session);
 
     // Send escalation notifications
     await this.sendEscalationNotifications(escalation);
@@ -850,11 +912,14 @@ Gratefully,
       leadData
     );
 
-    // Send review request
+    // Send review request; it answers the customer's feedback, so the
+    // channel cooldown does not apply
     const success = await this.sendMessage(
+      session.leadId,
       template.channel,
       leadData.contactInfo,
-      personalizedMessage
+      personalizedMessage,
+      { reply: true }
     );
 
     if (success) {
@@ -862,7 +927,7 @@ Gratefully,
       session.status = 'completed';
       session.outcome = 'positive_review';
       session.completedAt = new Date();
-      this.activeSessions.set(session.id, session);
+      await this.saveSession(session);
 
       // Create interaction record
       const interaction = InteractionModel.create({
@@ -879,6 +944,11 @@ Gratefully,
         },
       });
 
+      await recordAgentInteraction(
+        this.repositories.interactions,
+        interaction.data
+      );
+
       console.log(`Review request sent: ${interaction.id}`);
     }
   }
@@ -886,31 +956,40 @@ Gratefully,
   /**
    * Check if follow-up is needed and send if appropriate
    */
-  async checkForFollowUp(sessionId: string): Promise<void> {
+  async checkForFollowUp(
+    sessionId: string,
+    followUpsSent: number = 0
+  ): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session || session.status !== 'active' || session.feedbackReceived) {
       return;
     }
 
     // Count previous follow-up attempts
-    const followUpAttempts = await this.getFollowUpAttempts(session.leadId);
+    const followUpAttempts = Math.max(
+      await this.getFollowUpAttempts(session.leadId),
+      followUpsSent
+    );
     if (followUpAttempts >= this.config.maxFollowUpAttempts) {
       // Max attempts reached, complete session
       session.status = 'completed';
       session.outcome = 'no_response';
       session.completedAt = new Date();
-      this.activeSessions.set(session.id, session);
+      await this.saveSession(session);
       return;
     }
 
     // Send follow-up message
-    await this.sendFollowUpMessage(sessionId);
+    await this.sendFollowUpMessage(sessionId, followUpAttempts);
   }
 
   /**
    * Send follow-up feedback request
    */
-  async sendFollowUpMessage(sessionId: string): Promise<boolean> {
+  async sendFollowUpMessage(
+    sessionId: string,
+    followUpsSent: number = 0
+  ): Promise<boolean> {
     const session = this.activeSessions.get(sessionId);
     if (!session) return false;
 
@@ -930,13 +1009,25 @@ Gratefully,
       template,
       leadData
     );
-    const success = await this.sendMessage(
+    // Each follow-up is sent at most once, even when its job runs again
+    // after sending, and is tried again later rather than deferred when it
+    // falls outside the lead's send window
+    const result = await this.deliverMessage(
+      session.leadId,
       template.channel,
       leadData.contactInfo,
-      personalizedMessage
+      personalizedMessage,
+      {
+        idempotencyKey: `${session.id}:follow-up:${followUpsSent}`,
+        deferOutsideWindow: false,
+      }
     );
+    session.heldUntil = result.sent ? undefined : result.nextAllowedTime;
+    if (session.heldUntil) {
+      await this.saveSession(session);
+    }
 
-    if (success) {
+    if (result.sent) {
       // Create interaction record
       const interaction = InteractionModel.create({
         leadId: session.leadId,
@@ -952,16 +1043,77 @@ Gratefully,
         },
       });
 
+      await recordAgentInteraction(
+        this.repositories.interactions,
+        interaction.data
+      );
+
       console.log(`Follow-up feedback request sent: ${interaction.id}`);
 
       // Schedule next follow-up check
-      setTimeout(
-        () => this.checkForFollowUp(sessionId),
-        this.config.followUpDelayHours * 60 * 60 * 1000
-      );
+      await this.scheduleFollowUpCheck(session, followUpsSent + 1);
     }
 
-    return success;
+    return result.sent;
+  }
+
+  /**
+   * Check for a follow-up once the follow-up delay has passed
+   */
+  private async scheduleFollowUpCheck(
+    session: FeedbackSession,
+    followUpsSent: number,
+    delayMs: number = this.config.followUpDelayHours * 60 * 60 * 1000
+  ): Promise<void> {
+    if (!this.jobs) {
+      setTimeout(async () => {
+        await this.checkForFollowUp(session.id, followUpsSent);
+        // Try a held-back follow-up again once it may be sent
+        const current = this.activeSessions.get(session.id);
+        if (current?.status === 'active' && current.heldUntil) {
+          await this.scheduleFollowUpCheck(
+            current,
+            followUpsSent,
+            current.heldUntil.getTime() - Date.now()
+          );
+        }
+      }, delayMs);
+      return;
+    }
+
+    const job: FollowUpCheckJob = { session, followUpsSent };
+    await this.jobs.enqueue(FEEDBACK_FOLLOW_UP_JOB, job, {
+      runAt: new Date(Date.now() + delayMs),
+      idempotencyKey: `${session.id}:follow-up:${followUpsSent}`,
+    });
+  }
+
+  /**
+   * Run a queued follow-up check. After a restart the job carries the
+   * only copy of the session. A follow-up held back by the lead's send
+   * window or frequency limits defers the job until it may be sent.
+   */
+  private async runFollowUpCheckJob(
+    job: FollowUpCheckJob
+  ): Promise<JobDeferral | void> {
+    if (!this.activeSessions.has(job.session.id)) {
+      this.activeSessions.set(job.session.id, reviveSession(job.session));
+    }
+    await this.checkForFollowUp(job.session.id, job.followUpsSent);
+
+    const session = this.activeSessions.get(job.session.id);
+    if (session?.status === 'active' && session.heldUntil) {
+      return { deferUntil: session.heldUntil };
+    }
+  }
+
+  /**
+   * Run queued follow-up checks on a job worker
+   */
+  registerJobHandlers(worker: JobWorker): void {
+    worker.register(FEEDBACK_FOLLOW_UP_JOB, (payload) =>
+      this.runFollowUpCheckJob(payload as FollowUpCheckJob)
+    );
   }
 
   /**
@@ -1027,77 +1179,83 @@ Gratefully,
   }
 
   /**
-   * Send message via specified channel
+   * Send message via specified channel, subject to the lead's opt-outs and
+   * frequency limits. Messages deferred to the lead's send window count as
+   * sent.
    */
   private async sendMessage(
+    leadId: string,
     channel: InteractionType,
     contactInfo: any,
-    message: { subject?: string; content: string }
+    message: { subject?: string; content: string },
+    options: { reply?: boolean } = {}
   ): Promise<boolean> {
-    try {
-      switch (channel) {
-        case 'sms':
-          if (!contactInfo.phone) return false;
-          return await this.sendSMS(contactInfo.phone, message.content);
-
-        case 'email':
-          if (!contactInfo.email) return false;
-          return await this.sendEmail(
-            contactInfo.email,
-            message.subject || 'Feedback Request',
-            message.content
-          );
-
-        case 'whatsapp':
-          if (!contactInfo.phone) return false;
-          return await this.sendWhatsApp(contactInfo.phone, message.content);
-
-        default:
-          return false;
-      }
-    } catch (error) {
-      console.error(`Failed to send ${channel} message:`, error);
-      return false;
-    }
+    const result = await this.deliverMessage(
+      leadId,
+      channel,
+      contactInfo,
+      message,
+      options
+    );
+    return result.sent || result.deferred === true;
   }
 
   /**
-   * Send SMS message
+   * Send a message through the communication manager, with the manager's
+   * result. Failures are logged and reported as not sent.
    */
-  private async sendSMS(
-    phoneNumber: string,
-    content: string
-  ): Promise<boolean> {
-    console.log(`Sending SMS to ${phoneNumber}: ${content}`);
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    return true;
-  }
+  private async deliverMessage(
+    leadId: string,
+    channel: InteractionType,
+    contactInfo: any,
+    message: { subject?: string; content: string },
+    options: {
+      reply?: boolean;
+      idempotencyKey?: string;
+      deferOutsideWindow?: boolean;
+    } = {}
+  ): Promise<SendMessageResult> {
+    const to =
+      channel === 'email'
+        ? contactInfo.email
+        : channel === 'sms' || channel === 'whatsapp'
+          ? contactInfo.phone
+          : undefined;
+    if (!to) {
+      return { sent: false, reason: `No recipient for ${channel}` };
+    }
 
-  /**
-   * Send email message
-   */
-  private async sendEmail(
-    email: string,
-    subject: string,
-    content: string
-  ): Promise<boolean> {
-    console.log(
-      `Sending email to ${email} with subject "${subject}": ${content}`
-    );
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    return true;
-  }
+    try {
+      const result = await this.communicationManager.sendMessage({
+        leadId,
+        channel: channel as MessageChannel,
+        to,
+        subject:
+          channel === 'email'
+            ? message.subject || 'Feedback Request'
+            : undefined,
+        content: message.content,
+        timezone: contactInfo.timezone,
+        ...options,
+      });
 
-  /**
-   * Send WhatsApp message
-   */
-  private async sendWhatsApp(
-    phoneNumber: string,
-    content: string
-  ): Promise<boolean> {
-    console.log(`Sending WhatsApp to ${phoneNumber}: ${content}`);
-    await new Promise((resolve) => setTimeout(resolve, 100));
-    return true;
+      if (result.deferred) {
+        console.log(
+          `${channel} message to lead ${leadId} deferred until ${result.nextAllowedTime?.toISOString()}`
+        );
+      } else if (!result.sent) {
+        console.warn(
+          `${channel} message to lead ${leadId} not sent: ${result.reason}`
+        );
+      }
+      return result;
+    } catch (error) {
+      console.error(`Failed to send ${channel} message:`, error);
+      return {
+        sent: false,
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
   }
 
   /**
@@ -1118,13 +1276,20 @@ Feedback: "${escalation.feedbackContent}"
 Please review and respond promptly.`;
 
       switch (channel) {
-        case 'email':
-          await this.sendEmail(
-            'management@company.com',
-            `URGENT: Customer Issue Escalation - ${escalation.severity.toUpperCase()}`,
-            message
-          );
+        case 'email': {
+          const result = await this.communicationManager.sendNotification({
+            channel: 'email',
+            to: 'management@company.com',
+            subject: `URGENT: Customer Issue Escalation - ${escalation.severity.toUpperCase()}`,
+            content: message,
+          });
+          if (!result.sent) {
+            console.error(
+              `Failed to notify management of escalation ${escalation.id}: ${result.reason}`
+            );
+          }
           break;
+        }
         case 'slack':
           console.log(`Slack notification: ${message}`);
           break;
@@ -1143,10 +1308,12 @@ Please review and respond promptly.`;
       .substr(2, 9)}`;
   }
 
-  private hasActiveFeedbackSession(leadId: string): boolean {
-    return Array.from(this.activeSessions.values()).some(
-      (session) => session.leadId === leadId && session.status === 'active'
-    );
+  /**
+   * Keep the session in memory and, with a repository, in the database
+   */
+  private async saveSession(session: FeedbackSession): Promise<void> {
+    this.activeSessions.set(session.id, session);
+    await saveAgentSession(this.repositories.agentSessions, 'feedback', session);
   }
 
   private async isWithinDelayPeriod(
@@ -1159,13 +1326,18 @@ Please review and respond promptly.`;
   }
 
   private async getLeadData(leadId: string): Promise<any> {
-    // In a real implementation, this would fetch from database
+    if (this.repositories.leads) {
+      const lead = await this.repositories.leads.findById(leadId);
+      if (lead) return lead;
+    }
+
     return {
       id: leadId,
       contactInfo: {
         name: 'John Smith',
         email: 'john.smith@example.com',
         phone: '+1234567890',
+        timezone: 'UTC',
         preferredChannel: 'email',
       },
       qualificationData: {
@@ -1200,6 +1372,29 @@ Please review and respond promptly.`;
     return this.activeSessions.get(sessionId);
   }
 
+  /**
+   * The lead's active session. With a repository the database is read, so
+   * sessions started before a restart or on another instance are found.
+   */
+  async findActiveSession(leadId: string): Promise<FeedbackSession | undefined> {
+    if (!this.repositories.agentSessions) {
+      return Array.from(this.activeSessions.values()).find(
+        (session) => session.leadId === leadId && session.status === 'active'
+      );
+    }
+
+    const session = await loadActiveAgentSession(
+      this.repositories.agentSessions,
+      'feedback',
+      leadId,
+      reviveSession
+    );
+    if (!session) return undefined;
+
+    this.activeSessions.set(session.id, session);
+    return session;
+  }
+
   /**
    * Get escalation by ID
    */
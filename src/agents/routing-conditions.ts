@@ -0,0 +1,136 @@
+import { Lead } from '../types/lead';
+import {
+  RuleComparison,
+  RuleCondition,
+  RuleOperand,
+} from '../types/routing-rule';
+
+/**
+ * Values a routing condition can refer to
+ */
+export interface RoutingContext {
+  lead: Lead;
+  analysis: Record<string, unknown>; // the lead analysis computed so far
+  config: Record<string, unknown>; // thresholds of the head agent
+  now?: Date;
+}
+
+/**
+ * Evaluate a declarative routing condition. Unknown fields resolve to
+ * undefined, so comparisons against them are false rather than errors.
+ */
+export function evaluateCondition(
+  condition: RuleCondition,
+  context: RoutingContext
+): boolean {
+  if ('all' in condition) {
+    return condition.all.every((child) => evaluateCondition(child, context));
+  }
+  if ('any' in condition) {
+    return condition.any.some((child) => evaluateCondition(child, context));
+  }
+  if ('not' in condition) {
+    return !evaluateCondition(condition.not, context);
+  }
+  return compare(condition, context);
+}
+
+function compare(comparison: RuleComparison, context: RoutingContext): boolean {
+  const actual = resolveField(comparison.field, context);
+  const expected = resolveOperand(comparison.value, context);
+
+  switch (comparison.operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'equals':
+      return isEqual(actual, expected);
+    case 'not_equals':
+      return !isEqual(actual, expected);
+    case 'greater_than':
+      return compareOrdered(actual, expected, (a, b) => a > b);
+    case 'greater_than_or_equal':
+      return compareOrdered(actual, expected, (a, b) => a >= b);
+    case 'less_than':
+      return compareOrdered(actual, expected, (a, b) => a < b);
+    case 'less_than_or_equal':
+      return compareOrdered(actual, expected, (a, b) => a <= b);
+    case 'in':
+      return (
+        Array.isArray(expected) &&
+        expected.some((value) => isEqual(actual, value))
+      );
+    case 'not_in':
+      return (
+        Array.isArray(expected) &&
+        !expected.some((value) => isEqual(actual, value))
+      );
+    case 'contains':
+      if (Array.isArray(actual)) {
+        return actual.some((value) => isEqual(value, expected));
+      }
+      return (
+        typeof actual === 'string' &&
+        typeof expected === 'string' &&
+        actual.toLowerCase().includes(expected.toLowerCase())
+      );
+  }
+}
+
+function resolveOperand(
+  operand: RuleOperand | undefined,
+  context: RoutingContext
+): unknown {
+  if (operand !== null && typeof operand === 'object' && !Array.isArray(operand)) {
+    return resolveField(operand.field, context);
+  }
+  return operand;
+}
+
+/**
+ * Value at a dotted path, following own properties only
+ */
+function resolveField(field: string, context: RoutingContext): unknown {
+  if (field === 'lead.ageHours') {
+    const now = context.now ?? new Date();
+    return (now.getTime() - context.lead.createdAt.getTime()) / (60 * 60 * 1000);
+  }
+
+  let value: unknown = context;
+  for (const key of field.split('.')) {
+    if (
+      value === null ||
+      typeof value !== 'object' ||
+      !Object.prototype.hasOwnProperty.call(value, key)
+    ) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function toComparable(value: unknown): number | string | undefined {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return undefined;
+}
+
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (actual instanceof Date || expected instanceof Date) {
+    return toComparable(actual) === toComparable(expected);
+  }
+  return actual === expected;
+}
+
+function compareOrdered(
+  actual: unknown,
+  expected: unknown,
+  test: (a: number | string, b: number | string) => boolean
+): boolean {
+  const a = toComparable(actual);
+  const b = toComparable(expected);
+  if (a === undefined || b === undefined || typeof a !== typeof b) {
+    return false;
+  }
+  return test(a, b);
+}
@@ -0,0 +1,88 @@
+import type { RoutingRuleRepository } from '../database/repositories';
+import {
+  RoutingRuleChange,
+  RoutingRuleDefinition,
+  RoutingRuleVersion,
+} from '../types/routing-rule';
+
+export interface RoutingRuleChangeDetails {
+  changedBy?: string;
+  restoredFromVersion?: number;
+}
+
+/**
+ * Routing Rule Store - version history of the head agent's routing rules
+ *
+ * Every create, update, delete and rollback is a new version, so the
+ * history doubles as the audit trail. With a repository the history is
+ * kept in the database; otherwise it lives in memory.
+ */
+export class RoutingRuleStore {
+  private versions: Map<string, RoutingRuleVersion[]> = new Map();
+
+  constructor(private repository?: RoutingRuleRepository) {}
+
+  /**
+   * Current definition of every rule that has not been deleted
+   */
+  async getCurrentRules(): Promise<RoutingRuleDefinition[]> {
+    const latest = this.repository
+      ? await this.repository.findCurrent()
+      : Array.from(this.versions.values()).map(
+          (history) => history[history.length - 1]
+        );
+
+    return latest
+      .map((version) => version.definition)
+      .filter(
+        (definition): definition is RoutingRuleDefinition => definition !== null
+      );
+  }
+
+  /**
+   * Every version of a rule, oldest first
+   */
+  async getHistory(ruleId: string): Promise<RoutingRuleVersion[]> {
+    if (this.repository) {
+      return this.repository.findHistory(ruleId);
+    }
+    return [...(this.versions.get(ruleId) || [])];
+  }
+
+  async getVersion(
+    ruleId: string,
+    version: number
+  ): Promise<RoutingRuleVersion | null> {
+    const history = await this.getHistory(ruleId);
+    return history.find((entry) => entry.version === version) || null;
+  }
+
+  /**
+   * Append a version; `definition` is null for deletions
+   */
+  async record(
+    ruleId: string,
+    change: RoutingRuleChange,
+    definition: RoutingRuleDefinition | null,
+    details: RoutingRuleChangeDetails = {}
+  ): Promise<RoutingRuleVersion> {
+    const entry = {
+      ruleId,
+      change,
+      definition,
+      restoredFromVersion: details.restoredFromVersion,
+      changedBy: details.changedBy,
+      createdAt: new Date(),
+    };
+
+    if (this.repository) {
+      return this.repository.append(entry);
+    }
+
+    const history = this.versions.get(ruleId) || [];
+    const version: RoutingRuleVersion = { ...entry, version: history.length + 1 };
+    history.push(version);
+    this.versions.set(ruleId, history);
+    return version;
+  }
+}
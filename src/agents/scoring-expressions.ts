@@ -0,0 +1,667 @@
+import { QualificationData } from '../types/lead';
+
+/**
+ * Qualification data a scoring condition is evaluated against, with the
+ * parsed answers to script questions by question ID
+ */
+export type ScoringData = Partial<QualificationData> & {
+  answers?: Record<string, string>;
+};
+
+export type CompiledCondition = (data: ScoringData) => boolean;
+
+type ValueType = 'number' | 'string';
+
+type Operand =
+  | { kind: 'field'; name: string; type: ValueType }
+  | { kind: 'literal'; value: number | string; type: ValueType };
+
+type ComparisonOperator = '==' | '!=' | '>' | '>=' | '<' | '<=';
+
+type ConditionNode =
+  | { type: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | { type: 'not'; operand: ConditionNode }
+  | {
+      type: 'compare';
+      operator: ComparisonOperator;
+      left: Operand;
+      right: Operand;
+    }
+  | { type: 'between'; value: Operand; low: Operand; high: Operand }
+  | { type: 'in'; value: Operand; options: Operand[] }
+  | { type: 'contains'; value: Operand; search: Operand }
+  | { type: 'exists'; value: Operand };
+
+interface Token {
+  kind: 'number' | 'string' | 'word' | 'symbol' | 'end';
+  text: string;
+  value?: number | string;
+  position: number;
+}
+
+interface FieldDefinition {
+  type: ValueType;
+  read: (data: ScoringData) => unknown;
+}
+
+/**
+ * Fields a condition can refer to. budget is the top of the stated range;
+ * timeline_days is the timeline answer parsed into days. The answer to a
+ * script question is available as answers.<question ID>.
+ */
+const FIELDS: Record<string, FieldDefinition> = {
+  budget: {
+    type: 'number',
+    read: (data) => data.budget?.max ?? data.budget?.min,
+  },
+  budget_min: { type: 'number', read: (data) => data.budget?.min },
+  budget_max: { type: 'number', read: (data) => data.budget?.max },
+  location: { type: 'string', read: (data) => data.location },
+  property_type: { type: 'string', read: (data) => data.propertyType },
+  timeline: { type: 'string', read: (data) => data.timeline },
+  timeline_days: {
+    type: 'number',
+    read: (data) =>
+      data.timeline === undefined
+        ? undefined
+        : parseTimelineDays(data.timeline),
+  },
+};
+
+// Conditions of scripts written before expressions were supported
+const LEGACY_CONDITIONS: Record<string, string> = {
+  budget_mentioned: 'budget exists',
+  timeline_within_3_months: 'timeline_days <= 90',
+  specific_location_mentioned: 'location exists',
+};
+
+const KEYWORDS = ['and', 'or', 'not', 'between', 'in', 'contains', 'exists'];
+
+const DAYS_PER_UNIT: Record<string, number> = {
+  day: 1,
+  week: 7,
+  month: 30,
+  year: 365,
+};
+
+// Units of timeline answers in English and Portuguese, without accents
+const TIMELINE_UNITS: Record<string, number> = {
+  day: 1,
+  days: 1,
+  dia: 1,
+  dias: 1,
+  week: 7,
+  weeks: 7,
+  semana: 7,
+  semanas: 7,
+  month: 30,
+  months: 30,
+  mes: 30,
+  meses: 30,
+  year: 365,
+  years: 365,
+  ano: 365,
+  anos: 365,
+};
+
+const URGENT_TIMELINE = new RegExp(
+  '\\b(' +
+    [
+      'asap',
+      'immediately',
+      'right away',
+      'right now',
+      'urgent(ly|e)?',
+      'imediatamente',
+      'o quanto antes',
+      'o mais rapido possivel',
+    ].join('|') +
+    ')\\b'
+);
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  couple: 2,
+  three: 3,
+  few: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  um: 1,
+  uma: 1,
+  dois: 2,
+  duas: 2,
+  par: 2,
+  tres: 3,
+  alguns: 3,
+  algumas: 3,
+  quatro: 4,
+  cinco: 5,
+  seis: 6,
+  sete: 7,
+  oito: 8,
+  nove: 9,
+  dez: 10,
+  onze: 11,
+  doze: 12,
+};
+
+// Longest first, so '>=' is not read as '>' followed by '='
+const SYMBOLS = [
+  '>=',
+  '<=',
+  '==',
+  '!=',
+  '&&',
+  '||',
+  '>',
+  '<',
+  '=',
+  '!',
+  '(',
+  ')',
+  ',',
+];
+
+/**
+ * Compile a scoring condition such as `budget > 500k and timeline_days <= 3
+ * months`. Throws an Error describing the first problem found.
+ *
+ * Supported:
+ * - Comparisons: `==` (or `=`), `!=`, `>`, `>=`, `<`, `<=`
+ * - Ranges: `budget between 300k and 600k` (inclusive)
+ * - Strings: `location contains 'downtown'`, `property_type in ('condo',
+ *   'townhouse')`; string comparisons ignore case
+ * - Presence: `budget exists`
+ * - Answers to script questions: `answers.financing == 'cash'`
+ * - `and`/`&&`, `or`/`||`, `not`/`!` and parentheses
+ * - Numbers with k/m suffixes, and durations (`2 weeks`, `3 months`) as days
+ *
+ * A comparison involving a field without a value is false.
+ */
+export function compileScoringCondition(condition: string): CompiledCondition {
+  const source = LEGACY_CONDITIONS[condition.trim()] ?? condition;
+  const node = new ConditionParser(source).parse();
+  return (data) => evaluate(node, data);
+}
+
+/**
+ * Problem with a scoring condition, or null when it compiles
+ */
+export function validateScoringCondition(condition: string): string | null {
+  try {
+    compileScoringCondition(condition);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+/**
+ * Days until a purchase from a timeline answer in English or Portuguese,
+ * e.g. "1-3 months" and "em 3 meses" are 90, "next week" and "semana que
+ * vem" are 7 and "asap" is 0. Ranges resolve to their upper end. Returns
+ * undefined when no timeline is recognised.
+ */
+export function parseTimelineDays(text: string): number | undefined {
+  // Accents dropped, so "mês" and "três" match like plain words
+  const lower = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+
+  if (URGENT_TIMELINE.test(lower)) return 0;
+
+  // Whole words only, so "tres" is not read as "tr" to "s"
+  const amount = '(\\d+(?:[.,]\\d+)?|\\b[a-z]+)';
+  const to = '(?:\\s*-\\s*|\\s+(?:to|a|e)\\s+)';
+  const units = Object.keys(TIMELINE_UNITS).join('|');
+  const pattern = new RegExp(
+    `(?:${amount}${to})?${amount}\\s*(\\+)?\\s*(?:(?:of|de)\\s+)?(${units})\\b`,
+    'g'
+  );
+  let days: number | undefined;
+  for (const match of lower.matchAll(pattern)) {
+    const count = toCount(match[2]);
+    if (count === undefined) continue;
+    const candidate = count * TIMELINE_UNITS[match[4]];
+    days = days === undefined ? candidate : Math.max(days, candidate);
+  }
+  if (days !== undefined) return days;
+
+  const unit = '(day|week|month|year|dia|semana|mes|ano)';
+  const next =
+    lower.match(new RegExp(`\\b(?:next|proxim[oa])\\s+${unit}\\b`)) ??
+    lower.match(new RegExp(`\\b${unit}\\s+que\\s+vem\\b`));
+  if (next) return TIMELINE_UNITS[next[1]];
+  if (/\b(tomorrow|amanha)\b/.test(lower)) return 1;
+  if (/\b(soon|em breve|logo)\b/.test(lower)) return 30;
+
+  return undefined;
+}
+
+function toCount(text: string): number | undefined {
+  const number = Number(text.replace(',', '.'));
+  if (!Number.isNaN(number)) return number;
+  return Object.hasOwn(NUMBER_WORDS, text) ? NUMBER_WORDS[text] : undefined;
+}
+
+/**
+ * Recursive descent parser:
+ *   or         := and (("or" | "||") and)*
+ *   and        := unary (("and" | "&&") unary)*
+ *   unary      := ("not" | "!") unary | "(" or ")" | comparison
+ *   comparison := operand (op operand | "between" operand "and" operand
+ *                 | "in" "(" operand ("," operand)* ")"
+ *                 | "contains" operand | "exists")
+ */
+class ConditionParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(private source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ConditionNode {
+    if (this.peek().kind === 'end') {
+      throw new Error('Condition is empty');
+    }
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'end') {
+      throw this.error(`Unexpected '${next.text}'`, next);
+    }
+    return node;
+  }
+
+  private parseOr(): ConditionNode {
+    let node = this.parseAnd();
+    while (this.acceptWord('or') || this.acceptSymbol('||')) {
+      node = { type: 'or', left: node, right: this.parseAnd() };
+    }
+    return node;
+  }
+
+  private parseAnd(): ConditionNode {
+    let node = this.parseUnary();
+    while (this.acceptWord('and') || this.acceptSymbol('&&')) {
+      node = { type: 'and', left: node, right: this.parseUnary() };
+    }
+    return node;
+  }
+
+  private parseUnary(): ConditionNode {
+    if (this.acceptWord('not') || this.acceptSymbol('!')) {
+      return { type: 'not', operand: this.parseUnary() };
+    }
+    if (this.acceptSymbol('(')) {
+      const node = this.parseOr();
+      this.expectSymbol(')');
+      return node;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const value = this.parseOperand();
+    const token = this.peek();
+
+    if (this.acceptWord('exists')) {
+      this.expectField(value, token, 'exists');
+      return { type: 'exists', value };
+    }
+    if (this.acceptWord('between')) {
+      const low = this.parseOperand();
+      if (!this.acceptWord('and')) {
+        throw this.error("Expected 'and' in between", this.peek());
+      }
+      const high = this.parseOperand();
+      this.expectTypes([value, low, high], 'number', token, 'between');
+      return { type: 'between', value, low, high };
+    }
+    if (this.acceptWord('in')) {
+      this.expectSymbol('(');
+      const options = [this.parseOperand()];
+      while (this.acceptSymbol(',')) {
+        options.push(this.parseOperand());
+      }
+      this.expectSymbol(')');
+      this.expectTypes(options, value.type, token, 'in');
+      return { type: 'in', value, options };
+    }
+    if (this.acceptWord('contains')) {
+      const search = this.parseOperand();
+      this.expectTypes([value, search], 'string', token, 'contains');
+      return { type: 'contains', value, search };
+    }
+
+    const operator = this.acceptComparisonOperator();
+    if (!operator) {
+      throw this.error(
+        `Expected a comparison after '${describe(value)}'`,
+        token
+      );
+    }
+    const right = this.parseOperand();
+    if (operator === '==' || operator === '!=') {
+      this.expectTypes([right], value.type, token, operator);
+    } else {
+      this.expectTypes([value, right], 'number', token, operator);
+    }
+    return { type: 'compare', operator, left: value, right };
+  }
+
+  private parseOperand(): Operand {
+    const token = this.next();
+
+    if (token.kind === 'number') {
+      const unit = this.peek();
+      const days = unit.kind === 'word' ? unitDays(unit.text) : undefined;
+      if (days !== undefined) {
+        this.next();
+        return {
+          kind: 'literal',
+          value: (token.value as number) * days,
+          type: 'number',
+        };
+      }
+      return { kind: 'literal', value: token.value as number, type: 'number' };
+    }
+    if (token.kind === 'string') {
+      return { kind: 'literal', value: token.value as string, type: 'string' };
+    }
+    if (token.kind === 'word' && !KEYWORDS.includes(token.text.toLowerCase())) {
+      const name = fieldName(token.text);
+      if (!name) {
+        throw this.error(`Unknown field '${token.text}'`, token);
+      }
+      return { kind: 'field', name, type: findField(name).type };
+    }
+
+    throw this.error(
+      token.kind === 'end'
+        ? 'Unexpected end of condition'
+        : `Expected a field or value but found '${token.text}'`,
+      token
+    );
+  }
+
+  private acceptComparisonOperator(): ComparisonOperator | undefined {
+    const token = this.peek();
+    if (token.kind !== 'symbol') return undefined;
+    const operators: Record<string, ComparisonOperator> = {
+      '=': '==',
+      '==': '==',
+      '!=': '!=',
+      '>': '>',
+      '>=': '>=',
+      '<': '<',
+      '<=': '<=',
+    };
+    const operator = operators[token.text];
+    if (operator) this.next();
+    return operator;
+  }
+
+  private expectField(value: Operand, token: Token, operator: string): void {
+    if (value.kind !== 'field') {
+      throw this.error(`'${operator}' needs a field`, token);
+    }
+  }
+
+  private expectTypes(
+    operands: Operand[],
+    type: ValueType,
+    token: Token,
+    operator: string
+  ): void {
+    const mismatch = operands.find((operand) => operand.type !== type);
+    if (mismatch) {
+      throw this.error(
+        `'${operator}' cannot compare ${describe(mismatch)} ` +
+          `(${mismatch.type}) with a ${type}`,
+        token
+      );
+    }
+  }
+
+  private acceptWord(word: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'word' && token.text.toLowerCase() === word) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'symbol' && token.text === symbol) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) {
+      throw this.error(`Expected '${symbol}'`, this.peek());
+    }
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index];
+    if (token.kind !== 'end') this.index++;
+    return token;
+  }
+
+  private error(message: string, token: Token): Error {
+    return new Error(
+      `${message} at position ${token.position + 1} of "${this.source}"`
+    );
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+
+    const space = rest.match(/^\s+/);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^(\d+(?:\.\d+)?)([km])?(?![a-z_\d])/i);
+    if (number) {
+      const multiplier = { k: 1000, m: 1000000 }[
+        (number[2] || '').toLowerCase() as 'k' | 'm'
+      ];
+      tokens.push({
+        kind: 'number',
+        text: number[0],
+        value: Number(number[1]) * (multiplier ?? 1),
+        position,
+      });
+      position += number[0].length;
+      continue;
+    }
+
+    const quote = rest[0];
+    if (quote === "'" || quote === '"') {
+      const end = rest.indexOf(quote, 1);
+      if (end === -1) {
+        throw new Error(
+          `Unterminated string at position ${position + 1} of "${source}"`
+        );
+      }
+      tokens.push({
+        kind: 'string',
+        text: rest.slice(0, end + 1),
+        value: rest.slice(1, end),
+        position,
+      });
+      position += end + 1;
+      continue;
+    }
+
+    const word = rest.match(/^[a-z_][a-z_\d]*(\.[a-z_][a-z_\d-]*)?/i);
+    if (word) {
+      tokens.push({ kind: 'word', text: word[0], position });
+      position += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find((candidate) => rest.startsWith(candidate));
+    if (symbol) {
+      tokens.push({ kind: 'symbol', text: symbol, position });
+      position += symbol.length;
+      continue;
+    }
+
+    throw new Error(
+      `Unexpected character '${rest[0]}' at position ${position + 1} ` +
+        `of "${source}"`
+    );
+  }
+
+  tokens.push({ kind: 'end', text: '', position });
+  return tokens;
+}
+
+/**
+ * Canonical name of a field, or undefined when there is no such field.
+ * Field names ignore case; question IDs in answers.<question ID> do not.
+ */
+function fieldName(word: string): string | undefined {
+  const [prefix, questionId] = word.split('.');
+  if (questionId !== undefined) {
+    return prefix.toLowerCase() === 'answers'
+      ? `answers.${questionId}`
+      : undefined;
+  }
+  return Object.hasOwn(FIELDS, word.toLowerCase())
+    ? word.toLowerCase()
+    : undefined;
+}
+
+function findField(name: string): FieldDefinition {
+  if (name.startsWith('answers.')) {
+    const questionId = name.slice('answers.'.length);
+    return {
+      type: 'string',
+      read: (data) =>
+        data.answers && Object.hasOwn(data.answers, questionId)
+          ? data.answers[questionId]
+          : undefined,
+    };
+  }
+  // Own properties only, so "constructor" or "__proto__" are not fields
+  if (!Object.hasOwn(FIELDS, name)) {
+    throw new Error(`Unknown field '${name}'`);
+  }
+  return FIELDS[name];
+}
+
+function unitDays(word: string): number | undefined {
+  const unit = word.toLowerCase().replace(/s$/, '');
+  return Object.hasOwn(DAYS_PER_UNIT, unit) ? DAYS_PER_UNIT[unit] : undefined;
+}
+
+function describe(operand: Operand): string {
+  return operand.kind === 'field' ? operand.name : String(operand.value);
+}
+
+function evaluate(node: ConditionNode, data: ScoringData): boolean {
+  switch (node.type) {
+    case 'and':
+      return evaluate(node.left, data) && evaluate(node.right, data);
+    case 'or':
+      return evaluate(node.left, data) || evaluate(node.right, data);
+    case 'not':
+      return !evaluate(node.operand, data);
+    case 'exists': {
+      const value = resolve(node.value, data);
+      return value !== undefined && value !== '';
+    }
+    case 'between': {
+      const value = resolve(node.value, data);
+      const low = resolve(node.low, data);
+      const high = resolve(node.high, data);
+      return (
+        typeof value === 'number' &&
+        typeof low === 'number' &&
+        typeof high === 'number' &&
+        value >= low &&
+        value <= high
+      );
+    }
+    case 'in': {
+      const value = resolve(node.value, data);
+      return (
+        value !== undefined &&
+        node.options.some((option) => resolve(option, data) === value)
+      );
+    }
+    case 'contains': {
+      const value = resolve(node.value, data);
+      const search = resolve(node.search, data);
+      return (
+        typeof value === 'string' &&
+        typeof search === 'string' &&
+        value.includes(search)
+      );
+    }
+    case 'compare': {
+      const left = resolve(node.left, data);
+      const right = resolve(node.right, data);
+      if (left === undefined || right === undefined) return false;
+      if (node.operator === '==') return left === right;
+      if (node.operator === '!=') return left !== right;
+      if (typeof left !== 'number' || typeof right !== 'number') return false;
+      switch (node.operator) {
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+      }
+    }
+  }
+}
+
+/**
+ * Value of an operand; strings are lower-cased so matching ignores case
+ */
+function resolve(
+  operand: Operand,
+  data: ScoringData
+): number | string | undefined {
+  const value =
+    operand.kind === 'field'
+      ? findField(operand.name).read(data)
+      : operand.value;
+  if (typeof value === 'string') return value.trim().toLowerCase();
+  if (typeof value === 'number' && !Number.isNaN(value)) return value;
+  return undefined;
+}
@@ -4,6 +4,39 @@ import {
   InteractionModel,
   CreateInteraction,
 } from '../types/interaction';
+import { Repositories } from '../database/repositories';
+import { recordAgentInteraction } from './interaction-recorder';
+import { loadActiveAgentSession, saveAgentSession } from './agent-sessions';
+import { AIAppointmentWorkflowCoordinator } from './ai-appointment-workflow-coordinator';
+import {
+  AgentSchedule,
+  AvailabilityCalendar,
+} from '../scheduling/availability-calendar';
+import {
+  addDays,
+  getZonedDateTime,
+  toZonedDateString,
+} from '../utils/timezone';
+import {
+  CompiledCondition,
+  ScoringData,
+  compileScoringCondition,
+  validateScoringCondition,
+} from './scoring-expressions';
+import {
+  getNextQuestionId,
+  getStartQuestionId,
+  parseAnswer,
+  validateQualificationFlow,
+} from './qualification-flow';
+import type { MultiChannelCommunicationManager } from '../communication/multi-channel-manager';
+import type {
+  SpeechOptions,
+  VoiceAdapters,
+} from '../communication/voice/speech-provider';
+import { RecordingReference, TranscriptTurn } from '../types/transcript';
+import { redactSensitiveText } from '../utils/redaction';
+import { logger } from '../utils/logger';
 
 /**
  * Voice AI configuration for speech processing
@@ -12,17 +45,21 @@ export interface VoiceAIConfig {
   provider: 'elevenlabs' | 'azure' | 'google';
   apiKey: string;
   voiceId?: string;
+  region?: string; // Azure only
   language: string;
   speechToTextModel?: string;
   textToSpeechModel?: string;
 }
 
 /**
- * Qualification script configuration
+ * Qualification script configuration. The questions form a graph: each
+ * question leads to the next one in order unless one of its transitions
+ * matches the answers collected so far.
  */
 export interface QualificationScript {
   id: string;
   name: string;
+  startQuestionId?: string; // the first question by default
   questions: QualificationQuestion[];
   scoringRules: ScoringRule[];
   enabled: boolean;
@@ -40,14 +77,26 @@ export interface QualificationQuestion {
   choices?: string[];
   required: boolean;
   weight: number; // For scoring
+  next?: QuestionTransition[]; // the first matching transition is followed
+  clarificationPrompts?: string[]; // asked in turn for unclear answers
+}
+
+/**
+ * Branch from a question to the next one, e.g. skipping the financing
+ * questions when answers.payment == 'cash'
+ */
+export interface QuestionTransition {
+  when?: string; // scoring expression; always taken when omitted
+  next: string | null; // question ID, or null to end the script
 }
 
 /**
- * Scoring rule for qualification
+ * Scoring rule for qualification. The condition is an expression over the
+ * collected qualification data, see compileScoringCondition.
  */
 export interface ScoringRule {
   questionId: string;
-  condition: string; // e.g., "budget > 500000"
+  condition: string; // e.g., "budget > 500000 and timeline_days <= 3 months"
   score: number;
   description: string;
 }
@@ -58,14 +107,41 @@ export interface ScoringRule {
 export interface CallSession {
   id: string;
   leadId: string;
+  channel: ConversationChannel;
+  to?: string; // phone number SMS and WhatsApp messages are sent to
+  timezone?: string; // lead's timezone, for messages sent during silence
   startTime: Date;
   endTime?: Date;
-  status: 'active' | 'completed' | 'transferred' | 'failed';
+  lastActivityAt: Date; // last message from the lead, or the start
+  resumePromptsSent: number; // since the lead's last message
+  inactivityTimeoutMinutes?: number; // overrides textConversations
+  status: 'active' | 'completed' | 'transferred' | 'failed' | 'expired';
   transcript: CallTranscript[];
   qualificationData: Partial<QualificationData>;
+  answers: Record<string, string>; // parsed answers by question ID
+  currentQuestionId?: string; // question waiting for an answer
+  clarificationsAsked: Record<string, number>; // by question ID
   appointmentBooked: boolean;
   transferReason?: string;
   qualificationScore: number;
+  recording?: RecordingReference; // calls recorded by the telephony platform
+}
+
+/**
+ * Channel a session is held on. Text channels are asynchronous: the lead
+ * may answer minutes or hours later.
+ */
+export type ConversationChannel = 'voice' | 'sms' | 'whatsapp' | 'chat';
+
+export type TextConversationChannel = Exclude<ConversationChannel, 'voice'>;
+
+/**
+ * Message sent to a text conversation after the lead has been silent for
+ * a while. The pending question, if any, is repeated after it.
+ */
+export interface ResumePrompt {
+  afterMinutes: number;
+  message: string;
 }
 
 /**
@@ -124,6 +200,9 @@ export interface VSAConfig {
     defaultDuration: number;
     availableTimeSlots: string[];
     bufferTime: number; // minutes between appointments
+    timezone?: string; // timezone of availableTimeSlots, UTC by default
+    agents?: AgentSchedule[]; // human agents attending appointments
+    holidays?: string[]; // YYYY-MM-DD
   };
   humanTransfer: {
     enabled: boolean;
@@ -132,6 +211,11 @@ export interface VSAConfig {
     maxWaitTime: number; // seconds
   };
   responseTimeSLA: number; // seconds
+  textConversations: {
+    inactivityTimeoutMinutes: number; // silence after which a session expires
+    resumePrompts: ResumePrompt[]; // in order of afterMinutes
+    checkIntervalMs: number;
+  };
 }
 
 /**
@@ -157,13 +241,63 @@ const DEFAULT_VSA_CONFIG: VSAConfig = {
     maxWaitTime: 300,
   },
   responseTimeSLA: 60,
+  textConversations: {
+    inactivityTimeoutMinutes: 24 * 60,
+    resumePrompts: [
+      {
+        afterMinutes: 60,
+        message: 'Just checking in, no rush at all.',
+      },
+      {
+        afterMinutes: 8 * 60,
+        message: "Still happy to help whenever you're ready.",
+      },
+    ],
+    checkIntervalMs: 60000,
+  },
 };
 
+// Calendar used when no human agents are configured
+const VSA_CALENDAR_AGENT_ID = 'virtual-sales-assistant';
+
+// How far ahead appointment slots are offered to leads
+const SLOT_SEARCH_DAYS = 14;
+
+// Where calls go when no human agent could be assigned to a transfer
+const SALES_TEAM_QUEUE = 'sales-team';
+
+// Unrecognized answers in a row after which a call is ended
+const MAX_UNRECOGNIZED_TURNS = 2;
+
+// Stored text conversations checked for inactivity per run, oldest first
+const INACTIVE_SESSION_SCAN_LIMIT = 500;
+
+// Text conversation as stored in agent_sessions, which need its start date
+type StoredCallSession = CallSession & { startedAt: Date };
+
+/**
+ * Stored text conversation with its dates restored
+ */
+function reviveSession(session: StoredCallSession): StoredCallSession {
+  return {
+    ...session,
+    startedAt: new Date(session.startedAt),
+    startTime: new Date(session.startTime),
+    endTime: session.endTime ? new Date(session.endTime) : undefined,
+    lastActivityAt: new Date(session.lastActivityAt),
+    transcript: session.transcript.map((entry) => ({
+      ...entry,
+      timestamp: new Date(entry.timestamp),
+    })),
+  };
+}
+
 /**
  * Virtual Sales Assistant - Voice AI for hot lead processing
  *
  * Responsibilities:
  * - Immediate voice response to hot leads within 60 seconds
+ * - The same conversations over SMS, WhatsApp and web chat
  * - Dynamic qualification using predefined scripts
  * - Appointment booking with calendar integration
  * - Seamless human transfer for complex conversations
@@ -173,12 +307,74 @@ export class VirtualSalesAssistant {
   private activeSessions: Map<string, CallSession> = new Map();
   private appointments: Map<string, AppointmentBooking> = new Map();
   private transferRequests: Map<string, HumanTransferRequest> = new Map();
+  private repositories: Partial<Repositories>;
+  private scheduler: AIAppointmentWorkflowCoordinator;
+  private scoringConditions: Map<string, CompiledCondition> = new Map();
+  private messenger?: Pick<MultiChannelCommunicationManager, 'sendMessage'>;
+  private voice?: VoiceAdapters;
+  private sessionMonitor?: NodeJS.Timeout;
 
-  constructor(config: Partial<VSAConfig> = {}) {
+  /**
+   * @param messenger - sends SMS and WhatsApp conversations
+   * @param voice - speech and call control for real calls; calls are
+   *   simulated without them
+   */
+  constructor(
+    config: Partial<VSAConfig> = {},
+    repositories: Partial<Repositories> = {},
+    scheduler?: AIAppointmentWorkflowCoordinator,
+    messenger?: Pick<MultiChannelCommunicationManager, 'sendMessage'>,
+    voice?: VoiceAdapters
+  ) {
     this.config = { ...DEFAULT_VSA_CONFIG, ...config };
+    this.repositories = repositories;
+    this.messenger = messenger;
+    this.voice = voice;
+    this.scheduler =
+      scheduler ??
+      new AIAppointmentWorkflowCoordinator(
+        VSA_CALENDAR_AGENT_ID,
+        undefined,
+        this.createAvailabilityCalendar(),
+        undefined,
+        messenger
+      );
+    this.config.qualificationScripts.forEach((script) =>
+      this.assertValidScript(script)
+    );
     this.initializeDefaultScripts();
   }
 
+  /**
+   * Availability calendar from the booking configuration. Without human
+   * agents a single calendar open around the clock is used, so only the
+   * configured time slots and buffer time apply.
+   */
+  private createAvailabilityCalendar(): AvailabilityCalendar {
+    const booking = this.config.appointmentBooking;
+    const agents: AgentSchedule[] = booking.agents?.length
+      ? booking.agents
+      : [
+          {
+            agentId: VSA_CALENDAR_AGENT_ID,
+            timezone: booking.timezone ?? 'UTC',
+            workingHours: [0, 1, 2, 3, 4, 5, 6].map((dayOfWeek) => ({
+              dayOfWeek,
+              start: '00:00',
+              end: '24:00',
+            })),
+          },
+        ];
+
+    return new AvailabilityCalendar({
+      agents,
+      holidays: booking.holidays ?? [],
+      bufferMinutes: booking.bufferTime,
+      slotIntervalMinutes: booking.defaultDuration,
+      slotStartTimes: booking.availableTimeSlots,
+    });
+  }
+
   /**
    * Initialize default qualification scripts
    */
@@ -254,19 +450,19 @@ export class VirtualSalesAssistant {
         scoringRules: [
           {
             questionId: 'budget',
-            condition: 'budget_mentioned',
+            condition: 'budget exists',
             score: 0.3,
             description: 'Customer provided budget information',
           },
           {
             questionId: 'timeline',
-            condition: 'timeline_within_3_months',
+            condition: 'timeline_days <= 3 months',
             score: 0.25,
             description: 'Customer has near-term timeline',
           },
           {
             questionId: 'location',
-            condition: 'specific_location_mentioned',
+            condition: 'location exists',
             score: 0.2,
             description: 'Customer has specific location preferences',
           },
@@ -288,29 +484,13 @@ export class VirtualSalesAssistant {
     }
 
     // Create call session
-    const session: CallSession = {
-      id: this.generateSessionId(),
-      leadId: lead.id,
-      startTime: new Date(),
-      status: 'active',
-      transcript: [],
-      qualificationData: {},
-      appointmentBooked: false,
-      qualificationScore: 0,
-    };
-
-    this.activeSessions.set(session.id, session);
+    const session = this.createSession(lead, 'voice');
 
     try {
-      // Initiate voice call (simulated - would integrate with actual voice service)
       await this.startVoiceCall(lead.contactInfo.phone, session.id);
 
-      // Add initial greeting to transcript
-      await this.addToTranscript(
-        session.id,
-        'agent',
-        this.generateGreeting(lead)
-      );
+      // Greet the lead as soon as the call connects
+      await this.sendAgentMessage(session, this.generateGreeting(lead));
 
       return session;
     } catch (error) {
@@ -325,14 +505,71 @@ export class VirtualSalesAssistant {
   }
 
   /**
-   * Start voice call (integration point for voice service)
+   * Start a qualification conversation over a text channel. The greeting
+   * is sent right away; the lead's answers are passed to
+   * processCustomerResponse as they arrive.
+   */
+  async startTextConversation(
+    lead: Lead,
+    channel: TextConversationChannel,
+    options: { inactivityTimeoutMinutes?: number } = {}
+  ): Promise<CallSession> {
+    if (channel !== 'chat' && !lead.contactInfo.phone) {
+      throw new Error(`Lead must have phone number for ${channel} messages`);
+    }
+
+    const session = this.createSession(lead, channel);
+    session.inactivityTimeoutMinutes = options.inactivityTimeoutMinutes;
+
+    await this.sendAgentMessage(session, this.generateTextGreeting(lead));
+    await this.saveSession(session);
+
+    return session;
+  }
+
+  /**
+   * New active session, registered with the active sessions
+   */
+  private createSession(
+    lead: Lead,
+    channel: ConversationChannel
+  ): CallSession {
+    const now = new Date();
+    const session: CallSession = {
+      id: this.generateSessionId(),
+      leadId: lead.id,
+      channel,
+      to: channel === 'chat' ? undefined : lead.contactInfo.phone,
+      timezone: lead.contactInfo.timezone,
+      startTime: now,
+      lastActivityAt: now,
+      resumePromptsSent: 0,
+      status: 'active',
+      transcript: [],
+      qualificationData: {},
+      answers: {},
+      clarificationsAsked: {},
+      appointmentBooked: false,
+      qualificationScore: 0,
+    };
+
+    this.activeSessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Start voice call through the call control adapter, or simulate it
+   * when none is configured
    */
   private async startVoiceCall(
     phoneNumber: string,
     sessionId: string
   ): Promise<void> {
-    // This would integrate with actual voice AI service like ElevenLabs
-    // For now, we'll simulate the call initiation
+    if (this.voice) {
+      await this.voice.calls.dial(sessionId, phoneNumber);
+      return;
+    }
+
     console.log(
       `Initiating voice call to ${phoneNumber} for session ${sessionId}`
     );
@@ -351,6 +588,15 @@ export class VirtualSalesAssistant {
     return `Good ${timeOfDay}, ${name}! This is Sarah from Premier Real Estate. Thank you for your interest in our properties. I'm calling to help you find exactly what you're looking for. Do you have a few minutes to chat about your real estate needs?`;
   }
 
+  /**
+   * Greeting for text channels, which open with the reason for writing
+   */
+  private generateTextGreeting(lead: Lead): string {
+    const name = lead.contactInfo.name.split(' ')[0];
+
+    return `Hi ${name}, this is Sarah from Premier Real Estate. Thanks for your interest in our properties! I'd love to help you find exactly what you're looking for. Do you have a few minutes to answer some quick questions?`;
+  }
+
   /**
    * Get appropriate time of day greeting
    */
@@ -362,22 +608,54 @@ export class VirtualSalesAssistant {
   }
 
   /**
-   * Process customer response and continue qualification
+   * Process customer response and continue qualification. The reply is
+   * also spoken on calls with voice adapters and sent on SMS and WhatsApp.
+   *
+   * @param confidence - speech recognition confidence of the response
    */
   async processCustomerResponse(
     sessionId: string,
-    response: string
+    response: string,
+    confidence?: number
   ): Promise<string> {
-    const session = this.activeSessions.get(sessionId);
+    const session =
+      this.activeSessions.get(sessionId) ?? (await this.loadSession(sessionId));
     if (!session || session.status !== 'active') {
       throw new Error('Invalid or inactive session');
     }
 
+    session.lastActivityAt = new Date();
+    session.resumePromptsSent = 0;
+
+    const reply = await this.continueConversation(
+      session,
+      response,
+      confidence
+    );
+    await this.deliver(session, reply, true);
+    await this.saveSession(session);
+
+    return reply;
+  }
+
+  /**
+   * Reply to a customer response: a human transfer, the next question or
+   * an appointment offer. The reply is added to the transcript.
+   */
+  private async continueConversation(
+    session: CallSession,
+    response: string,
+    confidence?: number
+  ): Promise<string> {
+    const sessionId = session.id;
+
     // Add customer response to transcript
-    await this.addToTranscript(sessionId, 'customer', response);
+    await this.addToTranscript(sessionId, 'customer', response, confidence);
 
     // Analyze response for intent and sentiment
     const analysis = await this.analyzeResponse(response);
+    session.transcript[session.transcript.length - 1].sentiment =
+      analysis.sentiment;
 
     // Check if human transfer is needed
     if (this.shouldTransferToHuman(analysis, session)) {
@@ -405,7 +683,8 @@ export class VirtualSalesAssistant {
   private async addToTranscript(
     sessionId: string,
     speaker: 'agent' | 'customer',
-    text: string
+    text: string,
+    confidence?: number
   ): Promise<void> {
     const session = this.activeSessions.get(sessionId);
     if (!session) return;
@@ -414,7 +693,11 @@ export class VirtualSalesAssistant {
       timestamp: new Date(),
       speaker,
       text,
-      confidence: speaker === 'customer' ? 0.85 : 1.0, // Simulated confidence
+      // Simulated speech recognition confidence unless the speech provider
+      // reported one; text is read as written
+      confidence:
+        confidence ??
+        (speaker === 'customer' && session.channel === 'voice' ? 0.85 : 1.0),
     };
 
     session.transcript.push(transcriptEntry);
@@ -549,9 +832,10 @@ export class VirtualSalesAssistant {
       return true;
     }
 
-    // Transfer if call duration is too long (over 10 minutes)
+    // Transfer if call duration is too long (over 10 minutes). Text
+    // conversations are expected to take longer.
     const callDuration = Date.now() - session.startTime.getTime();
-    if (callDuration > 600000) {
+    if (session.channel === 'voice' && callDuration > 600000) {
       // 10 minutes
       return true;
     }
@@ -560,7 +844,10 @@ export class VirtualSalesAssistant {
   }
 
   /**
-   * Get next qualification question based on script and previous responses
+   * Get next qualification question based on script and previous responses.
+   * The answer to the current question decides which question follows;
+   * answers that are not understood get the question's clarification
+   * prompts first, or the question once more when it has none.
    */
   private async getNextQualificationQuestion(
     session: CallSession,
@@ -572,30 +859,77 @@ export class VirtualSalesAssistant {
     // First, update qualification data based on the last response
     this.updateQualificationDataFromResponse(session, lastResponse);
 
-    // Find next unanswered required question
-    for (const question of script.questions) {
-      if (
-        question.required &&
-        !this.hasAnsweredQuestion(session, question.id)
-      ) {
-        return question.question;
+    let nextId: string | null | undefined;
+    const current = script.questions.find(
+      (q) => q.id === session.currentQuestionId
+    );
+
+    if (!current) {
+      nextId = getStartQuestionId(script);
+    } else {
+      const answer = this.getAnswer(session, current, lastResponse);
+      if (answer !== undefined) {
+        session.answers[current.id] = answer;
+      } else {
+        const prompts = current.clarificationPrompts?.length
+          ? current.clarificationPrompts
+          : [current.question];
+        const asked = session.clarificationsAsked[current.id] ?? 0;
+        if (asked < prompts.length) {
+          session.clarificationsAsked[current.id] = asked + 1;
+          return prompts[asked];
+        }
       }
+      nextId = getNextQuestionId(
+        script,
+        current.id,
+        this.getScoringData(session)
+      );
     }
 
-    // All required questions answered, ask optional ones
-    for (const question of script.questions) {
-      if (
-        !question.required &&
-        !this.hasAnsweredQuestion(session, question.id)
-      ) {
+    // Skip questions already answered earlier in the conversation
+    const visited = new Set<string>();
+    while (nextId && !visited.has(nextId)) {
+      visited.add(nextId);
+      const question = script.questions.find((q) => q.id === nextId);
+      if (!question) break;
+      if (!this.hasAnsweredQuestion(session, question.id)) {
+        session.currentQuestionId = question.id;
         return question.question;
       }
+      nextId = getNextQuestionId(
+        script,
+        question.id,
+        this.getScoringData(session)
+      );
     }
 
     // All questions answered
+    session.currentQuestionId = undefined;
     return null;
   }
 
+  /**
+   * Answer to the current question: qualification data extracted from the
+   * response for the standard question types, otherwise the response
+   * parsed by the expected answer type
+   */
+  private getAnswer(
+    session: CallSession,
+    question: QualificationQuestion,
+    response: string
+  ): string | undefined {
+    if (question.type === 'custom') {
+      return parseAnswer(question, response);
+    }
+    if (!this.hasAnsweredQuestion(session, question.id)) return undefined;
+    return parseAnswer(question, response) ?? response.trim();
+  }
+
+  private getScoringData(session: CallSession): ScoringData {
+    return { ...session.qualificationData, answers: session.answers };
+  }
+
   /**
    * Check if question has been answered in the session
    */
@@ -603,6 +937,8 @@ export class VirtualSalesAssistant {
     session: CallSession,
     questionId: string
   ): boolean {
+    if (session.answers[questionId] !== undefined) return true;
+
     // Check if we have qualification data for this question type
     switch (questionId) {
       case 'budget':
@@ -726,25 +1062,80 @@ export class VirtualSalesAssistant {
 
     for (const rule of script.scoringRules) {
       maxScore += rule.score;
-
-      // Apply scoring rule (simplified logic)
-      switch (rule.condition) {
-        case 'budget_mentioned':
-          if (session.qualificationData.budget) score += rule.score;
-          break;
-        case 'timeline_within_3_months':
-          if (session.qualificationData.timeline?.includes('month'))
-            score += rule.score;
-          break;
-        case 'specific_location_mentioned':
-          if (session.qualificationData.location) score += rule.score;
-          break;
+      const matches = this.getScoringCondition(rule.condition);
+      if (matches(this.getScoringData(session))) {
+        score += rule.score;
       }
     }
 
     return maxScore > 0 ? score / maxScore : 0;
   }
 
+  /**
+   * Compiled scoring condition, cached by its text
+   */
+  private getScoringCondition(condition: string): CompiledCondition {
+    let compiled = this.scoringConditions.get(condition);
+    if (!compiled) {
+      compiled = compileScoringCondition(condition);
+      this.scoringConditions.set(condition, compiled);
+    }
+    return compiled;
+  }
+
+  /**
+   * Problems that would stop a qualification script from working: a broken
+   * question graph, invalid conditions and rules for questions the script
+   * does not ask
+   */
+  validateQualificationScript(script: QualificationScript): string[] {
+    const questionIds = new Set(script.questions.map((q) => q.id));
+    const errors = validateQualificationFlow(script);
+
+    script.scoringRules.forEach((rule, index) => {
+      if (!questionIds.has(rule.questionId)) {
+        errors.push(
+          `Scoring rule ${index + 1} refers to unknown question ` +
+            rule.questionId
+        );
+      }
+      const problem = validateScoringCondition(rule.condition);
+      if (problem) {
+        errors.push(`Scoring rule ${index + 1}: ${problem}`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * Add a qualification script, replacing the one with the same ID.
+   * Throws when the script is invalid.
+   */
+  registerQualificationScript(script: QualificationScript): void {
+    this.assertValidScript(script);
+    this.config.qualificationScripts = [
+      ...this.config.qualificationScripts.filter((s) => s.id !== script.id),
+      script,
+    ];
+  }
+
+  /**
+   * Get qualification scripts
+   */
+  getQualificationScripts(): QualificationScript[] {
+    return [...this.config.qualificationScripts];
+  }
+
+  private assertValidScript(script: QualificationScript): void {
+    const errors = this.validateQualificationScript(script);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid qualification script ${script.id}: ${errors.join('; ')}`
+      );
+    }
+  }
+
   /**
    * Attempt to book appointment
    */
@@ -753,25 +1144,61 @@ export class VirtualSalesAssistant {
     if (!session) throw new Error('Session not found');
 
     // Generate appointment booking message
-    const bookingMessage = `Based on what you've told me, I'd love to schedule a consultation to show you some properties that match your criteria. I have availability ${this.getAvailableSlots()}. What works best for you?`;
+    const bookingMessage = `Based on what you've told me, I'd love to schedule a consultation to show you some properties that match your criteria. I have availability ${await this.getAvailableSlots(
+      session.leadId
+    )}. What works best for you?`;
 
     await this.addToTranscript(sessionId, 'agent', bookingMessage);
     return bookingMessage;
   }
 
   /**
-   * Get available appointment slots
+   * Describe the next three free appointment slots for the lead
    */
-  private getAvailableSlots(): string {
-    const tomorrow = new Date();
-    tomorrow.setDate(tomorrow.getDate() + 1);
+  private async getAvailableSlots(leadId: string): Promise<string> {
+    const now = new Date();
+    const slots = await this.scheduler.findAvailableSlots(
+      leadId,
+      'consultation',
+      {
+        start: now,
+        end: new Date(now.getTime() + SLOT_SEARCH_DAYS * 24 * 60 * 60 * 1000),
+      },
+      {
+        durationMinutes: this.config.appointmentBooking.defaultDuration,
+        limit: 3,
+      }
+    );
 
-    const slots = this.config.appointmentBooking.availableTimeSlots.slice(0, 3);
-    return slots.map((slot) => `tomorrow at ${slot}`).join(', or ');
+    if (slots.length === 0) return 'over the coming weeks';
+    return slots.map((slot) => this.describeSlot(slot.start)).join(', or ');
   }
 
   /**
-   * Book appointment
+   * Spoken form of a slot start, e.g. "tomorrow at 09:00"
+   */
+  private describeSlot(start: Date): string {
+    const timeZone = this.config.appointmentBooking.timezone ?? 'UTC';
+    const { hour, minute } = getZonedDateTime(start, timeZone);
+    const time = `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+
+    const today = toZonedDateString(new Date(), timeZone);
+    const date = toZonedDateString(start, timeZone);
+    if (date === today) return `today at ${time}`;
+    if (date === addDays(today, 1)) return `tomorrow at ${time}`;
+
+    const day = start.toLocaleDateString('en-US', {
+      timeZone,
+      weekday: 'long',
+      month: 'long',
+      day: 'numeric',
+    });
+    return `on ${day} at ${time}`;
+  }
+
+  /**
+   * Book appointment. The slot is reserved through the scheduler, which
+   * rejects times that clash with the lead's or the agent's appointments.
    */
   async bookAppointment(
     sessionId: string,
@@ -785,12 +1212,22 @@ export class VirtualSalesAssistant {
     const session = this.activeSessions.get(sessionId);
     if (!session) throw new Error('Session not found');
 
+    const scheduled = await this.scheduler.bookAppointment(
+      session.leadId,
+      appointmentDetails.type === 'property_viewing'
+        ? 'site_visit'
+        : appointmentDetails.type,
+      appointmentDetails.scheduledAt,
+      this.config.appointmentBooking.defaultDuration,
+      appointmentDetails.location
+    );
+
     const appointment: AppointmentBooking = {
-      id: this.generateAppointmentId(),
+      id: scheduled.id,
       leadId: session.leadId,
       type: appointmentDetails.type,
-      scheduledAt: appointmentDetails.scheduledAt,
-      duration: this.config.appointmentBooking.defaultDuration,
+      scheduledAt: scheduled.scheduledAt,
+      duration: scheduled.duration,
       location: appointmentDetails.location,
       notes: appointmentDetails.notes,
       confirmed: false,
@@ -842,7 +1279,9 @@ export class VirtualSalesAssistant {
     this.activeSessions.set(sessionId, session);
 
     const transferMessage =
-      'I understand this requires more detailed discussion. Let me connect you with one of our senior agents who can better assist you. Please hold for just a moment.';
+      session.channel === 'voice'
+        ? 'I understand this requires more detailed discussion. Let me connect you with one of our senior agents who can better assist you. Please hold for just a moment.'
+        : 'I understand this requires more detailed discussion. One of our senior agents will pick up this conversation and reply to you shortly.';
 
     await this.addToTranscript(sessionId, 'agent', transferMessage);
 
@@ -920,44 +1359,126 @@ export class VirtualSalesAssistant {
   }
 
   /**
-   * Complete call session
+   * Complete call session, or a text conversation
    */
   async completeCall(sessionId: string): Promise<Interaction> {
     const session = this.activeSessions.get(sessionId);
     if (!session) throw new Error('Session not found');
 
     const wasTransferred = session.status === 'transferred';
+    const expired = session.status === 'expired';
 
     session.endTime = new Date();
-    // Only set to completed if it wasn't transferred
-    if (session.status !== 'transferred') {
+    // Only set to completed if it wasn't transferred or expired
+    if (!wasTransferred && !expired) {
       session.status = 'completed';
     }
     this.activeSessions.set(sessionId, session);
+    await this.saveSession(session);
 
-    // Create interaction record
+    // Create interaction record. Text conversations can last for days, so
+    // only calls have a duration.
     const interaction = InteractionModel.create({
       leadId: session.leadId,
       agentId: 'virtual-sales-assistant',
-      type: 'call',
+      type: session.channel === 'voice' ? 'call' : session.channel,
       direction: 'outbound',
       content: this.generateCallSummary(session),
       outcome: {
-        status: wasTransferred ? 'transferred' : 'successful',
+        status: wasTransferred
+          ? 'transferred'
+          : expired
+            ? 'pending'
+            : 'successful',
         appointmentBooked: session.appointmentBooked,
         qualificationUpdated: session.qualificationScore > 0,
         escalationRequired: wasTransferred,
       },
-      duration: session.endTime
-        ? Math.floor(
-            (session.endTime.getTime() - session.startTime.getTime()) / 1000
-          )
-        : undefined,
+      duration:
+        session.channel === 'voice'
+          ? Math.floor(
+              (session.endTime.getTime() - session.startTime.getTime()) / 1000
+            )
+          : undefined,
+      sentiment: this.calculateCallSentiment(session),
     });
 
+    await recordAgentInteraction(
+      this.repositories.interactions,
+      interaction.data
+    );
+    await this.recordTranscript(session, interaction.data);
+
     return interaction.data;
   }
 
+  /**
+   * Average sentiment of the customer's side of the call, weighted by
+   * speech recognition confidence
+   */
+  private calculateCallSentiment(
+    session: CallSession
+  ): Interaction['sentiment'] {
+    const scored = session.transcript.filter(
+      (entry) => entry.speaker === 'customer' && entry.sentiment !== undefined
+    );
+    if (scored.length === 0) return undefined;
+
+    const score =
+      scored.reduce((sum, entry) => sum + entry.sentiment!, 0) / scored.length;
+    const confidence =
+      scored.reduce((sum, entry) => sum + (entry.confidence ?? 1), 0) /
+      scored.length;
+
+    return {
+      score: Math.round(score * 100) / 100,
+      confidence: Math.round(confidence * 100) / 100,
+    };
+  }
+
+  /**
+   * Persist the transcript of a session alongside its interaction, with
+   * card and national ID numbers masked. Failures are logged like those of
+   * the interaction itself.
+   */
+  private async recordTranscript(
+    session: CallSession,
+    interaction: Interaction
+  ): Promise<void> {
+    if (!this.repositories.transcripts) return;
+
+    let redactions = 0;
+    const turns: TranscriptTurn[] = session.transcript.map((entry) => {
+      const redacted = redactSensitiveText(entry.text);
+      redactions += redacted.redactions;
+      return {
+        speaker: entry.speaker,
+        text: redacted.text,
+        timestamp: entry.timestamp,
+        confidence: entry.confidence,
+        sentiment: entry.sentiment,
+      };
+    });
+
+    try {
+      await this.repositories.transcripts.save({
+        interactionId: interaction.id,
+        leadId: interaction.leadId,
+        sessionId: session.id,
+        channel: interaction.type,
+        turns,
+        recording: session.recording,
+        redactions,
+        createdAt: interaction.timestamp,
+      });
+    } catch (error) {
+      logger.error(
+        `Failed to store transcript of interaction ${interaction.id}`,
+        error
+      );
+    }
+  }
+
   /**
    * Generate call summary
    */
@@ -968,7 +1489,14 @@ export class VirtualSalesAssistant {
         )
       : 0;
 
-    let summary = `Virtual Sales Assistant call completed. Duration: ${duration} minutes. `;
+    let summary =
+      session.channel === 'voice'
+        ? `Virtual Sales Assistant call completed. Duration: ${duration} minutes. `
+        : `Virtual Sales Assistant ${session.channel} conversation ${
+            session.status === 'expired'
+              ? 'expired after the lead went silent'
+              : 'completed'
+          }. Duration: ${duration} minutes. `;
     summary += `Qualification score: ${Math.round(
       session.qualificationScore * 100
     )}%. `;
@@ -990,6 +1518,257 @@ export class VirtualSalesAssistant {
     return summary;
   }
 
+  /**
+   * Hold a call started with initiateCall until it ends: listen to the
+   * lead, answer through processCustomerResponse and hand the call to the
+   * assigned agent on a human transfer. The call ends when the lead hangs
+   * up or stays silent, and is completed like any other.
+   */
+  async conductCall(
+    sessionId: string,
+    options: { silenceTimeoutMs?: number } = {}
+  ): Promise<Interaction> {
+    const session = this.activeSessions.get(sessionId);
+    if (!session || session.channel !== 'voice') {
+      throw new Error('Session not found');
+    }
+    if (!this.voice) {
+      throw new Error('Voice adapters are required to conduct a call');
+    }
+    const { speech, calls } = this.voice;
+
+    try {
+      let unrecognized = 0;
+
+      while (session.status === 'active') {
+        const heard = await calls.gather(sessionId, {
+          timeoutMs: options.silenceTimeoutMs,
+        });
+        if (!heard) break;
+
+        const recognized =
+          heard.transcript !== undefined
+            ? { text: heard.transcript, confidence: heard.confidence }
+            : heard.audio
+              ? await speech.transcribe(
+                  heard.audio,
+                  this.getSpeechOptions(this.config.voiceAI.speechToTextModel)
+                )
+              : { text: '' };
+
+        if (!recognized.text.trim()) {
+          if (++unrecognized >= MAX_UNRECOGNIZED_TURNS) break;
+          await this.sendAgentMessage(
+            session,
+            "Sorry, I didn't catch that. Could you say it again?"
+          );
+          continue;
+        }
+
+        unrecognized = 0;
+        await this.processCustomerResponse(
+          sessionId,
+          recognized.text,
+          recognized.confidence
+        );
+      }
+
+      session.recording = (await calls.getRecording?.(sessionId)) ?? undefined;
+
+      if (session.status === 'transferred') {
+        const transfer = Array.from(this.transferRequests.values()).find(
+          (request) => request.sessionId === sessionId
+        );
+        await calls.transfer(
+          sessionId,
+          transfer?.assignedAgent ?? SALES_TEAM_QUEUE
+        );
+      } else {
+        await calls.hangUp(sessionId);
+      }
+    } catch (error) {
+      session.status = 'failed';
+      session.endTime = new Date();
+      await calls.hangUp(sessionId).catch(() => undefined);
+      throw new Error(
+        `Call ${sessionId} failed: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+
+    return await this.completeCall(sessionId);
+  }
+
+  /**
+   * Send resume prompts to text conversations the lead has gone silent
+   * on, and expire those silent for longer than the inactivity timeout.
+   * Expired conversations are completed and recorded like finished ones.
+   */
+  async checkInactiveSessions(
+    now: Date = new Date()
+  ): Promise<{ prompted: CallSession[]; expired: CallSession[] }> {
+    const { inactivityTimeoutMinutes, resumePrompts } =
+      this.config.textConversations;
+    const prompted: CallSession[] = [];
+    const expired: CallSession[] = [];
+
+    for (const session of await this.loadActiveTextSessions()) {
+
+      const silentMinutes =
+        (now.getTime() - session.lastActivityAt.getTime()) / 60000;
+      const timeout =
+        session.inactivityTimeoutMinutes ?? inactivityTimeoutMinutes;
+
+      if (silentMinutes >= timeout) {
+        session.status = 'expired';
+        await this.completeCall(session.id);
+        expired.push(session);
+        continue;
+      }
+
+      const prompt = resumePrompts[session.resumePromptsSent];
+      if (!prompt || silentMinutes < prompt.afterMinutes) continue;
+
+      session.resumePromptsSent++;
+      await this.sendAgentMessage(
+        session,
+        this.generateResumePrompt(session, prompt)
+      );
+      await this.saveSession(session);
+      prompted.push(session);
+    }
+
+    return { prompted, expired };
+  }
+
+  /**
+   * Check text conversations for inactivity periodically
+   */
+  startSessionMonitor(): void {
+    if (this.sessionMonitor) return;
+
+    this.sessionMonitor = setInterval(() => {
+      this.checkInactiveSessions().catch((error) =>
+        console.error('Failed to check inactive conversations:', error)
+      );
+    }, this.config.textConversations.checkIntervalMs);
+    this.sessionMonitor.unref();
+  }
+
+  /**
+   * Stop checking text conversations for inactivity
+   */
+  stopSessionMonitor(): void {
+    if (this.sessionMonitor) {
+      clearInterval(this.sessionMonitor);
+      this.sessionMonitor = undefined;
+    }
+  }
+
+  /**
+   * Resume prompt followed by the question still waiting for an answer.
+   * The question is looked up by ID rather than read from the transcript,
+   * where earlier resume prompts would be repeated along with it.
+   */
+  private generateResumePrompt(
+    session: CallSession,
+    prompt: ResumePrompt
+  ): string {
+    const pending = this.config.qualificationScripts
+      .find((script) => script.enabled)
+      ?.questions.find(
+        (question) => question.id === session.currentQuestionId
+      );
+
+    return pending ? `${prompt.message} ${pending.question}` : prompt.message;
+  }
+
+  /**
+   * Add an agent message to the transcript and deliver it to the lead
+   */
+  private async sendAgentMessage(
+    session: CallSession,
+    text: string
+  ): Promise<void> {
+    await this.addToTranscript(session.id, 'agent', text);
+    await this.deliver(session, text, false);
+  }
+
+  /**
+   * Speak a message on calls, send it on text channels
+   */
+  private async deliver(
+    session: CallSession,
+    text: string,
+    reply: boolean
+  ): Promise<void> {
+    if (session.channel === 'voice') {
+      await this.speak(session, text);
+    } else {
+      await this.deliverText(session, text, reply);
+    }
+  }
+
+  /**
+   * Play a message to the lead on the call, when voice adapters are
+   * configured
+   */
+  private async speak(session: CallSession, text: string): Promise<void> {
+    if (!this.voice) return;
+
+    const audio = await this.voice.speech.synthesize(
+      text,
+      this.getSpeechOptions(this.config.voiceAI.textToSpeechModel)
+    );
+    await this.voice.calls.play(session.id, { text, audio });
+  }
+
+  private getSpeechOptions(model?: string): SpeechOptions {
+    return {
+      language: this.config.voiceAI.language,
+      voiceId: this.config.voiceAI.voiceId,
+      model,
+    };
+  }
+
+  /**
+   * Send a message of a text conversation to the lead. Chat messages are
+   * read from the transcript by the chat widget, so only SMS and WhatsApp
+   * go through the messenger. Replies to the lead are not subject to
+   * frequency limits; messages sent during silence are.
+   */
+  private async deliverText(
+    session: CallSession,
+    text: string,
+    reply: boolean
+  ): Promise<void> {
+    if (session.channel !== 'sms' && session.channel !== 'whatsapp') return;
+    if (!this.messenger || !session.to) return;
+
+    try {
+      const result = await this.messenger.sendMessage({
+        leadId: session.leadId,
+        channel: session.channel,
+        to: session.to,
+        content: text,
+        reply,
+        timezone: session.timezone,
+        metadata: { sessionId: session.id },
+      });
+      if (!result.sent && !result.deferred) {
+        console.warn(
+          `${session.channel} message for session ${session.id} not sent: ${result.reason}`
+        );
+      }
+    } catch (error) {
+      console.error(
+        `Failed to send ${session.channel} message for session ${session.id}:`,
+        error
+      );
+    }
+  }
+
   /**
    * Get active call sessions
    */
@@ -1006,6 +1785,84 @@ export class VirtualSalesAssistant {
     return this.activeSessions.get(sessionId);
   }
 
+  /**
+   * The lead's active text conversation. With a repository the database is
+   * read, so conversations started before a restart or on another instance
+   * are found.
+   */
+  async findActiveSession(leadId: string): Promise<CallSession | undefined> {
+    if (!this.repositories.agentSessions) {
+      return this.getActiveSessions().find(
+        (session) => session.leadId === leadId && session.channel !== 'voice'
+      );
+    }
+
+    const session = await loadActiveAgentSession(
+      this.repositories.agentSessions,
+      'sales',
+      leadId,
+      reviveSession
+    );
+    if (!session) return undefined;
+
+    this.activeSessions.set(session.id, session);
+    return session;
+  }
+
+  /**
+   * Keep a text conversation in the database too, as the lead may answer
+   * after a restart or on another instance. Calls end with the connection,
+   * so they stay in memory only.
+   */
+  private async saveSession(session: CallSession): Promise<void> {
+    if (session.channel === 'voice') return;
+
+    await saveAgentSession(this.repositories.agentSessions, 'sales', {
+      ...session,
+      startedAt: session.startTime,
+    });
+  }
+
+  /**
+   * Active text conversations. With a repository they are read from the
+   * database, so conversations started by the API, on another instance or
+   * before a restart are resumed and expired too.
+   */
+  private async loadActiveTextSessions(): Promise<CallSession[]> {
+    if (this.repositories.agentSessions) {
+      const stored = await this.repositories.agentSessions.findActive(
+        'sales',
+        INACTIVE_SESSION_SCAN_LIMIT
+      );
+      return stored.map(({ state }) => {
+        const session = reviveSession(state as StoredCallSession);
+        this.activeSessions.set(session.id, session);
+        return session;
+      });
+    }
+
+    return this.getActiveSessions().filter(
+      (session) => session.channel !== 'voice'
+    );
+  }
+
+  /**
+   * Text conversation stored by another instance or before a restart
+   */
+  private async loadSession(
+    sessionId: string
+  ): Promise<CallSession | undefined> {
+    const stored = await this.repositories.agentSessions?.findById(
+      'sales',
+      sessionId
+    );
+    if (!stored) return undefined;
+
+    const session = reviveSession(stored.state as StoredCallSession);
+    this.activeSessions.set(session.id, session);
+    return session;
+  }
+
   /**
    * Get appointments
    */
@@ -1024,6 +1881,9 @@ export class VirtualSalesAssistant {
    * Update configuration
    */
   updateConfig(updates: Partial<VSAConfig>): void {
+    updates.qualificationScripts?.forEach((script) =>
+      this.assertValidScript(script)
+    );
     this.config = { ...this.config, ...updates };
   }
 
@@ -1034,13 +1894,6 @@ export class VirtualSalesAssistant {
     return `vsa-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  /**
-   * Generate unique appointment ID
-   */
-  private generateAppointmentId(): string {
-    return `apt-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  }
-
   /**
    * Generate unique transfer ID
    */
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { CalendarApi } from '../calendar-api';
+import { createCalendarFeedToken } from '../../scheduling/calendar-feed-tokens';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const appointmentRow = {
+  id: '3f1e2d4c-5b6a-4789-8abc-def012345678',
+  lead_id: '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f',
+  campaign_id: null,
+  agent_id: 'agent-1',
+  type: 'consultation',
+  status: 'cancelled',
+  scheduled_at: new Date('2024-07-01T14:00:00.000Z'),
+  duration_minutes: 60,
+  location: null,
+  notes: null,
+  confirmation_sent: true,
+  reminders_sent: 0,
+  sequence: 3,
+  created_at: new Date('2024-06-01T10:00:00.000Z'),
+  updated_at: new Date('2024-06-02T10:00:00.000Z'),
+};
+
+const busyCalendar = [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'BEGIN:VEVENT',
+  'DTSTART:20240701T090000Z',
+  'DTEND:20240701T100000Z',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+const FEED_SECRET = 'feed-secret';
+
+describe('CalendarApi', () => {
+  let app: Express;
+  let dbManager: any;
+  let client: any;
+
+  beforeEach(() => {
+    client = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }) };
+    dbManager = {
+      query: vi.fn().mockResolvedValue({ rows: [appointmentRow] }),
+      transaction: vi.fn((work: any) => work(client)),
+    };
+
+    app = express();
+    app.use(express.json());
+    new CalendarApi(dbManager, FEED_SECRET).setupRoutes(app);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /api/calendar/feeds/:token/appointments.ics', () => {
+    const feedPath = `/api/calendar/feeds/${createCalendarFeedToken(
+      'agent-1',
+      FEED_SECRET
+    )}/appointments.ics`;
+
+    it('should give the secret address of an agent feed', async () => {
+      const response = await request(app)
+        .get('/api/calendar/agents/agent-1/feed')
+        .expect(200);
+
+      expect(response.body.data).toEqual({ agentId: 'agent-1', path: feedPath });
+    });
+
+    it('should serve the agent appointments as an iCalendar feed', async () => {
+      const response = await request(app)
+        .get(feedPath)
+        .query({ from: '2024-06-01' })
+        .expect(200);
+
+      expect(response.headers['content-type']).toContain('text/calendar');
+      expect(response.text).toContain('METHOD:PUBLISH');
+      expect(response.text).toContain('STATUS:CANCELLED');
+      expect(response.text).toContain('SEQUENCE:3');
+      expect(dbManager.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE agent_id = $1'),
+        ['agent-1', new Date('2024-06-01')]
+      );
+    });
+
+    it('should not serve feeds by agent ID or with forged tokens', async () => {
+      await request(app)
+        .get('/api/calendar/agents/agent-1/appointments.ics')
+        .expect(404);
+      await request(app)
+        .get(
+          `/api/calendar/feeds/${createCalendarFeedToken(
+            'agent-1',
+            'other-secret'
+          )}/appointments.ics`
+        )
+        .expect(404);
+      expect(dbManager.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid dates', async () => {
+      await request(app).get(feedPath).query({ from: 'yesterday' }).expect(400);
+    });
+
+    it('should serve no feeds without a feed secret', async () => {
+      app = express();
+      new CalendarApi(dbManager).setupRoutes(app);
+
+      await request(app).get(feedPath).expect(404);
+      await request(app).get('/api/calendar/agents/agent-1/feed').expect(404);
+    });
+  });
+
+  describe('POST /api/calendar/agents/:agentId/busy', () => {
+    it('should replace the stored busy blocks of the agent', async () => {
+      const response = await request(app)
+        .post('/api/calendar/agents/agent-1/busy')
+        .set('Content-Type', 'text/calendar')
+        .send(busyCalendar)
+        .expect(200);
+
+      expect(response.body.data).toEqual({ agentId: 'agent-1', imported: 1 });
+      expect(dbManager.transaction).toHaveBeenCalledTimes(1);
+      expect(client.query.mock.calls[0]).toEqual([
+        'DELETE FROM agent_busy_blocks WHERE agent_id = $1',
+        ['agent-1'],
+      ]);
+      expect(client.query.mock.calls[1][1]).toEqual([
+        expect.any(String),
+        'agent-1',
+        new Date('2024-07-01T09:00:00.000Z'),
+        new Date('2024-07-01T10:00:00.000Z'),
+        null,
+        expect.any(Date),
+      ]);
+    });
+
+    it('should reject invalid agent ids', async () => {
+      await request(app)
+        .post('/api/calendar/agents/agent%221/busy')
+        .set('Content-Type', 'text/calendar')
+        .send(busyCalendar)
+        .expect(400);
+    });
+
+    it('should reject bodies that are not calendars', async () => {
+      await request(app)
+        .post('/api/calendar/agents/agent-1/busy')
+        .send({ events: [] })
+        .expect(400);
+      await request(app)
+        .post('/api/calendar/agents/agent-1/busy')
+        .set('Content-Type', 'text/calendar')
+        .send('BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART:soon\r\nEND:VEVENT\r\nEND:VCALENDAR')
+        .expect(400);
+    });
+  });
+});
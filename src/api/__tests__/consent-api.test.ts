@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { ConsentApi } from '../consent-api';
+import { ConsentLedger } from '../../communication/consent-ledger';
+import { MultiChannelCommunicationManager } from '../../communication/multi-channel-manager';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+
+describe('ConsentApi', () => {
+  let app: Express;
+  let manager: MultiChannelCommunicationManager;
+  let leads: { findById: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    manager = new MultiChannelCommunicationManager([], {
+      consentLedger: new ConsentLedger({ requireOptIn: ['sms'] }),
+    });
+    leads = { findById: vi.fn().mockResolvedValue({ id: LEAD_ID }) };
+
+    app = express();
+    app.use(express.json());
+    new ConsentApi(manager, leads as any).setupRoutes(app);
+  });
+
+  it('should record opt-ins with their evidence', async () => {
+    const response = await request(app)
+      .post(`/api/leads/${LEAD_ID}/consent`)
+      .send({
+        action: 'opt_in',
+        channels: ['sms', 'whatsapp'],
+        source: 'phone_call',
+        evidence: { recordingId: 'call-123', agent: 'maria' },
+      })
+      .expect(201);
+
+    expect(response.body.data.channels).toEqual({
+      email: 'unknown',
+      sms: 'granted',
+      voice: 'unknown',
+      whatsapp: 'granted',
+    });
+    expect(response.body.data.history).toEqual([
+      expect.objectContaining({
+        channel: 'sms',
+        action: 'opt_in',
+        source: 'phone_call',
+        evidence: { recordingId: 'call-123', agent: 'maria' },
+      }),
+      expect.objectContaining({ channel: 'whatsapp', action: 'opt_in' }),
+    ]);
+    expect(
+      (await manager.canCommunicate(LEAD_ID, 'sms', { timezone: 'UTC' })).allowed
+    ).toBe(true);
+  });
+
+  it('should record opt-outs and update the channel preferences', async () => {
+    await request(app)
+      .post(`/api/leads/${LEAD_ID}/consent`)
+      .send({
+        action: 'opt_out',
+        channels: ['email'],
+        source: 'support_ticket',
+        evidence: { ticketId: 'T-42' },
+      })
+      .expect(201);
+
+    const response = await request(app)
+      .get(`/api/leads/${LEAD_ID}/consent`)
+      .expect(200);
+
+    expect(response.body.data.channels.email).toBe('revoked');
+    expect(
+      (await manager.getCommunicationPreferences(LEAD_ID))?.optedOutChannels
+    ).toEqual(['email']);
+  });
+
+  it('should require evidence', async () => {
+    const response = await request(app)
+      .post(`/api/leads/${LEAD_ID}/consent`)
+      .send({ action: 'opt_in', channels: ['sms'], source: 'api' })
+      .expect(400);
+
+    expect(response.body.success).toBe(false);
+    expect(await manager.getConsentLedger().getHistory(LEAD_ID)).toEqual([]);
+  });
+
+  it('should answer 404 for unknown leads', async () => {
+    leads.findById.mockResolvedValue(null);
+
+    await request(app).get(`/api/leads/${LEAD_ID}/consent`).expect(404);
+    await request(app)
+      .post(`/api/leads/${LEAD_ID}/consent`)
+      .send({
+        action: 'opt_in',
+        channels: ['sms'],
+        source: 'api',
+        evidence: { note: 'verbal' },
+      })
+      .expect(404);
+    expect(await manager.getConsentLedger().getHistory(LEAD_ID)).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { FieldMappingProfilesApi } from '../field-mapping-profiles-api';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const PROFILE_ID = '5d6e7f80-1a2b-4c3d-9e4f-5a6b7c8d9e0f';
+
+const profile = {
+  id: PROFILE_ID,
+  name: 'typeform-buyers',
+  integration: 'zapier',
+  leadSource: 'third_party',
+  mappings: [
+    { source: '$.full_name', target: 'contactInfo.name' },
+    { source: '$.email', target: 'contactInfo.email' },
+    {
+      source: '$.budget',
+      target: 'qualificationData.budget.max',
+      transform: { type: 'parse_currency' },
+    },
+  ],
+  defaults: { leadType: 'warm' },
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+};
+
+describe('FieldMappingProfilesApi', () => {
+  let app: Express;
+  let profiles: Record<string, ReturnType<typeof vi.fn>>;
+
+  beforeEach(() => {
+    profiles = {
+      create: vi.fn(async (created) => created),
+      findAll: vi.fn().mockResolvedValue([profile]),
+      findById: vi.fn().mockResolvedValue(profile),
+      findByName: vi.fn().mockResolvedValue(null),
+      save: vi.fn(async (saved) => saved),
+      delete: vi.fn().mockResolvedValue(true),
+    };
+
+    app = express();
+    app.use(express.json());
+    new FieldMappingProfilesApi(profiles as any).setupRoutes(app);
+  });
+
+  it('should create a profile with defaults filled in', async () => {
+    const { id: _id, createdAt: _c, updatedAt: _u, ...body } = profile;
+
+    const response = await request(app)
+      .post('/api/field-mapping-profiles')
+      .send({ ...body, defaults: undefined })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({
+      name: 'typeform-buyers',
+      integration: 'zapier',
+      defaults: {},
+      id: expect.any(String),
+    });
+    expect(profiles.findByName).toHaveBeenCalledWith(
+      'zapier',
+      'typeform-buyers'
+    );
+  });
+
+  it('should reject invalid profiles and taken names', async () => {
+    const invalid = await request(app)
+      .post('/api/field-mapping-profiles')
+      .send({
+        name: 'Typeform Buyers',
+        integration: 'zapier',
+        mappings: [{ source: 'email', target: 'contactInfo.fax' }],
+      })
+      .expect(400);
+    expect(
+      invalid.body.issues.map((issue: any) => issue.path.join('.'))
+    ).toEqual(['name', 'mappings.0.source', 'mappings.0.target']);
+
+    profiles.findByName.mockResolvedValue(profile);
+    const { id: _id, createdAt: _c, updatedAt: _u, ...body } = profile;
+    await request(app)
+      .post('/api/field-mapping-profiles')
+      .send(body)
+      .expect(409);
+    expect(profiles.create).not.toHaveBeenCalled();
+  });
+
+  it('should filter the listing by integration', async () => {
+    await request(app)
+      .get('/api/field-mapping-profiles?integration=zapier')
+      .expect(200);
+    expect(profiles.findAll).toHaveBeenCalledWith('zapier');
+
+    await request(app)
+      .get('/api/field-mapping-profiles?integration=ifttt')
+      .expect(400);
+  });
+
+  it('should update mappings of a profile', async () => {
+    const response = await request(app)
+      .patch(`/api/field-mapping-profiles/${PROFILE_ID}`)
+      .send({ defaults: { leadType: 'hot', urgencyLevel: 8 } })
+      .expect(200);
+
+    expect(response.body.data.defaults).toEqual({
+      leadType: 'hot',
+      urgencyLevel: 8,
+    });
+    expect(profiles.save).toHaveBeenCalledWith(
+      expect.objectContaining({ id: PROFILE_ID, name: 'typeform-buyers' })
+    );
+  });
+
+  it('should show the lead a test payload maps to', async () => {
+    const response = await request(app)
+      .post(`/api/field-mapping-profiles/${PROFILE_ID}/test`)
+      .send({
+        full_name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        budget: '450k',
+      })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({
+      valid: true,
+      errors: [],
+      normalized: {
+        source: 'third_party',
+        leadType: 'warm',
+        contactInfo: { name: 'Ada Lovelace', email: 'ada@example.com' },
+        qualificationData: { budget: { max: 450000 } },
+      },
+    });
+  });
+
+  it('should show the validation errors of a test payload', async () => {
+    const response = await request(app)
+      .post(`/api/field-mapping-profiles/${PROFILE_ID}/test`)
+      .send({ email: 'ada@example.com', budget: 'flexible' })
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({
+      valid: false,
+      mapped: { contactInfo: { email: 'ada@example.com' } },
+      errors: [
+        'qualificationData.budget.max: Cannot read an amount from "flexible"',
+        'contactInfo.name: Required',
+      ],
+    });
+    expect(response.body.data).not.toHaveProperty('normalized');
+  });
+
+  it('should answer 404 and 400 for unknown and malformed ids', async () => {
+    profiles.findById.mockResolvedValue(null);
+
+    await request(app)
+      .post(`/api/field-mapping-profiles/${PROFILE_ID}/test`)
+      .send({})
+      .expect(404);
+    await request(app).get('/api/field-mapping-profiles/nope').expect(400);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { JobsApi } from '../jobs-api';
+import { InMemoryJobStore, JobQueue } from '../../jobs';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('JobsApi', () => {
+  let app: Express;
+  let store: InMemoryJobStore;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    store = new InMemoryJobStore();
+    queue = new JobQueue(store);
+
+    app = express();
+    app.use(express.json());
+    new JobsApi(queue).setupRoutes(app);
+  });
+
+  const deadJob = async () => {
+    const job = await queue.enqueue('send', { leadId: 'lead-1' });
+    await store.claimDue('worker-1', new Date(), new Date(), 1);
+    await store.bury(job.id, 'worker-1', 'SMTP unavailable', new Date());
+    return job;
+  };
+
+  it('should list dead-letter jobs with their last error', async () => {
+    const job = await deadJob();
+
+    const response = await request(app)
+      .get('/api/jobs/dead-letters?limit=10')
+      .expect(200);
+
+    expect(response.body.data).toEqual([
+      expect.objectContaining({
+        id: job.id,
+        status: 'dead',
+        lastError: 'SMTP unavailable',
+      }),
+    ]);
+  });
+
+  it('should put a dead job back in the queue', async () => {
+    const job = await deadJob();
+
+    const response = await request(app)
+      .post(`/api/jobs/${job.id}/retry`)
+      .expect(200);
+
+    expect(response.body.data).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(await queue.getDeadLetters()).toEqual([]);
+  });
+
+  it('should reject unknown jobs and bad limits', async () => {
+    const job = await queue.enqueue('send', {});
+
+    await request(app).post(`/api/jobs/${job.id}/retry`).expect(404);
+    await request(app).post('/api/jobs/not-a-uuid/retry').expect(400);
+    await request(app).get('/api/jobs/dead-letters?limit=0').expect(400);
+  });
+});
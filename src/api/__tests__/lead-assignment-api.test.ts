@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { LeadAssignmentApi } from '../lead-assignment-api';
+import { AgentRoster } from '../../assignment/agent-roster';
+import { LeadAssignmentManager } from '../../assignment/lead-assignment-manager';
+import { Lead } from '../../types/lead';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+
+const lead: Lead = {
+  id: LEAD_ID,
+  source: 'website',
+  contactInfo: {
+    name: 'John Doe',
+    email: 'john.doe@example.com',
+    preferredChannel: 'email',
+    timezone: 'UTC',
+  },
+  leadType: 'hot',
+  urgencyLevel: 7,
+  intentSignals: [],
+  qualificationData: { propertyType: 'condo', qualificationScore: 0.8 },
+  status: 'new',
+  createdAt: new Date('2026-01-14T10:00:00.000Z'),
+  updatedAt: new Date('2026-01-14T10:00:00.000Z'),
+};
+
+const agentBody = (id: string) => ({
+  id,
+  name: `Agent ${id}`,
+  email: `${id}@example.com`,
+  skills: { languages: ['en'], propertyTypes: ['condo'] },
+  maxConcurrentLeads: 2,
+  workingHours: [{ dayOfWeek: 3, start: '09:00', end: '18:00' }],
+});
+
+describe('LeadAssignmentApi', () => {
+  let app: Express;
+  let leads: { findById: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    // Wednesday afternoon
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    leads = {
+      findById: vi.fn(async (id: string) => (id === LEAD_ID ? lead : null)),
+    };
+    const roster = new AgentRoster();
+    const manager = new LeadAssignmentManager(roster);
+
+    app = express();
+    app.use(express.json());
+    new LeadAssignmentApi(roster, manager, leads as any).setupRoutes(app);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const addAgent = (id: string) =>
+    request(app).post('/api/sales-agents').send(agentBody(id));
+
+  it('should manage the roster', async () => {
+    await addAgent('ana').expect(201);
+    await addAgent('ana').expect(409);
+    await request(app)
+      .post('/api/sales-agents')
+      .send({ ...agentBody('bruno'), workingHours: [] })
+      .expect(400);
+
+    await request(app)
+      .patch('/api/sales-agents/ana')
+      .send({
+        outOfOffice: [
+          {
+            start: '2026-01-14T12:00:00.000Z',
+            end: '2026-01-15T00:00:00.000Z',
+          },
+        ],
+      })
+      .expect(200);
+
+    const response = await request(app)
+      .get('/api/sales-agents/ana')
+      .expect(200);
+    expect(response.body.data).toMatchObject({
+      id: 'ana',
+      openLeads: 0,
+      unavailableReason: 'Out of office',
+    });
+
+    await request(app).delete('/api/sales-agents/ana').expect(200);
+    await request(app).get('/api/sales-agents/ana').expect(404);
+  });
+
+  it('should assign a lead and let the agent accept it', async () => {
+    await addAgent('ana').expect(201);
+
+    const assigned = await request(app)
+      .post(`/api/leads/${LEAD_ID}/assignments`)
+      .send({ language: 'en' })
+      .expect(201);
+    const assignmentId = assigned.body.data.id;
+    expect(assigned.body.data.agentId).toBe('ana');
+
+    await request(app)
+      .post(`/api/leads/${LEAD_ID}/assignments`)
+      .send({})
+      .expect(409);
+    await request(app).delete('/api/sales-agents/ana').expect(409);
+    await request(app)
+      .post(`/api/assignments/${assignmentId}/accept`)
+      .send({ agentId: 'bruno' })
+      .expect(403);
+
+    const accepted = await request(app)
+      .post(`/api/assignments/${assignmentId}/accept`)
+      .send({ agentId: 'ana' })
+      .expect(200);
+    expect(accepted.body.data.status).toBe('accepted');
+
+    const history = await request(app)
+      .get(`/api/leads/${LEAD_ID}/assignments`)
+      .expect(200);
+    expect(history.body.data).toHaveLength(1);
+  });
+
+  it('should report when no agent can take the lead', async () => {
+    await addAgent('ana').expect(201);
+
+    await request(app)
+      .post(`/api/leads/${LEAD_ID}/assignments`)
+      .send({ language: 'fr' })
+      .expect(409);
+    await request(app)
+      .post(`/api/leads/${LEAD_ID}/assignments`)
+      .send({ strategy: 'manual' })
+      .expect(400);
+    await request(app)
+      .post('/api/leads/6a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d/assignments')
+      .send({})
+      .expect(404);
+    await request(app).post('/api/leads/not-a-uuid/assignments').expect(400);
+  });
+});
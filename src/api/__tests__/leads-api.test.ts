@@ -0,0 +1,441 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { LeadsApi, toLeadPayload } from '../leads-api';
+import { encodeLeadCursor } from '../../database/manager';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+
+const leadRecord = {
+  id: LEAD_ID,
+  source: 'website',
+  name: 'John Doe',
+  email: 'john.doe@example.com',
+  phone: '+1234567890',
+  lead_type: 'hot',
+  status: 'new',
+  created_at: new Date('2024-01-01T10:00:00.000Z'),
+  updated_at: new Date('2024-01-01T10:00:00.000Z'),
+};
+
+describe('LeadsApi', () => {
+  let app: Express;
+  let dbManager: any;
+
+  beforeEach(() => {
+    dbManager = {
+      listLeads: vi.fn().mockResolvedValue({ leads: [leadRecord], nextCursor: null }),
+      createLead: vi.fn().mockResolvedValue(leadRecord),
+      getLeadById: vi.fn().mockResolvedValue(leadRecord),
+      updateLead: vi.fn().mockResolvedValue({ ...leadRecord, status: 'contacted' }),
+      deleteLead: vi.fn().mockResolvedValue(true),
+      query: vi.fn().mockResolvedValue({ rows: [] }),
+    };
+
+    app = express();
+    app.use(express.json());
+    new LeadsApi(dbManager).setupRoutes(app);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('GET /api/leads', () => {
+    it('should list leads with pagination info', async () => {
+      const response = await request(app).get('/api/leads').expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.leads).toHaveLength(1);
+      expect(response.body.leads[0].name).toBe('John Doe');
+      expect(response.body.pagination).toEqual({
+        limit: 25,
+        nextCursor: null,
+        hasMore: false,
+      });
+    });
+
+    it('should pass filters, search and cursor to the database', async () => {
+      const cursor = encodeLeadCursor(leadRecord);
+
+      await request(app)
+        .get('/api/leads')
+        .query({
+          status: 'new,contacted',
+          lead_type: 'hot',
+          source: 'website',
+          assigned_agent: 'agent-1',
+          created_from: '2024-01-01',
+          created_to: '2024-02-01',
+          q: 'john',
+          cursor,
+          limit: '10',
+        })
+        .expect(200);
+
+      expect(dbManager.listLeads).toHaveBeenCalledWith({
+        status: ['new', 'contacted'],
+        lead_type: ['hot'],
+        source: ['website'],
+        assigned_agent: ['agent-1'],
+        created_from: new Date('2024-01-01'),
+        created_to: new Date('2024-02-01'),
+        search: 'john',
+        cursor,
+        limit: 10,
+      });
+    });
+
+    it('should reject unknown filter values', async () => {
+      const response = await request(app)
+        .get('/api/leads?status=archived')
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(dbManager.listLeads).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed cursors', async () => {
+      const response = await request(app)
+        .get('/api/leads?cursor=not-a-cursor')
+        .expect(400);
+
+      expect(response.body.error).toContain('Invalid pagination cursor');
+    });
+
+    it('should reject inverted date ranges', async () => {
+      await request(app)
+        .get('/api/leads?created_from=2024-02-01&created_to=2024-01-01')
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/leads', () => {
+    it('should validate and map the lead before saving', async () => {
+      const response = await request(app)
+        .post('/api/leads')
+        .send({
+          source: 'website',
+          contactInfo: {
+            name: 'John Doe',
+            email: 'john.doe@example.com',
+            phone: '+1234567890',
+          },
+          leadType: 'hot',
+          qualificationData: {
+            budget: { min: 300000, max: 500000 },
+            location: 'New York',
+          },
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ success: true, id: LEAD_ID });
+      expect(dbManager.createLead).toHaveBeenCalledWith(
+        expect.objectContaining({
+          source: 'website',
+          name: 'John Doe',
+          email: 'john.doe@example.com',
+          preferred_channel: 'email',
+          timezone: 'UTC',
+          lead_type: 'hot',
+          urgency_level: 1,
+          budget_min: 300000,
+          budget_max: 500000,
+          location: 'New York',
+          status: 'new',
+        })
+      );
+    });
+
+    it('should record the consent sent with the lead in the same transaction', async () => {
+      const client = { query: vi.fn().mockResolvedValue({ rows: [] }) };
+      dbManager.transaction = vi.fn((work) => work(client));
+      client.query.mockImplementation(async (_sql: string, params: any[]) => ({
+        rows: [
+          {
+            id: params[0],
+            lead_id: params[1],
+            channel: params[2],
+            action: params[3],
+            source: params[4],
+            evidence: JSON.parse(params[5]),
+            recorded_at: params[6],
+          },
+        ],
+      }));
+
+      await request(app)
+        .post('/api/leads')
+        .send({
+          source: 'website',
+          contactInfo: { name: 'John Doe', phone: '+1234567890' },
+          leadType: 'hot',
+          qualificationData: {},
+          consent: {
+            channels: ['sms', 'whatsapp'],
+            source: 'lead_form',
+            evidence: { consentText: 'I agree to be contacted by SMS' },
+          },
+        })
+        .expect(201);
+
+      expect(dbManager.createLead).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'John Doe' }),
+        client
+      );
+      expect(client.query).toHaveBeenCalledTimes(2);
+      expect(client.query.mock.calls.map(([, params]) => params.slice(1, 5))).toEqual([
+        [LEAD_ID, 'sms', 'opt_in', 'lead_form'],
+        [LEAD_ID, 'whatsapp', 'opt_in', 'lead_form'],
+      ]);
+    });
+
+    it('should reject consent without evidence', async () => {
+      await request(app)
+        .post('/api/leads')
+        .send({
+          source: 'website',
+          contactInfo: { name: 'John Doe', phone: '+1234567890' },
+          leadType: 'hot',
+          qualificationData: {},
+          consent: { channels: ['sms'], source: 'lead_form', evidence: {} },
+        })
+        .expect(400);
+
+      expect(dbManager.createLead).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid payloads', async () => {
+      const response = await request(app)
+        .post('/api/leads')
+        .send({ name: 'Raw row', lead_type: 'hot' })
+        .expect(400);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.issues.length).toBeGreaterThan(0);
+      expect(dbManager.createLead).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /api/leads/:id', () => {
+    it('should return the lead', async () => {
+      const response = await request(app).get(`/api/leads/${LEAD_ID}`).expect(200);
+
+      expect(response.body.data.id).toBe(LEAD_ID);
+    });
+
+    it('should return 404 when the lead does not exist', async () => {
+      dbManager.getLeadById.mockResolvedValue(null);
+
+      const response = await request(app).get(`/api/leads/${LEAD_ID}`).expect(404);
+
+      expect(response.body.error).toBe('Lead not found');
+    });
+
+    it('should return 400 for malformed ids', async () => {
+      await request(app).get('/api/leads/123').expect(400);
+      expect(dbManager.getLeadById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('PATCH /api/leads/:id', () => {
+    it('should apply a partial update', async () => {
+      const response = await request(app)
+        .patch(`/api/leads/${LEAD_ID}`)
+        .send({ status: 'contacted', assignedAgent: 'agent-1' })
+        .expect(200);
+
+      expect(response.body.data.status).toBe('contacted');
+      expect(dbManager.updateLead).toHaveBeenCalledWith(
+        LEAD_ID,
+        expect.objectContaining({ status: 'contacted', assigned_agent: 'agent-1' })
+      );
+    });
+
+    it('should reject invalid status transitions', async () => {
+      const response = await request(app)
+        .patch(`/api/leads/${LEAD_ID}`)
+        .send({ status: 'converted' })
+        .expect(409);
+
+      expect(response.body.error).toBe(
+        'Invalid status transition from new to converted'
+      );
+      expect(dbManager.updateLead).not.toHaveBeenCalled();
+    });
+
+    it('should audit status changes', async () => {
+      await request(app)
+        .patch(`/api/leads/${LEAD_ID}`)
+        .send({ status: 'contacted' })
+        .expect(200);
+
+      const [sql, params] = dbManager.query.mock.calls[0];
+      expect(sql).toContain('INSERT INTO audit_logs');
+      expect(params[1]).toBe('lead');
+      expect(JSON.parse(params[4])).toEqual({
+        status: { old: 'new', new: 'contacted' },
+      });
+    });
+
+    it('should not audit updates that keep the status', async () => {
+      await request(app)
+        .patch(`/api/leads/${LEAD_ID}`)
+        .send({ assignedAgent: 'agent-1' })
+        .expect(200);
+
+      expect(dbManager.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown fields', async () => {
+      await request(app)
+        .patch(`/api/leads/${LEAD_ID}`)
+        .send({ lead_type: 'cold' })
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/leads/:id/timeline', () => {
+    it('should merge interactions, status changes and appointments', async () => {
+      dbManager.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM interactions')) {
+          return {
+            rows: [
+              {
+                id: '3f1e2d4c-5b6a-4789-8abc-def012345678',
+                lead_id: LEAD_ID,
+                agent_id: 'virtual-sales-assistant',
+                type: 'call',
+                direction: 'outbound',
+                content: 'Qualification call',
+                outcome_status: 'successful',
+                appointment_booked: true,
+                qualification_updated: true,
+                escalation_required: false,
+                duration_seconds: 240,
+                sentiment_score: '0.40',
+                sentiment_confidence: '0.85',
+                next_action: null,
+                next_action_description: null,
+                next_action_scheduled_at: null,
+                created_at: new Date('2024-01-02T10:00:00.000Z'),
+              },
+            ],
+          };
+        }
+        if (sql.includes('FROM audit_logs')) {
+          return {
+            rows: [
+              {
+                id: '5d6e7f80-1a2b-4c3d-8e9f-0a1b2c3d4e5f',
+                entity_type: 'lead',
+                entity_id: LEAD_ID,
+                action: 'update',
+                changes: { status: { old: 'new', new: 'contacted' } },
+                user_id: null,
+                agent_id: 'leads-api',
+                timestamp: new Date('2024-01-01T12:00:00.000Z'),
+                metadata: {},
+              },
+              {
+                id: '6e7f8091-2b3c-4d4e-9f00-1b2c3d4e5f60',
+                entity_type: 'lead',
+                entity_id: LEAD_ID,
+                action: 'update',
+                changes: { email: { old: 'a@b.com', new: 'c@d.com' } },
+                user_id: null,
+                agent_id: 'leads-api',
+                timestamp: new Date('2024-01-01T13:00:00.000Z'),
+                metadata: {},
+              },
+            ],
+          };
+        }
+        return {
+          rows: [
+            {
+              id: '7f809102-3c4d-4e5f-8a01-2c3d4e5f6071',
+              lead_id: LEAD_ID,
+              campaign_id: null,
+              type: 'consultation',
+              status: 'scheduled',
+              scheduled_at: new Date('2024-01-05T15:00:00.000Z'),
+              duration_minutes: 60,
+              location: null,
+              notes: null,
+              confirmation_sent: false,
+              reminders_sent: 0,
+              created_at: new Date('2024-01-02T10:05:00.000Z'),
+              updated_at: new Date('2024-01-02T10:05:00.000Z'),
+            },
+          ],
+        };
+      });
+
+      const response = await request(app)
+        .get(`/api/leads/${LEAD_ID}/timeline`)
+        .expect(200);
+
+      expect(response.body.data.map((entry: any) => entry.type)).toEqual([
+        'status_change',
+        'interaction',
+        'appointment',
+      ]);
+      expect(response.body.data[0].data).toMatchObject({
+        from: 'new',
+        to: 'contacted',
+      });
+      expect(response.body.data[1].data.sentiment).toEqual({
+        score: 0.4,
+        confidence: 0.85,
+      });
+    });
+
+    it('should return 404 for unknown leads', async () => {
+      dbManager.getLeadById.mockResolvedValue(null);
+
+      await request(app).get(`/api/leads/${LEAD_ID}/timeline`).expect(404);
+      expect(dbManager.query).not.toHaveBeenCalled();
+    });
+
+    it('should reject out of range limits', async () => {
+      await request(app)
+        .get(`/api/leads/${LEAD_ID}/timeline?limit=0`)
+        .expect(400);
+    });
+  });
+
+  describe('DELETE /api/leads/:id', () => {
+    it('should delete the lead', async () => {
+      const response = await request(app).delete(`/api/leads/${LEAD_ID}`).expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(dbManager.deleteLead).toHaveBeenCalledWith(LEAD_ID);
+    });
+
+    it('should return 404 when nothing was deleted', async () => {
+      dbManager.deleteLead.mockResolvedValue(false);
+
+      await request(app).delete(`/api/leads/${LEAD_ID}`).expect(404);
+    });
+  });
+
+  describe('toLeadPayload', () => {
+    it('should only map the fields that were provided', () => {
+      const payload = toLeadPayload({ urgencyLevel: 7 });
+
+      expect(payload.urgency_level).toBe(7);
+      expect(payload.name).toBeUndefined();
+      expect(payload.budget_min).toBeUndefined();
+    });
+  });
+});
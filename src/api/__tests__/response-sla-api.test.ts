@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { ResponseSlaApi } from '../response-sla-api';
+import { ResponseSlaEngine } from '../../monitoring/response-sla-engine';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+const OTHER_LEAD_ID = '6a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d';
+
+describe('ResponseSlaApi', () => {
+  let app: Express;
+  let engine: ResponseSlaEngine;
+
+  beforeEach(async () => {
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    engine = new ResponseSlaEngine();
+    await engine.startTimer(
+      LEAD_ID,
+      'website',
+      new Date('2026-01-14T14:00:00.000Z')
+    );
+    await engine.startTimer(
+      OTHER_LEAD_ID,
+      'referral',
+      new Date('2026-01-14T14:59:30.000Z')
+    );
+
+    app = express();
+    app.use(express.json());
+    new ResponseSlaApi(engine).setupRoutes(app);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should report compliance for the last seven days by default', async () => {
+    const response = await request(app)
+      .get('/api/sla/report?group_by=source')
+      .expect(200);
+
+    expect(response.body.data.from).toBe('2026-01-07T15:00:00.000Z');
+    expect(response.body.data.rows).toEqual([
+      expect.objectContaining({ key: 'referral', open: 1 }),
+      expect.objectContaining({ key: 'website', breached: 1 }),
+    ]);
+
+    await request(app).get('/api/sla/report?group_by=day').expect(400);
+    await request(app).get('/api/sla/report?timezone=Mars/Base').expect(400);
+    await request(app)
+      .get('/api/sla/report?from=2026-01-14&to=2026-01-13')
+      .expect(400);
+  });
+
+  it('should list open timers and show the timer of a lead', async () => {
+    const open = await request(app).get('/api/sla/open').expect(200);
+    expect(
+      open.body.data.map((timer: any) => [timer.leadId, timer.overdue])
+    ).toEqual([
+      [LEAD_ID, true],
+      [OTHER_LEAD_ID, false],
+    ]);
+
+    const lead = await request(app).get(`/api/leads/${LEAD_ID}/sla`).expect(200);
+    expect(lead.body.data.status).toBe('open');
+    await request(app)
+      .get('/api/leads/1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f/sla')
+      .expect(404);
+    await request(app).get('/api/leads/not-a-uuid/sla').expect(400);
+  });
+});
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { RoutingRulesApi } from '../routing-rules-api';
+import { AIHeadAgent } from '../../agents/ai-head-agent';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const vipRule = {
+  id: 'vip-referral',
+  name: 'VIP Referral',
+  condition: {
+    all: [
+      { field: 'lead.source', operator: 'equals', value: 'referral' },
+      {
+        field: 'lead.qualificationData.qualificationScore',
+        operator: 'greater_than',
+        value: 0.8,
+      },
+    ],
+  },
+  action: {
+    targetAgent: 'inbound',
+    priority: 'high',
+    reasoning: ['VIP referral'],
+    estimatedResponseTime: 15,
+    suggestedActions: ['Call immediately'],
+  },
+  priority: 0,
+};
+
+describe('RoutingRulesApi', () => {
+  let app: Express;
+  let agent: AIHeadAgent;
+
+  beforeEach(async () => {
+    agent = new AIHeadAgent();
+    await agent.loadRoutingRules();
+
+    app = express();
+    app.use(express.json());
+    new RoutingRulesApi(agent).setupRoutes(app);
+  });
+
+  it('should list the current rules', async () => {
+    const response = await request(app).get('/api/routing-rules').expect(200);
+
+    expect(response.body.data.map((rule: { id: string }) => rule.id)).toEqual([
+      'hot-lead-immediate',
+      'direct-inquiry-inbound',
+      'warm-lead-nurture',
+      'cold-lead-outbound',
+    ]);
+  });
+
+  it('should create, update and delete rules with attribution', async () => {
+    const created = await request(app)
+      .post('/api/routing-rules')
+      .set('X-Changed-By', 'ana')
+      .send(vipRule)
+      .expect(201);
+    expect(created.body.data.enabled).toBe(true);
+
+    const updated = await request(app)
+      .patch('/api/routing-rules/vip-referral')
+      .send({ priority: 7 })
+      .expect(200);
+    expect(updated.body.data.priority).toBe(7);
+
+    await request(app).delete('/api/routing-rules/vip-referral').expect(200);
+    await request(app).get('/api/routing-rules/vip-referral').expect(404);
+
+    const versions = await request(app)
+      .get('/api/routing-rules/vip-referral/versions')
+      .expect(200);
+    expect(
+      versions.body.data.map((v: { change: string; changedBy: string }) => [
+        v.change,
+        v.changedBy,
+      ])
+    ).toEqual([
+      ['created', 'ana'],
+      ['updated', 'routing-rules-api'],
+      ['deleted', 'routing-rules-api'],
+    ]);
+  });
+
+  it('should reject invalid and duplicate rules', async () => {
+    const invalid = await request(app)
+      .post('/api/routing-rules')
+      .send({
+        ...vipRule,
+        condition: { field: 'process.env.SECRET', operator: 'exists' },
+      })
+      .expect(400);
+    expect(invalid.body.success).toBe(false);
+
+    await request(app)
+      .post('/api/routing-rules')
+      .send({ ...vipRule, id: 'hot-lead-immediate' })
+      .expect(409);
+    await request(app)
+      .patch('/api/routing-rules/hot-lead-immediate')
+      .send({})
+      .expect(400);
+    await request(app)
+      .patch('/api/routing-rules/missing-rule')
+      .send({ priority: 1 })
+      .expect(404);
+  });
+
+  it('should roll back to an earlier version', async () => {
+    await request(app)
+      .patch('/api/routing-rules/hot-lead-immediate')
+      .send({ enabled: false })
+      .expect(200);
+
+    const response = await request(app)
+      .post('/api/routing-rules/hot-lead-immediate/rollback')
+      .send({ version: 1 })
+      .expect(200);
+
+    expect(response.body.data.enabled).toBe(true);
+    expect(agent.getRoutingRule('hot-lead-immediate')?.enabled).toBe(true);
+    await request(app)
+      .post('/api/routing-rules/hot-lead-immediate/rollback')
+      .send({ version: 9 })
+      .expect(404);
+  });
+
+  it('should dry-run a lead sent as JSON', async () => {
+    await request(app).post('/api/routing-rules').send(vipRule).expect(201);
+    const now = new Date().toISOString();
+
+    const response = await request(app)
+      .post('/api/routing-rules/dry-run')
+      .send({
+        lead: {
+          id: '550e8400-e29b-41d4-a716-446655440000',
+          source: 'referral',
+          contactInfo: {
+            name: 'Maria Souza',
+            email: 'maria@example.com',
+            preferredChannel: 'email',
+          },
+          leadType: 'warm',
+          urgencyLevel: 5,
+          intentSignals: [],
+          qualificationData: { qualificationScore: 0.9 },
+          status: 'new',
+          createdAt: now,
+          updatedAt: now,
+        },
+      })
+      .expect(200);
+
+    expect(response.body.data.matchedRuleId).toBe('vip-referral');
+    expect(response.body.data.evaluations).toHaveLength(5);
+    await request(app)
+      .post('/api/routing-rules/dry-run')
+      .send({ lead: { id: 'not-a-lead' } })
+      .expect(400);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { TranscriptApi } from '../transcript-api';
+import { TranscriptRepository } from '../../database/repositories';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+const INTERACTION_ID = '3f1e2d4c-5b6a-4789-8abc-def012345678';
+
+describe('TranscriptApi', () => {
+  let app: Express;
+  let transcripts: { search: any; findByInteraction: any };
+
+  beforeEach(() => {
+    transcripts = {
+      search: vi.fn().mockResolvedValue([]),
+      findByInteraction: vi.fn().mockResolvedValue(null),
+    };
+
+    app = express();
+    app.use(express.json());
+    new TranscriptApi(
+      transcripts as unknown as TranscriptRepository
+    ).setupRoutes(app);
+  });
+
+  it('should search transcripts with the given filters', async () => {
+    transcripts.search.mockResolvedValue([
+      {
+        interactionId: INTERACTION_ID,
+        leadId: LEAD_ID,
+        channel: 'call',
+        createdAt: new Date('2026-01-14T15:00:00.000Z'),
+        snippet: 'Is <b>financing</b> available?',
+        matchingTurns: [],
+      },
+    ]);
+
+    const response = await request(app)
+      .get(
+        `/api/transcripts/search?q=financing&channel=call&lead_id=${LEAD_ID}&limit=5`
+      )
+      .expect(200);
+
+    expect(response.body.data[0].snippet).toContain('<b>financing</b>');
+    expect(transcripts.search).toHaveBeenCalledWith('financing', {
+      leadId: LEAD_ID,
+      channel: 'call',
+      from: undefined,
+      to: undefined,
+      limit: 5,
+    });
+  });
+
+  it('should reject searches without a query', async () => {
+    const response = await request(app)
+      .get('/api/transcripts/search?channel=fax')
+      .expect(400);
+
+    expect(response.body.success).toBe(false);
+    expect(transcripts.search).not.toHaveBeenCalled();
+  });
+
+  it('should return the transcript of an interaction', async () => {
+    await request(app)
+      .get(`/api/interactions/${INTERACTION_ID}/transcript`)
+      .expect(404);
+
+    transcripts.findByInteraction.mockResolvedValue({
+      interactionId: INTERACTION_ID,
+      leadId: LEAD_ID,
+      channel: 'call',
+      turns: [],
+      redactions: 0,
+      createdAt: new Date(),
+    });
+    const response = await request(app)
+      .get(`/api/interactions/${INTERACTION_ID}/transcript`)
+      .expect(200);
+
+    expect(response.body.data.interactionId).toBe(INTERACTION_ID);
+    await request(app).get('/api/interactions/123/transcript').expect(400);
+  });
+});
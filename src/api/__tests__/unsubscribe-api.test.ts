@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { UnsubscribeApi } from '../unsubscribe-api';
+import { ConsentLedger } from '../../communication/consent-ledger';
+import { MultiChannelCommunicationManager } from '../../communication/multi-channel-manager';
+import { createUnsubscribeToken } from '../../communication/unsubscribe-links';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+const SECRET = 'unsubscribe-secret';
+
+describe('UnsubscribeApi', () => {
+  let app: Express;
+  let ledger: ConsentLedger;
+  let token: string;
+
+  beforeEach(() => {
+    ledger = new ConsentLedger({ requireOptIn: [] });
+    const manager = new MultiChannelCommunicationManager([], {
+      consentLedger: ledger,
+    });
+
+    app = express();
+    app.use(express.json());
+    new UnsubscribeApi(manager, SECRET).setupRoutes(app);
+
+    token = createUnsubscribeToken(LEAD_ID, 'email', SECRET);
+  });
+
+  it('should show a confirmation page without unsubscribing', async () => {
+    const response = await request(app).get(`/unsubscribe/${token}`).expect(200);
+
+    expect(response.headers['content-type']).toContain('text/html');
+    expect(response.text).toContain('<form method="post">');
+    expect(await ledger.getStatus(LEAD_ID, 'email')).toBe('unknown');
+  });
+
+  it('should record one-click unsubscribes in the consent ledger', async () => {
+    await request(app)
+      .post(`/unsubscribe/${token}`)
+      .type('form')
+      .set('User-Agent', 'MailClient/1.0')
+      .send('List-Unsubscribe=One-Click')
+      .expect(200);
+
+    expect(await ledger.getStatus(LEAD_ID, 'email')).toBe('revoked');
+    const [event] = await ledger.getHistory(LEAD_ID);
+    expect(event).toMatchObject({
+      channel: 'email',
+      action: 'opt_out',
+      source: 'unsubscribe_link',
+      evidence: { oneClick: true, userAgent: 'MailClient/1.0' },
+    });
+  });
+
+  it('should reject links not signed with the secret', async () => {
+    const forged = createUnsubscribeToken(LEAD_ID, 'email', 'other-secret');
+
+    await request(app).get(`/unsubscribe/${forged}`).expect(404);
+    await request(app).post(`/unsubscribe/${forged}`).expect(404);
+    expect(await ledger.getHistory(LEAD_ID)).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import express, { Express } from 'express';
+import request from 'supertest';
+import { WebhookSubscriptionsApi } from '../webhook-subscriptions-api';
+import { resolvePublicHost } from '../../utils/network-address';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../utils/network-address', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../utils/network-address')>()),
+  resolvePublicHost: vi.fn(),
+}));
+
+const SUBSCRIPTION_ID = '1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+const DELIVERY_ID = '9e8d7c6b-5a4f-4e3d-8c2b-1a0f9e8d7c6b';
+
+const subscription = {
+  id: SUBSCRIPTION_ID,
+  url: 'https://partner.example.com/hooks',
+  eventTypes: ['lead_created'],
+  secret: 'whsec_old',
+  status: 'disabled',
+  consecutiveFailures: 20,
+  disabledAt: new Date('2026-01-14T15:00:00.000Z'),
+  disabledReason: 'Disabled after 20 failed deliveries in a row',
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-14T15:00:00.000Z'),
+};
+
+describe('WebhookSubscriptionsApi', () => {
+  let app: Express;
+  let subscriptions: Record<string, ReturnType<typeof vi.fn>>;
+  let deliveries: Record<string, ReturnType<typeof vi.fn>>;
+  let dispatcher: { replay: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.mocked(resolvePublicHost).mockReset().mockResolvedValue([]);
+    subscriptions = {
+      create: vi.fn(async (created) => created),
+      findAll: vi.fn().mockResolvedValue([subscription]),
+      findById: vi.fn().mockResolvedValue(subscription),
+      save: vi.fn(async (saved) => saved),
+      delete: vi.fn().mockResolvedValue(true),
+    };
+    deliveries = {
+      findBySubscription: vi.fn().mockResolvedValue([]),
+    };
+    dispatcher = { replay: vi.fn().mockResolvedValue(null) };
+
+    app = express();
+    app.use(express.json());
+    new WebhookSubscriptionsApi(
+      subscriptions as any,
+      deliveries as any,
+      dispatcher as any
+    ).setupRoutes(app);
+  });
+
+  it('should register a subscription and hand out its signing secret once', async () => {
+    const response = await request(app)
+      .post('/api/webhooks/subscriptions')
+      .send({
+        url: 'https://crm.example.com/webhooks/leads',
+        eventTypes: ['lead_created', 'lead_routed'],
+        filter: { lead_type: ['hot', 'warm'] },
+      })
+      .expect(201);
+
+    expect(response.body.data).toMatchObject({
+      url: 'https://crm.example.com/webhooks/leads',
+      status: 'active',
+      consecutiveFailures: 0,
+      secret: expect.stringMatching(/^whsec_[0-9a-f]{48}$/),
+    });
+
+    const listed = await request(app).get('/api/webhooks/subscriptions').expect(200);
+    expect(listed.body.data[0]).not.toHaveProperty('secret');
+  });
+
+  it('should reject invalid subscriptions', async () => {
+    const response = await request(app)
+      .post('/api/webhooks/subscriptions')
+      .send({ url: 'ftp://example.com', eventTypes: ['lead_archived'] })
+      .expect(400);
+
+    expect(response.body.issues.map((issue: any) => issue.path[0])).toEqual([
+      'url',
+      'eventTypes',
+    ]);
+    expect(subscriptions.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject endpoints on loopback, private or link-local hosts', async () => {
+    for (const url of [
+      'http://169.254.169.254/latest/meta-data',
+      'http://localhost:4000/hooks',
+      'https://[::1]/hooks',
+      'https://10.1.2.3/hooks',
+    ]) {
+      const response = await request(app)
+        .post('/api/webhooks/subscriptions')
+        .send({ url, eventTypes: ['lead_created'] })
+        .expect(400);
+
+      expect(response.body.issues[0]).toMatchObject({
+        path: ['url'],
+        message:
+          'Webhook URL must not point to a loopback, private or link-local host',
+      });
+    }
+    expect(subscriptions.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject endpoints whose host resolves to a private address', async () => {
+    vi.mocked(resolvePublicHost).mockRejectedValue(
+      new Error('Host hooks.corp.example resolves to a private address (10.0.0.5)')
+    );
+
+    const created = await request(app)
+      .post('/api/webhooks/subscriptions')
+      .send({
+        url: 'https://hooks.corp.example/leads',
+        eventTypes: ['lead_created'],
+      })
+      .expect(400);
+    await request(app)
+      .patch(`/api/webhooks/subscriptions/${SUBSCRIPTION_ID}`)
+      .send({ url: 'https://hooks.corp.example/leads' })
+      .expect(400);
+
+    expect(resolvePublicHost).toHaveBeenCalledWith('hooks.corp.example');
+    expect(created.body.error).toBe(
+      'Host hooks.corp.example resolves to a private address (10.0.0.5)'
+    );
+    expect(subscriptions.create).not.toHaveBeenCalled();
+    expect(subscriptions.save).not.toHaveBeenCalled();
+  });
+
+  it('should accept endpoints whose host does not resolve yet', async () => {
+    vi.mocked(resolvePublicHost).mockRejectedValue(
+      Object.assign(new Error('getaddrinfo ENOTFOUND hooks.example.com'), {
+        code: 'ENOTFOUND',
+      })
+    );
+
+    await request(app)
+      .post('/api/webhooks/subscriptions')
+      .send({ url: 'https://hooks.example.com/leads', eventTypes: ['lead_created'] })
+      .expect(201);
+  });
+
+  it('should re-enable a disabled subscription with a clean failure count', async () => {
+    const response = await request(app)
+      .patch(`/api/webhooks/subscriptions/${SUBSCRIPTION_ID}`)
+      .send({ status: 'active' })
+      .expect(200);
+
+    expect(subscriptions.save).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'active',
+        consecutiveFailures: 0,
+        disabledAt: undefined,
+        disabledReason: undefined,
+      })
+    );
+    expect(response.body.data).not.toHaveProperty('secret');
+  });
+
+  it('should rotate the signing secret', async () => {
+    const response = await request(app)
+      .post(`/api/webhooks/subscriptions/${SUBSCRIPTION_ID}/rotate-secret`)
+      .expect(200);
+
+    expect(response.body.data.secret).toMatch(/^whsec_/);
+    expect(response.body.data.secret).not.toBe('whsec_old');
+  });
+
+  it('should list the delivery log with its filters', async () => {
+    await request(app)
+      .get(
+        `/api/webhooks/subscriptions/${SUBSCRIPTION_ID}/deliveries?status=failed&limit=10`
+      )
+      .expect(200);
+
+    expect(deliveries.findBySubscription).toHaveBeenCalledWith(SUBSCRIPTION_ID, {
+      status: 'failed',
+      limit: 10,
+    });
+
+    await request(app)
+      .get(`/api/webhooks/subscriptions/${SUBSCRIPTION_ID}/deliveries?status=lost`)
+      .expect(400);
+    await request(app)
+      .get(`/api/webhooks/subscriptions/${SUBSCRIPTION_ID}/deliveries?limit=500`)
+      .expect(400);
+  });
+
+  it('should replay failed deliveries only', async () => {
+    await request(app)
+      .post(`/api/webhooks/deliveries/${DELIVERY_ID}/replay`)
+      .expect(404);
+
+    dispatcher.replay.mockResolvedValue({ id: DELIVERY_ID, status: 'pending' });
+    const response = await request(app)
+      .post(`/api/webhooks/deliveries/${DELIVERY_ID}/replay`)
+      .expect(202);
+
+    expect(response.body.data.status).toBe('pending');
+    expect(dispatcher.replay).toHaveBeenCalledWith(DELIVERY_ID);
+  });
+
+  it('should answer 404 and 400 for unknown and malformed ids', async () => {
+    subscriptions.findById.mockResolvedValue(null);
+
+    await request(app)
+      .get(`/api/webhooks/subscriptions/${SUBSCRIPTION_ID}`)
+      .expect(404);
+    await request(app).get('/api/webhooks/subscriptions/nope').expect(400);
+  });
+});
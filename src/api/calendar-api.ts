@@ -0,0 +1,218 @@
+import express, { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { DatabaseManager } from '../database/manager';
+import {
+  AppointmentRepository,
+  withRepositories,
+} from '../database/repositories';
+import {
+  createCalendarFeedToken,
+  verifyCalendarFeedToken,
+} from '../scheduling/calendar-feed-tokens';
+import {
+  createAppointmentEvent,
+  createCalendar,
+  parseBusyBlocks,
+} from '../scheduling/ics';
+import {
+  ValidationResult,
+  generateUUID,
+  validateData,
+} from '../types/validation';
+import { logger } from '../utils/logger';
+
+// How far back the agent feed reaches, so recent cancellations still sync
+const FEED_LOOKBACK_DAYS = 30;
+
+const MAX_IMPORT_SIZE = '1mb';
+
+const AgentIdSchema = z
+  .string()
+  .min(1)
+  .max(100)
+  .regex(/^[A-Za-z0-9_.@-]+$/);
+
+export const CalendarFeedQuerySchema = z.object({
+  from: z.preprocess(
+    (value) =>
+      value === undefined || value === '' ? undefined : new Date(String(value)),
+    z.date({ invalid_type_error: 'Invalid date' }).optional()
+  ),
+});
+
+export type CalendarFeedQuery = z.infer<typeof CalendarFeedQuerySchema>;
+
+/**
+ * Calendar API - iCalendar access to agents' appointment schedules
+ *
+ * Responsibilities:
+ * - Serve a subscribable .ics feed of each agent's appointments at a
+ *   secret address, when a feed secret is configured
+ * - Import busy blocks from an uploaded .ics file; they are stored, so
+ *   every booking checks them
+ */
+export class CalendarApi {
+  private appointments: AppointmentRepository;
+
+  /**
+   * @param feedSecret - signs the feed addresses; without it no feeds are
+   *   served
+   */
+  constructor(
+    private dbManager: DatabaseManager,
+    private feedSecret?: string
+  ) {
+    this.appointments = new AppointmentRepository(dbManager);
+  }
+
+  /**
+   * Setup calendar routes
+   */
+  setupRoutes(app: Express): void {
+    if (this.feedSecret) {
+      app.get(
+        '/api/calendar/agents/:agentId/feed',
+        this.getAgentFeedAddress.bind(this)
+      );
+      app.get(
+        '/api/calendar/feeds/:token/appointments.ics',
+        this.getAgentFeed.bind(this)
+      );
+    }
+    app.post(
+      '/api/calendar/agents/:agentId/busy',
+      express.text({
+        type: ['text/calendar', 'text/plain'],
+        limit: MAX_IMPORT_SIZE,
+      }),
+      this.importBusyBlocks.bind(this)
+    );
+  }
+
+  /**
+   * Secret address of an agent's feed, to subscribe to in a calendar app
+   */
+  private getAgentFeedAddress(req: Request, res: Response): void {
+    const agentId = this.parseAgentId(req, res);
+    if (!agentId) return;
+
+    const token = createCalendarFeedToken(agentId, this.feedSecret!);
+    res.json({
+      success: true,
+      data: {
+        agentId,
+        path: `/api/calendar/feeds/${token}/appointments.ics`,
+      },
+    });
+  }
+
+  /**
+   * Appointments of an agent as an iCalendar feed
+   */
+  private async getAgentFeed(req: Request, res: Response): Promise<void> {
+    try {
+      const agentId = verifyCalendarFeedToken(
+        String(req.params.token),
+        this.feedSecret!
+      );
+      if (!agentId || !AgentIdSchema.safeParse(agentId).success) {
+        res.status(404).json({ success: false, error: 'Calendar not found' });
+        return;
+      }
+
+      const validation = validateData(
+        CalendarFeedQuerySchema,
+        req.query,
+        'Calendar feed query'
+      ) as ValidationResult<CalendarFeedQuery>;
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: validation.error.message,
+          issues: validation.issues,
+        });
+        return;
+      }
+
+      const from =
+        validation.data.from ??
+        new Date(Date.now() - FEED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+      const appointments = await this.appointments.findByAgent(agentId, from);
+
+      const calendar = createCalendar(
+        appointments.map((appointment) => createAppointmentEvent(appointment)),
+        'PUBLISH',
+        `Appointments - ${agentId}`
+      );
+
+      res
+        .status(200)
+        .type('text/calendar; charset=utf-8')
+        .set('Content-Disposition', `inline; filename="${agentId}.ics"`)
+        .send(calendar);
+    } catch (error) {
+      this.sendServerError(res, 'Error building calendar feed', error);
+    }
+  }
+
+  /**
+   * Replace an agent's busy blocks with the events of an uploaded .ics
+   * file. Recurring events are stored as their upcoming occurrences.
+   */
+  private async importBusyBlocks(req: Request, res: Response): Promise<void> {
+    try {
+      const agentId = this.parseAgentId(req, res);
+      if (!agentId) return;
+
+      if (typeof req.body !== 'string' || !req.body.includes('BEGIN:VCALENDAR')) {
+        res.status(400).json({
+          success: false,
+          error: 'Request body must be an iCalendar (text/calendar) document',
+        });
+        return;
+      }
+
+      let blocks;
+      try {
+        blocks = parseBusyBlocks(req.body);
+      } catch (error) {
+        res.status(400).json({ success: false, error: (error as Error).message });
+        return;
+      }
+
+      const importedAt = new Date();
+      await withRepositories(this.dbManager, ({ busyBlocks }) =>
+        busyBlocks.replaceForAgent(
+          agentId,
+          blocks.map((block) => ({
+            id: generateUUID(),
+            agentId,
+            start: block.start,
+            end: block.end,
+            uid: block.uid?.slice(0, 255),
+            importedAt,
+          }))
+        )
+      );
+      logger.info(`Imported ${blocks.length} busy blocks for agent ${agentId}`);
+
+      res.json({ success: true, data: { agentId, imported: blocks.length } });
+    } catch (error) {
+      this.sendServerError(res, 'Error importing busy blocks', error);
+    }
+  }
+
+  private parseAgentId(req: Request, res: Response): string | null {
+    const parsed = AgentIdSchema.safeParse(req.params.agentId);
+    if (!parsed.success) {
+      res.status(400).json({ success: false, error: 'Invalid agent ID' });
+      return null;
+    }
+    return parsed.data;
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
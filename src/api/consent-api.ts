@@ -0,0 +1,132 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { MultiChannelCommunicationManager } from '../communication/multi-channel-manager';
+import { LeadRepository } from '../database/repositories';
+import {
+  CommunicationChannelSchema,
+  ConsentActionSchema,
+  LeadConsentSchema,
+} from '../types/communication';
+import { ValidationResult, validateData, isValidUUID } from '../types/validation';
+import { logger } from '../utils/logger';
+
+// An opt-in or opt-out on one or more channels, with its proof
+export const ConsentUpdateSchema = LeadConsentSchema.extend({
+  action: ConsentActionSchema,
+});
+
+export type ConsentUpdate = z.infer<typeof ConsentUpdateSchema>;
+
+/**
+ * Consent API - the consent ledger of a lead
+ *
+ * Responsibilities:
+ * - Show the current consent per channel and the full history behind it
+ * - Record opt-ins and opt-outs collected outside the platform, e.g. on a
+ *   partner's form or by phone, with their source and evidence
+ *
+ * Changes go through the communication manager, so the lead's channel
+ * preferences follow the ledger.
+ */
+export class ConsentApi {
+  private communicationManager: MultiChannelCommunicationManager;
+  private leads: LeadRepository;
+
+  constructor(
+    communicationManager: MultiChannelCommunicationManager,
+    leads: LeadRepository
+  ) {
+    this.communicationManager = communicationManager;
+    this.leads = leads;
+  }
+
+  /**
+   * Setup consent routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/leads/:id/consent', this.getConsent.bind(this));
+    app.post('/api/leads/:id/consent', this.recordConsent.bind(this));
+  }
+
+  private async getConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const id = await this.findLeadId(req, res);
+      if (!id) return;
+
+      res.json({ success: true, data: await this.describeConsent(id) });
+    } catch (error) {
+      this.sendServerError(res, 'Error fetching consent', error);
+    }
+  }
+
+  private async recordConsent(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateData(
+        ConsentUpdateSchema,
+        req.body,
+        'Consent validation'
+      ) as ValidationResult<ConsentUpdate>;
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: validation.error.message,
+          issues: validation.issues,
+        });
+        return;
+      }
+
+      const id = await this.findLeadId(req, res);
+      if (!id) return;
+
+      const { action, channels, source, evidence } = validation.data;
+      for (const channel of channels) {
+        if (action === 'opt_in') {
+          await this.communicationManager.optInToChannel(id, channel, {
+            source,
+            evidence,
+          });
+        } else {
+          await this.communicationManager.optOutFromChannel(id, channel, {
+            source,
+            evidence,
+          });
+        }
+      }
+      logger.info(`Recorded ${action} of lead ${id} on ${channels.join(', ')}`);
+
+      res.status(201).json({ success: true, data: await this.describeConsent(id) });
+    } catch (error) {
+      this.sendServerError(res, 'Error recording consent', error);
+    }
+  }
+
+  /**
+   * Consent status per channel and the events it comes from
+   */
+  private async describeConsent(leadId: string) {
+    const ledger = this.communicationManager.getConsentLedger();
+    const channels: Record<string, string> = {};
+    for (const channel of CommunicationChannelSchema.options) {
+      channels[channel] = await ledger.getStatus(leadId, channel);
+    }
+    return { channels, history: await ledger.getHistory(leadId) };
+  }
+
+  private async findLeadId(req: Request, res: Response): Promise<string | null> {
+    const id = String(req.params.id);
+    if (!isValidUUID(id)) {
+      res.status(400).json({ success: false, error: 'Invalid lead ID' });
+      return null;
+    }
+    if (!(await this.leads.findById(id))) {
+      res.status(404).json({ success: false, error: 'Lead not found' });
+      return null;
+    }
+    return id;
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
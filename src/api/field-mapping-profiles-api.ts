@@ -0,0 +1,231 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { FieldMappingProfileRepository } from '../database/repositories';
+import {
+  FieldMappingProfile,
+  FieldMappingValidation,
+  MappingIntegrationSchema,
+} from '../types/field-mapping';
+import { generateUUID, isValidUUID } from '../types/validation';
+import { applyFieldMappingProfile } from '../ingestion/field-mapping';
+import { logger } from '../utils/logger';
+
+/**
+ * Field Mapping Profiles API - how Zapier, Integromat and generic webhook
+ * payloads become leads
+ *
+ * Responsibilities:
+ * - Create, edit and delete the profiles senders select per request
+ * - Try a profile on a sample payload: the normalized lead it gives and
+ *   the validation errors, without creating anything
+ */
+export class FieldMappingProfilesApi {
+  constructor(private profiles: FieldMappingProfileRepository) {}
+
+  /**
+   * Setup field mapping profile routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/field-mapping-profiles', this.listProfiles.bind(this));
+    app.post('/api/field-mapping-profiles', this.createProfile.bind(this));
+    app.get('/api/field-mapping-profiles/:id', this.getProfile.bind(this));
+    app.patch('/api/field-mapping-profiles/:id', this.updateProfile.bind(this));
+    app.delete(
+      '/api/field-mapping-profiles/:id',
+      this.deleteProfile.bind(this)
+    );
+    app.post(
+      '/api/field-mapping-profiles/:id/test',
+      this.testProfile.bind(this)
+    );
+  }
+
+  private async listProfiles(req: Request, res: Response): Promise<void> {
+    const integration = MappingIntegrationSchema.optional().safeParse(
+      req.query.integration
+    );
+    if (!integration.success) {
+      this.sendValidationError(
+        res,
+        'Invalid integration',
+        integration.error.issues
+      );
+      return;
+    }
+
+    try {
+      const profiles = await this.profiles.findAll(integration.data);
+      res.json({ success: true, data: profiles });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to list field mapping profiles', error);
+    }
+  }
+
+  private async createProfile(req: Request, res: Response): Promise<void> {
+    const validation = FieldMappingValidation.validateCreateProfile(req.body);
+    if (!validation.success) {
+      this.sendValidationError(res, validation.error.message, validation.issues);
+      return;
+    }
+
+    try {
+      const { integration, name } = validation.data;
+      if (await this.profiles.findByName(integration, name)) {
+        this.sendNameTaken(res, integration, name);
+        return;
+      }
+
+      const now = new Date();
+      const profile = await this.profiles.create({
+        ...validation.data,
+        id: generateUUID(),
+        createdAt: now,
+        updatedAt: now,
+      });
+      res.status(201).json({ success: true, data: profile });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to create field mapping profile', error);
+    }
+  }
+
+  private async getProfile(req: Request, res: Response): Promise<void> {
+    const profile = await this.findProfile(req, res);
+    if (!profile) return;
+
+    res.json({ success: true, data: profile });
+  }
+
+  private async updateProfile(req: Request, res: Response): Promise<void> {
+    const validation = FieldMappingValidation.validateUpdateProfile(req.body);
+    if (!validation.success) {
+      this.sendValidationError(res, validation.error.message, validation.issues);
+      return;
+    }
+
+    const profile = await this.findProfile(req, res);
+    if (!profile) return;
+
+    try {
+      const updated: FieldMappingProfile = { ...profile, ...validation.data };
+      if (updated.name !== profile.name) {
+        const existing = await this.profiles.findByName(
+          updated.integration,
+          updated.name
+        );
+        if (existing) {
+          this.sendNameTaken(res, updated.integration, updated.name);
+          return;
+        }
+      }
+
+      const saved = await this.profiles.save(updated);
+      if (!saved) {
+        this.sendNotFound(res);
+        return;
+      }
+      res.json({ success: true, data: saved });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to update field mapping profile', error);
+    }
+  }
+
+  private async deleteProfile(req: Request, res: Response): Promise<void> {
+    if (!this.hasValidId(req, res)) return;
+
+    try {
+      const deleted = await this.profiles.delete(String(req.params.id));
+      if (!deleted) {
+        this.sendNotFound(res);
+        return;
+      }
+      res.json({
+        success: true,
+        message: 'Field mapping profile deleted successfully',
+      });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to delete field mapping profile', error);
+    }
+  }
+
+  /**
+   * Map the request body, a sample payload, with the profile
+   */
+  private async testProfile(req: Request, res: Response): Promise<void> {
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      res.status(400).json({
+        success: false,
+        error: 'The test payload must be a JSON object',
+      });
+      return;
+    }
+
+    const profile = await this.findProfile(req, res);
+    if (!profile) return;
+
+    try {
+      const result = applyFieldMappingProfile(profile, req.body);
+      res.json({
+        success: true,
+        data: { valid: result.errors.length === 0, ...result },
+      });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to test field mapping profile', error);
+    }
+  }
+
+  /**
+   * The profile named in the path, or null once a 400 or 404 has been sent
+   */
+  private async findProfile(
+    req: Request,
+    res: Response
+  ): Promise<FieldMappingProfile | null> {
+    if (!this.hasValidId(req, res)) return null;
+
+    try {
+      const profile = await this.profiles.findById(String(req.params.id));
+      if (!profile) {
+        this.sendNotFound(res);
+      }
+      return profile;
+    } catch (error) {
+      this.sendServerError(res, 'Failed to load field mapping profile', error);
+      return null;
+    }
+  }
+
+  private hasValidId(req: Request, res: Response): boolean {
+    if (!isValidUUID(String(req.params.id))) {
+      res.status(400).json({ success: false, error: 'Invalid profile ID' });
+      return false;
+    }
+    return true;
+  }
+
+  private sendNotFound(res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: 'Field mapping profile not found',
+    });
+  }
+
+  private sendNameTaken(res: Response, integration: string, name: string): void {
+    res.status(409).json({
+      success: false,
+      error: `A ${integration} mapping profile named ${name} already exists`,
+    });
+  }
+
+  private sendValidationError(
+    res: Response,
+    message: string,
+    issues: z.ZodIssue[]
+  ): void {
+    res.status(400).json({ success: false, error: message, issues });
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
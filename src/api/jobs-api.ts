@@ -0,0 +1,71 @@
+import { Express, Request, Response } from 'express';
+import { JobQueue } from '../jobs';
+import { isValidUUID } from '../types/validation';
+import { logger } from '../utils/logger';
+
+// Upper bound for the dead-letter listing
+const MAX_DEAD_LETTER_LIMIT = 200;
+
+/**
+ * Jobs API - the dead-letter queue of the job queue
+ *
+ * Responsibilities:
+ * - List jobs that ran out of attempts, with their last error
+ * - Run a dead job again once the cause is fixed
+ */
+export class JobsApi {
+  constructor(private jobs: JobQueue) {}
+
+  /**
+   * Setup job routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/jobs/dead-letters', this.getDeadLetters.bind(this));
+    app.post('/api/jobs/:id/retry', this.retryJob.bind(this));
+  }
+
+  private async getDeadLetters(req: Request, res: Response): Promise<void> {
+    const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DEAD_LETTER_LIMIT) {
+      res.status(400).json({
+        success: false,
+        error: `limit must be between 1 and ${MAX_DEAD_LETTER_LIMIT}`,
+      });
+      return;
+    }
+
+    try {
+      const jobs = await this.jobs.getDeadLetters(limit);
+      res.json({ success: true, data: jobs });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to list dead-letter jobs', error);
+    }
+  }
+
+  private async retryJob(req: Request, res: Response): Promise<void> {
+    const jobId = String(req.params.id);
+    if (!isValidUUID(jobId)) {
+      res.status(400).json({ success: false, error: 'Invalid job ID' });
+      return;
+    }
+
+    try {
+      const job = await this.jobs.retryDeadLetter(jobId);
+      if (!job) {
+        res.status(404).json({
+          success: false,
+          error: 'Job not found in the dead-letter queue',
+        });
+        return;
+      }
+      res.json({ success: true, data: job });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to retry job', error);
+    }
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,346 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { AgentRoster } from '../assignment/agent-roster';
+import { LeadAssignmentManager } from '../assignment/lead-assignment-manager';
+import type { LeadRepository } from '../database/repositories';
+import {
+  AssignmentStrategySchema,
+  SalesAgent,
+  SalesAgentValidation,
+} from '../types/sales-agent';
+import { isValidUUID, validateData } from '../types/validation';
+import { logger } from '../utils/logger';
+
+export const AssignLeadRequestSchema = z
+  .object({
+    strategy: AssignmentStrategySchema.optional(),
+    agentId: z.string().min(1).optional(),
+    language: z.string().min(1).optional(),
+  })
+  .refine((body) => body.strategy !== 'manual' || body.agentId, {
+    message: 'Manual assignment requires an agent ID',
+    path: ['agentId'],
+  });
+
+export const AssignmentResponseSchema = z.object({
+  agentId: z.string().min(1, 'Agent ID is required'),
+});
+
+/**
+ * Lead Assignment API - the sales team roster and the leads handed to it
+ *
+ * Responsibilities:
+ * - Manage sales agents: skills, capacity, working hours, out-of-office
+ * - Assign leads automatically or manually and show their assignments
+ * - Let agents accept or decline the leads assigned to them
+ *
+ * Changes are attributed to the X-Changed-By header when present.
+ */
+export class LeadAssignmentApi {
+  constructor(
+    private roster: AgentRoster,
+    private manager: LeadAssignmentManager,
+    private leads: LeadRepository
+  ) {}
+
+  /**
+   * Setup roster and assignment routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/sales-agents', this.listAgents.bind(this));
+    app.post('/api/sales-agents', this.createAgent.bind(this));
+    app.get('/api/sales-agents/:id', this.getAgent.bind(this));
+    app.patch('/api/sales-agents/:id', this.updateAgent.bind(this));
+    app.delete('/api/sales-agents/:id', this.deleteAgent.bind(this));
+    app.get('/api/leads/:id/assignments', this.getLeadAssignments.bind(this));
+    app.post('/api/leads/:id/assignments', this.assignLead.bind(this));
+    app.delete('/api/leads/:id/assignments', this.releaseLead.bind(this));
+    app.post('/api/assignments/:id/accept', this.acceptAssignment.bind(this));
+    app.post('/api/assignments/:id/decline', this.declineAssignment.bind(this));
+  }
+
+  private async listAgents(_req: Request, res: Response): Promise<void> {
+    try {
+      const agents = await Promise.all(
+        this.roster.getAgents().map((agent) => this.withStatus(agent))
+      );
+      res.json({ success: true, data: agents });
+    } catch (error) {
+      this.sendServerError(res, 'Error fetching sales agents', error);
+    }
+  }
+
+  private async getAgent(req: Request, res: Response): Promise<void> {
+    try {
+      const agent = this.roster.getAgent(String(req.params.id));
+      if (!agent) {
+        this.sendAgentNotFound(res);
+        return;
+      }
+      res.json({ success: true, data: await this.withStatus(agent) });
+    } catch (error) {
+      this.sendServerError(res, 'Error fetching sales agent', error);
+    }
+  }
+
+  private async createAgent(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = SalesAgentValidation.validateCreateSalesAgent(req.body);
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+      if (this.roster.getAgent(validation.data.id)) {
+        res.status(409).json({
+          success: false,
+          error: `Sales agent ${validation.data.id} already exists`,
+        });
+        return;
+      }
+
+      const agent = await this.roster.addAgent(validation.data);
+      res.status(201).json({ success: true, data: agent });
+    } catch (error) {
+      this.sendServerError(res, 'Error creating sales agent', error);
+    }
+  }
+
+  private async updateAgent(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = SalesAgentValidation.validateUpdateSalesAgent(req.body);
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+
+      const agent = await this.roster.updateAgent(
+        String(req.params.id),
+        validation.data
+      );
+      if (!agent) {
+        this.sendAgentNotFound(res);
+        return;
+      }
+      res.json({ success: true, data: agent });
+    } catch (error) {
+      this.sendServerError(res, 'Error updating sales agent', error);
+    }
+  }
+
+  private async deleteAgent(req: Request, res: Response): Promise<void> {
+    try {
+      const agentId = String(req.params.id);
+      if ((await this.manager.getOpenAssignments(agentId)).length > 0) {
+        res.status(409).json({
+          success: false,
+          error: 'Sales agent still has open assignments; deactivate them instead',
+        });
+        return;
+      }
+
+      if (!(await this.roster.removeAgent(agentId))) {
+        this.sendAgentNotFound(res);
+        return;
+      }
+      res.json({ success: true, message: 'Sales agent deleted successfully' });
+    } catch (error) {
+      this.sendServerError(res, 'Error deleting sales agent', error);
+    }
+  }
+
+  private async getLeadAssignments(req: Request, res: Response): Promise<void> {
+    try {
+      const leadId = this.parseLeadId(req, res);
+      if (!leadId) return;
+
+      const assignments = await this.manager.getLeadAssignments(leadId);
+      res.json({ success: true, data: assignments });
+    } catch (error) {
+      this.sendServerError(res, 'Error fetching lead assignments', error);
+    }
+  }
+
+  private async assignLead(req: Request, res: Response): Promise<void> {
+    try {
+      const leadId = this.parseLeadId(req, res);
+      if (!leadId) return;
+
+      const validation = validateData(
+        AssignLeadRequestSchema,
+        req.body ?? {},
+        'Assign lead validation'
+      );
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+      const { strategy, agentId, language } = validation.data;
+
+      const lead = await this.leads.findById(leadId);
+      if (!lead) {
+        res.status(404).json({ success: false, error: 'Lead not found' });
+        return;
+      }
+
+      const open = await this.manager.getOpenAssignment(leadId);
+      if (open) {
+        res.status(409).json({
+          success: false,
+          error: `Lead is already assigned to ${open.agentId}`,
+        });
+        return;
+      }
+      if (strategy === 'manual') {
+        const agent = this.roster.getAgent(agentId!);
+        if (!agent || !agent.active) {
+          this.sendValidationError(
+            res,
+            `Sales agent ${agentId} is not on the active roster`,
+            []
+          );
+          return;
+        }
+      }
+
+      const assignment = await this.manager.assignLead(lead, {
+        strategy,
+        agentId,
+        language,
+        assignedBy: req.get('x-changed-by'),
+      });
+      if (!assignment) {
+        res.status(409).json({
+          success: false,
+          error: 'No eligible sales agent is available',
+        });
+        return;
+      }
+      res.status(201).json({ success: true, data: assignment });
+    } catch (error) {
+      this.sendServerError(res, 'Error assigning lead', error);
+    }
+  }
+
+  private async releaseLead(req: Request, res: Response): Promise<void> {
+    try {
+      const leadId = this.parseLeadId(req, res);
+      if (!leadId) return;
+
+      const released = await this.manager.releaseLead(
+        leadId,
+        req.get('x-changed-by')
+      );
+      if (!released) {
+        res.status(404).json({
+          success: false,
+          error: 'Lead has no open assignment',
+        });
+        return;
+      }
+      res.json({ success: true, message: 'Lead released successfully' });
+    } catch (error) {
+      this.sendServerError(res, 'Error releasing lead', error);
+    }
+  }
+
+  private async acceptAssignment(req: Request, res: Response): Promise<void> {
+    try {
+      const agentId = await this.checkPendingAssignment(req, res);
+      if (!agentId) return;
+
+      const assignment = await this.manager.acceptAssignment(
+        String(req.params.id),
+        agentId
+      );
+      res.json({ success: true, data: assignment });
+    } catch (error) {
+      this.sendServerError(res, 'Error accepting assignment', error);
+    }
+  }
+
+  private async declineAssignment(req: Request, res: Response): Promise<void> {
+    try {
+      const agentId = await this.checkPendingAssignment(req, res);
+      if (!agentId) return;
+
+      // The new assignment, or null when the lead is left unassigned
+      const reassignment = await this.manager.declineAssignment(
+        String(req.params.id),
+        agentId
+      );
+      res.json({ success: true, data: reassignment });
+    } catch (error) {
+      this.sendServerError(res, 'Error declining assignment', error);
+    }
+  }
+
+  /**
+   * The responding agent, once the assignment is known to be theirs and
+   * still pending; otherwise the error response has been sent
+   */
+  private async checkPendingAssignment(
+    req: Request,
+    res: Response
+  ): Promise<string | null> {
+    const validation = validateData(
+      AssignmentResponseSchema,
+      req.body ?? {},
+      'Assignment response validation'
+    );
+    if (!validation.success) {
+      this.sendValidationError(res, validation.error.message, validation.issues);
+      return null;
+    }
+
+    const assignment = await this.manager.getAssignment(String(req.params.id));
+    if (!assignment || assignment.status !== 'pending') {
+      res.status(404).json({
+        success: false,
+        error: 'Pending assignment not found',
+      });
+      return null;
+    }
+    if (assignment.agentId !== validation.data.agentId) {
+      res.status(403).json({
+        success: false,
+        error: 'Assignment belongs to another sales agent',
+      });
+      return null;
+    }
+    return validation.data.agentId;
+  }
+
+  private async withStatus(agent: SalesAgent) {
+    return {
+      ...agent,
+      openLeads: (await this.manager.getOpenAssignments(agent.id)).length,
+      unavailableReason: this.roster.getUnavailableReason(agent.id),
+    };
+  }
+
+  private parseLeadId(req: Request, res: Response): string | null {
+    const id = String(req.params.id);
+    if (!isValidUUID(id)) {
+      res.status(400).json({ success: false, error: 'Invalid lead ID' });
+      return null;
+    }
+    return id;
+  }
+
+  private sendAgentNotFound(res: Response): void {
+    res.status(404).json({ success: false, error: 'Sales agent not found' });
+  }
+
+  private sendValidationError(
+    res: Response,
+    message: string,
+    issues: z.ZodIssue[]
+  ): void {
+    res.status(400).json({ success: false, error: message, issues });
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,412 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import {
+  DatabaseManager,
+  LeadListFilters,
+  LeadPayload,
+  decodeLeadCursor,
+} from '../database/manager';
+import {
+  AuditLogRepository,
+  ConsentRepository,
+  LeadTimelineRepository,
+  DEFAULT_TIMELINE_LIMIT,
+} from '../database/repositories';
+import { ConsentLedger } from '../communication/consent-ledger';
+import { LeadConsentSchema } from '../types/communication';
+import {
+  CreateLeadSchema,
+  UpdateLeadSchema,
+  UpdateLead,
+  LeadSourceSchema,
+  LeadStatus,
+  LeadStatusSchema,
+  LeadTypeSchema,
+  LeadValidation,
+} from '../types/lead';
+import {
+  ValidationResult,
+  validateData,
+  isValidUUID,
+} from '../types/validation';
+import { logger } from '../utils/logger';
+
+/**
+ * Comma-separated query values (?status=new,contacted) or repeated keys
+ * (?status=new&status=contacted) both end up as a string array
+ */
+const listParam = <T extends z.ZodTypeAny>(item: T) =>
+  z.preprocess((value) => {
+    if (value === undefined || value === '') return undefined;
+    const values = Array.isArray(value) ? value : [value];
+    return values
+      .flatMap((entry) => String(entry).split(','))
+      .map((entry) => entry.trim())
+      .filter(Boolean);
+  }, z.array(item).optional());
+
+const dateParam = z.preprocess(
+  (value) => (value === undefined || value === '' ? undefined : new Date(String(value))),
+  z.date({ invalid_type_error: 'Invalid date' }).optional()
+);
+
+export const LeadListQuerySchema = z
+  .object({
+    status: listParam(LeadStatusSchema),
+    lead_type: listParam(LeadTypeSchema),
+    source: listParam(LeadSourceSchema),
+    assigned_agent: listParam(z.string().min(1)),
+    created_from: dateParam,
+    created_to: dateParam,
+    q: z.string().trim().max(100).optional(),
+    cursor: z
+      .string()
+      .optional()
+      .refine((cursor) => !cursor || decodeLeadCursor(cursor) !== null, {
+        message: 'Invalid pagination cursor',
+      }),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+  })
+  .refine(
+    (query) =>
+      !query.created_from ||
+      !query.created_to ||
+      query.created_from <= query.created_to,
+    { message: 'created_from must be before or equal to created_to' }
+  );
+
+export type LeadListQuery = z.infer<typeof LeadListQuerySchema>;
+
+export const LeadTimelineQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).default(DEFAULT_TIMELINE_LIMIT),
+});
+
+export type LeadTimelineQuery = z.infer<typeof LeadTimelineQuerySchema>;
+
+// A new lead, with the opt-in the lead gave where it was captured
+export const CreateLeadRequestSchema = CreateLeadSchema.extend({
+  consent: LeadConsentSchema.optional(),
+});
+
+export type CreateLeadRequest = z.infer<typeof CreateLeadRequestSchema>;
+
+const API_AGENT_ID = 'leads-api';
+
+/**
+ * Map the camelCase lead input to the snake_case columns of the leads table
+ */
+export function toLeadPayload(input: UpdateLead): Partial<LeadPayload> {
+  const payload: Partial<LeadPayload> = {
+    source: input.source,
+    lead_type: input.leadType,
+    urgency_level: input.urgencyLevel,
+    intent_signals: input.intentSignals,
+    status: input.status,
+    assigned_agent: input.assignedAgent,
+  };
+
+  if (input.contactInfo) {
+    payload.name = input.contactInfo.name;
+    payload.email = input.contactInfo.email;
+    payload.phone = input.contactInfo.phone;
+    payload.preferred_channel = input.contactInfo.preferredChannel;
+    payload.timezone = input.contactInfo.timezone;
+  }
+
+  if (input.qualificationData) {
+    payload.budget_min = input.qualificationData.budget?.min;
+    payload.budget_max = input.qualificationData.budget?.max;
+    payload.location = input.qualificationData.location;
+    payload.property_type = input.qualificationData.propertyType;
+    payload.timeline = input.qualificationData.timeline;
+    payload.qualification_score = input.qualificationData.qualificationScore;
+  }
+
+  return payload;
+}
+
+/**
+ * Leads API - REST resource for creating, browsing and maintaining leads
+ *
+ * Responsibilities:
+ * - Validate request bodies against the lead domain schemas
+ * - Filter, search and paginate the lead list
+ * - Enforce lead status transition rules on updates and audit status changes
+ * - Serve the chronological timeline of a lead
+ */
+export class LeadsApi {
+  private auditLogs: AuditLogRepository;
+  private timeline: LeadTimelineRepository;
+
+  constructor(private dbManager: DatabaseManager) {
+    this.auditLogs = new AuditLogRepository(dbManager);
+    this.timeline = new LeadTimelineRepository(dbManager);
+  }
+
+  /**
+   * Setup lead routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/leads', this.listLeads.bind(this));
+    app.post('/api/leads', this.createLead.bind(this));
+    app.get('/api/leads/:id', this.getLead.bind(this));
+    app.get('/api/leads/:id/timeline', this.getTimeline.bind(this));
+    app.patch('/api/leads/:id', this.updateLead.bind(this));
+    app.delete('/api/leads/:id', this.deleteLead.bind(this));
+  }
+
+  /**
+   * List leads with filters, search and cursor pagination
+   */
+  private async listLeads(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateData(
+        LeadListQuerySchema,
+        req.query,
+        'Lead list query'
+      ) as ValidationResult<LeadListQuery>;
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+
+      const query = validation.data;
+      const filters: LeadListFilters = {
+        status: query.status,
+        lead_type: query.lead_type,
+        source: query.source,
+        assigned_agent: query.assigned_agent,
+        created_from: query.created_from,
+        created_to: query.created_to,
+        search: query.q,
+        cursor: query.cursor,
+        limit: query.limit,
+      };
+
+      const page = await this.dbManager.listLeads(filters);
+
+      res.json({
+        success: true,
+        leads: page.leads,
+        pagination: {
+          limit: query.limit,
+          nextCursor: page.nextCursor,
+          hasMore: page.nextCursor !== null,
+        },
+      });
+    } catch (error) {
+      this.sendServerError(res, 'Error listing leads', error);
+    }
+  }
+
+  /**
+   * Create a new lead. Consent sent with it is recorded in the consent
+   * ledger in the same transaction.
+   */
+  private async createLead(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateData(
+        CreateLeadRequestSchema,
+        req.body,
+        'Create lead validation'
+      ) as ValidationResult<CreateLeadRequest>;
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+
+      const { consent, ...input } = validation.data;
+      const payload = toLeadPayload(input) as LeadPayload;
+      const lead = consent
+        ? await this.dbManager.transaction(async (client) => {
+            const created = await this.dbManager.createLead(payload, client);
+            await new ConsentLedger({
+              repository: new ConsentRepository(client),
+            }).recordLeadConsent(created.id, consent);
+            return created;
+          })
+        : await this.dbManager.createLead(payload);
+
+      res.status(201).json({ success: true, id: lead.id, data: lead });
+    } catch (error) {
+      this.sendServerError(res, 'Error saving lead', error);
+    }
+  }
+
+  /**
+   * Get a single lead
+   */
+  private async getLead(req: Request, res: Response): Promise<void> {
+    try {
+      const id = this.parseLeadId(req, res);
+      if (!id) return;
+
+      const lead = await this.dbManager.getLeadById(id);
+      if (!lead) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.json({ success: true, data: lead });
+    } catch (error) {
+      this.sendServerError(res, 'Error fetching lead', error);
+    }
+  }
+
+  /**
+   * Interactions, status changes and appointments of a lead, oldest first
+   */
+  private async getTimeline(req: Request, res: Response): Promise<void> {
+    try {
+      const id = this.parseLeadId(req, res);
+      if (!id) return;
+
+      const validation = validateData(
+        LeadTimelineQuerySchema,
+        req.query,
+        'Lead timeline query'
+      ) as ValidationResult<LeadTimelineQuery>;
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+
+      const lead = await this.dbManager.getLeadById(id);
+      if (!lead) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      const timeline = await this.timeline.findByLead(id, validation.data.limit);
+
+      res.json({ success: true, data: timeline });
+    } catch (error) {
+      this.sendServerError(res, 'Error fetching lead timeline', error);
+    }
+  }
+
+  /**
+   * Partially update a lead
+   */
+  private async updateLead(req: Request, res: Response): Promise<void> {
+    try {
+      const id = this.parseLeadId(req, res);
+      if (!id) return;
+
+      const validation = validateData(
+        UpdateLeadSchema.strict(),
+        req.body,
+        'Update lead validation'
+      ) as ValidationResult<UpdateLead>;
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+
+      const existing = await this.dbManager.getLeadById(id);
+      if (!existing) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      const updates = validation.data;
+      if (
+        updates.status &&
+        updates.status !== existing.status &&
+        !LeadValidation.isValidStatusTransition(
+          (existing.status || 'new') as LeadStatus,
+          updates.status
+        )
+      ) {
+        res.status(409).json({
+          success: false,
+          error: `Invalid status transition from ${existing.status} to ${updates.status}`,
+        });
+        return;
+      }
+
+      const lead = await this.dbManager.updateLead(id, toLeadPayload(updates));
+      if (!lead) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      if (updates.status && updates.status !== existing.status) {
+        await this.auditStatusChange(id, existing.status, updates.status);
+      }
+
+      res.json({ success: true, data: lead });
+    } catch (error) {
+      this.sendServerError(res, 'Error updating lead', error);
+    }
+  }
+
+  /**
+   * Delete a lead
+   */
+  private async deleteLead(req: Request, res: Response): Promise<void> {
+    try {
+      const id = this.parseLeadId(req, res);
+      if (!id) return;
+
+      const deleted = await this.dbManager.deleteLead(id);
+      if (!deleted) {
+        this.sendNotFound(res);
+        return;
+      }
+
+      res.json({ success: true, message: 'Lead deleted successfully' });
+    } catch (error) {
+      this.sendServerError(res, 'Error deleting lead', error);
+    }
+  }
+
+  /**
+   * Record a status change so it shows up in the lead timeline. A failed
+   * audit write is logged but does not fail the update.
+   */
+  private async auditStatusChange(
+    leadId: string,
+    from: string | undefined,
+    to: LeadStatus
+  ): Promise<void> {
+    try {
+      await this.auditLogs.create({
+        entityType: 'lead',
+        entityId: leadId,
+        action: 'update',
+        changes: { status: { old: from ?? null, new: to } },
+        agentId: API_AGENT_ID,
+        timestamp: new Date(),
+      });
+    } catch (error) {
+      logger.error('Failed to audit lead status change', error as Error);
+    }
+  }
+
+  private parseLeadId(req: Request, res: Response): string | null {
+    const id = String(req.params.id);
+    if (!isValidUUID(id)) {
+      res.status(400).json({ success: false, error: 'Invalid lead ID' });
+      return null;
+    }
+    return id;
+  }
+
+  private sendNotFound(res: Response): void {
+    res.status(404).json({ success: false, error: 'Lead not found' });
+  }
+
+  private sendValidationError(
+    res: Response,
+    message: string,
+    issues: z.ZodIssue[]
+  ): void {
+    res.status(400).json({ success: false, error: message, issues });
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
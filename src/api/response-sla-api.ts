@@ -0,0 +1,122 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { ResponseSlaEngine } from '../monitoring/response-sla-engine';
+import { SlaReportGroupingSchema } from '../types/response-sla';
+import { isValidTimezone, isValidUUID, validateData } from '../types/validation';
+import { logger } from '../utils/logger';
+
+const DEFAULT_REPORT_DAYS = 7;
+
+export const SlaReportQuerySchema = z
+  .object({
+    group_by: SlaReportGroupingSchema.default('source'),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    timezone: z.string().default('UTC').refine(isValidTimezone, {
+      message: 'Invalid timezone',
+    }),
+  })
+  .refine((query) => !query.from || !query.to || query.from < query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+type SlaReportQueryParams = z.infer<typeof SlaReportQuerySchema>;
+
+/**
+ * Response SLA API - how quickly leads get their first outbound touch
+ *
+ * Responsibilities:
+ * - Report SLA compliance per source, agent or hour of day
+ * - List the leads still waiting for a first touch
+ * - Show the SLA timer of a single lead
+ */
+export class ResponseSlaApi {
+  constructor(private engine: ResponseSlaEngine) {}
+
+  /**
+   * Setup response SLA routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/sla/report', this.getReport.bind(this));
+    app.get('/api/sla/open', this.getOpenTimers.bind(this));
+    app.get('/api/leads/:id/sla', this.getLeadSla.bind(this));
+  }
+
+  private async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateData(
+        SlaReportQuerySchema,
+        req.query,
+        'SLA report query validation'
+      );
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: validation.error.message,
+          issues: validation.issues,
+        });
+        return;
+      }
+
+      const query = validation.data as SlaReportQueryParams;
+      const to = query.to ?? new Date();
+      const from =
+        query.from ??
+        new Date(to.getTime() - DEFAULT_REPORT_DAYS * 24 * 60 * 60 * 1000);
+      const report = await this.engine.getComplianceReport({
+        from,
+        to,
+        groupBy: query.group_by,
+        timezone: query.timezone,
+      });
+
+      res.json({ success: true, data: report });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to build SLA report', error);
+    }
+  }
+
+  private async getOpenTimers(_req: Request, res: Response): Promise<void> {
+    try {
+      const now = new Date();
+      const timers = await this.engine.getUntouched();
+      res.json({
+        success: true,
+        data: timers.map((timer) => ({
+          ...timer,
+          overdue: now >= timer.dueAt,
+        })),
+      });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to list open SLA timers', error);
+    }
+  }
+
+  private async getLeadSla(req: Request, res: Response): Promise<void> {
+    const leadId = String(req.params.id);
+    if (!isValidUUID(leadId)) {
+      res.status(400).json({ success: false, error: 'Invalid lead ID' });
+      return;
+    }
+
+    try {
+      const record = await this.engine.getLeadSla(leadId);
+      if (!record) {
+        res.status(404).json({
+          success: false,
+          error: 'No response SLA for this lead',
+        });
+        return;
+      }
+      res.json({ success: true, data: record });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to get lead SLA', error);
+    }
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
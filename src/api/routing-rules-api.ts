@@ -0,0 +1,231 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { AIHeadAgent } from '../agents/ai-head-agent';
+import { LeadSchema } from '../types/lead';
+import {
+  RoutingRuleDefinitionSchema,
+  RoutingRuleValidation,
+} from '../types/routing-rule';
+import { ValidationResult, validateData } from '../types/validation';
+import { logger } from '../utils/logger';
+
+const API_CHANGED_BY = 'routing-rules-api';
+
+export const UpdateRoutingRuleSchema = RoutingRuleDefinitionSchema.omit({
+  id: true,
+})
+  .partial()
+  .refine((updates) => Object.keys(updates).length > 0, {
+    message: 'At least one field must be updated',
+  });
+
+export const RollbackRequestSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+// Leads as returned by the leads API, with dates as ISO strings
+export const DryRunRequestSchema = z.object({
+  lead: LeadSchema.extend({
+    createdAt: z.coerce.date(),
+    updatedAt: z.coerce.date(),
+  }),
+});
+
+export type DryRunRequest = z.infer<typeof DryRunRequestSchema>;
+
+/**
+ * Routing Rules API - the rule editor of the AI Head Agent
+ *
+ * Responsibilities:
+ * - Create, read, update and delete routing rules
+ * - Show the version history of a rule and roll back to an earlier version
+ * - Dry-run routing: which rule a lead would hit, without routing it
+ *
+ * Changes are attributed to the X-Changed-By header when present.
+ */
+export class RoutingRulesApi {
+  constructor(private agent: AIHeadAgent) {}
+
+  /**
+   * Setup routing rule routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/routing-rules', this.listRules.bind(this));
+    app.post('/api/routing-rules', this.createRule.bind(this));
+    app.post('/api/routing-rules/dry-run', this.dryRun.bind(this));
+    app.get('/api/routing-rules/:id', this.getRule.bind(this));
+    app.patch('/api/routing-rules/:id', this.updateRule.bind(this));
+    app.delete('/api/routing-rules/:id', this.deleteRule.bind(this));
+    app.get('/api/routing-rules/:id/versions', this.getVersions.bind(this));
+    app.post('/api/routing-rules/:id/rollback', this.rollback.bind(this));
+  }
+
+  private listRules(_req: Request, res: Response): void {
+    const rules = this.agent.getRoutingConfiguration().routingRules;
+    res.json({ success: true, data: rules });
+  }
+
+  private getRule(req: Request, res: Response): void {
+    const rule = this.agent.getRoutingRule(String(req.params.id));
+    if (!rule) {
+      this.sendNotFound(res);
+      return;
+    }
+    res.json({ success: true, data: rule });
+  }
+
+  private async createRule(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = RoutingRuleValidation.validateRoutingRule(req.body);
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+      if (this.agent.getRoutingRule(validation.data.id)) {
+        res.status(409).json({
+          success: false,
+          error: `Routing rule ${validation.data.id} already exists`,
+        });
+        return;
+      }
+
+      const rule = await this.agent.createRoutingRule(
+        validation.data,
+        this.changedBy(req)
+      );
+      res.status(201).json({ success: true, data: rule });
+    } catch (error) {
+      this.sendServerError(res, 'Error creating routing rule', error);
+    }
+  }
+
+  private async updateRule(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateData(
+        UpdateRoutingRuleSchema,
+        req.body,
+        'Update routing rule validation'
+      );
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+
+      const rule = await this.agent.updateRoutingRule(
+        String(req.params.id),
+        validation.data,
+        this.changedBy(req)
+      );
+      if (!rule) {
+        this.sendNotFound(res);
+        return;
+      }
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      this.sendServerError(res, 'Error updating routing rule', error);
+    }
+  }
+
+  private async deleteRule(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.agent.deleteRoutingRule(
+        String(req.params.id),
+        this.changedBy(req)
+      );
+      if (!deleted) {
+        this.sendNotFound(res);
+        return;
+      }
+      res.json({ success: true, message: 'Routing rule deleted successfully' });
+    } catch (error) {
+      this.sendServerError(res, 'Error deleting routing rule', error);
+    }
+  }
+
+  private async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const history = await this.agent.getRoutingRuleHistory(
+        String(req.params.id)
+      );
+      if (history.length === 0) {
+        this.sendNotFound(res);
+        return;
+      }
+      res.json({ success: true, data: history });
+    } catch (error) {
+      this.sendServerError(res, 'Error fetching routing rule versions', error);
+    }
+  }
+
+  private async rollback(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateData(
+        RollbackRequestSchema,
+        req.body,
+        'Rollback validation'
+      );
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+
+      const rule = await this.agent.rollbackRoutingRule(
+        String(req.params.id),
+        validation.data.version,
+        this.changedBy(req)
+      );
+      if (!rule) {
+        res.status(404).json({
+          success: false,
+          error: `Routing rule version ${validation.data.version} not found`,
+        });
+        return;
+      }
+      res.json({ success: true, data: rule });
+    } catch (error) {
+      this.sendServerError(res, 'Error rolling back routing rule', error);
+    }
+  }
+
+  private dryRun(req: Request, res: Response): void {
+    try {
+      const validation = validateData(
+        DryRunRequestSchema,
+        req.body,
+        'Dry run validation'
+      ) as ValidationResult<DryRunRequest>;
+      if (!validation.success) {
+        this.sendValidationError(res, validation.error.message, validation.issues);
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: this.agent.dryRunRouting(validation.data.lead),
+      });
+    } catch (error) {
+      this.sendServerError(res, 'Error running routing dry run', error);
+    }
+  }
+
+  private changedBy(req: Request): string {
+    return req.get('x-changed-by') || API_CHANGED_BY;
+  }
+
+  private sendNotFound(res: Response): void {
+    res.status(404).json({ success: false, error: 'Routing rule not found' });
+  }
+
+  private sendValidationError(
+    res: Response,
+    message: string,
+    issues: z.ZodIssue[]
+  ): void {
+    res.status(400).json({ success: false, error: message, issues });
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,87 @@
+import { Express, Request, Response } from 'express';
+import { TranscriptRepository } from '../database/repositories';
+import {
+  TranscriptSearchQuery,
+  TranscriptSearchQuerySchema,
+} from '../types/transcript';
+import { isValidUUID, validateData } from '../types/validation';
+import { logger } from '../utils/logger';
+
+/**
+ * Transcript API - what was said on calls and in text conversations
+ *
+ * Responsibilities:
+ * - Full-text search across stored transcripts
+ * - Show the transcript and recording of a single interaction
+ */
+export class TranscriptApi {
+  constructor(private transcripts: TranscriptRepository) {}
+
+  /**
+   * Setup transcript routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/transcripts/search', this.search.bind(this));
+    app.get('/api/interactions/:id/transcript', this.getTranscript.bind(this));
+  }
+
+  private async search(req: Request, res: Response): Promise<void> {
+    try {
+      const validation = validateData(
+        TranscriptSearchQuerySchema,
+        req.query,
+        'Transcript search query validation'
+      );
+      if (!validation.success) {
+        res.status(400).json({
+          success: false,
+          error: validation.error.message,
+          issues: validation.issues,
+        });
+        return;
+      }
+
+      const query = validation.data as TranscriptSearchQuery;
+      const hits = await this.transcripts.search(query.q, {
+        leadId: query.lead_id,
+        channel: query.channel,
+        from: query.from,
+        to: query.to,
+        limit: query.limit,
+      });
+
+      res.json({ success: true, data: hits });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to search transcripts', error);
+    }
+  }
+
+  private async getTranscript(req: Request, res: Response): Promise<void> {
+    const interactionId = String(req.params.id);
+    if (!isValidUUID(interactionId)) {
+      res.status(400).json({ success: false, error: 'Invalid interaction ID' });
+      return;
+    }
+
+    try {
+      const transcript = await this.transcripts.findByInteraction(
+        interactionId
+      );
+      if (!transcript) {
+        res.status(404).json({
+          success: false,
+          error: 'No transcript for this interaction',
+        });
+        return;
+      }
+      res.json({ success: true, data: transcript });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to get transcript', error);
+    }
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,114 @@
+import express, { Express, Request, Response } from 'express';
+import { MultiChannelCommunicationManager } from '../communication/multi-channel-manager';
+import { verifyUnsubscribeToken } from '../communication/unsubscribe-links';
+import { logger } from '../utils/logger';
+
+/**
+ * Unsubscribe API - the links added to every email
+ *
+ * Responsibilities:
+ * - Show a confirmation page for the link in the email body
+ * - Opt the lead out on POST, from that page or as an RFC 8058 one-click
+ *   request sent by the mail client
+ * - Record the request as evidence in the consent ledger
+ *
+ * GET never unsubscribes, so link scanners cannot opt leads out.
+ */
+export class UnsubscribeApi {
+  constructor(
+    private communicationManager: MultiChannelCommunicationManager,
+    private secret: string
+  ) {}
+
+  /**
+   * Setup unsubscribe routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/unsubscribe/:token', this.showConfirmation.bind(this));
+    app.post(
+      '/unsubscribe/:token',
+      express.urlencoded({ extended: false }),
+      this.unsubscribe.bind(this)
+    );
+  }
+
+  private showConfirmation(req: Request, res: Response): void {
+    const target = verifyUnsubscribeToken(String(req.params.token), this.secret);
+    if (!target) {
+      this.sendInvalidLink(res);
+      return;
+    }
+
+    res
+      .status(200)
+      .type('html')
+      .send(
+        page(
+          'Unsubscribe',
+          `<p>Stop receiving ${target.channel} messages from us?</p>
+  <form method="post"><button type="submit">Unsubscribe</button></form>`
+        )
+      );
+  }
+
+  private async unsubscribe(req: Request, res: Response): Promise<void> {
+    try {
+      const target = verifyUnsubscribeToken(
+        String(req.params.token),
+        this.secret
+      );
+      if (!target) {
+        this.sendInvalidLink(res);
+        return;
+      }
+
+      await this.communicationManager.optOutFromChannel(
+        target.leadId,
+        target.channel,
+        {
+          source: 'unsubscribe_link',
+          evidence: {
+            oneClick: req.body?.['List-Unsubscribe'] === 'One-Click',
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+          },
+        }
+      );
+      logger.info(`Lead ${target.leadId} unsubscribed from ${target.channel}`);
+
+      res
+        .status(200)
+        .type('html')
+        .send(
+          page(
+            'Unsubscribed',
+            `<p>You will no longer receive ${target.channel} messages from us.</p>`
+          )
+        );
+    } catch (error) {
+      logger.error('Error processing unsubscribe request', error as Error);
+      res
+        .status(500)
+        .type('html')
+        .send(page('Unsubscribe', '<p>Something went wrong. Please try again.</p>'));
+    }
+  }
+
+  private sendInvalidLink(res: Response): void {
+    res
+      .status(404)
+      .type('html')
+      .send(page('Unsubscribe', '<p>This unsubscribe link is not valid.</p>'));
+  }
+}
+
+function page(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>${title}</title></head>
+<body>
+  <h1>${title}</h1>
+  ${body}
+</body>
+</html>`;
+}
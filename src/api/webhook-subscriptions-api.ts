@@ -0,0 +1,324 @@
+import { Express, Request, Response } from 'express';
+import { z } from 'zod';
+import { URL } from 'url';
+import {
+  WebhookDeliveryRepository,
+  WebhookSubscriptionRepository,
+} from '../database/repositories';
+import {
+  WebhookDeliveryStatusSchema,
+  WebhookSubscription,
+  WebhookValidation,
+} from '../types/webhook';
+import { generateUUID, isValidUUID } from '../types/validation';
+import { WebhookDispatcher, generateWebhookSecret } from '../webhooks';
+import { logger } from '../utils/logger';
+import { resolvePublicHost } from '../utils/network-address';
+
+// Upper bound for the delivery log listing
+const MAX_DELIVERY_LIMIT = 200;
+
+/**
+ * Subscription as listed: the secret is only shown when it is created or
+ * rotated
+ */
+function withoutSecret(
+  subscription: WebhookSubscription
+): Omit<WebhookSubscription, 'secret'> {
+  const { secret: _secret, ...rest } = subscription;
+  return rest;
+}
+
+/**
+ * Webhook Subscriptions API - outgoing webhooks for partner systems
+ *
+ * Responsibilities:
+ * - Register endpoints with the event types and payload filter they want,
+ *   and hand out the secret their deliveries are signed with
+ * - Edit, disable, re-enable and delete subscriptions, rotate secrets
+ * - Show the delivery log of a subscription and replay failed deliveries
+ */
+export class WebhookSubscriptionsApi {
+  constructor(
+    private subscriptions: WebhookSubscriptionRepository,
+    private deliveries: WebhookDeliveryRepository,
+    private dispatcher: WebhookDispatcher
+  ) {}
+
+  /**
+   * Setup webhook subscription routes
+   */
+  setupRoutes(app: Express): void {
+    app.get('/api/webhooks/subscriptions', this.listSubscriptions.bind(this));
+    app.post('/api/webhooks/subscriptions', this.createSubscription.bind(this));
+    app.get('/api/webhooks/subscriptions/:id', this.getSubscription.bind(this));
+    app.patch(
+      '/api/webhooks/subscriptions/:id',
+      this.updateSubscription.bind(this)
+    );
+    app.delete(
+      '/api/webhooks/subscriptions/:id',
+      this.deleteSubscription.bind(this)
+    );
+    app.post(
+      '/api/webhooks/subscriptions/:id/rotate-secret',
+      this.rotateSecret.bind(this)
+    );
+    app.get(
+      '/api/webhooks/subscriptions/:id/deliveries',
+      this.listDeliveries.bind(this)
+    );
+    app.post(
+      '/api/webhooks/deliveries/:id/replay',
+      this.replayDelivery.bind(this)
+    );
+  }
+
+  private async listSubscriptions(_req: Request, res: Response): Promise<void> {
+    try {
+      const subscriptions = await this.subscriptions.findAll();
+      res.json({ success: true, data: subscriptions.map(withoutSecret) });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to list webhook subscriptions', error);
+    }
+  }
+
+  private async createSubscription(req: Request, res: Response): Promise<void> {
+    const validation = WebhookValidation.validateCreateSubscription(req.body);
+    if (!validation.success) {
+      this.sendValidationError(res, validation.error.message, validation.issues);
+      return;
+    }
+    if (!(await this.checkEndpointHost(res, validation.data.url))) return;
+
+    try {
+      const now = new Date();
+      const subscription = await this.subscriptions.create({
+        ...validation.data,
+        id: generateUUID(),
+        secret: generateWebhookSecret(),
+        status: 'active',
+        consecutiveFailures: 0,
+        createdAt: now,
+        updatedAt: now,
+      });
+      res.status(201).json({ success: true, data: subscription });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to create webhook subscription', error);
+    }
+  }
+
+  private async getSubscription(req: Request, res: Response): Promise<void> {
+    const subscription = await this.findSubscription(req, res);
+    if (!subscription) return;
+
+    res.json({ success: true, data: withoutSecret(subscription) });
+  }
+
+  private async updateSubscription(req: Request, res: Response): Promise<void> {
+    const validation = WebhookValidation.validateUpdateSubscription(req.body);
+    if (!validation.success) {
+      this.sendValidationError(res, validation.error.message, validation.issues);
+      return;
+    }
+    if (!(await this.checkEndpointHost(res, validation.data.url))) return;
+
+    const subscription = await this.findSubscription(req, res);
+    if (!subscription) return;
+
+    try {
+      const { status, ...changes } = validation.data;
+      const updated: WebhookSubscription = { ...subscription, ...changes };
+      if (status === 'active' && subscription.status === 'disabled') {
+        Object.assign(updated, {
+          status,
+          consecutiveFailures: 0,
+          disabledAt: undefined,
+          disabledReason: undefined,
+        });
+      } else if (status === 'disabled' && subscription.status === 'active') {
+        Object.assign(updated, {
+          status,
+          disabledAt: new Date(),
+          disabledReason: 'Disabled by hand',
+        });
+      }
+
+      const saved = await this.subscriptions.save(updated);
+      if (!saved) {
+        this.sendNotFound(res);
+        return;
+      }
+      res.json({ success: true, data: withoutSecret(saved) });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to update webhook subscription', error);
+    }
+  }
+
+  private async deleteSubscription(req: Request, res: Response): Promise<void> {
+    if (!this.hasValidId(req, res)) return;
+
+    try {
+      const deleted = await this.subscriptions.delete(String(req.params.id));
+      if (!deleted) {
+        this.sendNotFound(res);
+        return;
+      }
+      res.json({
+        success: true,
+        message: 'Webhook subscription deleted successfully',
+      });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to delete webhook subscription', error);
+    }
+  }
+
+  private async rotateSecret(req: Request, res: Response): Promise<void> {
+    const subscription = await this.findSubscription(req, res);
+    if (!subscription) return;
+
+    try {
+      const saved = await this.subscriptions.save({
+        ...subscription,
+        secret: generateWebhookSecret(),
+      });
+      if (!saved) {
+        this.sendNotFound(res);
+        return;
+      }
+      res.json({ success: true, data: saved });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to rotate webhook secret', error);
+    }
+  }
+
+  private async listDeliveries(req: Request, res: Response): Promise<void> {
+    const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT) {
+      res.status(400).json({
+        success: false,
+        error: `limit must be between 1 and ${MAX_DELIVERY_LIMIT}`,
+      });
+      return;
+    }
+    const status = WebhookDeliveryStatusSchema.optional().safeParse(
+      req.query.status
+    );
+    if (!status.success) {
+      this.sendValidationError(res, 'Invalid delivery status', status.error.issues);
+      return;
+    }
+
+    const subscription = await this.findSubscription(req, res);
+    if (!subscription) return;
+
+    try {
+      const deliveries = await this.deliveries.findBySubscription(
+        subscription.id,
+        { status: status.data, limit }
+      );
+      res.json({ success: true, data: deliveries });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to list webhook deliveries', error);
+    }
+  }
+
+  private async replayDelivery(req: Request, res: Response): Promise<void> {
+    const deliveryId = String(req.params.id);
+    if (!isValidUUID(deliveryId)) {
+      res.status(400).json({ success: false, error: 'Invalid delivery ID' });
+      return;
+    }
+
+    try {
+      const delivery = await this.dispatcher.replay(deliveryId);
+      if (!delivery) {
+        res.status(404).json({
+          success: false,
+          error: 'No failed delivery with this ID',
+        });
+        return;
+      }
+      res.status(202).json({ success: true, data: delivery });
+    } catch (error) {
+      this.sendServerError(res, 'Failed to replay webhook delivery', error);
+    }
+  }
+
+  /**
+   * The subscription named in the path, or null once a 400 or 404 has been
+   * sent
+   */
+  private async findSubscription(
+    req: Request,
+    res: Response
+  ): Promise<WebhookSubscription | null> {
+    if (!this.hasValidId(req, res)) return null;
+
+    try {
+      const subscription = await this.subscriptions.findById(
+        String(req.params.id)
+      );
+      if (!subscription) {
+        this.sendNotFound(res);
+      }
+      return subscription;
+    } catch (error) {
+      this.sendServerError(res, 'Failed to load webhook subscription', error);
+      return null;
+    }
+  }
+
+  private hasValidId(req: Request, res: Response): boolean {
+    if (!isValidUUID(String(req.params.id))) {
+      res.status(400).json({ success: false, error: 'Invalid subscription ID' });
+      return false;
+    }
+    return true;
+  }
+
+  private sendNotFound(res: Response): void {
+    res.status(404).json({
+      success: false,
+      error: 'Webhook subscription not found',
+    });
+  }
+
+  /**
+   * Refuse endpoints whose host resolves to a private address. Hosts that
+   * do not resolve yet are accepted, since every delivery checks again.
+   */
+  private async checkEndpointHost(
+    res: Response,
+    url: string | undefined
+  ): Promise<boolean> {
+    if (!url) return true;
+
+    try {
+      await resolvePublicHost(new URL(url).hostname);
+      return true;
+    } catch (error) {
+      // DNS failures carry a code such as ENOTFOUND
+      if ((error as NodeJS.ErrnoException).code) return true;
+
+      const message = (error as Error).message;
+      this.sendValidationError(res, message, [
+        { code: z.ZodIssueCode.custom, path: ['url'], message },
+      ]);
+      return false;
+    }
+  }
+
+  private sendValidationError(
+    res: Response,
+    message: string,
+    issues: z.ZodIssue[]
+  ): void {
+    res.status(400).json({ success: false, error: message, issues });
+  }
+
+  private sendServerError(res: Response, message: string, error: unknown): void {
+    logger.error(message, error as Error);
+    res.status(500).json({ success: false, error: 'Internal Server Error' });
+  }
+}
@@ -0,0 +1,467 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { AgentRoster } from '../agent-roster';
+import { LeadAssignmentManager } from '../lead-assignment-manager';
+import { Lead } from '../../types/lead';
+import { generateUUID } from '../../types/validation';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const weekdays = [1, 2, 3, 4, 5].map((day) => ({
+  dayOfWeek: day,
+  start: '09:00',
+  end: '18:00',
+}));
+
+const agentInput = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: `Agent ${id}`,
+  skills: {
+    languages: ['pt', 'en'],
+    propertyTypes: ['apartment'],
+    regions: ['Lisboa'],
+  },
+  maxConcurrentLeads: 3,
+  workingHours: weekdays,
+  ...overrides,
+});
+
+const createLead = (overrides: Partial<Lead> = {}): Lead => ({
+  id: generateUUID(),
+  source: 'website',
+  contactInfo: {
+    name: 'Maria Souza',
+    email: 'maria@example.com',
+    preferredChannel: 'email',
+    timezone: 'Europe/Lisbon',
+  },
+  leadType: 'hot',
+  urgencyLevel: 8,
+  intentSignals: [],
+  qualificationData: {
+    location: 'lisboa',
+    propertyType: 'apartment',
+    qualificationScore: 0.8,
+  },
+  status: 'new',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+describe('AgentRoster', () => {
+  let roster: AgentRoster;
+
+  beforeEach(() => {
+    // Wednesday afternoon
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    roster = new AgentRoster();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should validate agents and reject duplicates', async () => {
+    await roster.addAgent(agentInput('ana'));
+
+    expect(roster.getAgent('ana')?.weight).toBe(1);
+    await expect(roster.addAgent(agentInput('ana'))).rejects.toThrow(
+      'already exists'
+    );
+    await expect(
+      roster.addAgent(agentInput('bruno', { maxConcurrentLeads: 0 }))
+    ).rejects.toThrow('Create sales agent validation');
+  });
+
+  it('should take working hours, out-of-office and activity into account', async () => {
+    await roster.addAgent(agentInput('ana'));
+    await roster.addAgent(
+      agentInput('bruno', {
+        outOfOffice: [
+          {
+            start: '2026-01-12T00:00:00.000Z',
+            end: '2026-01-16T00:00:00.000Z',
+            reason: 'Vacation',
+          },
+        ],
+      })
+    );
+    await roster.addAgent(agentInput('carla', { timezone: 'Asia/Tokyo' }));
+    await roster.addAgent(agentInput('diego', { active: false }));
+
+    expect(roster.isAvailable('ana')).toBe(true);
+    expect(roster.getUnavailableReason('bruno')).toBe(
+      'Out of office: Vacation'
+    );
+    // Midnight in Tokyo
+    expect(roster.getUnavailableReason('carla')).toBe('Outside working hours');
+    expect(roster.getUnavailableReason('diego')).toBe('Inactive');
+    // Saturday
+    expect(
+      roster.isAvailable('ana', new Date('2026-01-17T15:00:00.000Z'))
+    ).toBe(false);
+  });
+
+  it('should persist changes through the repository', async () => {
+    const repository = {
+      findAll: vi.fn().mockResolvedValue([]),
+      save: vi.fn(async (agent) => agent),
+      delete: vi.fn().mockResolvedValue(true),
+    };
+    roster = new AgentRoster(repository as any);
+
+    await roster.addAgent(agentInput('ana'));
+    const updated = await roster.updateAgent('ana', { weight: 3 });
+    await roster.removeAgent('ana');
+
+    expect(updated?.weight).toBe(3);
+    expect(repository.save).toHaveBeenCalledTimes(2);
+    expect(repository.delete).toHaveBeenCalledWith('ana');
+    expect(await roster.updateAgent('ana', { weight: 2 })).toBeNull();
+  });
+});
+
+describe('LeadAssignmentManager', () => {
+  let roster: AgentRoster;
+  let manager: LeadAssignmentManager;
+
+  beforeEach(() => {
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    roster = new AgentRoster();
+    manager = new LeadAssignmentManager(roster);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should assign only to agents with the skills the lead needs', async () => {
+    await roster.addAgent(agentInput('ana', { skills: { languages: ['en'] } }));
+    await roster.addAgent(agentInput('bruno'));
+
+    const assignment = await manager.assignLead(createLead(), {
+      language: 'PT',
+    });
+
+    expect(assignment).toMatchObject({
+      agentId: 'bruno',
+      status: 'pending',
+      strategy: 'weighted_round_robin',
+      acceptBy: new Date('2026-01-14T15:15:00.000Z'),
+    });
+    expect(
+      await manager.assignLead(createLead(), { language: 'es' })
+    ).toBeNull();
+  });
+
+  it('should spread leads by weight with round-robin', async () => {
+    await roster.addAgent(
+      agentInput('ana', { weight: 2, maxConcurrentLeads: 10 })
+    );
+    await roster.addAgent(agentInput('bruno', { maxConcurrentLeads: 10 }));
+
+    const agentIds: string[] = [];
+    for (let i = 0; i < 6; i++) {
+      const assignment = await manager.assignLead(createLead());
+      agentIds.push(assignment!.agentId);
+    }
+
+    expect(agentIds).toEqual(['ana', 'bruno', 'ana', 'ana', 'bruno', 'ana']);
+  });
+
+  it('should prefer the least loaded agent and respect capacity', async () => {
+    await roster.addAgent(agentInput('ana', { maxConcurrentLeads: 1 }));
+    await roster.addAgent(agentInput('bruno', { maxConcurrentLeads: 4 }));
+
+    const first = await manager.assignLead(createLead(), {
+      strategy: 'least_loaded',
+    });
+    const second = await manager.assignLead(createLead(), {
+      strategy: 'least_loaded',
+    });
+    const third = await manager.assignLead(createLead(), {
+      strategy: 'least_loaded',
+    });
+
+    expect([first, second, third].map((a) => a?.agentId)).toEqual([
+      'ana',
+      'bruno',
+      'bruno',
+    ]);
+    expect(await manager.getOpenAssignments('ana')).toHaveLength(1);
+  });
+
+  it('should not assign a lead twice', async () => {
+    await roster.addAgent(agentInput('ana'));
+    const lead = createLead();
+    await manager.assignLead(lead);
+
+    await expect(manager.assignLead(lead)).rejects.toThrow(
+      'already assigned to ana'
+    );
+  });
+
+  it('should reassign leads not accepted within the SLA', async () => {
+    await roster.addAgent(agentInput('ana'));
+    await roster.addAgent(agentInput('bruno'));
+    const lead = createLead();
+    const first = await manager.assignLead(lead);
+
+    const early = await manager.reassignExpired(
+      new Date('2026-01-14T15:10:00.000Z')
+    );
+    expect(early.expired).toHaveLength(0);
+
+    const sweep = await manager.reassignExpired(
+      new Date('2026-01-14T15:16:00.000Z')
+    );
+    expect(sweep.expired.map((a) => a.id)).toEqual([first!.id]);
+    expect(sweep.reassigned[0]).toMatchObject({
+      leadId: lead.id,
+      agentId: 'bruno',
+      previousAssignmentId: first!.id,
+    });
+
+    // Nobody is left who has not had the lead
+    const last = await manager.reassignExpired(
+      new Date('2026-01-14T15:32:00.000Z')
+    );
+    expect(last.unassignedLeadIds).toEqual([lead.id]);
+    expect(await manager.getOpenAssignment(lead.id)).toBeUndefined();
+  });
+
+  it('should pass declined leads on and keep accepted ones', async () => {
+    await roster.addAgent(agentInput('ana'));
+    await roster.addAgent(agentInput('bruno'));
+    const first = await manager.assignLead(createLead());
+
+    await expect(manager.acceptAssignment(first!.id, 'bruno')).rejects.toThrow(
+      'belongs to another sales agent'
+    );
+    const next = await manager.declineAssignment(first!.id, 'ana');
+    const accepted = await manager.acceptAssignment(next!.id, 'bruno');
+
+    expect(accepted.status).toBe('accepted');
+    const sweep = await manager.reassignExpired(
+      new Date('2026-01-14T16:00:00.000Z')
+    );
+    expect(sweep.expired).toHaveLength(0);
+  });
+
+  it('should write the assigned agent and an audit entry', async () => {
+    let stored: any;
+    const repositories = {
+      leads: { assignAgent: vi.fn().mockResolvedValue(null) },
+      auditLogs: { create: vi.fn().mockResolvedValue({}) },
+      leadAssignments: {
+        create: vi.fn(async (assignment) => (stored = assignment)),
+        updateStatus: vi.fn().mockResolvedValue(null),
+        findByLead: vi.fn().mockResolvedValue([]),
+        findOpen: vi.fn(async () => (stored ? [stored] : [])),
+      },
+    };
+    manager = new LeadAssignmentManager(roster, {}, repositories as any);
+    await roster.addAgent(agentInput('ana'));
+    const lead = createLead({ assignedAgent: 'previous-agent' });
+
+    const assignment = await manager.assignLead(lead, {
+      strategy: 'manual',
+      agentId: 'ana',
+      assignedBy: 'manager@example.com',
+    });
+    await manager.releaseLead(lead.id);
+
+    expect(repositories.leads.assignAgent.mock.calls).toEqual([
+      [lead.id, 'ana'],
+      [lead.id, null],
+    ]);
+    expect(repositories.auditLogs.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entityType: 'lead',
+        entityId: lead.id,
+        action: 'update',
+        changes: { assignedAgent: { old: 'previous-agent', new: 'ana' } },
+        userId: 'manager@example.com',
+        metadata: expect.objectContaining({
+          assignmentId: assignment!.id,
+          strategy: 'manual',
+        }),
+      })
+    );
+    expect(repositories.leadAssignments.updateStatus).toHaveBeenCalledWith(
+      assignment!.id,
+      'released',
+      expect.any(Date)
+    );
+  });
+
+  describe('with a database', () => {
+    const createRepositories = (openCounts: Record<string, number> = {}) => {
+      return {
+        repositories: {
+          leads: {
+            findById: vi.fn(),
+            assignAgent: vi.fn().mockResolvedValue(null),
+          },
+          auditLogs: { create: vi.fn().mockResolvedValue({}) },
+          salesAgents: { lock: vi.fn() },
+          leadAssignments: {
+            create: vi.fn(async (assignment: any) => assignment),
+            findOpen: vi.fn().mockResolvedValue([]),
+            findByLead: vi.fn().mockResolvedValue([]),
+            countOpenByAgent: vi.fn(
+              async (agentId?: string) =>
+                new Map(
+                  Object.entries(openCounts).filter(
+                    ([id]) => !agentId || id === agentId
+                  )
+                )
+            ),
+          },
+        },
+      };
+    };
+
+    // Transactions run the real repositories on a client recording the SQL
+    const createDbManager = () => {
+      const client = {
+        query: vi.fn(async (sql: string, params: any[] = []) => {
+          if (!sql.includes('INSERT INTO lead_assignments')) {
+            return { rows: [] };
+          }
+          const [id, leadId, agentId, strategy, status, requirements] = params;
+          return {
+            rows: [
+              {
+                id,
+                lead_id: leadId,
+                agent_id: agentId,
+                strategy,
+                status,
+                requirements: JSON.parse(requirements),
+                assigned_at: params[7],
+                accept_by: params[8],
+              },
+            ],
+          };
+        }),
+      };
+      const dbManager = {
+        transaction: async (work: (c: typeof client) => Promise<unknown>) => {
+          await client.query('BEGIN');
+          const result = await work(client);
+          await client.query('COMMIT');
+          return result;
+        },
+      };
+      return { client, dbManager };
+    };
+
+    it('should count capacity from the database', async () => {
+      const { repositories } = createRepositories({ ana: 3 });
+      manager = new LeadAssignmentManager(roster, {}, repositories as any);
+      await roster.addAgent(agentInput('ana'));
+      await roster.addAgent(agentInput('bruno'));
+
+      const assignment = await manager.assignLead(createLead());
+
+      expect(assignment?.agentId).toBe('bruno');
+      expect(
+        await manager.findEligibleAgents({ propertyType: 'apartment' })
+      ).toEqual([expect.objectContaining({ id: 'bruno' })]);
+    });
+
+    it('should move on when the agent filled up after being picked', async () => {
+      const { repositories } = createRepositories();
+      // Another instance gave ana her last free slot meanwhile
+      repositories.leadAssignments.countOpenByAgent
+        .mockResolvedValueOnce(new Map())
+        .mockResolvedValueOnce(new Map([['ana', 1]]));
+      manager = new LeadAssignmentManager(roster, {}, repositories as any);
+      await roster.addAgent(
+        agentInput('ana', { maxConcurrentLeads: 1, weight: 2 })
+      );
+      await roster.addAgent(agentInput('bruno'));
+
+      const assignment = await manager.assignLead(createLead());
+
+      expect(assignment?.agentId).toBe('bruno');
+      expect(repositories.leadAssignments.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('should assign and write the lead and audit log in one transaction', async () => {
+      const { repositories } = createRepositories();
+      const { client, dbManager } = createDbManager();
+      manager = new LeadAssignmentManager(
+        roster,
+        {},
+        repositories as any,
+        dbManager as any
+      );
+      await roster.addAgent(agentInput('ana'));
+
+      await manager.assignLead(createLead());
+
+      const statements = client.query.mock.calls.map(([sql]) =>
+        sql.trim().split(/\s+/).slice(0, 3).join(' ')
+      );
+      expect(statements).toEqual([
+        'BEGIN',
+        'SELECT id FROM',
+        'SELECT agent_id, COUNT(*)::int',
+        'INSERT INTO lead_assignments',
+        expect.stringContaining('WITH'),
+        'INSERT INTO audit_logs',
+        'COMMIT',
+      ]);
+      expect(repositories.leads.assignAgent).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a second open assignment of the lead', async () => {
+      const { repositories } = createRepositories();
+      repositories.leadAssignments.create.mockResolvedValue(null);
+      manager = new LeadAssignmentManager(roster, {}, repositories as any);
+      await roster.addAgent(agentInput('ana'));
+      const lead = createLead();
+
+      await expect(manager.assignLead(lead)).rejects.toThrow(
+        `Lead ${lead.id} is already assigned`
+      );
+      expect(repositories.leads.assignAgent).not.toHaveBeenCalled();
+    });
+
+    it('should assign new leads from lead_created events once', async () => {
+      const { repositories } = createRepositories();
+      manager = new LeadAssignmentManager(roster, {}, repositories as any);
+      await roster.addAgent(agentInput('ana'));
+      const lead = createLead();
+      repositories.leads.findById
+        .mockResolvedValueOnce(lead)
+        .mockResolvedValueOnce({ ...lead, assignedAgent: 'ana' });
+      const event = {
+        id: generateUUID(),
+        type: 'lead_created' as const,
+        aggregateType: 'lead' as const,
+        aggregateId: lead.id,
+        payload: {},
+        occurredAt: new Date(),
+      };
+
+      await manager.handle(event);
+      await manager.handle(event);
+
+      expect(manager.eventTypes).toEqual(['lead_created']);
+      expect(repositories.leadAssignments.create).toHaveBeenCalledTimes(1);
+      expect(repositories.leadAssignments.create).toHaveBeenCalledWith(
+        expect.objectContaining({ leadId: lead.id, agentId: 'ana' })
+      );
+    });
+  });
+});
@@ -0,0 +1,162 @@
+import type { SalesAgentRepository } from '../database/repositories';
+import { AvailabilityCalendar } from '../scheduling/availability-calendar';
+import {
+  AssignmentRequirements,
+  SalesAgent,
+  SalesAgentValidation,
+} from '../types/sales-agent';
+
+/**
+ * Agent Roster - the human sales agents leads can be assigned to
+ *
+ * Responsibilities:
+ * - Keep each agent's skills, capacity, working hours and out-of-office
+ * - Decide whether an agent can take a lead at a given moment
+ * - Match agents against the skills a lead needs
+ *
+ * With a repository the roster is kept in the database; otherwise it
+ * lives in memory.
+ */
+export class AgentRoster {
+  private agents: Map<string, SalesAgent> = new Map();
+  private calendar = new AvailabilityCalendar();
+
+  constructor(private repository?: SalesAgentRepository) {}
+
+  /**
+   * Load the roster from the database, replacing the agents in memory
+   */
+  async load(): Promise<void> {
+    if (!this.repository) return;
+
+    const agents = await this.repository.findAll();
+    this.agents = new Map(agents.map((agent) => [agent.id, agent]));
+    this.rebuildCalendar();
+  }
+
+  /**
+   * Every agent, in the order they joined the roster
+   */
+  getAgents(): SalesAgent[] {
+    return Array.from(this.agents.values());
+  }
+
+  getAgent(agentId: string): SalesAgent | undefined {
+    return this.agents.get(agentId);
+  }
+
+  async addAgent(input: unknown): Promise<SalesAgent> {
+    const validation = SalesAgentValidation.validateCreateSalesAgent(input);
+    if (!validation.success) {
+      throw validation.error;
+    }
+    if (this.agents.has(validation.data.id)) {
+      throw new Error(`Sales agent ${validation.data.id} already exists`);
+    }
+
+    const now = new Date();
+    return this.store({ ...validation.data, createdAt: now, updatedAt: now });
+  }
+
+  /**
+   * Change fields of an agent. Returns null when the agent does not exist.
+   */
+  async updateAgent(
+    agentId: string,
+    updates: unknown
+  ): Promise<SalesAgent | null> {
+    const existing = this.agents.get(agentId);
+    if (!existing) return null;
+
+    const changes = SalesAgentValidation.validateUpdateSalesAgent(updates);
+    if (!changes.success) {
+      throw changes.error;
+    }
+    const validation = SalesAgentValidation.validateSalesAgent({
+      ...existing,
+      ...changes.data,
+      id: agentId,
+      updatedAt: new Date(),
+    });
+    if (!validation.success) {
+      throw validation.error;
+    }
+
+    return this.store(validation.data);
+  }
+
+  /**
+   * Remove an agent from the roster. Returns false when the agent does not exist.
+   */
+  async removeAgent(agentId: string): Promise<boolean> {
+    if (!this.agents.has(agentId)) return false;
+
+    if (this.repository) {
+      await this.repository.delete(agentId);
+    }
+    this.agents.delete(agentId);
+    this.rebuildCalendar();
+    return true;
+  }
+
+  /**
+   * Why the agent cannot take leads at the given moment, or undefined when
+   * they can. Capacity is up to the caller, who knows the open assignments.
+   */
+  getUnavailableReason(
+    agentId: string,
+    at: Date = new Date()
+  ): string | undefined {
+    const agent = this.agents.get(agentId);
+    if (!agent) return 'Not on the roster';
+    if (!agent.active) return 'Inactive';
+
+    const away = agent.outOfOffice.find(
+      (period) => period.start <= at && at < period.end
+    );
+    if (away) {
+      return away.reason ? `Out of office: ${away.reason}` : 'Out of office';
+    }
+
+    if (!this.calendar.isWorking(agentId, at, new Date(at.getTime() + 1))) {
+      return 'Outside working hours';
+    }
+    return undefined;
+  }
+
+  isAvailable(agentId: string, at: Date = new Date()): boolean {
+    return this.getUnavailableReason(agentId, at) === undefined;
+  }
+
+  /**
+   * Whether the agent has every skill the lead needs
+   */
+  hasSkills(agent: SalesAgent, requirements: AssignmentRequirements): boolean {
+    const covers = (skills: string[], required?: string) =>
+      !required ||
+      skills.some((skill) => skill.toLowerCase() === required.toLowerCase());
+
+    return (
+      covers(agent.skills.languages, requirements.language) &&
+      covers(agent.skills.propertyTypes, requirements.propertyType) &&
+      covers(agent.skills.regions, requirements.region)
+    );
+  }
+
+  private async store(agent: SalesAgent): Promise<SalesAgent> {
+    const saved = this.repository ? await this.repository.save(agent) : agent;
+    this.agents.set(saved.id, saved);
+    this.rebuildCalendar();
+    return saved;
+  }
+
+  private rebuildCalendar(): void {
+    this.calendar = new AvailabilityCalendar({
+      agents: this.getAgents().map((agent) => ({
+        agentId: agent.id,
+        timezone: agent.timezone,
+        workingHours: agent.workingHours,
+      })),
+    });
+  }
+}
@@ -0,0 +1,677 @@
+import type { DatabaseManager } from '../database/manager';
+import { Repositories, withRepositories } from '../database/repositories';
+import type { EventSubscriber } from '../events';
+import { DomainEvent, DomainEventType } from '../types/domain-event';
+import { Lead } from '../types/lead';
+import {
+  AssignmentRequirements,
+  AssignmentStatus,
+  AssignmentStrategy,
+  LeadAssignment,
+  SalesAgent,
+} from '../types/sales-agent';
+import { generateUUID } from '../types/validation';
+import { logger } from '../utils/logger';
+import { AgentRoster } from './agent-roster';
+
+export type AutomaticAssignmentStrategy = Exclude<AssignmentStrategy, 'manual'>;
+
+export interface LeadAssignmentConfig {
+  defaultStrategy: AutomaticAssignmentStrategy;
+  acceptSlaMinutes: number; // pending assignments move on after this
+  slaCheckIntervalMs: number;
+}
+
+export interface AssignLeadOptions {
+  strategy?: AssignmentStrategy;
+  agentId?: string; // required for manual assignment
+  language?: string;
+  requirements?: AssignmentRequirements; // overrides what is derived from the lead
+  assignedBy?: string;
+  at?: Date;
+}
+
+export interface SlaSweepResult {
+  expired: LeadAssignment[];
+  reassigned: LeadAssignment[];
+  unassignedLeadIds: string[]; // expired with nobody left to take them
+}
+
+interface NewAssignment {
+  leadId: string;
+  agent: SalesAgent;
+  strategy: AssignmentStrategy;
+  requirements: AssignmentRequirements;
+  at: Date;
+  reason: string;
+  assignedBy?: string;
+  previousAgentId?: string;
+  previousAssignmentId?: string;
+}
+
+const DEFAULT_CONFIG: LeadAssignmentConfig = {
+  defaultStrategy: 'weighted_round_robin',
+  acceptSlaMinutes: 15,
+  slaCheckIntervalMs: 60 * 1000,
+};
+
+// Recorded as the agent of the audit log entries
+const ASSIGNMENT_AGENT_ID = 'lead-assignment';
+
+const OPEN_STATUSES: AssignmentStatus[] = ['pending', 'accepted'];
+
+/**
+ * Lead Assignment Manager - hands leads to human sales agents
+ *
+ * Responsibilities:
+ * - Pick an available agent with the right skills and spare capacity,
+ *   by weighted round-robin or least-loaded
+ * - Track whether the agent accepts the lead within the SLA, and pass it
+ *   on to another agent when they decline or do not answer in time
+ * - Write the lead's assigned agent and an audit log entry for every change
+ * - Assign new leads as they are created, as an outbox subscriber
+ *
+ * With a database, assignments and capacity are read from there, and a
+ * partial unique index keeps a lead from having two open assignments, so
+ * several instances can assign at once.
+ */
+export class LeadAssignmentManager implements EventSubscriber {
+  readonly name = 'lead-assignment';
+  readonly eventTypes: DomainEventType[] = ['lead_created'];
+
+  private config: LeadAssignmentConfig;
+  // Only used without a database; otherwise assignments are read from there
+  private assignments: Map<string, LeadAssignment> = new Map();
+  private roundRobinWeights: Map<string, number> = new Map();
+  private lastAssignedAt: Map<string, number> = new Map();
+  private slaTimer?: NodeJS.Timeout;
+
+  constructor(
+    private roster: AgentRoster,
+    config: Partial<LeadAssignmentConfig> = {},
+    private repositories: Partial<Repositories> = {},
+    private dbManager?: DatabaseManager
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Assign every new lead as it is created. The relay may deliver an event
+   * twice, so a lead that already has an agent is left alone.
+   */
+  async handle(event: DomainEvent): Promise<void> {
+    const lead = await this.repositories.leads?.findById(event.aggregateId);
+    if (!lead || lead.assignedAgent) return;
+    if (await this.getOpenAssignment(lead.id)) return;
+
+    // Agents are edited through the API, so the roster is read again
+    await this.roster.load();
+    await this.assignLead(lead);
+  }
+
+  /**
+   * Pending and accepted assignments, optionally of one agent
+   */
+  async getOpenAssignments(agentId?: string): Promise<LeadAssignment[]> {
+    if (this.repositories.leadAssignments) {
+      return this.repositories.leadAssignments.findOpen({ agentId });
+    }
+    return Array.from(this.assignments.values()).filter(
+      (a) =>
+        OPEN_STATUSES.includes(a.status) && (!agentId || a.agentId === agentId)
+    );
+  }
+
+  async getAssignment(assignmentId: string): Promise<LeadAssignment | null> {
+    if (this.repositories.leadAssignments) {
+      return this.repositories.leadAssignments.findById(assignmentId);
+    }
+    return this.assignments.get(assignmentId) ?? null;
+  }
+
+  async getOpenAssignment(leadId: string): Promise<LeadAssignment | undefined> {
+    if (this.repositories.leadAssignments) {
+      const [open] = await this.repositories.leadAssignments.findOpen({
+        leadId,
+      });
+      return open;
+    }
+    return (await this.getOpenAssignments()).find((a) => a.leadId === leadId);
+  }
+
+  /**
+   * Every assignment of a lead, oldest first
+   */
+  async getLeadAssignments(leadId: string): Promise<LeadAssignment[]> {
+    if (this.repositories.leadAssignments) {
+      return this.repositories.leadAssignments.findByLead(leadId);
+    }
+    return Array.from(this.assignments.values()).filter(
+      (a) => a.leadId === leadId
+    );
+  }
+
+  /**
+   * Skills a lead needs: the property type and location it is interested
+   * in, and the language when known
+   */
+  getRequirements(lead: Lead, language?: string): AssignmentRequirements {
+    return {
+      language,
+      propertyType: lead.qualificationData.propertyType,
+      region: lead.qualificationData.location,
+    };
+  }
+
+  /**
+   * Agents that can take a lead with these requirements right now
+   */
+  async findEligibleAgents(
+    requirements: AssignmentRequirements,
+    at: Date = new Date(),
+    excludeAgentIds: string[] = []
+  ): Promise<SalesAgent[]> {
+    return this.filterEligible(
+      requirements,
+      at,
+      excludeAgentIds,
+      await this.countOpenByAgent()
+    );
+  }
+
+  /**
+   * Assign a lead to a sales agent. Returns null when no agent is eligible.
+   * Manual assignments only need the agent to be active on the roster.
+   */
+  async assignLead(
+    lead: Lead,
+    options: AssignLeadOptions = {}
+  ): Promise<LeadAssignment | null> {
+    const open = await this.getOpenAssignment(lead.id);
+    if (open) {
+      throw new Error(`Lead ${lead.id} is already assigned to ${open.agentId}`);
+    }
+
+    const at = options.at ?? new Date();
+    const strategy = options.strategy ?? this.config.defaultStrategy;
+    const requirements =
+      options.requirements ?? this.getRequirements(lead, options.language);
+    const details = {
+      leadId: lead.id,
+      strategy,
+      requirements,
+      assignedBy: options.assignedBy,
+      at,
+      previousAgentId: lead.assignedAgent,
+      reason: strategy === 'manual' ? 'Assigned manually' : 'New assignment',
+    };
+
+    const assignment =
+      strategy === 'manual'
+        ? await this.createAssignment({
+            ...details,
+            agent: this.getManualAgent(options.agentId),
+          })
+        : await this.assignToEligible(details, strategy, []);
+
+    if (!assignment) {
+      logger.warn('No eligible sales agent for lead', {
+        leadId: lead.id,
+        requirements,
+      });
+    }
+    return assignment;
+  }
+
+  /**
+   * The agent takes the lead
+   */
+  async acceptAssignment(
+    assignmentId: string,
+    agentId: string
+  ): Promise<LeadAssignment> {
+    const assignment = await this.getPendingAssignment(assignmentId, agentId);
+    return this.updateStatus(assignment, 'accepted', new Date());
+  }
+
+  /**
+   * The agent turns the lead down; it goes to the next eligible agent.
+   * Returns the new assignment, or null when nobody else can take it.
+   */
+  async declineAssignment(
+    assignmentId: string,
+    agentId: string
+  ): Promise<LeadAssignment | null> {
+    const assignment = await this.getPendingAssignment(assignmentId, agentId);
+    const now = new Date();
+    const declined = await this.updateStatus(assignment, 'declined', now);
+    return this.reassign(declined, now, `Declined by ${agentId}`);
+  }
+
+  /**
+   * Free the agent of a lead, e.g. once it is converted or lost. Returns
+   * false when the lead has no open assignment.
+   */
+  async releaseLead(leadId: string, releasedBy?: string): Promise<boolean> {
+    const assignment = await this.getOpenAssignment(leadId);
+    if (!assignment) return false;
+
+    await this.transaction(async (repositories) => {
+      const released = await this.updateStatus(
+        assignment,
+        'released',
+        new Date(),
+        repositories
+      );
+      await this.writeAssignedAgent(
+        repositories,
+        leadId,
+        assignment.agentId,
+        null,
+        { assignment: released, reason: 'Released', changedBy: releasedBy }
+      );
+    });
+    return true;
+  }
+
+  /**
+   * Pass on every pending assignment the agent did not accept in time
+   */
+  async reassignExpired(at: Date = new Date()): Promise<SlaSweepResult> {
+    const result: SlaSweepResult = {
+      expired: [],
+      reassigned: [],
+      unassignedLeadIds: [],
+    };
+
+    const overdue = (await this.getOpenAssignments()).filter(
+      (a) => a.status === 'pending' && a.acceptBy <= at
+    );
+    for (const assignment of overdue) {
+      const expired = await this.updateStatus(assignment, 'expired', at);
+      result.expired.push(expired);
+
+      const next = await this.reassign(
+        expired,
+        at,
+        `Not accepted within ${this.config.acceptSlaMinutes} minutes`
+      );
+      if (next) {
+        result.reassigned.push(next);
+      } else {
+        result.unassignedLeadIds.push(assignment.leadId);
+      }
+    }
+
+    if (result.expired.length > 0) {
+      logger.info('Reassigned leads not accepted within the SLA', {
+        expired: result.expired.length,
+        reassigned: result.reassigned.length,
+        unassigned: result.unassignedLeadIds.length,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Check the accept SLA periodically
+   */
+  startSlaMonitor(intervalMs: number = this.config.slaCheckIntervalMs): void {
+    this.stopSlaMonitor();
+    this.slaTimer = setInterval(() => {
+      this.reassignExpired().catch((error) =>
+        logger.error('Failed to reassign expired lead assignments', error)
+      );
+    }, intervalMs);
+    this.slaTimer.unref();
+  }
+
+  stopSlaMonitor(): void {
+    if (this.slaTimer) {
+      clearInterval(this.slaTimer);
+      this.slaTimer = undefined;
+    }
+  }
+
+  private getManualAgent(agentId?: string): SalesAgent {
+    if (!agentId) {
+      throw new Error('Manual assignment requires an agent ID');
+    }
+    const agent = this.roster.getAgent(agentId);
+    if (!agent || !agent.active) {
+      throw new Error(`Sales agent ${agentId} is not on the active roster`);
+    }
+    return agent;
+  }
+
+  private async getPendingAssignment(
+    assignmentId: string,
+    agentId: string
+  ): Promise<LeadAssignment> {
+    const assignment = await this.getAssignment(assignmentId);
+    if (!assignment || assignment.status !== 'pending') {
+      throw new Error(`Assignment ${assignmentId} is not pending`);
+    }
+    if (assignment.agentId !== agentId) {
+      throw new Error(
+        `Assignment ${assignmentId} belongs to another sales agent`
+      );
+    }
+    return assignment;
+  }
+
+  /**
+   * Open assignments per agent, from the database when there is one so
+   * assignments made by other instances count too
+   */
+  private async countOpenByAgent(
+    repositories: Partial<Repositories> = this.repositories,
+    agentId?: string
+  ): Promise<Map<string, number>> {
+    if (repositories.leadAssignments) {
+      return repositories.leadAssignments.countOpenByAgent(agentId);
+    }
+
+    const counts = new Map<string, number>();
+    for (const assignment of await this.getOpenAssignments(agentId)) {
+      counts.set(assignment.agentId, (counts.get(assignment.agentId) ?? 0) + 1);
+    }
+    return counts;
+  }
+
+  private filterEligible(
+    requirements: AssignmentRequirements,
+    at: Date,
+    excludeAgentIds: string[],
+    openCounts: Map<string, number>
+  ): SalesAgent[] {
+    return this.roster
+      .getAgents()
+      .filter(
+        (agent) =>
+          !excludeAgentIds.includes(agent.id) &&
+          this.roster.isAvailable(agent.id, at) &&
+          this.roster.hasSkills(agent, requirements) &&
+          (openCounts.get(agent.id) ?? 0) < agent.maxConcurrentLeads
+      );
+  }
+
+  /**
+   * Assign to the best eligible agent. One who filled up in the meantime
+   * (another instance assigned them a lead) is skipped for the next best.
+   */
+  private async assignToEligible(
+    details: Omit<NewAssignment, 'agent' | 'strategy'>,
+    strategy: AutomaticAssignmentStrategy,
+    excludeAgentIds: string[]
+  ): Promise<LeadAssignment | null> {
+    const skipped = [...excludeAgentIds];
+
+    for (;;) {
+      const openCounts = await this.countOpenByAgent();
+      const agent = this.pickAgent(
+        this.filterEligible(
+          details.requirements,
+          details.at,
+          skipped,
+          openCounts
+        ),
+        strategy,
+        openCounts
+      );
+      if (!agent) return null;
+
+      const assignment = await this.createAssignment({
+        ...details,
+        agent,
+        strategy,
+      });
+      if (assignment) return assignment;
+      skipped.push(agent.id);
+    }
+  }
+
+  private pickAgent(
+    candidates: SalesAgent[],
+    strategy: AutomaticAssignmentStrategy,
+    openCounts: Map<string, number>
+  ): SalesAgent | undefined {
+    if (candidates.length === 0) return undefined;
+
+    if (strategy === 'least_loaded') {
+      return this.pickLeastLoaded(candidates, openCounts);
+    }
+    return this.pickWeightedRoundRobin(candidates);
+  }
+
+  /**
+   * Smooth weighted round-robin: every agent gains their weight each turn,
+   * the one with most is picked and pays back the total
+   */
+  private pickWeightedRoundRobin(candidates: SalesAgent[]): SalesAgent {
+    const total = candidates.reduce((sum, agent) => sum + agent.weight, 0);
+
+    let picked = candidates[0];
+    let best = -Infinity;
+    for (const agent of candidates) {
+      const weight = (this.roundRobinWeights.get(agent.id) ?? 0) + agent.weight;
+      this.roundRobinWeights.set(agent.id, weight);
+      if (weight > best) {
+        best = weight;
+        picked = agent;
+      }
+    }
+
+    this.roundRobinWeights.set(picked.id, best - total);
+    return picked;
+  }
+
+  /**
+   * Lowest share of capacity in use; ties go to whoever waited longest
+   */
+  private pickLeastLoaded(
+    candidates: SalesAgent[],
+    openCounts: Map<string, number>
+  ): SalesAgent {
+    const load = (agent: SalesAgent) =>
+      (openCounts.get(agent.id) ?? 0) / agent.maxConcurrentLeads;
+
+    return [...candidates].sort(
+      (a, b) =>
+        load(a) - load(b) ||
+        (this.lastAssignedAt.get(a.id) ?? 0) -
+          (this.lastAssignedAt.get(b.id) ?? 0)
+    )[0];
+  }
+
+  /**
+   * Give the lead of a closed assignment to an agent who has not had it
+   * yet, or leave it unassigned when there is none
+   */
+  private async reassign(
+    previous: LeadAssignment,
+    at: Date,
+    reason: string
+  ): Promise<LeadAssignment | null> {
+    const history = await this.getLeadAssignments(previous.leadId);
+    const triedAgentIds = [
+      previous.agentId,
+      ...history
+        .filter((a) => a.status === 'declined' || a.status === 'expired')
+        .map((a) => a.agentId),
+    ];
+    const strategy =
+      previous.strategy === 'manual'
+        ? this.config.defaultStrategy
+        : previous.strategy;
+
+    const assignment = await this.assignToEligible(
+      {
+        leadId: previous.leadId,
+        requirements: previous.requirements,
+        at,
+        previousAgentId: previous.agentId,
+        previousAssignmentId: previous.id,
+        reason,
+      },
+      strategy,
+      triedAgentIds
+    );
+
+    if (!assignment) {
+      logger.warn('No sales agent left to reassign lead to', {
+        leadId: previous.leadId,
+        assignmentId: previous.id,
+      });
+      await this.transaction((repositories) =>
+        this.writeAssignedAgent(
+          repositories,
+          previous.leadId,
+          previous.agentId,
+          null,
+          {
+            assignment: previous,
+            reason: `${reason}; no other agent available`,
+          }
+        )
+      );
+    }
+    return assignment;
+  }
+
+  /**
+   * Insert the assignment, point the lead at its agent and log the change,
+   * all in one transaction. Returns null when an automatically picked agent
+   * has no capacity left once their row is locked.
+   */
+  private async createAssignment(
+    details: NewAssignment
+  ): Promise<LeadAssignment | null> {
+    const { agent } = details;
+    const assignment: LeadAssignment = {
+      id: generateUUID(),
+      leadId: details.leadId,
+      agentId: agent.id,
+      strategy: details.strategy,
+      status: 'pending',
+      requirements: details.requirements,
+      assignedBy: details.assignedBy,
+      assignedAt: details.at,
+      acceptBy: new Date(
+        details.at.getTime() + this.config.acceptSlaMinutes * 60 * 1000
+      ),
+      previousAssignmentId: details.previousAssignmentId,
+    };
+
+    const created = await this.transaction(async (repositories) => {
+      if (details.strategy !== 'manual') {
+        await repositories.salesAgents?.lock(agent.id);
+        const open = await this.countOpenByAgent(repositories, agent.id);
+        if ((open.get(agent.id) ?? 0) >= agent.maxConcurrentLeads) {
+          return null;
+        }
+      }
+
+      let stored = assignment;
+      if (repositories.leadAssignments) {
+        const inserted = await repositories.leadAssignments.create(assignment);
+        if (!inserted) {
+          throw new Error(`Lead ${details.leadId} is already assigned`);
+        }
+        stored = inserted;
+      }
+
+      await this.writeAssignedAgent(
+        repositories,
+        details.leadId,
+        details.previousAgentId,
+        stored.agentId,
+        {
+          assignment: stored,
+          reason: details.reason,
+          changedBy: details.assignedBy,
+        }
+      );
+      return stored;
+    });
+    if (!created) return null;
+
+    if (!this.repositories.leadAssignments) {
+      this.assignments.set(created.id, created);
+    }
+    this.lastAssignedAt.set(created.agentId, details.at.getTime());
+
+    logger.info('Lead assigned to sales agent', {
+      leadId: created.leadId,
+      agentId: created.agentId,
+      strategy: created.strategy,
+    });
+    return created;
+  }
+
+  private async updateStatus(
+    assignment: LeadAssignment,
+    status: AssignmentStatus,
+    respondedAt: Date,
+    repositories: Partial<Repositories> = this.repositories
+  ): Promise<LeadAssignment> {
+    const updated: LeadAssignment = { ...assignment, status, respondedAt };
+    if (repositories.leadAssignments) {
+      return (
+        (await repositories.leadAssignments.updateStatus(
+          assignment.id,
+          status,
+          respondedAt
+        )) ?? updated
+      );
+    }
+
+    this.assignments.set(assignment.id, updated);
+    return updated;
+  }
+
+  /**
+   * Run writes in one transaction when there is a database; repositories
+   * without one (tests) are used as they are
+   */
+  private async transaction<T>(
+    work: (repositories: Partial<Repositories>) => Promise<T>
+  ): Promise<T> {
+    if (!this.dbManager) return work(this.repositories);
+    return withRepositories(this.dbManager, work);
+  }
+
+  /**
+   * Set leads.assigned_agent and record the change in the audit log
+   */
+  private async writeAssignedAgent(
+    repositories: Partial<Repositories>,
+    leadId: string,
+    oldAgentId: string | undefined,
+    newAgentId: string | null,
+    details: { assignment: LeadAssignment; reason: string; changedBy?: string }
+  ): Promise<void> {
+    if (repositories.leads) {
+      await repositories.leads.assignAgent(leadId, newAgentId);
+    }
+
+    if (repositories.auditLogs) {
+      await repositories.auditLogs.create({
+        entityType: 'lead',
+        entityId: leadId,
+        action: 'update',
+        changes: {
+          assignedAgent: { old: oldAgentId ?? null, new: newAgentId },
+        },
+        userId: details.changedBy,
+        agentId: ASSIGNMENT_AGENT_ID,
+        timestamp: new Date(),
+        metadata: {
+          assignmentId: details.assignment.id,
+          strategy: details.assignment.strategy,
+          reason: details.reason,
+        },
+      });
+    }
+  }
+}
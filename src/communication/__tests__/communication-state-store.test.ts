@@ -0,0 +1,392 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  RedisCommunicationStateStore,
+  contactPeriod,
+} from '../communication-state-store';
+import { ConsentLedger } from '../consent-ledger';
+import { MultiChannelCommunicationManager } from '../multi-channel-manager';
+import { generateUUID } from '../../types/validation';
+
+/**
+ * Just enough of the Redis client for the store, keeping keys and their
+ * expiry times in memory. Keys are not expired; tests move the clock and
+ * check expiry times instead. The contact reservation script runs as its
+ * JavaScript equivalent, atomically like in Redis.
+ */
+function createFakeRedis() {
+  const values = new Map<string, string>();
+  const lists = new Map<string, string[]>();
+  const expiresAt = new Map<string, number>();
+
+  const commands = {
+    get: async (key: string) => values.get(key) ?? null,
+    set: async (
+      key: string,
+      value: string,
+      options?: {
+        condition?: 'NX';
+        expiration?: { type: 'EX' | 'PX'; value: number };
+      }
+    ) => {
+      const expired = (expiresAt.get(key) ?? Infinity) <= Date.now();
+      if (options?.condition === 'NX' && values.has(key) && !expired) {
+        return null;
+      }
+      values.set(key, value);
+      expiresAt.delete(key);
+      if (options?.expiration) {
+        const { type, value: ttl } = options.expiration;
+        expiresAt.set(key, Date.now() + (type === 'EX' ? ttl * 1000 : ttl));
+      }
+      return 'OK';
+    },
+    del: async (key: string) => {
+      values.delete(key);
+      lists.delete(key);
+      return 1;
+    },
+    mGet: async (keys: string[]) => keys.map((key) => values.get(key) ?? null),
+    incr: async (key: string) => {
+      const value = Number(values.get(key) ?? 0) + 1;
+      values.set(key, String(value));
+      return value;
+    },
+    decr: async (key: string) => {
+      const value = Number(values.get(key) ?? 0) - 1;
+      values.set(key, String(value));
+      return value;
+    },
+    lPush: async (key: string, value: string) => {
+      const list = lists.get(key) || [];
+      list.unshift(value);
+      lists.set(key, list);
+      return list.length;
+    },
+    lTrim: async (key: string, start: number, stop: number) => {
+      lists.set(key, (lists.get(key) || []).slice(start, stop + 1));
+      return 'OK';
+    },
+    lRange: async (key: string, start: number, stop: number) =>
+      (lists.get(key) || []).slice(start, stop === -1 ? undefined : stop + 1),
+    expire: async (key: string, seconds: number) => {
+      expiresAt.set(key, Date.now() + seconds * 1000);
+      return 1;
+    },
+    expireAt: async (key: string, unixSeconds: number) => {
+      expiresAt.set(key, unixSeconds * 1000);
+      return 1;
+    },
+  };
+
+  const reserveContact = (
+    [dailyKey, weeklyKey]: string[],
+    [dailyLimit, weeklyLimit, dailyExpiry, weeklyExpiry]: string[]
+  ) => {
+    const daily = Number(values.get(dailyKey) ?? 0);
+    const weekly = Number(values.get(weeklyKey) ?? 0);
+    if (daily >= Number(dailyLimit) || weekly >= Number(weeklyLimit)) {
+      return [0, daily, weekly];
+    }
+    values.set(dailyKey, String(daily + 1));
+    expiresAt.set(dailyKey, Number(dailyExpiry) * 1000);
+    values.set(weeklyKey, String(weekly + 1));
+    expiresAt.set(weeklyKey, Number(weeklyExpiry) * 1000);
+    return [1, daily, weekly];
+  };
+
+  const client = {
+    ...commands,
+    eval: vi.fn(
+      async (
+        script: string,
+        options: { keys: string[]; arguments: string[] }
+      ) => {
+        expect(script).toContain("redis.call('INCR', KEYS[1])");
+        return reserveContact(options.keys, options.arguments);
+      }
+    ),
+    multi: vi.fn(() => {
+      const queued: (() => Promise<unknown>)[] = [];
+      const transaction: any = {
+        exec: async () => {
+          const replies = [];
+          for (const command of queued) replies.push(await command());
+          return replies;
+        },
+      };
+      for (const [name, command] of Object.entries(commands)) {
+        transaction[name] = (...args: unknown[]) => {
+          queued.push(() => (command as any)(...args));
+          return transaction;
+        };
+      }
+      return transaction;
+    }),
+  };
+
+  return { client, values, lists, expiresAt };
+}
+
+describe('RedisCommunicationStateStore', () => {
+  const leadId = generateUUID();
+  let redis: ReturnType<typeof createFakeRedis>;
+  let store: RedisCommunicationStateStore;
+
+  beforeEach(() => {
+    // Wednesday afternoon, server time
+    vi.setSystemTime(new Date(2026, 0, 14, 15, 0, 0));
+    redis = createFakeRedis();
+    store = new RedisCommunicationStateStore(redis.client as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should store preferences with their dates', async () => {
+    const preferences = {
+      leadId,
+      preferredChannels: ['sms' as const],
+      optedOutChannels: [],
+      frequencyLimits: {
+        maxDailyContacts: 2,
+        maxWeeklyContacts: 5,
+        cooldownPeriodHours: 4,
+      },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await store.savePreferences(preferences);
+
+    expect(await store.getPreferences(leadId)).toEqual(preferences);
+    expect(await store.getPreferences(generateUUID())).toBeNull();
+  });
+
+  it('should count contacts in counters expiring after their period', async () => {
+    const limits = { daily: 3, weekly: 10 };
+    const period = contactPeriod(new Date(), 'America/Sao_Paulo');
+
+    expect(await store.reserveContact(leadId, period, limits)).toEqual({
+      reserved: true,
+      counts: { daily: 0, weekly: 0 },
+    });
+    await store.reserveContact(leadId, period, limits);
+
+    expect(await store.getContactCounts(leadId, period)).toEqual({
+      daily: 2,
+      weekly: 2,
+    });
+
+    const dailyKey = `communication:contacts:day:${leadId}:2026-01-14`;
+    const weeklyKey = `communication:contacts:week:${leadId}:2026-01-11`;
+    expect(redis.values.get(dailyKey)).toBe('2');
+    expect(redis.values.get(weeklyKey)).toBe('2');
+    // A day after the end of the day and of the week in São Paulo
+    expect(redis.expiresAt.get(dailyKey)).toBe(
+      new Date('2026-01-16T03:00:00.000Z').getTime()
+    );
+    expect(redis.expiresAt.get(weeklyKey)).toBe(
+      new Date('2026-01-19T03:00:00.000Z').getTime()
+    );
+
+    // Thursday starts a new day in the same week
+    expect(
+      await store.getContactCounts(
+        leadId,
+        contactPeriod(new Date('2026-01-15T13:00:00.000Z'), 'America/Sao_Paulo')
+      )
+    ).toEqual({ daily: 0, weekly: 2 });
+  });
+
+  it('should count days and weeks in the given timezone', () => {
+    // Saturday 23:30 in São Paulo is already Sunday in UTC
+    const at = new Date('2026-01-18T02:30:00.000Z');
+
+    expect(contactPeriod(at, 'America/Sao_Paulo')).toEqual({
+      day: '2026-01-17',
+      week: '2026-01-11',
+      dayEnd: new Date('2026-01-18T03:00:00.000Z'),
+      weekEnd: new Date('2026-01-18T03:00:00.000Z'),
+    });
+    expect(contactPeriod(at, 'UTC')).toMatchObject({
+      day: '2026-01-18',
+      week: '2026-01-18',
+    });
+  });
+
+  it('should not reserve more contacts than the limits concurrently', async () => {
+    const period = contactPeriod(new Date(), 'UTC');
+    const limits = { daily: 2, weekly: 10 };
+
+    const reservations = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        store.reserveContact(leadId, period, limits)
+      )
+    );
+
+    expect(reservations.filter((r) => r.reserved)).toHaveLength(2);
+    expect(reservations.map((r) => r.counts.daily)).toEqual([0, 1, 2, 2, 2]);
+    expect(await store.getContactCounts(leadId, period)).toEqual({
+      daily: 2,
+      weekly: 2,
+    });
+    // Refused reservations are never counted, not even for a moment
+    expect(redis.client.eval).toHaveBeenCalledTimes(5);
+    expect(redis.client.multi).not.toHaveBeenCalled();
+  });
+
+  it('should give back released contacts', async () => {
+    const period = contactPeriod(new Date(), 'UTC');
+    const limits = { daily: 1, weekly: 10 };
+
+    await store.reserveContact(leadId, period, limits);
+    await store.releaseContact(leadId, period);
+
+    expect(await store.getContactCounts(leadId, period)).toEqual({
+      daily: 0,
+      weekly: 0,
+    });
+    expect(
+      (await store.reserveContact(leadId, period, limits)).reserved
+    ).toBe(true);
+  });
+
+  it('should claim each idempotency key once until it is released', async () => {
+    const claims = await Promise.all(
+      Array.from({ length: 3 }, () => store.claimSend('sequence-1:step:0'))
+    );
+
+    expect(claims.filter(Boolean)).toHaveLength(1);
+    expect(
+      redis.expiresAt.get('communication:sends:sequence-1:step:0')
+    ).toBe(Date.now() + 10 * 60 * 1000);
+
+    await store.releaseSend('sequence-1:step:0');
+    expect(await store.claimSend('sequence-1:step:0')).toBe(true);
+  });
+
+  it('should keep confirmed sends and let unconfirmed claims lapse', async () => {
+    await store.claimSend('sequence-1:step:0');
+    await store.confirmSend('sequence-1:step:0');
+    expect(
+      redis.expiresAt.get('communication:sends:sequence-1:step:0')
+    ).toBe(Date.now() + 30 * 24 * 60 * 60 * 1000);
+
+    // The sender of step 1 died before confirming
+    await store.claimSend('sequence-1:step:1');
+    vi.setSystemTime(Date.now() + 11 * 60 * 1000);
+
+    expect(await store.claimSend('sequence-1:step:0')).toBe(false);
+    expect(await store.claimSend('sequence-1:step:1')).toBe(true);
+  });
+
+  it('should return attempts oldest first', async () => {
+    for (const channel of ['email', 'sms', 'whatsapp'] as const) {
+      await store.recordAttempt({
+        id: generateUUID(),
+        leadId,
+        channel,
+        attemptedAt: new Date(),
+        successful: true,
+      });
+    }
+
+    const attempts = await store.getAttempts(leadId);
+    expect(attempts.map((attempt) => attempt.channel)).toEqual([
+      'email',
+      'sms',
+      'whatsapp',
+    ]);
+    expect(attempts[0].attemptedAt).toBeInstanceOf(Date);
+  });
+
+  it('should expire idle conversation contexts', async () => {
+    const context = {
+      id: generateUUID(),
+      leadId,
+      topic: 'viewing',
+      lastChannel: 'email' as const,
+      context: { propertyId: 'p-1' },
+      interactionIds: [generateUUID()],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await store.saveContexts(leadId, [context]);
+
+    expect(await store.getContexts(leadId)).toEqual([context]);
+    expect(redis.expiresAt.get(`communication:contexts:${leadId}`)).toBe(
+      Date.now() + 90 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('should share deliveries and email threads between instances', async () => {
+    const provider = {
+      name: 'smtp',
+      channel: 'email' as const,
+      send: vi.fn().mockResolvedValue({
+        provider: 'smtp',
+        messageId: 'abc@example.com',
+        status: 'sent',
+      }),
+    };
+    const sender = new MultiChannelCommunicationManager([provider], {
+      store,
+      consentLedger: new ConsentLedger({ requireOptIn: [] }),
+    });
+    const receiver = new MultiChannelCommunicationManager([provider], {
+      store: new RedisCommunicationStateStore(redis.client as any),
+      consentLedger: new ConsentLedger({ requireOptIn: [] }),
+    });
+
+    await sender.sendMessage({
+      leadId,
+      channel: 'email',
+      to: 'lead@example.com',
+      content: 'Checking in',
+      timezone: 'UTC',
+    });
+    await sender.saveThreadLead('thread-1', leadId);
+
+    expect(await receiver.getDelivery('abc@example.com')).toMatchObject({
+      leadId,
+      status: 'sent',
+      sentAt: new Date(),
+    });
+    expect(await receiver.getThreadLead('thread-1')).toBe(leadId);
+    expect(redis.expiresAt.get('communication:threads:thread-1')).toBe(
+      Date.now() + 90 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('should apply frequency limits across manager instances', async () => {
+    const ledger = new ConsentLedger({ requireOptIn: [] });
+    const first = new MultiChannelCommunicationManager([], {
+      store,
+      consentLedger: ledger,
+    });
+    const second = new MultiChannelCommunicationManager([], {
+      store,
+      consentLedger: ledger,
+    });
+
+    await first.setCommunicationPreferences({
+      leadId,
+      preferredChannels: ['email', 'sms'],
+      frequencyLimits: {
+        maxDailyContacts: 2,
+        maxWeeklyContacts: 5,
+        cooldownPeriodHours: 1,
+      },
+    });
+    await first.recordCommunicationAttempt(leadId, 'email', true);
+    await first.recordCommunicationAttempt(leadId, 'sms', true);
+
+    const result = await second.canCommunicate(leadId, 'whatsapp', {
+      timezone: 'UTC',
+    });
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toContain('Daily communication limit (2)');
+  });
+});
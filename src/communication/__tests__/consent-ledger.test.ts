@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ConsentLedger, detectConsentKeyword } from '../consent-ledger';
+import {
+  buildUnsubscribeUrl,
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+} from '../unsubscribe-links';
+
+const LEAD_ID = '550e8400-e29b-41d4-a716-446655440000';
+
+describe('ConsentLedger', () => {
+  let ledger: ConsentLedger;
+
+  beforeEach(() => {
+    ledger = new ConsentLedger({ requireOptIn: [] });
+  });
+
+  it('should treat the latest event per channel as the current consent', async () => {
+    expect(await ledger.getStatus(LEAD_ID, 'sms')).toBe('unknown');
+
+    await ledger.record(LEAD_ID, 'sms', 'opt_in', { source: 'lead_form' });
+    await ledger.record(LEAD_ID, 'sms', 'opt_out', {
+      source: 'inbound_keyword',
+      evidence: { keyword: 'STOP' },
+    });
+
+    expect(await ledger.getStatus(LEAD_ID, 'sms')).toBe('revoked');
+    expect(await ledger.getStatus(LEAD_ID, 'email')).toBe('unknown');
+    expect(await ledger.hasValidConsent(LEAD_ID, 'sms')).toBe(false);
+    expect(await ledger.hasValidConsent(LEAD_ID, 'email')).toBe(true);
+
+    const history = await ledger.getHistory(LEAD_ID);
+    expect(history.map((event) => event.action)).toEqual(['opt_in', 'opt_out']);
+    expect(history[1]).toMatchObject({
+      channel: 'sms',
+      source: 'inbound_keyword',
+      evidence: { keyword: 'STOP' },
+    });
+  });
+
+  it('should require an opt-in on configured channels', async () => {
+    ledger = new ConsentLedger({ requireOptIn: ['whatsapp'] });
+
+    expect(await ledger.hasValidConsent(LEAD_ID, 'whatsapp')).toBe(false);
+    expect(await ledger.hasValidConsent(LEAD_ID, 'sms')).toBe(true);
+
+    await ledger.record(LEAD_ID, 'whatsapp', 'opt_in', { source: 'lead_form' });
+    expect(await ledger.hasValidConsent(LEAD_ID, 'whatsapp')).toBe(true);
+  });
+
+  it('should require an opt-in on every channel by default', async () => {
+    const configured = process.env.CONSENT_REQUIRED_CHANNELS;
+    delete process.env.CONSENT_REQUIRED_CHANNELS;
+    vi.resetModules();
+    try {
+      const { ConsentLedger: DefaultLedger } = await import('../consent-ledger');
+      ledger = new DefaultLedger();
+
+      for (const channel of ['email', 'sms', 'voice', 'whatsapp'] as const) {
+        expect(await ledger.hasValidConsent(LEAD_ID, channel)).toBe(false);
+      }
+    } finally {
+      process.env.CONSENT_REQUIRED_CHANNELS = configured;
+      vi.resetModules();
+    }
+  });
+
+  it('should read and append through the repository when configured', async () => {
+    const repository = {
+      record: vi.fn(async (event) => event),
+      findLatest: vi.fn().mockResolvedValue({ action: 'opt_out' }),
+      findByLead: vi.fn().mockResolvedValue([]),
+    };
+    ledger = new ConsentLedger({ repository: repository as any });
+
+    await ledger.record(LEAD_ID, 'email', 'opt_in', { source: 'api' });
+
+    expect(repository.record).toHaveBeenCalledWith(
+      expect.objectContaining({ leadId: LEAD_ID, action: 'opt_in' })
+    );
+    // Another process may have recorded an opt-out since
+    expect(await ledger.getStatus(LEAD_ID, 'email')).toBe('revoked');
+    expect(repository.findLatest).toHaveBeenCalledWith(LEAD_ID, 'email');
+  });
+
+  it('should reject events for invalid lead ids', async () => {
+    await expect(
+      ledger.record('not-a-lead', 'sms', 'opt_out', { source: 'api' })
+    ).rejects.toThrow();
+  });
+});
+
+describe('detectConsentKeyword', () => {
+  it.each(['STOP', 'stop', ' Stop. ', 'PARAR', 'Sair', 'unsubscribe', 'Stop all'])(
+    'should treat "%s" as an opt-out',
+    (text) => {
+      expect(detectConsentKeyword(text)?.action).toBe('opt_out');
+    }
+  );
+
+  it('should detect opt-ins and ignore accents', () => {
+    expect(detectConsentKeyword('START')).toEqual({
+      action: 'opt_in',
+      keyword: 'START',
+    });
+    expect(detectConsentKeyword('Descadastrár')?.keyword).toBe('DESCADASTRAR');
+  });
+
+  it('should ignore keywords inside longer messages', () => {
+    expect(detectConsentKeyword("Please don't stop sending listings")).toBeNull();
+    expect(detectConsentKeyword('When can we meet?')).toBeNull();
+  });
+});
+
+describe('unsubscribe links', () => {
+  const secret = 'link-secret';
+
+  it('should round-trip the lead and channel', () => {
+    const token = createUnsubscribeToken(LEAD_ID, 'email', secret);
+
+    expect(verifyUnsubscribeToken(token, secret)).toEqual({
+      leadId: LEAD_ID,
+      channel: 'email',
+    });
+  });
+
+  it('should reject tampered and foreign tokens', () => {
+    const token = createUnsubscribeToken(LEAD_ID, 'email', secret);
+    const [, signature] = token.split('.');
+    const forged = `${Buffer.from('other-lead:email').toString('base64url')}.${signature}`;
+
+    expect(verifyUnsubscribeToken(forged, secret)).toBeNull();
+    expect(verifyUnsubscribeToken(token, 'other-secret')).toBeNull();
+    expect(verifyUnsubscribeToken('garbage', secret)).toBeNull();
+  });
+
+  it('should build links under the base url', () => {
+    const url = buildUnsubscribeUrl(
+      { baseUrl: 'https://leads.example.com/', secret },
+      LEAD_ID,
+      'email'
+    );
+
+    expect(url).toBe(
+      `https://leads.example.com/unsubscribe/${createUnsubscribeToken(LEAD_ID, 'email', secret)}`
+    );
+  });
+});
@@ -0,0 +1,357 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InboundMessageRouter, InboundMessage } from '../inbound-message-router';
+import { ConsentLedger } from '../consent-ledger';
+import { MultiChannelCommunicationManager } from '../multi-channel-manager';
+import { MessageProvider } from '../providers/message-provider';
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+const WAITING_LEAD_ID = '00000000-0000-4000-8000-000000000001';
+const NEW_LEAD_ID = '00000000-0000-4000-8000-000000000002';
+const OLD_LEAD_ID = '00000000-0000-4000-8000-000000000003';
+const LEAD_ID = '00000000-0000-4000-8000-000000000004';
+const EMAIL_LEAD_ID = '00000000-0000-4000-8000-000000000005';
+const REPLIED_LEAD_ID = '00000000-0000-4000-8000-000000000006';
+
+function lead(id: string, updatedAt = new Date('2026-01-01')) {
+  return { id, updatedAt } as any;
+}
+
+// The agent finds this session for its lead and none for others
+function withSession(agent: { findActiveSession: any }, session: any) {
+  agent.findActiveSession.mockImplementation(async (leadId: string) =>
+    leadId === session.leadId ? session : undefined
+  );
+}
+
+function message(overrides: Partial<InboundMessage> = {}): InboundMessage {
+  return {
+    channel: 'sms',
+    from: '+1 (555) 123-4567',
+    content: 'Yes, I am still interested',
+    externalId: 'sms-1',
+    receivedAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('InboundMessageRouter', () => {
+  let leads: { findByEmail: any; findByPhoneDigits: any };
+  let interactions: { create: any };
+  let retention: { findActiveSession: any; handleCustomerResponse: any };
+  let feedback: { findActiveSession: any; handleFeedbackResponse: any };
+  let router: InboundMessageRouter;
+
+  beforeEach(() => {
+    // Messages are only sent inside the lead's send window
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    leads = {
+      findByEmail: vi.fn().mockResolvedValue([]),
+      findByPhoneDigits: vi.fn().mockResolvedValue([lead(LEAD_ID)]),
+    };
+    interactions = { create: vi.fn().mockResolvedValue({}) };
+    retention = {
+      findActiveSession: vi.fn().mockResolvedValue(undefined),
+      handleCustomerResponse: vi.fn().mockResolvedValue({ sentiment: 'positive' }),
+    };
+    feedback = {
+      findActiveSession: vi.fn().mockResolvedValue(undefined),
+      handleFeedbackResponse: vi.fn().mockResolvedValue({ sentiment: 'positive' }),
+    };
+
+    router = new InboundMessageRouter(
+      { retention: retention as any, feedback: feedback as any },
+      { leads: leads as any, interactions: interactions as any }
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should dispatch replies to the active re-engagement session', async () => {
+    withSession(retention, {
+      id: 'reengagement-1',
+      leadId: LEAD_ID,
+      startedAt: new Date(),
+    });
+
+    const result = await router.route(message());
+
+    expect(leads.findByPhoneDigits).toHaveBeenCalledWith([
+      '15551234567',
+      '5551234567',
+    ]);
+    expect(retention.handleCustomerResponse).toHaveBeenCalledWith(
+      LEAD_ID,
+      'Yes, I am still interested',
+      'sms'
+    );
+    expect(result).toMatchObject({
+      route: 're_engagement',
+      leadId: LEAD_ID,
+      sessionId: 'reengagement-1',
+    });
+    expect(interactions.create).not.toHaveBeenCalled();
+  });
+
+  it('should prefer the most recently started session', async () => {
+    withSession(retention, {
+      id: 'reengagement-1',
+      leadId: LEAD_ID,
+      startedAt: new Date('2026-01-01'),
+    });
+    withSession(feedback, {
+      id: 'feedback-1',
+      leadId: LEAD_ID,
+      status: 'active',
+      startedAt: new Date('2026-02-01'),
+    });
+
+    const result = await router.route(message({ channel: 'whatsapp' }));
+
+    expect(feedback.handleFeedbackResponse).toHaveBeenCalledWith(
+      LEAD_ID,
+      'Yes, I am still interested',
+      'whatsapp'
+    );
+    expect(retention.handleCustomerResponse).not.toHaveBeenCalled();
+    expect(result.route).toBe('feedback');
+  });
+
+  it('should answer replies in the active sales conversation', async () => {
+    const sales = {
+      findActiveSession: vi.fn(),
+      processCustomerResponse: vi
+        .fn()
+        .mockResolvedValue('Great! What is your budget?'),
+    };
+    withSession(sales, {
+      id: 'vsa-1',
+      leadId: LEAD_ID,
+      channel: 'sms',
+      startTime: new Date('2026-02-01'),
+    });
+    withSession(retention, {
+      id: 'reengagement-1',
+      leadId: LEAD_ID,
+      startedAt: new Date('2026-01-01'),
+    });
+    router = new InboundMessageRouter(
+      { sales: sales as any, retention: retention as any },
+      { leads: leads as any, interactions: interactions as any }
+    );
+
+    const result = await router.route(message());
+
+    expect(sales.processCustomerResponse).toHaveBeenCalledWith(
+      'vsa-1',
+      'Yes, I am still interested'
+    );
+    expect(retention.handleCustomerResponse).not.toHaveBeenCalled();
+    expect(result).toEqual({
+      route: 'sales',
+      leadId: LEAD_ID,
+      sessionId: 'vsa-1',
+      reply: 'Great! What is your budget?',
+    });
+    expect(interactions.create).toHaveBeenCalledWith(
+      expect.objectContaining({ leadId: LEAD_ID, direction: 'inbound' })
+    );
+  });
+
+  it('should only answer sales conversations on their own channel', async () => {
+    const sales = {
+      findActiveSession: vi.fn(),
+      processCustomerResponse: vi.fn(),
+    };
+    withSession(sales, {
+      id: 'vsa-1',
+      leadId: LEAD_ID,
+      channel: 'whatsapp',
+      startTime: new Date(),
+    });
+    router = new InboundMessageRouter(
+      { sales: sales as any },
+      { leads: leads as any, interactions: interactions as any }
+    );
+
+    const result = await router.route(message());
+
+    expect(sales.processCustomerResponse).not.toHaveBeenCalled();
+    expect(result).toEqual({ route: 'unrouted', leadId: LEAD_ID });
+  });
+
+  it('should match email senders by address', async () => {
+    leads.findByEmail.mockResolvedValue([lead(EMAIL_LEAD_ID)]);
+    withSession(feedback, {
+      id: 'feedback-2',
+      leadId: EMAIL_LEAD_ID,
+      status: 'active',
+      startedAt: new Date(),
+    });
+
+    const result = await router.route(
+      message({ channel: 'email', from: 'lead@example.com', threadId: 'thread-1' })
+    );
+
+    expect(leads.findByEmail).toHaveBeenCalledWith('lead@example.com');
+    expect(result).toMatchObject({ route: 'feedback', leadId: EMAIL_LEAD_ID });
+  });
+
+  it('should keep email threads with the lead that started them', async () => {
+    router = new InboundMessageRouter(
+      { retention: retention as any, feedback: feedback as any },
+      { leads: leads as any, interactions: interactions as any },
+      new MultiChannelCommunicationManager()
+    );
+    leads.findByEmail.mockResolvedValueOnce([lead(EMAIL_LEAD_ID)]);
+    await router.route(
+      message({ channel: 'email', from: 'lead@example.com', threadId: 'thread-1' })
+    );
+
+    // A reply from another address in the same conversation
+    const result = await router.route(
+      message({ channel: 'email', from: 'spouse@example.com', threadId: 'thread-1' })
+    );
+
+    expect(leads.findByEmail).toHaveBeenCalledTimes(1);
+    expect(result.leadId).toBe(EMAIL_LEAD_ID);
+  });
+
+  it('should match email replies to the message they answer', async () => {
+    const provider: MessageProvider = {
+      name: 'smtp',
+      channel: 'email',
+      send: vi.fn().mockResolvedValue({
+        provider: 'smtp',
+        messageId: 'abc@example.com',
+        status: 'sent',
+      }),
+    };
+    const manager = new MultiChannelCommunicationManager([provider], {
+      consentLedger: new ConsentLedger({ requireOptIn: [] }),
+    });
+    await manager.sendMessage({
+      leadId: REPLIED_LEAD_ID,
+      channel: 'email',
+      to: 'old-address@example.com',
+      content: 'Checking in',
+      timezone: 'UTC',
+    });
+
+    router = new InboundMessageRouter(
+      { retention: retention as any },
+      { leads: leads as any, interactions: interactions as any },
+      manager
+    );
+
+    const result = await router.route(
+      message({
+        channel: 'email',
+        from: 'new-address@example.com',
+        inReplyTo: '<abc@example.com>',
+      })
+    );
+
+    expect(result.leadId).toBe(REPLIED_LEAD_ID);
+    expect(leads.findByEmail).not.toHaveBeenCalled();
+  });
+
+  it('should match Brazilian numbers with or without the country code', async () => {
+    await router.route(message({ from: '+55 11 98765-4321' }));
+    await router.route(message({ from: '(11) 98765-4321' }));
+
+    expect(leads.findByPhoneDigits).toHaveBeenNthCalledWith(1, [
+      '5511987654321',
+      '11987654321',
+    ]);
+    expect(leads.findByPhoneDigits).toHaveBeenNthCalledWith(2, [
+      '5511987654321',
+      '11987654321',
+    ]);
+  });
+
+  it('should prefer the lead with an active session among matches', async () => {
+    leads.findByPhoneDigits.mockResolvedValue([
+      lead(NEW_LEAD_ID, new Date('2026-03-01')),
+      lead(WAITING_LEAD_ID, new Date('2026-01-01')),
+    ]);
+    withSession(retention, {
+      id: 'reengagement-1',
+      leadId: WAITING_LEAD_ID,
+      startedAt: new Date(),
+    });
+
+    const result = await router.route(message());
+
+    expect(result.leadId).toBe(WAITING_LEAD_ID);
+  });
+
+  it('should record replies without an active session', async () => {
+    leads.findByPhoneDigits.mockResolvedValue([
+      lead(OLD_LEAD_ID, new Date('2026-01-01')),
+      lead(NEW_LEAD_ID, new Date('2026-03-01')),
+    ]);
+
+    const result = await router.route(message());
+
+    expect(result).toEqual({ route: 'unrouted', leadId: NEW_LEAD_ID });
+    expect(interactions.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        leadId: NEW_LEAD_ID,
+        agentId: 'inbound-message-router',
+        type: 'sms',
+        direction: 'inbound',
+        content: 'Yes, I am still interested',
+      })
+    );
+  });
+
+  it('should report unknown senders', async () => {
+    leads.findByPhoneDigits.mockResolvedValue([]);
+
+    const result = await router.route(message());
+
+    expect(result).toEqual({ route: 'unknown_sender' });
+    expect(interactions.create).not.toHaveBeenCalled();
+  });
+
+  it('should apply consent keywords before dispatching', async () => {
+    const manager = new MultiChannelCommunicationManager();
+    router = new InboundMessageRouter(
+      { retention: retention as any },
+      { leads: leads as any, interactions: interactions as any },
+      manager
+    );
+    withSession(retention, {
+      id: 'reengagement-1',
+      leadId: LEAD_ID,
+      startedAt: new Date(),
+    });
+
+    const result = await router.route(message({ content: 'PARAR' }));
+
+    expect(result).toEqual({ route: 'opt_out', leadId: LEAD_ID });
+    expect(retention.handleCustomerResponse).not.toHaveBeenCalled();
+    expect(await manager.canCommunicate(LEAD_ID, 'sms')).toMatchObject({
+      allowed: false,
+      reason: 'Lead has opted out of sms communications',
+    });
+
+    const [event] = await manager.getConsentLedger().getHistory(LEAD_ID);
+    expect(event).toMatchObject({
+      action: 'opt_out',
+      source: 'inbound_keyword',
+      evidence: { keyword: 'PARAR', from: '+1 (555) 123-4567', externalId: 'sms-1' },
+    });
+    expect(interactions.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        content: 'PARAR',
+        outcome: expect.objectContaining({ status: 'successful' }),
+      })
+    );
+  });
+});
@@ -1,21 +1,43 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { MultiChannelCommunicationManager } from '../multi-channel-manager';
+import { InMemoryCommunicationStateStore } from '../communication-state-store';
 import {
   CommunicationChannel,
   CommunicationPreference,
   ChannelSelectionCriteria,
 } from '../../types/communication';
 import { generateUUID } from '../../types/validation';
+import { MessageChannel, MessageProvider } from '../providers';
+import { ConsentLedger } from '../consent-ledger';
+import { verifyUnsubscribeToken } from '../unsubscribe-links';
+import { SendWindowScheduler } from '../../scheduling/send-window';
+import { InMemoryJobStore, JobQueue, JobWorker } from '../../jobs';
+
+// Weekday afternoon, inside every legal send window
+const BUSINESS_HOURS = new Date('2026-01-14T15:00:00.000Z');
+
+const ALL_DAY = [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+  dayOfWeek: day,
+  start: '00:00',
+  end: '24:00',
+}));
 
 describe('MultiChannelCommunicationManager', () => {
   let manager: MultiChannelCommunicationManager;
   const testLeadId = '550e8400-e29b-41d4-a716-446655440000';
 
   beforeEach(() => {
-    manager = new MultiChannelCommunicationManager();
+    // Only the consent tests require opt-ins
+    manager = new MultiChannelCommunicationManager([], {
+      consentLedger: new ConsentLedger({ requireOptIn: [] }),
+    });
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
   describe('Communication Preferences', () => {
     it('should set and get communication preferences', async () => {
       const preferences = {
@@ -199,6 +221,7 @@ describe('MultiChannelCommunicationManager', () => {
 
   describe('Frequency Capping', () => {
     beforeEach(async () => {
+      vi.setSystemTime(BUSINESS_HOURS);
       await manager.setCommunicationPreferences({
         leadId: testLeadId,
         preferredChannels: ['email', 'sms'],
@@ -212,7 +235,9 @@ describe('MultiChannelCommunicationManager', () => {
     });
 
     it('should allow communication when within limits', async () => {
-      const result = await manager.canCommunicate(testLeadId, 'email');
+      const result = await manager.canCommunicate(testLeadId, 'email', {
+        timezone: 'UTC',
+      });
       expect(result.allowed).toBe(true);
     });
 
@@ -221,17 +246,58 @@ describe('MultiChannelCommunicationManager', () => {
       await manager.recordCommunicationAttempt(testLeadId, 'email', true);
       await manager.recordCommunicationAttempt(testLeadId, 'sms', true);
 
-      const result = await manager.canCommunicate(testLeadId, 'email');
+      const result = await manager.canCommunicate(testLeadId, 'email', {
+        timezone: 'UTC',
+      });
       expect(result.allowed).toBe(false);
       expect(result.reason).toContain('Daily communication limit');
       expect(result.nextAllowedTime).toBeTruthy();
     });
 
+    it("should count days and reopen them in the lead's timezone", async () => {
+      const timezone = 'America/Los_Angeles';
+      // 09:00 in Los Angeles
+      vi.setSystemTime(new Date('2026-01-14T17:00:00.000Z'));
+      await manager.recordCommunicationAttempt(
+        testLeadId,
+        'email',
+        true,
+        undefined,
+        undefined,
+        timezone
+      );
+      await manager.recordCommunicationAttempt(
+        testLeadId,
+        'sms',
+        true,
+        undefined,
+        undefined,
+        timezone
+      );
+
+      const result = await manager.canCommunicate(testLeadId, 'whatsapp', {
+        timezone,
+      });
+      // 08:00 the next morning in Los Angeles
+      expect(result.nextAllowedTime).toEqual(
+        new Date('2026-01-15T16:00:00.000Z')
+      );
+
+      // Already the next day in UTC, still the same one in Los Angeles
+      vi.setSystemTime(new Date('2026-01-15T02:00:00.000Z'));
+      expect(
+        (await manager.canCommunicate(testLeadId, 'whatsapp', { timezone }))
+          .reason
+      ).toContain('Daily communication limit');
+    });
+
     it('should block communication during cooldown period', async () => {
       // Record a recent attempt on the same channel
       await manager.recordCommunicationAttempt(testLeadId, 'email', true);
 
-      const result = await manager.canCommunicate(testLeadId, 'email');
+      const result = await manager.canCommunicate(testLeadId, 'email', {
+        timezone: 'UTC',
+      });
       expect(result.allowed).toBe(false);
       expect(result.reason).toContain('Cooldown period active');
     });
@@ -499,6 +565,11 @@ describe('MultiChannelCommunicationManager', () => {
     });
 
     it('should handle overnight contact time ranges', async () => {
+      // Legal quiet hours would block 11 PM too, so lift them here
+      manager = new MultiChannelCommunicationManager([], {
+        sendWindows: new SendWindowScheduler({ default: ALL_DAY }),
+        consentLedger: new ConsentLedger({ requireOptIn: [] }),
+      });
       await manager.setCommunicationPreferences({
         leadId: testLeadId,
         preferredChannels: ['email'],
@@ -526,4 +597,525 @@ describe('MultiChannelCommunicationManager', () => {
       expect(result.allowed).toBe(false);
     });
   });
+
+  describe('Message Sending', () => {
+    let emailProvider: MessageProvider & {
+      send: ReturnType<typeof vi.fn>;
+      parseDeliveryReceipts: ReturnType<typeof vi.fn>;
+    };
+
+    function createMessage(channel: MessageChannel = 'email') {
+      return {
+        leadId: testLeadId,
+        channel,
+        to: 'lead@example.com',
+        subject: 'Hello',
+        content: 'Are you still looking for a home?',
+        timezone: 'UTC',
+      };
+    }
+
+    beforeEach(() => {
+      emailProvider = {
+        name: 'mock-email',
+        channel: 'email',
+        send: vi.fn().mockResolvedValue({
+          provider: 'mock-email',
+          messageId: 'message-1',
+          status: 'queued',
+        }),
+        parseDeliveryReceipts: vi.fn(),
+      };
+      manager = new MultiChannelCommunicationManager([emailProvider], {
+        consentLedger: new ConsentLedger({ requireOptIn: [] }),
+      });
+      vi.setSystemTime(BUSINESS_HOURS);
+    });
+
+    it('should send through the channel provider and record the attempt', async () => {
+      const result = await manager.sendMessage(createMessage());
+
+      expect(result.sent).toBe(true);
+      expect(emailProvider.send).toHaveBeenCalledWith({
+        channel: 'email',
+        to: 'lead@example.com',
+        subject: 'Hello',
+        content: 'Are you still looking for a home?',
+        attachments: undefined,
+        metadata: { leadId: testLeadId },
+      });
+      expect(result.delivery).toMatchObject({
+        messageId: 'message-1',
+        provider: 'mock-email',
+        leadId: testLeadId,
+        status: 'queued',
+      });
+
+      const attempts = await manager.getCommunicationAttempts(testLeadId);
+      expect(attempts).toHaveLength(1);
+      expect(attempts[0].successful).toBe(true);
+    });
+
+    it('should not send or count messages blocked by an opt-out', async () => {
+      await manager.optOutFromChannel(testLeadId, 'email');
+
+      const result = await manager.sendMessage(createMessage());
+
+      expect(result.sent).toBe(false);
+      expect(result.reason).toContain('opted out');
+      expect(emailProvider.send).not.toHaveBeenCalled();
+      expect(await manager.getCommunicationAttempts(testLeadId)).toHaveLength(0);
+    });
+
+    it('should enforce the cooldown unless the message is a reply', async () => {
+      await manager.sendMessage(createMessage());
+
+      const followUp = await manager.sendMessage(createMessage());
+      expect(followUp.sent).toBe(false);
+      expect(followUp.nextAllowedTime).toBeInstanceOf(Date);
+
+      const reply = await manager.sendMessage({
+        ...createMessage(),
+        reply: true,
+      });
+      expect(reply.sent).toBe(true);
+      expect(emailProvider.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should record provider failures as unsuccessful attempts', async () => {
+      emailProvider.send.mockRejectedValue(new Error('Relay unavailable'));
+
+      const result = await manager.sendMessage(createMessage());
+
+      expect(result).toEqual({ sent: false, reason: 'Relay unavailable' });
+      const attempts = await manager.getCommunicationAttempts(testLeadId);
+      expect(attempts[0].successful).toBe(false);
+      expect(attempts[0].failureReason).toBe('Relay unavailable');
+      expect(await manager.getRecentFailedChannels(testLeadId)).toEqual([
+        'email',
+      ]);
+    });
+
+    it('should not count failed sends against the limits', async () => {
+      await manager.setCommunicationPreferences({
+        leadId: testLeadId,
+        preferredChannels: ['email'],
+        frequencyLimits: {
+          maxDailyContacts: 1,
+          maxWeeklyContacts: 5,
+          cooldownPeriodHours: 4,
+        },
+      });
+      emailProvider.send.mockRejectedValueOnce(new Error('Relay unavailable'));
+
+      expect((await manager.sendMessage(createMessage())).sent).toBe(false);
+      expect((await manager.sendMessage(createMessage())).sent).toBe(true);
+
+      const result = await manager.sendMessage(createMessage());
+      expect(result.sent).toBe(false);
+      expect(result.reason).toBe('Daily communication limit (1) reached');
+    });
+
+    it('should not send more messages than the limits concurrently', async () => {
+      await manager.setCommunicationPreferences({
+        leadId: testLeadId,
+        preferredChannels: ['email'],
+        frequencyLimits: {
+          maxDailyContacts: 2,
+          maxWeeklyContacts: 5,
+          cooldownPeriodHours: 4,
+        },
+      });
+
+      const results = await Promise.all(
+        Array.from({ length: 4 }, () => manager.sendMessage(createMessage()))
+      );
+
+      expect(results.filter((result) => result.sent)).toHaveLength(2);
+      expect(emailProvider.send).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report channels without a provider', async () => {
+      const result = await manager.sendMessage(createMessage('sms'));
+
+      expect(result.sent).toBe(false);
+      expect(result.reason).toBe('No message provider configured for sms');
+    });
+
+    it('should send notifications without lead frequency limits', async () => {
+      for (let i = 0; i < 5; i++) {
+        const result = await manager.sendNotification({
+          channel: 'email',
+          to: 'management@example.com',
+          content: `Escalation ${i}`,
+        });
+        expect(result.sent).toBe(true);
+        expect(result.delivery?.leadId).toBeUndefined();
+      }
+      expect(emailProvider.send).toHaveBeenCalledTimes(5);
+    });
+
+    it('should apply delivery receipts in order', async () => {
+      await manager.sendMessage(createMessage());
+
+      await manager.handleDeliveryReceipt({
+        provider: 'mock-email',
+        messageId: 'message-1',
+        status: 'delivered',
+        timestamp: new Date(),
+      });
+      // A late "sent" receipt must not move the message backwards
+      const delivery = await manager.handleDeliveryReceipt({
+        provider: 'mock-email',
+        messageId: 'message-1',
+        status: 'sent',
+        timestamp: new Date(),
+      });
+
+      expect(delivery?.status).toBe('delivered');
+      expect((await manager.getDelivery('message-1'))?.status).toBe(
+        'delivered'
+      );
+    });
+
+    it('should ignore receipts for unknown messages', async () => {
+      expect(
+        await manager.handleDeliveryReceipt({
+          provider: 'mock-email',
+          messageId: 'unknown',
+          status: 'delivered',
+          timestamp: new Date(),
+        })
+      ).toBeNull();
+    });
+
+    describe('deferred to the send window', () => {
+      let jobs: InMemoryJobStore;
+      let worker: JobWorker;
+
+      beforeEach(() => {
+        jobs = new InMemoryJobStore();
+        worker = new JobWorker(jobs);
+        manager = new MultiChannelCommunicationManager([emailProvider], {
+          jobs: new JobQueue(jobs),
+          consentLedger: new ConsentLedger({ requireOptIn: [] }),
+        });
+        manager.registerJobHandlers(worker);
+      });
+
+      it('should send them from the job queue once the window opens', async () => {
+        // Midnight in Tokyo
+        const result = await manager.sendMessage({
+          ...createMessage(),
+          timezone: 'Asia/Tokyo',
+        });
+
+        expect(result).toMatchObject({
+          sent: false,
+          deferred: true,
+          reason: 'Within quiet hours for default',
+          nextAllowedTime: new Date('2026-01-14T23:00:00.000Z'),
+        });
+        expect(emailProvider.send).not.toHaveBeenCalled();
+        expect(await worker.runOnce()).toBe(0);
+
+        vi.setSystemTime(new Date('2026-01-14T23:00:00.000Z'));
+        expect(await worker.runOnce()).toBe(1);
+
+        expect(emailProvider.send).toHaveBeenCalledTimes(1);
+        expect(await worker.runOnce()).toBe(0);
+      });
+
+      it('should not send them after an opt-out', async () => {
+        await manager.sendMessage({ ...createMessage(), timezone: 'Asia/Tokyo' });
+        await manager.optOutFromChannel(testLeadId, 'email');
+
+        vi.setSystemTime(new Date('2026-01-14T23:00:00.000Z'));
+        await worker.runOnce();
+
+        expect(emailProvider.send).not.toHaveBeenCalled();
+        expect(await worker.runOnce()).toBe(0);
+      });
+
+      it('should defer them again when the window moved', async () => {
+        await manager.sendMessage({ ...createMessage(), timezone: 'Asia/Tokyo' });
+        await manager.setCommunicationPreferences({
+          leadId: testLeadId,
+          preferredChannels: ['email'],
+          bestTimeToContact: { startHour: 18, endHour: 19 },
+        });
+
+        vi.setSystemTime(new Date('2026-01-14T23:00:00.000Z'));
+        expect(await worker.runOnce()).toBe(1);
+        expect(emailProvider.send).not.toHaveBeenCalled();
+
+        // 18:00 in Tokyo
+        vi.setSystemTime(new Date('2026-01-15T09:00:00.000Z'));
+        expect(await worker.runOnce()).toBe(1);
+        expect(emailProvider.send).toHaveBeenCalledTimes(1);
+      });
+
+      it('should leave them to the caller when asked not to defer', async () => {
+        const result = await manager.sendMessage({
+          ...createMessage(),
+          timezone: 'Asia/Tokyo',
+          deferOutsideWindow: false,
+        });
+
+        expect(result).toEqual({
+          sent: false,
+          reason: 'Within quiet hours for default',
+          nextAllowedTime: new Date('2026-01-14T23:00:00.000Z'),
+        });
+        vi.setSystemTime(new Date('2026-01-14T23:00:00.000Z'));
+        expect(await worker.runOnce()).toBe(0);
+      });
+    });
+
+    describe('with an idempotency key', () => {
+      it('should send the message once', async () => {
+        const message = { ...createMessage(), idempotencyKey: 'step-1' };
+
+        expect((await manager.sendMessage(message)).sent).toBe(true);
+        expect(await manager.sendMessage(message)).toEqual({
+          sent: true,
+          duplicate: true,
+        });
+
+        expect(emailProvider.send).toHaveBeenCalledTimes(1);
+        expect(await manager.getCommunicationAttempts(testLeadId)).toHaveLength(
+          1
+        );
+      });
+
+      it('should send it again after sending failed', async () => {
+        const message = { ...createMessage(), idempotencyKey: 'step-1' };
+        emailProvider.send.mockRejectedValueOnce(new Error('Timeout'));
+
+        expect(await manager.sendMessage(message)).toEqual({
+          sent: false,
+          reason: 'Timeout',
+        });
+        expect((await manager.sendMessage(message)).sent).toBe(true);
+
+        expect(emailProvider.send).toHaveBeenCalledTimes(2);
+      });
+
+      it('should send it again when the sender stopped before confirming', async () => {
+        const store = new InMemoryCommunicationStateStore();
+        manager = new MultiChannelCommunicationManager([emailProvider], {
+          store,
+          consentLedger: new ConsentLedger({ requireOptIn: [] }),
+        });
+        const message = { ...createMessage(), idempotencyKey: 'step-1' };
+        // Another worker claimed the message and died mid-send
+        await store.claimSend('step-1');
+
+        expect(await manager.sendMessage(message)).toEqual({
+          sent: true,
+          duplicate: true,
+        });
+
+        vi.setSystemTime(BUSINESS_HOURS.getTime() + 11 * 60 * 1000);
+        expect((await manager.sendMessage(message)).sent).toBe(true);
+        expect(emailProvider.send).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    it('should report messages outside the send window without a job queue', async () => {
+      const result = await manager.sendMessage({
+        ...createMessage(),
+        timezone: 'Asia/Tokyo',
+      });
+
+      expect(result).toEqual({
+        sent: false,
+        reason: 'Within quiet hours for default',
+        nextAllowedTime: new Date('2026-01-14T23:00:00.000Z'),
+      });
+      expect(emailProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should refuse leads whose timezone is unknown', async () => {
+      const result = await manager.sendMessage({
+        ...createMessage(),
+        timezone: undefined,
+      });
+
+      expect(result).toEqual({
+        sent: false,
+        reason: 'Timezone of the lead is unknown',
+        nextAllowedTime: undefined,
+      });
+    });
+
+    it('should parse provider callbacks into receipts', async () => {
+      await manager.sendMessage(createMessage());
+      emailProvider.parseDeliveryReceipts.mockReturnValue([
+        {
+          provider: 'mock-email',
+          messageId: 'message-1',
+          status: 'failed',
+          timestamp: new Date(),
+          error: 'Mailbox full',
+        },
+      ]);
+
+      const updated = await manager.processDeliveryReceipts('mock-email', {
+        any: 'payload',
+      });
+
+      expect(emailProvider.parseDeliveryReceipts).toHaveBeenCalledWith({
+        any: 'payload',
+      });
+      expect(updated).toHaveLength(1);
+      expect(updated[0]).toMatchObject({ status: 'failed', error: 'Mailbox full' });
+    });
+
+    it('should reject callbacks for providers without receipts', async () => {
+      await expect(
+        manager.processDeliveryReceipts('unknown-provider', {})
+      ).rejects.toThrow('does not report delivery receipts');
+    });
+  });
+
+  describe('Consent', () => {
+    let smsProvider: MessageProvider & { send: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      vi.setSystemTime(BUSINESS_HOURS);
+      smsProvider = {
+        name: 'mock-sms',
+        channel: 'sms',
+        send: vi.fn().mockResolvedValue({
+          provider: 'mock-sms',
+          messageId: 'sms-1',
+          status: 'queued',
+        }),
+      };
+    });
+
+    it('should record opt-outs and opt-ins in the consent ledger', async () => {
+      await manager.optOutFromChannel(testLeadId, 'sms', {
+        source: 'inbound_keyword',
+        evidence: { keyword: 'STOP' },
+      });
+      await manager.optInToChannel(testLeadId, 'sms');
+
+      const history = await manager.getConsentLedger().getHistory(testLeadId);
+      expect(history).toEqual([
+        expect.objectContaining({
+          action: 'opt_out',
+          source: 'inbound_keyword',
+          evidence: { keyword: 'STOP' },
+        }),
+        expect.objectContaining({ action: 'opt_in', source: 'preferences' }),
+      ]);
+    });
+
+    it('should block replies after a revocation', async () => {
+      const ledger = new ConsentLedger({ requireOptIn: [] });
+      manager = new MultiChannelCommunicationManager([smsProvider], {
+        consentLedger: ledger,
+      });
+      await ledger.record(testLeadId, 'sms', 'opt_out', { source: 'api' });
+
+      const result = await manager.sendMessage({
+        leadId: testLeadId,
+        channel: 'sms',
+        to: '+15551234567',
+        content: 'Thanks for your reply!',
+        reply: true,
+      });
+
+      expect(result).toEqual({
+        sent: false,
+        reason: 'Lead has opted out of sms communications',
+        nextAllowedTime: undefined,
+      });
+      expect(smsProvider.send).not.toHaveBeenCalled();
+    });
+
+    it('should block channels requiring an opt-in until one is recorded', async () => {
+      manager = new MultiChannelCommunicationManager([smsProvider], {
+        consentLedger: new ConsentLedger({ requireOptIn: ['sms'] }),
+      });
+
+      const options = { timezone: 'UTC' };
+
+      expect(await manager.canCommunicate(testLeadId, 'sms', options)).toEqual({
+        allowed: false,
+        reason: 'No consent on record for sms communications',
+      });
+      expect(
+        (await manager.canCommunicate(testLeadId, 'email', options)).allowed
+      ).toBe(true);
+
+      await manager.optInToChannel(testLeadId, 'sms', { source: 'lead_form' });
+      expect(
+        (await manager.canCommunicate(testLeadId, 'sms', options)).allowed
+      ).toBe(true);
+    });
+
+    it('should require an opt-in on every channel by default', async () => {
+      manager = new MultiChannelCommunicationManager([smsProvider]);
+
+      for (const channel of ['email', 'sms', 'voice', 'whatsapp'] as const) {
+        expect(
+          await manager.canCommunicate(testLeadId, channel, { timezone: 'UTC' })
+        ).toEqual({
+          allowed: false,
+          reason: `No consent on record for ${channel} communications`,
+        });
+      }
+    });
+
+    it('should add a one-click unsubscribe link to emails', async () => {
+      const emailProvider = {
+        name: 'mock-email',
+        channel: 'email' as const,
+        send: vi.fn().mockResolvedValue({
+          provider: 'mock-email',
+          messageId: 'message-1',
+          status: 'queued',
+        }),
+      };
+      manager = new MultiChannelCommunicationManager(
+        [emailProvider, smsProvider],
+        {
+          unsubscribe: { baseUrl: 'https://leads.example.com', secret: 's3' },
+          consentLedger: new ConsentLedger({ requireOptIn: [] }),
+        }
+      );
+
+      await manager.sendMessage({
+        leadId: testLeadId,
+        channel: 'email',
+        to: 'lead@example.com',
+        content: 'New listings this week',
+        timezone: 'UTC',
+      });
+      await manager.sendMessage({
+        leadId: testLeadId,
+        channel: 'sms',
+        to: '+15551234567',
+        content: 'New listings this week',
+        timezone: 'America/New_York',
+      });
+
+      const email = emailProvider.send.mock.calls[0][0];
+      const url = email.headers['List-Unsubscribe'].slice(1, -1);
+      expect(email.headers['List-Unsubscribe-Post']).toBe(
+        'List-Unsubscribe=One-Click'
+      );
+      expect(email.content).toContain(`Unsubscribe: ${url}`);
+
+      const token = url.split('/unsubscribe/')[1];
+      expect(verifyUnsubscribeToken(token, 's3')).toEqual({
+        leadId: testLeadId,
+        channel: 'email',
+      });
+      expect(smsProvider.send.mock.calls[0][0].headers).toBeUndefined();
+    });
+  });
 });
@@ -0,0 +1,536 @@
+import type { RedisClientType } from 'redis';
+import {
+  CommunicationAttempt,
+  CommunicationPreference,
+  ConversationContext,
+} from '../types/communication';
+import {
+  addDays,
+  dayOfWeek,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from '../utils/timezone';
+import type { MessageDelivery } from './multi-channel-manager';
+
+/**
+ * Contacts made with a lead in the current day and week
+ */
+export interface ContactCounts {
+  daily: number;
+  weekly: number;
+}
+
+/**
+ * Day and week a contact counts against, as calendar dates in the lead's
+ * timezone, with the instants they end at
+ */
+export interface ContactPeriod {
+  day: string; // YYYY-MM-DD
+  week: string; // YYYY-MM-DD of the Sunday the week starts on
+  dayEnd: Date;
+  weekEnd: Date;
+}
+
+/**
+ * Result of reserving a contact: counts are those before the reservation
+ */
+export interface ContactReservation {
+  reserved: boolean;
+  counts: ContactCounts;
+}
+
+/**
+ * The day and week of `at` in the lead's timezone. Weeks start on Sunday.
+ */
+export function contactPeriod(at: Date, timeZone: string): ContactPeriod {
+  const day = toZonedDateString(at, timeZone);
+  const week = addDays(day, -dayOfWeek(day));
+
+  return {
+    day,
+    week,
+    dayEnd: zonedTimeToUtc(addDays(day, 1), 0, timeZone),
+    weekEnd: zonedTimeToUtc(addDays(week, 7), 0, timeZone),
+  };
+}
+
+/**
+ * Where the communication manager keeps per-lead state: preferences,
+ * attempts, frequency counters and conversation contexts, along with the
+ * deliveries and email threads replies are matched against
+ */
+export interface CommunicationStateStore {
+  getPreferences(_leadId: string): Promise<CommunicationPreference | null>;
+  savePreferences(_preferences: CommunicationPreference): Promise<void>;
+
+  /** Attempts of a lead, oldest first */
+  getAttempts(_leadId: string): Promise<CommunicationAttempt[]>;
+  recordAttempt(_attempt: CommunicationAttempt): Promise<void>;
+
+  getContactCounts(
+    _leadId: string,
+    _period: ContactPeriod
+  ): Promise<ContactCounts>;
+  /**
+   * Count a contact against the daily and weekly limits unless either is
+   * already reached. Concurrent reservations never exceed the limits.
+   */
+  reserveContact(
+    _leadId: string,
+    _period: ContactPeriod,
+    _limits: ContactCounts
+  ): Promise<ContactReservation>;
+  /** Give back a reserved contact, e.g. when sending failed */
+  releaseContact(_leadId: string, _period: ContactPeriod): Promise<void>;
+
+  /**
+   * Claim the idempotency key of a message before it is sent. Returns
+   * false when the key is claimed, i.e. the message is being sent or
+   * already went out, so a retried job does not send it twice. The claim
+   * lapses after a few minutes unless confirmed, so a sender that dies
+   * mid-send does not hold the key for good.
+   */
+  claimSend(_idempotencyKey: string): Promise<boolean>;
+  /** Keep a claimed key once its message went out */
+  confirmSend(_idempotencyKey: string): Promise<void>;
+  /** Give back a claimed key, e.g. when sending failed */
+  releaseSend(_idempotencyKey: string): Promise<void>;
+
+  getContexts(_leadId: string): Promise<ConversationContext[]>;
+  saveContexts(
+    _leadId: string,
+    _contexts: ConversationContext[]
+  ): Promise<void>;
+
+  getDelivery(_messageId: string): Promise<MessageDelivery | null>;
+  saveDelivery(_delivery: MessageDelivery): Promise<void>;
+
+  /** Lead an email conversation belongs to */
+  getThreadLead(_threadId: string): Promise<string | null>;
+  saveThreadLead(_threadId: string, _leadId: string): Promise<void>;
+
+  /**
+   * Drop attempts, contexts, deliveries, threads and idempotency keys not
+   * touched since the cutoff
+   */
+  cleanup(_cutoff: Date): Promise<void>;
+}
+
+// Attempts kept per lead
+const MAX_ATTEMPTS = 100;
+
+// How long an unconfirmed send claim holds its idempotency key
+const PENDING_SEND_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * In-process state, lost on restart and not shared between instances
+ */
+export class InMemoryCommunicationStateStore implements CommunicationStateStore {
+  private preferences: Map<string, CommunicationPreference> = new Map();
+  private attempts: Map<string, CommunicationAttempt[]> = new Map();
+  private contexts: Map<string, ConversationContext[]> = new Map();
+  private contacts: Map<string, { count: number; expiresAt: Date }> =
+    new Map();
+  private deliveries: Map<string, MessageDelivery> = new Map();
+  private sends: Map<string, { claimedAt: Date; confirmed: boolean }> =
+    new Map();
+  private threads: Map<string, { leadId: string; updatedAt: Date }> =
+    new Map();
+
+  async getPreferences(leadId: string): Promise<CommunicationPreference | null> {
+    return this.preferences.get(leadId) || null;
+  }
+
+  async savePreferences(preferences: CommunicationPreference): Promise<void> {
+    this.preferences.set(preferences.leadId, preferences);
+  }
+
+  async getAttempts(leadId: string): Promise<CommunicationAttempt[]> {
+    return this.attempts.get(leadId) || [];
+  }
+
+  async recordAttempt(attempt: CommunicationAttempt): Promise<void> {
+    const attempts = this.attempts.get(attempt.leadId) || [];
+    attempts.push(attempt);
+    this.attempts.set(attempt.leadId, attempts);
+
+    if (attempts.length > MAX_ATTEMPTS) {
+      attempts.splice(0, attempts.length - MAX_ATTEMPTS);
+    }
+  }
+
+  async getContactCounts(
+    leadId: string,
+    period: ContactPeriod
+  ): Promise<ContactCounts> {
+    return this.countContacts(leadId, period);
+  }
+
+  // No await between the check and the increment, so this is atomic
+  async reserveContact(
+    leadId: string,
+    period: ContactPeriod,
+    limits: ContactCounts
+  ): Promise<ContactReservation> {
+    const counts = this.countContacts(leadId, period);
+    if (counts.daily >= limits.daily || counts.weekly >= limits.weekly) {
+      return { reserved: false, counts };
+    }
+
+    this.contacts.set(`${leadId}:day:${period.day}`, {
+      count: counts.daily + 1,
+      expiresAt: period.dayEnd,
+    });
+    this.contacts.set(`${leadId}:week:${period.week}`, {
+      count: counts.weekly + 1,
+      expiresAt: period.weekEnd,
+    });
+    return { reserved: true, counts };
+  }
+
+  private countContacts(leadId: string, period: ContactPeriod): ContactCounts {
+    return {
+      daily: this.contacts.get(`${leadId}:day:${period.day}`)?.count ?? 0,
+      weekly: this.contacts.get(`${leadId}:week:${period.week}`)?.count ?? 0,
+    };
+  }
+
+  async releaseContact(leadId: string, period: ContactPeriod): Promise<void> {
+    for (const key of [
+      `${leadId}:day:${period.day}`,
+      `${leadId}:week:${period.week}`,
+    ]) {
+      const counter = this.contacts.get(key);
+      if (counter) counter.count = Math.max(0, counter.count - 1);
+    }
+  }
+
+  async claimSend(idempotencyKey: string): Promise<boolean> {
+    const claim = this.sends.get(idempotencyKey);
+    if (
+      claim &&
+      (claim.confirmed ||
+        Date.now() - claim.claimedAt.getTime() < PENDING_SEND_TTL_MS)
+    ) {
+      return false;
+    }
+    this.sends.set(idempotencyKey, { claimedAt: new Date(), confirmed: false });
+    return true;
+  }
+
+  async confirmSend(idempotencyKey: string): Promise<void> {
+    this.sends.set(idempotencyKey, { claimedAt: new Date(), confirmed: true });
+  }
+
+  async releaseSend(idempotencyKey: string): Promise<void> {
+    this.sends.delete(idempotencyKey);
+  }
+
+  async getContexts(leadId: string): Promise<ConversationContext[]> {
+    return this.contexts.get(leadId) || [];
+  }
+
+  async saveContexts(
+    leadId: string,
+    contexts: ConversationContext[]
+  ): Promise<void> {
+    this.contexts.set(leadId, contexts);
+  }
+
+  async getDelivery(messageId: string): Promise<MessageDelivery | null> {
+    return this.deliveries.get(messageId) || null;
+  }
+
+  async saveDelivery(delivery: MessageDelivery): Promise<void> {
+    this.deliveries.set(delivery.messageId, delivery);
+  }
+
+  async getThreadLead(threadId: string): Promise<string | null> {
+    return this.threads.get(threadId)?.leadId || null;
+  }
+
+  async saveThreadLead(threadId: string, leadId: string): Promise<void> {
+    this.threads.set(threadId, { leadId, updatedAt: new Date() });
+  }
+
+  async cleanup(cutoff: Date): Promise<void> {
+    for (const [leadId, attempts] of this.attempts) {
+      const filteredAttempts = attempts.filter(
+        (attempt) => new Date(attempt.attemptedAt) >= cutoff
+      );
+
+      if (filteredAttempts.length === 0) {
+        this.attempts.delete(leadId);
+      } else {
+        this.attempts.set(leadId, filteredAttempts);
+      }
+    }
+
+    for (const [leadId, contexts] of this.contexts) {
+      const filteredContexts = contexts.filter(
+        (context) => new Date(context.updatedAt) >= cutoff
+      );
+
+      if (filteredContexts.length === 0) {
+        this.contexts.delete(leadId);
+      } else {
+        this.contexts.set(leadId, filteredContexts);
+      }
+    }
+
+    // Counters are only needed until their period ends
+    for (const [key, counter] of this.contacts) {
+      if (counter.expiresAt < new Date()) {
+        this.contacts.delete(key);
+      }
+    }
+
+    for (const [messageId, delivery] of this.deliveries) {
+      if (delivery.updatedAt < cutoff) {
+        this.deliveries.delete(messageId);
+      }
+    }
+
+    for (const [threadId, thread] of this.threads) {
+      if (thread.updatedAt < cutoff) {
+        this.threads.delete(threadId);
+      }
+    }
+
+    for (const [idempotencyKey, { claimedAt }] of this.sends) {
+      if (claimedAt < cutoff) {
+        this.sends.delete(idempotencyKey);
+      }
+    }
+  }
+}
+
+export interface RedisCommunicationStateStoreOptions {
+  keyPrefix?: string; // default "communication:"
+  attemptTtlDays?: number; // default 30
+  contextTtlDays?: number; // default 90
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Counts a contact unless the daily or weekly limit is reached, in one
+// step so concurrent reservations cannot overshoot the limits.
+// KEYS: daily and weekly counters. ARGV: daily and weekly limits, and the
+// unix times the counters expire at. Returns whether the contact was
+// reserved and the counts before it.
+const RESERVE_CONTACT_SCRIPT = `
+local daily = tonumber(redis.call('GET', KEYS[1]) or '0')
+local weekly = tonumber(redis.call('GET', KEYS[2]) or '0')
+if daily >= tonumber(ARGV[1]) or weekly >= tonumber(ARGV[2]) then
+  return {0, daily, weekly}
+end
+redis.call('INCR', KEYS[1])
+redis.call('EXPIREAT', KEYS[1], ARGV[3])
+redis.call('INCR', KEYS[2])
+redis.call('EXPIREAT', KEYS[2], ARGV[4])
+return {1, daily, weekly}
+`;
+const DATE_FIELDS = new Set([
+  'createdAt',
+  'updatedAt',
+  'attemptedAt',
+  'sentAt',
+]);
+
+/**
+ * Redis-backed state shared by every instance of the service
+ *
+ * Daily and weekly contact counts are counters keyed by period and
+ * expiring a day after the period ends, so limits hold across instances
+ * and restarts without any cleanup job. A contact is reserved by a script
+ * that checks both counters and increments them only when under the
+ * limits, so concurrent senders never get past them. Idempotency keys are
+ * claimed for a few minutes while their message is sent and kept as long
+ * as attempts once it went out. Attempt history and conversation contexts
+ * expire when a lead goes quiet, deliveries and email threads as long
+ * after their last update as contexts; preferences are kept.
+ */
+export class RedisCommunicationStateStore implements CommunicationStateStore {
+  private client: RedisClientType;
+  private keyPrefix: string;
+  private attemptTtlSeconds: number;
+  private contextTtlSeconds: number;
+
+  constructor(
+    client: RedisClientType,
+    options: RedisCommunicationStateStoreOptions = {}
+  ) {
+    this.client = client;
+    this.keyPrefix = options.keyPrefix ?? 'communication:';
+    this.attemptTtlSeconds = (options.attemptTtlDays ?? 30) * 24 * 60 * 60;
+    this.contextTtlSeconds = (options.contextTtlDays ?? 90) * 24 * 60 * 60;
+  }
+
+  async getPreferences(leadId: string): Promise<CommunicationPreference | null> {
+    const value = await this.client.get(this.key('preferences', leadId));
+    return value ? parseJson<CommunicationPreference>(value) : null;
+  }
+
+  async savePreferences(preferences: CommunicationPreference): Promise<void> {
+    await this.client.set(
+      this.key('preferences', preferences.leadId),
+      JSON.stringify(preferences)
+    );
+  }
+
+  async getAttempts(leadId: string): Promise<CommunicationAttempt[]> {
+    const values = await this.client.lRange(this.key('attempts', leadId), 0, -1);
+    // Newest first in the list
+    return values.map((value) => parseJson<CommunicationAttempt>(value)).reverse();
+  }
+
+  async recordAttempt(attempt: CommunicationAttempt): Promise<void> {
+    const attemptsKey = this.key('attempts', attempt.leadId);
+
+    await this.client
+      .multi()
+      .lPush(attemptsKey, JSON.stringify(attempt))
+      .lTrim(attemptsKey, 0, MAX_ATTEMPTS - 1)
+      .expire(attemptsKey, this.attemptTtlSeconds)
+      .exec();
+  }
+
+  async getContactCounts(
+    leadId: string,
+    period: ContactPeriod
+  ): Promise<ContactCounts> {
+    const [daily, weekly] = await this.client.mGet([
+      this.dailyKey(leadId, period),
+      this.weeklyKey(leadId, period),
+    ]);
+    return { daily: Number(daily ?? 0), weekly: Number(weekly ?? 0) };
+  }
+
+  async reserveContact(
+    leadId: string,
+    period: ContactPeriod,
+    limits: ContactCounts
+  ): Promise<ContactReservation> {
+    const [reserved, daily, weekly] = (await this.client.eval(
+      RESERVE_CONTACT_SCRIPT,
+      {
+        keys: [this.dailyKey(leadId, period), this.weeklyKey(leadId, period)],
+        arguments: [
+          String(limits.daily),
+          String(limits.weekly),
+          String(toUnixSeconds(period.dayEnd.getTime() + DAY_MS)),
+          String(toUnixSeconds(period.weekEnd.getTime() + DAY_MS)),
+        ],
+      }
+    )) as number[];
+
+    return {
+      reserved: reserved === 1,
+      counts: { daily: Number(daily), weekly: Number(weekly) },
+    };
+  }
+
+  async releaseContact(leadId: string, period: ContactPeriod): Promise<void> {
+    await this.client
+      .multi()
+      .decr(this.dailyKey(leadId, period))
+      .decr(this.weeklyKey(leadId, period))
+      .exec();
+  }
+
+  async claimSend(idempotencyKey: string): Promise<boolean> {
+    const claimed = await this.client.set(
+      this.key('sends', idempotencyKey),
+      'pending',
+      {
+        condition: 'NX',
+        expiration: { type: 'PX', value: PENDING_SEND_TTL_MS },
+      }
+    );
+    return claimed !== null;
+  }
+
+  // Written whether or not the claim lapsed in the meantime: the message
+  // went out either way
+  async confirmSend(idempotencyKey: string): Promise<void> {
+    await this.client.set(
+      this.key('sends', idempotencyKey),
+      new Date().toISOString(),
+      { expiration: { type: 'EX', value: this.attemptTtlSeconds } }
+    );
+  }
+
+  async releaseSend(idempotencyKey: string): Promise<void> {
+    await this.client.del(this.key('sends', idempotencyKey));
+  }
+
+  async getContexts(leadId: string): Promise<ConversationContext[]> {
+    const value = await this.client.get(this.key('contexts', leadId));
+    return value ? parseJson<ConversationContext[]>(value) : [];
+  }
+
+  async saveContexts(
+    leadId: string,
+    contexts: ConversationContext[]
+  ): Promise<void> {
+    const key = this.key('contexts', leadId);
+    if (contexts.length === 0) {
+      await this.client.del(key);
+      return;
+    }
+    await this.client.set(key, JSON.stringify(contexts), {
+      expiration: { type: 'EX', value: this.contextTtlSeconds },
+    });
+  }
+
+  async getDelivery(messageId: string): Promise<MessageDelivery | null> {
+    const value = await this.client.get(this.key('deliveries', messageId));
+    return value ? parseJson<MessageDelivery>(value) : null;
+  }
+
+  async saveDelivery(delivery: MessageDelivery): Promise<void> {
+    await this.client.set(
+      this.key('deliveries', delivery.messageId),
+      JSON.stringify(delivery),
+      { expiration: { type: 'EX', value: this.contextTtlSeconds } }
+    );
+  }
+
+  async getThreadLead(threadId: string): Promise<string | null> {
+    return this.client.get(this.key('threads', threadId));
+  }
+
+  async saveThreadLead(threadId: string, leadId: string): Promise<void> {
+    await this.client.set(this.key('threads', threadId), leadId, {
+      expiration: { type: 'EX', value: this.contextTtlSeconds },
+    });
+  }
+
+  /**
+   * Nothing to do: attempts, counters, idempotency keys, idle contexts,
+   * deliveries and threads expire through their TTLs
+   */
+  async cleanup(): Promise<void> {}
+
+  private key(kind: string, id: string): string {
+    return `${this.keyPrefix}${kind}:${id}`;
+  }
+
+  private dailyKey(leadId: string, period: ContactPeriod): string {
+    return `${this.key('contacts:day', leadId)}:${period.day}`;
+  }
+
+  private weeklyKey(leadId: string, period: ContactPeriod): string {
+    return `${this.key('contacts:week', leadId)}:${period.week}`;
+  }
+}
+
+function parseJson<T>(value: string): T {
+  return JSON.parse(value, (key, field) =>
+    DATE_FIELDS.has(key) && typeof field === 'string' ? new Date(field) : field
+  );
+}
+
+function toUnixSeconds(ms: number): number {
+  return Math.floor(ms / 1000);
+}
@@ -0,0 +1,181 @@
+import { config } from '../config/environment';
+import {
+  CommunicationChannel,
+  CommunicationChannelSchema,
+  CommunicationValidation,
+  ConsentAction,
+  ConsentEvent,
+  LeadConsent,
+} from '../types/communication';
+import { generateUUID } from '../types/validation';
+import type { ConsentRepository } from '../database/repositories';
+
+/**
+ * Current consent of a lead on a channel: `unknown` when the ledger has no
+ * event for it
+ */
+export type ConsentStatus = 'granted' | 'revoked' | 'unknown';
+
+export interface ConsentRecord {
+  source: string;
+  evidence?: Record<string, unknown>;
+}
+
+export interface ConsentLedgerOptions {
+  repository?: ConsentRepository;
+  // Channels that need an explicit opt-in before anything is sent;
+  // CONSENT_REQUIRED_CHANNELS by default
+  requireOptIn?: CommunicationChannel[];
+}
+
+/**
+ * Consent Ledger - who agreed to hear from us on which channel, and the
+ * proof of it
+ *
+ * Every opt-in and opt-out is appended as an event; the latest event per
+ * channel decides. With a repository the ledger is read from the database
+ * on every check, so all processes see a revocation immediately.
+ */
+export class ConsentLedger {
+  private events: Map<string, ConsentEvent[]> = new Map();
+  private requireOptIn: Set<CommunicationChannel>;
+
+  constructor(private options: ConsentLedgerOptions = {}) {
+    this.requireOptIn = new Set(
+      options.requireOptIn ??
+        config.CONSENT_REQUIRED_CHANNELS.filter(
+          (channel): channel is CommunicationChannel =>
+            CommunicationChannelSchema.safeParse(channel).success
+        )
+    );
+  }
+
+  /**
+   * Append an opt-in or opt-out to the ledger
+   */
+  async record(
+    leadId: string,
+    channel: CommunicationChannel,
+    action: ConsentAction,
+    record: ConsentRecord
+  ): Promise<ConsentEvent> {
+    const validation = CommunicationValidation.validateConsentEvent({
+      id: generateUUID(),
+      leadId,
+      channel,
+      action,
+      source: record.source,
+      evidence: record.evidence ?? {},
+      recordedAt: new Date(),
+    });
+    if (!validation.success) {
+      throw validation.error;
+    }
+
+    const event = this.options.repository
+      ? await this.options.repository.record(validation.data)
+      : validation.data;
+
+    const history = this.events.get(leadId) || [];
+    history.push(event);
+    this.events.set(leadId, history);
+
+    return event;
+  }
+
+  /**
+   * Record the opt-in given together with a lead on each of its channels
+   */
+  async recordLeadConsent(
+    leadId: string,
+    consent: LeadConsent
+  ): Promise<ConsentEvent[]> {
+    const events: ConsentEvent[] = [];
+    for (const channel of consent.channels) {
+      events.push(
+        await this.record(leadId, channel, 'opt_in', {
+          source: consent.source,
+          evidence: consent.evidence,
+        })
+      );
+    }
+    return events;
+  }
+
+  async getStatus(
+    leadId: string,
+    channel: CommunicationChannel
+  ): Promise<ConsentStatus> {
+    const latest = this.options.repository
+      ? await this.options.repository.findLatest(leadId, channel)
+      : (this.events.get(leadId) || [])
+          .filter((event) => event.channel === channel)
+          .pop();
+
+    if (!latest) return 'unknown';
+    return latest.action === 'opt_in' ? 'granted' : 'revoked';
+  }
+
+  /**
+   * Whether messages may be sent: never after an opt-out, and on channels
+   * requiring opt-in only after one
+   */
+  async hasValidConsent(
+    leadId: string,
+    channel: CommunicationChannel
+  ): Promise<boolean> {
+    const status = await this.getStatus(leadId, channel);
+    if (status === 'unknown') return !this.requiresOptIn(channel);
+    return status === 'granted';
+  }
+
+  requiresOptIn(channel: CommunicationChannel): boolean {
+    return this.requireOptIn.has(channel);
+  }
+
+  /**
+   * Every consent event of a lead, oldest first
+   */
+  async getHistory(leadId: string): Promise<ConsentEvent[]> {
+    if (this.options.repository) {
+      return this.options.repository.findByLead(leadId);
+    }
+    return [...(this.events.get(leadId) || [])];
+  }
+}
+
+// Whole-message keywords, compared without case or accents
+const OPT_OUT_KEYWORDS = new Set([
+  'STOP',
+  'STOPALL',
+  'UNSUBSCRIBE',
+  'CANCEL',
+  'END',
+  'QUIT',
+  'PARAR',
+  'PARE',
+  'SAIR',
+  'CANCELAR',
+  'DESCADASTRAR',
+  'BAJA',
+]);
+
+const OPT_IN_KEYWORDS = new Set(['START', 'UNSTOP', 'SUBSCRIBE', 'VOLTAR']);
+
+/**
+ * Consent keyword a reply consists of, e.g. "Stop" or "PARAR!". Keywords
+ * inside longer messages are ignored, as carriers do.
+ */
+export function detectConsentKeyword(
+  text: string
+): { action: ConsentAction; keyword: string } | null {
+  const keyword = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Za-z]/g, '')
+    .toUpperCase();
+
+  if (OPT_OUT_KEYWORDS.has(keyword)) return { action: 'opt_out', keyword };
+  if (OPT_IN_KEYWORDS.has(keyword)) return { action: 'opt_in', keyword };
+  return null;
+}
@@ -0,0 +1,280 @@
+import type {
+  CustomerRetentionAgent,
+  ResponseHandlingResult,
+} from '../agents/customer-retention-agent';
+import type {
+  FeedbackAnalysis,
+  ReviewFeedbackCollectorAgent,
+} from '../agents/review-feedback-collector';
+import type { VirtualSalesAssistant } from '../agents/virtual-sales-assistant';
+import { config } from '../config/environment';
+import { Repositories } from '../database/repositories';
+import { InteractionModel } from '../types/interaction';
+import { Lead } from '../types/lead';
+import { logger } from '../utils/logger';
+import { phoneDigitVariants } from '../utils/phone';
+import { MultiChannelCommunicationManager } from './multi-channel-manager';
+import { detectConsentKeyword } from './consent-ledger';
+import { MessageChannel } from './providers/message-provider';
+
+/**
+ * Message received from a lead on a text channel
+ */
+export interface InboundMessage {
+  channel: MessageChannel;
+  from: string; // phone number or email address
+  content: string;
+  externalId?: string; // provider message id
+  threadId?: string; // email conversation, e.g. the Gmail thread id
+  inReplyTo?: string; // Message-ID the email answers
+  receivedAt: Date;
+}
+
+export type InboundRoute =
+  | 'sales'
+  | 'feedback'
+  | 're_engagement'
+  | 'opt_out'
+  | 'opt_in'
+  | 'unrouted';
+
+export interface InboundRoutingResult {
+  route: InboundRoute | 'unknown_sender';
+  leadId?: string;
+  sessionId?: string;
+  response?: ResponseHandlingResult | FeedbackAnalysis;
+  reply?: string; // the sales assistant's answer, already sent to the lead
+}
+
+export interface InboundAgents {
+  sales?: VirtualSalesAssistant;
+  retention?: CustomerRetentionAgent;
+  feedback?: ReviewFeedbackCollectorAgent;
+}
+
+type ActiveSessionRoute = 'sales' | 'feedback' | 're_engagement';
+
+const ROUTER_AGENT_ID = 'inbound-message-router';
+
+/**
+ * Inbound Message Router - delivers lead replies to the agent session
+ * waiting for them
+ *
+ * Responsibilities:
+ * - Match the sender to a lead by email thread, replied-to message, phone or email
+ * - Apply STOP/START style consent keywords before anything else
+ * - Find the lead's active qualification, feedback or re-engagement session
+ * - Dispatch the reply to that session's handler
+ * - Record an inbound interaction for every message from a known lead
+ */
+export class InboundMessageRouter {
+  constructor(
+    private agents: InboundAgents,
+    private repositories: Partial<Repositories> = {},
+    private communicationManager?: MultiChannelCommunicationManager
+  ) {}
+
+  async route(message: InboundMessage): Promise<InboundRoutingResult> {
+    const leadId = await this.resolveLead(message);
+    if (!leadId) {
+      logger.warn(`Inbound ${message.channel} message from unknown sender`, {
+        externalId: message.externalId,
+      });
+      return { route: 'unknown_sender' };
+    }
+
+    if (message.threadId && this.communicationManager) {
+      await this.communicationManager.saveThreadLead(message.threadId, leadId);
+    }
+
+    const consentKeyword = detectConsentKeyword(message.content);
+    if (consentKeyword && this.communicationManager) {
+      const record = {
+        source: 'inbound_keyword',
+        evidence: {
+          keyword: consentKeyword.keyword,
+          content: message.content,
+          from: message.from,
+          externalId: message.externalId,
+          receivedAt: message.receivedAt.toISOString(),
+        },
+      };
+      if (consentKeyword.action === 'opt_out') {
+        await this.communicationManager.optOutFromChannel(
+          leadId,
+          message.channel,
+          record
+        );
+      } else {
+        await this.communicationManager.optInToChannel(
+          leadId,
+          message.channel,
+          record
+        );
+      }
+
+      await this.recordInboundMessage(leadId, message, 'successful');
+      return { route: consentKeyword.action, leadId };
+    }
+
+    const session = await this.findActiveSession(leadId, message.channel);
+    if (session?.route === 'sales') {
+      // The assistant records the conversation when it ends
+      await this.recordInboundMessage(leadId, message, 'successful');
+      const reply = await this.agents.sales!.processCustomerResponse(
+        session.id,
+        message.content
+      );
+      return { route: 'sales', leadId, sessionId: session.id, reply };
+    }
+
+    // The handlers record the inbound interaction themselves
+    if (session?.route === 'feedback') {
+      const response = await this.agents.feedback!.handleFeedbackResponse(
+        leadId,
+        message.content,
+        message.channel
+      );
+      return { route: 'feedback', leadId, sessionId: session.id, response };
+    }
+    if (session?.route === 're_engagement') {
+      const response = await this.agents.retention!.handleCustomerResponse(
+        leadId,
+        message.content,
+        message.channel
+      );
+      return { route: 're_engagement', leadId, sessionId: session.id, response };
+    }
+
+    await this.recordInboundMessage(leadId, message, 'pending');
+    return { route: 'unrouted', leadId };
+  }
+
+  /**
+   * Lead that sent the message. Email replies are matched by conversation
+   * first, so replies from another address in the same thread still count.
+   */
+  private async resolveLead(message: InboundMessage): Promise<string | null> {
+    if (message.threadId && this.communicationManager) {
+      const threadLeadId = await this.communicationManager.getThreadLead(
+        message.threadId
+      );
+      if (threadLeadId) return threadLeadId;
+    }
+
+    if (message.inReplyTo && this.communicationManager) {
+      const delivery = await this.communicationManager.getDelivery(
+        message.inReplyTo.replace(/^<|>$/g, '')
+      );
+      if (delivery?.leadId) return delivery.leadId;
+    }
+
+    const leads = await this.findLeadsBySender(message);
+    if (leads.length === 0) return null;
+
+    // Prefer a lead someone is waiting to hear from, then the newest
+    for (const lead of leads) {
+      if (await this.findActiveSession(lead.id, message.channel)) {
+        return lead.id;
+      }
+    }
+
+    return [...leads].sort(
+      (a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()
+    )[0].id;
+  }
+
+  private async findLeadsBySender(message: InboundMessage): Promise<Lead[]> {
+    if (!this.repositories.leads) return [];
+
+    if (message.channel === 'email') {
+      return this.repositories.leads.findByEmail(message.from);
+    }
+
+    // Stored numbers may lack the country code or carry punctuation
+    const variants = phoneDigitVariants(
+      message.from,
+      config.DEFAULT_PHONE_COUNTRY_CODE
+    );
+    if (variants.length === 0) return [];
+
+    return this.repositories.leads.findByPhoneDigits(variants);
+  }
+
+  /**
+   * The most recently started active session of the lead. Qualification
+   * conversations only take replies on their own channel, as the assistant
+   * answers there.
+   */
+  private async findActiveSession(
+    leadId: string,
+    channel: MessageChannel
+  ): Promise<{ route: ActiveSessionRoute; id: string } | null> {
+    const [sales, feedback, reengagement] = await Promise.all([
+      this.agents.sales?.findActiveSession(leadId),
+      this.agents.feedback?.findActiveSession(leadId),
+      this.agents.retention?.findActiveSession(leadId),
+    ]);
+
+    const candidates: {
+      route: ActiveSessionRoute;
+      id: string;
+      startedAt: Date;
+    }[] = [];
+    if (sales && sales.channel === channel) {
+      candidates.push({
+        route: 'sales',
+        id: sales.id,
+        startedAt: sales.startTime,
+      });
+    }
+    if (feedback) {
+      candidates.push({
+        route: 'feedback',
+        id: feedback.id,
+        startedAt: feedback.startedAt,
+      });
+    }
+    if (reengagement) {
+      candidates.push({
+        route: 're_engagement',
+        id: reengagement.id,
+        startedAt: reengagement.startedAt,
+      });
+    }
+    if (candidates.length === 0) return null;
+
+    const [latest] = candidates.sort(
+      (a, b) => b.startedAt.getTime() - a.startedAt.getTime()
+    );
+    return { route: latest.route, id: latest.id };
+  }
+
+  private async recordInboundMessage(
+    leadId: string,
+    message: InboundMessage,
+    status: 'pending' | 'successful'
+  ): Promise<void> {
+    const interaction = InteractionModel.create({
+      leadId,
+      agentId: ROUTER_AGENT_ID,
+      type: message.channel,
+      direction: 'inbound',
+      content: message.content,
+      outcome: {
+        status,
+        appointmentBooked: false,
+        qualificationUpdated: false,
+        escalationRequired: false,
+      },
+    });
+
+    if (!this.repositories.interactions) return;
+
+    try {
+      await this.repositories.interactions.create(interaction.data);
+    } catch (error) {
+      logger.error(`Failed to store interaction ${interaction.id}:`, error);
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import { config } from '../config/environment';
 import {
   CommunicationChannel,
   CommunicationPreference,
@@ -9,17 +10,486 @@ import {
 import { Lead } from '../types/lead';
 import { Interaction, InteractionType } from '../types/interaction';
 import { generateUUID } from '../types/validation';
+import {
+  DeliveryReceipt,
+  DeliveryStatus,
+  MessageAttachment,
+  MessageChannel,
+  MessageProvider,
+  OutboundMessage,
+  SendResult,
+  isDeliveryProgress,
+} from './providers/message-provider';
+import { ConsentLedger, ConsentRecord } from './consent-ledger';
+import { UnsubscribeSettings, buildUnsubscribeUrl } from './unsubscribe-links';
+import {
+  SendWindowScheduler,
+  SendWindowTarget,
+} from '../scheduling/send-window';
+import {
+  CommunicationStateStore,
+  ContactCounts,
+  ContactPeriod,
+  InMemoryCommunicationStateStore,
+  contactPeriod,
+} from './communication-state-store';
+import { getZonedDateTime } from '../utils/timezone';
+import { logger } from '../utils/logger';
+import type { JobDeferral, JobQueue, JobWorker } from '../jobs';
+
+export const DEFERRED_MESSAGE_JOB = 'communication.deferred-message';
+
+/**
+ * Message to a lead, sent only when their preferences and frequency limits allow
+ */
+export interface LeadMessage {
+  leadId: string;
+  channel: MessageChannel;
+  to: string;
+  subject?: string;
+  content: string;
+  attachments?: MessageAttachment[];
+  metadata?: Record<string, string>;
+  interactionId?: string;
+  reply?: boolean; // answers the lead's own message, so the cooldown does not apply
+  timezone?: string; // lead's timezone, for quiet hours and preferred hours
+  // Sent at most once per key, e.g. per step of a sequence, so a job that
+  // runs again after sending does not send it twice
+  idempotencyKey?: string;
+  // false returns nextAllowedTime outside the send window instead of
+  // deferring, for callers that are jobs and defer themselves
+  deferOutsideWindow?: boolean;
+}
+
+/**
+ * Delivery state of a message handed to a provider
+ */
+export interface MessageDelivery {
+  messageId: string;
+  provider: string;
+  leadId?: string; // absent for staff notifications
+  channel: MessageChannel;
+  to: string;
+  status: DeliveryStatus;
+  sentAt: Date;
+  updatedAt: Date;
+  error?: string;
+}
+
+export interface CommunicationManagerOptions {
+  consentLedger?: ConsentLedger;
+  unsubscribe?: UnsubscribeSettings; // adds an unsubscribe link to every email
+  sendWindows?: SendWindowScheduler;
+  // Preferences, attempts, contact counters, contexts and deliveries; in
+  // memory by default, Redis to share them between instances
+  store?: CommunicationStateStore;
+  // Holds messages sent outside the lead's send window until it opens;
+  // without it such messages are not sent and the caller gets
+  // nextAllowedTime to try again
+  jobs?: JobQueue;
+}
+
+export interface SendMessageResult {
+  sent: boolean;
+  deferred?: boolean; // queued for nextAllowedTime and sent then
+  duplicate?: boolean; // sent before under the same idempotency key
+  delivery?: MessageDelivery;
+  reason?: string;
+  nextAllowedTime?: Date;
+}
 
 /**
  * Multi-channel communication manager
- * Handles channel selection, frequency capping, opt-out management, and conversation continuity
+ * Handles channel selection, frequency capping, opt-out management, and conversation continuity.
+ * Outbound messages go through the channel's message provider. Per-lead state lives in the
+ * state store, so frequency limits hold across instances when it is shared.
  */
 export class MultiChannelCommunicationManager {
-  private communicationPreferences: Map<string, CommunicationPreference> =
-    new Map();
-  private communicationAttempts: Map<string, CommunicationAttempt[]> =
-    new Map();
-  private conversationContexts: Map<string, ConversationContext[]> = new Map();
+  private store: CommunicationStateStore;
+  private providers: Map<MessageChannel, MessageProvider> = new Map();
+  private consentLedger: ConsentLedger;
+  private unsubscribe?: UnsubscribeSettings;
+  private sendWindows: SendWindowScheduler;
+  private jobs?: JobQueue;
+
+  constructor(
+    providers: MessageProvider[] = [],
+    options: CommunicationManagerOptions = {}
+  ) {
+    providers.forEach((provider) => this.registerProvider(provider));
+
+    this.store = options.store ?? new InMemoryCommunicationStateStore();
+    this.consentLedger = options.consentLedger ?? new ConsentLedger();
+    this.sendWindows = options.sendWindows ?? new SendWindowScheduler();
+    this.jobs = options.jobs;
+    this.unsubscribe =
+      options.unsubscribe ??
+      (config.UNSUBSCRIBE_BASE_URL && config.UNSUBSCRIBE_SECRET
+        ? {
+            baseUrl: config.UNSUBSCRIBE_BASE_URL,
+            secret: config.UNSUBSCRIBE_SECRET,
+          }
+        : undefined);
+  }
+
+  /**
+   * Use a provider for its channel, replacing any previous one
+   */
+  registerProvider(provider: MessageProvider): void {
+    this.providers.set(provider.channel, provider);
+  }
+
+  getProvider(channel: MessageChannel): MessageProvider | undefined {
+    return this.providers.get(channel);
+  }
+
+  getConsentLedger(): ConsentLedger {
+    return this.consentLedger;
+  }
+
+  /**
+   * Send a message to a lead. Consent, send windows and frequency limits
+   * are checked first; blocked messages are not sent or counted. Messages
+   * outside the lead's send window are deferred to the next allowed time
+   * on the job queue, unless `deferOutsideWindow` is false.
+   */
+  async sendMessage(message: LeadMessage): Promise<SendMessageResult> {
+    return this.sendOnce(message, () => this.checkAndSend(message));
+  }
+
+  private async checkAndSend(message: LeadMessage): Promise<SendMessageResult> {
+    const check = await this.checkMessage(message);
+    if (
+      !check.allowed &&
+      check.outsideSendWindow &&
+      check.nextAllowedTime &&
+      message.deferOutsideWindow !== false &&
+      this.jobs
+    ) {
+      await this.jobs.enqueue(
+        DEFERRED_MESSAGE_JOB,
+        { message },
+        { runAt: check.nextAllowedTime }
+      );
+      return {
+        sent: false,
+        deferred: true,
+        reason: check.reason,
+        nextAllowedTime: check.nextAllowedTime,
+      };
+    }
+    if (!check.allowed) {
+      return {
+        sent: false,
+        reason: check.reason,
+        nextAllowedTime: check.nextAllowedTime,
+      };
+    }
+
+    return this.deliver(message);
+  }
+
+  registerJobHandlers(worker: JobWorker): void {
+    worker.register(DEFERRED_MESSAGE_JOB, (payload) =>
+      this.runDeferredMessageJob(reviveLeadMessage(payload.message))
+    );
+  }
+
+  /**
+   * Send a deferred message once its window opens. It is checked again, so
+   * an opt-out in the meantime still stops it, and a window that moved
+   * (new preferences) defers it again.
+   */
+  private async runDeferredMessageJob(
+    message: LeadMessage
+  ): Promise<JobDeferral | void> {
+    const check = await this.checkMessage(message);
+    if (!check.allowed && check.outsideSendWindow && check.nextAllowedTime) {
+      return { deferUntil: check.nextAllowedTime };
+    }
+    if (!check.allowed) {
+      logger.info('Deferred message no longer allowed', {
+        leadId: message.leadId,
+        channel: message.channel,
+        reason: check.reason,
+      });
+      return;
+    }
+
+    const result = await this.sendOnce(message, () => this.deliver(message));
+    if (!result.sent) {
+      throw new Error(result.reason);
+    }
+  }
+
+  /**
+   * Send a message unless it was sent before under its idempotency key.
+   * The key is claimed first, so a concurrent or retried send of the same
+   * message stops there, kept once the message is sent and given back when
+   * it is not.
+   */
+  private async sendOnce(
+    message: LeadMessage,
+    send: () => Promise<SendMessageResult>
+  ): Promise<SendMessageResult> {
+    const { idempotencyKey } = message;
+    if (!idempotencyKey) return send();
+
+    if (!(await this.store.claimSend(idempotencyKey))) {
+      logger.info('Message already sent', {
+        leadId: message.leadId,
+        channel: message.channel,
+        idempotencyKey,
+      });
+      return { sent: true, duplicate: true };
+    }
+
+    let result: SendMessageResult;
+    try {
+      result = await send();
+    } catch (error) {
+      await this.store.releaseSend(idempotencyKey);
+      throw error;
+    }
+
+    if (result.sent) {
+      await this.store.confirmSend(idempotencyKey);
+    } else {
+      await this.store.releaseSend(idempotencyKey);
+    }
+    return result;
+  }
+
+  private async checkMessage(message: LeadMessage) {
+    return this.canCommunicate(message.leadId, message.channel, {
+      reply: message.reply,
+      timezone: message.timezone,
+      to: message.to,
+    });
+  }
+
+  /**
+   * Hand an allowed message to its channel's provider and record the
+   * attempt. A contact is reserved against the frequency limits first, so
+   * concurrent sends cannot exceed them, and given back if sending fails.
+   */
+  private async deliver(message: LeadMessage): Promise<SendMessageResult> {
+    const provider = this.providers.get(message.channel);
+    if (!provider) {
+      return {
+        sent: false,
+        reason: `No message provider configured for ${message.channel}`,
+      };
+    }
+
+    const preferences = await this.getCommunicationPreferences(message.leadId);
+    const target = this.sendWindowTarget(
+      message.channel,
+      message,
+      preferences
+    );
+    const period = this.contactPeriod(target, new Date());
+    const limits = frequencyLimits(preferences);
+
+    const reservation = await this.store.reserveContact(
+      message.leadId,
+      period,
+      limits
+    );
+    if (!reservation.reserved) {
+      const limitReached = this.contactLimitReached(
+        reservation.counts,
+        limits,
+        period,
+        target
+      );
+      return {
+        sent: false,
+        reason: limitReached?.reason,
+        nextAllowedTime: limitReached?.nextAllowedTime,
+      };
+    }
+
+
+    let result: SendResult;
+    try {
+      result = await provider.send(this.toOutboundMessage(message));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      await this.store.releaseContact(message.leadId, period);
+      await this.store.recordAttempt(
+        this.createAttempt(
+          message.leadId,
+          message.channel,
+          false,
+          reason,
+          message.interactionId
+        )
+      );
+      return { sent: false, reason };
+    }
+
+    await this.store.recordAttempt(
+      this.createAttempt(
+        message.leadId,
+        message.channel,
+        true,
+        undefined,
+        message.interactionId
+      )
+    );
+
+    return {
+      sent: true,
+      delivery: await this.trackDelivery(result, message, message.leadId),
+    };
+  }
+
+  /**
+   * Who the message goes to, for send windows and the lead's timezone
+   */
+  private sendWindowTarget(
+    channel: CommunicationChannel,
+    options: { timezone?: string; to?: string },
+    preferences: CommunicationPreference | null
+  ): SendWindowTarget {
+    return {
+      timezone: options.timezone,
+      phone: channel === 'email' ? undefined : options.to,
+      preferredHours: preferences?.bestTimeToContact,
+    };
+  }
+
+  /**
+   * Day and week of `at` in the lead's timezone. Without one (contacts
+   * recorded by hand), UTC days and weeks are counted.
+   */
+  private contactPeriod(target: SendWindowTarget, at: Date): ContactPeriod {
+    return contactPeriod(
+      at,
+      this.sendWindows.resolveTimezones(target)[0] ?? 'UTC'
+    );
+  }
+
+  /**
+   * Which frequency limit the counts reach, if any, and the first moment
+   * in the lead's send window after its day or week ends
+   */
+  private contactLimitReached(
+    counts: ContactCounts,
+    limits: ContactCounts,
+    period: ContactPeriod,
+    target: SendWindowTarget
+  ): { reason: string; nextAllowedTime: Date } | null {
+    if (counts.daily >= limits.daily) {
+      return {
+        reason: `Daily communication limit (${limits.daily}) reached`,
+        nextAllowedTime: this.sendWindows.nextAllowedTime(
+          target,
+          period.dayEnd
+        ),
+      };
+    }
+    if (counts.weekly >= limits.weekly) {
+      return {
+        reason: `Weekly communication limit (${limits.weekly}) reached`,
+        nextAllowedTime: this.sendWindows.nextAllowedTime(
+          target,
+          period.weekEnd
+        ),
+      };
+    }
+    return null;
+  }
+
+  /**
+   * Send an internal notification, e.g. to management. Staff are not leads,
+   * so preferences and frequency limits do not apply.
+   */
+  async sendNotification(message: OutboundMessage): Promise<SendMessageResult> {
+    const provider = this.providers.get(message.channel);
+    if (!provider) {
+      return {
+        sent: false,
+        reason: `No message provider configured for ${message.channel}`,
+      };
+    }
+
+    try {
+      const result = await provider.send(message);
+      return {
+        sent: true,
+        delivery: await this.trackDelivery(result, message),
+      };
+    } catch (error) {
+      return {
+        sent: false,
+        reason: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Apply a delivery receipt. Returns the updated delivery, or null when the
+   * message is unknown.
+   */
+  async handleDeliveryReceipt(
+    receipt: DeliveryReceipt
+  ): Promise<MessageDelivery | null> {
+    const delivery = await this.store.getDelivery(receipt.messageId);
+    if (!delivery || delivery.provider !== receipt.provider) {
+      return null;
+    }
+
+    if (isDeliveryProgress(delivery.status, receipt.status)) {
+      delivery.status = receipt.status;
+      delivery.error = receipt.error;
+      delivery.updatedAt = receipt.timestamp;
+      await this.store.saveDelivery(delivery);
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Parse a provider's delivery callback and apply every receipt in it
+   */
+  async processDeliveryReceipts(
+    providerName: string,
+    payload: unknown
+  ): Promise<MessageDelivery[]> {
+    const provider = Array.from(this.providers.values()).find(
+      (candidate) => candidate.name === providerName
+    );
+    if (!provider?.parseDeliveryReceipts) {
+      throw new Error(
+        `Message provider ${providerName} does not report delivery receipts`
+      );
+    }
+
+    const updated: MessageDelivery[] = [];
+    for (const receipt of provider.parseDeliveryReceipts(payload)) {
+      const delivery = await this.handleDeliveryReceipt(receipt);
+      if (delivery) updated.push(delivery);
+    }
+    return updated;
+  }
+
+  async getDelivery(messageId: string): Promise<MessageDelivery | null> {
+    return this.store.getDelivery(messageId);
+  }
+
+  /**
+   * Remember which lead an email conversation belongs to, so replies from
+   * another address in the thread reach the same lead
+   */
+  async saveThreadLead(threadId: string, leadId: string): Promise<void> {
+    await this.store.saveThreadLead(threadId, leadId);
+  }
+
+  async getThreadLead(threadId: string): Promise<string | null> {
+    return this.store.getThreadLead(threadId);
+  }
 
   /**
    * Set communication preferences for a lead
@@ -32,7 +502,7 @@ export class MultiChannelCommunicationManager {
       preferredChannels: CommunicationChannel[];
     }
   ): Promise<void> {
-    const existingPrefs = this.communicationPreferences.get(preferences.leadId);
+    const existingPrefs = await this.store.getPreferences(preferences.leadId);
 
     // Apply defaults for missing fields
     const prefsWithDefaults = {
@@ -54,7 +524,7 @@ export class MultiChannelCommunicationManager {
 
     // Skip validation for internal data structures to avoid date serialization issues
 
-    this.communicationPreferences.set(preferences.leadId, prefsWithDefaults);
+    await this.store.savePreferences(prefsWithDefaults);
   }
 
   /**
@@ -63,16 +533,20 @@ export class MultiChannelCommunicationManager {
   async getCommunicationPreferences(
     leadId: string
   ): Promise<CommunicationPreference | null> {
-    return this.communicationPreferences.get(leadId) || null;
+    return this.store.getPreferences(leadId);
   }
 
   /**
-   * Opt out a lead from a specific channel
+   * Opt out a lead from a specific channel, recording the opt-out in the
+   * consent ledger
    */
   async optOutFromChannel(
     leadId: string,
-    channel: CommunicationChannel
+    channel: CommunicationChannel,
+    record: ConsentRecord = { source: 'preferences' }
   ): Promise<void> {
+    await this.consentLedger.record(leadId, channel, 'opt_out', record);
+
     const preferences = await this.getCommunicationPreferences(leadId);
 
     if (!preferences) {
@@ -106,12 +580,16 @@ export class MultiChannelCommunicationManager {
   }
 
   /**
-   * Opt in a lead to a specific channel
+   * Opt in a lead to a specific channel, recording the opt-in in the consent
+   * ledger
    */
   async optInToChannel(
     leadId: string,
-    channel: CommunicationChannel
+    channel: CommunicationChannel,
+    record: ConsentRecord = { source: 'preferences' }
   ): Promise<void> {
+    await this.consentLedger.record(leadId, channel, 'opt_in', record);
+
     const preferences = await this.getCommunicationPreferences(leadId);
 
     if (!preferences) {
@@ -166,6 +644,12 @@ export class MultiChannelCommunicationManager {
     const channelsToConsider =
       viableChannels.length > 0 ? viableChannels : availableChannels;
 
+    // The lead's own clock decides what time of day it is
+    const { timezone } = criteria.contextualFactors;
+    const currentHour = timezone
+      ? getZonedDateTime(new Date(), timezone).hour
+      : criteria.contextualFactors.timeOfDay;
+
     // Channel selection logic based on criteria
     const channelScores = new Map<CommunicationChannel, number>();
 
@@ -227,7 +711,6 @@ export class MultiChannelCommunicationManager {
       }
 
       // Time-based scoring
-      const currentHour = criteria.contextualFactors.timeOfDay;
       if (currentHour >= 9 && currentHour <= 17) {
         // Business hours - voice calls are more acceptable
         if (channel === 'voice') score += 15;
@@ -254,94 +737,85 @@ export class MultiChannelCommunicationManager {
   }
 
   /**
-   * Check if communication is allowed based on frequency limits
+   * Check if communication is allowed based on consent, opt-outs, send
+   * windows and frequency limits. Send windows combine legal quiet hours
+   * for the region of `to` with the lead's preferred contact hours, in the
+   * lead's timezone.
    */
   async canCommunicate(
     leadId: string,
-    channel: CommunicationChannel
+    channel: CommunicationChannel,
+    options: { reply?: boolean; timezone?: string; to?: string } = {}
   ): Promise<{
     allowed: boolean;
     reason?: string;
     nextAllowedTime?: Date;
+    outsideSendWindow?: boolean;
   }> {
-    const preferences = await this.getCommunicationPreferences(leadId);
-
-    // Check if channel is opted out
-    if (
-      preferences &&
-      CommunicationValidation.isChannelOptedOut(preferences, channel)
-    ) {
+    // Consent is a hard block; replies do not bypass it
+    const consent = await this.consentLedger.getStatus(leadId, channel);
+    if (consent === 'revoked') {
       return {
         allowed: false,
         reason: `Lead has opted out of ${channel} communications`,
       };
     }
+    if (consent === 'unknown' && this.consentLedger.requiresOptIn(channel)) {
+      return {
+        allowed: false,
+        reason: `No consent on record for ${channel} communications`,
+      };
+    }
+
+    const preferences = await this.getCommunicationPreferences(leadId);
 
-    // Check time-based restrictions
+    // Check if channel is opted out
     if (
       preferences &&
-      !CommunicationValidation.isWithinContactTime(preferences, new Date())
+      CommunicationValidation.isChannelOptedOut(preferences, channel)
     ) {
-      const nextContactTime = this.calculateNextContactTime(preferences);
       return {
         allowed: false,
-        reason: 'Outside of preferred contact hours',
-        nextAllowedTime: nextContactTime,
+        reason: `Lead has opted out of ${channel} communications`,
       };
     }
 
-    const attempts = this.communicationAttempts.get(leadId) || [];
+    // Check quiet hours and preferred contact hours
     const now = new Date();
-
-    // Check daily limits
-    const todayAttempts = attempts.filter((attempt) => {
-      const attemptDate = new Date(attempt.attemptedAt);
-      return attemptDate.toDateString() === now.toDateString();
-    });
-
-    const dailyLimit = preferences?.frequencyLimits.maxDailyContacts || 3;
-    if (todayAttempts.length >= dailyLimit) {
-      const tomorrow = new Date(now);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(9, 0, 0, 0); // 9 AM next day
-
+    const target = this.sendWindowTarget(channel, options, preferences);
+    const sendWindow = this.sendWindows.check(target, now);
+    if (!sendWindow.allowed) {
       return {
         allowed: false,
-        reason: `Daily communication limit (${dailyLimit}) reached`,
-        nextAllowedTime: tomorrow,
+        reason: sendWindow.reason,
+        nextAllowedTime: sendWindow.nextAllowedTime,
+        outsideSendWindow: true,
       };
     }
 
-    // Check weekly limits
-    const weekStart = new Date(now);
-    weekStart.setDate(now.getDate() - now.getDay());
-    weekStart.setHours(0, 0, 0, 0);
-
-    const weeklyAttempts = attempts.filter(
-      (attempt) => new Date(attempt.attemptedAt) >= weekStart
+    // Check daily and weekly limits, counted in the lead's timezone
+    const period = this.contactPeriod(target, now);
+    const limitReached = this.contactLimitReached(
+      await this.store.getContactCounts(leadId, period),
+      frequencyLimits(preferences),
+      period,
+      target
     );
-
-    const weeklyLimit = preferences?.frequencyLimits.maxWeeklyContacts || 10;
-    if (weeklyAttempts.length >= weeklyLimit) {
-      const nextWeek = new Date(weekStart);
-      nextWeek.setDate(nextWeek.getDate() + 7);
-
-      return {
-        allowed: false,
-        reason: `Weekly communication limit (${weeklyLimit}) reached`,
-        nextAllowedTime: nextWeek,
-      };
+    if (limitReached) {
+      return { allowed: false, ...limitReached };
     }
 
-    // Check cooldown period
+    // Check cooldown period; replies continue a conversation the lead
+    // started, and failed sends do not start one
+    const attempts = await this.store.getAttempts(leadId);
     const lastAttempt = attempts
-      .filter((attempt) => attempt.channel === channel)
+      .filter((attempt) => attempt.channel === channel && attempt.successful)
       .sort(
         (a, b) =>
           new Date(b.attemptedAt).getTime() - new Date(a.attemptedAt).getTime()
       )[0];
 
-    if (lastAttempt) {
+    if (lastAttempt && !options.reply) {
       const cooldownHours =
         preferences?.frequencyLimits.cooldownPeriodHours || 24;
       const cooldownEnd = new Date(lastAttempt.attemptedAt);
@@ -360,16 +834,48 @@ export class MultiChannelCommunicationManager {
   }
 
   /**
-   * Record a communication attempt
+   * Record a communication attempt made outside `sendMessage`, e.g. a call.
+   * Successful ones count against the frequency limits, in the lead's
+   * timezone when given.
    */
   async recordCommunicationAttempt(
     leadId: string,
     channel: CommunicationChannel,
     successful: boolean,
     failureReason?: string,
-    interactionId?: string
+    interactionId?: string,
+    timezone?: string
   ): Promise<void> {
-    const attempt: CommunicationAttempt = {
+    if (successful) {
+      const preferences = await this.getCommunicationPreferences(leadId);
+      const target = this.sendWindowTarget(channel, { timezone }, preferences);
+      await this.store.reserveContact(
+        leadId,
+        this.contactPeriod(target, new Date()),
+        { daily: Infinity, weekly: Infinity }
+      );
+    }
+
+    await this.store.recordAttempt(
+      this.createAttempt(
+        leadId,
+        channel,
+        successful,
+        failureReason,
+        interactionId
+      )
+    );
+  }
+
+  private createAttempt(
+    leadId: string,
+    channel: CommunicationChannel,
+    successful: boolean,
+    failureReason?: string,
+    interactionId?: string
+  ): CommunicationAttempt {
+    // Skip validation for internal data structures to avoid date serialization issues
+    return {
       id: generateUUID(),
       leadId,
       channel,
@@ -378,17 +884,6 @@ export class MultiChannelCommunicationManager {
       failureReason,
       interactionId,
     };
-
-    // Skip validation for internal data structures to avoid date serialization issues
-
-    const attempts = this.communicationAttempts.get(leadId) || [];
-    attempts.push(attempt);
-    this.communicationAttempts.set(leadId, attempts);
-
-    // Keep only last 100 attempts per lead to prevent memory issues
-    if (attempts.length > 100) {
-      attempts.splice(0, attempts.length - 100);
-    }
   }
 
   /**
@@ -401,7 +896,7 @@ export class MultiChannelCommunicationManager {
     context: Record<string, any>,
     interactionId: string
   ): Promise<void> {
-    const contexts = this.conversationContexts.get(leadId) || [];
+    const contexts = await this.store.getContexts(leadId);
 
     // Find existing context for this topic
     let existingContext = contexts.find((ctx) => ctx.topic === topic);
@@ -428,7 +923,7 @@ export class MultiChannelCommunicationManager {
       contexts.push(newContext);
     }
 
-    this.conversationContexts.set(leadId, contexts);
+    await this.store.saveContexts(leadId, contexts);
   }
 
   /**
@@ -438,7 +933,7 @@ export class MultiChannelCommunicationManager {
     leadId: string,
     topic: string
   ): Promise<ConversationContext | null> {
-    const contexts = this.conversationContexts.get(leadId) || [];
+    const contexts = await this.store.getContexts(leadId);
     return contexts.find((ctx) => ctx.topic === topic) || null;
   }
 
@@ -448,7 +943,7 @@ export class MultiChannelCommunicationManager {
   async getAllConversationContexts(
     leadId: string
   ): Promise<ConversationContext[]> {
-    return this.conversationContexts.get(leadId) || [];
+    return this.store.getContexts(leadId);
   }
 
   /**
@@ -457,7 +952,7 @@ export class MultiChannelCommunicationManager {
   async getCommunicationAttempts(
     leadId: string
   ): Promise<CommunicationAttempt[]> {
-    return this.communicationAttempts.get(leadId) || [];
+    return this.store.getAttempts(leadId);
   }
 
   /**
@@ -479,32 +974,52 @@ export class MultiChannelCommunicationManager {
       .map((attempt) => attempt.channel);
   }
 
-  /**
-   * Calculate next allowed contact time based on preferences
-   */
-  private calculateNextContactTime(preferences: CommunicationPreference): Date {
-    if (!preferences.bestTimeToContact) {
-      return new Date(); // No restrictions
-    }
-
+  private async trackDelivery(
+    result: SendResult,
+    message: Pick<OutboundMessage, 'channel' | 'to'>,
+    leadId?: string
+  ): Promise<MessageDelivery> {
     const now = new Date();
-    const { startHour, endHour } = preferences.bestTimeToContact;
+    const delivery: MessageDelivery = {
+      messageId: result.messageId,
+      provider: result.provider,
+      leadId,
+      channel: message.channel,
+      to: message.to,
+      status: result.status,
+      sentAt: now,
+      updatedAt: now,
+    };
 
-    const nextContactTime = new Date(now);
+    await this.store.saveDelivery(delivery);
+    return delivery;
+  }
 
-    if (now.getHours() < startHour) {
-      // Before contact window today
-      nextContactTime.setHours(startHour, 0, 0, 0);
-    } else if (now.getHours() > endHour) {
-      // After contact window today, set to start time tomorrow
-      nextContactTime.setDate(nextContactTime.getDate() + 1);
-      nextContactTime.setHours(startHour, 0, 0, 0);
-    } else {
-      // Currently in window, return current time
-      return now;
+  private toOutboundMessage(message: LeadMessage): OutboundMessage {
+    const outbound: OutboundMessage = {
+      channel: message.channel,
+      to: message.to,
+      subject: message.subject,
+      content: message.content,
+      attachments: message.attachments,
+      metadata: { ...message.metadata, leadId: message.leadId },
+    };
+
+    if (message.channel === 'email' && this.unsubscribe) {
+      // RFC 8058 one-click unsubscribe, plus a link in the body
+      const url = buildUnsubscribeUrl(
+        this.unsubscribe,
+        message.leadId,
+        message.channel
+      );
+      outbound.headers = {
+        'List-Unsubscribe': `<${url}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      };
+      outbound.content = `${message.content}\n\n--\nUnsubscribe: ${url}`;
     }
 
-    return nextContactTime;
+    return outbound;
   }
 
   /**
@@ -514,30 +1029,46 @@ export class MultiChannelCommunicationManager {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
 
-    // Clean up old communication attempts
-    for (const [leadId, attempts] of this.communicationAttempts) {
-      const filteredAttempts = attempts.filter(
-        (attempt) => new Date(attempt.attemptedAt) >= cutoffDate
-      );
+    // Clean up old attempts, conversation contexts and delivery records
+    await this.store.cleanup(cutoffDate);
+  }
+}
 
-      if (filteredAttempts.length === 0) {
-        this.communicationAttempts.delete(leadId);
-      } else {
-        this.communicationAttempts.set(leadId, filteredAttempts);
-      }
-    }
+/**
+ * Message as it comes back from a job payload, with its attachments'
+ * binary content restored
+ */
+function reviveLeadMessage(message: LeadMessage): LeadMessage {
+  return {
+    ...message,
+    attachments: message.attachments?.map((attachment) => {
+      const content = attachment.content as unknown;
+      return isSerializedBuffer(content)
+        ? { ...attachment, content: Buffer.from(content.data) }
+        : attachment;
+    }),
+  };
+}
 
-    // Clean up old conversation contexts
-    for (const [leadId, contexts] of this.conversationContexts) {
-      const filteredContexts = contexts.filter(
-        (context) => new Date(context.updatedAt) >= cutoffDate
-      );
+function isSerializedBuffer(
+  value: unknown
+): value is { type: 'Buffer'; data: number[] } {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as { type?: unknown }).type === 'Buffer' &&
+    Array.isArray((value as { data?: unknown }).data)
+  );
+}
 
-      if (filteredContexts.length === 0) {
-        this.conversationContexts.delete(leadId);
-      } else {
-        this.conversationContexts.set(leadId, filteredContexts);
-      }
-    }
-  }
+/**
+ * The lead's daily and weekly contact limits, or the defaults
+ */
+function frequencyLimits(
+  preferences: CommunicationPreference | null
+): ContactCounts {
+  return {
+    daily: preferences?.frequencyLimits.maxDailyContacts || 3,
+    weekly: preferences?.frequencyLimits.maxWeeklyContacts || 10,
+  };
 }
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  FileOutboxProvider,
+  HttpSmsProvider,
+  createMessageProviders,
+} from '..';
+import { config } from '../../../config/environment';
+
+vi.mock('../../../utils/logger');
+
+describe('FileOutboxProvider', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write each message to a JSON file', async () => {
+    const provider = new FileOutboxProvider('email', directory);
+
+    const result = await provider.send({
+      channel: 'email',
+      to: 'lead@example.com',
+      subject: 'Welcome',
+      content: 'Thanks for your interest',
+      attachments: [
+        {
+          filename: 'brochure.pdf',
+          contentType: 'application/pdf',
+          content: Buffer.from('%PDF'),
+        },
+      ],
+      metadata: { leadId: 'lead-1' },
+    });
+
+    expect(result).toMatchObject({ provider: 'outbox', status: 'sent' });
+
+    const files = await fs.readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toContain(`-email-${result.messageId}.json`);
+
+    const [entry] = await provider.list();
+    expect(entry).toMatchObject({
+      messageId: result.messageId,
+      to: 'lead@example.com',
+      subject: 'Welcome',
+      content: 'Thanks for your interest',
+      metadata: { leadId: 'lead-1' },
+    });
+    expect(entry.attachments?.[0].content).toBe(
+      Buffer.from('%PDF').toString('base64')
+    );
+  });
+
+  it('should list only messages of its own channel', async () => {
+    const email = new FileOutboxProvider('email', directory);
+    const sms = new FileOutboxProvider('sms', directory);
+
+    await email.send({ channel: 'email', to: 'a@example.com', content: 'A' });
+    await sms.send({ channel: 'sms', to: '+15551234567', content: 'B' });
+
+    expect((await sms.list()).map((entry) => entry.content)).toEqual(['B']);
+  });
+
+  it('should return an empty list before anything was written', async () => {
+    const provider = new FileOutboxProvider('sms', path.join(directory, 'none'));
+    expect(await provider.list()).toEqual([]);
+  });
+});
+
+describe('createMessageProviders', () => {
+  it('should fall back to the outbox for unconfigured channels', () => {
+    const providers = createMessageProviders({
+      ...config,
+      SMTP_HOST: '',
+      SMS_GATEWAY_URL: 'https://sms.example.com/messages',
+      SMS_FROM: '+15550000000',
+      WHATSAPP_ACCESS_TOKEN: '',
+      MESSAGE_OUTBOX_DIR: '/tmp/outbox',
+    });
+
+    expect(providers.map((provider) => [provider.channel, provider.name])).toEqual([
+      ['sms', 'http-sms'],
+      ['email', 'outbox'],
+      ['whatsapp', 'outbox'],
+    ]);
+    expect(providers[0]).toBeInstanceOf(HttpSmsProvider);
+  });
+
+  it('should refuse to fall back silently in production', () => {
+    const settings = {
+      ...config,
+      NODE_ENV: 'production',
+      SMTP_HOST: '',
+      SMS_GATEWAY_URL: 'https://sms.example.com/messages',
+      SMS_FROM: '+15550000000',
+      WHATSAPP_ACCESS_TOKEN: '',
+      MESSAGE_OUTBOX_DIR: '',
+    };
+
+    expect(() => createMessageProviders(settings)).toThrow(
+      'No email provider configured'
+    );
+    expect(
+      createMessageProviders({ ...settings, MESSAGE_OUTBOX_DIR: '/tmp/outbox' })
+        .map((provider) => provider.name)
+    ).toEqual(['http-sms', 'outbox', 'outbox']);
+  });
+});
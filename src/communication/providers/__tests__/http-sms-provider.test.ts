@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import { HttpSmsProvider } from '../http-sms-provider';
+
+vi.mock('axios');
+const mockedAxios = axios as any;
+
+describe('HttpSmsProvider', () => {
+  let provider: HttpSmsProvider;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAxiosInstance = { post: vi.fn() };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+
+    provider = new HttpSmsProvider({
+      url: 'https://sms.example.com/messages',
+      apiKey: 'sms-key',
+      from: '+15550000000',
+      statusCallbackUrl: 'https://api.example.com/receipts/http-sms',
+    });
+  });
+
+  it('should authenticate with a bearer token', () => {
+    expect(mockedAxios.create).toHaveBeenCalledWith({
+      timeout: 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: 'Bearer sms-key',
+      },
+    });
+  });
+
+  it('should post the message to the gateway', async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: { id: 'sms-123', status: 'accepted' },
+    });
+
+    const result = await provider.send({
+      channel: 'sms',
+      to: '+15551234567',
+      content: 'Hello from the team',
+    });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      'https://sms.example.com/messages',
+      {
+        from: '+15550000000',
+        to: '+15551234567',
+        text: 'Hello from the team',
+        statusCallbackUrl: 'https://api.example.com/receipts/http-sms',
+      }
+    );
+    expect(result).toEqual({
+      provider: 'http-sms',
+      messageId: 'sms-123',
+      status: 'queued',
+    });
+  });
+
+  it('should reject responses without a message id', async () => {
+    mockAxiosInstance.post.mockResolvedValue({ data: {} });
+
+    await expect(
+      provider.send({ channel: 'sms', to: '+15551234567', content: 'Hi' })
+    ).rejects.toThrow('did not include a message id');
+  });
+
+  it('should propagate gateway errors', async () => {
+    mockAxiosInstance.post.mockRejectedValue(new Error('Request failed with status code 401'));
+
+    await expect(
+      provider.send({ channel: 'sms', to: '+15551234567', content: 'Hi' })
+    ).rejects.toThrow('status code 401');
+  });
+
+  it('should parse delivery reports', () => {
+    const receipts = provider.parseDeliveryReceipts([
+      { message_id: 'sms-1', status: 'DELIVRD', timestamp: '2024-07-01T10:00:00Z' },
+      { messageId: 'sms-2', status: 'undelivered', error: 'Unknown subscriber' },
+      { id: 'sms-3', status: 'something-else' },
+    ]);
+
+    expect(receipts).toHaveLength(2);
+    expect(receipts[0]).toEqual({
+      provider: 'http-sms',
+      messageId: 'sms-1',
+      status: 'delivered',
+      timestamp: new Date('2024-07-01T10:00:00Z'),
+      error: undefined,
+    });
+    expect(receipts[1]).toMatchObject({
+      messageId: 'sms-2',
+      status: 'failed',
+      error: 'Unknown subscriber',
+    });
+  });
+});
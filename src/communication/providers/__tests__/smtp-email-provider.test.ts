@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { SmtpEmailProvider } from '../smtp-email-provider';
+
+interface FakeSmtpSession {
+  commands: string[];
+  data: string;
+}
+
+/**
+ * Minimal SMTP server recording the commands and message it receives
+ */
+function startFakeSmtpServer(
+  options: { auth?: string; rejectRecipient?: boolean } = {}
+): Promise<{ server: net.Server; port: number; sessions: FakeSmtpSession[] }> {
+  const sessions: FakeSmtpSession[] = [];
+
+  const server = net.createServer((socket) => {
+    const session: FakeSmtpSession = { commands: [], data: '' };
+    sessions.push(session);
+    let buffer = '';
+    let inData = false;
+    let loginPrompts = 0;
+
+    socket.setEncoding('utf8');
+    socket.write('220 fake.smtp ESMTP ready\r\n');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end === -1) return;
+          session.data = buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          socket.write('250 2.0.0 Queued\r\n');
+          continue;
+        }
+
+        const end = buffer.indexOf('\r\n');
+        if (end === -1) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        session.commands.push(line);
+
+        const verb = line.split(' ')[0].toUpperCase();
+        if (loginPrompts > 0) {
+          // Username and password lines of AUTH LOGIN
+          loginPrompts--;
+          socket.write(
+            loginPrompts > 0 ? '334 UGFzc3dvcmQ6\r\n' : '235 2.7.0 Accepted\r\n'
+          );
+        } else if (line === 'AUTH LOGIN') {
+          loginPrompts = 2;
+          socket.write('334 VXNlcm5hbWU6\r\n');
+        } else if (verb === 'EHLO') {
+          socket.write(
+            `250-fake.smtp\r\n250-AUTH ${options.auth ?? 'PLAIN LOGIN'}\r\n250 8BITMIME\r\n`
+          );
+        } else if (verb === 'AUTH') {
+          socket.write('235 2.7.0 Authentication successful\r\n');
+        } else if (verb === 'RCPT' && options.rejectRecipient) {
+          socket.write('550 5.1.1 No such user\r\n');
+        } else if (verb === 'DATA') {
+          inData = true;
+          socket.write('354 End data with <CR><LF>.<CR><LF>\r\n');
+        } else if (verb === 'QUIT') {
+          socket.end('221 Bye\r\n');
+        } else {
+          socket.write('250 OK\r\n');
+        }
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      resolve({
+        server,
+        port: (server.address() as AddressInfo).port,
+        sessions,
+      });
+    });
+  });
+}
+
+describe('SmtpEmailProvider', () => {
+  let server: net.Server;
+  let port: number;
+  let sessions: FakeSmtpSession[];
+
+  async function start(options?: Parameters<typeof startFakeSmtpServer>[0]) {
+    ({ server, port, sessions } = await startFakeSmtpServer(options));
+  }
+
+  function createProvider(overrides = {}) {
+    return new SmtpEmailProvider({
+      host: '127.0.0.1',
+      port,
+      username: 'mailer',
+      password: 'secret',
+      from: 'sales@example.com',
+      fromName: 'Sales Team',
+      clientName: 'test-client',
+      timeoutMs: 2000,
+      // The fake server speaks plain text only
+      requireTls: false,
+      ...overrides,
+    });
+  }
+
+  beforeEach(async () => {
+    await start();
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should deliver a message through the SMTP dialogue', async () => {
+    const result = await createProvider().send({
+      channel: 'email',
+      to: 'lead@example.com',
+      subject: 'Your appointment',
+      content: 'See you tomorrow at 10:00.',
+    });
+
+    expect(result.provider).toBe('smtp');
+    expect(result.status).toBe('sent');
+    expect(result.messageId).toMatch(/@example\.com$/);
+
+    const [session] = sessions;
+    expect(session.commands).toEqual([
+      'EHLO test-client',
+      `AUTH PLAIN ${Buffer.from('\0mailer\0secret').toString('base64')}`,
+      'MAIL FROM:<sales@example.com>',
+      'RCPT TO:<lead@example.com>',
+      'DATA',
+      'QUIT',
+    ]);
+    expect(session.data).toContain('From: Sales Team <sales@example.com>');
+    expect(session.data).toContain('To: <lead@example.com>');
+    expect(session.data).toContain('Subject: Your appointment');
+    expect(session.data).toContain(`Message-ID: <${result.messageId}>`);
+    expect(session.data).toContain(
+      Buffer.from('See you tomorrow at 10:00.').toString('base64')
+    );
+  });
+
+  it('should fall back to AUTH LOGIN', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await start({ auth: 'LOGIN' });
+
+    await createProvider().send({
+      channel: 'email',
+      to: 'lead@example.com',
+      content: 'Hello',
+    });
+
+    expect(sessions[0].commands.slice(1, 4)).toEqual([
+      'AUTH LOGIN',
+      Buffer.from('mailer').toString('base64'),
+      Buffer.from('secret').toString('base64'),
+    ]);
+  });
+
+  it('should attach files as MIME parts', async () => {
+    await createProvider().send({
+      channel: 'email',
+      to: 'lead@example.com',
+      subject: 'Invitation',
+      content: 'Your viewing is booked.',
+      attachments: [
+        {
+          filename: 'invite.ics',
+          contentType: 'text/calendar; charset=utf-8; method=REQUEST',
+          content: 'BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n',
+        },
+      ],
+    });
+
+    const data = sessions[0].data;
+    expect(data).toMatch(/Content-Type: multipart\/mixed; boundary="([^"]+)"/);
+    expect(data).toContain(
+      'Content-Type: text/calendar; charset=utf-8; method=REQUEST; name="invite.ics"'
+    );
+    expect(data).toContain('Content-Disposition: attachment; filename="invite.ics"');
+    expect(data).toContain(
+      Buffer.from('BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n').toString('base64')
+    );
+  });
+
+  it('should encode non-ASCII subjects', async () => {
+    await createProvider().send({
+      channel: 'email',
+      to: 'lead@example.com',
+      subject: 'Visita confirmada ✔',
+      content: 'Olá!',
+    });
+
+    expect(sessions[0].data).toContain(
+      `Subject: =?UTF-8?B?${Buffer.from('Visita confirmada ✔').toString('base64')}?=`
+    );
+  });
+
+  it('should add extra headers on a single line', async () => {
+    await createProvider().send({
+      channel: 'email',
+      to: 'lead@example.com',
+      content: 'Hello',
+      headers: {
+        'List-Unsubscribe': '<https://leads.example.com/unsubscribe/abc>',
+        'X-Note': 'one\r\nBcc: other@example.com',
+      },
+    });
+
+    const data = sessions[0].data;
+    expect(data).toContain(
+      'List-Unsubscribe: <https://leads.example.com/unsubscribe/abc>'
+    );
+    expect(data).toContain('X-Note: one Bcc: other@example.com');
+    expect(data).not.toContain('\r\nBcc:');
+  });
+
+  it('should reject when the server refuses the recipient', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await start({ rejectRecipient: true });
+
+    await expect(
+      createProvider().send({
+        channel: 'email',
+        to: 'unknown@example.com',
+        content: 'Hello',
+      })
+    ).rejects.toThrow('SMTP RCPT failed: 550');
+  });
+
+  it('should reject servers without a supported authentication mechanism', async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await start({ auth: 'CRAM-MD5' });
+
+    await expect(
+      createProvider().send({
+        channel: 'email',
+        to: 'lead@example.com',
+        content: 'Hello',
+      })
+    ).rejects.toThrow('does not support PLAIN or LOGIN');
+  });
+
+  it('should refuse recipients that could inject headers', async () => {
+    await expect(
+      createProvider().send({
+        channel: 'email',
+        to: 'lead@example.com\r\nBcc: other@example.com',
+        content: 'Hello',
+      })
+    ).rejects.toThrow('Invalid email recipient');
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should require STARTTLS by default', async () => {
+    await expect(
+      createProvider({ requireTls: undefined }).send({
+        channel: 'email',
+        to: 'lead@example.com',
+        content: 'Hello',
+      })
+    ).rejects.toThrow('SMTP server does not support STARTTLS');
+    expect(sessions[0].commands).not.toContain('MAIL FROM:<sales@example.com>');
+  });
+});
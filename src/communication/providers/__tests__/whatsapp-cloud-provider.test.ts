@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import { WhatsAppCloudProvider } from '../whatsapp-cloud-provider';
+
+vi.mock('axios');
+const mockedAxios = axios as any;
+
+describe('WhatsAppCloudProvider', () => {
+  let provider: WhatsAppCloudProvider;
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAxiosInstance = { post: vi.fn() };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+
+    provider = new WhatsAppCloudProvider({
+      accessToken: 'wa-token',
+      phoneNumberId: '1234567890',
+    });
+  });
+
+  it('should target the Graph API of the configured version', () => {
+    expect(mockedAxios.create).toHaveBeenCalledWith({
+      baseURL: 'https://graph.facebook.com/v19.0',
+      timeout: 30000,
+      headers: {
+        Authorization: 'Bearer wa-token',
+        'Content-Type': 'application/json',
+      },
+    });
+  });
+
+  it('should send a text message from the business number', async () => {
+    mockAxiosInstance.post.mockResolvedValue({
+      data: {
+        messaging_product: 'whatsapp',
+        messages: [{ id: 'wamid.ABC' }],
+      },
+    });
+
+    const result = await provider.send({
+      channel: 'whatsapp',
+      to: '+55 11 98765-4321',
+      content: 'Olá! Ainda procura um apartamento?',
+    });
+
+    expect(mockAxiosInstance.post).toHaveBeenCalledWith('/1234567890/messages', {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: '5511987654321',
+      type: 'text',
+      text: {
+        preview_url: false,
+        body: 'Olá! Ainda procura um apartamento?',
+      },
+    });
+    expect(result).toEqual({
+      provider: 'whatsapp-cloud',
+      messageId: 'wamid.ABC',
+      status: 'queued',
+    });
+  });
+
+  it('should parse status webhooks', () => {
+    const receipts = provider.parseDeliveryReceipts({
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          id: 'waba',
+          changes: [
+            {
+              field: 'messages',
+              value: {
+                statuses: [
+                  { id: 'wamid.ABC', status: 'read', timestamp: '1719828000' },
+                  {
+                    id: 'wamid.DEF',
+                    status: 'failed',
+                    timestamp: '1719828060',
+                    errors: [{ code: 131026, title: 'Message undeliverable' }],
+                  },
+                ],
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(receipts).toEqual([
+      {
+        provider: 'whatsapp-cloud',
+        messageId: 'wamid.ABC',
+        status: 'read',
+        timestamp: new Date(1719828000 * 1000),
+        error: undefined,
+      },
+      {
+        provider: 'whatsapp-cloud',
+        messageId: 'wamid.DEF',
+        status: 'failed',
+        timestamp: new Date(1719828060 * 1000),
+        error: 'Message undeliverable',
+      },
+    ]);
+  });
+
+  it('should ignore webhooks without statuses', () => {
+    expect(
+      provider.parseDeliveryReceipts({
+        entry: [{ changes: [{ value: { messages: [{ id: 'wamid.IN' }] } }] }],
+      })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { generateUUID } from '../../types/validation';
+import { logger } from '../../utils/logger';
+import {
+  MessageChannel,
+  MessageProvider,
+  OutboundMessage,
+  SendResult,
+} from './message-provider';
+
+/**
+ * Message as written to the outbox directory
+ */
+export interface OutboxEntry {
+  messageId: string;
+  channel: MessageChannel;
+  to: string;
+  subject?: string;
+  content: string;
+  attachments?: { filename: string; contentType: string; content: string }[];
+  headers?: Record<string, string>;
+  metadata?: Record<string, string>;
+  writtenAt: string;
+}
+
+/**
+ * File Outbox Provider - writes each message to a JSON file instead of
+ * delivering it, for local development and tests
+ */
+export class FileOutboxProvider implements MessageProvider {
+  readonly name = 'outbox';
+
+  constructor(
+    readonly channel: MessageChannel,
+    private directory: string
+  ) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const messageId = generateUUID();
+    const writtenAt = new Date();
+
+    const entry: OutboxEntry = {
+      messageId,
+      channel: message.channel,
+      to: message.to,
+      subject: message.subject,
+      content: message.content,
+      attachments: message.attachments?.map((attachment) => ({
+        filename: attachment.filename,
+        contentType: attachment.contentType,
+        // Binary attachments are stored base64 encoded
+        content: Buffer.isBuffer(attachment.content)
+          ? attachment.content.toString('base64')
+          : attachment.content,
+      })),
+      headers: message.headers,
+      metadata: message.metadata,
+      writtenAt: writtenAt.toISOString(),
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const file = path.join(
+      this.directory,
+      `${writtenAt.getTime()}-${message.channel}-${messageId}.json`
+    );
+    await fs.writeFile(file, JSON.stringify(entry, null, 2), 'utf8');
+
+    logger.debug(`Wrote ${message.channel} message for ${message.to} to ${file}`);
+
+    return { provider: this.name, messageId, status: 'sent' };
+  }
+
+  /**
+   * Messages in the outbox, oldest first
+   */
+  async list(): Promise<OutboxEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const entries: OutboxEntry[] = [];
+    for (const file of files.filter((name) => name.endsWith('.json')).sort()) {
+      const entry = JSON.parse(
+        await fs.readFile(path.join(this.directory, file), 'utf8')
+      ) as OutboxEntry;
+      if (entry.channel === this.channel) entries.push(entry);
+    }
+    return entries;
+  }
+}
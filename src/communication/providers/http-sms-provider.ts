@@ -0,0 +1,112 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  DeliveryReceipt,
+  DeliveryStatus,
+  MessageProvider,
+  OutboundMessage,
+  SendResult,
+} from './message-provider';
+
+export interface HttpSmsConfig {
+  url: string; // endpoint accepting POST { from, to, text }
+  apiKey?: string; // sent as a bearer token
+  from: string;
+  statusCallbackUrl?: string;
+  timeoutMs?: number;
+}
+
+// Status names used by common SMS gateways, mapped to delivery statuses
+const GATEWAY_STATUSES: Record<string, DeliveryStatus> = {
+  accepted: 'queued',
+  queued: 'queued',
+  enroute: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  delivrd: 'delivered',
+  read: 'read',
+  failed: 'failed',
+  undelivered: 'failed',
+  undeliv: 'failed',
+  rejected: 'failed',
+  rejectd: 'failed',
+  expired: 'failed',
+};
+
+/**
+ * HTTP SMS Provider - sends text messages through a generic HTTP gateway
+ *
+ * The gateway receives `{ from, to, text }` as JSON and answers with the
+ * message id (`id`, `messageId` or `message_id`). Delivery reports posted
+ * back to the status callback use the same field names plus `status`.
+ */
+export class HttpSmsProvider implements MessageProvider {
+  readonly name = 'http-sms';
+  readonly channel = 'sms' as const;
+  private api: AxiosInstance;
+
+  constructor(private config: HttpSmsConfig) {
+    this.api = axios.create({
+      timeout: config.timeoutMs ?? 30000,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+    });
+  }
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const response = await this.api.post(this.config.url, {
+      from: this.config.from,
+      to: message.to,
+      text: message.content,
+      ...(this.config.statusCallbackUrl
+        ? { statusCallbackUrl: this.config.statusCallbackUrl }
+        : {}),
+    });
+
+    const messageId = readMessageId(response.data);
+    if (!messageId) {
+      throw new Error('SMS gateway response did not include a message id');
+    }
+
+    return {
+      provider: this.name,
+      messageId,
+      status: toDeliveryStatus(response.data?.status) ?? 'queued',
+    };
+  }
+
+  parseDeliveryReceipts(payload: unknown): DeliveryReceipt[] {
+    const reports = Array.isArray(payload) ? payload : [payload];
+    const receipts: DeliveryReceipt[] = [];
+
+    for (const report of reports) {
+      const messageId = readMessageId(report);
+      const status = toDeliveryStatus(report?.status);
+      if (!messageId || !status) continue;
+
+      const timestamp = new Date(report.timestamp ?? Date.now());
+      receipts.push({
+        provider: this.name,
+        messageId,
+        status,
+        timestamp: isNaN(timestamp.getTime()) ? new Date() : timestamp,
+        error: report.error ? String(report.error) : undefined,
+      });
+    }
+
+    return receipts;
+  }
+}
+
+function readMessageId(data: any): string | undefined {
+  const id = data?.id ?? data?.messageId ?? data?.message_id;
+  return id !== undefined && id !== null ? String(id) : undefined;
+}
+
+function toDeliveryStatus(status: unknown): DeliveryStatus | undefined {
+  return typeof status === 'string'
+    ? GATEWAY_STATUSES[status.toLowerCase()]
+    : undefined;
+}
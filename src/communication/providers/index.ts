@@ -0,0 +1,109 @@
+import os from 'os';
+import path from 'path';
+import { config } from '../../config/environment';
+import { logger } from '../../utils/logger';
+import { FileOutboxProvider } from './file-outbox-provider';
+import { HttpSmsProvider } from './http-sms-provider';
+import { MESSAGE_CHANNELS, MessageProvider } from './message-provider';
+import { SmtpEmailProvider } from './smtp-email-provider';
+import { WhatsAppCloudProvider } from './whatsapp-cloud-provider';
+
+export * from './message-provider';
+export * from './file-outbox-provider';
+export * from './http-sms-provider';
+export * from './smtp-email-provider';
+export * from './whatsapp-cloud-provider';
+
+type ProviderSettings = Pick<
+  typeof config,
+  | 'NODE_ENV'
+  | 'SMTP_HOST'
+  | 'SMTP_PORT'
+  | 'SMTP_SECURE'
+  | 'SMTP_REQUIRE_TLS'
+  | 'SMTP_USER'
+  | 'SMTP_PASS'
+  | 'SMTP_FROM'
+  | 'SMTP_FROM_NAME'
+  | 'SMS_GATEWAY_URL'
+  | 'SMS_GATEWAY_API_KEY'
+  | 'SMS_FROM'
+  | 'SMS_STATUS_CALLBACK_URL'
+  | 'WHATSAPP_ACCESS_TOKEN'
+  | 'WHATSAPP_PHONE_NUMBER_ID'
+  | 'WHATSAPP_API_VERSION'
+  | 'MESSAGE_OUTBOX_DIR'
+>;
+
+/**
+ * One provider per channel from the environment. Channels that are not
+ * configured fall back to the file outbox, so nothing is sent by accident
+ * in development. In production a missing provider throws unless
+ * MESSAGE_OUTBOX_DIR asks for the outbox explicitly, so messages are never
+ * written to a temporary directory instead of reaching the lead.
+ */
+export function createMessageProviders(
+  settings: ProviderSettings = config
+): MessageProvider[] {
+  const providers: MessageProvider[] = [];
+
+  if (settings.SMTP_HOST && settings.SMTP_FROM) {
+    providers.push(
+      new SmtpEmailProvider({
+        host: settings.SMTP_HOST,
+        port: settings.SMTP_PORT,
+        secure: settings.SMTP_SECURE,
+        requireTls: settings.SMTP_REQUIRE_TLS,
+        username: settings.SMTP_USER || undefined,
+        password: settings.SMTP_PASS || undefined,
+        from: settings.SMTP_FROM,
+        fromName: settings.SMTP_FROM_NAME || undefined,
+      })
+    );
+  }
+
+  if (settings.SMS_GATEWAY_URL && settings.SMS_FROM) {
+    providers.push(
+      new HttpSmsProvider({
+        url: settings.SMS_GATEWAY_URL,
+        apiKey: settings.SMS_GATEWAY_API_KEY || undefined,
+        from: settings.SMS_FROM,
+        statusCallbackUrl: settings.SMS_STATUS_CALLBACK_URL || undefined,
+      })
+    );
+  }
+
+  if (settings.WHATSAPP_ACCESS_TOKEN && settings.WHATSAPP_PHONE_NUMBER_ID) {
+    providers.push(
+      new WhatsAppCloudProvider({
+        accessToken: settings.WHATSAPP_ACCESS_TOKEN,
+        phoneNumberId: settings.WHATSAPP_PHONE_NUMBER_ID,
+        apiVersion: settings.WHATSAPP_API_VERSION,
+      })
+    );
+  }
+
+  const outboxDir =
+    settings.MESSAGE_OUTBOX_DIR || path.join(os.tmpdir(), 'leads-outbox');
+  const production = settings.NODE_ENV === 'production';
+
+  for (const channel of MESSAGE_CHANNELS) {
+    if (providers.some((provider) => provider.channel === channel)) continue;
+
+    if (production && !settings.MESSAGE_OUTBOX_DIR) {
+      throw new Error(
+        `No ${channel} provider configured; configure one or set MESSAGE_OUTBOX_DIR to write ${channel} messages to files`
+      );
+    }
+
+    const notice = `No ${channel} provider configured, writing to ${outboxDir}`;
+    if (production) {
+      logger.warn(notice);
+    } else {
+      logger.debug(notice);
+    }
+    providers.push(new FileOutboxProvider(channel, outboxDir));
+  }
+
+  return providers;
+}
@@ -0,0 +1,88 @@
+import { CommunicationChannel } from '../../types/communication';
+
+/**
+ * Outbound message providers - one implementation per delivery channel
+ */
+
+export type MessageChannel = Extract<
+  CommunicationChannel,
+  'email' | 'sms' | 'whatsapp'
+>;
+
+/**
+ * Delivery progress of a message, in the order providers report it.
+ * `failed` can follow any other status.
+ */
+export type DeliveryStatus = 'queued' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export interface MessageAttachment {
+  filename: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface OutboundMessage {
+  channel: MessageChannel;
+  to: string; // email address or E.164 phone number
+  subject?: string; // email only
+  content: string;
+  attachments?: MessageAttachment[]; // email only
+  headers?: Record<string, string>; // email only, e.g. List-Unsubscribe
+  metadata?: Record<string, string>;
+}
+
+export interface SendResult {
+  provider: string;
+  messageId: string;
+  status: DeliveryStatus;
+}
+
+/**
+ * Status update for a sent message, reported by the provider
+ */
+export interface DeliveryReceipt {
+  provider: string;
+  messageId: string;
+  status: DeliveryStatus;
+  timestamp: Date;
+  error?: string;
+}
+
+export interface MessageProvider {
+  readonly name: string;
+  readonly channel: MessageChannel;
+
+  /**
+   * Hand the message over for delivery. Rejects when the provider refuses it.
+   */
+  send(message: OutboundMessage): Promise<SendResult>;
+
+  /**
+   * Delivery receipts contained in a provider callback payload
+   */
+  parseDeliveryReceipts?(payload: unknown): DeliveryReceipt[];
+}
+
+export const MESSAGE_CHANNELS: MessageChannel[] = ['email', 'sms', 'whatsapp'];
+
+const DELIVERY_STATUS_ORDER: DeliveryStatus[] = [
+  'queued',
+  'sent',
+  'delivered',
+  'read',
+];
+
+/**
+ * Whether a receipt moves a message forward. Receipts can arrive out of
+ * order, so a late `sent` must not overwrite `delivered`.
+ */
+export function isDeliveryProgress(
+  current: DeliveryStatus,
+  next: DeliveryStatus
+): boolean {
+  if (current === 'failed') return false;
+  if (next === 'failed') return true;
+  return (
+    DELIVERY_STATUS_ORDER.indexOf(next) > DELIVERY_STATUS_ORDER.indexOf(current)
+  );
+}
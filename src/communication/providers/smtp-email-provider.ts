@@ -0,0 +1,393 @@
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { generateUUID } from '../../types/validation';
+import {
+  MessageAttachment,
+  MessageProvider,
+  OutboundMessage,
+  SendResult,
+} from './message-provider';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure?: boolean; // implicit TLS, usually port 465
+  requireTls?: boolean; // refuse to send when STARTTLS is not offered, on by default
+  username?: string;
+  password?: string;
+  from: string;
+  fromName?: string;
+  clientName?: string; // sent with EHLO, defaults to the hostname
+  timeoutMs?: number;
+  tlsOptions?: tls.ConnectionOptions;
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const CRLF = '\r\n';
+const DEFAULT_TIMEOUT_MS = 30000;
+const BASE64_LINE_LENGTH = 76;
+
+/**
+ * SMTP Email Provider - delivers email to an SMTP relay
+ *
+ * Speaks ESMTP directly: STARTTLS, which is required unless requireTls is
+ * turned off, AUTH PLAIN or LOGIN when credentials are configured, and MIME multipart messages for
+ * attachments such as calendar invitations. SMTP has no delivery receipts,
+ * so accepted messages are reported as sent.
+ */
+export class SmtpEmailProvider implements MessageProvider {
+  readonly name = 'smtp';
+  readonly channel = 'email' as const;
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    if (/[\r\n<>]/.test(message.to) || !message.to.includes('@')) {
+      throw new Error(`Invalid email recipient "${message.to}"`);
+    }
+
+    const messageId = `${generateUUID()}@${domainOf(this.config.from)}`;
+    const data = this.buildMessage(message, messageId);
+    const connection = await SmtpConnection.open(this.config);
+
+    try {
+      await connection.expect('greeting', [220]);
+      let capabilities = await this.hello(connection);
+
+      if (!this.config.secure) {
+        if (capabilities.has('STARTTLS')) {
+          await connection.command('STARTTLS', [220]);
+          await connection.upgrade(this.config);
+          capabilities = await this.hello(connection);
+        } else if (this.config.requireTls !== false) {
+          throw new Error('SMTP server does not support STARTTLS');
+        }
+      }
+
+      if (this.config.username) {
+        await this.authenticate(connection, capabilities);
+      }
+
+      await connection.command(`MAIL FROM:<${this.config.from}>`, [250]);
+      await connection.command(`RCPT TO:<${message.to}>`, [250, 251]);
+      await connection.command('DATA', [354]);
+      await connection.command(`${dotStuff(data)}${CRLF}.`, [250], 'DATA');
+      await connection.command('QUIT', [221]).catch(() => undefined);
+
+      return { provider: this.name, messageId, status: 'sent' };
+    } finally {
+      connection.close();
+    }
+  }
+
+  /**
+   * EHLO, returning the extensions the server supports
+   */
+  private async hello(connection: SmtpConnection): Promise<Map<string, string>> {
+    const reply = await connection.command(
+      `EHLO ${this.config.clientName ?? os.hostname()}`,
+      [250]
+    );
+
+    const capabilities = new Map<string, string>();
+    for (const line of reply.lines.slice(1)) {
+      const [keyword, ...params] = line.split(' ');
+      capabilities.set(keyword.toUpperCase(), params.join(' ').toUpperCase());
+    }
+    return capabilities;
+  }
+
+  private async authenticate(
+    connection: SmtpConnection,
+    capabilities: Map<string, string>
+  ): Promise<void> {
+    const mechanisms = (capabilities.get('AUTH') ?? '').split(' ');
+    const username = this.config.username ?? '';
+    const password = this.config.password ?? '';
+
+    if (mechanisms.includes('PLAIN')) {
+      const token = Buffer.from(`\0${username}\0${password}`).toString('base64');
+      await connection.command(`AUTH PLAIN ${token}`, [235], 'AUTH');
+      return;
+    }
+
+    if (mechanisms.includes('LOGIN')) {
+      await connection.command('AUTH LOGIN', [334]);
+      await connection.command(toBase64(username), [334], 'AUTH');
+      await connection.command(toBase64(password), [235], 'AUTH');
+      return;
+    }
+
+    throw new Error('SMTP server does not support PLAIN or LOGIN authentication');
+  }
+
+  /**
+   * RFC 5322 message with base64 encoded MIME parts
+   */
+  private buildMessage(message: OutboundMessage, messageId: string): string {
+    const from = this.config.fromName
+      ? `${encodeHeader(this.config.fromName)} <${this.config.from}>`
+      : `<${this.config.from}>`;
+
+    const headers = [
+      `From: ${from}`,
+      `To: <${message.to}>`,
+      `Subject: ${encodeHeader(message.subject ?? '')}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: <${messageId}>`,
+      'MIME-Version: 1.0',
+      ...Object.entries(message.headers ?? {}).map(
+        // Values are folded onto one line so they cannot add headers
+        ([name, value]) => `${name}: ${value.replace(/[\r\n]+/g, ' ')}`
+      ),
+    ];
+    const text = textPart(message.content);
+
+    if (!message.attachments?.length) {
+      return [...headers, ...text].join(CRLF);
+    }
+
+    const boundary = `----=_Part_${generateUUID()}`;
+    const parts = [text, ...message.attachments.map(attachmentPart)];
+
+    return [
+      ...headers,
+      `Content-Type: multipart/mixed; boundary="${boundary}"`,
+      '',
+      ...parts.flatMap((part) => [`--${boundary}`, ...part]),
+      `--${boundary}--`,
+    ].join(CRLF);
+  }
+}
+
+/**
+ * Line-oriented SMTP client connection
+ */
+class SmtpConnection {
+  private buffer = '';
+  private error: Error | null = null;
+  private notify: (() => void) | null = null;
+
+  private constructor(
+    private socket: net.Socket,
+    private timeoutMs: number
+  ) {
+    this.attach(socket);
+  }
+
+  static async open(config: SmtpConfig): Promise<SmtpConnection> {
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const socket = config.secure
+      ? tls.connect({
+          host: config.host,
+          port: config.port,
+          servername: config.host,
+          ...config.tlsOptions,
+        })
+      : net.connect({ host: config.host, port: config.port });
+
+    await waitForConnection(
+      socket,
+      config.secure ? 'secureConnect' : 'connect',
+      timeoutMs
+    );
+    return new SmtpConnection(socket, timeoutMs);
+  }
+
+  /**
+   * Switch the connection to TLS after a successful STARTTLS
+   */
+  async upgrade(config: SmtpConfig): Promise<void> {
+    this.detach(this.socket);
+    const secureSocket = tls.connect({
+      socket: this.socket,
+      servername: config.host,
+      ...config.tlsOptions,
+    });
+    await waitForConnection(secureSocket, 'secureConnect', this.timeoutMs);
+    this.attach(secureSocket);
+  }
+
+  /**
+   * Send a command and check the reply code. `label` replaces the command
+   * in error messages, so credentials and message bodies are never echoed.
+   */
+  async command(
+    line: string,
+    expected: number[],
+    label = line.split(' ')[0]
+  ): Promise<SmtpReply> {
+    this.socket.write(`${line}${CRLF}`);
+    return this.expect(label, expected);
+  }
+
+  async expect(label: string, expected: number[]): Promise<SmtpReply> {
+    const reply = await this.read();
+    if (!expected.includes(reply.code)) {
+      throw new Error(
+        `SMTP ${label} failed: ${reply.code} ${reply.lines.join(' ')}`
+      );
+    }
+    return reply;
+  }
+
+  close(): void {
+    this.socket.destroy();
+  }
+
+  private async read(): Promise<SmtpReply> {
+    for (;;) {
+      const reply = this.takeReply();
+      if (reply) return reply;
+      if (this.error) throw this.error;
+      await new Promise<void>((resolve) => {
+        this.notify = resolve;
+      });
+    }
+  }
+
+  /**
+   * Remove one complete (possibly multi-line) reply from the buffer
+   */
+  private takeReply(): SmtpReply | null {
+    const lines: string[] = [];
+    let offset = 0;
+
+    for (;;) {
+      const end = this.buffer.indexOf(CRLF, offset);
+      if (end === -1) return null;
+
+      const line = this.buffer.slice(offset, end);
+      offset = end + CRLF.length;
+      lines.push(line.slice(4));
+
+      // "250-..." continues the reply, "250 ..." ends it
+      if (line.charAt(3) !== '-') {
+        this.buffer = this.buffer.slice(offset);
+        return { code: Number(line.slice(0, 3)), lines };
+      }
+    }
+  }
+
+  private attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.timeoutMs);
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+    socket.on('timeout', this.onTimeout);
+  }
+
+  private detach(socket: net.Socket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+    socket.off('timeout', this.onTimeout);
+    socket.setTimeout(0);
+  }
+
+  private onData = (chunk: string): void => {
+    this.buffer += chunk;
+    this.wake();
+  };
+
+  private onError = (error: Error): void => {
+    this.error = error;
+    this.wake();
+  };
+
+  private onClose = (): void => {
+    this.error ??= new Error('SMTP connection closed unexpectedly');
+    this.wake();
+  };
+
+  private onTimeout = (): void => {
+    this.socket.destroy(new Error('SMTP connection timed out'));
+  };
+
+  private wake(): void {
+    const notify = this.notify;
+    this.notify = null;
+    notify?.();
+  }
+}
+
+function waitForConnection(
+  socket: net.Socket,
+  event: 'connect' | 'secureConnect',
+  timeoutMs: number
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      socket.destroy();
+      reject(new Error('SMTP connection timed out'));
+    }, timeoutMs);
+
+    socket.once(event, () => {
+      clearTimeout(timer);
+      socket.off('error', onError);
+      resolve();
+    });
+    const onError = (error: Error) => {
+      clearTimeout(timer);
+      reject(error);
+    };
+    socket.once('error', onError);
+  });
+}
+
+function textPart(content: string): string[] {
+  return [
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(toBase64(content)),
+  ];
+}
+
+function attachmentPart(attachment: MessageAttachment): string[] {
+  const filename = attachment.filename.replace(/["\r\n]/g, '');
+  return [
+    `Content-Type: ${attachment.contentType}; name="${filename}"`,
+    `Content-Disposition: attachment; filename="${filename}"`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    wrapBase64(toBase64(attachment.content)),
+  ];
+}
+
+function toBase64(content: string | Buffer): string {
+  return (Buffer.isBuffer(content) ? content : Buffer.from(content)).toString(
+    'base64'
+  );
+}
+
+function wrapBase64(encoded: string): string {
+  return encoded.match(new RegExp(`.{1,${BASE64_LINE_LENGTH}}`, 'g'))?.join(CRLF) ?? '';
+}
+
+/**
+ * RFC 2047 encoded word for header values outside printable ASCII
+ */
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+/**
+ * Lines starting with a dot are escaped so they cannot end the DATA section
+ */
+function dotStuff(data: string): string {
+  return data.replace(/^\./gm, '..');
+}
+
+function domainOf(address: string): string {
+  return address.split('@')[1] || 'localhost';
+}
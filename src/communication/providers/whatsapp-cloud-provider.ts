@@ -0,0 +1,100 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  DeliveryReceipt,
+  DeliveryStatus,
+  MessageProvider,
+  OutboundMessage,
+  SendResult,
+} from './message-provider';
+
+export interface WhatsAppCloudConfig {
+  accessToken: string;
+  phoneNumberId: string;
+  apiVersion?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+const CLOUD_API_STATUSES: Record<string, DeliveryStatus> = {
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  failed: 'failed',
+};
+
+/**
+ * WhatsApp Cloud API Provider - sends text messages from a WhatsApp
+ * Business phone number through the Meta Graph API
+ *
+ * Delivery receipts arrive on the app's webhook as
+ * `entry[].changes[].value.statuses[]`.
+ */
+export class WhatsAppCloudProvider implements MessageProvider {
+  readonly name = 'whatsapp-cloud';
+  readonly channel = 'whatsapp' as const;
+  private api: AxiosInstance;
+
+  constructor(private config: WhatsAppCloudConfig) {
+    const baseUrl = config.baseUrl || 'https://graph.facebook.com';
+    const apiVersion = config.apiVersion || 'v19.0';
+
+    this.api = axios.create({
+      baseURL: `${baseUrl}/${apiVersion}`,
+      timeout: config.timeoutMs ?? 30000,
+      headers: {
+        Authorization: `Bearer ${config.accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async send(message: OutboundMessage): Promise<SendResult> {
+    const response = await this.api.post(
+      `/${this.config.phoneNumberId}/messages`,
+      {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        // The Cloud API expects the number without "+" or separators
+        to: message.to.replace(/\D/g, ''),
+        type: 'text',
+        text: { preview_url: false, body: message.content },
+      }
+    );
+
+    const messageId = response.data?.messages?.[0]?.id;
+    if (!messageId) {
+      throw new Error('WhatsApp Cloud API response did not include a message id');
+    }
+
+    // Accepted by the API; `sent` follows as a receipt
+    return { provider: this.name, messageId, status: 'queued' };
+  }
+
+  parseDeliveryReceipts(payload: any): DeliveryReceipt[] {
+    const receipts: DeliveryReceipt[] = [];
+
+    for (const entry of payload?.entry ?? []) {
+      for (const change of entry?.changes ?? []) {
+        for (const status of change?.value?.statuses ?? []) {
+          const deliveryStatus = CLOUD_API_STATUSES[status?.status];
+          if (!status?.id || !deliveryStatus) continue;
+
+          const error = status.errors?.[0];
+          receipts.push({
+            provider: this.name,
+            messageId: status.id,
+            status: deliveryStatus,
+            timestamp: status.timestamp
+              ? new Date(Number(status.timestamp) * 1000)
+              : new Date(),
+            error: error
+              ? String(error.message ?? error.title ?? error.code)
+              : undefined,
+          });
+        }
+      }
+    }
+
+    return receipts;
+  }
+}
@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  CommunicationChannel,
+  CommunicationChannelSchema,
+} from '../types/communication';
+
+export interface UnsubscribeSettings {
+  baseUrl: string; // public address of the API serving /unsubscribe
+  secret: string; // signs the links, so they cannot be forged for other leads
+}
+
+/**
+ * Signed token naming the lead and channel to unsubscribe. Tokens do not
+ * expire: an unsubscribe link must keep working in old emails.
+ */
+export function createUnsubscribeToken(
+  leadId: string,
+  channel: CommunicationChannel,
+  secret: string
+): string {
+  const payload = Buffer.from(`${leadId}:${channel}`).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Lead and channel of a token, or null when it is malformed or was not
+ * signed with the secret
+ */
+export function verifyUnsubscribeToken(
+  token: string,
+  secret: string
+): { leadId: string; channel: CommunicationChannel } | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const provided = Buffer.from(signature);
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    return null;
+  }
+
+  const [leadId, channel] = Buffer.from(payload, 'base64url')
+    .toString()
+    .split(':');
+  const parsedChannel = CommunicationChannelSchema.safeParse(channel);
+  if (!leadId || !parsedChannel.success) return null;
+
+  return { leadId, channel: parsedChannel.data };
+}
+
+export function buildUnsubscribeUrl(
+  settings: UnsubscribeSettings,
+  leadId: string,
+  channel: CommunicationChannel
+): string {
+  const token = createUnsubscribeToken(leadId, channel, settings.secret);
+  return `${settings.baseUrl.replace(/\/+$/, '')}/unsubscribe/${token}`;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
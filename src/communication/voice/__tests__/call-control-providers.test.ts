@@ -0,0 +1,317 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import crypto from 'crypto';
+import { setImmediate } from 'timers';
+import {
+  TwilioCallControl,
+  VonageCallControl,
+  WebSocketCallControl,
+  createCallControl,
+} from '..';
+
+vi.mock('axios');
+const mockedAxios = axios as any;
+
+// Lets pending requests resolve before a webhook arrives
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('call control providers', () => {
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAxiosInstance = {
+      post: vi.fn(),
+      put: vi.fn().mockResolvedValue({ data: {} }),
+      get: vi.fn(),
+      defaults: {},
+      interceptors: { request: { use: vi.fn() } },
+    };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+  });
+
+  describe('TwilioCallControl', () => {
+    let calls: TwilioCallControl;
+
+    beforeEach(() => {
+      calls = new TwilioCallControl({
+        accountSid: 'AC123',
+        authToken: 'token',
+        from: '+15550000000',
+        callbackUrl: 'https://crm.example.com/voice/twilio',
+        agentNumbers: { 'agent-001': '+15550009999' },
+      });
+      mockAxiosInstance.post.mockResolvedValue({ data: { sid: 'CA1' } });
+    });
+
+    const answer = async (callId: string) => {
+      const dialed = calls.dial(callId, '+15551112222');
+      await flush();
+      calls.handleCallback({
+        callId,
+        event: 'status',
+        CallStatus: 'in-progress',
+      });
+      await dialed;
+    };
+
+    it('should place the call and wait until it is answered', async () => {
+      await answer('call-1');
+
+      const [url, params] = mockAxiosInstance.post.mock.calls[0];
+      expect(url).toBe('/Calls.json');
+      expect(params.get('To')).toBe('+15551112222');
+      expect(params.get('From')).toBe('+15550000000');
+      expect(params.get('Record')).toBe('true');
+      expect(params.get('StatusCallback')).toBe(
+        'https://crm.example.com/voice/twilio?callId=call-1&event=status'
+      );
+      expect(params.getAll('StatusCallbackEvent')).toEqual([
+        'answered',
+        'completed',
+      ]);
+      expect(mockedAxios.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          baseURL: 'https://api.twilio.com/2010-04-01/Accounts/AC123',
+          auth: { username: 'AC123', password: 'token' },
+        })
+      );
+    });
+
+    it('should speak queued prompts inside the gather', async () => {
+      await answer('call-1');
+      await calls.play('call-1', { text: 'Budget & timing?' });
+
+      const gathered = calls.gather('call-1', { timeoutMs: 5000 });
+      await flush();
+      const twiml = calls.handleCallback({
+        callId: 'call-1',
+        event: 'gather',
+        SpeechResult: ' About 500k ',
+        Confidence: '0.91',
+      });
+
+      expect(await gathered).toEqual({
+        transcript: 'About 500k',
+        confidence: 0.91,
+      });
+      const [url, params] = mockAxiosInstance.post.mock.calls[1];
+      expect(url).toBe('/Calls/CA1.json');
+      expect(params.get('Twiml')).toContain(
+        '<Gather input="speech" action="https://crm.example.com/voice/twilio?callId=call-1&amp;event=gather"'
+      );
+      expect(params.get('Twiml')).toContain(
+        'timeout="5"><Say language="en-US">Budget &amp; timing?</Say></Gather>'
+      );
+      expect(twiml).toContain('<Pause length="60"/>');
+    });
+
+    it('should end gathers and skip the hang-up when the customer hangs up', async () => {
+      await answer('call-1');
+
+      const gathered = calls.gather('call-1');
+      await flush();
+      calls.handleCallback({
+        callId: 'call-1',
+        event: 'status',
+        CallStatus: 'completed',
+      });
+
+      expect(await gathered).toBeNull();
+      await calls.hangUp('call-1');
+      expect(mockAxiosInstance.post).toHaveBeenCalledTimes(2);
+    });
+
+    it('should dial the agent number on transfers', async () => {
+      await answer('call-1');
+      await calls.play('call-1', { text: 'Connecting you now.' });
+
+      await calls.transfer('call-1', 'agent-001');
+
+      expect(mockAxiosInstance.post.mock.calls[1][1].get('Twiml')).toContain(
+        '<Say language="en-US">Connecting you now.</Say><Dial><Number>+15550009999</Number></Dial>'
+      );
+    });
+
+    it('should fail calls that are not answered', async () => {
+      const dialed = calls.dial('call-1', '+15551112222');
+      await flush();
+      calls.handleCallback({
+        callId: 'call-1',
+        event: 'status',
+        CallStatus: 'busy',
+      });
+
+      await expect(dialed).rejects.toThrow('Call busy');
+      await expect(calls.play('call-1', { text: 'Hi' })).rejects.toThrow(
+        'Call call-1 was not placed'
+      );
+    });
+  });
+
+  describe('VonageCallControl', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+    let calls: VonageCallControl;
+
+    beforeEach(() => {
+      calls = new VonageCallControl({
+        applicationId: 'app-1',
+        privateKey,
+        from: '+15550000000',
+        callbackUrl: 'https://crm.example.com/voice/vonage',
+        language: 'pt-BR',
+      });
+      mockAxiosInstance.post.mockResolvedValue({ data: { uuid: 'uuid-1' } });
+    });
+
+    const answer = async (callId: string) => {
+      const dialed = calls.dial(callId, '+1 (555) 111-2222');
+      await flush();
+      calls.handleCallback({ callId, event: 'status', status: 'answered' });
+      await dialed;
+    };
+
+    it('should sign each request with an application token', () => {
+      const [authorize] =
+        mockAxiosInstance.interceptors.request.use.mock.calls[0];
+      const token = authorize({ headers: {} }).headers.Authorization.slice(7);
+      const [header, payload, signature] = token.split('.');
+
+      expect(
+        crypto.verify(
+          'RSA-SHA256',
+          Buffer.from(`${header}.${payload}`),
+          publicKey,
+          Buffer.from(signature, 'base64url')
+        )
+      ).toBe(true);
+      expect(JSON.parse(Buffer.from(payload, 'base64url').toString())).toEqual(
+        expect.objectContaining({ application_id: 'app-1' })
+      );
+    });
+
+    it('should place a recorded call and wait until it is answered', async () => {
+      await answer('call-1');
+
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith('/calls', {
+        to: [{ type: 'phone', number: '15551112222' }],
+        from: { type: 'phone', number: '15550000000' },
+        ncco: [
+          {
+            action: 'record',
+            eventUrl: [
+              'https://crm.example.com/voice/vonage?callId=call-1&event=recording',
+            ],
+          },
+          { action: 'conversation', name: 'hold-call-1' },
+        ],
+        event_url: [
+          'https://crm.example.com/voice/vonage?callId=call-1&event=status',
+        ],
+        event_method: 'POST',
+      });
+    });
+
+    it('should speak queued prompts before listening for speech', async () => {
+      await answer('call-1');
+      await calls.play('call-1', { text: 'Qual é o seu orçamento?' });
+
+      const gathered = calls.gather('call-1', { timeoutMs: 120000 });
+      await flush();
+      const ncco = calls.handleCallback({
+        callId: 'call-1',
+        event: 'gather',
+        speech: { results: [{ text: 'Uns 500 mil', confidence: '0.8' }] },
+      });
+
+      expect(await gathered).toEqual({
+        transcript: 'Uns 500 mil',
+        confidence: 0.8,
+      });
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/calls/uuid-1', {
+        action: 'transfer',
+        destination: {
+          type: 'ncco',
+          ncco: [
+            {
+              action: 'talk',
+              text: 'Qual é o seu orçamento?',
+              language: 'pt-BR',
+            },
+            {
+              action: 'input',
+              type: ['speech'],
+              eventUrl: [
+                'https://crm.example.com/voice/vonage?callId=call-1&event=gather',
+              ],
+              speech: { language: 'pt-BR', startTimeout: 60 },
+            },
+          ],
+        },
+      });
+      expect(ncco).toEqual([{ action: 'conversation', name: 'hold-call-1' }]);
+    });
+
+    it('should treat a gather without results as silence', async () => {
+      await answer('call-1');
+
+      const gathered = calls.gather('call-1');
+      await flush();
+      calls.handleCallback({
+        callId: 'call-1',
+        event: 'gather',
+        speech: { timeout_reason: 'start_timeout' },
+      });
+
+      expect(await gathered).toBeNull();
+    });
+
+    it('should hang up after the last prompt is spoken', async () => {
+      await answer('call-1');
+      await calls.play('call-1', { text: 'Tchau!' });
+
+      await calls.hangUp('call-1');
+
+      expect(mockAxiosInstance.put).toHaveBeenCalledWith('/calls/uuid-1', {
+        action: 'transfer',
+        destination: {
+          type: 'ncco',
+          ncco: [{ action: 'talk', text: 'Tchau!', language: 'pt-BR' }],
+        },
+      });
+    });
+
+    it('should report the recording once Vonage sends it', async () => {
+      await answer('call-1');
+      calls.handleCallback({
+        callId: 'call-1',
+        event: 'recording',
+        recording_url: 'https://api.nexmo.com/v1/files/rec-1',
+      });
+
+      expect(await calls.getRecording('call-1')).toEqual({
+        url: 'https://api.nexmo.com/v1/files/rec-1',
+        contentType: 'audio/mpeg',
+      });
+    });
+  });
+
+  it('should create the call control named in the configuration', () => {
+    expect(
+      createCallControl({
+        provider: 'twilio',
+        accountSid: 'AC123',
+        authToken: 'token',
+        from: '+15550000000',
+        callbackUrl: 'https://crm.example.com/voice/twilio',
+      })
+    ).toBeInstanceOf(TwilioCallControl);
+    expect(
+      createCallControl({ provider: 'websocket', url: 'ws://127.0.0.1:9000' })
+    ).toBeInstanceOf(WebSocketCallControl);
+  });
+});
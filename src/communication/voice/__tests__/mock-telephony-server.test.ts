@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import WebSocket from 'ws';
+import { MockTelephonyServer } from '../mock-telephony-server';
+import { WebSocketCallControl } from '../websocket-call-control';
+
+describe('MockTelephonyServer', () => {
+  let server: MockTelephonyServer;
+  let calls: WebSocketCallControl;
+  let url: string;
+
+  beforeEach(async () => {
+    server = new MockTelephonyServer();
+    url = await server.listen();
+    calls = new WebSocketCallControl({ url, requestTimeoutMs: 2000 });
+  });
+
+  afterEach(async () => {
+    await calls.close();
+    await server.close();
+  });
+
+  it('should play the scripted side of the customer', async () => {
+    server.scriptCall('+15550001111', {
+      utterances: ['Hi, yes', null, { text: 'About 500k', confidence: 0.7 }],
+    });
+
+    await calls.dial('call-1', '+15550001111');
+    await calls.play('call-1', {
+      text: 'What is your budget?',
+      audio: { data: Buffer.from('wav'), contentType: 'audio/wav' },
+    });
+
+    expect(await calls.gather('call-1')).toEqual({
+      transcript: 'Hi, yes',
+      confidence: 0.92,
+      audio: undefined,
+    });
+    expect(await calls.gather('call-1')).toBeNull();
+    expect((await calls.gather('call-1'))?.transcript).toBe('About 500k');
+    expect(await calls.gather('call-1')).toBeNull(); // hangs up
+
+    expect(server.getCall('call-1')).toEqual({
+      id: 'call-1',
+      to: '+15550001111',
+      status: 'completed',
+      prompts: ['What is your budget?'],
+      utterances: ['Hi, yes', 'About 500k'],
+      recorded: true,
+    });
+    expect(await calls.getRecording('call-1')).toEqual({
+      url: 'mock://recordings/call-1.wav',
+      contentType: 'audio/wav',
+    });
+  });
+
+  it('should transfer calls and reject commands after the call ends', async () => {
+    server.scriptCall('+15550002222', { utterances: ['Agent please'] });
+
+    await calls.dial('call-2', '+15550002222');
+    await calls.transfer('call-2', 'agent-001');
+
+    expect(server.getCall('call-2')?.transferredTo).toBe('agent-001');
+    await expect(calls.play('call-2', { text: 'Hello?' })).rejects.toThrow(
+      'Telephony play failed for call call-2: Call is transferred'
+    );
+  });
+
+  it('should fail calls that are not answered', async () => {
+    server.scriptCall('+15550003333', { answer: false, utterances: [] });
+
+    await expect(calls.dial('call-3', '+15550003333')).rejects.toThrow(
+      'No answer'
+    );
+    expect(server.getCall('call-3')?.status).toBe('no-answer');
+  });
+
+  it('should carry large messages across frames', async () => {
+    const socket = new WebSocket(url);
+    await new Promise((resolve) => socket.once('open', resolve));
+    const text = 'x'.repeat(70000);
+    const reply = new Promise<string>((resolve) =>
+      socket.once('message', (data) => resolve(data.toString()))
+    );
+
+    socket.send(
+      JSON.stringify({ id: '1', callId: 'c', type: 'dial', to: text })
+    );
+
+    expect(JSON.parse(await reply)).toEqual({
+      id: '1',
+      callId: 'c',
+      type: 'answered',
+    });
+    expect(server.getCall('c')?.to).toHaveLength(70000);
+    socket.close();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import {
+  AzureSpeechProvider,
+  ElevenLabsSpeechProvider,
+  GoogleSpeechProvider,
+  createSpeechProvider,
+} from '..';
+
+vi.mock('axios');
+const mockedAxios = axios as any;
+
+const wav = { data: Buffer.from('RIFF-audio'), contentType: 'audio/wav' };
+const options = { language: 'en-US' };
+
+describe('speech providers', () => {
+  let mockAxiosInstance: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAxiosInstance = { post: vi.fn() };
+    mockedAxios.create.mockReturnValue(mockAxiosInstance);
+  });
+
+  describe('ElevenLabsSpeechProvider', () => {
+    it('should upload audio as a form for transcription', async () => {
+      const provider = new ElevenLabsSpeechProvider({ apiKey: 'xi-key' });
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { text: ' Around 500k. ', language_probability: 0.97 },
+      });
+
+      const result = await provider.transcribe(wav, options);
+
+      expect(result).toEqual({ text: 'Around 500k.' });
+      expect(mockedAxios.create).toHaveBeenCalledWith(
+        expect.objectContaining({ headers: { 'xi-api-key': 'xi-key' } })
+      );
+      const [url, body, config] = mockAxiosInstance.post.mock.calls[0];
+      expect(url).toBe('/speech-to-text');
+      expect(config.headers['Content-Type']).toMatch(
+        /^multipart\/form-data; boundary=/
+      );
+      expect(body.toString()).toContain('name="model_id"\r\n\r\nscribe_v1');
+      expect(body.toString()).toContain('Content-Type: audio/wav');
+    });
+
+    it('should synthesize speech with the configured voice', async () => {
+      const provider = new ElevenLabsSpeechProvider({
+        apiKey: 'xi-key',
+        defaultVoiceId: 'voice-1',
+      });
+      mockAxiosInstance.post.mockResolvedValue({ data: Buffer.from('mp3') });
+
+      const audio = await provider.synthesize('Hello!', options);
+
+      expect(audio.contentType).toBe('audio/mpeg');
+      expect(audio.data.toString()).toBe('mp3');
+      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+        '/text-to-speech/voice-1',
+        expect.objectContaining({ text: 'Hello!', language_code: 'en' }),
+        expect.objectContaining({ responseType: 'arraybuffer' })
+      );
+    });
+  });
+
+  describe('AzureSpeechProvider', () => {
+    const provider = () =>
+      new AzureSpeechProvider({ apiKey: 'azure-key', region: 'westeurope' });
+
+    it('should read the best recognition result', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          RecognitionStatus: 'Success',
+          NBest: [{ Display: 'Yes, please.', Confidence: 0.88 }],
+        },
+      });
+
+      const result = await provider().transcribe(wav, options);
+
+      expect(result).toEqual({ text: 'Yes, please.', confidence: 0.88 });
+      expect(mockAxiosInstance.post.mock.calls[0][0]).toContain(
+        'westeurope.stt.speech.microsoft.com'
+      );
+    });
+
+    it('should return empty text when nothing was said', async () => {
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { RecognitionStatus: 'InitialSilenceTimeout' },
+      });
+
+      expect(await provider().transcribe(wav, options)).toEqual({ text: '' });
+    });
+
+    it('should escape the text of the SSML document', async () => {
+      mockAxiosInstance.post.mockResolvedValue({ data: Buffer.from('wav') });
+
+      await provider().synthesize('Tom & Jerry <3', options);
+
+      expect(mockAxiosInstance.post.mock.calls[0][1]).toContain(
+        '<voice name="en-US-JennyNeural">Tom &amp; Jerry &lt;3</voice>'
+      );
+    });
+  });
+
+  describe('GoogleSpeechProvider', () => {
+    it('should join results and average their confidence', async () => {
+      const provider = new GoogleSpeechProvider({ apiKey: 'google-key' });
+      mockAxiosInstance.post.mockResolvedValue({
+        data: {
+          results: [
+            { alternatives: [{ transcript: 'I am looking', confidence: 0.9 }] },
+            { alternatives: [{ transcript: ' in Lisbon', confidence: 0.7 }] },
+          ],
+        },
+      });
+
+      const result = await provider.transcribe(wav, options);
+
+      expect(result.text).toBe('I am looking in Lisbon');
+      expect(result.confidence).toBeCloseTo(0.8);
+      expect(mockAxiosInstance.post.mock.calls[0][1].audio.content).toBe(
+        wav.data.toString('base64')
+      );
+    });
+
+    it('should decode synthesized audio', async () => {
+      const provider = new GoogleSpeechProvider({ apiKey: 'google-key' });
+      mockAxiosInstance.post.mockResolvedValue({
+        data: { audioContent: Buffer.from('pcm').toString('base64') },
+      });
+
+      const audio = await provider.synthesize('Hi', options);
+
+      expect(audio.data.toString()).toBe('pcm');
+    });
+  });
+
+  it('should create the provider named in the voice configuration', () => {
+    const config = { apiKey: 'key', language: 'en-US' };
+
+    expect(
+      createSpeechProvider({ ...config, provider: 'elevenlabs' }).name
+    ).toBe('elevenlabs');
+    expect(createSpeechProvider({ ...config, provider: 'google' }).name).toBe(
+      'google'
+    );
+    expect(() => createSpeechProvider({ ...config, provider: 'azure' })).toThrow(
+      'Azure speech requires a region'
+    );
+  });
+});
@@ -0,0 +1,92 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  AudioClip,
+  SpeechOptions,
+  SpeechProvider,
+  Transcription,
+} from './speech-provider';
+
+export interface AzureSpeechConfig {
+  apiKey: string;
+  region: string; // e.g. westeurope
+  defaultVoice?: string; // e.g. en-US-JennyNeural
+  timeoutMs?: number;
+}
+
+const OUTPUT_FORMAT = 'riff-16khz-16bit-mono-pcm';
+
+/**
+ * Azure Speech Provider - Azure AI Speech through its REST endpoints for
+ * short audio. Recognition expects 16 kHz mono WAV, synthesis returns it.
+ */
+export class AzureSpeechProvider implements SpeechProvider {
+  readonly name = 'azure';
+  private api: AxiosInstance;
+
+  constructor(private config: AzureSpeechConfig) {
+    this.api = axios.create({
+      timeout: config.timeoutMs ?? 30000,
+      headers: { 'Ocp-Apim-Subscription-Key': config.apiKey },
+    });
+  }
+
+  async transcribe(
+    audio: AudioClip,
+    options: SpeechOptions
+  ): Promise<Transcription> {
+    const response = await this.api.post(
+      `https://${this.config.region}.stt.speech.microsoft.com/speech/recognition/conversation/cognitiveservices/v1`,
+      audio.data,
+      {
+        params: { language: options.language, format: 'detailed' },
+        headers: {
+          'Content-Type': 'audio/wav; codecs=audio/pcm; samplerate=16000',
+        },
+      }
+    );
+
+    // NoMatch and InitialSilenceTimeout mean nothing was said
+    if (response.data?.RecognitionStatus !== 'Success') {
+      return { text: '' };
+    }
+
+    const best = response.data.NBest?.[0];
+    return {
+      text: String(best?.Display ?? response.data.DisplayText ?? '').trim(),
+      confidence: best?.Confidence,
+    };
+  }
+
+  async synthesize(text: string, options: SpeechOptions): Promise<AudioClip> {
+    const voice =
+      options.voiceId ||
+      this.config.defaultVoice ||
+      `${options.language}-JennyNeural`;
+    const ssml =
+      `<speak version="1.0" xml:lang="${escapeXml(options.language)}">` +
+      `<voice name="${escapeXml(voice)}">${escapeXml(text)}</voice></speak>`;
+
+    const response = await this.api.post(
+      `https://${this.config.region}.tts.speech.microsoft.com/cognitiveservices/v1`,
+      ssml,
+      {
+        responseType: 'arraybuffer',
+        headers: {
+          'Content-Type': 'application/ssml+xml',
+          'X-Microsoft-OutputFormat': OUTPUT_FORMAT,
+        },
+      }
+    );
+
+    return { data: Buffer.from(response.data), contentType: 'audio/wav' };
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,70 @@
+interface Waiter {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Call Events - commands waiting for the webhooks a telephony provider
+ * posts about a call, such as the call being answered or the customer's
+ * speech. Each call has at most one waiter per event.
+ */
+export class CallEvents {
+  private waiters: Map<string, Waiter> = new Map();
+
+  /**
+   * Run a request and wait for the event it leads to. The event is waited
+   * for from before the request is sent, so a quick webhook is not missed.
+   * Rejects when the request fails or the event does not arrive in time.
+   */
+  async after<T>(
+    callId: string,
+    event: string,
+    timeoutMs: number,
+    request: () => Promise<unknown>
+  ): Promise<T> {
+    const key = `${callId}:${event}`;
+    this.take(key)?.reject(new Error(`Stopped waiting for ${event}`));
+
+    const delivered = new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.waiters.delete(key);
+        reject(new Error(`No ${event} event for call ${callId}`));
+      }, timeoutMs);
+      this.waiters.set(key, { resolve, reject, timer });
+    });
+
+    try {
+      await request();
+    } catch (error) {
+      this.take(key);
+      throw error;
+    }
+    return delivered;
+  }
+
+  /**
+   * Deliver an event. Returns false when nothing was waiting for it.
+   */
+  deliver(callId: string, event: string, value: unknown): boolean {
+    const waiter = this.take(`${callId}:${event}`);
+    waiter?.resolve(value);
+    return waiter !== undefined;
+  }
+
+  /**
+   * Fail an event's waiter, e.g. a dial when the call is not answered
+   */
+  fail(callId: string, event: string, error: Error): void {
+    this.take(`${callId}:${event}`)?.reject(error);
+  }
+
+  private take(key: string): Waiter | undefined {
+    const waiter = this.waiters.get(key);
+    if (!waiter) return undefined;
+
+    this.waiters.delete(key);
+    clearTimeout(waiter.timer);
+    return waiter;
+  }
+}
@@ -0,0 +1,101 @@
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import {
+  AudioClip,
+  SpeechOptions,
+  SpeechProvider,
+  Transcription,
+} from './speech-provider';
+
+export interface ElevenLabsConfig {
+  apiKey: string;
+  defaultVoiceId?: string;
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+// "Rachel", one of the premade voices available to every account
+const DEFAULT_VOICE_ID = '21m00Tcm4TlvDq8ikWAM';
+
+/**
+ * ElevenLabs Speech Provider - text to speech with ElevenLabs voices and
+ * speech to text with the Scribe models
+ */
+export class ElevenLabsSpeechProvider implements SpeechProvider {
+  readonly name = 'elevenlabs';
+  private api: AxiosInstance;
+
+  constructor(private config: ElevenLabsConfig) {
+    this.api = axios.create({
+      baseURL: config.baseUrl || 'https://api.elevenlabs.io/v1',
+      timeout: config.timeoutMs ?? 30000,
+      headers: { 'xi-api-key': config.apiKey },
+    });
+  }
+
+  async transcribe(
+    audio: AudioClip,
+    options: SpeechOptions
+  ): Promise<Transcription> {
+    const boundary = `speech-${crypto.randomBytes(12).toString('hex')}`;
+    const form = buildMultipartForm(boundary, {
+      model_id: options.model || 'scribe_v1',
+      language_code: options.language.split('-')[0],
+      file: audio,
+    });
+
+    const response = await this.api.post('/speech-to-text', form, {
+      headers: {
+        'Content-Type': `multipart/form-data; boundary=${boundary}`,
+      },
+    });
+
+    // Scribe reports no recognition confidence; its language_probability
+    // is how sure it is of the language, not of the words
+    return { text: String(response.data?.text ?? '').trim() };
+  }
+
+  async synthesize(text: string, options: SpeechOptions): Promise<AudioClip> {
+    const voiceId =
+      options.voiceId || this.config.defaultVoiceId || DEFAULT_VOICE_ID;
+
+    const response = await this.api.post(
+      `/text-to-speech/${encodeURIComponent(voiceId)}`,
+      {
+        text,
+        model_id: options.model || 'eleven_multilingual_v2',
+        language_code: options.language.split('-')[0],
+      },
+      { responseType: 'arraybuffer', headers: { Accept: 'audio/mpeg' } }
+    );
+
+    return { data: Buffer.from(response.data), contentType: 'audio/mpeg' };
+  }
+}
+
+/**
+ * multipart/form-data body with text fields and audio files
+ */
+function buildMultipartForm(
+  boundary: string,
+  fields: Record<string, string | AudioClip>
+): Buffer {
+  const parts: Buffer[] = [];
+
+  for (const [name, value] of Object.entries(fields)) {
+    const headers =
+      typeof value === 'string'
+        ? `Content-Disposition: form-data; name="${name}"`
+        : `Content-Disposition: form-data; name="${name}"; filename="${name}"\r\n` +
+          `Content-Type: ${value.contentType}`;
+
+    parts.push(
+      Buffer.from(`--${boundary}\r\n${headers}\r\n\r\n`),
+      typeof value === 'string' ? Buffer.from(value) : value.data,
+      Buffer.from('\r\n')
+    );
+  }
+  parts.push(Buffer.from(`--${boundary}--\r\n`));
+
+  return Buffer.concat(parts);
+}
@@ -0,0 +1,93 @@
+import axios, { AxiosInstance } from 'axios';
+import {
+  AudioClip,
+  SpeechOptions,
+  SpeechProvider,
+  Transcription,
+} from './speech-provider';
+
+export interface GoogleSpeechConfig {
+  apiKey: string;
+  defaultVoice?: string; // e.g. en-US-Neural2-F
+  timeoutMs?: number;
+}
+
+/**
+ * Google Speech Provider - Google Cloud Speech-to-Text and Text-to-Speech,
+ * authenticated with an API key. Audio is exchanged as WAV, whose header
+ * tells the recognizer the encoding and sample rate.
+ */
+export class GoogleSpeechProvider implements SpeechProvider {
+  readonly name = 'google';
+  private api: AxiosInstance;
+
+  constructor(private config: GoogleSpeechConfig) {
+    this.api = axios.create({
+      timeout: config.timeoutMs ?? 30000,
+      params: { key: config.apiKey },
+    });
+  }
+
+  async transcribe(
+    audio: AudioClip,
+    options: SpeechOptions
+  ): Promise<Transcription> {
+    const response = await this.api.post(
+      'https://speech.googleapis.com/v1/speech:recognize',
+      {
+        config: {
+          languageCode: options.language,
+          ...(options.model ? { model: options.model } : {}),
+        },
+        audio: { content: audio.data.toString('base64') },
+      }
+    );
+
+    // Long answers come back in several results, one per stretch of speech
+    const alternatives = ((response.data?.results ?? []) as any[])
+      .map((result) => result.alternatives?.[0])
+      .filter(Boolean);
+    if (alternatives.length === 0) return { text: '' };
+
+    const confidences = alternatives
+      .map((alternative) => alternative.confidence)
+      .filter((confidence): confidence is number => confidence !== undefined);
+
+    return {
+      text: alternatives
+        .map((alternative) => String(alternative.transcript ?? '').trim())
+        .join(' ')
+        .trim(),
+      confidence:
+        confidences.length > 0
+          ? confidences.reduce((sum, value) => sum + value, 0) /
+            confidences.length
+          : undefined,
+    };
+  }
+
+  async synthesize(text: string, options: SpeechOptions): Promise<AudioClip> {
+    const voice = options.voiceId || this.config.defaultVoice;
+
+    const response = await this.api.post(
+      'https://texttospeech.googleapis.com/v1/text:synthesize',
+      {
+        input: { text },
+        voice: {
+          languageCode: options.language,
+          ...(voice ? { name: voice } : {}),
+        },
+        audioConfig: { audioEncoding: 'LINEAR16' },
+      }
+    );
+
+    if (!response.data?.audioContent) {
+      throw new Error('Google Text-to-Speech response did not include audio');
+    }
+
+    return {
+      data: Buffer.from(response.data.audioContent, 'base64'),
+      contentType: 'audio/wav',
+    };
+  }
+}
@@ -0,0 +1,80 @@
+import type { VoiceAIConfig } from '../../agents/virtual-sales-assistant';
+import { AzureSpeechProvider } from './azure-speech-provider';
+import { ElevenLabsSpeechProvider } from './elevenlabs-speech-provider';
+import { GoogleSpeechProvider } from './google-speech-provider';
+import { CallControl, SpeechProvider } from './speech-provider';
+import {
+  TwilioCallControl,
+  TwilioCallControlConfig,
+} from './twilio-call-control';
+import {
+  VonageCallControl,
+  VonageCallControlConfig,
+} from './vonage-call-control';
+import {
+  WebSocketCallControl,
+  WebSocketCallControlConfig,
+} from './websocket-call-control';
+
+export * from './speech-provider';
+export * from './elevenlabs-speech-provider';
+export * from './azure-speech-provider';
+export * from './google-speech-provider';
+export * from './websocket-call-control';
+export * from './twilio-call-control';
+export * from './vonage-call-control';
+export * from './mock-telephony-server';
+
+/**
+ * Speech provider for the provider named in the voice configuration
+ */
+export function createSpeechProvider(config: VoiceAIConfig): SpeechProvider {
+  switch (config.provider) {
+    case 'elevenlabs':
+      return new ElevenLabsSpeechProvider({
+        apiKey: config.apiKey,
+        defaultVoiceId: config.voiceId,
+      });
+
+    case 'azure':
+      if (!config.region) {
+        throw new Error('Azure speech requires a region');
+      }
+      return new AzureSpeechProvider({
+        apiKey: config.apiKey,
+        region: config.region,
+        defaultVoice: config.voiceId,
+      });
+
+    case 'google':
+      return new GoogleSpeechProvider({
+        apiKey: config.apiKey,
+        defaultVoice: config.voiceId,
+      });
+  }
+}
+
+/**
+ * Call control for a telephony provider, or for a telephony bridge such as
+ * MockTelephonyServer over WebSocket
+ */
+export type CallControlConfig =
+  | ({ provider: 'twilio' } & TwilioCallControlConfig)
+  | ({ provider: 'vonage' } & VonageCallControlConfig)
+  | ({ provider: 'websocket' } & WebSocketCallControlConfig);
+
+/**
+ * Call control for the provider named in the telephony configuration
+ */
+export function createCallControl(config: CallControlConfig): CallControl {
+  switch (config.provider) {
+    case 'twilio':
+      return new TwilioCallControl(config);
+
+    case 'vonage':
+      return new VonageCallControl(config);
+
+    case 'websocket':
+      return new WebSocketCallControl(config);
+  }
+}
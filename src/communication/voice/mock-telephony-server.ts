@@ -0,0 +1,185 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  DistributiveOmit,
+  TelephonyCommand,
+  TelephonyReply,
+} from './websocket-call-control';
+
+/**
+ * What the customer does on a call: answer or not, then say each
+ * utterance in turn, one per gather. null stays silent for that gather.
+ * When the utterances run out the customer hangs up.
+ */
+export interface MockCallScript {
+  answer?: boolean; // true by default
+  record?: boolean; // whether the call has a recording, true by default
+  utterances: (string | { text: string; confidence?: number } | null)[];
+}
+
+export interface MockCall {
+  id: string;
+  to: string;
+  status: 'in-progress' | 'no-answer' | 'transferred' | 'completed';
+  prompts: string[]; // played to the customer, in order
+  utterances: string[]; // said by the customer, in order
+  transferredTo?: string;
+  recorded: boolean;
+}
+
+/**
+ * Mock Telephony Server - an offline stand-in for the telephony bridge
+ *
+ * Accepts the WebSocketCallControl protocol and plays the customer's side
+ * of each call from a script chosen by the dialled number, so complete call
+ * flows can run in tests and local development without a phone network.
+ */
+export class MockTelephonyServer {
+  private server: http.Server;
+  private sockets: WebSocketServer;
+  private scripts: Map<string, MockCallScript> = new Map();
+  private calls: Map<string, MockCall> = new Map();
+  private remaining: Map<string, MockCallScript['utterances']> = new Map();
+
+  constructor(private defaultScript: MockCallScript = { utterances: [] }) {
+    this.server = http.createServer((_request, response) => {
+      response.writeHead(426, { Upgrade: 'websocket' });
+      response.end();
+    });
+    this.sockets = new WebSocketServer({ server: this.server });
+    this.sockets.on('connection', (connection) => {
+      connection.on('message', (data) =>
+        this.handleCommand(connection, data.toString())
+      );
+    });
+  }
+
+  /**
+   * Script for calls to a phone number
+   */
+  scriptCall(to: string, script: MockCallScript): void {
+    this.scripts.set(to, script);
+  }
+
+  /**
+   * Start listening on localhost. Resolves with the ws:// URL to connect to.
+   */
+  listen(port = 0): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, '127.0.0.1', () => {
+        const address = this.server.address() as AddressInfo;
+        resolve(`ws://127.0.0.1:${address.port}`);
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    for (const connection of this.sockets.clients) {
+      connection.close(1001);
+    }
+    await new Promise<void>((resolve) => this.sockets.close(() => resolve()));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  getCall(callId: string): MockCall | undefined {
+    return this.calls.get(callId);
+  }
+
+  getCalls(): MockCall[] {
+    return Array.from(this.calls.values());
+  }
+
+  private handleCommand(connection: WebSocket, message: string): void {
+    let command: TelephonyCommand;
+    try {
+      command = JSON.parse(message);
+    } catch {
+      return;
+    }
+
+    const reply = this.execute(command);
+    if (connection.readyState === WebSocket.OPEN) {
+      connection.send(
+        JSON.stringify({ ...reply, id: command.id, callId: command.callId })
+      );
+    }
+  }
+
+  private execute(
+    command: TelephonyCommand
+  ): DistributiveOmit<TelephonyReply, 'id' | 'callId'> {
+    if (command.type === 'dial') {
+      if (this.calls.has(command.callId)) {
+        return { type: 'error', reason: 'Call already exists' };
+      }
+
+      const script = this.scripts.get(command.to) ?? this.defaultScript;
+      const answered = script.answer !== false;
+      this.calls.set(command.callId, {
+        id: command.callId,
+        to: command.to,
+        status: answered ? 'in-progress' : 'no-answer',
+        prompts: [],
+        utterances: [],
+        recorded: answered && script.record !== false,
+      });
+      this.remaining.set(command.callId, [...script.utterances]);
+
+      return answered
+        ? { type: 'answered' }
+        : { type: 'error', reason: 'No answer' };
+    }
+
+    const call = this.calls.get(command.callId);
+    if (!call) return { type: 'error', reason: 'Unknown call' };
+    if (command.type === 'hangup') {
+      if (call.status === 'in-progress') call.status = 'completed';
+      return { type: 'ended' };
+    }
+    if (command.type === 'recording') {
+      return {
+        type: 'recording',
+        recording: call.recorded
+          ? {
+              url: `mock://recordings/${call.id}.wav`,
+              contentType: 'audio/wav',
+            }
+          : null,
+      };
+    }
+    if (call.status !== 'in-progress') {
+      return { type: 'error', reason: `Call is ${call.status}` };
+    }
+
+    switch (command.type) {
+      case 'play':
+        call.prompts.push(command.text);
+        return { type: 'played' };
+
+      case 'gather': {
+        const utterances = this.remaining.get(call.id) ?? [];
+        if (utterances.length === 0) {
+          call.status = 'completed';
+          return { type: 'hangup' };
+        }
+
+        const utterance = utterances.shift();
+        if (!utterance) return { type: 'silence' };
+
+        const { text, confidence } =
+          typeof utterance === 'string'
+            ? { text: utterance, confidence: 0.92 }
+            : utterance;
+        call.utterances.push(text);
+        return { type: 'speech', transcript: text, confidence };
+      }
+
+      case 'transfer':
+        call.status = 'transferred';
+        call.transferredTo = command.agentId;
+        return { type: 'transferred' };
+    }
+  }
+}
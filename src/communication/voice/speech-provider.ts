@@ -0,0 +1,92 @@
+import type { RecordingReference } from '../../types/transcript';
+
+/**
+ * Voice adapters - speech providers turn audio into text and back, call
+ * control places and steers the phone call itself
+ */
+
+export interface AudioClip {
+  data: Buffer;
+  contentType: string; // e.g. audio/wav, audio/mpeg
+}
+
+export interface SpeechOptions {
+  language: string; // BCP 47, e.g. en-US
+  voiceId?: string; // text to speech only
+  model?: string;
+}
+
+export interface Transcription {
+  text: string;
+  confidence?: number; // 0-1, when the provider reports one
+}
+
+export interface SpeechProvider {
+  readonly name: string;
+
+  /**
+   * Text spoken in the audio. Resolves with empty text when nothing was
+   * recognized.
+   */
+  transcribe(audio: AudioClip, options: SpeechOptions): Promise<Transcription>;
+
+  /**
+   * Audio of the text spoken with the configured voice
+   */
+  synthesize(text: string, options: SpeechOptions): Promise<AudioClip>;
+}
+
+/**
+ * What the customer said in answer to a prompt. Telephony platforms with
+ * their own speech recognition send the transcript, others only the audio.
+ */
+export interface GatheredSpeech {
+  transcript?: string;
+  confidence?: number;
+  audio?: AudioClip;
+}
+
+export interface CallControl {
+  /**
+   * Place a call. Rejects when the call cannot be connected.
+   */
+  dial(callId: string, to: string): Promise<void>;
+
+  /**
+   * Play a prompt to the customer. The text goes along with the audio so
+   * the platform can show or log it.
+   */
+  play(
+    callId: string,
+    prompt: { text: string; audio?: AudioClip }
+  ): Promise<void>;
+
+  /**
+   * Wait for the customer to speak. Resolves with null on silence or when
+   * the customer hangs up.
+   */
+  gather(
+    callId: string,
+    options?: { timeoutMs?: number }
+  ): Promise<GatheredSpeech | null>;
+
+  /**
+   * Hand the call over to a human agent
+   */
+  transfer(callId: string, agentId: string): Promise<void>;
+
+  hangUp(callId: string): Promise<void>;
+
+  /**
+   * Recording of the call so far, on platforms that record calls
+   */
+  getRecording?(callId: string): Promise<RecordingReference | null>;
+}
+
+/**
+ * Everything a voice conversation needs
+ */
+export interface VoiceAdapters {
+  speech: SpeechProvider;
+  calls: CallControl;
+}
@@ -0,0 +1,272 @@
+import axios, { AxiosInstance } from 'axios';
+import { URL, URLSearchParams } from 'url';
+import { RecordingReference } from '../../types/transcript';
+import { CallEvents } from './call-events';
+import { AudioClip, CallControl, GatheredSpeech } from './speech-provider';
+
+export interface TwilioCallControlConfig {
+  accountSid: string;
+  authToken: string;
+  from: string; // Twilio number calls are placed from
+  callbackUrl: string; // public URL whose requests go to handleCallback
+  language?: string; // BCP 47, for <Say> and speech recognition
+  voice?: string; // <Say> voice, e.g. Polly.Joanna
+  agentNumbers?: Record<string, string>; // phone number or sip: URI by agent
+  answerTimeoutMs?: number; // 60s by default
+  gatherTimeoutMs?: number; // silence before gather gives up, 8s by default
+  requestTimeoutMs?: number; // for webhooks other than gathered speech
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+// Final statuses of calls that were never answered
+const UNANSWERED_STATUSES = ['busy', 'no-answer', 'failed', 'canceled'];
+
+/**
+ * Twilio Call Control - places and steers calls with the Twilio Voice API
+ *
+ * Calls are steered by replacing their TwiML. Prompts are spoken with
+ * Twilio's own voices (<Say>), so synthesized audio is not used, and they
+ * are held back until the next gather, transfer or hang-up so a new
+ * instruction never cuts one off. Between instructions the call waits in a
+ * pause.
+ *
+ * Twilio reports call status changes and gathered speech to `callbackUrl`.
+ * Pass the parameters of those requests (query and form body) to
+ * handleCallback and answer with the TwiML it returns.
+ */
+export class TwilioCallControl implements CallControl {
+  readonly name = 'twilio';
+  private api: AxiosInstance;
+  private events = new CallEvents();
+  private callSids: Map<string, string> = new Map();
+  private prompts: Map<string, string[]> = new Map();
+  private ended: Set<string> = new Set();
+
+  constructor(private config: TwilioCallControlConfig) {
+    const baseUrl = config.baseUrl || 'https://api.twilio.com';
+
+    this.api = axios.create({
+      baseURL: `${baseUrl}/2010-04-01/Accounts/${config.accountSid}`,
+      timeout: config.timeoutMs ?? 30000,
+      auth: { username: config.accountSid, password: config.authToken },
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    });
+  }
+
+  async dial(callId: string, to: string): Promise<void> {
+    const params = new URLSearchParams({
+      To: to,
+      From: this.config.from,
+      Twiml: toTwiml(this.hold(callId)),
+      Record: 'true',
+      StatusCallback: this.callbackUrl(callId, 'status'),
+    });
+    params.append('StatusCallbackEvent', 'answered');
+    params.append('StatusCallbackEvent', 'completed');
+
+    try {
+      await this.events.after(
+        callId,
+        'answered',
+        this.config.answerTimeoutMs ?? 60000,
+        async () => {
+          const response = await this.api.post('/Calls.json', params);
+          this.callSids.set(callId, response.data.sid);
+        }
+      );
+    } catch (error) {
+      // Stop a call still ringing when we gave up waiting for an answer
+      const sid = this.callSids.get(callId);
+      if (sid && !this.ended.has(callId)) {
+        await this.api
+          .post(
+            `/Calls/${sid}.json`,
+            new URLSearchParams({ Status: 'canceled' })
+          )
+          .catch(() => undefined);
+      }
+      this.callSids.delete(callId);
+      this.ended.delete(callId);
+      throw error;
+    }
+  }
+
+  async play(
+    callId: string,
+    prompt: { text: string; audio?: AudioClip }
+  ): Promise<void> {
+    this.getCallSid(callId);
+    this.prompts.set(callId, [
+      ...(this.prompts.get(callId) ?? []),
+      prompt.text,
+    ]);
+  }
+
+  async gather(
+    callId: string,
+    options: { timeoutMs?: number } = {}
+  ): Promise<GatheredSpeech | null> {
+    if (this.ended.has(callId)) return null;
+
+    const timeoutMs = options.timeoutMs ?? this.config.gatherTimeoutMs ?? 8000;
+    const action = escapeXml(this.callbackUrl(callId, 'gather'));
+    const gather =
+      `<Gather input="speech" action="${action}" actionOnEmptyResult="true"` +
+      ` language="${this.language()}" speechTimeout="auto"` +
+      ` timeout="${Math.max(1, Math.ceil(timeoutMs / 1000))}">` +
+      `${this.takePrompts(callId)}</Gather>`;
+
+    return await this.events.after<GatheredSpeech | null>(
+      callId,
+      'gather',
+      timeoutMs + (this.config.requestTimeoutMs ?? 30000),
+      () => this.update(callId, gather + this.hold(callId))
+    );
+  }
+
+  async transfer(callId: string, agentId: string): Promise<void> {
+    const target = this.config.agentNumbers?.[agentId] ?? agentId;
+    const endpoint = target.startsWith('sip:')
+      ? `<Sip>${escapeXml(target)}</Sip>`
+      : `<Number>${escapeXml(target)}</Number>`;
+
+    await this.update(
+      callId,
+      `${this.takePrompts(callId)}<Dial>${endpoint}</Dial>`
+    );
+  }
+
+  async hangUp(callId: string): Promise<void> {
+    if (!this.ended.has(callId)) {
+      await this.update(callId, `${this.takePrompts(callId)}<Hangup/>`);
+    }
+    this.callSids.delete(callId);
+    this.prompts.delete(callId);
+    this.ended.delete(callId);
+  }
+
+  async getRecording(callId: string): Promise<RecordingReference | null> {
+    const response = await this.api.get(
+      `/Calls/${this.getCallSid(callId)}/Recordings.json`
+    );
+    const recording = response.data?.recordings?.[0];
+    if (!recording) return null;
+
+    // Twilio reports -1 while the call is still being recorded
+    const duration = Number(recording.duration);
+    return {
+      url: `${this.api.defaults.baseURL}/Recordings/${recording.sid}.wav`,
+      contentType: 'audio/wav',
+      durationSeconds: duration >= 0 ? duration : undefined,
+    };
+  }
+
+  /**
+   * Handle a request Twilio made to the callback URL. Returns the TwiML to
+   * answer it with.
+   */
+  handleCallback(params: Record<string, string | undefined>): string {
+    const { callId, event } = params;
+    if (!callId || !this.callSids.has(callId)) return toTwiml('');
+
+    if (event === 'status') {
+      const status = params.CallStatus ?? '';
+      if (status === 'in-progress') {
+        this.events.deliver(callId, 'answered', undefined);
+      } else if (UNANSWERED_STATUSES.includes(status)) {
+        this.ended.add(callId);
+        this.events.fail(callId, 'answered', new Error(`Call ${status}`));
+      } else if (status === 'completed') {
+        // The customer hung up
+        this.ended.add(callId);
+        this.events.deliver(callId, 'gather', null);
+      }
+      return toTwiml('');
+    }
+
+    if (event === 'gather') {
+      const transcript = params.SpeechResult?.trim();
+      const confidence = Number(params.Confidence);
+      this.events.deliver(
+        callId,
+        'gather',
+        transcript
+          ? {
+              transcript,
+              confidence: Number.isNaN(confidence) ? undefined : confidence,
+            }
+          : null
+      );
+    }
+
+    // Gathered speech and the end of a pause wait for the next instruction
+    return toTwiml(this.hold(callId));
+  }
+
+  /**
+   * Replace the TwiML of a call in progress
+   */
+  private async update(callId: string, twiml: string): Promise<void> {
+    await this.api.post(
+      `/Calls/${this.getCallSid(callId)}.json`,
+      new URLSearchParams({ Twiml: toTwiml(twiml) })
+    );
+  }
+
+  private getCallSid(callId: string): string {
+    const sid = this.callSids.get(callId);
+    if (!sid) throw new Error(`Call ${callId} was not placed`);
+    return sid;
+  }
+
+  /**
+   * Queued prompts as <Say> verbs, removed from the queue
+   */
+  private takePrompts(callId: string): string {
+    const prompts = this.prompts.get(callId) ?? [];
+    this.prompts.delete(callId);
+
+    const voice = this.config.voice
+      ? ` voice="${escapeXml(this.config.voice)}"`
+      : '';
+    return prompts
+      .map(
+        (text) =>
+          `<Say language="${this.language()}"${voice}>${escapeXml(text)}</Say>`
+      )
+      .join('');
+  }
+
+  /**
+   * Keep the call open until the next instruction replaces its TwiML
+   */
+  private hold(callId: string): string {
+    const url = escapeXml(this.callbackUrl(callId, 'hold'));
+    return `<Pause length="60"/><Redirect method="POST">${url}</Redirect>`;
+  }
+
+  private callbackUrl(callId: string, event: string): string {
+    const url = new URL(this.config.callbackUrl);
+    url.searchParams.set('callId', callId);
+    url.searchParams.set('event', event);
+    return url.toString();
+  }
+
+  private language(): string {
+    return escapeXml(this.config.language || 'en-US');
+  }
+}
+
+function toTwiml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><Response>${body}</Response>`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,309 @@
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import { URL } from 'url';
+import { RecordingReference } from '../../types/transcript';
+import { CallEvents } from './call-events';
+import { AudioClip, CallControl, GatheredSpeech } from './speech-provider';
+
+export interface VonageCallControlConfig {
+  applicationId: string;
+  privateKey: string; // PEM private key of the Vonage application
+  from: string; // Vonage number calls are placed from
+  callbackUrl: string; // public URL whose requests go to handleCallback
+  language?: string; // BCP 47, for talk actions and speech recognition
+  agentNumbers?: Record<string, string>; // phone number or sip: URI by agent
+  answerTimeoutMs?: number; // 60s by default
+  gatherTimeoutMs?: number; // silence before gather gives up, 8s by default
+  requestTimeoutMs?: number; // for webhooks other than gathered speech
+  baseUrl?: string;
+  timeoutMs?: number;
+}
+
+// Final statuses of calls that were never answered
+const UNANSWERED_STATUSES = [
+  'busy',
+  'cancelled',
+  'failed',
+  'rejected',
+  'timeout',
+  'unanswered',
+];
+
+type NccoAction = Record<string, unknown>;
+
+/**
+ * Vonage Call Control - places and steers calls with the Vonage Voice API
+ *
+ * Calls are steered by transferring them to a new NCCO. Prompts are spoken
+ * with Vonage's own voices (talk actions), so synthesized audio is not
+ * used, and they are held back until the next gather, transfer or hang-up
+ * so a new instruction never cuts one off. Between instructions the call
+ * waits in a conversation of its own. Calls are recorded from the start.
+ *
+ * Vonage posts call events, gathered speech and the recording to
+ * `callbackUrl`. Pass the JSON body of those requests, together with the
+ * query parameters, to handleCallback and answer with the NCCO it returns.
+ */
+export class VonageCallControl implements CallControl {
+  readonly name = 'vonage';
+  private api: AxiosInstance;
+  private events = new CallEvents();
+  private callUuids: Map<string, string> = new Map();
+  private prompts: Map<string, string[]> = new Map();
+  private recordings: Map<string, RecordingReference> = new Map();
+  private ended: Set<string> = new Set();
+
+  constructor(private config: VonageCallControlConfig) {
+    this.api = axios.create({
+      baseURL: config.baseUrl || 'https://api.nexmo.com/v1',
+      timeout: config.timeoutMs ?? 30000,
+      headers: { 'Content-Type': 'application/json' },
+    });
+    // Vonage tokens are short-lived, so each request gets a new one
+    this.api.interceptors.request.use((request) => {
+      request.headers.Authorization = `Bearer ${this.createToken()}`;
+      return request;
+    });
+  }
+
+  async dial(callId: string, to: string): Promise<void> {
+    try {
+      await this.events.after(
+        callId,
+        'answered',
+        this.config.answerTimeoutMs ?? 60000,
+        async () => {
+          const response = await this.api.post('/calls', {
+            // Vonage expects numbers without "+" or separators
+            to: [{ type: 'phone', number: to.replace(/\D/g, '') }],
+            from: {
+              type: 'phone',
+              number: this.config.from.replace(/\D/g, ''),
+            },
+            ncco: [
+              {
+                action: 'record',
+                eventUrl: [this.callbackUrl(callId, 'recording')],
+              },
+              ...this.hold(callId),
+            ],
+            event_url: [this.callbackUrl(callId, 'status')],
+            event_method: 'POST',
+          });
+          this.callUuids.set(callId, response.data.uuid);
+        }
+      );
+    } catch (error) {
+      // Stop a call still ringing when we gave up waiting for an answer
+      if (this.callUuids.has(callId) && !this.ended.has(callId)) {
+        await this.command(callId, { action: 'hangup' }).catch(
+          () => undefined
+        );
+      }
+      this.forget(callId);
+      throw error;
+    }
+  }
+
+  async play(
+    callId: string,
+    prompt: { text: string; audio?: AudioClip }
+  ): Promise<void> {
+    this.getCallUuid(callId);
+    this.prompts.set(callId, [
+      ...(this.prompts.get(callId) ?? []),
+      prompt.text,
+    ]);
+  }
+
+  async gather(
+    callId: string,
+    options: { timeoutMs?: number } = {}
+  ): Promise<GatheredSpeech | null> {
+    if (this.ended.has(callId)) return null;
+
+    const timeoutMs = options.timeoutMs ?? this.config.gatherTimeoutMs ?? 8000;
+    const input: NccoAction = {
+      action: 'input',
+      type: ['speech'],
+      eventUrl: [this.callbackUrl(callId, 'gather')],
+      speech: {
+        language: this.language(),
+        // Vonage accepts 1 to 60 seconds
+        startTimeout: Math.min(60, Math.max(1, Math.ceil(timeoutMs / 1000))),
+      },
+    };
+
+    return await this.events.after<GatheredSpeech | null>(
+      callId,
+      'gather',
+      timeoutMs + (this.config.requestTimeoutMs ?? 30000),
+      () => this.transferTo(callId, [...this.takePrompts(callId), input])
+    );
+  }
+
+  async transfer(callId: string, agentId: string): Promise<void> {
+    const target = this.config.agentNumbers?.[agentId] ?? agentId;
+    const endpoint = target.startsWith('sip:')
+      ? { type: 'sip', uri: target }
+      : { type: 'phone', number: target.replace(/\D/g, '') };
+
+    await this.transferTo(callId, [
+      ...this.takePrompts(callId),
+      { action: 'connect', endpoint: [endpoint] },
+    ]);
+  }
+
+  async hangUp(callId: string): Promise<void> {
+    if (!this.ended.has(callId)) {
+      const prompts = this.takePrompts(callId);
+      // The call ends once the last prompt has been spoken
+      await (prompts.length > 0
+        ? this.transferTo(callId, prompts)
+        : this.command(callId, { action: 'hangup' }));
+    }
+    this.forget(callId);
+  }
+
+  /**
+   * Vonage reports the recording once it is finished, so before the call
+   * has ended there is usually none yet
+   */
+  async getRecording(callId: string): Promise<RecordingReference | null> {
+    return this.recordings.get(callId) ?? null;
+  }
+
+  /**
+   * Handle a request Vonage made to the callback URL: the query parameters
+   * merged with the JSON body. Returns the NCCO to answer it with.
+   */
+  handleCallback(payload: Record<string, any>): NccoAction[] {
+    const { callId, event } = payload;
+    if (typeof callId !== 'string' || !this.callUuids.has(callId)) return [];
+
+    if (event === 'status') {
+      const status = String(payload.status ?? '');
+      if (status === 'answered') {
+        this.events.deliver(callId, 'answered', undefined);
+      } else if (UNANSWERED_STATUSES.includes(status)) {
+        this.ended.add(callId);
+        this.events.fail(callId, 'answered', new Error(`Call ${status}`));
+      } else if (status === 'completed') {
+        // The customer hung up
+        this.ended.add(callId);
+        this.events.deliver(callId, 'gather', null);
+      }
+      return [];
+    }
+
+    if (event === 'recording' && payload.recording_url) {
+      this.recordings.set(callId, {
+        url: String(payload.recording_url),
+        contentType: 'audio/mpeg',
+      });
+      return [];
+    }
+
+    if (event === 'gather') {
+      const result = payload.speech?.results?.[0];
+      const transcript = String(result?.text ?? '').trim();
+      const confidence = Number(result?.confidence);
+      this.events.deliver(
+        callId,
+        'gather',
+        transcript
+          ? {
+              transcript,
+              confidence: Number.isNaN(confidence) ? undefined : confidence,
+            }
+          : null
+      );
+      // Wait for the next instruction
+      return this.hold(callId);
+    }
+
+    return [];
+  }
+
+  /**
+   * Replace the NCCO of a call in progress
+   */
+  private async transferTo(callId: string, ncco: NccoAction[]): Promise<void> {
+    await this.command(callId, {
+      action: 'transfer',
+      destination: { type: 'ncco', ncco },
+    });
+  }
+
+  private async command(
+    callId: string,
+    body: Record<string, unknown>
+  ): Promise<void> {
+    await this.api.put(`/calls/${this.getCallUuid(callId)}`, body);
+  }
+
+  private getCallUuid(callId: string): string {
+    const uuid = this.callUuids.get(callId);
+    if (!uuid) throw new Error(`Call ${callId} was not placed`);
+    return uuid;
+  }
+
+  /**
+   * Queued prompts as talk actions, removed from the queue
+   */
+  private takePrompts(callId: string): NccoAction[] {
+    const prompts = this.prompts.get(callId) ?? [];
+    this.prompts.delete(callId);
+
+    return prompts.map((text) => ({
+      action: 'talk',
+      text,
+      language: this.language(),
+    }));
+  }
+
+  /**
+   * Keep the call open until the next instruction transfers it
+   */
+  private hold(callId: string): NccoAction[] {
+    return [{ action: 'conversation', name: `hold-${callId}` }];
+  }
+
+  private forget(callId: string): void {
+    this.callUuids.delete(callId);
+    this.prompts.delete(callId);
+    this.recordings.delete(callId);
+    this.ended.delete(callId);
+  }
+
+  private callbackUrl(callId: string, event: string): string {
+    const url = new URL(this.config.callbackUrl);
+    url.searchParams.set('callId', callId);
+    url.searchParams.set('event', event);
+    return url.toString();
+  }
+
+  private language(): string {
+    return this.config.language || 'en-US';
+  }
+
+  /**
+   * JWT signed with the application's private key, valid for 15 minutes
+   */
+  private createToken(): string {
+    const now = Math.floor(Date.now() / 1000);
+    const encode = (part: object) =>
+      Buffer.from(JSON.stringify(part)).toString('base64url');
+    const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+      application_id: this.config.applicationId,
+      iat: now,
+      exp: now + 900,
+      jti: crypto.randomUUID(),
+    })}`;
+    const signature = crypto
+      .sign('RSA-SHA256', Buffer.from(unsigned), this.config.privateKey)
+      .toString('base64url');
+
+    return `${unsigned}.${signature}`;
+  }
+}
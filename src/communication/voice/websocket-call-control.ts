@@ -0,0 +1,242 @@
+import { generateUUID } from '../../types/validation';
+import {
+  AudioClip,
+  CallControl,
+  GatheredSpeech,
+} from './speech-provider';
+import WebSocket from 'ws';
+import { RecordingReference } from '../../types/transcript';
+
+/**
+ * Audio in telephony messages, base64 encoded
+ */
+export interface TelephonyAudio {
+  data: string;
+  contentType: string;
+}
+
+/**
+ * Commands sent to the telephony bridge. Each gets exactly one reply with
+ * the same id.
+ */
+export type TelephonyCommand = { id: string; callId: string } & (
+  | { type: 'dial'; to: string }
+  | { type: 'play'; text: string; audio?: TelephonyAudio }
+  | { type: 'gather'; timeoutMs: number }
+  | { type: 'transfer'; agentId: string }
+  | { type: 'hangup' }
+  | { type: 'recording' }
+);
+
+export type TelephonyReply = { id: string; callId: string } & (
+  | { type: 'answered' }
+  | { type: 'played' }
+  | {
+      type: 'speech';
+      transcript?: string;
+      confidence?: number;
+      audio?: TelephonyAudio;
+    }
+  | { type: 'silence' }
+  | { type: 'hangup' } // the customer hung up
+  | { type: 'transferred' }
+  | { type: 'ended' }
+  | { type: 'recording'; recording: RecordingReference | null }
+  | { type: 'error'; reason: string }
+);
+
+export interface WebSocketCallControlConfig {
+  url: string; // ws:// or wss:// address of the telephony bridge
+  gatherTimeoutMs?: number; // silence before gather gives up, 8s by default
+  requestTimeoutMs?: number; // for replies other than gathered speech
+}
+
+interface PendingCommand {
+  resolve: (reply: TelephonyReply) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * WebSocket Call Control - steers calls through a telephony bridge that
+ * speaks JSON commands over a WebSocket
+ *
+ * The bridge connects the commands to the phone network (or, in tests,
+ * to MockTelephonyServer). One connection carries all calls; it is opened
+ * on the first command and reopened after it drops.
+ */
+export class WebSocketCallControl implements CallControl {
+  private connection?: Promise<WebSocket>;
+  private pending: Map<string, PendingCommand> = new Map();
+
+  constructor(private config: WebSocketCallControlConfig) {}
+
+  async dial(callId: string, to: string): Promise<void> {
+    await this.command({ type: 'dial', callId, to }, 'answered');
+  }
+
+  async play(
+    callId: string,
+    prompt: { text: string; audio?: AudioClip }
+  ): Promise<void> {
+    await this.command(
+      {
+        type: 'play',
+        callId,
+        text: prompt.text,
+        audio: prompt.audio
+          ? {
+              data: prompt.audio.data.toString('base64'),
+              contentType: prompt.audio.contentType,
+            }
+          : undefined,
+      },
+      'played'
+    );
+  }
+
+  async gather(
+    callId: string,
+    options: { timeoutMs?: number } = {}
+  ): Promise<GatheredSpeech | null> {
+    const timeoutMs = options.timeoutMs ?? this.config.gatherTimeoutMs ?? 8000;
+    const reply = await this.command({ type: 'gather', callId, timeoutMs }, [
+      'speech',
+      'silence',
+      'hangup',
+    ]);
+    if (reply.type !== 'speech') return null;
+
+    return {
+      transcript: reply.transcript,
+      confidence: reply.confidence,
+      audio: reply.audio
+        ? {
+            data: Buffer.from(reply.audio.data, 'base64'),
+            contentType: reply.audio.contentType,
+          }
+        : undefined,
+    };
+  }
+
+  async transfer(callId: string, agentId: string): Promise<void> {
+    await this.command({ type: 'transfer', callId, agentId }, 'transferred');
+  }
+
+  async hangUp(callId: string): Promise<void> {
+    await this.command({ type: 'hangup', callId }, 'ended');
+  }
+
+  async getRecording(callId: string): Promise<RecordingReference | null> {
+    const reply = await this.command(
+      { type: 'recording', callId },
+      'recording'
+    );
+    return reply.type === 'recording' ? reply.recording : null;
+  }
+
+  /**
+   * Close the connection to the bridge. Commands still waiting for a
+   * reply are rejected.
+   */
+  async close(): Promise<void> {
+    const connection = this.connection;
+    this.connection = undefined;
+    if (!connection) return;
+
+    try {
+      (await connection).close();
+    } catch {
+      // Never connected, nothing to close
+    }
+  }
+
+  private async command(
+    command: DistributiveOmit<TelephonyCommand, 'id'>,
+    expected: TelephonyReply['type'] | TelephonyReply['type'][]
+  ): Promise<TelephonyReply> {
+    const connection = await this.connect();
+    const id = generateUUID();
+    const timeoutMs =
+      (command.type === 'gather' ? command.timeoutMs : 0) +
+      (this.config.requestTimeoutMs ?? 15000);
+
+    const reply = await new Promise<TelephonyReply>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(
+          new Error(
+            `Telephony bridge did not answer ${command.type} for call ${command.callId}`
+          )
+        );
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      connection.send(JSON.stringify({ ...command, id }));
+    });
+
+    if (reply.type === 'error') {
+      throw new Error(
+        `Telephony ${command.type} failed for call ${command.callId}: ${reply.reason}`
+      );
+    }
+    const accepted = Array.isArray(expected) ? expected : [expected];
+    if (!accepted.includes(reply.type)) {
+      throw new Error(
+        `Unexpected ${reply.type} reply to ${command.type} for call ${command.callId}`
+      );
+    }
+
+    return reply;
+  }
+
+  private connect(): Promise<WebSocket> {
+    if (this.connection) return this.connection;
+
+    const connection = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(this.config.url);
+      socket.once('open', () => resolve(socket));
+      // Errors after the connection opened are followed by close
+      socket.on('error', reject);
+      socket.on('message', (data) => this.handleReply(data.toString()));
+      socket.on('close', () => {
+        if (this.connection === connection) this.connection = undefined;
+        this.rejectPending(new Error('Telephony bridge connection closed'));
+      });
+    });
+    connection.catch(() => {
+      if (this.connection === connection) this.connection = undefined;
+    });
+
+    this.connection = connection;
+    return connection;
+  }
+
+  private handleReply(message: string): void {
+    let reply: TelephonyReply;
+    try {
+      reply = JSON.parse(message);
+    } catch {
+      return;
+    }
+
+    const pending = this.pending.get(reply?.id);
+    if (!pending) return;
+
+    this.pending.delete(reply.id);
+    clearTimeout(pending.timer);
+    pending.resolve(reply);
+  }
+
+  private rejectPending(error: Error): void {
+    for (const [id, pending] of this.pending) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+      this.pending.delete(id);
+    }
+  }
+}
+
+// Omit applied to each member of a union
+export type DistributiveOmit<T, K extends keyof any> = T extends unknown
+  ? Omit<T, K>
+  : never;
@@ -15,4 +15,50 @@ export const config = {
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
   MAX_RETRY_ATTEMPTS: process.env.MAX_RETRY_ATTEMPTS ? Number(process.env.MAX_RETRY_ATTEMPTS) : 3,
   RESPONSE_TIMEOUT_MS: process.env.RESPONSE_TIMEOUT_MS ? Number(process.env.RESPONSE_TIMEOUT_MS) : 60000,
+  CALENDAR_ORGANIZER_EMAIL: process.env.CALENDAR_ORGANIZER_EMAIL || '',
+  CALENDAR_ORGANIZER_NAME: process.env.CALENDAR_ORGANIZER_NAME || '',
+  // Signs the secret addresses of the agents' .ics feeds; feeds are off without it
+  CALENDAR_FEED_SECRET: process.env.CALENDAR_FEED_SECRET || '',
+  SMTP_HOST: process.env.SMTP_HOST || '',
+  SMTP_PORT: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : 587,
+  SMTP_SECURE: process.env.SMTP_SECURE === 'true',
+  // Plain-text SMTP without STARTTLS is refused unless this is "false"
+  SMTP_REQUIRE_TLS: process.env.SMTP_REQUIRE_TLS !== 'false',
+  SMTP_USER: process.env.SMTP_USER || '',
+  SMTP_PASS: process.env.SMTP_PASS || '',
+  SMTP_FROM: process.env.SMTP_FROM || '',
+  SMTP_FROM_NAME: process.env.SMTP_FROM_NAME || '',
+  SMS_GATEWAY_URL: process.env.SMS_GATEWAY_URL || '',
+  SMS_GATEWAY_API_KEY: process.env.SMS_GATEWAY_API_KEY || '',
+  SMS_FROM: process.env.SMS_FROM || '',
+  SMS_STATUS_CALLBACK_URL: process.env.SMS_STATUS_CALLBACK_URL || '',
+  WHATSAPP_ACCESS_TOKEN: process.env.WHATSAPP_ACCESS_TOKEN || '',
+  WHATSAPP_PHONE_NUMBER_ID: process.env.WHATSAPP_PHONE_NUMBER_ID || '',
+  WHATSAPP_API_VERSION: process.env.WHATSAPP_API_VERSION || 'v19.0',
+  // Channels without a configured provider write to this directory instead;
+  // in production it must be set for that, or the missing provider is an error
+  MESSAGE_OUTBOX_DIR: process.env.MESSAGE_OUTBOX_DIR || '',
+  // Country code of phone numbers written without one, e.g. "55" in Brazil
+  DEFAULT_PHONE_COUNTRY_CODE: process.env.DEFAULT_PHONE_COUNTRY_CODE || '1',
+  // Public address of the API, used in the unsubscribe link of every email
+  UNSUBSCRIBE_BASE_URL: process.env.UNSUBSCRIBE_BASE_URL || '',
+  UNSUBSCRIBE_SECRET: process.env.UNSUBSCRIBE_SECRET || '',
+  // Comma separated channels that need an explicit opt-in; every outbound
+  // channel unless narrowed, e.g. "whatsapp,sms", or set to "none"
+  CONSENT_REQUIRED_CHANNELS: (
+    process.env.CONSENT_REQUIRED_CHANNELS || 'email,sms,voice,whatsapp'
+  )
+    .split(',')
+    .map((channel) => channel.trim())
+    .filter(Boolean),
+  N8N_BASE_URL: process.env.N8N_BASE_URL || '',
+  N8N_API_KEY: process.env.N8N_API_KEY || '',
+  // Comma separated event:workflowId pairs, the n8n workflow started for
+  // each domain event, e.g. "lead_created:12,appointment_scheduled:15"
+  N8N_EVENT_WORKFLOWS: Object.fromEntries(
+    (process.env.N8N_EVENT_WORKFLOWS || '')
+      .split(',')
+      .map((pair) => pair.split(':').map((part) => part.trim()))
+      .filter(([eventType, workflowId]) => eventType && workflowId)
+  ) as Record<string, string>,
 };
@@ -1,5 +1,17 @@
-import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
-import { DatabaseManager } from '../manager';
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterAll,
+  vi,
+} from 'vitest';
+import {
+  DatabaseManager,
+  encodeLeadCursor,
+  decodeLeadCursor,
+} from '../manager';
 
 // Mock the config and logger
 vi.mock('../../config/environment', () => ({
@@ -62,20 +74,8 @@ describe('DatabaseManager', () => {
 
       (dbManager as any).pgPool = mockPool;
 
-      // Mock the migration check to trigger schema creation
-      mockClient.query
-        .mockResolvedValueOnce({ rows: [] }) // Create migrations table
-        .mockResolvedValueOnce({ rows: [] }) // Check if migration exists
-        .mockResolvedValueOnce(undefined) // BEGIN transaction
-        .mockResolvedValueOnce(undefined) // Create leads table
-        .mockResolvedValueOnce(undefined) // Create interactions table
-        .mockResolvedValueOnce(undefined) // Create agent_performance table
-        .mockResolvedValueOnce(undefined) // Create audit_logs table
-        .mockResolvedValueOnce(undefined) // Create indexes
-        .mockResolvedValueOnce(undefined) // Create trigger function
-        .mockResolvedValueOnce(undefined) // Create trigger
-        .mockResolvedValueOnce(undefined) // COMMIT transaction
-        .mockResolvedValueOnce({ rows: [] }); // Insert migration record
+      // No migrations recorded yet, so the initial schema is applied
+      mockClient.query.mockResolvedValue({ rows: [] });
 
       await dbManager.initialize();
 
@@ -158,4 +158,108 @@ describe('DatabaseManager', () => {
       expect(typeof dbManager.close).toBe('function');
     });
   });
+
+  describe('Lead Queries', () => {
+    let queryMock: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      queryMock = vi.fn().mockResolvedValue({ rows: [], rowCount: 0 });
+      dbManager.query = queryMock as any;
+    });
+
+    it('should build filtered and searched list queries', async () => {
+      await dbManager.listLeads({
+        status: ['new'],
+        lead_type: ['hot', 'warm'],
+        search: 'john_doe',
+        limit: 10,
+      });
+
+      const [sql, params] = queryMock.mock.calls[0];
+      expect(sql).toContain('status = ANY($1)');
+      expect(sql).toContain('lead_type = ANY($2)');
+      expect(sql).toContain('name ILIKE $3');
+      expect(sql).toContain('ORDER BY');
+      expect(params).toEqual([['new'], ['hot', 'warm'], '%john\\_doe%', 11]);
+    });
+
+    it('should match phone numbers by digits', async () => {
+      await dbManager.listLeads({ search: '(123) 456' });
+
+      const [sql, params] = queryMock.mock.calls[0];
+      expect(sql).toContain("regexp_replace(phone, '\\D', '', 'g') LIKE $2");
+      expect(params[1]).toBe('%123456%');
+    });
+
+    it('should return a cursor when more rows exist', async () => {
+      const rows = [1, 2, 3].map((n) => ({
+        id: `lead-${n}`,
+        created_at: new Date(`2024-01-0${n}T00:00:00.000Z`),
+      }));
+      queryMock.mockResolvedValue({ rows });
+
+      const page = await dbManager.listLeads({ limit: 2 });
+
+      expect(page.leads).toHaveLength(2);
+      expect(decodeLeadCursor(page.nextCursor!)).toEqual({
+        createdAt: rows[1].created_at,
+        id: 'lead-2',
+      });
+    });
+
+    it('should continue after the cursor position', async () => {
+      const cursor = encodeLeadCursor({
+        id: 'lead-2',
+        created_at: new Date('2024-01-02T00:00:00.000Z'),
+      });
+
+      await dbManager.listLeads({ cursor });
+
+      const [sql, params] = queryMock.mock.calls[0];
+      expect(sql).toContain("(date_trunc('milliseconds', created_at), id) < ($1, $2)");
+      expect(params.slice(0, 2)).toEqual([
+        new Date('2024-01-02T00:00:00.000Z'),
+        'lead-2',
+      ]);
+    });
+
+    it('should reject malformed cursors', async () => {
+      await expect(dbManager.listLeads({ cursor: 'garbage' })).rejects.toThrow(
+        'Invalid pagination cursor'
+      );
+    });
+
+    it('should only update provided columns', async () => {
+      queryMock.mockResolvedValue({ rows: [{ id: 'lead-1' }] });
+
+      await dbManager.updateLead('lead-1', { status: 'contacted', email: undefined });
+
+      const [sql, params] = queryMock.mock.calls[0];
+      expect(sql).toContain(
+        'WITH saved AS (UPDATE leads SET status = $2 WHERE id = $1 RETURNING *)'
+      );
+      expect(params).toEqual(['lead-1', 'contacted', 'lead_updated', 'lead']);
+    });
+
+    it('should report whether a lead was deleted', async () => {
+      queryMock.mockResolvedValue({ rows: [{ id: 'lead-1' }], rowCount: 1 });
+      expect(await dbManager.deleteLead('lead-1')).toBe(true);
+
+      queryMock.mockResolvedValue({ rows: [], rowCount: 0 });
+      expect(await dbManager.deleteLead('lead-2')).toBe(false);
+    });
+
+    it('should record lead_deleted in the delete statement', async () => {
+      queryMock.mockResolvedValue({ rows: [{ id: 'lead-1' }], rowCount: 1 });
+
+      await dbManager.deleteLead('lead-1');
+
+      const [sql, params] = queryMock.mock.calls[0];
+      expect(sql).toContain(
+        'WITH saved AS (DELETE FROM leads WHERE id = $1 RETURNING *)'
+      );
+      expect(sql).toContain('INSERT INTO outbox_events');
+      expect(params).toEqual(['lead-1', 'lead_deleted', 'lead']);
+    });
+  });
 });
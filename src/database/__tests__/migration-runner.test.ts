@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  Migration,
+  MigrationRunner,
+  migrationChecksum,
+} from '../migration-runner';
+import { migrations } from '../migrations';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const first: Migration = {
+  name: '001_create_widgets',
+  up: ['CREATE TABLE widgets (id INT);'],
+  down: ['DROP TABLE widgets;'],
+};
+
+const second: Migration = {
+  name: '002_add_widget_name',
+  up: ['ALTER TABLE widgets ADD COLUMN name TEXT;'],
+  down: ['ALTER TABLE widgets DROP COLUMN name;'],
+};
+
+describe('MigrationRunner', () => {
+  let appliedRows: any[];
+  let client: any;
+  let pool: any;
+
+  const executed = (): string[] =>
+    client.query.mock.calls.map((call: any[]) => call[0].trim());
+
+  beforeEach(() => {
+    appliedRows = [];
+    client = {
+      query: vi.fn(async (sql: string) => {
+        if (sql.startsWith('SELECT name, checksum')) {
+          return { rows: appliedRows };
+        }
+        return { rows: [] };
+      }),
+      release: vi.fn(),
+    };
+    pool = { connect: vi.fn().mockResolvedValue(client) };
+  });
+
+  describe('migrate', () => {
+    it('should apply pending migrations in order under an advisory lock', async () => {
+      const runner = new MigrationRunner(pool, [first, second]);
+
+      const applied = await runner.migrate();
+
+      expect(applied).toEqual(['001_create_widgets', '002_add_widget_name']);
+      const sql = executed();
+      expect(sql[0]).toBe('SELECT pg_advisory_lock($1)');
+      expect(sql[sql.length - 1]).toBe('SELECT pg_advisory_unlock($1)');
+      expect(sql.indexOf(first.up[0])).toBeLessThan(sql.indexOf(second.up[0]));
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO migrations'),
+        ['001_create_widgets', migrationChecksum(first)]
+      );
+      expect(client.release).toHaveBeenCalled();
+    });
+
+    it('should skip migrations that are already applied', async () => {
+      appliedRows = [
+        { name: first.name, checksum: migrationChecksum(first), executed_at: new Date() },
+      ];
+      const runner = new MigrationRunner(pool, [first, second]);
+
+      const applied = await runner.migrate();
+
+      expect(applied).toEqual(['002_add_widget_name']);
+      expect(executed()).not.toContain(first.up[0]);
+    });
+
+    it('should refuse to run when an applied migration was edited', async () => {
+      appliedRows = [{ name: first.name, checksum: 'stale', executed_at: new Date() }];
+      const runner = new MigrationRunner(pool, [first, second]);
+
+      await expect(runner.migrate()).rejects.toThrow(
+        'Checksum mismatch for migration 001_create_widgets'
+      );
+      expect(executed()).not.toContain(second.up[0]);
+      expect(executed()).toContain('SELECT pg_advisory_unlock($1)');
+    });
+
+    it('should backfill checksums recorded before they were tracked', async () => {
+      appliedRows = [{ name: first.name, checksum: null, executed_at: new Date() }];
+      const runner = new MigrationRunner(pool, [first]);
+
+      await runner.migrate();
+
+      expect(client.query).toHaveBeenCalledWith(
+        'UPDATE migrations SET checksum = $2 WHERE name = $1',
+        [first.name, migrationChecksum(first)]
+      );
+    });
+
+    it('should fail when an applied migration has no file', async () => {
+      appliedRows = [{ name: '009_removed', checksum: 'x', executed_at: new Date() }];
+      const runner = new MigrationRunner(pool, [first]);
+
+      await expect(runner.migrate()).rejects.toThrow(
+        'Applied migration 009_removed has no matching migration file'
+      );
+    });
+
+    it('should roll back the transaction when a statement fails', async () => {
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql === second.up[0]) throw new Error('syntax error');
+        if (sql.startsWith('SELECT name, checksum')) return { rows: [] };
+        return { rows: [] };
+      });
+      const runner = new MigrationRunner(pool, [first, second]);
+
+      await expect(runner.migrate()).rejects.toThrow('syntax error');
+      expect(executed()).toContain('ROLLBACK');
+    });
+  });
+
+  describe('rollback', () => {
+    it('should undo the most recent migrations first', async () => {
+      appliedRows = [first, second].map((m) => ({
+        name: m.name,
+        checksum: migrationChecksum(m),
+        executed_at: new Date(),
+      }));
+      const runner = new MigrationRunner(pool, [first, second]);
+
+      const rolledBack = await runner.rollback(2);
+
+      expect(rolledBack).toEqual(['002_add_widget_name', '001_create_widgets']);
+      const sql = executed();
+      expect(sql.indexOf(second.down[0])).toBeLessThan(sql.indexOf(first.down[0]));
+      expect(client.query).toHaveBeenCalledWith(
+        'DELETE FROM migrations WHERE name = $1',
+        ['002_add_widget_name']
+      );
+    });
+
+    it('should reject invalid step counts', async () => {
+      const runner = new MigrationRunner(pool, [first]);
+
+      await expect(runner.rollback(0)).rejects.toThrow(
+        'Rollback steps must be a positive integer'
+      );
+    });
+  });
+
+  describe('status', () => {
+    it('should report applied, pending and modified migrations', async () => {
+      appliedRows = [{ name: first.name, checksum: 'stale', executed_at: new Date() }];
+      const runner = new MigrationRunner(pool, [first, second]);
+
+      const statuses = await runner.status();
+
+      expect(statuses).toEqual([
+        expect.objectContaining({ name: first.name, applied: true, checksumMatches: false }),
+        expect.objectContaining({ name: second.name, applied: false }),
+      ]);
+    });
+  });
+
+  describe('validation', () => {
+    it('should require migrations in ascending order', () => {
+      expect(() => new MigrationRunner(pool, [second, first])).toThrow(
+        'Migrations must be listed in ascending name order'
+      );
+    });
+
+    it('should reject duplicate and malformed names', () => {
+      expect(() => new MigrationRunner(pool, [first, first])).toThrow(
+        'Duplicate migration name'
+      );
+      expect(
+        () => new MigrationRunner(pool, [{ ...first, name: 'widgets' }])
+      ).toThrow('Invalid migration name');
+    });
+
+    it('should accept the registered migrations', () => {
+      expect(() => new MigrationRunner(pool, migrations)).not.toThrow();
+    });
+  });
+});
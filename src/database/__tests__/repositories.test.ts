@@ -0,0 +1,980 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  LeadRepository,
+  InteractionRepository,
+  AuditLogRepository,
+  AgentPerformanceRepository,
+  AppointmentRepository,
+  CallbackRepository,
+  CampaignRepository,
+  ReminderSequenceRepository,
+  ConsentRepository,
+  RoutingRuleRepository,
+  LeadAssignmentRepository,
+  ResponseSlaRepository,
+  TranscriptRepository,
+  JobRepository,
+  OutboxRepository,
+  WebhookSubscriptionRepository,
+  FieldMappingProfileRepository,
+  AgentSessionRepository,
+  SyncCursorRepository,
+  withRepositories,
+  mapLeadRow,
+  mapInteractionRow,
+  leadToParams,
+  LEAD_COLUMNS,
+  interactionToParams,
+  INTERACTION_COLUMNS,
+} from '../repositories';
+import { ValidationError } from '../../types/validation';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+const INTERACTION_ID = '3f1e2d4c-5b6a-4789-8abc-def012345678';
+
+const leadRow = {
+  id: LEAD_ID,
+  source: 'website',
+  name: 'John Doe',
+  email: 'john.doe@example.com',
+  phone: '+1234567890',
+  preferred_channel: 'email',
+  timezone: 'UTC',
+  lead_type: 'hot',
+  urgency_level: 7,
+  intent_signals: ['requested_callback'],
+  budget_min: '300000.00',
+  budget_max: '500000.00',
+  location: 'New York',
+  property_type: 'condo',
+  timeline: '3 months',
+  qualification_score: '0.80',
+  status: 'new',
+  assigned_agent: null,
+  created_at: new Date('2024-01-01T10:00:00.000Z'),
+  updated_at: new Date('2024-01-01T10:00:00.000Z'),
+};
+
+const interactionRow = {
+  id: INTERACTION_ID,
+  lead_id: LEAD_ID,
+  agent_id: 'agent-1',
+  type: 'call',
+  direction: 'outbound',
+  content: 'Discussed requirements',
+  outcome_status: 'successful',
+  appointment_booked: true,
+  qualification_updated: false,
+  escalation_required: false,
+  duration_seconds: 300,
+  sentiment_score: '0.75',
+  sentiment_confidence: '0.90',
+  next_action: 'follow_up',
+  next_action_description: 'Send listings',
+  next_action_scheduled_at: new Date('2024-01-02T10:00:00.000Z'),
+  created_at: new Date('2024-01-01T11:00:00.000Z'),
+};
+
+describe('Repositories', () => {
+  let db: { query: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    db = { query: vi.fn().mockResolvedValue({ rows: [], rowCount: 0 }) };
+  });
+
+  describe('mappers', () => {
+    it('should map lead rows and convert decimal columns', () => {
+      const lead = mapLeadRow(leadRow as any);
+
+      expect(lead.contactInfo.name).toBe('John Doe');
+      expect(lead.qualificationData.budget).toEqual({ min: 300000, max: 500000 });
+      expect(lead.qualificationData.qualificationScore).toBe(0.8);
+      expect(lead.assignedAgent).toBeUndefined();
+    });
+
+    it('should produce one parameter per lead column', () => {
+      const params = leadToParams(mapLeadRow(leadRow as any));
+
+      expect(params).toHaveLength(LEAD_COLUMNS.length);
+      expect(params[LEAD_COLUMNS.indexOf('budget_min')]).toBe(300000);
+    });
+
+    it('should map interaction rows including sentiment and next action', () => {
+      const interaction = mapInteractionRow(interactionRow as any);
+
+      expect(interaction.sentiment).toEqual({ score: 0.75, confidence: 0.9 });
+      expect(interaction.nextAction?.description).toBe('Send listings');
+      expect(interactionToParams(interaction)).toHaveLength(
+        INTERACTION_COLUMNS.length
+      );
+    });
+
+    it('should reject rows that fail domain validation', () => {
+      expect(() => mapLeadRow({ ...leadRow, lead_type: 'lukewarm' } as any)).toThrow(
+        ValidationError
+      );
+    });
+  });
+
+  describe('LeadRepository', () => {
+    it('should record lead_deleted when deleting a lead', async () => {
+      const leads = new LeadRepository(db);
+
+      expect(await leads.delete(LEAD_ID)).toBe(false);
+
+      db.query.mockResolvedValue({ rows: [leadRow], rowCount: 1 });
+      expect(await leads.delete(LEAD_ID)).toBe(true);
+
+      const [sql, params] = db.query.mock.calls[1];
+      expect(sql).toContain(
+        'WITH saved AS (DELETE FROM leads WHERE id = $1 RETURNING *)'
+      );
+      expect(params).toEqual([LEAD_ID, 'lead_deleted', 'lead']);
+    });
+
+    it('should return null for unknown leads', async () => {
+      const leads = new LeadRepository(db);
+
+      expect(await leads.findById(LEAD_ID)).toBeNull();
+      expect(db.query).toHaveBeenCalledWith('SELECT * FROM leads WHERE id = $1', [
+        LEAD_ID,
+      ]);
+    });
+
+    it('should match phone numbers by digit variations', async () => {
+      db.query.mockResolvedValue({ rows: [leadRow] });
+      const leads = new LeadRepository(db);
+
+      const matches = await leads.findByPhoneDigits(['1234567890', '234567890']);
+
+      expect(matches).toHaveLength(1);
+      expect(db.query.mock.calls[0][0]).toContain('IN ($1, $2)');
+    });
+
+    it('should return similarity scores with name matches', async () => {
+      db.query.mockResolvedValue({ rows: [{ ...leadRow, name_similarity: '0.82' }] });
+      const leads = new LeadRepository(db);
+
+      const [match] = await leads.findBySimilarName('Jon Doe');
+
+      expect(match.similarity).toBe(0.82);
+      expect(match.lead.id).toBe(LEAD_ID);
+    });
+
+    it('should report invalid rows instead of failing the read', async () => {
+      db.query.mockResolvedValue({
+        rows: [leadRow, { ...leadRow, id: 'lead-2', lead_type: 'lukewarm' }],
+      });
+      const leads = new LeadRepository(db);
+
+      const updated = await leads.findUpdatedSince(new Date(0), 50);
+
+      expect(updated.records.map((lead) => lead.id)).toEqual([LEAD_ID]);
+      expect(updated.invalid).toEqual([
+        { id: 'lead-2', error: expect.stringContaining('Lead validation') },
+      ]);
+    });
+
+    it('should save every column except the id', async () => {
+      db.query.mockResolvedValue({ rows: [leadRow] });
+      const leads = new LeadRepository(db);
+
+      await leads.save(mapLeadRow(leadRow as any));
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('UPDATE leads SET source = $2');
+      expect(sql).toContain('WHERE id = $1');
+      expect(params[0]).toBe(LEAD_ID);
+    });
+  });
+
+  describe('InteractionRepository', () => {
+    it('should insert interactions and return the stored row', async () => {
+      db.query.mockResolvedValue({ rows: [interactionRow] });
+      const interactions = new InteractionRepository(db);
+
+      const stored = await interactions.create(mapInteractionRow(interactionRow as any));
+
+      expect(stored.id).toBe(INTERACTION_ID);
+      expect(db.query.mock.calls[0][0]).toContain('INSERT INTO interactions');
+    });
+  });
+
+  describe('AuditLogRepository', () => {
+    it('should validate and insert audit entries', async () => {
+      const auditLogs = new AuditLogRepository(db);
+
+      const entry = await auditLogs.create({
+        entityType: 'lead',
+        entityId: LEAD_ID,
+        action: 'update',
+        changes: { status: { old: 'new', new: 'contacted' } },
+        agentId: 'agent-1',
+        timestamp: new Date(),
+      });
+
+      expect(entry.id).toBeDefined();
+      expect(db.query.mock.calls[0][1][4]).toBe(
+        JSON.stringify({ status: { old: 'new', new: 'contacted' } })
+      );
+    });
+
+    it('should reject invalid audit entries without querying', async () => {
+      const auditLogs = new AuditLogRepository(db);
+
+      await expect(
+        auditLogs.create({
+          entityType: 'campaign' as any,
+          entityId: LEAD_ID,
+          action: 'update',
+          changes: {},
+          agentId: 'agent-1',
+          timestamp: new Date(),
+        })
+      ).rejects.toThrow(ValidationError);
+      expect(db.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('AgentPerformanceRepository', () => {
+    it('should map performance rows for an agent', async () => {
+      const performance = new AgentPerformanceRepository(db);
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            id: INTERACTION_ID,
+            agent_id: 'agent-1',
+            period_start: new Date('2024-01-01'),
+            period_end: new Date('2024-01-31'),
+            total_interactions: 10,
+            conversion_rate: '0.20',
+            average_response_time_ms: 1200,
+            appointment_booking_rate: '0.10',
+            customer_satisfaction_score: '4.50',
+            script_performance: [],
+            optimization_suggestions: [],
+            created_at: new Date('2024-02-01'),
+          },
+        ],
+      });
+
+      const [stored] = await performance.findByAgent('agent-1');
+
+      expect(stored.metrics.conversionRate).toBe(0.2);
+      expect(stored.metrics.customerSatisfactionScore).toBe(4.5);
+    });
+  });
+
+  describe('AppointmentRepository', () => {
+    it('should find open appointments overlapping a period by lead or agent', async () => {
+      const appointments = new AppointmentRepository(db);
+      const start = new Date('2024-07-01T09:00:00.000Z');
+      const end = new Date('2024-07-01T10:00:00.000Z');
+
+      await appointments.findOverlapping(LEAD_ID, ['agent-1'], start, end);
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain("status IN ('scheduled', 'confirmed', 'rescheduled')");
+      expect(sql).toContain("scheduled_at + duration_minutes * interval '1 minute' > $3");
+      expect(params).toEqual([LEAD_ID, ['agent-1'], start, end]);
+    });
+
+    it('should take schedule locks once each in sorted order', async () => {
+      const appointments = new AppointmentRepository(db);
+
+      await appointments.lockSchedule(['lead:b', 'agent:a', 'lead:b']);
+
+      expect(db.query.mock.calls.map((call) => call[1])).toEqual([
+        ['agent:a'],
+        ['lead:b'],
+      ]);
+    });
+  });
+
+  describe('Workflow repositories', () => {
+    it('should claim due callbacks without waiting on locked rows', async () => {
+      const callbacks = new CallbackRepository(db);
+      const now = new Date();
+
+      await callbacks.claimDue(now, 10);
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(sql).toContain('attempts < max_attempts');
+      expect(params).toEqual([now, 10]);
+    });
+
+    it('should only lock reminder rows of active sequences', async () => {
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            id: INTERACTION_ID,
+            sequence_id: 'sequence-1',
+            appointment_id: 'appointment-1',
+            lead_id: LEAD_ID,
+            type: 'sms',
+            scheduled_at: new Date('2024-01-01T08:00:00.000Z'),
+            status: 'pending',
+            content: 'Reminder',
+            sent_at: null,
+          },
+        ],
+      });
+      const reminderSequences = new ReminderSequenceRepository(db);
+
+      const [due] = await reminderSequences.claimDue(new Date(), 10);
+
+      expect(db.query.mock.calls[0][0]).toContain('FOR UPDATE OF r SKIP LOCKED');
+      expect(due).toMatchObject({
+        sequenceId: 'sequence-1',
+        appointmentId: 'appointment-1',
+        leadId: LEAD_ID,
+        reminder: { id: INTERACTION_ID, sentAt: undefined },
+      });
+    });
+
+    it('should insert a sequence together with its reminders', async () => {
+      const reminderSequences = new ReminderSequenceRepository(db);
+
+      await reminderSequences.create({
+        id: INTERACTION_ID,
+        appointmentId: LEAD_ID,
+        status: 'active',
+        createdAt: new Date(),
+        reminders: [
+          {
+            id: LEAD_ID,
+            type: 'email',
+            scheduledAt: new Date(),
+            status: 'pending',
+            content: 'Reminder',
+          },
+        ],
+      });
+
+      const statements = db.query.mock.calls.map((call) => call[0]);
+      expect(statements[0]).toContain('INSERT INTO reminder_sequences');
+      expect(statements[1]).toContain('INSERT INTO reminders');
+    });
+
+    it('should increment campaign counters atomically', async () => {
+      db.query.mockResolvedValue({ rows: [], rowCount: 1 });
+      const campaigns = new CampaignRepository(db);
+
+      expect(
+        await campaigns.incrementPerformance('campaign-1', 'appointmentsBooked')
+      ).toBe(true);
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('jsonb_set');
+      expect(params).toEqual(['campaign-1', 'appointmentsBooked', 1]);
+    });
+  });
+
+  describe('ConsentRepository', () => {
+    it('should append events and read back the latest per channel', async () => {
+      const recordedAt = new Date('2024-01-01T12:00:00.000Z');
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            id: INTERACTION_ID,
+            lead_id: LEAD_ID,
+            channel: 'sms',
+            action: 'opt_out',
+            source: 'inbound_keyword',
+            evidence: { keyword: 'STOP' },
+            recorded_at: recordedAt,
+          },
+        ],
+      });
+      const consent = new ConsentRepository(db);
+
+      const latest = await consent.findLatest(LEAD_ID, 'sms');
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('ORDER BY recorded_at DESC');
+      expect(params).toEqual([LEAD_ID, 'sms']);
+      expect(latest).toEqual({
+        id: INTERACTION_ID,
+        leadId: LEAD_ID,
+        channel: 'sms',
+        action: 'opt_out',
+        source: 'inbound_keyword',
+        evidence: { keyword: 'STOP' },
+        recordedAt,
+      });
+    });
+  });
+
+  describe('RoutingRuleRepository', () => {
+    it('should append the next version of a rule', async () => {
+      const createdAt = new Date('2024-01-01T12:00:00.000Z');
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            rule_id: 'vip-referral',
+            version: 3,
+            change: 'deleted',
+            definition: null,
+            restored_from_version: null,
+            changed_by: 'admin',
+            created_at: createdAt,
+          },
+        ],
+      });
+      const routingRules = new RoutingRuleRepository(db);
+
+      const version = await routingRules.append({
+        ruleId: 'vip-referral',
+        change: 'deleted',
+        definition: null,
+        changedBy: 'admin',
+        createdAt,
+      });
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('COALESCE(MAX(version), 0) + 1');
+      expect(params).toEqual([
+        'vip-referral',
+        'deleted',
+        null,
+        null,
+        'admin',
+        createdAt,
+      ]);
+      expect(version).toEqual({
+        ruleId: 'vip-referral',
+        version: 3,
+        change: 'deleted',
+        definition: null,
+        changedBy: 'admin',
+        createdAt,
+      });
+    });
+  });
+
+  describe('LeadAssignmentRepository', () => {
+    it('should read open assignments with their requirements', async () => {
+      const assignedAt = new Date('2024-01-01T12:00:00.000Z');
+      const acceptBy = new Date('2024-01-01T12:15:00.000Z');
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            id: INTERACTION_ID,
+            lead_id: LEAD_ID,
+            agent_id: 'agent-1',
+            strategy: 'least_loaded',
+            status: 'pending',
+            requirements: { language: 'pt' },
+            assigned_by: null,
+            assigned_at: assignedAt,
+            accept_by: acceptBy,
+            responded_at: null,
+            previous_assignment_id: null,
+          },
+        ],
+      });
+      const assignments = new LeadAssignmentRepository(db);
+
+      const open = await assignments.findOpen();
+
+      const [sql] = db.query.mock.calls[0];
+      expect(sql).toContain("status IN ('pending', 'accepted')");
+      expect(open).toEqual([
+        {
+          id: INTERACTION_ID,
+          leadId: LEAD_ID,
+          agentId: 'agent-1',
+          strategy: 'least_loaded',
+          status: 'pending',
+          requirements: { language: 'pt' },
+          assignedAt,
+          acceptBy,
+        },
+      ]);
+    });
+
+    it('should not insert a second open assignment of a lead', async () => {
+      const assignments = new LeadAssignmentRepository(db);
+
+      const created = await assignments.create({
+        id: INTERACTION_ID,
+        leadId: LEAD_ID,
+        agentId: 'agent-1',
+        strategy: 'least_loaded',
+        status: 'pending',
+        requirements: {},
+        assignedAt: new Date(),
+        acceptBy: new Date(),
+      });
+
+      const [sql] = db.query.mock.calls[0];
+      expect(sql).toContain(
+        "ON CONFLICT (lead_id) WHERE status IN ('pending', 'accepted') DO NOTHING"
+      );
+      expect(created).toBeNull();
+    });
+
+    it('should count open assignments per agent', async () => {
+      db.query.mockResolvedValue({ rows: [{ agent_id: 'agent-1', open: 2 }] });
+      const assignments = new LeadAssignmentRepository(db);
+
+      const counts = await assignments.countOpenByAgent('agent-1');
+
+      expect(db.query.mock.calls[0][1]).toEqual(['agent-1']);
+      expect(counts).toEqual(new Map([['agent-1', 2]]));
+    });
+  });
+
+  describe('ResponseSlaRepository', () => {
+    it('should upsert the SLA of a lead by lead ID', async () => {
+      const startedAt = new Date('2024-01-01T12:00:00.000Z');
+      const dueAt = new Date('2024-01-01T12:01:00.000Z');
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            lead_id: LEAD_ID,
+            source: 'website',
+            status: 'breached',
+            started_at: startedAt,
+            due_at: dueAt,
+            first_touch_at: null,
+            first_touch_interaction_id: null,
+            first_touch_agent_id: null,
+            assigned_agent_id: 'agent-1',
+            breached_at: dueAt,
+            escalation_level: 1,
+          },
+        ],
+      });
+      const slas = new ResponseSlaRepository(db);
+
+      const saved = await slas.save({
+        leadId: LEAD_ID,
+        source: 'website',
+        status: 'breached',
+        startedAt,
+        dueAt,
+        assignedAgentId: 'agent-1',
+        breachedAt: dueAt,
+        escalationLevel: 1,
+      });
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (lead_id) DO UPDATE');
+      expect(params[5]).toBeNull();
+      expect(saved).toEqual({
+        leadId: LEAD_ID,
+        source: 'website',
+        status: 'breached',
+        startedAt,
+        dueAt,
+        assignedAgentId: 'agent-1',
+        breachedAt: dueAt,
+        escalationLevel: 1,
+      });
+    });
+  });
+
+  describe('TranscriptRepository', () => {
+    const createdAt = new Date('2024-01-01T12:00:00.000Z');
+    const transcriptRow = {
+      interaction_id: INTERACTION_ID,
+      lead_id: LEAD_ID,
+      session_id: 'vsa-1',
+      channel: 'call',
+      turns: [
+        {
+          speaker: 'customer',
+          text: 'Is financing available?',
+          timestamp: createdAt.toISOString(),
+          confidence: 0.9,
+        },
+        { speaker: 'agent', text: 'Yes it is.', timestamp: createdAt.toISOString() },
+      ],
+      recording_url: 'https://recordings.example.com/vsa-1.wav',
+      recording_content_type: 'audio/wav',
+      recording_duration_seconds: null,
+      redactions: 0,
+      created_at: createdAt,
+    };
+
+    it('should store the turns with their text for full-text search', async () => {
+      db.query.mockResolvedValue({ rows: [transcriptRow] });
+      const transcripts = new TranscriptRepository(db);
+
+      const saved = await transcripts.save({
+        interactionId: INTERACTION_ID,
+        leadId: LEAD_ID,
+        sessionId: 'vsa-1',
+        channel: 'call',
+        turns: [],
+        redactions: 0,
+        createdAt,
+      });
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (interaction_id) DO UPDATE');
+      expect(params[6]).toBeNull();
+      expect(saved.turns[0].timestamp).toEqual(createdAt);
+      expect(saved.recording).toEqual({
+        url: 'https://recordings.example.com/vsa-1.wav',
+        contentType: 'audio/wav',
+      });
+    });
+
+    it('should search with filters and point out the matching turns', async () => {
+      db.query.mockResolvedValue({
+        rows: [{ ...transcriptRow, snippet: 'Is <b>financing</b> available?' }],
+      });
+      const transcripts = new TranscriptRepository(db);
+
+      const hits = await transcripts.search('financing -cash', {
+        channel: 'call',
+        from: createdAt,
+        limit: 5,
+      });
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain("websearch_to_tsquery('simple', $1)");
+      expect(sql).toContain('channel = $2 AND created_at >= $3');
+      expect(sql).toContain('LIMIT $4');
+      expect(params).toEqual(['financing -cash', 'call', createdAt, 5]);
+      expect(hits).toHaveLength(1);
+      expect(hits[0].snippet).toBe('Is <b>financing</b> available?');
+      expect(hits[0].matchingTurns.map((turn) => turn.text)).toEqual([
+        'Is financing available?',
+      ]);
+    });
+  });
+
+  describe('JobRepository', () => {
+    const JOB_ID = '7a8b9c0d-1e2f-4a3b-8c4d-5e6f7a8b9c0d';
+    const runAt = new Date('2024-01-01T12:00:00.000Z');
+    const jobRow = {
+      id: JOB_ID,
+      type: 'lead-generation.sequence-step',
+      payload: { sequence: { id: 'cold-1' } },
+      status: 'pending',
+      attempts: 0,
+      max_attempts: 5,
+      run_at: runAt,
+      idempotency_key: 'cold-1:step:1',
+      locked_by: null,
+      locked_until: null,
+      last_error: null,
+      created_at: runAt,
+      updated_at: runAt,
+      completed_at: null,
+    };
+
+    it('should return the existing job when the idempotency key is taken', async () => {
+      db.query
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [jobRow] });
+      const jobs = new JobRepository(db);
+
+      const job = await jobs.enqueue({
+        id: '0b1c2d3e-4f50-4a6b-8c7d-8e9f0a1b2c3d',
+        type: 'lead-generation.sequence-step',
+        payload: { sequence: { id: 'cold-1' } },
+        status: 'pending',
+        attempts: 0,
+        maxAttempts: 5,
+        runAt,
+        idempotencyKey: 'cold-1:step:1',
+        createdAt: runAt,
+        updatedAt: runAt,
+      });
+
+      expect(db.query.mock.calls[0][0]).toContain(
+        'ON CONFLICT (idempotency_key) DO NOTHING'
+      );
+      expect(db.query.mock.calls[1][1]).toEqual(['cold-1:step:1']);
+      expect(job).toMatchObject({ id: JOB_ID, idempotencyKey: 'cold-1:step:1' });
+    });
+
+    it('should lease due jobs and jobs whose lease ran out', async () => {
+      const lockedUntil = new Date('2024-01-01T12:05:00.000Z');
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            ...jobRow,
+            status: 'running',
+            attempts: 1,
+            locked_by: 'worker-1',
+            locked_until: lockedUntil,
+          },
+        ],
+      });
+      const jobs = new JobRepository(db);
+
+      const claimed = await jobs.claimDue('worker-1', runAt, lockedUntil, 10);
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain("(status = 'running' AND locked_until <= $2)");
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(params).toEqual(['worker-1', runAt, lockedUntil, 10]);
+      expect(claimed[0]).toMatchObject({
+        status: 'running',
+        attempts: 1,
+        lockedBy: 'worker-1',
+      });
+    });
+  });
+
+  describe('OutboxRepository', () => {
+    const EVENT_ID = '5d6e7f80-9a1b-4c2d-8e3f-4a5b6c7d8e9f';
+    const occurredAt = new Date('2024-01-01T12:00:00.000Z');
+
+    it('should record an event in the same statement as the lead it belongs to', async () => {
+      db.query.mockResolvedValue({ rows: [leadRow] });
+      const leads = new LeadRepository(db);
+
+      await leads.create(mapLeadRow(leadRow as any));
+
+      expect(db.query).toHaveBeenCalledTimes(1);
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toMatch(/^WITH saved AS \(INSERT INTO leads/);
+      expect(sql).toContain('INSERT INTO outbox_events');
+      expect(sql).toContain('to_jsonb(saved)');
+      expect(params.slice(-2)).toEqual(['lead_created', 'lead']);
+      expect(params).toHaveLength(LEAD_COLUMNS.length + 2);
+    });
+
+    it('should lease unpublished events that are due', async () => {
+      const lockedUntil = new Date('2024-01-01T12:01:00.000Z');
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            id: EVENT_ID,
+            event_type: 'appointment_scheduled',
+            aggregate_type: 'appointment',
+            aggregate_id: 'appointment-1',
+            payload: { status: 'scheduled' },
+            occurred_at: occurredAt,
+            attempts: 1,
+            delivered_to: [],
+            next_attempt_at: lockedUntil,
+            last_error: null,
+            published_at: null,
+          },
+        ],
+      });
+      const outbox = new OutboxRepository(db);
+
+      const [event] = await outbox.claimDue(occurredAt, lockedUntil, 50);
+
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('published_at IS NULL AND next_attempt_at <= $1');
+      expect(sql).toContain('FOR UPDATE SKIP LOCKED');
+      expect(params).toEqual([occurredAt, lockedUntil, 50]);
+      expect(event).toMatchObject({
+        id: EVENT_ID,
+        type: 'appointment_scheduled',
+        aggregateId: 'appointment-1',
+        deliveredTo: [],
+        lastError: undefined,
+      });
+    });
+  });
+
+  describe('WebhookSubscriptionRepository', () => {
+    it('should count failures and disable the subscription in one statement', async () => {
+      const at = new Date('2024-01-01T12:00:00.000Z');
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            id: '1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f',
+            url: 'https://partner.example.com/hooks',
+            description: null,
+            event_types: ['lead_created'],
+            filter: null,
+            secret: 'whsec_test',
+            status: 'disabled',
+            consecutive_failures: 20,
+            disabled_at: at,
+            disabled_reason: 'Disabled after 20 failed deliveries in a row',
+            created_at: at,
+            updated_at: at,
+          },
+        ],
+      });
+      const subscriptions = new WebhookSubscriptionRepository(db);
+
+      const updated = await subscriptions.recordFailure(
+        '1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f',
+        20,
+        at
+      );
+
+      expect(db.query).toHaveBeenCalledTimes(1);
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('consecutive_failures = consecutive_failures + 1');
+      expect(sql).toContain(
+        "CASE WHEN consecutive_failures + 1 >= $2 THEN 'disabled'"
+      );
+      expect(params).toEqual(['1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f', 20, at]);
+      expect(updated).toMatchObject({ status: 'disabled', filter: undefined });
+    });
+  });
+
+  describe('FieldMappingProfileRepository', () => {
+    it('should store mappings and defaults as JSON and look profiles up by endpoint', async () => {
+      const at = new Date('2024-01-01T12:00:00.000Z');
+      const profile = {
+        id: '5d6e7f80-1a2b-4c3d-9e4f-5a6b7c8d9e0f',
+        name: 'typeform-buyers',
+        integration: 'zapier' as const,
+        leadSource: 'website',
+        mappings: [
+          { source: '$.answers.email', target: 'contactInfo.email' as const },
+        ],
+        defaults: { leadType: 'warm' },
+        createdAt: at,
+        updatedAt: at,
+      };
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            id: profile.id,
+            name: profile.name,
+            integration: 'zapier',
+            description: null,
+            lead_source: 'website',
+            source_id_path: null,
+            mappings: profile.mappings,
+            defaults: profile.defaults,
+            created_at: at,
+            updated_at: at,
+          },
+        ],
+      });
+      const profiles = new FieldMappingProfileRepository(db);
+
+      expect(await profiles.create(profile)).toEqual({
+        ...profile,
+        description: undefined,
+        sourceIdPath: undefined,
+      });
+      const [, params] = db.query.mock.calls[0];
+      expect(params[6]).toBe(JSON.stringify(profile.mappings));
+      expect(params[7]).toBe('{"leadType":"warm"}');
+
+      await profiles.findByName('zapier', 'typeform-buyers');
+      expect(db.query.mock.calls[1][1]).toEqual(['zapier', 'typeform-buyers']);
+    });
+  });
+
+  describe('AgentSessionRepository', () => {
+    it('should upsert session state and find the lead\'s active session', async () => {
+      const at = new Date('2024-01-01T12:00:00.000Z');
+      const session = {
+        id: 'session-1',
+        kind: 'feedback' as const,
+        leadId: LEAD_ID,
+        status: 'active',
+        state: { id: 'session-1', currentQuestionIndex: 2 },
+        startedAt: at,
+        updatedAt: at,
+      };
+      const sessions = new AgentSessionRepository(db);
+
+      await sessions.save(session);
+      const [sql, params] = db.query.mock.calls[0];
+      expect(sql).toContain('ON CONFLICT (id) DO UPDATE');
+      expect(params[4]).toBe('{"id":"session-1","currentQuestionIndex":2}');
+
+      db.query.mockResolvedValue({
+        rows: [
+          {
+            id: 'session-1',
+            kind: 'feedback',
+            lead_id: LEAD_ID,
+            status: 'active',
+            state: session.state,
+            started_at: at,
+            updated_at: at,
+          },
+        ],
+      });
+
+      expect(await sessions.findActiveForLead('feedback', LEAD_ID)).toEqual(
+        session
+      );
+      expect(db.query.mock.calls[1][1]).toEqual(['feedback', LEAD_ID]);
+    });
+  });
+
+  describe('SyncCursorRepository', () => {
+    it('should move the cursor and return its previous position', async () => {
+      const cursors = new SyncCursorRepository(db);
+
+      expect(await cursors.advance('gmail:sales@example.com', '100')).toBeNull();
+
+      db.query.mockResolvedValue({ rows: [{ previous_position: '100' }] });
+      expect(await cursors.advance('gmail:sales@example.com', '105')).toBe(
+        '100'
+      );
+
+      const [sql, params] = db.query.mock.calls[1];
+      expect(sql).toContain('FOR UPDATE');
+      expect(sql).toContain('ON CONFLICT (name) DO UPDATE');
+      expect(params).toEqual(['gmail:sales@example.com', '105']);
+    });
+  });
+
+  describe('withRepositories', () => {
+    const createManager = () => {
+      const client = {
+        query: vi.fn().mockResolvedValue({ rows: [] }),
+        release: vi.fn(),
+      };
+      const dbManager = {
+        transaction: async (work: (c: typeof client) => Promise<unknown>) => {
+          await client.query('BEGIN');
+          try {
+            const result = await work(client);
+            await client.query('COMMIT');
+            return result;
+          } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+          }
+        },
+      };
+      return { client, dbManager };
+    };
+
+    it('should run repositories on the transaction client', async () => {
+      const { client, dbManager } = createManager();
+
+      await withRepositories(dbManager as any, ({ leads }) => leads.delete(LEAD_ID));
+
+      expect(client.query.mock.calls.map((call) => call[0])).toEqual([
+        'BEGIN',
+        expect.stringContaining('DELETE FROM leads WHERE id = $1'),
+        'COMMIT',
+      ]);
+    });
+
+    it('should roll back when the work fails', async () => {
+      const { client, dbManager } = createManager();
+
+      await expect(
+        withRepositories(dbManager as any, async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+    });
+  });
+});
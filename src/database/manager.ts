@@ -6,6 +6,10 @@ import { Pool, PoolClient, QueryResult } from 'pg';
 import { createClient, RedisClientType } from 'redis';
 import { config } from '../config/environment';
 import { logger } from '../utils/logger';
+import { MigrationRunner } from './migration-runner';
+import { migrations } from './migrations';
+import { withOutboxEvent } from './repositories/outbox-repository';
+import type { Queryable } from './repositories/queryable';
 
 export interface LeadPayload {
   source: string;
@@ -33,6 +37,79 @@ export interface LeadRecord extends LeadPayload {
   updated_at: Date;
 }
 
+export interface LeadListFilters {
+  status?: string[];
+  lead_type?: string[];
+  source?: string[];
+  assigned_agent?: string[];
+  created_from?: Date;
+  created_to?: Date;
+  search?: string;
+  cursor?: string;
+  limit?: number;
+}
+
+export interface LeadPage {
+  leads: LeadRecord[];
+  nextCursor: string | null;
+}
+
+// Columns that may be written through updateLead
+const UPDATABLE_LEAD_COLUMNS: (keyof LeadPayload)[] = [
+  'source',
+  'name',
+  'email',
+  'phone',
+  'preferred_channel',
+  'timezone',
+  'lead_type',
+  'urgency_level',
+  'intent_signals',
+  'budget_min',
+  'budget_max',
+  'location',
+  'property_type',
+  'timeline',
+  'qualification_score',
+  'status',
+  'assigned_agent',
+];
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Encode the keyset position of a lead into an opaque pagination cursor
+ */
+export function encodeLeadCursor(lead: Pick<LeadRecord, 'id' | 'created_at'>): string {
+  return Buffer.from(
+    JSON.stringify({ c: new Date(lead.created_at).toISOString(), i: lead.id })
+  ).toString('base64url');
+}
+
+/**
+ * Decode a pagination cursor, returning null when it is malformed
+ */
+export function decodeLeadCursor(
+  cursor: string
+): { createdAt: Date; id: string } | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const createdAt = new Date(decoded.c);
+    if (typeof decoded.i !== 'string' || isNaN(createdAt.getTime())) {
+      return null;
+    }
+    return { createdAt, id: decoded.i };
+  } catch {
+    return null;
+  }
+}
+
+export interface InitializeOptions {
+  /** Apply pending migrations after connecting (default: true) */
+  runMigrations?: boolean;
+}
+
 export class DatabaseManager {
   private pgPool: Pool;
   private redisClient: RedisClientType;
@@ -59,10 +136,12 @@ export class DatabaseManager {
   // Exemplo:
   // import serviceAccount from '../../curriculo-d1dc4-firebase-adminsdk-fbsvc-76f87d1233.json';
   // url: serviceAccount.token_uri,
+      socket: { host: config.REDIS_HOST, port: config.REDIS_PORT },
     });
   }
 
-  async initialize(): Promise<void> {
+  async initialize(options: InitializeOptions = {}): Promise<void> {
+    const { runMigrations = true } = options;
     try {
       const client = await this.pgPool.connect();
       logger.info('PostgreSQL connection established');
@@ -71,7 +150,9 @@ export class DatabaseManager {
       await this.redisClient.connect();
       logger.info('Redis connection established');
 
-      await this.runMigrations();
+      if (runMigrations) {
+        await this.runMigrations();
+      }
     } catch (error) {
       logger.error('Database initialization failed:', error);
       throw error;
@@ -106,9 +187,31 @@ export class DatabaseManager {
   }
 
   /**
-   * Inserts a new lead into the leads table and returns it.
+   * Runs work on a single connection inside BEGIN/COMMIT, rolling back if it throws.
+   */
+  async transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client: PoolClient = await this.pgPool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work(client);
+      await client.query('COMMIT');
+      return result;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Inserts a new lead into the leads table and returns it. Pass a
+   * transaction's client as db to insert it inside that transaction.
    */
-  async createLead(payload: LeadPayload): Promise<LeadRecord> {
+  async createLead(
+    payload: LeadPayload,
+    db: Queryable = this
+  ): Promise<LeadRecord> {
     const {
       source,
       name,
@@ -129,217 +232,219 @@ export class DatabaseManager {
       assigned_agent,
     } = payload;
 
-    const result = await this.query(
-      `
-      INSERT INTO leads (
-        source,
-        name,
-        email,
-        phone,
-        preferred_channel,
-        timezone,
-        lead_type,
-        urgency_level,
-        intent_signals,
-        budget_min,
-        budget_max,
-        location,
-        property_type,
-        timeline,
-        qualification_score,
-        status,
-        assigned_agent
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
-        $11, $12, $13, $14, $15, $16, $17
+    const result = await db.query(
+      ...withOutboxEvent(
+        `
+        INSERT INTO leads (
+          source,
+          name,
+          email,
+          phone,
+          preferred_channel,
+          timezone,
+          lead_type,
+          urgency_level,
+          intent_signals,
+          budget_min,
+          budget_max,
+          location,
+          property_type,
+          timeline,
+          qualification_score,
+          status,
+          assigned_agent
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
+          $11, $12, $13, $14, $15, $16, $17
+        )
+        RETURNING *;
+      `,
+        [
+          source,
+          name,
+          email,
+          phone,
+          preferred_channel,
+          timezone,
+          lead_type,
+          urgency_level,
+          intent_signals,
+          budget_min,
+          budget_max,
+          location,
+          property_type,
+          timeline,
+          qualification_score,
+          status,
+          assigned_agent,
+        ],
+        'lead_created',
+        'lead'
       )
-      RETURNING *;
-    `,
-      [
-        source,
-        name,
-        email,
-        phone,
-        preferred_channel,
-        timezone,
-        lead_type,
-        urgency_level,
-        intent_signals,
-        budget_min,
-        budget_max,
-        location,
-        property_type,
-        timeline,
-        qualification_score,
-        status,
-        assigned_agent,
-      ]
     );
 
     return result.rows[0] as LeadRecord;
   }
 
-  private async runMigrations(): Promise<void> {
-    try {
-      logger.info('Running database migrations...');
+  /**
+   * Fetches a single lead by id, or null when it does not exist.
+   */
+  async getLeadById(id: string): Promise<LeadRecord | null> {
+    const result = await this.query('SELECT * FROM leads WHERE id = $1', [id]);
+    return (result.rows[0] as LeadRecord) || null;
+  }
+
+  /**
+   * Lists leads newest first using keyset (cursor) pagination.
+   */
+  async listLeads(filters: LeadListFilters = {}): Promise<LeadPage> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    const addCondition = (sql: (placeholder: string) => string, value: any) => {
+      params.push(value);
+      conditions.push(sql(`$${params.length}`));
+    };
+
+    if (filters.status?.length) {
+      addCondition((p) => `status = ANY(${p})`, filters.status);
+    }
+    if (filters.lead_type?.length) {
+      addCondition((p) => `lead_type = ANY(${p})`, filters.lead_type);
+    }
+    if (filters.source?.length) {
+      addCondition((p) => `source = ANY(${p})`, filters.source);
+    }
+    if (filters.assigned_agent?.length) {
+      addCondition((p) => `assigned_agent = ANY(${p})`, filters.assigned_agent);
+    }
+    if (filters.created_from) {
+      addCondition((p) => `created_at >= ${p}`, filters.created_from);
+    }
+    if (filters.created_to) {
+      addCondition((p) => `created_at <= ${p}`, filters.created_to);
+    }
 
-      await this.query(`
-        CREATE TABLE IF NOT EXISTS migrations (
-          id SERIAL PRIMARY KEY,
-          name VARCHAR(255) NOT NULL UNIQUE,
-          executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    const search = filters.search?.trim();
+    if (search) {
+      const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+      const digits = search.replace(/\D/g, '');
+      params.push(pattern);
+      const textPlaceholder = `$${params.length}`;
+      const clauses = [
+        `name ILIKE ${textPlaceholder}`,
+        `email ILIKE ${textPlaceholder}`,
+        `phone ILIKE ${textPlaceholder}`,
+      ];
+      if (digits.length >= 3) {
+        params.push(`%${digits}%`);
+        clauses.push(
+          `regexp_replace(phone, '\\D', '', 'g') LIKE $${params.length}`
         );
-      `);
+      }
+      conditions.push(`(${clauses.join(' OR ')})`);
+    }
 
-      const migrationName = '001_initial_schema';
-      const check = await this.query(
-        'SELECT 1 FROM migrations WHERE name = $1',
-        [migrationName]
+    if (filters.cursor) {
+      const position = decodeLeadCursor(filters.cursor);
+      if (!position) {
+        throw new Error('Invalid pagination cursor');
+      }
+      params.push(position.createdAt, position.id);
+      conditions.push(
+        `(date_trunc('milliseconds', created_at), id) < ($${params.length - 1}, $${params.length})`
       );
+    }
 
-        if (check.rows.length === 0) {
-          await this.createInitialSchema();
-          await this.query(
-            'INSERT INTO migrations (name, executed_at) VALUES ($1, CURRENT_TIMESTAMP)',
-            [migrationName]
-          );
-          logger.info('Initial schema migration completed');
-        } else {
-          logger.info('Database schema is up to date');
-        }
-    } catch (error) {
-      logger.error('Migration failed:', error);
-      throw error;
+    const limit = Math.min(
+      Math.max(filters.limit || DEFAULT_PAGE_SIZE, 1),
+      MAX_PAGE_SIZE
+    );
+    // Fetch one extra row to know whether another page exists
+    params.push(limit + 1);
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const result = await this.query(
+      `
+      SELECT * FROM leads
+      ${where}
+      ORDER BY date_trunc('milliseconds', created_at) DESC, id DESC
+      LIMIT $${params.length};
+    `,
+      params
+    );
+
+    const rows = result.rows as LeadRecord[];
+    const leads = rows.slice(0, limit);
+    const nextCursor =
+      rows.length > limit ? encodeLeadCursor(leads[leads.length - 1]) : null;
+
+    return { leads, nextCursor };
+  }
+
+  /**
+   * Applies a partial update to a lead and returns the updated row,
+   * or null when the lead does not exist.
+   */
+  async updateLead(
+    id: string,
+    changes: Partial<LeadPayload>
+  ): Promise<LeadRecord | null> {
+    const columns = UPDATABLE_LEAD_COLUMNS.filter(
+      (column) => changes[column] !== undefined
+    );
+
+    if (columns.length === 0) {
+      return this.getLeadById(id);
     }
+
+    const assignments = columns.map((column, index) => `${column} = $${index + 2}`);
+    const result = await this.query(
+      ...withOutboxEvent(
+        `UPDATE leads SET ${assignments.join(', ')} WHERE id = $1 RETURNING *;`,
+        [id, ...columns.map((column) => changes[column])],
+        'lead_updated',
+        'lead'
+      )
+    );
+
+    return (result.rows[0] as LeadRecord) || null;
   }
 
-  private async createInitialSchema(): Promise<void> {
-    const client = await this.pgPool.connect();
-    try {
-      await client.query('BEGIN');
+  /**
+   * Deletes a lead (interactions cascade) and records lead_deleted with the
+   * lead as it was, in the same statement. Returns false when nothing was
+   * deleted.
+   */
+  async deleteLead(id: string): Promise<boolean> {
+    const result = await this.query(
+      ...withOutboxEvent(
+        'DELETE FROM leads WHERE id = $1 RETURNING *',
+        [id],
+        'lead_deleted',
+        'lead'
+      )
+    );
+    return result.rows.length > 0;
+  }
 
-      // Create leads table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS leads (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          source VARCHAR(50) NOT NULL,
-          name VARCHAR(255) NOT NULL,
-          email VARCHAR(255),
-          phone VARCHAR(50),
-          preferred_channel VARCHAR(20) DEFAULT 'email',
-          timezone VARCHAR(50) DEFAULT 'UTC',
-          lead_type VARCHAR(20) NOT NULL CHECK (lead_type IN ('hot', 'warm', 'cold')),
-          urgency_level INTEGER DEFAULT 1 CHECK (urgency_level BETWEEN 1 AND 10),
-          intent_signals TEXT[],
-          budget_min INTEGER,
-          budget_max INTEGER,
-          location VARCHAR(255),
-          property_type VARCHAR(100),
-          timeline VARCHAR(100),
-          qualification_score DECIMAL(3,2) DEFAULT 0.0,
-          status VARCHAR(50) DEFAULT 'new',
-          assigned_agent VARCHAR(100),
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );
-      `);
-
-      // Create interactions table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS interactions (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
-          agent_id VARCHAR(100) NOT NULL,
-          type VARCHAR(20) NOT NULL CHECK (type IN ('call', 'sms', 'email', 'whatsapp')),
-          direction VARCHAR(10) NOT NULL CHECK (direction IN ('inbound', 'outbound')),
-          content TEXT,
-          outcome_status VARCHAR(20) DEFAULT 'pending',
-          appointment_booked BOOLEAN DEFAULT FALSE,
-          qualification_updated BOOLEAN DEFAULT FALSE,
-          escalation_required BOOLEAN DEFAULT FALSE,
-          duration_seconds INTEGER,
-          sentiment_score DECIMAL(3,2),
-          next_action TEXT,
-          next_action_scheduled_at TIMESTAMP,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
-        );
-      `);
-
-      // Create agent_performance table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS agent_performance (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          agent_id VARCHAR(100) NOT NULL,
-          period_start DATE NOT NULL,
-          period_end DATE NOT NULL,
-          total_interactions INTEGER DEFAULT 0,
-          conversion_rate DECIMAL(5,4) DEFAULT 0.0,
-          average_response_time_ms INTEGER DEFAULT 0,
-          appointment_booking_rate DECIMAL(5,4) DEFAULT 0.0,
-          customer_satisfaction_score DECIMAL(3,2) DEFAULT 0.0,
-          script_performance JSONB,
-          optimization_suggestions TEXT[],
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          UNIQUE(agent_id, period_start, period_end)
-        );
-      `);
-
-      // Create audit_logs table
-      await client.query(`
-        CREATE TABLE IF NOT EXISTS audit_logs (
-          id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-          entity_type VARCHAR(50) NOT NULL CHECK (entity_type IN ('lead', 'interaction', 'sync')),
-          entity_id VARCHAR(255) NOT NULL,
-          action VARCHAR(50) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'sync')),
-          changes JSONB NOT NULL,
-          user_id VARCHAR(100),
-          agent_id VARCHAR(100) NOT NULL,
-          timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
-          metadata JSONB DEFAULT '{}'::jsonb
-        );
-      `);
-
-      // Indexes for performance
-      await client.query('CREATE INDEX IF NOT EXISTS idx_leads_source ON leads(source);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_leads_type ON leads(lead_type);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads(created_at);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_interactions_lead_id ON interactions(lead_id);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_interactions_agent_id ON interactions(agent_id);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_interactions_created_at ON interactions(created_at);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_agent_performance_agent_id ON agent_performance(agent_id);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_agent_performance_period ON agent_performance(period_start, period_end);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON audit_logs(entity_type, entity_id);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);');
-      await client.query('CREATE INDEX IF NOT EXISTS idx_audit_logs_agent_id ON audit_logs(agent_id);');
-
-      // Trigger to update updated_at on modifications
-      await client.query(`
-        CREATE OR REPLACE FUNCTION update_updated_at_column()
-        RETURNS TRIGGER AS $$
-        BEGIN
-          NEW.updated_at = CURRENT_TIMESTAMP;
-          RETURN NEW;
-        END;
-        $$ LANGUAGE plpgsql;
-      `);
-
-      await client.query(`
-        DROP TRIGGER IF EXISTS update_leads_updated_at ON leads;
-        CREATE TRIGGER update_leads_updated_at
-          BEFORE UPDATE ON leads
-          FOR EACH ROW
-          EXECUTE FUNCTION update_updated_at_column();
-      `);
+  /**
+   * Migration runner bound to this manager's connection pool.
+   */
+  getMigrationRunner(): MigrationRunner {
+    return new MigrationRunner(this.pgPool, migrations);
+  }
 
-      await client.query('COMMIT');
-      logger.info('Database schema created successfully');
+  private async runMigrations(): Promise<void> {
+    try {
+      logger.info('Running database migrations...');
+      const applied = await this.getMigrationRunner().migrate();
+      if (applied.length > 0) {
+        logger.info(`Applied ${applied.length} migration(s): ${applied.join(', ')}`);
+      }
     } catch (error) {
-      await client.query('ROLLBACK');
-      logger.error('Schema creation failed:', error);
+      logger.error('Migration failed:', error);
       throw error;
-    } finally {
-      client.release();
     }
   }
 }
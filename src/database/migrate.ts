@@ -1,21 +1,64 @@
 import { DatabaseManager } from './manager';
 import { logger } from '../utils/logger';
 
-async function runMigrations() {
+type MigrationCommand = 'migrate' | 'rollback' | 'status';
+
+async function runMigrationCommand(command: MigrationCommand, args: string[]) {
   const dbManager = new DatabaseManager();
 
   try {
-    logger.info('Starting database migrations...');
-    await dbManager.initialize();
-    logger.info('Database migrations completed successfully');
+    await dbManager.initialize({ runMigrations: false });
+    const runner = dbManager.getMigrationRunner();
+
+    switch (command) {
+      case 'migrate': {
+        logger.info('Starting database migrations...');
+        const applied = await runner.migrate();
+        logger.info(
+          `Database migrations completed successfully (${applied.length} applied)`
+        );
+        break;
+      }
+      case 'rollback': {
+        const steps = args[0] ? Number(args[0]) : 1;
+        const rolledBack = await runner.rollback(steps);
+        logger.info(
+          rolledBack.length > 0
+            ? `Rolled back: ${rolledBack.join(', ')}`
+            : 'No migrations to roll back'
+        );
+        break;
+      }
+      case 'status': {
+        const statuses = await runner.status();
+        for (const status of statuses) {
+          const state = !status.applied
+            ? 'pending'
+            : status.checksumMatches
+              ? `applied ${status.executedAt?.toISOString()}`
+              : 'applied (CHECKSUM MISMATCH)';
+          logger.info(`${status.name}: ${state}`);
+        }
+        break;
+      }
+    }
   } catch (error) {
-    logger.error('Migration failed:', error);
-    process.exit(1);
+    logger.error(`Migration command "${command}" failed:`, error);
+    process.exitCode = 1;
   } finally {
     await dbManager.close();
   }
 }
 
 if (require.main === module) {
-  runMigrations();
+  const [command = 'migrate', ...args] = process.argv.slice(2);
+
+  if (!['migrate', 'rollback', 'status'].includes(command)) {
+    logger.error(
+      `Unknown migration command "${command}". Use migrate, rollback [steps] or status.`
+    );
+    process.exit(1);
+  }
+
+  runMigrationCommand(command as MigrationCommand, args);
 }
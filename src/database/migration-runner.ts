@@ -0,0 +1,258 @@
+import { createHash } from 'crypto';
+import { Pool, PoolClient } from 'pg';
+import { logger } from '../utils/logger';
+
+/**
+ * A single schema migration. Statements are executed one by one inside a
+ * transaction; `down` must undo everything `up` created.
+ */
+export interface Migration {
+  name: string;
+  up: string[];
+  down: string[];
+}
+
+export interface MigrationStatus {
+  name: string;
+  checksum: string;
+  applied: boolean;
+  executedAt?: Date;
+  checksumMatches?: boolean;
+}
+
+interface AppliedMigration {
+  name: string;
+  checksum: string | null;
+  executed_at: Date;
+}
+
+// Arbitrary but stable key shared by every instance running migrations
+const MIGRATION_LOCK_KEY = 4_815_162_342;
+
+const MIGRATION_NAME_PATTERN = /^\d{3,}_[a-z0-9_]+$/;
+
+/**
+ * Compute the checksum recorded for a migration when it is applied
+ */
+export function migrationChecksum(migration: Migration): string {
+  return createHash('sha256')
+    .update(JSON.stringify({ up: migration.up, down: migration.down }))
+    .digest('hex');
+}
+
+/**
+ * Migration Runner - Applies, verifies and rolls back versioned schema migrations
+ *
+ * Responsibilities:
+ * - Apply pending migrations in order, each in its own transaction
+ * - Verify applied migrations against their recorded checksums
+ * - Roll back the most recently applied migrations
+ * - Serialize concurrent runs across instances with a Postgres advisory lock
+ */
+export class MigrationRunner {
+  private migrations: Migration[];
+
+  constructor(private pool: Pool, migrations: Migration[]) {
+    this.migrations = MigrationRunner.validateMigrations(migrations);
+  }
+
+  /**
+   * Apply every pending migration. Returns the names that were applied.
+   */
+  async migrate(): Promise<string[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.verifyApplied(client);
+      const pending = this.migrations.filter((m) => !applied.has(m.name));
+
+      if (pending.length === 0) {
+        logger.info('Database schema is up to date');
+        return [];
+      }
+
+      for (const migration of pending) {
+        await this.inTransaction(client, async () => {
+          for (const statement of migration.up) {
+            await client.query(statement);
+          }
+          await client.query(
+            'INSERT INTO migrations (name, checksum, executed_at) VALUES ($1, $2, CURRENT_TIMESTAMP)',
+            [migration.name, migrationChecksum(migration)]
+          );
+        });
+        logger.info(`Applied migration ${migration.name}`);
+      }
+
+      return pending.map((m) => m.name);
+    });
+  }
+
+  /**
+   * Roll back the last `steps` applied migrations. Returns the names rolled back.
+   */
+  async rollback(steps = 1): Promise<string[]> {
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error('Rollback steps must be a positive integer');
+    }
+
+    return this.withLock(async (client) => {
+      const applied = await this.verifyApplied(client);
+      const targets = this.migrations
+        .filter((m) => applied.has(m.name))
+        .reverse()
+        .slice(0, steps);
+
+      for (const migration of targets) {
+        await this.inTransaction(client, async () => {
+          for (const statement of migration.down) {
+            await client.query(statement);
+          }
+          await client.query('DELETE FROM migrations WHERE name = $1', [
+            migration.name,
+          ]);
+        });
+        logger.info(`Rolled back migration ${migration.name}`);
+      }
+
+      return targets.map((m) => m.name);
+    });
+  }
+
+  /**
+   * Report which migrations are applied and whether their checksums still match
+   */
+  async status(): Promise<MigrationStatus[]> {
+    return this.withLock(async (client) => {
+      const applied = await this.loadApplied(client);
+
+      return this.migrations.map((migration) => {
+        const checksum = migrationChecksum(migration);
+        const row = applied.get(migration.name);
+
+        if (!row) {
+          return { name: migration.name, checksum, applied: false };
+        }
+
+        return {
+          name: migration.name,
+          checksum,
+          applied: true,
+          executedAt: row.executed_at,
+          checksumMatches: row.checksum === null || row.checksum === checksum,
+        };
+      });
+    });
+  }
+
+  /**
+   * Ensure every applied migration is known and unchanged. Rows recorded
+   * before checksums existed are backfilled with the current checksum.
+   */
+  private async verifyApplied(
+    client: PoolClient
+  ): Promise<Map<string, AppliedMigration>> {
+    const applied = await this.loadApplied(client);
+    const known = new Map(this.migrations.map((m) => [m.name, m]));
+
+    for (const row of applied.values()) {
+      const migration = known.get(row.name);
+      if (!migration) {
+        throw new Error(
+          `Applied migration ${row.name} has no matching migration file`
+        );
+      }
+
+      const checksum = migrationChecksum(migration);
+      if (row.checksum === null) {
+        await client.query(
+          'UPDATE migrations SET checksum = $2 WHERE name = $1',
+          [row.name, checksum]
+        );
+        row.checksum = checksum;
+      } else if (row.checksum !== checksum) {
+        throw new Error(
+          `Checksum mismatch for migration ${row.name}: applied migrations must not be edited`
+        );
+      }
+    }
+
+    return applied;
+  }
+
+  private async loadApplied(
+    client: PoolClient
+  ): Promise<Map<string, AppliedMigration>> {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS migrations (
+        id SERIAL PRIMARY KEY,
+        name VARCHAR(255) NOT NULL UNIQUE,
+        executed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query(
+      'ALTER TABLE migrations ADD COLUMN IF NOT EXISTS checksum VARCHAR(64);'
+    );
+
+    const result = await client.query(
+      'SELECT name, checksum, executed_at FROM migrations ORDER BY id'
+    );
+
+    return new Map(
+      (result.rows as AppliedMigration[]).map((row) => [row.name, row])
+    );
+  }
+
+  private async withLock<T>(
+    operation: (client: PoolClient) => Promise<T>
+  ): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      try {
+        return await operation(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [
+          MIGRATION_LOCK_KEY,
+        ]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  private async inTransaction(
+    client: PoolClient,
+    operation: () => Promise<void>
+  ): Promise<void> {
+    await client.query('BEGIN');
+    try {
+      await operation();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private static validateMigrations(migrations: Migration[]): Migration[] {
+    const names = new Set<string>();
+
+    for (const migration of migrations) {
+      if (!MIGRATION_NAME_PATTERN.test(migration.name)) {
+        throw new Error(
+          `Invalid migration name "${migration.name}": expected NNN_description`
+        );
+      }
+      if (names.has(migration.name)) {
+        throw new Error(`Duplicate migration name "${migration.name}"`);
+      }
+      names.add(migration.name);
+    }
+
+    const sorted = [...migrations].sort((a, b) => a.name.localeCompare(b.name));
+    if (sorted.some((migration, index) => migration !== migrations[index])) {
+      throw new Error('Migrations must be listed in ascending name order');
+    }
+
+    return migrations;
+  }
+}
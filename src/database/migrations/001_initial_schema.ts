@@ -0,0 +1,119 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Core tables: leads, interactions, agent_performance and audit_logs
+ */
+export const migration: Migration = {
+  name: '001_initial_schema',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS leads (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      source VARCHAR(50) NOT NULL,
+      name VARCHAR(255) NOT NULL,
+      email VARCHAR(255),
+      phone VARCHAR(50),
+      preferred_channel VARCHAR(20) DEFAULT 'email',
+      timezone VARCHAR(50) DEFAULT 'UTC',
+      lead_type VARCHAR(20) NOT NULL CHECK (lead_type IN ('hot', 'warm', 'cold')),
+      urgency_level INTEGER DEFAULT 1 CHECK (urgency_level BETWEEN 1 AND 10),
+      intent_signals TEXT[],
+      budget_min INTEGER,
+      budget_max INTEGER,
+      location VARCHAR(255),
+      property_type VARCHAR(100),
+      timeline VARCHAR(100),
+      qualification_score DECIMAL(3,2) DEFAULT 0.0,
+      status VARCHAR(50) DEFAULT 'new',
+      assigned_agent VARCHAR(100),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS interactions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+      agent_id VARCHAR(100) NOT NULL,
+      type VARCHAR(20) NOT NULL CHECK (type IN ('call', 'sms', 'email', 'whatsapp')),
+      direction VARCHAR(10) NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+      content TEXT,
+      outcome_status VARCHAR(20) DEFAULT 'pending',
+      appointment_booked BOOLEAN DEFAULT FALSE,
+      qualification_updated BOOLEAN DEFAULT FALSE,
+      escalation_required BOOLEAN DEFAULT FALSE,
+      duration_seconds INTEGER,
+      sentiment_score DECIMAL(3,2),
+      next_action TEXT,
+      next_action_scheduled_at TIMESTAMP,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS agent_performance (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      agent_id VARCHAR(100) NOT NULL,
+      period_start DATE NOT NULL,
+      period_end DATE NOT NULL,
+      total_interactions INTEGER DEFAULT 0,
+      conversion_rate DECIMAL(5,4) DEFAULT 0.0,
+      average_response_time_ms INTEGER DEFAULT 0,
+      appointment_booking_rate DECIMAL(5,4) DEFAULT 0.0,
+      customer_satisfaction_score DECIMAL(3,2) DEFAULT 0.0,
+      script_performance JSONB,
+      optimization_suggestions TEXT[],
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      UNIQUE(agent_id, period_start, period_end)
+    );
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS audit_logs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entity_type VARCHAR(50) NOT NULL CHECK (entity_type IN ('lead', 'interaction', 'sync')),
+      entity_id VARCHAR(255) NOT NULL,
+      action VARCHAR(50) NOT NULL CHECK (action IN ('create', 'update', 'delete', 'sync')),
+      changes JSONB NOT NULL,
+      user_id VARCHAR(100),
+      agent_id VARCHAR(100) NOT NULL,
+      timestamp TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      metadata JSONB DEFAULT '{}'::jsonb
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_leads_source ON leads(source);',
+    'CREATE INDEX IF NOT EXISTS idx_leads_type ON leads(lead_type);',
+    'CREATE INDEX IF NOT EXISTS idx_leads_status ON leads(status);',
+    'CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads(created_at);',
+    'CREATE INDEX IF NOT EXISTS idx_interactions_lead_id ON interactions(lead_id);',
+    'CREATE INDEX IF NOT EXISTS idx_interactions_agent_id ON interactions(agent_id);',
+    'CREATE INDEX IF NOT EXISTS idx_interactions_created_at ON interactions(created_at);',
+    'CREATE INDEX IF NOT EXISTS idx_agent_performance_agent_id ON agent_performance(agent_id);',
+    'CREATE INDEX IF NOT EXISTS idx_agent_performance_period ON agent_performance(period_start, period_end);',
+    'CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON audit_logs(entity_type, entity_id);',
+    'CREATE INDEX IF NOT EXISTS idx_audit_logs_timestamp ON audit_logs(timestamp);',
+    'CREATE INDEX IF NOT EXISTS idx_audit_logs_agent_id ON audit_logs(agent_id);',
+    `
+    CREATE OR REPLACE FUNCTION update_updated_at_column()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.updated_at = CURRENT_TIMESTAMP;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+    `,
+    `
+    DROP TRIGGER IF EXISTS update_leads_updated_at ON leads;
+    CREATE TRIGGER update_leads_updated_at
+      BEFORE UPDATE ON leads
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+    `,
+  ],
+  down: [
+    'DROP TRIGGER IF EXISTS update_leads_updated_at ON leads;',
+    'DROP FUNCTION IF EXISTS update_updated_at_column();',
+    'DROP TABLE IF EXISTS audit_logs;',
+    'DROP TABLE IF EXISTS agent_performance;',
+    'DROP TABLE IF EXISTS interactions;',
+    'DROP TABLE IF EXISTS leads;',
+  ],
+};
@@ -0,0 +1,17 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Store the full sentiment score and next action description so
+ * interactions round-trip through the repository layer without loss
+ */
+export const migration: Migration = {
+  name: '002_interaction_sentiment_details',
+  up: [
+    'ALTER TABLE interactions ADD COLUMN IF NOT EXISTS sentiment_confidence DECIMAL(3,2);',
+    'ALTER TABLE interactions ADD COLUMN IF NOT EXISTS next_action_description TEXT;',
+  ],
+  down: [
+    'ALTER TABLE interactions DROP COLUMN IF EXISTS next_action_description;',
+    'ALTER TABLE interactions DROP COLUMN IF EXISTS sentiment_confidence;',
+  ],
+};
@@ -0,0 +1,41 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Appointments booked for leads, so they survive restarts and can be
+ * shown alongside interactions in the lead timeline
+ */
+export const migration: Migration = {
+  name: '003_appointments',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS appointments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+      campaign_id VARCHAR(255),
+      type VARCHAR(20) NOT NULL CHECK (type IN ('consultation', 'site_visit', 'callback', 'follow_up')),
+      status VARCHAR(20) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'confirmed', 'rescheduled', 'cancelled', 'completed', 'no_show')),
+      scheduled_at TIMESTAMP NOT NULL,
+      duration_minutes INTEGER NOT NULL CHECK (duration_minutes > 0),
+      location TEXT,
+      notes TEXT,
+      confirmation_sent BOOLEAN DEFAULT FALSE,
+      reminders_sent INTEGER DEFAULT 0,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_appointments_lead_id ON appointments(lead_id);',
+    'CREATE INDEX IF NOT EXISTS idx_appointments_scheduled_at ON appointments(scheduled_at);',
+    `
+    DROP TRIGGER IF EXISTS update_appointments_updated_at ON appointments;
+    CREATE TRIGGER update_appointments_updated_at
+      BEFORE UPDATE ON appointments
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+    `,
+  ],
+  down: [
+    'DROP TRIGGER IF EXISTS update_appointments_updated_at ON appointments;',
+    'DROP TABLE IF EXISTS appointments;',
+  ],
+};
@@ -0,0 +1,83 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Durable state for the appointment workflow coordinator: campaigns,
+ * callbacks and appointment reminder sequences
+ */
+export const migration: Migration = {
+  name: '004_workflow_state',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS campaigns (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      name VARCHAR(255) NOT NULL,
+      type VARCHAR(30) NOT NULL CHECK (type IN ('callback_sequence', 'appointment_booking', 'follow_up', 're_engagement')),
+      status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'completed', 'cancelled')),
+      target_audience JSONB NOT NULL,
+      steps JSONB NOT NULL DEFAULT '[]'::jsonb,
+      performance JSONB NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS callbacks (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+      campaign_id VARCHAR(255),
+      scheduled_at TIMESTAMP NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed', 'cancelled')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL DEFAULT 3 CHECK (max_attempts > 0),
+      notes TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS reminder_sequences (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      appointment_id UUID NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+      status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    );
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS reminders (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      sequence_id UUID NOT NULL REFERENCES reminder_sequences(id) ON DELETE CASCADE,
+      type VARCHAR(10) NOT NULL CHECK (type IN ('email', 'sms', 'call')),
+      scheduled_at TIMESTAMP NOT NULL,
+      status VARCHAR(10) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+      content TEXT NOT NULL,
+      sent_at TIMESTAMP
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_campaigns_status ON campaigns(status);',
+    'CREATE INDEX IF NOT EXISTS idx_callbacks_due ON callbacks(status, scheduled_at);',
+    'CREATE INDEX IF NOT EXISTS idx_callbacks_lead_id ON callbacks(lead_id);',
+    'CREATE INDEX IF NOT EXISTS idx_reminder_sequences_appointment_id ON reminder_sequences(appointment_id);',
+    'CREATE INDEX IF NOT EXISTS idx_reminders_due ON reminders(status, scheduled_at);',
+    'CREATE INDEX IF NOT EXISTS idx_reminders_sequence_id ON reminders(sequence_id);',
+    `
+    DROP TRIGGER IF EXISTS update_campaigns_updated_at ON campaigns;
+    CREATE TRIGGER update_campaigns_updated_at
+      BEFORE UPDATE ON campaigns
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+    `,
+    `
+    DROP TRIGGER IF EXISTS update_callbacks_updated_at ON callbacks;
+    CREATE TRIGGER update_callbacks_updated_at
+      BEFORE UPDATE ON callbacks
+      FOR EACH ROW
+      EXECUTE FUNCTION update_updated_at_column();
+    `,
+  ],
+  down: [
+    'DROP TABLE IF EXISTS reminders;',
+    'DROP TABLE IF EXISTS reminder_sequences;',
+    'DROP TABLE IF EXISTS callbacks;',
+    'DROP TABLE IF EXISTS campaigns;',
+  ],
+};
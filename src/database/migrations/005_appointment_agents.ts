@@ -0,0 +1,17 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Record which agent attends an appointment, so double-booking checks
+ * and per-agent calendars can be answered from the database
+ */
+export const migration: Migration = {
+  name: '005_appointment_agents',
+  up: [
+    'ALTER TABLE appointments ADD COLUMN IF NOT EXISTS agent_id VARCHAR(100);',
+    'CREATE INDEX IF NOT EXISTS idx_appointments_agent_schedule ON appointments(agent_id, scheduled_at);',
+  ],
+  down: [
+    'DROP INDEX IF EXISTS idx_appointments_agent_schedule;',
+    'ALTER TABLE appointments DROP COLUMN IF EXISTS agent_id;',
+  ],
+};
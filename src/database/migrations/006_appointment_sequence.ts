@@ -0,0 +1,13 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * iCalendar SEQUENCE of each appointment, so calendar updates sent after
+ * a reschedule or cancellation replace the attendee's earlier copy
+ */
+export const migration: Migration = {
+  name: '006_appointment_sequence',
+  up: [
+    'ALTER TABLE appointments ADD COLUMN IF NOT EXISTS sequence INTEGER NOT NULL DEFAULT 0;',
+  ],
+  down: ['ALTER TABLE appointments DROP COLUMN IF EXISTS sequence;'],
+};
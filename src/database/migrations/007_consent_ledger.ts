@@ -0,0 +1,24 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Consent ledger: an append-only record of every opt-in and opt-out per
+ * lead and channel, with its source and evidence
+ */
+export const migration: Migration = {
+  name: '007_consent_ledger',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS consent_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+      channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'sms', 'voice', 'whatsapp')),
+      action VARCHAR(10) NOT NULL CHECK (action IN ('opt_in', 'opt_out')),
+      source VARCHAR(50) NOT NULL,
+      evidence JSONB NOT NULL DEFAULT '{}'::jsonb,
+      recorded_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_consent_events_lead_channel ON consent_events(lead_id, channel, recorded_at DESC);',
+  ],
+  down: ['DROP TABLE IF EXISTS consent_events;'],
+};
@@ -0,0 +1,25 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Routing rules of the head agent as an append-only version history. The
+ * latest version of each rule is the current one; deletions are versions
+ * without a definition.
+ */
+export const migration: Migration = {
+  name: '008_routing_rules',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS routing_rule_versions (
+      rule_id VARCHAR(100) NOT NULL,
+      version INTEGER NOT NULL,
+      change VARCHAR(20) NOT NULL CHECK (change IN ('created', 'updated', 'deleted', 'rolled_back')),
+      definition JSONB,
+      restored_from_version INTEGER,
+      changed_by VARCHAR(255),
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (rule_id, version)
+    );
+    `,
+  ],
+  down: ['DROP TABLE IF EXISTS routing_rule_versions;'],
+};
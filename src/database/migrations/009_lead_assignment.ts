@@ -0,0 +1,49 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Roster of human sales agents and the assignments of leads to them.
+ * Assignments are kept after they close, so the chain of reassignments
+ * of a lead can be followed through previous_assignment_id.
+ */
+export const migration: Migration = {
+  name: '009_lead_assignment',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS sales_agents (
+      id VARCHAR(100) PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      email VARCHAR(255),
+      skills JSONB NOT NULL DEFAULT '{}'::jsonb,
+      max_concurrent_leads INTEGER NOT NULL CHECK (max_concurrent_leads > 0),
+      weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+      timezone VARCHAR(50) NOT NULL DEFAULT 'UTC',
+      working_hours JSONB NOT NULL DEFAULT '[]'::jsonb,
+      out_of_office JSONB NOT NULL DEFAULT '[]'::jsonb,
+      active BOOLEAN NOT NULL DEFAULT TRUE,
+      created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS lead_assignments (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+      agent_id VARCHAR(100) NOT NULL REFERENCES sales_agents(id),
+      strategy VARCHAR(30) NOT NULL CHECK (strategy IN ('weighted_round_robin', 'least_loaded', 'manual')),
+      status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'accepted', 'declined', 'expired', 'released')),
+      requirements JSONB NOT NULL DEFAULT '{}'::jsonb,
+      assigned_by VARCHAR(255),
+      assigned_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      accept_by TIMESTAMP NOT NULL,
+      responded_at TIMESTAMP,
+      previous_assignment_id UUID REFERENCES lead_assignments(id)
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_lead_assignments_lead ON lead_assignments(lead_id, assigned_at);',
+    "CREATE INDEX IF NOT EXISTS idx_lead_assignments_open ON lead_assignments(agent_id) WHERE status IN ('pending', 'accepted');",
+  ],
+  down: [
+    'DROP TABLE IF EXISTS lead_assignments;',
+    'DROP TABLE IF EXISTS sales_agents;',
+  ],
+};
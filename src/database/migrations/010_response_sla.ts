@@ -0,0 +1,34 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Response SLA per lead: from creation to the first outbound touch, with
+ * breaches and how far they were escalated. Sales agents get the manager
+ * breaches are escalated to.
+ */
+export const migration: Migration = {
+  name: '010_response_sla',
+  up: [
+    'ALTER TABLE sales_agents ADD COLUMN IF NOT EXISTS manager_email VARCHAR(255);',
+    `
+    CREATE TABLE IF NOT EXISTS lead_response_slas (
+      lead_id UUID PRIMARY KEY REFERENCES leads(id) ON DELETE CASCADE,
+      source VARCHAR(50) NOT NULL,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('open', 'met', 'breached')),
+      started_at TIMESTAMP NOT NULL,
+      due_at TIMESTAMP NOT NULL,
+      first_touch_at TIMESTAMP,
+      first_touch_interaction_id UUID,
+      first_touch_agent_id VARCHAR(100),
+      assigned_agent_id VARCHAR(100),
+      breached_at TIMESTAMP,
+      escalation_level INTEGER NOT NULL DEFAULT 0
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_lead_response_slas_started_at ON lead_response_slas(started_at);',
+    'CREATE INDEX IF NOT EXISTS idx_lead_response_slas_untouched ON lead_response_slas(due_at) WHERE first_touch_at IS NULL;',
+  ],
+  down: [
+    'DROP TABLE IF EXISTS lead_response_slas;',
+    'ALTER TABLE sales_agents DROP COLUMN IF EXISTS manager_email;',
+  ],
+};
@@ -0,0 +1,17 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Interactions over web chat, recorded for conversations the virtual
+ * sales assistant holds in the chat widget
+ */
+export const migration: Migration = {
+  name: '011_chat_interactions',
+  up: [
+    'ALTER TABLE interactions DROP CONSTRAINT IF EXISTS interactions_type_check;',
+    "ALTER TABLE interactions ADD CONSTRAINT interactions_type_check CHECK (type IN ('call', 'sms', 'email', 'whatsapp', 'chat'));",
+  ],
+  down: [
+    'ALTER TABLE interactions DROP CONSTRAINT IF EXISTS interactions_type_check;',
+    "ALTER TABLE interactions ADD CONSTRAINT interactions_type_check CHECK (type IN ('call', 'sms', 'email', 'whatsapp'));",
+  ],
+};
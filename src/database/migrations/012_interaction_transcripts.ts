@@ -0,0 +1,30 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Redacted transcripts of the conversations interactions record, with a
+ * reference to the call recording and a full-text index over the turns
+ */
+export const migration: Migration = {
+  name: '012_interaction_transcripts',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS interaction_transcripts (
+      interaction_id UUID PRIMARY KEY REFERENCES interactions(id) ON DELETE CASCADE,
+      lead_id UUID NOT NULL REFERENCES leads(id) ON DELETE CASCADE,
+      session_id VARCHAR(100),
+      channel VARCHAR(20) NOT NULL,
+      turns JSONB NOT NULL DEFAULT '[]'::jsonb,
+      full_text TEXT NOT NULL DEFAULT '',
+      search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', full_text)) STORED,
+      recording_url TEXT,
+      recording_content_type VARCHAR(100),
+      recording_duration_seconds INTEGER CHECK (recording_duration_seconds >= 0),
+      redactions INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_interaction_transcripts_search ON interaction_transcripts USING GIN (search_vector);',
+    'CREATE INDEX IF NOT EXISTS idx_interaction_transcripts_lead ON interaction_transcripts(lead_id, created_at DESC);',
+  ],
+  down: ['DROP TABLE IF EXISTS interaction_transcripts;'],
+};
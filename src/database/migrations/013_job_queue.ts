@@ -0,0 +1,33 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Durable job queue: delayed jobs leased to one worker at a time, retried
+ * until they run out of attempts and then kept as dead letters
+ */
+export const migration: Migration = {
+  name: '013_job_queue',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS jobs (
+      id UUID PRIMARY KEY,
+      type VARCHAR(100) NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'running', 'completed', 'dead')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      max_attempts INTEGER NOT NULL CHECK (max_attempts >= 1),
+      run_at TIMESTAMP NOT NULL,
+      idempotency_key VARCHAR(255) UNIQUE,
+      locked_by VARCHAR(100),
+      locked_until TIMESTAMP,
+      last_error TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      completed_at TIMESTAMP
+    );
+    `,
+    "CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(run_at) WHERE status = 'pending';",
+    "CREATE INDEX IF NOT EXISTS idx_jobs_leased ON jobs(locked_until) WHERE status = 'running';",
+    "CREATE INDEX IF NOT EXISTS idx_jobs_dead ON jobs(updated_at DESC) WHERE status = 'dead';",
+  ],
+  down: ['DROP TABLE IF EXISTS jobs;'],
+};
@@ -0,0 +1,29 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Transactional outbox: domain events written by the same statement as the
+ * lead, interaction or appointment change, relayed to subscribers later
+ */
+export const migration: Migration = {
+  name: '014_event_outbox',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS outbox_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      event_type VARCHAR(50) NOT NULL,
+      aggregate_type VARCHAR(30) NOT NULL,
+      aggregate_id VARCHAR(255) NOT NULL,
+      payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+      occurred_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      delivered_to TEXT[] NOT NULL DEFAULT '{}',
+      next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      last_error TEXT,
+      published_at TIMESTAMP
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_outbox_events_unpublished ON outbox_events(next_attempt_at) WHERE published_at IS NULL;',
+    'CREATE INDEX IF NOT EXISTS idx_outbox_events_aggregate ON outbox_events(aggregate_type, aggregate_id, occurred_at);',
+  ],
+  down: ['DROP TABLE IF EXISTS outbox_events;'],
+};
@@ -0,0 +1,52 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Outgoing webhooks: partner endpoints subscribed to domain events, and a
+ * log of every delivery made to them
+ */
+export const migration: Migration = {
+  name: '015_webhook_subscriptions',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS webhook_subscriptions (
+      id UUID PRIMARY KEY,
+      url TEXT NOT NULL,
+      description VARCHAR(500),
+      event_types TEXT[] NOT NULL,
+      filter JSONB,
+      secret VARCHAR(255) NOT NULL,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('active', 'disabled')),
+      consecutive_failures INTEGER NOT NULL DEFAULT 0,
+      disabled_at TIMESTAMP,
+      disabled_reason TEXT,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    `,
+    `
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id UUID PRIMARY KEY,
+      subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+      event_id UUID NOT NULL,
+      event_type VARCHAR(50) NOT NULL,
+      body JSONB NOT NULL,
+      status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'succeeded', 'failed')),
+      attempts INTEGER NOT NULL DEFAULT 0,
+      response_status INTEGER,
+      response_body TEXT,
+      last_error TEXT,
+      duration_ms INTEGER,
+      last_attempt_at TIMESTAMP,
+      delivered_at TIMESTAMP,
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE (subscription_id, event_id)
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_webhook_subscriptions_event_types ON webhook_subscriptions USING GIN(event_types);',
+    'CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);',
+  ],
+  down: [
+    'DROP TABLE IF EXISTS webhook_deliveries;',
+    'DROP TABLE IF EXISTS webhook_subscriptions;',
+  ],
+};
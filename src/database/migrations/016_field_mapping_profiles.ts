@@ -0,0 +1,27 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Field-mapping profiles: how the payload of a Zapier, Integromat or
+ * generic webhook becomes a lead, per sender
+ */
+export const migration: Migration = {
+  name: '016_field_mapping_profiles',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS field_mapping_profiles (
+      id UUID PRIMARY KEY,
+      name VARCHAR(100) NOT NULL,
+      integration VARCHAR(20) NOT NULL CHECK (integration IN ('zapier', 'integromat', 'generic')),
+      description VARCHAR(500),
+      lead_source VARCHAR(50) NOT NULL DEFAULT 'third_party',
+      source_id_path TEXT,
+      mappings JSONB NOT NULL,
+      defaults JSONB NOT NULL DEFAULT '{}',
+      created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      UNIQUE (integration, name)
+    );
+    `,
+  ],
+  down: ['DROP TABLE IF EXISTS field_mapping_profiles;'],
+};
@@ -0,0 +1,24 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Busy blocks imported from agents' external calendars, so every process
+ * booking appointments sees them and they survive restarts
+ */
+export const migration: Migration = {
+  name: '017_agent_busy_blocks',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS agent_busy_blocks (
+      id UUID PRIMARY KEY,
+      agent_id VARCHAR(100) NOT NULL,
+      starts_at TIMESTAMP NOT NULL,
+      ends_at TIMESTAMP NOT NULL,
+      uid VARCHAR(255),
+      imported_at TIMESTAMP NOT NULL DEFAULT NOW(),
+      CHECK (ends_at > starts_at)
+    );
+    `,
+    'CREATE INDEX IF NOT EXISTS idx_agent_busy_blocks_schedule ON agent_busy_blocks(agent_id, starts_at);',
+  ],
+  down: ['DROP TABLE IF EXISTS agent_busy_blocks;'],
+};
@@ -0,0 +1,26 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Re-engagement, feedback and sales conversations, so a lead's reply finds
+ * its session after a restart or on another instance
+ */
+export const migration: Migration = {
+  name: '018_agent_sessions',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS agent_sessions (
+      id VARCHAR(100) PRIMARY KEY,
+      kind VARCHAR(20) NOT NULL,
+      lead_id VARCHAR(100) NOT NULL,
+      status VARCHAR(20) NOT NULL,
+      state JSONB NOT NULL,
+      started_at TIMESTAMP NOT NULL,
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    `,
+    `CREATE INDEX IF NOT EXISTS idx_agent_sessions_active
+       ON agent_sessions(kind, lead_id, started_at DESC)
+       WHERE status = 'active';`,
+  ],
+  down: ['DROP TABLE IF EXISTS agent_sessions;'],
+};
@@ -0,0 +1,34 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Keep consent events when their lead is deleted, and refuse to change or
+ * remove them: the ledger is the proof of every opt-in and opt-out
+ */
+export const migration: Migration = {
+  name: '019_consent_ledger_append_only',
+  up: [
+    'ALTER TABLE consent_events DROP CONSTRAINT IF EXISTS consent_events_lead_id_fkey;',
+    `
+    CREATE OR REPLACE FUNCTION reject_consent_event_change()
+    RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'consent_events is append-only';
+    END;
+    $$ LANGUAGE plpgsql;
+    `,
+    `
+    DROP TRIGGER IF EXISTS consent_events_append_only ON consent_events;
+    CREATE TRIGGER consent_events_append_only
+      BEFORE UPDATE OR DELETE ON consent_events
+      FOR EACH ROW
+      EXECUTE FUNCTION reject_consent_event_change();
+    `,
+  ],
+  down: [
+    'DROP TRIGGER IF EXISTS consent_events_append_only ON consent_events;',
+    'DROP FUNCTION IF EXISTS reject_consent_event_change();',
+    // Events of deleted leads no longer have a lead to point to
+    `ALTER TABLE consent_events ADD CONSTRAINT consent_events_lead_id_fkey
+       FOREIGN KEY (lead_id) REFERENCES leads(id) ON DELETE CASCADE NOT VALID;`,
+  ],
+};
@@ -0,0 +1,25 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * At most one open assignment per lead, so two concurrent assignments of
+ * the same lead cannot both succeed. Duplicates left from before are
+ * released, keeping the latest.
+ */
+export const migration: Migration = {
+  name: '020_lead_assignment_open_unique',
+  up: [
+    `
+    UPDATE lead_assignments older
+    SET status = 'released', responded_at = CURRENT_TIMESTAMP
+    WHERE older.status IN ('pending', 'accepted')
+      AND EXISTS (
+        SELECT 1 FROM lead_assignments newer
+        WHERE newer.lead_id = older.lead_id
+          AND newer.status IN ('pending', 'accepted')
+          AND (newer.assigned_at, newer.id) > (older.assigned_at, older.id)
+      );
+    `,
+    "CREATE UNIQUE INDEX IF NOT EXISTS idx_lead_assignments_open_lead ON lead_assignments(lead_id) WHERE status IN ('pending', 'accepted');",
+  ],
+  down: ['DROP INDEX IF EXISTS idx_lead_assignments_open_lead;'],
+};
@@ -0,0 +1,21 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Transcript search for conversations in any language. The 'english'
+ * configuration stemmed Portuguese words as if they were English and
+ * dropped English stop words from them; 'simple' matches words as written,
+ * lowercased and without stemming.
+ */
+export const migration: Migration = {
+  name: '021_transcript_search_simple',
+  up: [
+    'ALTER TABLE interaction_transcripts DROP COLUMN IF EXISTS search_vector;',
+    "ALTER TABLE interaction_transcripts ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', full_text)) STORED;",
+    'CREATE INDEX IF NOT EXISTS idx_interaction_transcripts_search ON interaction_transcripts USING GIN (search_vector);',
+  ],
+  down: [
+    'ALTER TABLE interaction_transcripts DROP COLUMN IF EXISTS search_vector;',
+    "ALTER TABLE interaction_transcripts ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (to_tsvector('english', full_text)) STORED;",
+    'CREATE INDEX IF NOT EXISTS idx_interaction_transcripts_search ON interaction_transcripts USING GIN (search_vector);',
+  ],
+};
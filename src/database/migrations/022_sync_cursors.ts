@@ -0,0 +1,20 @@
+import { Migration } from '../migration-runner';
+
+/**
+ * Positions of the integrations read incrementally, such as the Gmail
+ * history id of the last push notification, so a restart or another
+ * instance carries on where the last one stopped
+ */
+export const migration: Migration = {
+  name: '022_sync_cursors',
+  up: [
+    `
+    CREATE TABLE IF NOT EXISTS sync_cursors (
+      name VARCHAR(100) PRIMARY KEY,
+      position TEXT NOT NULL,
+      updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+    );
+    `,
+  ],
+  down: ['DROP TABLE IF EXISTS sync_cursors;'],
+};
@@ -0,0 +1,52 @@
+import { Migration } from '../migration-runner';
+import { migration as initialSchema } from './001_initial_schema';
+import { migration as interactionSentimentDetails } from './002_interaction_sentiment_details';
+import { migration as appointments } from './003_appointments';
+import { migration as workflowState } from './004_workflow_state';
+import { migration as appointmentAgents } from './005_appointment_agents';
+import { migration as appointmentSequence } from './006_appointment_sequence';
+import { migration as consentLedger } from './007_consent_ledger';
+import { migration as routingRules } from './008_routing_rules';
+import { migration as leadAssignment } from './009_lead_assignment';
+import { migration as responseSla } from './010_response_sla';
+import { migration as chatInteractions } from './011_chat_interactions';
+import { migration as interactionTranscripts } from './012_interaction_transcripts';
+import { migration as jobQueue } from './013_job_queue';
+import { migration as eventOutbox } from './014_event_outbox';
+import { migration as webhookSubscriptions } from './015_webhook_subscriptions';
+import { migration as fieldMappingProfiles } from './016_field_mapping_profiles';
+import { migration as agentBusyBlocks } from './017_agent_busy_blocks';
+import { migration as agentSessions } from './018_agent_sessions';
+import { migration as consentLedgerAppendOnly } from './019_consent_ledger_append_only';
+import { migration as leadAssignmentOpenUnique } from './020_lead_assignment_open_unique';
+import { migration as transcriptSearchSimple } from './021_transcript_search_simple';
+import { migration as syncCursors } from './022_sync_cursors';
+
+/**
+ * All schema migrations, in the order they must be applied.
+ * New migrations are added as NNN_description.ts files and appended here.
+ */
+export const migrations: Migration[] = [
+  initialSchema,
+  interactionSentimentDetails,
+  appointments,
+  workflowState,
+  appointmentAgents,
+  appointmentSequence,
+  consentLedger,
+  routingRules,
+  leadAssignment,
+  responseSla,
+  chatInteractions,
+  interactionTranscripts,
+  jobQueue,
+  eventOutbox,
+  webhookSubscriptions,
+  fieldMappingProfiles,
+  agentBusyBlocks,
+  agentSessions,
+  consentLedgerAppendOnly,
+  leadAssignmentOpenUnique,
+  transcriptSearchSimple,
+  syncCursors,
+];
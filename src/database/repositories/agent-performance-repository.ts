@@ -0,0 +1,64 @@
+import { Queryable } from './queryable';
+import { AgentPerformanceRow, mapAgentPerformanceRow } from './mappers';
+import { AgentPerformance } from '../../types/agent-performance';
+
+/**
+ * Agent performance repository - one record per agent and reporting period
+ */
+export class AgentPerformanceRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Insert a performance record, replacing the metrics of an existing
+   * record for the same agent and period
+   */
+  async upsert(performance: AgentPerformance): Promise<AgentPerformance> {
+    const result = await this.db.query(
+      `INSERT INTO agent_performance (
+        id, agent_id, period_start, period_end, total_interactions,
+        conversion_rate, average_response_time_ms, appointment_booking_rate,
+        customer_satisfaction_score, script_performance,
+        optimization_suggestions, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      ON CONFLICT (agent_id, period_start, period_end) DO UPDATE SET
+        total_interactions = EXCLUDED.total_interactions,
+        conversion_rate = EXCLUDED.conversion_rate,
+        average_response_time_ms = EXCLUDED.average_response_time_ms,
+        appointment_booking_rate = EXCLUDED.appointment_booking_rate,
+        customer_satisfaction_score = EXCLUDED.customer_satisfaction_score,
+        script_performance = EXCLUDED.script_performance,
+        optimization_suggestions = EXCLUDED.optimization_suggestions
+      RETURNING *`,
+      [
+        performance.id,
+        performance.agentId,
+        performance.period.start,
+        performance.period.end,
+        performance.metrics.totalInteractions,
+        performance.metrics.conversionRate,
+        Math.round(performance.metrics.averageResponseTime),
+        performance.metrics.appointmentBookingRate,
+        performance.metrics.customerSatisfactionScore,
+        JSON.stringify(performance.scriptPerformance),
+        performance.optimizationSuggestions,
+        performance.createdAt,
+      ]
+    );
+    return mapAgentPerformanceRow(result.rows[0]);
+  }
+
+  /**
+   * List performance records for an agent, most recent period first
+   */
+  async findByAgent(agentId: string, limit = 12): Promise<AgentPerformance[]> {
+    const result = await this.db.query(
+      `SELECT * FROM agent_performance WHERE agent_id = $1
+       ORDER BY period_start DESC
+       LIMIT $2`,
+      [agentId, limit]
+    );
+    return result.rows.map((row: AgentPerformanceRow) =>
+      mapAgentPerformanceRow(row)
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { Queryable } from './queryable';
+import { AgentSessionRow, mapAgentSessionRow } from './mappers';
+import { AgentSession, AgentSessionKind } from '../../types/agent-session';
+
+/**
+ * Agent session repository - the agents' ongoing conversations with leads
+ */
+export class AgentSessionRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Insert the session or replace its stored state
+   */
+  async save(session: AgentSession): Promise<void> {
+    await this.db.query(
+      `INSERT INTO agent_sessions (
+        id, kind, lead_id, status, state, started_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (id) DO UPDATE SET
+        status = EXCLUDED.status,
+        state = EXCLUDED.state,
+        updated_at = EXCLUDED.updated_at`,
+      [
+        session.id,
+        session.kind,
+        session.leadId,
+        session.status,
+        JSON.stringify(session.state),
+        session.startedAt,
+        session.updatedAt,
+      ]
+    );
+  }
+
+  async findById(
+    kind: AgentSessionKind,
+    id: string
+  ): Promise<AgentSession | null> {
+    const result = await this.db.query(
+      'SELECT * FROM agent_sessions WHERE kind = $1 AND id = $2',
+      [kind, id]
+    );
+    return result.rows.length > 0 ? mapAgentSessionRow(result.rows[0]) : null;
+  }
+
+  /**
+   * The lead's most recently started active session of this kind
+   */
+  async findActiveForLead(
+    kind: AgentSessionKind,
+    leadId: string
+  ): Promise<AgentSession | null> {
+    const result = await this.db.query(
+      `SELECT * FROM agent_sessions
+       WHERE kind = $1 AND lead_id = $2 AND status = 'active'
+       ORDER BY started_at DESC
+       LIMIT 1`,
+      [kind, leadId]
+    );
+    return result.rows.length > 0 ? mapAgentSessionRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Active sessions of this kind, oldest first
+   */
+  async findActive(
+    kind: AgentSessionKind,
+    limit: number
+  ): Promise<AgentSession[]> {
+    const result = await this.db.query(
+      `SELECT * FROM agent_sessions
+       WHERE kind = $1 AND status = 'active'
+       ORDER BY started_at ASC
+       LIMIT $2`,
+      [kind, limit]
+    );
+    return result.rows.map((row: AgentSessionRow) => mapAgentSessionRow(row));
+  }
+}
@@ -0,0 +1,143 @@
+import { Queryable } from './queryable';
+import {
+  APPOINTMENT_COLUMNS,
+  AppointmentRow,
+  appointmentToParams,
+  mapAppointmentRow,
+} from './mappers';
+import { withOutboxEvent } from './outbox-repository';
+import { Appointment } from '../../types/appointment';
+
+/**
+ * Appointment repository - reads and writes appointments as validated Appointment objects
+ */
+export class AppointmentRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Find an appointment by id
+   */
+  async findById(id: string): Promise<Appointment | null> {
+    const result = await this.db.query(
+      'SELECT * FROM appointments WHERE id = $1',
+      [id]
+    );
+    return result.rows.length > 0 ? mapAppointmentRow(result.rows[0]) : null;
+  }
+
+  /**
+   * List appointments for a lead in scheduled order
+   */
+  async findByLead(leadId: string): Promise<Appointment[]> {
+    const result = await this.db.query(
+      'SELECT * FROM appointments WHERE lead_id = $1 ORDER BY scheduled_at ASC',
+      [leadId]
+    );
+    return result.rows.map((row: AppointmentRow) => mapAppointmentRow(row));
+  }
+
+  /**
+   * List an agent's appointments scheduled from the given time onwards,
+   * including cancelled ones so calendar subscribers can drop them
+   */
+  async findByAgent(agentId: string, from: Date): Promise<Appointment[]> {
+    const result = await this.db.query(
+      `SELECT * FROM appointments
+       WHERE agent_id = $1 AND scheduled_at >= $2
+       ORDER BY scheduled_at ASC`,
+      [agentId, from]
+    );
+    return result.rows.map((row: AppointmentRow) => mapAppointmentRow(row));
+  }
+
+  /**
+   * List appointments that are still expected to take place, soonest first
+   */
+  async findOpen(): Promise<Appointment[]> {
+    const result = await this.db.query(
+      `SELECT * FROM appointments
+       WHERE status IN ('scheduled', 'confirmed', 'rescheduled')
+       ORDER BY scheduled_at ASC`
+    );
+    return result.rows.map((row: AppointmentRow) => mapAppointmentRow(row));
+  }
+
+  /**
+   * Open appointments of the lead or any of the agents that overlap the
+   * period, taking each appointment's duration into account
+   */
+  async findOverlapping(
+    leadId: string,
+    agentIds: string[],
+    start: Date,
+    end: Date
+  ): Promise<Appointment[]> {
+    const result = await this.db.query(
+      `SELECT * FROM appointments
+       WHERE status IN ('scheduled', 'confirmed', 'rescheduled')
+         AND (lead_id::text = $1 OR agent_id = ANY($2))
+         AND scheduled_at < $4
+         AND scheduled_at + duration_minutes * interval '1 minute' > $3
+       ORDER BY scheduled_at ASC`,
+      [leadId, agentIds, start, end]
+    );
+    return result.rows.map((row: AppointmentRow) => mapAppointmentRow(row));
+  }
+
+  /**
+   * Serialise bookings for the given schedule keys until the surrounding
+   * transaction ends. Keys are locked in sorted order to avoid deadlocks.
+   */
+  async lockSchedule(keys: string[]): Promise<void> {
+    for (const key of [...new Set(keys)].sort()) {
+      await this.db.query('SELECT pg_advisory_xact_lock(hashtext($1))', [key]);
+    }
+  }
+
+  /**
+   * Atomically count a sent reminder against an appointment
+   */
+  async incrementRemindersSent(id: string): Promise<void> {
+    await this.db.query(
+      'UPDATE appointments SET reminders_sent = reminders_sent + 1 WHERE id = $1',
+      [id]
+    );
+  }
+
+  /**
+   * Insert a new appointment, recording appointment_scheduled
+   */
+  async create(appointment: Appointment): Promise<Appointment> {
+    const placeholders = APPOINTMENT_COLUMNS.map((_, i) => `$${i + 1}`);
+    const result = await this.db.query(
+      ...withOutboxEvent(
+        `INSERT INTO appointments (${APPOINTMENT_COLUMNS.join(', ')})
+         VALUES (${placeholders.join(', ')})
+         RETURNING *`,
+        appointmentToParams(appointment),
+        'appointment_scheduled',
+        'appointment'
+      )
+    );
+    return mapAppointmentRow(result.rows[0]);
+  }
+
+  /**
+   * Persist every field of an existing appointment, recording
+   * appointment_updated. Returns null when it no longer exists.
+   */
+  async save(appointment: Appointment): Promise<Appointment | null> {
+    const [, ...columns] = APPOINTMENT_COLUMNS;
+    const assignments = columns.map((column, i) => `${column} = $${i + 2}`);
+
+    const result = await this.db.query(
+      ...withOutboxEvent(
+        `UPDATE appointments SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`,
+        appointmentToParams(appointment),
+        'appointment_updated',
+        'appointment'
+      )
+    );
+    return result.rows.length > 0 ? mapAppointmentRow(result.rows[0]) : null;
+  }
+}
@@ -0,0 +1,65 @@
+import { Queryable } from './queryable';
+import { AuditLogRow, mapAuditLogRow } from './mappers';
+import {
+  AuditEntityType,
+  AuditLogEntry,
+  AuditLogValidation,
+} from '../../types/audit-log';
+import { generateUUID } from '../../types/validation';
+
+/**
+ * Audit log repository - append-only history of changes to leads and interactions
+ */
+export class AuditLogRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Append an audit log entry
+   */
+  async create(entry: Omit<AuditLogEntry, 'id'>): Promise<AuditLogEntry> {
+    const validation = AuditLogValidation.validateAuditLogEntry({
+      ...entry,
+      id: generateUUID(),
+    });
+    if (!validation.success) {
+      throw validation.error;
+    }
+    const auditEntry = validation.data;
+
+    await this.db.query(
+      `INSERT INTO audit_logs (
+        id, entity_type, entity_id, action, changes, user_id, agent_id, 
+        timestamp, metadata
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+      [
+        auditEntry.id,
+        auditEntry.entityType,
+        auditEntry.entityId,
+        auditEntry.action,
+        JSON.stringify(auditEntry.changes),
+        auditEntry.userId,
+        auditEntry.agentId,
+        auditEntry.timestamp,
+        JSON.stringify(auditEntry.metadata || {}),
+      ]
+    );
+
+    return auditEntry;
+  }
+
+  /**
+   * History of an entity, oldest first
+   */
+  async findByEntity(
+    entityType: AuditEntityType,
+    entityId: string
+  ): Promise<AuditLogEntry[]> {
+    const result = await this.db.query(
+      `SELECT * FROM audit_logs
+       WHERE entity_type = $1 AND entity_id = $2
+       ORDER BY timestamp ASC`,
+      [entityType, entityId]
+    );
+    return result.rows.map((row: AuditLogRow) => mapAuditLogRow(row));
+  }
+}
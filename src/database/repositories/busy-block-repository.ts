@@ -0,0 +1,60 @@
+import { Queryable } from './queryable';
+import { AgentBusyBlockRow, mapAgentBusyBlockRow } from './mappers';
+import { AgentBusyBlock } from '../../types/appointment';
+
+/**
+ * Busy block repository - time agents are taken in their external calendars
+ */
+export class BusyBlockRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Replace every busy block of an agent with a fresh import. Run inside a
+   * transaction so bookings never see the agent without blocks.
+   */
+  async replaceForAgent(
+    agentId: string,
+    blocks: AgentBusyBlock[]
+  ): Promise<void> {
+    await this.db.query('DELETE FROM agent_busy_blocks WHERE agent_id = $1', [
+      agentId,
+    ]);
+
+    for (const block of blocks) {
+      await this.db.query(
+        `INSERT INTO agent_busy_blocks (
+          id, agent_id, starts_at, ends_at, uid, imported_at
+        ) VALUES ($1, $2, $3, $4, $5, $6)`,
+        [
+          block.id,
+          block.agentId,
+          block.start,
+          block.end,
+          block.uid ?? null,
+          block.importedAt,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Busy blocks of any of the agents that overlap the period
+   */
+  async findOverlapping(
+    agentIds: string[],
+    start: Date,
+    end: Date
+  ): Promise<AgentBusyBlock[]> {
+    if (agentIds.length === 0) return [];
+
+    const result = await this.db.query(
+      `SELECT * FROM agent_busy_blocks
+       WHERE agent_id = ANY($1) AND starts_at < $3 AND ends_at > $2
+       ORDER BY starts_at ASC`,
+      [agentIds, start, end]
+    );
+    return result.rows.map((row: AgentBusyBlockRow) =>
+      mapAgentBusyBlockRow(row)
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { Queryable } from './queryable';
+import { CallbackRow, mapCallbackRow } from './mappers';
+import { Callback } from '../../types/workflow';
+
+/**
+ * Callback repository - scheduled callbacks and their attempt history
+ */
+export class CallbackRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Find a callback by id
+   */
+  async findById(id: string): Promise<Callback | null> {
+    const result = await this.db.query('SELECT * FROM callbacks WHERE id = $1', [
+      id,
+    ]);
+    return result.rows.length > 0 ? mapCallbackRow(result.rows[0]) : null;
+  }
+
+  /**
+   * List callbacks that are still pending, soonest first
+   */
+  async findPending(): Promise<Callback[]> {
+    const result = await this.db.query(
+      "SELECT * FROM callbacks WHERE status = 'pending' ORDER BY scheduled_at ASC"
+    );
+    return result.rows.map((row: CallbackRow) => mapCallbackRow(row));
+  }
+
+  /**
+   * Lock up to `limit` due callbacks for the current transaction. Rows
+   * already locked by another worker are skipped rather than waited on.
+   */
+  async claimDue(now: Date, limit: number): Promise<Callback[]> {
+    const result = await this.db.query(
+      `SELECT * FROM callbacks
+       WHERE status = 'pending' AND scheduled_at <= $1 AND attempts < max_attempts
+       ORDER BY scheduled_at ASC
+       LIMIT $2
+       FOR UPDATE SKIP LOCKED`,
+      [now, limit]
+    );
+    return result.rows.map((row: CallbackRow) => mapCallbackRow(row));
+  }
+
+  /**
+   * Insert a new callback
+   */
+  async create(callback: Callback): Promise<Callback> {
+    const result = await this.db.query(
+      `INSERT INTO callbacks (
+        id, lead_id, campaign_id, scheduled_at, status, attempts,
+        max_attempts, notes, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *`,
+      [
+        callback.id,
+        callback.leadId,
+        callback.campaignId,
+        callback.scheduledAt,
+        callback.status,
+        callback.attempts,
+        callback.maxAttempts,
+        callback.notes,
+        callback.createdAt,
+        callback.updatedAt,
+      ]
+    );
+    return mapCallbackRow(result.rows[0]);
+  }
+
+  /**
+   * Persist the status and attempt count of a callback
+   */
+  async save(callback: Callback): Promise<void> {
+    await this.db.query(
+      `UPDATE callbacks
+       SET status = $2, attempts = $3, scheduled_at = $4, notes = $5
+       WHERE id = $1`,
+      [
+        callback.id,
+        callback.status,
+        callback.attempts,
+        callback.scheduledAt,
+        callback.notes,
+      ]
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { Queryable } from './queryable';
+import { CampaignRow, mapCampaignRow } from './mappers';
+import { Campaign, CampaignPerformance } from '../../types/workflow';
+
+export type CampaignCounter = Extract<
+  keyof CampaignPerformance,
+  'totalLeads' | 'completedSteps' | 'appointmentsBooked' | 'callbacksScheduled'
+>;
+
+/**
+ * Campaign repository - workflow campaigns with their steps and performance counters
+ */
+export class CampaignRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Find a campaign by id
+   */
+  async findById(id: string): Promise<Campaign | null> {
+    const result = await this.db.query('SELECT * FROM campaigns WHERE id = $1', [
+      id,
+    ]);
+    return result.rows.length > 0 ? mapCampaignRow(result.rows[0]) : null;
+  }
+
+  /**
+   * List active campaigns, oldest first
+   */
+  async findActive(): Promise<Campaign[]> {
+    const result = await this.db.query(
+      "SELECT * FROM campaigns WHERE status = 'active' ORDER BY created_at ASC"
+    );
+    return result.rows.map((row: CampaignRow) => mapCampaignRow(row));
+  }
+
+  /**
+   * Insert a new campaign
+   */
+  async create(campaign: Campaign): Promise<Campaign> {
+    const result = await this.db.query(
+      `INSERT INTO campaigns (
+        id, name, type, status, target_audience, steps, performance,
+        created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+      RETURNING *`,
+      [
+        campaign.id,
+        campaign.name,
+        campaign.type,
+        campaign.status,
+        JSON.stringify(campaign.targetAudience),
+        JSON.stringify(campaign.steps),
+        JSON.stringify(campaign.performance),
+        campaign.createdAt,
+        campaign.updatedAt,
+      ]
+    );
+    return mapCampaignRow(result.rows[0]);
+  }
+
+  /**
+   * Atomically increment a performance counter, so concurrent workers
+   * never overwrite each other's updates. Returns false for unknown campaigns.
+   */
+  async incrementPerformance(
+    id: string,
+    counter: CampaignCounter,
+    by = 1
+  ): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE campaigns
+       SET performance = jsonb_set(
+         performance, ARRAY[$2::text],
+         to_jsonb(COALESCE((performance->>$2)::int, 0) + $3)
+       )
+       WHERE id::text = $1`,
+      [id, counter, by]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
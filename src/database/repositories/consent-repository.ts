@@ -0,0 +1,61 @@
+import { Queryable } from './queryable';
+import { ConsentEventRow, mapConsentEventRow } from './mappers';
+import { ConsentEvent } from '../../types/communication';
+
+/**
+ * Consent repository - the append-only consent ledger. Events are never
+ * updated or deleted; the latest event per channel is the current consent.
+ */
+export class ConsentRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Append a consent event
+   */
+  async record(event: ConsentEvent): Promise<ConsentEvent> {
+    const result = await this.db.query(
+      `INSERT INTO consent_events (
+        id, lead_id, channel, action, source, evidence, recorded_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING *`,
+      [
+        event.id,
+        event.leadId,
+        event.channel,
+        event.action,
+        event.source,
+        JSON.stringify(event.evidence),
+        event.recordedAt,
+      ]
+    );
+    return mapConsentEventRow(result.rows[0]);
+  }
+
+  /**
+   * Full consent history of a lead, oldest first
+   */
+  async findByLead(leadId: string): Promise<ConsentEvent[]> {
+    const result = await this.db.query(
+      'SELECT * FROM consent_events WHERE lead_id = $1 ORDER BY recorded_at ASC',
+      [leadId]
+    );
+    return result.rows.map((row: ConsentEventRow) => mapConsentEventRow(row));
+  }
+
+  /**
+   * Most recent event of a lead on a channel
+   */
+  async findLatest(
+    leadId: string,
+    channel: string
+  ): Promise<ConsentEvent | null> {
+    const result = await this.db.query(
+      `SELECT * FROM consent_events
+       WHERE lead_id = $1 AND channel = $2
+       ORDER BY recorded_at DESC
+       LIMIT 1`,
+      [leadId, channel]
+    );
+    return result.rows.length > 0 ? mapConsentEventRow(result.rows[0]) : null;
+  }
+}
@@ -0,0 +1,115 @@
+import { Queryable } from './queryable';
+import { FieldMappingProfileRow, mapFieldMappingProfileRow } from './mappers';
+import {
+  FieldMappingProfile,
+  MappingIntegration,
+} from '../../types/field-mapping';
+
+/**
+ * Field mapping profile repository - how senders' webhook payloads map to
+ * leads
+ */
+export class FieldMappingProfileRepository {
+  constructor(private db: Queryable) {}
+
+  async create(profile: FieldMappingProfile): Promise<FieldMappingProfile> {
+    const result = await this.db.query(
+      `INSERT INTO field_mapping_profiles (
+        id, name, integration, description, lead_source, source_id_path,
+        mappings, defaults, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *`,
+      [
+        profile.id,
+        profile.name,
+        profile.integration,
+        profile.description ?? null,
+        profile.leadSource,
+        profile.sourceIdPath ?? null,
+        JSON.stringify(profile.mappings),
+        JSON.stringify(profile.defaults),
+        profile.createdAt,
+        profile.updatedAt,
+      ]
+    );
+    return mapFieldMappingProfileRow(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<FieldMappingProfile | null> {
+    const result = await this.db.query(
+      'SELECT * FROM field_mapping_profiles WHERE id = $1',
+      [id]
+    );
+    return result.rows.length > 0
+      ? mapFieldMappingProfileRow(result.rows[0])
+      : null;
+  }
+
+  /**
+   * Profile a sender selected for a webhook endpoint
+   */
+  async findByName(
+    integration: MappingIntegration,
+    name: string
+  ): Promise<FieldMappingProfile | null> {
+    const result = await this.db.query(
+      `SELECT * FROM field_mapping_profiles
+       WHERE integration = $1 AND name = $2`,
+      [integration, name]
+    );
+    return result.rows.length > 0
+      ? mapFieldMappingProfileRow(result.rows[0])
+      : null;
+  }
+
+  async findAll(
+    integration?: MappingIntegration
+  ): Promise<FieldMappingProfile[]> {
+    const result = integration
+      ? await this.db.query(
+          `SELECT * FROM field_mapping_profiles WHERE integration = $1
+           ORDER BY name ASC`,
+          [integration]
+        )
+      : await this.db.query(
+          'SELECT * FROM field_mapping_profiles ORDER BY integration, name ASC'
+        );
+    return result.rows.map((row: FieldMappingProfileRow) =>
+      mapFieldMappingProfileRow(row)
+    );
+  }
+
+  /**
+   * Persist every editable field of a profile. Returns null when it no
+   * longer exists.
+   */
+  async save(profile: FieldMappingProfile): Promise<FieldMappingProfile | null> {
+    const result = await this.db.query(
+      `UPDATE field_mapping_profiles SET
+        name = $2, description = $3, lead_source = $4, source_id_path = $5,
+        mappings = $6, defaults = $7, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        profile.id,
+        profile.name,
+        profile.description ?? null,
+        profile.leadSource,
+        profile.sourceIdPath ?? null,
+        JSON.stringify(profile.mappings),
+        JSON.stringify(profile.defaults),
+      ]
+    );
+    return result.rows.length > 0
+      ? mapFieldMappingProfileRow(result.rows[0])
+      : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM field_mapping_profiles WHERE id = $1',
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
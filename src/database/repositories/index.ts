@@ -0,0 +1,127 @@
+import { DatabaseManager } from '../manager';
+import { Queryable } from './queryable';
+import { LeadRepository } from './lead-repository';
+import { InteractionRepository } from './interaction-repository';
+import { AgentPerformanceRepository } from './agent-performance-repository';
+import { AuditLogRepository } from './audit-log-repository';
+import { AppointmentRepository } from './appointment-repository';
+import { CampaignRepository } from './campaign-repository';
+import { CallbackRepository } from './callback-repository';
+import { ReminderSequenceRepository } from './reminder-sequence-repository';
+import { ConsentRepository } from './consent-repository';
+import { RoutingRuleRepository } from './routing-rule-repository';
+import { SalesAgentRepository } from './sales-agent-repository';
+import { LeadAssignmentRepository } from './lead-assignment-repository';
+import { ResponseSlaRepository } from './response-sla-repository';
+import { TranscriptRepository } from './transcript-repository';
+import { JobRepository } from './job-repository';
+import { OutboxRepository } from './outbox-repository';
+import { WebhookSubscriptionRepository } from './webhook-subscription-repository';
+import { WebhookDeliveryRepository } from './webhook-delivery-repository';
+import { FieldMappingProfileRepository } from './field-mapping-profile-repository';
+import { BusyBlockRepository } from './busy-block-repository';
+import { AgentSessionRepository } from './agent-session-repository';
+import { SyncCursorRepository } from './sync-cursor-repository';
+
+export type { Queryable } from './queryable';
+export { LeadRepository } from './lead-repository';
+export { InteractionRepository } from './interaction-repository';
+export { AgentPerformanceRepository } from './agent-performance-repository';
+export { AuditLogRepository } from './audit-log-repository';
+export { AppointmentRepository } from './appointment-repository';
+export { CampaignRepository } from './campaign-repository';
+export type { CampaignCounter } from './campaign-repository';
+export { CallbackRepository } from './callback-repository';
+export { ReminderSequenceRepository } from './reminder-sequence-repository';
+export type { DueReminder } from './reminder-sequence-repository';
+export { ConsentRepository } from './consent-repository';
+export { RoutingRuleRepository } from './routing-rule-repository';
+export { SalesAgentRepository } from './sales-agent-repository';
+export { LeadAssignmentRepository } from './lead-assignment-repository';
+export { ResponseSlaRepository } from './response-sla-repository';
+export { TranscriptRepository } from './transcript-repository';
+export type { TranscriptSearchFilters } from './transcript-repository';
+export { JobRepository } from './job-repository';
+export { OutboxRepository, withOutboxEvent } from './outbox-repository';
+export { WebhookSubscriptionRepository } from './webhook-subscription-repository';
+export { WebhookDeliveryRepository } from './webhook-delivery-repository';
+export type { WebhookAttempt } from './webhook-delivery-repository';
+export { FieldMappingProfileRepository } from './field-mapping-profile-repository';
+export { BusyBlockRepository } from './busy-block-repository';
+export { AgentSessionRepository } from './agent-session-repository';
+export { SyncCursorRepository } from './sync-cursor-repository';
+export {
+  LeadTimelineRepository,
+  DEFAULT_TIMELINE_LIMIT,
+} from './lead-timeline-repository';
+export type {
+  LeadTimelineEntry,
+  LeadStatusChange,
+} from './lead-timeline-repository';
+export * from './mappers';
+
+export interface Repositories {
+  leads: LeadRepository;
+  interactions: InteractionRepository;
+  agentPerformance: AgentPerformanceRepository;
+  auditLogs: AuditLogRepository;
+  appointments: AppointmentRepository;
+  campaigns: CampaignRepository;
+  callbacks: CallbackRepository;
+  reminderSequences: ReminderSequenceRepository;
+  consent: ConsentRepository;
+  routingRules: RoutingRuleRepository;
+  salesAgents: SalesAgentRepository;
+  leadAssignments: LeadAssignmentRepository;
+  responseSlas: ResponseSlaRepository;
+  transcripts: TranscriptRepository;
+  jobs: JobRepository;
+  outbox: OutboxRepository;
+  webhookSubscriptions: WebhookSubscriptionRepository;
+  webhookDeliveries: WebhookDeliveryRepository;
+  fieldMappingProfiles: FieldMappingProfileRepository;
+  busyBlocks: BusyBlockRepository;
+  agentSessions: AgentSessionRepository;
+  syncCursors: SyncCursorRepository;
+}
+
+/**
+ * Create the full set of repositories over one connection
+ */
+export function createRepositories(db: Queryable): Repositories {
+  return {
+    leads: new LeadRepository(db),
+    interactions: new InteractionRepository(db),
+    agentPerformance: new AgentPerformanceRepository(db),
+    auditLogs: new AuditLogRepository(db),
+    appointments: new AppointmentRepository(db),
+    campaigns: new CampaignRepository(db),
+    callbacks: new CallbackRepository(db),
+    reminderSequences: new ReminderSequenceRepository(db),
+    consent: new ConsentRepository(db),
+    routingRules: new RoutingRuleRepository(db),
+    salesAgents: new SalesAgentRepository(db),
+    leadAssignments: new LeadAssignmentRepository(db),
+    responseSlas: new ResponseSlaRepository(db),
+    transcripts: new TranscriptRepository(db),
+    jobs: new JobRepository(db),
+    outbox: new OutboxRepository(db),
+    webhookSubscriptions: new WebhookSubscriptionRepository(db),
+    webhookDeliveries: new WebhookDeliveryRepository(db),
+    fieldMappingProfiles: new FieldMappingProfileRepository(db),
+    busyBlocks: new BusyBlockRepository(db),
+    agentSessions: new AgentSessionRepository(db),
+    syncCursors: new SyncCursorRepository(db),
+  };
+}
+
+/**
+ * Run work against several repositories inside a single transaction.
+ * Everything is rolled back if the callback throws.
+ */
+export function withRepositories<T>(
+  dbManager: DatabaseManager,
+  work: (repositories: Repositories) => Promise<T>
+): Promise<T> {
+  return dbManager.transaction((client) => work(createRepositories(client)));
+}
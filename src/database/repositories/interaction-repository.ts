@@ -0,0 +1,80 @@
+import { Queryable } from './queryable';
+import {
+  INTERACTION_COLUMNS,
+  InteractionRow,
+  MappedRows,
+  interactionToParams,
+  mapInteractionRow,
+  mapRowsIndividually,
+} from './mappers';
+import { withOutboxEvent } from './outbox-repository';
+import { Interaction } from '../../types/interaction';
+
+/**
+ * Interaction repository - reads and writes interactions as validated Interaction objects
+ */
+export class InteractionRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Find an interaction by id
+   */
+  async findById(id: string): Promise<Interaction | null> {
+    const result = await this.db.query(
+      'SELECT * FROM interactions WHERE id = $1',
+      [id]
+    );
+    return result.rows.length > 0 ? mapInteractionRow(result.rows[0]) : null;
+  }
+
+  /**
+   * List interactions for a lead, newest first
+   */
+  async findByLead(leadId: string, limit = 100): Promise<Interaction[]> {
+    const result = await this.db.query(
+      `SELECT * FROM interactions WHERE lead_id = $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [leadId, limit]
+    );
+    return result.rows.map((row: InteractionRow) => mapInteractionRow(row));
+  }
+
+  /**
+   * Interactions created after a moment, most recent first. Rows that fail
+   * validation are reported rather than failing the whole read.
+   */
+  async findCreatedSince(
+    since: Date,
+    limit: number
+  ): Promise<MappedRows<Interaction>> {
+    const result = await this.db.query(
+      `SELECT * FROM interactions WHERE created_at > $1
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [since, limit]
+    );
+    return mapRowsIndividually(
+      result.rows as InteractionRow[],
+      mapInteractionRow
+    );
+  }
+
+  /**
+   * Insert a new interaction, recording interaction_completed
+   */
+  async create(interaction: Interaction): Promise<Interaction> {
+    const placeholders = INTERACTION_COLUMNS.map((_, i) => `$${i + 1}`);
+    const result = await this.db.query(
+      ...withOutboxEvent(
+        `INSERT INTO interactions (${INTERACTION_COLUMNS.join(', ')})
+         VALUES (${placeholders.join(', ')})
+         RETURNING *`,
+        interactionToParams(interaction),
+        'interaction_completed',
+        'interaction'
+      )
+    );
+    return mapInteractionRow(result.rows[0]);
+  }
+}
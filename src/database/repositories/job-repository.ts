@@ -0,0 +1,138 @@
+import { Queryable } from './queryable';
+import { JobRow, mapJobRow } from './mappers';
+import { Job } from '../../types/job';
+import type { JobStore } from '../../jobs/job-store';
+
+/**
+ * Job repository - the durable job queue. Due jobs are claimed with
+ * SKIP LOCKED, so any number of workers can poll the same table.
+ */
+export class JobRepository implements JobStore {
+  constructor(private db: Queryable) {}
+
+  async enqueue(job: Job): Promise<Job> {
+    const result = await this.db.query(
+      `INSERT INTO jobs (
+        id, type, payload, status, attempts, max_attempts, run_at,
+        idempotency_key, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (idempotency_key) DO NOTHING
+      RETURNING *`,
+      [
+        job.id,
+        job.type,
+        JSON.stringify(job.payload),
+        job.status,
+        job.attempts,
+        job.maxAttempts,
+        job.runAt,
+        job.idempotencyKey ?? null,
+        job.createdAt,
+        job.updatedAt,
+      ]
+    );
+    if (result.rows.length > 0) {
+      return mapJobRow(result.rows[0]);
+    }
+
+    const existing = await this.db.query(
+      'SELECT * FROM jobs WHERE idempotency_key = $1',
+      [job.idempotencyKey]
+    );
+    return mapJobRow(existing.rows[0]);
+  }
+
+  async claimDue(
+    workerId: string,
+    now: Date,
+    lockedUntil: Date,
+    limit: number
+  ): Promise<Job[]> {
+    const result = await this.db.query(
+      `UPDATE jobs SET
+        status = 'running',
+        attempts = attempts + 1,
+        locked_by = $1,
+        locked_until = $3,
+        updated_at = $2
+       WHERE id IN (
+         SELECT id FROM jobs
+         WHERE (status = 'pending' AND run_at <= $2)
+           OR (status = 'running' AND locked_until <= $2)
+         ORDER BY run_at ASC
+         LIMIT $4
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [workerId, now, lockedUntil, limit]
+    );
+    return result.rows
+      .map((row: JobRow) => mapJobRow(row))
+      .sort((a: Job, b: Job) => a.runAt.getTime() - b.runAt.getTime());
+  }
+
+  async complete(jobId: string, workerId: string, at: Date): Promise<void> {
+    await this.db.query(
+      `UPDATE jobs SET status = 'completed', completed_at = $3, updated_at = $3,
+        locked_by = NULL, locked_until = NULL
+       WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [jobId, workerId, at]
+    );
+  }
+
+  async reschedule(
+    jobId: string,
+    workerId: string,
+    runAt: Date,
+    options: { error?: string; deferred?: boolean }
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE jobs SET status = 'pending', run_at = $3,
+        attempts = attempts - $4,
+        last_error = COALESCE($5, last_error),
+        locked_by = NULL, locked_until = NULL, updated_at = NOW()
+       WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [jobId, workerId, runAt, options.deferred ? 1 : 0, options.error ?? null]
+    );
+  }
+
+  async bury(
+    jobId: string,
+    workerId: string,
+    error: string,
+    at: Date
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE jobs SET status = 'dead', last_error = $3, updated_at = $4,
+        locked_by = NULL, locked_until = NULL
+       WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [jobId, workerId, error, at]
+    );
+  }
+
+  async findById(jobId: string): Promise<Job | null> {
+    const result = await this.db.query('SELECT * FROM jobs WHERE id = $1', [
+      jobId,
+    ]);
+    return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+  }
+
+  async findDead(limit: number): Promise<Job[]> {
+    const result = await this.db.query(
+      "SELECT * FROM jobs WHERE status = 'dead' ORDER BY updated_at DESC LIMIT $1",
+      [limit]
+    );
+    return result.rows.map((row: JobRow) => mapJobRow(row));
+  }
+
+  async requeue(jobId: string, runAt: Date): Promise<Job | null> {
+    const result = await this.db.query(
+      `UPDATE jobs SET status = 'pending', attempts = 0, run_at = $2,
+        updated_at = NOW()
+       WHERE id = $1 AND status = 'dead'
+       RETURNING *`,
+      [jobId, runAt]
+    );
+    return result.rows.length > 0 ? mapJobRow(result.rows[0]) : null;
+  }
+}
@@ -0,0 +1,118 @@
+import { Queryable } from './queryable';
+import { LeadAssignmentRow, mapLeadAssignmentRow } from './mappers';
+import { AssignmentStatus, LeadAssignment } from '../../types/sales-agent';
+
+/**
+ * Lead assignment repository - which sales agent a lead was given to,
+ * and whether they accepted it
+ */
+export class LeadAssignmentRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Insert a new assignment. Returns null when the lead already has an
+   * open one: a lead is only ever with one agent at a time.
+   */
+  async create(assignment: LeadAssignment): Promise<LeadAssignment | null> {
+    const result = await this.db.query(
+      `INSERT INTO lead_assignments (
+        id, lead_id, agent_id, strategy, status, requirements, assigned_by,
+        assigned_at, accept_by, responded_at, previous_assignment_id
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (lead_id) WHERE status IN ('pending', 'accepted') DO NOTHING
+      RETURNING *`,
+      [
+        assignment.id,
+        assignment.leadId,
+        assignment.agentId,
+        assignment.strategy,
+        assignment.status,
+        JSON.stringify(assignment.requirements),
+        assignment.assignedBy ?? null,
+        assignment.assignedAt,
+        assignment.acceptBy,
+        assignment.respondedAt ?? null,
+        assignment.previousAssignmentId ?? null,
+      ]
+    );
+    return result.rows.length > 0 ? mapLeadAssignmentRow(result.rows[0]) : null;
+  }
+
+  async findById(id: string): Promise<LeadAssignment | null> {
+    const result = await this.db.query(
+      'SELECT * FROM lead_assignments WHERE id = $1',
+      [id]
+    );
+    return result.rows.length > 0 ? mapLeadAssignmentRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Record the outcome of an assignment
+   */
+  async updateStatus(
+    id: string,
+    status: AssignmentStatus,
+    respondedAt: Date
+  ): Promise<LeadAssignment | null> {
+    const result = await this.db.query(
+      `UPDATE lead_assignments SET status = $2, responded_at = $3
+       WHERE id = $1
+       RETURNING *`,
+      [id, status, respondedAt]
+    );
+    return result.rows.length > 0 ? mapLeadAssignmentRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Assignments that still count against an agent's capacity, optionally
+   * of one agent or one lead
+   */
+  async findOpen(
+    filter: { agentId?: string; leadId?: string } = {}
+  ): Promise<LeadAssignment[]> {
+    const result = await this.db.query(
+      `SELECT * FROM lead_assignments
+       WHERE status IN ('pending', 'accepted')
+         AND ($1::varchar IS NULL OR agent_id = $1)
+         AND ($2::uuid IS NULL OR lead_id = $2)
+       ORDER BY assigned_at ASC`,
+      [filter.agentId ?? null, filter.leadId ?? null]
+    );
+    return result.rows.map((row: LeadAssignmentRow) =>
+      mapLeadAssignmentRow(row)
+    );
+  }
+
+  /**
+   * Number of open assignments of every agent that has any, or of one agent
+   */
+  async countOpenByAgent(agentId?: string): Promise<Map<string, number>> {
+    const result = await this.db.query(
+      `SELECT agent_id, COUNT(*)::int AS open
+       FROM lead_assignments
+       WHERE status IN ('pending', 'accepted')
+         AND ($1::varchar IS NULL OR agent_id = $1)
+       GROUP BY agent_id`,
+      [agentId ?? null]
+    );
+    return new Map(
+      result.rows.map((row: { agent_id: string; open: number }) => [
+        row.agent_id,
+        Number(row.open),
+      ])
+    );
+  }
+
+  /**
+   * Every assignment of a lead, oldest first
+   */
+  async findByLead(leadId: string): Promise<LeadAssignment[]> {
+    const result = await this.db.query(
+      'SELECT * FROM lead_assignments WHERE lead_id = $1 ORDER BY assigned_at ASC',
+      [leadId]
+    );
+    return result.rows.map((row: LeadAssignmentRow) =>
+      mapLeadAssignmentRow(row)
+    );
+  }
+}
@@ -0,0 +1,161 @@
+import { Queryable } from './queryable';
+import {
+  LEAD_COLUMNS,
+  LeadRow,
+  MappedRows,
+  leadToParams,
+  mapLeadRow,
+  mapRowsIndividually,
+} from './mappers';
+import { withOutboxEvent } from './outbox-repository';
+import { Lead } from '../../types/lead';
+
+const placeholders = (count: number, offset = 0): string =>
+  Array.from({ length: count }, (_, i) => `$${i + 1 + offset}`).join(', ');
+
+/**
+ * Lead repository - reads and writes leads as validated Lead objects
+ */
+export class LeadRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Find a lead by id
+   */
+  async findById(id: string): Promise<Lead | null> {
+    const result = await this.db.query('SELECT * FROM leads WHERE id = $1', [
+      id,
+    ]);
+    return result.rows.length > 0 ? mapLeadRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Find leads by email address (case-insensitive)
+   */
+  async findByEmail(email: string): Promise<Lead[]> {
+    const result = await this.db.query(
+      'SELECT * FROM leads WHERE LOWER(email) = LOWER($1)',
+      [email]
+    );
+    return result.rows.map((row: LeadRow) => mapLeadRow(row));
+  }
+
+  /**
+   * Find leads whose phone number matches any of the given digit-only variations
+   */
+  async findByPhoneDigits(variations: string[]): Promise<Lead[]> {
+    if (variations.length === 0) return [];
+
+    const result = await this.db.query(
+      `SELECT * FROM leads WHERE regexp_replace(phone, '[^0-9]', '', 'g') IN (${placeholders(variations.length)})`,
+      variations
+    );
+    return result.rows.map((row: LeadRow) => mapLeadRow(row));
+  }
+
+  /**
+   * Find leads with a similar name using pg_trgm similarity, best match first
+   */
+  async findBySimilarName(
+    name: string,
+    threshold = 0.6
+  ): Promise<Array<{ lead: Lead; similarity: number }>> {
+    const result = await this.db.query(
+      `SELECT *, similarity(name, $1) as name_similarity 
+       FROM leads 
+       WHERE similarity(name, $1) > $2
+       ORDER BY name_similarity DESC`,
+      [name, threshold]
+    );
+    return result.rows.map((row: LeadRow & { name_similarity: number }) => ({
+      lead: mapLeadRow(row),
+      similarity: Number(row.name_similarity),
+    }));
+  }
+
+  /**
+   * Leads updated after a moment, most recent first. Rows that fail
+   * validation are reported rather than failing the whole read.
+   */
+  async findUpdatedSince(
+    since: Date,
+    limit: number
+  ): Promise<MappedRows<Lead>> {
+    const result = await this.db.query(
+      `SELECT * FROM leads WHERE updated_at > $1
+       ORDER BY updated_at DESC
+       LIMIT $2`,
+      [since, limit]
+    );
+    return mapRowsIndividually(result.rows as LeadRow[], mapLeadRow);
+  }
+
+  /**
+   * Insert a new lead, recording lead_created
+   */
+  async create(lead: Lead): Promise<Lead> {
+    const result = await this.db.query(
+      ...withOutboxEvent(
+        `INSERT INTO leads (${LEAD_COLUMNS.join(', ')})
+         VALUES (${placeholders(LEAD_COLUMNS.length)})
+         RETURNING *`,
+        leadToParams(lead),
+        'lead_created',
+        'lead'
+      )
+    );
+    return mapLeadRow(result.rows[0]);
+  }
+
+  /**
+   * Persist every field of an existing lead, recording lead_updated.
+   * Returns null when it no longer exists.
+   */
+  async save(lead: Lead): Promise<Lead | null> {
+    const [, ...columns] = LEAD_COLUMNS;
+    const assignments = columns.map((column, i) => `${column} = $${i + 2}`);
+
+    const result = await this.db.query(
+      ...withOutboxEvent(
+        `UPDATE leads SET ${assignments.join(', ')} WHERE id = $1 RETURNING *`,
+        leadToParams(lead),
+        'lead_updated',
+        'lead'
+      )
+    );
+    return result.rows.length > 0 ? mapLeadRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Set or clear the agent a lead is assigned to, recording lead_routed.
+   * Returns null when the lead does not exist.
+   */
+  async assignAgent(id: string, agentId: string | null): Promise<Lead | null> {
+    const result = await this.db.query(
+      ...withOutboxEvent(
+        `UPDATE leads SET assigned_agent = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $1 RETURNING *`,
+        [id, agentId],
+        'lead_routed',
+        'lead'
+      )
+    );
+    return result.rows.length > 0 ? mapLeadRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Delete a lead, recording lead_deleted with the lead as it was. Returns
+   * false when nothing was deleted.
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      ...withOutboxEvent(
+        'DELETE FROM leads WHERE id = $1 RETURNING *',
+        [id],
+        'lead_deleted',
+        'lead'
+      )
+    );
+    return result.rows.length > 0;
+  }
+}
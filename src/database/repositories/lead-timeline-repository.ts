@@ -0,0 +1,99 @@
+import { Queryable } from './queryable';
+import { InteractionRepository } from './interaction-repository';
+import { AuditLogRepository } from './audit-log-repository';
+import { AppointmentRepository } from './appointment-repository';
+import { Interaction } from '../../types/interaction';
+import { Appointment } from '../../types/appointment';
+
+export interface LeadStatusChange {
+  auditLogId: string;
+  from: string | null;
+  to: string;
+  agentId: string;
+  userId?: string;
+}
+
+export type LeadTimelineEntry =
+  | { type: 'interaction'; timestamp: Date; data: Interaction }
+  | { type: 'status_change'; timestamp: Date; data: LeadStatusChange }
+  | { type: 'appointment'; timestamp: Date; data: Appointment };
+
+export const DEFAULT_TIMELINE_LIMIT = 100;
+
+// Entries sharing a timestamp are ordered by what usually causes what
+const TYPE_ORDER: Record<LeadTimelineEntry['type'], number> = {
+  interaction: 0,
+  status_change: 1,
+  appointment: 2,
+};
+
+/**
+ * Lead timeline repository - merges interactions, status changes and
+ * appointments of a lead into a single chronological feed
+ */
+export class LeadTimelineRepository {
+  private interactions: InteractionRepository;
+  private auditLogs: AuditLogRepository;
+  private appointments: AppointmentRepository;
+
+  constructor(db: Queryable) {
+    this.interactions = new InteractionRepository(db);
+    this.auditLogs = new AuditLogRepository(db);
+    this.appointments = new AppointmentRepository(db);
+  }
+
+  /**
+   * The most recent `limit` timeline entries of a lead, oldest first.
+   * Appointments are placed at the time they are scheduled for.
+   */
+  async findByLead(
+    leadId: string,
+    limit = DEFAULT_TIMELINE_LIMIT
+  ): Promise<LeadTimelineEntry[]> {
+    const [interactions, auditLogs, appointments] = await Promise.all([
+      this.interactions.findByLead(leadId, limit),
+      this.auditLogs.findByEntity('lead', leadId),
+      this.appointments.findByLead(leadId),
+    ]);
+
+    const entries: LeadTimelineEntry[] = [
+      ...interactions.map(
+        (interaction): LeadTimelineEntry => ({
+          type: 'interaction',
+          timestamp: interaction.timestamp,
+          data: interaction,
+        })
+      ),
+      ...auditLogs
+        .filter((entry) => entry.changes.status !== undefined)
+        .map(
+          (entry): LeadTimelineEntry => ({
+            type: 'status_change',
+            timestamp: entry.timestamp,
+            data: {
+              auditLogId: entry.id,
+              from: entry.changes.status.old ?? null,
+              to: entry.changes.status.new,
+              agentId: entry.agentId,
+              userId: entry.userId,
+            },
+          })
+        ),
+      ...appointments.map(
+        (appointment): LeadTimelineEntry => ({
+          type: 'appointment',
+          timestamp: appointment.scheduledAt,
+          data: appointment,
+        })
+      ),
+    ];
+
+    entries.sort(
+      (a, b) =>
+        a.timestamp.getTime() - b.timestamp.getTime() ||
+        TYPE_ORDER[a.type] - TYPE_ORDER[b.type]
+    );
+
+    return entries.slice(-limit);
+  }
+}
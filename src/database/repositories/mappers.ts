@@ -0,0 +1,1069 @@
+import { LeadRecord } from '../manager';
+import { Lead, LeadValidation } from '../../types/lead';
+import { Interaction, InteractionValidation } from '../../types/interaction';
+import {
+  AgentPerformance,
+  AgentPerformanceValidation,
+} from '../../types/agent-performance';
+import { AuditLogEntry, AuditLogValidation } from '../../types/audit-log';
+import {
+  AgentBusyBlock,
+  Appointment,
+  AppointmentValidation,
+} from '../../types/appointment';
+import {
+  Campaign,
+  Callback,
+  Reminder,
+  ReminderSequence,
+  WorkflowValidation,
+} from '../../types/workflow';
+import {
+  CommunicationValidation,
+  ConsentEvent,
+} from '../../types/communication';
+import {
+  RoutingRuleValidation,
+  RoutingRuleVersion,
+} from '../../types/routing-rule';
+import {
+  LeadAssignment,
+  SalesAgent,
+  SalesAgentValidation,
+} from '../../types/sales-agent';
+import {
+  ResponseSlaRecord,
+  ResponseSlaValidation,
+} from '../../types/response-sla';
+import {
+  InteractionTranscript,
+  TranscriptValidation,
+} from '../../types/transcript';
+import { Job, JobValidation } from '../../types/job';
+import {
+  AgentSession,
+  AgentSessionValidation,
+} from '../../types/agent-session';
+import { DomainEventValidation, OutboxEvent } from '../../types/domain-event';
+import {
+  WebhookDelivery,
+  WebhookSubscription,
+  WebhookValidation,
+} from '../../types/webhook';
+import {
+  FieldMappingProfile,
+  FieldMappingValidation,
+} from '../../types/field-mapping';
+
+/**
+ * Raw rows as returned by pg. DECIMAL columns arrive as strings and
+ * nullable columns as null, so the mappers normalise both.
+ */
+export type LeadRow = LeadRecord;
+
+export interface InteractionRow {
+  id: string;
+  lead_id: string;
+  agent_id: string;
+  type: string;
+  direction: string;
+  content: string | null;
+  outcome_status: string;
+  appointment_booked: boolean;
+  qualification_updated: boolean;
+  escalation_required: boolean;
+  duration_seconds: number | null;
+  sentiment_score: string | number | null;
+  sentiment_confidence: string | number | null;
+  next_action: string | null;
+  next_action_description: string | null;
+  next_action_scheduled_at: Date | null;
+  created_at: Date;
+}
+
+export interface AgentPerformanceRow {
+  id: string;
+  agent_id: string;
+  period_start: Date;
+  period_end: Date;
+  total_interactions: number;
+  conversion_rate: string | number;
+  average_response_time_ms: number;
+  appointment_booking_rate: string | number;
+  customer_satisfaction_score: string | number;
+  script_performance: any[] | null;
+  optimization_suggestions: string[] | null;
+  created_at: Date;
+}
+
+export interface AuditLogRow {
+  id: string;
+  entity_type: string;
+  entity_id: string;
+  action: string;
+  changes: Record<string, { old: any; new: any }>;
+  user_id: string | null;
+  agent_id: string;
+  timestamp: Date;
+  metadata: Record<string, any> | null;
+}
+
+export interface AppointmentRow {
+  id: string;
+  lead_id: string;
+  campaign_id: string | null;
+  agent_id: string | null;
+  type: string;
+  status: string;
+  scheduled_at: Date;
+  duration_minutes: number;
+  location: string | null;
+  notes: string | null;
+  confirmation_sent: boolean;
+  reminders_sent: number;
+  sequence: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AgentBusyBlockRow {
+  id: string;
+  agent_id: string;
+  starts_at: Date;
+  ends_at: Date;
+  uid: string | null;
+  imported_at: Date;
+}
+
+export interface AgentSessionRow {
+  id: string;
+  kind: string;
+  lead_id: string;
+  status: string;
+  state: Record<string, any>;
+  started_at: Date;
+  updated_at: Date;
+}
+
+export interface CampaignRow {
+  id: string;
+  name: string;
+  type: string;
+  status: string;
+  target_audience: Record<string, any>;
+  steps: any[];
+  performance: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CallbackRow {
+  id: string;
+  lead_id: string;
+  campaign_id: string | null;
+  scheduled_at: Date;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  notes: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ConsentEventRow {
+  id: string;
+  lead_id: string;
+  channel: string;
+  action: string;
+  source: string;
+  evidence: Record<string, unknown> | null;
+  recorded_at: Date;
+}
+
+export interface RoutingRuleVersionRow {
+  rule_id: string;
+  version: number;
+  change: string;
+  definition: Record<string, unknown> | null;
+  restored_from_version: number | null;
+  changed_by: string | null;
+  created_at: Date;
+}
+
+export interface SalesAgentRow {
+  id: string;
+  name: string;
+  email: string | null;
+  manager_email: string | null;
+  skills: Record<string, unknown>;
+  max_concurrent_leads: number;
+  weight: number;
+  timezone: string;
+  working_hours: unknown[];
+  out_of_office: unknown[];
+  active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface LeadAssignmentRow {
+  id: string;
+  lead_id: string;
+  agent_id: string;
+  strategy: string;
+  status: string;
+  requirements: Record<string, unknown> | null;
+  assigned_by: string | null;
+  assigned_at: Date;
+  accept_by: Date;
+  responded_at: Date | null;
+  previous_assignment_id: string | null;
+}
+
+export interface ResponseSlaRow {
+  lead_id: string;
+  source: string;
+  status: string;
+  started_at: Date;
+  due_at: Date;
+  first_touch_at: Date | null;
+  first_touch_interaction_id: string | null;
+  first_touch_agent_id: string | null;
+  assigned_agent_id: string | null;
+  breached_at: Date | null;
+  escalation_level: number;
+}
+
+export interface InteractionTranscriptRow {
+  interaction_id: string;
+  lead_id: string;
+  session_id: string | null;
+  channel: string;
+  turns: unknown[];
+  recording_url: string | null;
+  recording_content_type: string | null;
+  recording_duration_seconds: number | null;
+  redactions: number;
+  created_at: Date;
+}
+
+export interface JobRow {
+  id: string;
+  type: string;
+  payload: Record<string, any>;
+  status: string;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  idempotency_key: string | null;
+  locked_by: string | null;
+  locked_until: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export interface OutboxEventRow {
+  id: string;
+  event_type: string;
+  aggregate_type: string;
+  aggregate_id: string;
+  payload: Record<string, any>;
+  occurred_at: Date;
+  attempts: number;
+  delivered_to: string[];
+  next_attempt_at: Date;
+  last_error: string | null;
+  published_at: Date | null;
+}
+
+export interface WebhookSubscriptionRow {
+  id: string;
+  url: string;
+  description: string | null;
+  event_types: string[];
+  filter: Record<string, any> | null;
+  secret: string;
+  status: string;
+  consecutive_failures: number;
+  disabled_at: Date | null;
+  disabled_reason: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WebhookDeliveryRow {
+  id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: string;
+  body: Record<string, any>;
+  status: string;
+  attempts: number;
+  response_status: number | null;
+  response_body: string | null;
+  last_error: string | null;
+  duration_ms: number | null;
+  last_attempt_at: Date | null;
+  delivered_at: Date | null;
+  created_at: Date;
+}
+
+export interface FieldMappingProfileRow {
+  id: string;
+  name: string;
+  integration: string;
+  description: string | null;
+  lead_source: string;
+  source_id_path: string | null;
+  mappings: Record<string, any>[];
+  defaults: Record<string, any>;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface ReminderSequenceRow {
+  id: string;
+  appointment_id: string;
+  status: string;
+  created_at: Date;
+}
+
+export interface ReminderRow {
+  id: string;
+  sequence_id: string;
+  type: string;
+  scheduled_at: Date;
+  status: string;
+  content: string;
+  sent_at: Date | null;
+}
+
+const optional = <T>(value: T | null | undefined): T | undefined =>
+  value === null ? undefined : value;
+
+const toNumber = (value: string | number | null | undefined): number | undefined =>
+  value === null || value === undefined ? undefined : Number(value);
+
+const reminderFields = (row: ReminderRow) => ({
+  id: row.id,
+  type: row.type,
+  scheduledAt: row.scheduled_at,
+  status: row.status,
+  content: row.content,
+  sentAt: optional(row.sent_at),
+});
+
+/**
+ * Rows read one by one, so a single invalid row does not fail the batch
+ */
+export interface MappedRows<T> {
+  records: T[];
+  invalid: Array<{ id: string; error: string }>;
+}
+
+export function mapRowsIndividually<R extends { id: string }, T>(
+  rows: R[],
+  map: (row: R) => T
+): MappedRows<T> {
+  const mapped: MappedRows<T> = { records: [], invalid: [] };
+  for (const row of rows) {
+    try {
+      mapped.records.push(map(row));
+    } catch (error) {
+      mapped.invalid.push({
+        id: row.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Map a leads row to a validated Lead
+ */
+export function mapLeadRow(row: LeadRow): Lead {
+  const hasBudget =
+    (row.budget_min !== null && row.budget_min !== undefined) ||
+    (row.budget_max !== null && row.budget_max !== undefined);
+
+  const validation = LeadValidation.validateLead({
+    id: row.id,
+    source: row.source,
+    contactInfo: {
+      name: row.name,
+      email: optional(row.email),
+      phone: optional(row.phone),
+      preferredChannel: optional(row.preferred_channel),
+      timezone: optional(row.timezone),
+    },
+    leadType: row.lead_type,
+    urgencyLevel: optional(row.urgency_level),
+    intentSignals: optional(row.intent_signals),
+    qualificationData: {
+      budget: hasBudget
+        ? { min: toNumber(row.budget_min), max: toNumber(row.budget_max) }
+        : undefined,
+      location: optional(row.location),
+      propertyType: optional(row.property_type),
+      timeline: optional(row.timeline),
+      qualificationScore: toNumber(row.qualification_score),
+    },
+    status: optional(row.status),
+    assignedAgent: optional(row.assigned_agent),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Column values for a Lead, in LEAD_COLUMNS order
+ */
+export function leadToParams(lead: Lead): any[] {
+  return [
+    lead.id,
+    lead.source,
+    lead.contactInfo.name,
+    lead.contactInfo.email,
+    lead.contactInfo.phone,
+    lead.contactInfo.preferredChannel,
+    lead.contactInfo.timezone,
+    lead.leadType,
+    lead.urgencyLevel,
+    lead.intentSignals,
+    lead.qualificationData.budget?.min,
+    lead.qualificationData.budget?.max,
+    lead.qualificationData.location,
+    lead.qualificationData.propertyType,
+    lead.qualificationData.timeline,
+    lead.qualificationData.qualificationScore,
+    lead.status,
+    lead.assignedAgent,
+    lead.createdAt,
+    lead.updatedAt,
+  ];
+}
+
+export const LEAD_COLUMNS = [
+  'id',
+  'source',
+  'name',
+  'email',
+  'phone',
+  'preferred_channel',
+  'timezone',
+  'lead_type',
+  'urgency_level',
+  'intent_signals',
+  'budget_min',
+  'budget_max',
+  'location',
+  'property_type',
+  'timeline',
+  'qualification_score',
+  'status',
+  'assigned_agent',
+  'created_at',
+  'updated_at',
+];
+
+/**
+ * Map an interactions row to a validated Interaction
+ */
+export function mapInteractionRow(row: InteractionRow): Interaction {
+  const sentimentScore = toNumber(row.sentiment_score);
+
+  const validation = InteractionValidation.validateInteraction({
+    id: row.id,
+    leadId: row.lead_id,
+    agentId: row.agent_id,
+    type: row.type,
+    direction: row.direction,
+    content: row.content,
+    outcome: {
+      status: row.outcome_status,
+      appointmentBooked: !!row.appointment_booked,
+      qualificationUpdated: !!row.qualification_updated,
+      escalationRequired: !!row.escalation_required,
+    },
+    duration: optional(row.duration_seconds),
+    sentiment:
+      sentimentScore !== undefined
+        ? {
+            score: sentimentScore,
+            confidence: toNumber(row.sentiment_confidence) ?? 1,
+          }
+        : undefined,
+    nextAction:
+      row.next_action && row.next_action_scheduled_at
+        ? {
+            action: row.next_action,
+            scheduledAt: row.next_action_scheduled_at,
+            description: optional(row.next_action_description),
+          }
+        : undefined,
+    timestamp: row.created_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Column values for an Interaction, in INTERACTION_COLUMNS order
+ */
+export function interactionToParams(interaction: Interaction): any[] {
+  return [
+    interaction.id,
+    interaction.leadId,
+    interaction.agentId,
+    interaction.type,
+    interaction.direction,
+    interaction.content,
+    interaction.outcome.status,
+    interaction.outcome.appointmentBooked,
+    interaction.outcome.qualificationUpdated,
+    interaction.outcome.escalationRequired,
+    interaction.duration,
+    interaction.sentiment?.score,
+    interaction.sentiment?.confidence,
+    interaction.nextAction?.action,
+    interaction.nextAction?.description,
+    interaction.nextAction?.scheduledAt,
+    interaction.timestamp,
+  ];
+}
+
+export const INTERACTION_COLUMNS = [
+  'id',
+  'lead_id',
+  'agent_id',
+  'type',
+  'direction',
+  'content',
+  'outcome_status',
+  'appointment_booked',
+  'qualification_updated',
+  'escalation_required',
+  'duration_seconds',
+  'sentiment_score',
+  'sentiment_confidence',
+  'next_action',
+  'next_action_description',
+  'next_action_scheduled_at',
+  'created_at',
+];
+
+/**
+ * Map an agent_performance row to a validated AgentPerformance
+ */
+export function mapAgentPerformanceRow(
+  row: AgentPerformanceRow
+): AgentPerformance {
+  const validation = AgentPerformanceValidation.validateAgentPerformance({
+    id: row.id,
+    agentId: row.agent_id,
+    period: { start: row.period_start, end: row.period_end },
+    metrics: {
+      totalInteractions: row.total_interactions,
+      conversionRate: toNumber(row.conversion_rate),
+      averageResponseTime: row.average_response_time_ms,
+      appointmentBookingRate: toNumber(row.appointment_booking_rate),
+      customerSatisfactionScore: toNumber(row.customer_satisfaction_score),
+    },
+    scriptPerformance: row.script_performance || [],
+    optimizationSuggestions: row.optimization_suggestions || [],
+    createdAt: row.created_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map an audit_logs row to a validated AuditLogEntry
+ */
+export function mapAuditLogRow(row: AuditLogRow): AuditLogEntry {
+  const validation = AuditLogValidation.validateAuditLogEntry({
+    id: row.id,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    action: row.action,
+    changes: row.changes,
+    userId: optional(row.user_id),
+    agentId: row.agent_id,
+    timestamp: row.timestamp,
+    metadata: optional(row.metadata),
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map an appointments row to a validated Appointment
+ */
+export function mapAppointmentRow(row: AppointmentRow): Appointment {
+  const validation = AppointmentValidation.validateAppointment({
+    id: row.id,
+    leadId: row.lead_id,
+    campaignId: optional(row.campaign_id),
+    agentId: optional(row.agent_id),
+    type: row.type,
+    status: row.status,
+    scheduledAt: row.scheduled_at,
+    duration: row.duration_minutes,
+    location: optional(row.location),
+    notes: optional(row.notes),
+    confirmationSent: !!row.confirmation_sent,
+    remindersSent: row.reminders_sent ?? 0,
+    sequence: row.sequence ?? 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Column values for an Appointment, in APPOINTMENT_COLUMNS order
+ */
+export function appointmentToParams(appointment: Appointment): any[] {
+  return [
+    appointment.id,
+    appointment.leadId,
+    appointment.campaignId,
+    appointment.agentId,
+    appointment.type,
+    appointment.status,
+    appointment.scheduledAt,
+    appointment.duration,
+    appointment.location,
+    appointment.notes,
+    appointment.confirmationSent,
+    appointment.remindersSent,
+    appointment.sequence ?? 0,
+    appointment.createdAt,
+    appointment.updatedAt,
+  ];
+}
+
+export const APPOINTMENT_COLUMNS = [
+  'id',
+  'lead_id',
+  'campaign_id',
+  'agent_id',
+  'type',
+  'status',
+  'scheduled_at',
+  'duration_minutes',
+  'location',
+  'notes',
+  'confirmation_sent',
+  'reminders_sent',
+  'sequence',
+  'created_at',
+  'updated_at',
+];
+
+/**
+ * Map an agent_busy_blocks row to a validated AgentBusyBlock
+ */
+export function mapAgentBusyBlockRow(row: AgentBusyBlockRow): AgentBusyBlock {
+  const validation = AppointmentValidation.validateBusyBlock({
+    id: row.id,
+    agentId: row.agent_id,
+    start: row.starts_at,
+    end: row.ends_at,
+    uid: optional(row.uid),
+    importedAt: row.imported_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+export function mapAgentSessionRow(row: AgentSessionRow): AgentSession {
+  const validation = AgentSessionValidation.validateSession({
+    id: row.id,
+    kind: row.kind,
+    leadId: row.lead_id,
+    status: row.status,
+    state: row.state,
+    startedAt: row.started_at,
+    updatedAt: row.updated_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a campaigns row to a validated Campaign
+ */
+export function mapCampaignRow(row: CampaignRow): Campaign {
+  const validation = WorkflowValidation.validateCampaign({
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    status: row.status,
+    targetAudience: row.target_audience,
+    steps: row.steps,
+    performance: row.performance,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a callbacks row to a validated Callback
+ */
+export function mapCallbackRow(row: CallbackRow): Callback {
+  const validation = WorkflowValidation.validateCallback({
+    id: row.id,
+    leadId: row.lead_id,
+    campaignId: optional(row.campaign_id),
+    scheduledAt: row.scheduled_at,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    notes: optional(row.notes),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a reminder_sequences row and its reminders rows to a validated ReminderSequence
+ */
+export function mapReminderSequenceRow(
+  row: ReminderSequenceRow,
+  reminders: ReminderRow[]
+): ReminderSequence {
+  const validation = WorkflowValidation.validateReminderSequence({
+    id: row.id,
+    appointmentId: row.appointment_id,
+    status: row.status,
+    createdAt: row.created_at,
+    reminders: reminders.map(reminderFields),
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a reminders row to a validated Reminder
+ */
+export function mapReminderRow(row: ReminderRow): Reminder {
+  const validation = WorkflowValidation.validateReminder(reminderFields(row));
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a consent_events row to a validated ConsentEvent
+ */
+export function mapConsentEventRow(row: ConsentEventRow): ConsentEvent {
+  const validation = CommunicationValidation.validateConsentEvent({
+    id: row.id,
+    leadId: row.lead_id,
+    channel: row.channel,
+    action: row.action,
+    source: row.source,
+    evidence: row.evidence ?? {},
+    recordedAt: row.recorded_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a routing_rule_versions row to a validated RoutingRuleVersion
+ */
+export function mapRoutingRuleVersionRow(
+  row: RoutingRuleVersionRow
+): RoutingRuleVersion {
+  const validation = RoutingRuleValidation.validateRoutingRuleVersion({
+    ruleId: row.rule_id,
+    version: row.version,
+    change: row.change,
+    definition: row.definition,
+    restoredFromVersion: row.restored_from_version ?? undefined,
+    changedBy: row.changed_by ?? undefined,
+    createdAt: row.created_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a sales_agents row to a validated SalesAgent
+ */
+export function mapSalesAgentRow(row: SalesAgentRow): SalesAgent {
+  const validation = SalesAgentValidation.validateSalesAgent({
+    id: row.id,
+    name: row.name,
+    email: optional(row.email),
+    managerEmail: optional(row.manager_email),
+    skills: row.skills,
+    maxConcurrentLeads: row.max_concurrent_leads,
+    weight: row.weight,
+    timezone: row.timezone,
+    workingHours: row.working_hours,
+    outOfOffice: row.out_of_office,
+    active: row.active,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a lead_assignments row to a validated LeadAssignment
+ */
+export function mapLeadAssignmentRow(row: LeadAssignmentRow): LeadAssignment {
+  const validation = SalesAgentValidation.validateLeadAssignment({
+    id: row.id,
+    leadId: row.lead_id,
+    agentId: row.agent_id,
+    strategy: row.strategy,
+    status: row.status,
+    requirements: row.requirements ?? {},
+    assignedBy: optional(row.assigned_by),
+    assignedAt: row.assigned_at,
+    acceptBy: row.accept_by,
+    respondedAt: optional(row.responded_at),
+    previousAssignmentId: optional(row.previous_assignment_id),
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a lead_response_slas row to a validated ResponseSlaRecord
+ */
+export function mapResponseSlaRow(row: ResponseSlaRow): ResponseSlaRecord {
+  const validation = ResponseSlaValidation.validateResponseSlaRecord({
+    leadId: row.lead_id,
+    source: row.source,
+    status: row.status,
+    startedAt: row.started_at,
+    dueAt: row.due_at,
+    firstTouchAt: optional(row.first_touch_at),
+    firstTouchInteractionId: optional(row.first_touch_interaction_id),
+    firstTouchAgentId: optional(row.first_touch_agent_id),
+    assignedAgentId: optional(row.assigned_agent_id),
+    breachedAt: optional(row.breached_at),
+    escalationLevel: row.escalation_level,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map an interaction_transcripts row to a validated InteractionTranscript
+ */
+export function mapInteractionTranscriptRow(
+  row: InteractionTranscriptRow
+): InteractionTranscript {
+  const validation = TranscriptValidation.validateInteractionTranscript({
+    interactionId: row.interaction_id,
+    leadId: row.lead_id,
+    sessionId: optional(row.session_id),
+    channel: row.channel,
+    turns: row.turns,
+    recording: row.recording_url
+      ? {
+          url: row.recording_url,
+          contentType: optional(row.recording_content_type),
+          durationSeconds: optional(row.recording_duration_seconds),
+        }
+      : undefined,
+    redactions: row.redactions,
+    createdAt: row.created_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+export function mapJobRow(row: JobRow): Job {
+  const validation = JobValidation.validateJob({
+    id: row.id,
+    type: row.type,
+    payload: row.payload,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    idempotencyKey: optional(row.idempotency_key),
+    lockedBy: optional(row.locked_by),
+    lockedUntil: optional(row.locked_until),
+    lastError: optional(row.last_error),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: optional(row.completed_at),
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map an outbox_events row to a validated OutboxEvent
+ */
+export function mapOutboxEventRow(row: OutboxEventRow): OutboxEvent {
+  const validation = DomainEventValidation.validateOutboxEvent({
+    id: row.id,
+    type: row.event_type,
+    aggregateType: row.aggregate_type,
+    aggregateId: row.aggregate_id,
+    payload: row.payload,
+    occurredAt: row.occurred_at,
+    attempts: row.attempts,
+    deliveredTo: row.delivered_to,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: optional(row.last_error),
+    publishedAt: optional(row.published_at),
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a webhook_subscriptions row to a validated WebhookSubscription
+ */
+export function mapWebhookSubscriptionRow(
+  row: WebhookSubscriptionRow
+): WebhookSubscription {
+  const validation = WebhookValidation.validateSubscription({
+    id: row.id,
+    url: row.url,
+    description: optional(row.description),
+    eventTypes: row.event_types,
+    filter: optional(row.filter),
+    secret: row.secret,
+    status: row.status,
+    consecutiveFailures: row.consecutive_failures,
+    disabledAt: optional(row.disabled_at),
+    disabledReason: optional(row.disabled_reason),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a webhook_deliveries row to a validated WebhookDelivery
+ */
+export function mapWebhookDeliveryRow(row: WebhookDeliveryRow): WebhookDelivery {
+  const validation = WebhookValidation.validateDelivery({
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    body: row.body,
+    status: row.status,
+    attempts: row.attempts,
+    responseStatus: optional(row.response_status),
+    responseBody: optional(row.response_body),
+    lastError: optional(row.last_error),
+    durationMs: optional(row.duration_ms),
+    lastAttemptAt: optional(row.last_attempt_at),
+    deliveredAt: optional(row.delivered_at),
+    createdAt: row.created_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
+
+/**
+ * Map a field_mapping_profiles row to a validated FieldMappingProfile
+ */
+export function mapFieldMappingProfileRow(
+  row: FieldMappingProfileRow
+): FieldMappingProfile {
+  const validation = FieldMappingValidation.validateProfile({
+    id: row.id,
+    name: row.name,
+    integration: row.integration,
+    description: optional(row.description),
+    leadSource: row.lead_source,
+    sourceIdPath: optional(row.source_id_path),
+    mappings: row.mappings,
+    defaults: row.defaults,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  });
+
+  if (!validation.success) {
+    throw validation.error;
+  }
+  return validation.data;
+}
@@ -0,0 +1,121 @@
+import { Queryable } from './queryable';
+import { OutboxEventRow, mapOutboxEventRow } from './mappers';
+import {
+  AggregateType,
+  DomainEvent,
+  DomainEventType,
+  OutboxEvent,
+} from '../../types/domain-event';
+import type { OutboxStore } from '../../events/outbox-store';
+
+/**
+ * Turn a write ending in RETURNING * into one that also records a domain
+ * event for every row it returns, with the stored row as the payload.
+ * Being a single statement, the event is committed exactly when the write
+ * is, inside a transaction or not.
+ */
+export function withOutboxEvent(
+  statement: string,
+  params: any[],
+  type: DomainEventType,
+  aggregateType: AggregateType
+): [string, any[]] {
+  const write = statement.trim().replace(/;$/, '');
+  return [
+    `WITH saved AS (${write}),
+     recorded AS (
+       INSERT INTO outbox_events (event_type, aggregate_type, aggregate_id, payload)
+       SELECT $${params.length + 1}, $${params.length + 2}, saved.id::text, to_jsonb(saved)
+       FROM saved
+     )
+     SELECT * FROM saved`,
+    [...params, type, aggregateType],
+  ];
+}
+
+/**
+ * Outbox repository - domain events waiting to be relayed. Due events are
+ * claimed with SKIP LOCKED, so several relays can poll the same table.
+ */
+export class OutboxRepository implements OutboxStore {
+  constructor(private db: Queryable) {}
+
+  async append(event: DomainEvent): Promise<OutboxEvent> {
+    const result = await this.db.query(
+      `INSERT INTO outbox_events (
+        id, event_type, aggregate_type, aggregate_id, payload, occurred_at,
+        next_attempt_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $6)
+      RETURNING *`,
+      [
+        event.id,
+        event.type,
+        event.aggregateType,
+        event.aggregateId,
+        JSON.stringify(event.payload),
+        event.occurredAt,
+      ]
+    );
+    return mapOutboxEventRow(result.rows[0]);
+  }
+
+  async claimDue(
+    now: Date,
+    lockedUntil: Date,
+    limit: number
+  ): Promise<OutboxEvent[]> {
+    const result = await this.db.query(
+      `UPDATE outbox_events SET
+        attempts = attempts + 1,
+        next_attempt_at = $2
+       WHERE id IN (
+         SELECT id FROM outbox_events
+         WHERE published_at IS NULL AND next_attempt_at <= $1
+         ORDER BY occurred_at ASC
+         LIMIT $3
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [now, lockedUntil, limit]
+    );
+    return result.rows
+      .map((row: OutboxEventRow) => mapOutboxEventRow(row))
+      .sort(
+        (a: OutboxEvent, b: OutboxEvent) =>
+          a.occurredAt.getTime() - b.occurredAt.getTime()
+      );
+  }
+
+  async markPublished(
+    eventId: string,
+    deliveredTo: string[],
+    at: Date
+  ): Promise<void> {
+    await this.db.query(
+      'UPDATE outbox_events SET delivered_to = $2, published_at = $3 WHERE id = $1',
+      [eventId, deliveredTo, at]
+    );
+  }
+
+  async markFailed(
+    eventId: string,
+    deliveredTo: string[],
+    error: string,
+    nextAttemptAt: Date
+  ): Promise<void> {
+    await this.db.query(
+      `UPDATE outbox_events SET delivered_to = $2, last_error = $3,
+        next_attempt_at = $4
+       WHERE id = $1`,
+      [eventId, deliveredTo, error, nextAttemptAt]
+    );
+  }
+
+  async findById(eventId: string): Promise<OutboxEvent | null> {
+    const result = await this.db.query(
+      'SELECT * FROM outbox_events WHERE id = $1',
+      [eventId]
+    );
+    return result.rows.length > 0 ? mapOutboxEventRow(result.rows[0]) : null;
+  }
+}
@@ -0,0 +1,9 @@
+import { QueryResult } from 'pg';
+
+/**
+ * Anything repositories can run SQL against: the DatabaseManager itself,
+ * the pg Pool, or a PoolClient taking part in a transaction.
+ */
+export interface Queryable {
+  query(text: string, params?: any[]): Promise<QueryResult>;
+}
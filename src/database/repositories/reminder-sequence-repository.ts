@@ -0,0 +1,157 @@
+import { Queryable } from './queryable';
+import {
+  ReminderRow,
+  ReminderSequenceRow,
+  mapReminderRow,
+  mapReminderSequenceRow,
+} from './mappers';
+import { Reminder, ReminderSequence } from '../../types/workflow';
+
+export interface DueReminder {
+  sequenceId: string;
+  appointmentId: string;
+  leadId: string;
+  reminder: Reminder;
+}
+
+/**
+ * Reminder sequence repository - appointment reminder sequences and their reminders
+ */
+export class ReminderSequenceRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * List active sequences with their reminders
+   */
+  async findActive(): Promise<ReminderSequence[]> {
+    const result = await this.db.query(
+      "SELECT * FROM reminder_sequences WHERE status = 'active' ORDER BY created_at ASC"
+    );
+    return this.withReminders(result.rows);
+  }
+
+  /**
+   * List every sequence of an appointment, oldest first
+   */
+  async findByAppointment(appointmentId: string): Promise<ReminderSequence[]> {
+    const result = await this.db.query(
+      'SELECT * FROM reminder_sequences WHERE appointment_id = $1 ORDER BY created_at ASC',
+      [appointmentId]
+    );
+    return this.withReminders(result.rows);
+  }
+
+  /**
+   * Insert a sequence together with its reminders
+   */
+  async create(sequence: ReminderSequence): Promise<void> {
+    await this.db.query(
+      `INSERT INTO reminder_sequences (id, appointment_id, status, created_at)
+       VALUES ($1, $2, $3, $4)`,
+      [sequence.id, sequence.appointmentId, sequence.status, sequence.createdAt]
+    );
+
+    for (const reminder of sequence.reminders) {
+      await this.db.query(
+        `INSERT INTO reminders (
+          id, sequence_id, type, scheduled_at, status, content, sent_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [
+          reminder.id,
+          sequence.id,
+          reminder.type,
+          reminder.scheduledAt,
+          reminder.status,
+          reminder.content,
+          reminder.sentAt,
+        ]
+      );
+    }
+  }
+
+  /**
+   * Cancel the active sequences of an appointment
+   */
+  async cancelForAppointment(appointmentId: string): Promise<void> {
+    await this.db.query(
+      `UPDATE reminder_sequences SET status = 'cancelled'
+       WHERE appointment_id = $1 AND status = 'active'`,
+      [appointmentId]
+    );
+  }
+
+  /**
+   * Lock up to `limit` due reminders of active sequences for the current
+   * transaction. Rows already locked by another worker are skipped.
+   */
+  async claimDue(now: Date, limit: number): Promise<DueReminder[]> {
+    const result = await this.db.query(
+      `SELECT r.*, s.appointment_id, a.lead_id
+       FROM reminders r
+       JOIN reminder_sequences s ON s.id = r.sequence_id
+       JOIN appointments a ON a.id = s.appointment_id
+       WHERE s.status = 'active' AND r.status = 'pending' AND r.scheduled_at <= $1
+       ORDER BY r.scheduled_at ASC
+       LIMIT $2
+       FOR UPDATE OF r SKIP LOCKED`,
+      [now, limit]
+    );
+    return result.rows.map(
+      (row: ReminderRow & { appointment_id: string; lead_id: string }) => ({
+        sequenceId: row.sequence_id,
+        appointmentId: row.appointment_id,
+        leadId: row.lead_id,
+        reminder: mapReminderRow(row),
+      })
+    );
+  }
+
+  /**
+   * Persist the delivery status of a reminder
+   */
+  async saveReminder(reminder: Reminder): Promise<void> {
+    await this.db.query(
+      'UPDATE reminders SET status = $2, sent_at = $3 WHERE id = $1',
+      [reminder.id, reminder.status, reminder.sentAt]
+    );
+  }
+
+  /**
+   * Mark the given active sequences completed once none of their reminders
+   * are pending. Returns the ids that were completed.
+   */
+  async completeFinished(sequenceIds: string[]): Promise<string[]> {
+    if (sequenceIds.length === 0) return [];
+
+    const result = await this.db.query(
+      `UPDATE reminder_sequences s SET status = 'completed'
+       WHERE s.id = ANY($1) AND s.status = 'active'
+         AND NOT EXISTS (
+           SELECT 1 FROM reminders r
+           WHERE r.sequence_id = s.id AND r.status = 'pending'
+         )
+       RETURNING s.id`,
+      [sequenceIds]
+    );
+    return result.rows.map((row: { id: string }) => row.id);
+  }
+
+  private async withReminders(
+    rows: ReminderSequenceRow[]
+  ): Promise<ReminderSequence[]> {
+    if (rows.length === 0) return [];
+
+    const result = await this.db.query(
+      'SELECT * FROM reminders WHERE sequence_id = ANY($1) ORDER BY scheduled_at ASC',
+      [rows.map((row) => row.id)]
+    );
+    const reminders: ReminderRow[] = result.rows;
+
+    return rows.map((row) =>
+      mapReminderSequenceRow(
+        row,
+        reminders.filter((reminder) => reminder.sequence_id === row.id)
+      )
+    );
+  }
+}
@@ -0,0 +1,81 @@
+import { Queryable } from './queryable';
+import { ResponseSlaRow, mapResponseSlaRow } from './mappers';
+import { ResponseSlaRecord } from '../../types/response-sla';
+
+/**
+ * Response SLA repository - one row per lead, from creation to the first
+ * outbound touch
+ */
+export class ResponseSlaRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Insert the SLA of a lead, or replace every field of an existing one
+   */
+  async save(record: ResponseSlaRecord): Promise<ResponseSlaRecord> {
+    const result = await this.db.query(
+      `INSERT INTO lead_response_slas (
+        lead_id, source, status, started_at, due_at, first_touch_at,
+        first_touch_interaction_id, first_touch_agent_id, assigned_agent_id,
+        breached_at, escalation_level
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (lead_id) DO UPDATE SET
+        status = EXCLUDED.status,
+        due_at = EXCLUDED.due_at,
+        first_touch_at = EXCLUDED.first_touch_at,
+        first_touch_interaction_id = EXCLUDED.first_touch_interaction_id,
+        first_touch_agent_id = EXCLUDED.first_touch_agent_id,
+        assigned_agent_id = EXCLUDED.assigned_agent_id,
+        breached_at = EXCLUDED.breached_at,
+        escalation_level = EXCLUDED.escalation_level
+      RETURNING *`,
+      [
+        record.leadId,
+        record.source,
+        record.status,
+        record.startedAt,
+        record.dueAt,
+        record.firstTouchAt ?? null,
+        record.firstTouchInteractionId ?? null,
+        record.firstTouchAgentId ?? null,
+        record.assignedAgentId ?? null,
+        record.breachedAt ?? null,
+        record.escalationLevel,
+      ]
+    );
+    return mapResponseSlaRow(result.rows[0]);
+  }
+
+  async findByLead(leadId: string): Promise<ResponseSlaRecord | null> {
+    const result = await this.db.query(
+      'SELECT * FROM lead_response_slas WHERE lead_id = $1',
+      [leadId]
+    );
+    return result.rows.length > 0 ? mapResponseSlaRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Leads still waiting for their first outbound touch
+   */
+  async findUntouched(): Promise<ResponseSlaRecord[]> {
+    const result = await this.db.query(
+      `SELECT * FROM lead_response_slas
+       WHERE first_touch_at IS NULL
+       ORDER BY due_at ASC`
+    );
+    return result.rows.map((row: ResponseSlaRow) => mapResponseSlaRow(row));
+  }
+
+  /**
+   * SLAs of the leads created in [from, to)
+   */
+  async findStartedBetween(from: Date, to: Date): Promise<ResponseSlaRecord[]> {
+    const result = await this.db.query(
+      `SELECT * FROM lead_response_slas
+       WHERE started_at >= $1 AND started_at < $2
+       ORDER BY started_at ASC`,
+      [from, to]
+    );
+    return result.rows.map((row: ResponseSlaRow) => mapResponseSlaRow(row));
+  }
+}
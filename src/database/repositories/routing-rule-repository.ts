@@ -0,0 +1,68 @@
+import { Queryable } from './queryable';
+import { RoutingRuleVersionRow, mapRoutingRuleVersionRow } from './mappers';
+import { RoutingRuleVersion } from '../../types/routing-rule';
+
+/**
+ * Routing rule repository - the version history of the head agent's
+ * routing rules. Versions are only appended; the latest version of a rule
+ * is the current one.
+ */
+export class RoutingRuleRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Append the next version of a rule. The version number is assigned here.
+   */
+  async append(
+    entry: Omit<RoutingRuleVersion, 'version'>
+  ): Promise<RoutingRuleVersion> {
+    const result = await this.db.query(
+      `INSERT INTO routing_rule_versions (
+        rule_id, version, change, definition, restored_from_version,
+        changed_by, created_at
+      )
+      SELECT $1, COALESCE(MAX(version), 0) + 1, $2, $3, $4, $5, $6
+      FROM routing_rule_versions WHERE rule_id = $1
+      RETURNING *`,
+      [
+        entry.ruleId,
+        entry.change,
+        entry.definition ? JSON.stringify(entry.definition) : null,
+        entry.restoredFromVersion ?? null,
+        entry.changedBy ?? null,
+        entry.createdAt,
+      ]
+    );
+    return mapRoutingRuleVersionRow(result.rows[0]);
+  }
+
+  /**
+   * Latest version of every rule that has not been deleted
+   */
+  async findCurrent(): Promise<RoutingRuleVersion[]> {
+    const result = await this.db.query(
+      `SELECT * FROM (
+        SELECT DISTINCT ON (rule_id) * FROM routing_rule_versions
+        ORDER BY rule_id, version DESC
+      ) latest
+      WHERE definition IS NOT NULL
+      ORDER BY rule_id`
+    );
+    return result.rows.map((row: RoutingRuleVersionRow) =>
+      mapRoutingRuleVersionRow(row)
+    );
+  }
+
+  /**
+   * Every version of a rule, oldest first
+   */
+  async findHistory(ruleId: string): Promise<RoutingRuleVersion[]> {
+    const result = await this.db.query(
+      'SELECT * FROM routing_rule_versions WHERE rule_id = $1 ORDER BY version ASC',
+      [ruleId]
+    );
+    return result.rows.map((row: RoutingRuleVersionRow) =>
+      mapRoutingRuleVersionRow(row)
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { Queryable } from './queryable';
+import { SalesAgentRow, mapSalesAgentRow } from './mappers';
+import { SalesAgent } from '../../types/sales-agent';
+
+/**
+ * Sales agent repository - the roster of human agents leads are assigned to
+ */
+export class SalesAgentRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Every agent on the roster, active or not
+   */
+  async findAll(): Promise<SalesAgent[]> {
+    const result = await this.db.query(
+      'SELECT * FROM sales_agents ORDER BY created_at ASC, id ASC'
+    );
+    return result.rows.map((row: SalesAgentRow) => mapSalesAgentRow(row));
+  }
+
+  /**
+   * Insert an agent, or replace every field of an existing one
+   */
+  async save(agent: SalesAgent): Promise<SalesAgent> {
+    const result = await this.db.query(
+      `INSERT INTO sales_agents (
+        id, name, email, manager_email, skills, max_concurrent_leads, weight,
+        timezone, working_hours, out_of_office, active, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+      ON CONFLICT (id) DO UPDATE SET
+        name = EXCLUDED.name,
+        email = EXCLUDED.email,
+        manager_email = EXCLUDED.manager_email,
+        skills = EXCLUDED.skills,
+        max_concurrent_leads = EXCLUDED.max_concurrent_leads,
+        weight = EXCLUDED.weight,
+        timezone = EXCLUDED.timezone,
+        working_hours = EXCLUDED.working_hours,
+        out_of_office = EXCLUDED.out_of_office,
+        active = EXCLUDED.active,
+        updated_at = EXCLUDED.updated_at
+      RETURNING *`,
+      [
+        agent.id,
+        agent.name,
+        agent.email ?? null,
+        agent.managerEmail ?? null,
+        JSON.stringify(agent.skills),
+        agent.maxConcurrentLeads,
+        agent.weight,
+        agent.timezone,
+        JSON.stringify(agent.workingHours),
+        JSON.stringify(agent.outOfOffice),
+        agent.active,
+        agent.createdAt,
+        agent.updatedAt,
+      ]
+    );
+    return mapSalesAgentRow(result.rows[0]);
+  }
+
+  /**
+   * Lock an agent's row until the transaction ends, so leads are assigned
+   * to them one at a time and their capacity is checked against what the
+   * others committed
+   */
+  async lock(id: string): Promise<void> {
+    await this.db.query(
+      'SELECT id FROM sales_agents WHERE id = $1 FOR UPDATE',
+      [id]
+    );
+  }
+
+  /**
+   * Remove an agent. Returns false when nothing was deleted.
+   */
+  async delete(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM sales_agents WHERE id = $1',
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
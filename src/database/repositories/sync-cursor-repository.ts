@@ -0,0 +1,33 @@
+import { Queryable } from './queryable';
+
+/**
+ * Sync cursor repository - how far each incremental integration has read
+ */
+export class SyncCursorRepository {
+  private db: Queryable;
+
+  constructor(db: Queryable) {
+    this.db = db;
+  }
+
+  /**
+   * Move the cursor to a new position and return the one it had, null the
+   * first time. Concurrent callers each get a different previous position,
+   * so no range is read twice.
+   */
+  async advance(name: string, position: string): Promise<string | null> {
+    const result = await this.db.query(
+      `WITH previous AS (
+        SELECT position FROM sync_cursors WHERE name = $1 FOR UPDATE
+      )
+      INSERT INTO sync_cursors (name, position, updated_at)
+      VALUES ($1, $2, NOW())
+      ON CONFLICT (name) DO UPDATE SET
+        position = EXCLUDED.position,
+        updated_at = EXCLUDED.updated_at
+      RETURNING (SELECT position FROM previous) AS previous_position`,
+      [name, position]
+    );
+    return result.rows[0]?.previous_position ?? null;
+  }
+}
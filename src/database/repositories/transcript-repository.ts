@@ -0,0 +1,156 @@
+import { Queryable } from './queryable';
+import {
+  InteractionTranscriptRow,
+  mapInteractionTranscriptRow,
+} from './mappers';
+import {
+  InteractionTranscript,
+  TranscriptSearchHit,
+  TranscriptTurn,
+} from '../../types/transcript';
+import { InteractionType } from '../../types/interaction';
+
+export interface TranscriptSearchFilters {
+  leadId?: string;
+  channel?: InteractionType;
+  from?: Date;
+  to?: Date; // exclusive
+  limit?: number;
+}
+
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Transcript repository - one redacted transcript per interaction,
+ * searchable with PostgreSQL full-text search
+ */
+export class TranscriptRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Store the transcript of an interaction, replacing an earlier version
+   */
+  async save(transcript: InteractionTranscript): Promise<InteractionTranscript> {
+    const result = await this.db.query(
+      `INSERT INTO interaction_transcripts (
+        interaction_id, lead_id, session_id, channel, turns, full_text,
+        recording_url, recording_content_type, recording_duration_seconds,
+        redactions, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+      ON CONFLICT (interaction_id) DO UPDATE SET
+        turns = EXCLUDED.turns,
+        full_text = EXCLUDED.full_text,
+        recording_url = EXCLUDED.recording_url,
+        recording_content_type = EXCLUDED.recording_content_type,
+        recording_duration_seconds = EXCLUDED.recording_duration_seconds,
+        redactions = EXCLUDED.redactions
+      RETURNING *`,
+      [
+        transcript.interactionId,
+        transcript.leadId,
+        transcript.sessionId ?? null,
+        transcript.channel,
+        JSON.stringify(transcript.turns),
+        transcript.turns.map((turn) => turn.text).join('\n'),
+        transcript.recording?.url ?? null,
+        transcript.recording?.contentType ?? null,
+        transcript.recording?.durationSeconds ?? null,
+        transcript.redactions,
+        transcript.createdAt,
+      ]
+    );
+    return mapInteractionTranscriptRow(result.rows[0]);
+  }
+
+  async findByInteraction(
+    interactionId: string
+  ): Promise<InteractionTranscript | null> {
+    const result = await this.db.query(
+      'SELECT * FROM interaction_transcripts WHERE interaction_id = $1',
+      [interactionId]
+    );
+    return result.rows.length > 0
+      ? mapInteractionTranscriptRow(result.rows[0])
+      : null;
+  }
+
+  /**
+   * Transcripts matching a web-search style query ("financing",
+   * "cash -mortgage", "\"pre-approved\""), best matches first
+   */
+  async search(
+    query: string,
+    filters: TranscriptSearchFilters = {}
+  ): Promise<TranscriptSearchHit[]> {
+    const params: any[] = [query];
+    const conditions = [
+      "search_vector @@ websearch_to_tsquery('simple', $1)",
+    ];
+
+    const addCondition = (sql: (placeholder: string) => string, value: any) => {
+      params.push(value);
+      conditions.push(sql(`$${params.length}`));
+    };
+
+    if (filters.leadId) {
+      addCondition((p) => `lead_id = ${p}`, filters.leadId);
+    }
+    if (filters.channel) {
+      addCondition((p) => `channel = ${p}`, filters.channel);
+    }
+    if (filters.from) {
+      addCondition((p) => `created_at >= ${p}`, filters.from);
+    }
+    if (filters.to) {
+      addCondition((p) => `created_at < ${p}`, filters.to);
+    }
+    params.push(filters.limit ?? DEFAULT_SEARCH_LIMIT);
+
+    const result = await this.db.query(
+      `SELECT *,
+        ts_headline('simple', full_text, websearch_to_tsquery('simple', $1),
+          'MaxFragments=2, MaxWords=20, MinWords=5') AS snippet
+       FROM interaction_transcripts
+       WHERE ${conditions.join(' AND ')}
+       ORDER BY ts_rank(search_vector, websearch_to_tsquery('simple', $1)) DESC,
+         created_at DESC
+       LIMIT $${params.length}`,
+      params
+    );
+
+    return result.rows.map(
+      (row: InteractionTranscriptRow & { snippet: string }) => {
+        const transcript = mapInteractionTranscriptRow(row);
+        return {
+          interactionId: transcript.interactionId,
+          leadId: transcript.leadId,
+          channel: transcript.channel,
+          createdAt: transcript.createdAt,
+          recording: transcript.recording,
+          snippet: row.snippet,
+          matchingTurns: findMatchingTurns(transcript.turns, query),
+        };
+      }
+    );
+  }
+}
+
+/**
+ * Turns mentioning one of the words searched for. Full-text search
+ * matches word stems, so a turn matches when it contains the start of a
+ * searched word ("financ" for "financing" also finds "finance").
+ */
+function findMatchingTurns(
+  turns: TranscriptTurn[],
+  query: string
+): TranscriptTurn[] {
+  const stems = (query.toLowerCase().match(/(?<![-\w])[a-z0-9']+/g) ?? [])
+    .filter((word) => word !== 'or')
+    .map((word) => word.slice(0, Math.max(4, word.length - 3)));
+  if (stems.length === 0) return [];
+
+  return turns.filter((turn) => {
+    const text = turn.text.toLowerCase();
+    return stems.some((stem) => text.includes(stem));
+  });
+}
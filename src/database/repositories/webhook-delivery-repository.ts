@@ -0,0 +1,131 @@
+import { Queryable } from './queryable';
+import { WebhookDeliveryRow, mapWebhookDeliveryRow } from './mappers';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../../types/webhook';
+
+export interface WebhookAttempt {
+  status: WebhookDeliveryStatus; // where the delivery stands after the attempt
+  responseStatus?: number;
+  responseBody?: string;
+  error?: string;
+  durationMs: number;
+  at: Date;
+}
+
+/**
+ * Webhook delivery repository - the delivery log of outgoing webhooks,
+ * one row per subscription and event
+ */
+export class WebhookDeliveryRepository {
+  constructor(private db: Queryable) {}
+
+  /**
+   * Add a delivery. When the event was already handed to the subscription,
+   * that delivery is returned and nothing is added.
+   */
+  async create(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const result = await this.db.query(
+      `INSERT INTO webhook_deliveries (
+        id, subscription_id, event_id, event_type, body, status, attempts,
+        created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      ON CONFLICT (subscription_id, event_id) DO NOTHING
+      RETURNING *`,
+      [
+        delivery.id,
+        delivery.subscriptionId,
+        delivery.eventId,
+        delivery.eventType,
+        JSON.stringify(delivery.body),
+        delivery.status,
+        delivery.attempts,
+        delivery.createdAt,
+      ]
+    );
+    if (result.rows.length > 0) {
+      return mapWebhookDeliveryRow(result.rows[0]);
+    }
+
+    const existing = await this.db.query(
+      'SELECT * FROM webhook_deliveries WHERE subscription_id = $1 AND event_id = $2',
+      [delivery.subscriptionId, delivery.eventId]
+    );
+    return mapWebhookDeliveryRow(existing.rows[0]);
+  }
+
+  async findById(id: string): Promise<WebhookDelivery | null> {
+    const result = await this.db.query(
+      'SELECT * FROM webhook_deliveries WHERE id = $1',
+      [id]
+    );
+    return result.rows.length > 0 ? mapWebhookDeliveryRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Deliveries to a subscription, newest first
+   */
+  async findBySubscription(
+    subscriptionId: string,
+    options: { status?: WebhookDeliveryStatus; limit: number }
+  ): Promise<WebhookDelivery[]> {
+    const result = await this.db.query(
+      `SELECT * FROM webhook_deliveries
+       WHERE subscription_id = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC
+       LIMIT $3`,
+      [subscriptionId, options.status ?? null, options.limit]
+    );
+    return result.rows.map((row: WebhookDeliveryRow) =>
+      mapWebhookDeliveryRow(row)
+    );
+  }
+
+  async recordAttempt(id: string, attempt: WebhookAttempt): Promise<void> {
+    await this.db.query(
+      `UPDATE webhook_deliveries SET
+        status = $2,
+        attempts = attempts + 1,
+        response_status = $3,
+        response_body = $4,
+        last_error = $5,
+        duration_ms = $6,
+        last_attempt_at = $7,
+        delivered_at = CASE WHEN $2 = 'succeeded' THEN $7 ELSE delivered_at END
+       WHERE id = $1`,
+      [
+        id,
+        attempt.status,
+        attempt.responseStatus ?? null,
+        attempt.responseBody ?? null,
+        attempt.error ?? null,
+        attempt.durationMs,
+        attempt.at,
+      ]
+    );
+  }
+
+  /**
+   * Mark a delivery that ran out of attempts without making one, e.g.
+   * because its subscription was disabled
+   */
+  async markFailed(id: string, error: string): Promise<void> {
+    await this.db.query(
+      `UPDATE webhook_deliveries SET status = 'failed', last_error = $2
+       WHERE id = $1 AND status = 'pending'`,
+      [id, error]
+    );
+  }
+
+  /**
+   * Put a failed delivery back to pending. Returns null when it is not in
+   * the failed state.
+   */
+  async reopen(id: string): Promise<WebhookDelivery | null> {
+    const result = await this.db.query(
+      `UPDATE webhook_deliveries SET status = 'pending'
+       WHERE id = $1 AND status = 'failed'
+       RETURNING *`,
+      [id]
+    );
+    return result.rows.length > 0 ? mapWebhookDeliveryRow(result.rows[0]) : null;
+  }
+}
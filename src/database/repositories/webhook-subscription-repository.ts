@@ -0,0 +1,150 @@
+import { Queryable } from './queryable';
+import { WebhookSubscriptionRow, mapWebhookSubscriptionRow } from './mappers';
+import { WebhookSubscription } from '../../types/webhook';
+import { DomainEventType } from '../../types/domain-event';
+
+/**
+ * Webhook subscription repository - partner endpoints and the events they
+ * receive
+ */
+export class WebhookSubscriptionRepository {
+  constructor(private db: Queryable) {}
+
+  async create(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+    const result = await this.db.query(
+      `INSERT INTO webhook_subscriptions (
+        id, url, description, event_types, filter, secret, status,
+        consecutive_failures, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *`,
+      [
+        subscription.id,
+        subscription.url,
+        subscription.description ?? null,
+        subscription.eventTypes,
+        subscription.filter ? JSON.stringify(subscription.filter) : null,
+        subscription.secret,
+        subscription.status,
+        subscription.consecutiveFailures,
+        subscription.createdAt,
+        subscription.updatedAt,
+      ]
+    );
+    return mapWebhookSubscriptionRow(result.rows[0]);
+  }
+
+  async findById(id: string): Promise<WebhookSubscription | null> {
+    const result = await this.db.query(
+      'SELECT * FROM webhook_subscriptions WHERE id = $1',
+      [id]
+    );
+    return result.rows.length > 0
+      ? mapWebhookSubscriptionRow(result.rows[0])
+      : null;
+  }
+
+  async findAll(): Promise<WebhookSubscription[]> {
+    const result = await this.db.query(
+      'SELECT * FROM webhook_subscriptions ORDER BY created_at ASC'
+    );
+    return result.rows.map((row: WebhookSubscriptionRow) =>
+      mapWebhookSubscriptionRow(row)
+    );
+  }
+
+  /**
+   * Active subscriptions to an event type
+   */
+  async findActiveForEvent(
+    eventType: DomainEventType
+  ): Promise<WebhookSubscription[]> {
+    const result = await this.db.query(
+      `SELECT * FROM webhook_subscriptions
+       WHERE status = 'active' AND $1 = ANY(event_types)
+       ORDER BY created_at ASC`,
+      [eventType]
+    );
+    return result.rows.map((row: WebhookSubscriptionRow) =>
+      mapWebhookSubscriptionRow(row)
+    );
+  }
+
+  /**
+   * Persist every editable field of a subscription. Returns null when it no
+   * longer exists.
+   */
+  async save(
+    subscription: WebhookSubscription
+  ): Promise<WebhookSubscription | null> {
+    const result = await this.db.query(
+      `UPDATE webhook_subscriptions SET
+        url = $2, description = $3, event_types = $4, filter = $5, secret = $6,
+        status = $7, consecutive_failures = $8, disabled_at = $9,
+        disabled_reason = $10, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        subscription.id,
+        subscription.url,
+        subscription.description ?? null,
+        subscription.eventTypes,
+        subscription.filter ? JSON.stringify(subscription.filter) : null,
+        subscription.secret,
+        subscription.status,
+        subscription.consecutiveFailures,
+        subscription.disabledAt ?? null,
+        subscription.disabledReason ?? null,
+      ]
+    );
+    return result.rows.length > 0
+      ? mapWebhookSubscriptionRow(result.rows[0])
+      : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      'DELETE FROM webhook_subscriptions WHERE id = $1',
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async recordSuccess(id: string): Promise<void> {
+    await this.db.query(
+      `UPDATE webhook_subscriptions SET consecutive_failures = 0
+       WHERE id = $1 AND consecutive_failures > 0`,
+      [id]
+    );
+  }
+
+  /**
+   * Count a failed attempt, disabling the subscription once it reaches
+   * `disableAfter` failures in a row. Counted in one statement, so
+   * concurrent deliveries cannot miss the threshold.
+   */
+  async recordFailure(
+    id: string,
+    disableAfter: number,
+    at: Date
+  ): Promise<WebhookSubscription | null> {
+    const result = await this.db.query(
+      `UPDATE webhook_subscriptions SET
+        consecutive_failures = consecutive_failures + 1,
+        status = CASE WHEN consecutive_failures + 1 >= $2 THEN 'disabled' ELSE status END,
+        disabled_at = CASE
+          WHEN status = 'active' AND consecutive_failures + 1 >= $2 THEN $3
+          ELSE disabled_at END,
+        disabled_reason = CASE
+          WHEN status = 'active' AND consecutive_failures + 1 >= $2
+          THEN 'Disabled after ' || $2 || ' failed deliveries in a row'
+          ELSE disabled_reason END,
+        updated_at = $3
+       WHERE id = $1
+       RETURNING *`,
+      [id, disableAfter, at]
+    );
+    return result.rows.length > 0
+      ? mapWebhookSubscriptionRow(result.rows[0])
+      : null;
+  }
+}
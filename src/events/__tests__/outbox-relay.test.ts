@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryOutboxStore, createDomainEvent } from '../outbox-store';
+import { EventSubscriber, OutboxRelay } from '../outbox-relay';
+import { N8nEventSubscriber } from '../n8n-event-subscriber';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const MINUTE = 60 * 1000;
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+
+describe('OutboxRelay', () => {
+  let store: InMemoryOutboxStore;
+  let relay: OutboxRelay;
+
+  const subscriber = (
+    name: string,
+    handle = vi.fn().mockResolvedValue(undefined),
+    eventTypes?: EventSubscriber['eventTypes']
+  ) => {
+    relay.subscribe({ name, eventTypes, handle });
+    return handle;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    store = new InMemoryOutboxStore();
+    relay = new OutboxRelay(store, { retryBaseDelayMs: MINUTE });
+  });
+
+  afterEach(async () => {
+    await relay.stop();
+    vi.useRealTimers();
+  });
+
+  it('should deliver events to the subscribers of their type', async () => {
+    const everything = subscriber('audit');
+    const appointments = subscriber('calendar', undefined, [
+      'appointment_scheduled',
+    ]);
+    const event = await store.append(
+      createDomainEvent('lead_created', 'lead', LEAD_ID, { id: LEAD_ID })
+    );
+
+    expect(await relay.runOnce()).toBe(1);
+
+    expect(everything).toHaveBeenCalledWith({
+      id: event.id,
+      type: 'lead_created',
+      aggregateType: 'lead',
+      aggregateId: LEAD_ID,
+      payload: { id: LEAD_ID },
+      occurredAt: event.occurredAt,
+    });
+    expect(appointments).not.toHaveBeenCalled();
+    expect(await store.findById(event.id)).toMatchObject({
+      deliveredTo: ['audit'],
+      publishedAt: new Date(),
+    });
+    expect(await relay.runOnce()).toBe(0);
+  });
+
+  it('should retry only the subscribers that failed', async () => {
+    const n8n = subscriber('n8n');
+    const webhook = subscriber(
+      'webhook',
+      vi.fn().mockRejectedValueOnce(new Error('HTTP 503'))
+    );
+    const event = await store.append(
+      createDomainEvent('lead_updated', 'lead', LEAD_ID, {})
+    );
+
+    await relay.runOnce();
+    expect(await store.findById(event.id)).toMatchObject({
+      attempts: 1,
+      deliveredTo: ['n8n'],
+      lastError: 'webhook: HTTP 503',
+      nextAttemptAt: new Date(Date.now() + MINUTE),
+    });
+    expect((await store.findById(event.id))?.publishedAt).toBeUndefined();
+
+    // Not due yet, then delivered to the failed subscriber alone
+    expect(await relay.runOnce()).toBe(0);
+    webhook.mockResolvedValue(undefined);
+    await relay.runOnce(new Date(Date.now() + MINUTE));
+
+    expect(n8n).toHaveBeenCalledTimes(1);
+    expect(webhook).toHaveBeenCalledTimes(2);
+    expect(await store.findById(event.id)).toMatchObject({
+      deliveredTo: ['n8n', 'webhook'],
+      publishedAt: expect.any(Date),
+    });
+  });
+
+  it('should back off longer after every failed attempt', async () => {
+    subscriber('webhook', vi.fn().mockRejectedValue(new Error('timeout')));
+    const event = await store.append(
+      createDomainEvent('lead_updated', 'lead', LEAD_ID, {})
+    );
+
+    await relay.runOnce();
+    await relay.runOnce(new Date(Date.now() + MINUTE));
+
+    expect(await store.findById(event.id)).toMatchObject({
+      attempts: 2,
+      nextAttemptAt: new Date(Date.now() + 2 * MINUTE),
+    });
+  });
+
+  it('should deliver events again once the lease of a dead relay runs out', async () => {
+    const handle = subscriber('audit');
+    const event = await store.append(
+      createDomainEvent('lead_created', 'lead', LEAD_ID, {})
+    );
+    await store.claimDue(new Date(), new Date(Date.now() + MINUTE), 10);
+
+    expect(await relay.runOnce()).toBe(0);
+    expect(await relay.runOnce(new Date(Date.now() + MINUTE))).toBe(1);
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect((await store.findById(event.id))?.attempts).toBe(2);
+  });
+
+  it('should reject two subscribers with the same name', () => {
+    subscriber('n8n');
+
+    expect(() => subscriber('n8n')).toThrow(
+      'A subscriber named n8n is already registered'
+    );
+  });
+
+  it('should start the n8n workflow configured for the event type', async () => {
+    const client = { executeWorkflow: vi.fn().mockResolvedValue({ id: 'exec-1' }) };
+    relay.subscribe(
+      new N8nEventSubscriber(client as any, { lead_created: 'workflow-12' })
+    );
+    const created = await store.append(
+      createDomainEvent('lead_created', 'lead', LEAD_ID, { name: 'John Doe' })
+    );
+    await store.append(createDomainEvent('lead_updated', 'lead', LEAD_ID, {}));
+
+    await relay.runOnce();
+
+    expect(client.executeWorkflow).toHaveBeenCalledTimes(1);
+    expect(client.executeWorkflow).toHaveBeenCalledWith('workflow-12', {
+      eventType: 'lead_created',
+      timestamp: created.occurredAt,
+      data: { name: 'John Doe' },
+      source: 'outbox',
+      correlationId: created.id,
+    });
+  });
+});
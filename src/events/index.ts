@@ -0,0 +1,3 @@
+export * from './outbox-store';
+export * from './outbox-relay';
+export * from './n8n-event-subscriber';
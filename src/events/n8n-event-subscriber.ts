@@ -0,0 +1,36 @@
+import { DomainEvent, DomainEventType } from '../types/domain-event';
+import { N8nClient } from '../orchestration/n8n-client';
+import { WebhookPayload } from '../orchestration/webhook-server';
+import { EventSubscriber } from './outbox-relay';
+
+/**
+ * Starts the n8n workflow configured for an event type, with the same
+ * payload shape the webhook server hands to workflows. Event types without
+ * a workflow are not subscribed to.
+ */
+export class N8nEventSubscriber implements EventSubscriber {
+  readonly name = 'n8n';
+  readonly eventTypes: DomainEventType[];
+
+  constructor(
+    private client: N8nClient,
+    private workflows: Partial<Record<DomainEventType, string>>
+  ) {
+    this.eventTypes = Object.keys(workflows) as DomainEventType[];
+  }
+
+  async handle(event: DomainEvent): Promise<void> {
+    const workflowId = this.workflows[event.type];
+    if (!workflowId) return;
+
+    const payload: WebhookPayload = {
+      eventType: event.type,
+      timestamp: event.occurredAt,
+      data: event.payload,
+      source: 'outbox',
+      // Lets workflows drop an event they already handled
+      correlationId: event.id,
+    };
+    await this.client.executeWorkflow(workflowId, payload);
+  }
+}
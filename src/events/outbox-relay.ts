@@ -0,0 +1,170 @@
+import { DomainEvent, DomainEventType, OutboxEvent } from '../types/domain-event';
+import { OutboxStore } from './outbox-store';
+import { logger } from '../utils/logger';
+
+/**
+ * Something that wants to hear about domain events: an in-process
+ * listener, an n8n workflow or an outgoing webhook
+ */
+export interface EventSubscriber {
+  // Recorded on every event once delivered, so it must stay the same
+  // across restarts and deploys
+  name: string;
+  eventTypes?: DomainEventType[]; // every type when omitted
+  handle(event: DomainEvent): Promise<void>;
+}
+
+export interface OutboxRelayConfig {
+  batchSize: number; // events claimed per poll
+  pollIntervalMs: number;
+  // How long a claimed batch stays leased. Must cover delivering the whole
+  // batch, or another relay may deliver the same events.
+  leaseMs: number;
+  retryBaseDelayMs: number; // doubled after every failed attempt
+  retryMaxDelayMs: number;
+}
+
+const DEFAULT_CONFIG: OutboxRelayConfig = {
+  batchSize: 50,
+  pollIntervalMs: 1000,
+  leaseMs: 60 * 1000,
+  retryBaseDelayMs: 10 * 1000,
+  retryMaxDelayMs: 60 * 60 * 1000,
+};
+
+/**
+ * Outbox relay - delivers the events in the outbox to their subscribers,
+ * at least once
+ *
+ * An event is published once every interested subscriber handled it
+ * without throwing. When one fails, the event is retried with exponential
+ * backoff, for that subscriber only; the others are not sent it again.
+ * Events are never given up on, since dropping one would leave
+ * subscribers out of step with the database.
+ *
+ * Subscribers are asked for events in the order they occurred, but a retry
+ * can overtake a later event, so they should compare timestamps rather than
+ * rely on ordering.
+ */
+export class OutboxRelay {
+  private config: OutboxRelayConfig;
+  private subscribers: Map<string, EventSubscriber> = new Map();
+  private pollTimer?: NodeJS.Timeout;
+  private currentRun?: Promise<number>;
+
+  constructor(
+    private store: OutboxStore,
+    config: Partial<OutboxRelayConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  subscribe(subscriber: EventSubscriber): void {
+    if (this.subscribers.has(subscriber.name)) {
+      throw new Error(`A subscriber named ${subscriber.name} is already registered`);
+    }
+    this.subscribers.set(subscriber.name, subscriber);
+  }
+
+  /**
+   * Claim and deliver one batch of due events. Returns how many were claimed.
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    const events = await this.store.claimDue(
+      now,
+      new Date(now.getTime() + this.config.leaseMs),
+      this.config.batchSize
+    );
+
+    for (const event of events) {
+      await this.relay(event);
+    }
+    return events.length;
+  }
+
+  /**
+   * Poll for due events until stop() is called
+   */
+  start(intervalMs: number = this.config.pollIntervalMs): void {
+    if (this.pollTimer) return;
+
+    const poll = () => {
+      // Skip a tick while the previous batch is still being delivered
+      if (this.currentRun) return;
+
+      this.currentRun = this.runOnce()
+        .catch((error) => {
+          logger.error('Failed to claim outbox events', error);
+          return 0;
+        })
+        .finally(() => {
+          this.currentRun = undefined;
+        });
+    };
+
+    this.pollTimer = setInterval(poll, intervalMs);
+    poll();
+  }
+
+  /**
+   * Stop polling and wait for the batch in progress to be delivered
+   */
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    await this.currentRun;
+  }
+
+  private async relay(outboxEvent: OutboxEvent): Promise<void> {
+    const { attempts, deliveredTo } = outboxEvent;
+    const event: DomainEvent = {
+      id: outboxEvent.id,
+      type: outboxEvent.type,
+      aggregateType: outboxEvent.aggregateType,
+      aggregateId: outboxEvent.aggregateId,
+      payload: outboxEvent.payload,
+      occurredAt: outboxEvent.occurredAt,
+    };
+    const delivered = [...deliveredTo];
+    const errors: string[] = [];
+
+    for (const subscriber of this.subscribers.values()) {
+      if (delivered.includes(subscriber.name)) continue;
+      if (subscriber.eventTypes && !subscriber.eventTypes.includes(event.type)) {
+        continue;
+      }
+
+      try {
+        await subscriber.handle(event);
+        delivered.push(subscriber.name);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        errors.push(`${subscriber.name}: ${message}`);
+      }
+    }
+
+    if (errors.length === 0) {
+      await this.store.markPublished(event.id, delivered, new Date());
+      return;
+    }
+
+    const retryAt = new Date(Date.now() + this.retryDelay(attempts));
+    logger.warn('Outbox event delivery failed, retrying', {
+      eventId: event.id,
+      type: event.type,
+      attempts,
+      retryAt: retryAt.toISOString(),
+      errors,
+    });
+    await this.store.markFailed(event.id, delivered, errors.join('; '), retryAt);
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(
+      this.config.retryBaseDelayMs * 2 ** (attempts - 1),
+      this.config.retryMaxDelayMs
+    );
+  }
+}
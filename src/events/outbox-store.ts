@@ -0,0 +1,139 @@
+import {
+  AggregateType,
+  DomainEvent,
+  DomainEventType,
+  OutboxEvent,
+} from '../types/domain-event';
+import { generateUUID } from '../types/validation';
+
+/**
+ * Where domain events wait until every subscriber has received them.
+ *
+ * Writes record their events in the same statement or transaction as the
+ * change itself, so an event exists exactly when the change was committed.
+ * Claimed events are leased until lockedUntil; a relay that dies mid-batch
+ * loses the lease and the events are claimed again, so subscribers must
+ * cope with receiving an event twice.
+ */
+export interface OutboxStore {
+  append(_event: DomainEvent): Promise<OutboxEvent>;
+
+  /**
+   * Lease up to `limit` unpublished events that are due, oldest first,
+   * until `lockedUntil`. Every claim counts as an attempt.
+   */
+  claimDue(
+    _now: Date,
+    _lockedUntil: Date,
+    _limit: number
+  ): Promise<OutboxEvent[]>;
+
+  /** Every subscriber received the event */
+  markPublished(
+    _eventId: string,
+    _deliveredTo: string[],
+    _at: Date
+  ): Promise<void>;
+
+  /**
+   * Some subscribers failed. Those in `deliveredTo` are skipped when the
+   * event is relayed again at `nextAttemptAt`.
+   */
+  markFailed(
+    _eventId: string,
+    _deliveredTo: string[],
+    _error: string,
+    _nextAttemptAt: Date
+  ): Promise<void>;
+
+  findById(_eventId: string): Promise<OutboxEvent | null>;
+}
+
+/**
+ * New domain event, occurring now
+ */
+export function createDomainEvent(
+  type: DomainEventType,
+  aggregateType: AggregateType,
+  aggregateId: string,
+  payload: Record<string, any>
+): DomainEvent {
+  return {
+    id: generateUUID(),
+    type,
+    aggregateType,
+    aggregateId,
+    payload,
+    occurredAt: new Date(),
+  };
+}
+
+/**
+ * In-process outbox, lost on restart and not shared between instances
+ */
+export class InMemoryOutboxStore implements OutboxStore {
+  private events: Map<string, OutboxEvent> = new Map();
+
+  async append(event: DomainEvent): Promise<OutboxEvent> {
+    const stored: OutboxEvent = {
+      ...event,
+      // Payloads come back the way they would from the database
+      payload: JSON.parse(JSON.stringify(event.payload)),
+      attempts: 0,
+      deliveredTo: [],
+      nextAttemptAt: event.occurredAt,
+    };
+    this.events.set(event.id, stored);
+    return { ...stored };
+  }
+
+  async claimDue(
+    now: Date,
+    lockedUntil: Date,
+    limit: number
+  ): Promise<OutboxEvent[]> {
+    return Array.from(this.events.values())
+      .filter((event) => !event.publishedAt && event.nextAttemptAt <= now)
+      .sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime())
+      .slice(0, limit)
+      .map((event) => {
+        Object.assign(event, {
+          attempts: event.attempts + 1,
+          nextAttemptAt: lockedUntil,
+        });
+        return { ...event, deliveredTo: [...event.deliveredTo] };
+      });
+  }
+
+  async markPublished(
+    eventId: string,
+    deliveredTo: string[],
+    at: Date
+  ): Promise<void> {
+    const event = this.events.get(eventId);
+    if (!event) return;
+
+    Object.assign(event, { deliveredTo: [...deliveredTo], publishedAt: at });
+  }
+
+  async markFailed(
+    eventId: string,
+    deliveredTo: string[],
+    error: string,
+    nextAttemptAt: Date
+  ): Promise<void> {
+    const event = this.events.get(eventId);
+    if (!event) return;
+
+    Object.assign(event, {
+      deliveredTo: [...deliveredTo],
+      lastError: error,
+      nextAttemptAt,
+    });
+  }
+
+  async findById(eventId: string): Promise<OutboxEvent | null> {
+    const event = this.events.get(eventId);
+    return event ? { ...event, deliveredTo: [...event.deliveredTo] } : null;
+  }
+}
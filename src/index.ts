@@ -9,6 +9,29 @@ import cors from 'cors';
 import { config } from './config/environment';
 import { logger } from './utils/logger';
 import { DatabaseManager } from './database/manager';
+import { LeadsApi } from './api/leads-api';
+import { CalendarApi } from './api/calendar-api';
+import { UnsubscribeApi } from './api/unsubscribe-api';
+import { ConsentApi } from './api/consent-api';
+import { ConsentLedger } from './communication/consent-ledger';
+import { MultiChannelCommunicationManager } from './communication/multi-channel-manager';
+import { RedisCommunicationStateStore } from './communication/communication-state-store';
+import { createMessageProviders } from './communication/providers';
+import { ConsentRepository, createRepositories } from './database/repositories';
+import { AIHeadAgent } from './agents/ai-head-agent';
+import { RoutingRulesApi } from './api/routing-rules-api';
+import { AgentRoster } from './assignment/agent-roster';
+import { LeadAssignmentManager } from './assignment/lead-assignment-manager';
+import { LeadAssignmentApi } from './api/lead-assignment-api';
+import { ChiefAgent } from './agents/chief-agent';
+import { ResponseSlaEngine } from './monitoring/response-sla-engine';
+import { ResponseSlaApi } from './api/response-sla-api';
+import { TranscriptApi } from './api/transcript-api';
+import { JobsApi } from './api/jobs-api';
+import { JobQueue } from './jobs';
+import { WebhookSubscriptionsApi } from './api/webhook-subscriptions-api';
+import { WebhookDispatcher } from './webhooks';
+import { FieldMappingProfilesApi } from './api/field-mapping-profiles-api';
 
 async function main() {
   logger.info('Starting Agentic Lead Management System');
@@ -28,17 +51,79 @@ async function main() {
     res.send('OK');
   });
 
-  // Rota de leads
-  app.post('/api/leads', async (req: Request, res: Response) => {
-    try {
-      logger.info('Received payload:', req.body);
-      const lead = await dbManager.createLead(req.body);
-      return res.status(201).json({ success: true, id: lead.id });
-    } catch (err) {
-      logger.error('Error saving lead', err as Error);
-      return res.status(500).json({ success: false, error: 'Internal Server Error' });
+  // Rotas de leads
+  new LeadsApi(dbManager).setupRoutes(app);
+
+  // Feeds (em endereços secretos) e importação de calendários (.ics); os
+  // bloqueios importados ficam no banco e valem para todos os agendamentos
+  new CalendarApi(dbManager, config.CALENDAR_FEED_SECRET || undefined).setupRoutes(app);
+
+  // Editor das regras de roteamento, com histórico de versões no banco
+  const repositories = createRepositories(dbManager);
+  const headAgent = new AIHeadAgent({}, repositories);
+  await headAgent.loadRoutingRules();
+  new RoutingRulesApi(headAgent).setupRoutes(app);
+
+  // Equipe de vendas e atribuição de leads, com reatribuição após o SLA de aceite;
+  // os leads novos são atribuídos pelo worker
+  const roster = new AgentRoster(repositories.salesAgents);
+  await roster.load();
+  const assignmentManager = new LeadAssignmentManager(roster, {}, repositories, dbManager);
+  assignmentManager.startSlaMonitor();
+  new LeadAssignmentApi(roster, assignmentManager, repositories.leads).setupRoutes(app);
+
+  const communicationManager = new MultiChannelCommunicationManager(
+    createMessageProviders(),
+    {
+      consentLedger: new ConsentLedger({
+        repository: new ConsentRepository(dbManager),
+      }),
+      store: new RedisCommunicationStateStore(dbManager.getRedisClient()),
+      // Mensagens fora da janela de envio ficam na fila e saem pelo worker
+      jobs: new JobQueue(repositories.jobs),
     }
-  });
+  );
+
+  // SLA de primeiro contato: alertas no Chief Agent e e-mail ao gestor do corretor
+  const responseSla = new ResponseSlaEngine(
+    {},
+    {
+      repositories,
+      chiefAgent: new ChiefAgent(headAgent),
+      roster,
+      notifier: communicationManager,
+    }
+  );
+  responseSla.startMonitor();
+  new ResponseSlaApi(responseSla).setupRoutes(app);
+
+  // Busca textual nas transcrições de chamadas e conversas
+  new TranscriptApi(repositories.transcripts).setupRoutes(app);
+
+  // Fila de jobs mortos (dead-letter) do worker, com reprocessamento manual
+  new JobsApi(new JobQueue(repositories.jobs)).setupRoutes(app);
+
+  // Webhooks de saída para sistemas parceiros; as entregas rodam no worker
+  new WebhookSubscriptionsApi(
+    repositories.webhookSubscriptions,
+    repositories.webhookDeliveries,
+    new WebhookDispatcher(
+      repositories.webhookSubscriptions,
+      repositories.webhookDeliveries,
+      new JobQueue(repositories.jobs)
+    )
+  ).setupRoutes(app);
+
+  // Perfis de mapeamento de campos dos webhooks Zapier, Integromat e genéricos
+  new FieldMappingProfilesApi(repositories.fieldMappingProfiles).setupRoutes(app);
+
+  // Consentimento por canal: histórico e opt-ins/opt-outs coletados fora da plataforma
+  new ConsentApi(communicationManager, repositories.leads).setupRoutes(app);
+
+  // Descadastro pelos links dos e-mails, registrado no ledger de consentimento
+  if (config.UNSUBSCRIBE_SECRET) {
+    new UnsubscribeApi(communicationManager, config.UNSUBSCRIBE_SECRET).setupRoutes(app);
+  }
 
   const port = process.env.PORT || 4000;
   app.listen(port, () => {
@@ -48,6 +133,8 @@ async function main() {
   // Graceful shutdown
   process.on('SIGINT', async () => {
     logger.info('Shutting down gracefully...');
+    assignmentManager.stopSlaMonitor();
+    responseSla.stopMonitor();
     await dbManager.close();
     process.exit(0);
   });
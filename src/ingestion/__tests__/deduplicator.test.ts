@@ -3,6 +3,28 @@ import { LeadDeduplicator } from '../deduplicator';
 import { DatabaseManager } from '../../database/manager';
 import { NormalizedLeadData } from '../types';
 
+// Full leads row as returned by pg, so the repository can map it to a Lead
+const leadRow = (overrides: Record<string, any>) => ({
+  source: 'gmail',
+  email: null,
+  phone: null,
+  preferred_channel: 'email',
+  timezone: 'UTC',
+  lead_type: 'warm',
+  urgency_level: 5,
+  intent_signals: [],
+  budget_min: null,
+  budget_max: null,
+  location: null,
+  property_type: null,
+  timeline: null,
+  qualification_score: '0.50',
+  status: 'new',
+  assigned_agent: null,
+  updated_at: new Date(),
+  ...overrides,
+});
+
 // Mock the database manager
 const mockDatabaseManager = {
   query: vi.fn(),
@@ -68,14 +90,14 @@ describe('LeadDeduplicator', () => {
         },
       };
 
-      const existingLead = {
-        id: 'existing-lead-123',
+      const existingLead = leadRow({
+        id: '1a2b3c4d-0000-4000-8000-000000000123',
         name: 'John Doe',
         email: 'john.doe@example.com',
         phone: '5551234567',
         source: 'gmail',
         created_at: new Date(),
-      };
+      });
 
       // Mock email query to return existing lead
       vi.mocked(mockDatabaseManager.query)
@@ -86,7 +108,7 @@ describe('LeadDeduplicator', () => {
       const result = await deduplicator.checkForDuplicates(leadData);
 
       expect(result.isDuplicate).toBe(true);
-      expect(result.existingLeadId).toBe('existing-lead-123');
+      expect(result.existingLeadId).toBe('1a2b3c4d-0000-4000-8000-000000000123');
       expect(result.confidence).toBeGreaterThan(0.7);
       expect(result.matchingFields).toContain('email');
     });
@@ -109,14 +131,14 @@ describe('LeadDeduplicator', () => {
         },
       };
 
-      const existingLead = {
-        id: 'existing-lead-456',
+      const existingLead = leadRow({
+        id: '1a2b3c4d-0000-4000-8000-000000000456',
         name: 'Jane Smith',
         email: 'jane.old@example.com',
         phone: '5551234567', // Same number, different format
         source: 'meta_ads',
         created_at: new Date(),
-      };
+      });
 
       // Mock queries
       vi.mocked(mockDatabaseManager.query)
@@ -127,7 +149,7 @@ describe('LeadDeduplicator', () => {
       const result = await deduplicator.checkForDuplicates(leadData);
 
       expect(result.isDuplicate).toBe(true);
-      expect(result.existingLeadId).toBe('existing-lead-456');
+      expect(result.existingLeadId).toBe('1a2b3c4d-0000-4000-8000-000000000456');
       expect(result.matchingFields).toContain('phone');
     });
 
@@ -148,15 +170,15 @@ describe('LeadDeduplicator', () => {
         },
       };
 
-      const existingLead = {
-        id: 'existing-lead-789',
+      const existingLead = leadRow({
+        id: '1a2b3c4d-0000-4000-8000-000000000789',
         name: 'Bob Johnson', // Similar name
         email: 'different@example.com',
         phone: null,
         source: 'gmail',
         created_at: new Date(),
         name_similarity: 0.85,
-      };
+      });
 
       // Mock queries
       vi.mocked(mockDatabaseManager.query)
@@ -188,8 +210,8 @@ describe('LeadDeduplicator', () => {
         },
       };
 
-      const existingLead = {
-        id: 'existing-lead-999',
+      const existingLead = leadRow({
+        id: '1a2b3c4d-0000-4000-8000-000000000999',
         name: 'Mike Brown', // Similar name
         email: 'different@example.com',
         phone: null,
@@ -197,7 +219,7 @@ describe('LeadDeduplicator', () => {
         location: 'Downtown', // Same location
         created_at: new Date(Date.now() - 2 * 60 * 60 * 1000), // 2 hours ago
         name_similarity: 0.75,
-      };
+      });
 
       // Mock queries
       vi.mocked(mockDatabaseManager.query)
@@ -229,15 +251,15 @@ describe('LeadDeduplicator', () => {
         },
       };
 
-      const existingLead = {
-        id: 'existing-lead-111',
+      const existingLead = leadRow({
+        id: '1a2b3c4d-0000-4000-8000-000000000111',
         name: 'Sara Williams', // Somewhat similar name
         email: 'different@example.com',
         phone: null,
         source: 'gmail', // Different source
         created_at: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000), // 30 days ago
         name_similarity: 0.65, // Below strong similarity threshold
-      };
+      });
 
       // Mock queries
       vi.mocked(mockDatabaseManager.query)
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyFieldMappingProfile,
+  applyFieldTransform,
+  readJsonPath,
+} from '../field-mapping';
+import { FieldMappingProfile } from '../../types/field-mapping';
+
+const profile: FieldMappingProfile = {
+  id: '5d6e7f80-1a2b-4c3d-9e4f-5a6b7c8d9e0f',
+  name: 'typeform-buyers',
+  integration: 'zapier',
+  leadSource: 'website',
+  sourceIdPath: '$.form_response.token',
+  mappings: [
+    {
+      source: '$.form_response.answers[0].text',
+      target: 'contactInfo.name',
+    },
+    {
+      source: "$.form_response['Email Address']",
+      target: 'contactInfo.email',
+    },
+    {
+      source: '$.form_response.budget',
+      target: 'qualificationData.budget.max',
+      transform: { type: 'parse_currency' },
+    },
+    {
+      source: '$.form_response.plan',
+      target: 'intentSignals',
+      transform: {
+        type: 'map_enum',
+        values: { Buy: 'buying_intent', Sell: 'selling_intent' },
+      },
+    },
+    {
+      source: '$.form_response.answers[0].text',
+      target: 'sourceMetadata.lastName',
+      transform: { type: 'split_full_name', part: 'last' },
+    },
+  ],
+  defaults: { leadType: 'warm', urgencyLevel: '6' },
+  createdAt: new Date('2026-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+};
+
+const payload = {
+  form_response: {
+    token: 'tf-123',
+    answers: [{ text: 'Ada Lovelace' }],
+    'Email Address': 'ada@example.com',
+    budget: '$1,250,000',
+    plan: 'buy',
+  },
+};
+
+describe('field mapping', () => {
+  it('should read JSONPath-style locations', () => {
+    expect(readJsonPath(payload, '$.form_response.answers[0].text')).toBe(
+      'Ada Lovelace'
+    );
+    expect(readJsonPath(payload, "$.form_response['Email Address']")).toBe(
+      'ada@example.com'
+    );
+    expect(readJsonPath(payload, '$.form_response.answers[3].text')).toBe(
+      undefined
+    );
+    expect(readJsonPath(payload, '$.form_response.token.length')).toBe(
+      undefined
+    );
+    expect(() => readJsonPath(payload, 'form_response.token')).toThrow(
+      'Invalid path'
+    );
+  });
+
+  it('should transform values', () => {
+    const first = { type: 'split_full_name', part: 'first' } as const;
+    const last = { type: 'split_full_name', part: 'last' } as const;
+    const currency = { type: 'parse_currency' } as const;
+
+    expect(applyFieldTransform('Lovelace, Ada', first)).toBe('Ada');
+    expect(applyFieldTransform('Ada King Lovelace', last)).toBe(
+      'King Lovelace'
+    );
+    expect(applyFieldTransform('Ada', last)).toBeUndefined();
+    expect(applyFieldTransform('350k', currency)).toBe(350000);
+    expect(applyFieldTransform('1.2M', currency)).toBe(1200000);
+    expect(applyFieldTransform('USD 400000.50', currency)).toBe(400000.5);
+    expect(() => applyFieldTransform('ask me', currency)).toThrow(
+      'Cannot read an amount from "ask me"'
+    );
+    expect(
+      applyFieldTransform(' HOT ', {
+        type: 'map_enum',
+        values: { hot: 'hot' },
+      })
+    ).toBe('hot');
+    expect(
+      applyFieldTransform('Someday', {
+        type: 'map_enum',
+        values: { now: 'hot' },
+        fallback: 'cold',
+      })
+    ).toBe('cold');
+  });
+
+  it('should read amounts with either decimal separator', () => {
+    const currency = { type: 'parse_currency' } as const;
+
+    expect(applyFieldTransform('R$ 1.250.000,00', currency)).toBe(1250000);
+    expect(applyFieldTransform('$1,250,000.00', currency)).toBe(1250000);
+    expect(applyFieldTransform('1.250,5', currency)).toBe(1250.5);
+    expect(applyFieldTransform('1.250.000', currency)).toBe(1250000);
+    // A lone group of three digits goes by the currency
+    expect(applyFieldTransform('R$ 1.250', currency)).toBe(1250);
+    expect(applyFieldTransform('$1,250', currency)).toBe(1250);
+    expect(applyFieldTransform('R$ 450 mil', currency)).toBe(450000);
+    expect(applyFieldTransform('R$ 1,5 milhão', currency)).toBe(1500000);
+    expect(
+      applyFieldTransform('1.250', { ...currency, decimalSeparator: ',' })
+    ).toBe(1250);
+    expect(
+      applyFieldTransform('1,250', { ...currency, decimalSeparator: ',' })
+    ).toBe(1.25);
+  });
+
+  it('should refuse ambiguous amounts', () => {
+    const currency = { type: 'parse_currency' } as const;
+
+    expect(() =>
+      applyFieldTransform('between 300k and 500k', currency)
+    ).toThrow('Ambiguous amount "between 300k and 500k": more than one number');
+    expect(() => applyFieldTransform('300-500k', currency)).toThrow(
+      'more than one number'
+    );
+    expect(() => applyFieldTransform('1,250', currency)).toThrow(
+      'Ambiguous amount "1,250": set the decimal separator of the transform'
+    );
+    expect(() => applyFieldTransform('1.25.000', currency)).toThrow(
+      'Cannot read an amount from "1.25.000"'
+    );
+    expect(() =>
+      applyFieldTransform('1.250.000,00', {
+        ...currency,
+        decimalSeparator: '.',
+      })
+    ).toThrow('Cannot read an amount from "1.250.000,00"');
+  });
+
+  it('should map a payload to a lead with the profile defaults', () => {
+    const result = applyFieldMappingProfile(profile, payload);
+
+    expect(result.errors).toEqual([]);
+    expect(result.sourceId).toBe('tf-123');
+    expect(result.normalized).toEqual({
+      source: 'website',
+      contactInfo: {
+        name: 'Ada Lovelace',
+        email: 'ada@example.com',
+        preferredChannel: 'email',
+        timezone: 'UTC',
+      },
+      leadType: 'warm',
+      urgencyLevel: 6,
+      intentSignals: ['buying_intent'],
+      qualificationData: {
+        budget: { max: 1250000 },
+        qualificationScore: 0,
+      },
+      sourceMetadata: { lastName: 'Lovelace' },
+    });
+  });
+
+  it('should list every problem with a payload', () => {
+    const result = applyFieldMappingProfile(profile, {
+      form_response: {
+        'Email Address': 'not-an-email',
+        budget: 'ask me',
+        plan: 'Rent',
+      },
+    });
+
+    expect(result.normalized).toBeUndefined();
+    expect(result.errors).toEqual([
+      'qualificationData.budget.max: Cannot read an amount from "ask me"',
+      'intentSignals: No mapping for value "Rent"',
+      'contactInfo.name: Required',
+    ]);
+    expect(result.mapped.contactInfo).toEqual({ email: 'not-an-email' });
+
+    const named = applyFieldMappingProfile(profile, {
+      form_response: {
+        answers: [{ text: 'Ada' }],
+        'Email Address': 'not-an-email',
+      },
+    });
+    expect(named.errors).toEqual(['contactInfo.email: Invalid email format']);
+  });
+});
@@ -80,13 +80,22 @@ describe('LeadIngestionSystem Integration', () => {
         },
       ];
 
+      const existingLeadId = '1a2b3c4d-0000-4000-8000-000000000456';
       const existingLead = {
-        id: 'existing-lead-456',
+        id: existingLeadId,
+        source: 'gmail',
         name: 'Jane Smith',
         email: 'jane.smith@example.com',
         phone: '555-123-4567',
-        source: 'gmail',
+        preferred_channel: 'email',
+        timezone: 'UTC',
+        lead_type: 'warm',
+        urgency_level: 5,
+        intent_signals: [],
+        qualification_score: '0.50',
+        status: 'new',
         created_at: new Date(),
+        updated_at: new Date(),
       };
 
       // Mock database queries for deduplication check (email match)
@@ -95,14 +104,69 @@ describe('LeadIngestionSystem Integration', () => {
         .mockResolvedValueOnce({ rows: [] }) // Phone query
         .mockResolvedValueOnce({ rows: [] }) // Name query
         .mockResolvedValueOnce({ rows: [existingLead] }) // Get existing lead for merge
-        .mockResolvedValueOnce({ rows: [{ id: 'existing-lead-456' }] }); // Update query
+        .mockResolvedValueOnce({ rows: [{ id: existingLeadId }] }); // Update query
 
       const results = await ingestionSystem.processRawLeads(rawLeads);
 
       expect(results).toHaveLength(1);
       expect(results[0].success).toBe(true);
       expect(results[0].isDuplicate).toBe(true);
-      expect(results[0].existingLeadId).toBe('existing-lead-456');
+      expect(results[0].existingLeadId).toBe(existingLeadId);
+    });
+
+    it('should record form consent together with the new lead', async () => {
+      const leadId = '1a2b3c4d-0000-4000-8000-000000000789';
+      const client = {
+        query: vi.fn(async (sql: string, params: any[]) =>
+          sql.includes('INSERT INTO consent_events')
+            ? {
+                rows: [
+                  {
+                    id: params[0],
+                    lead_id: params[1],
+                    channel: params[2],
+                    action: params[3],
+                    source: params[4],
+                    evidence: JSON.parse(params[5]),
+                    recorded_at: params[6],
+                  },
+                ],
+              }
+            : { rows: [{ id: leadId }] }
+        ),
+      };
+      (mockDatabaseManager as any).transaction = vi.fn((work) => work(client));
+      vi.mocked(mockDatabaseManager.query).mockResolvedValue({ rows: [] } as any);
+
+      const results = await ingestionSystem.processRawLeads([
+        {
+          source: 'website',
+          sourceId: 'form_789',
+          rawData: {
+            name: 'Carla Souza',
+            email: 'carla@example.com',
+            consent: 'yes',
+            consent_text: 'I agree to receive emails about my inquiry',
+          },
+          timestamp: new Date(),
+        },
+      ]);
+
+      expect(results[0]).toMatchObject({ success: true, leadId });
+      const consentInserts = client.query.mock.calls.filter(([sql]) =>
+        sql.includes('INSERT INTO consent_events')
+      );
+      expect(consentInserts).toHaveLength(1);
+      expect(consentInserts[0][1].slice(1, 5)).toEqual([
+        leadId,
+        'email',
+        'opt_in',
+        'lead_form',
+      ]);
+      expect(JSON.parse(consentInserts[0][1][5])).toMatchObject({
+        consentText: 'I agree to receive emails about my inquiry',
+        sourceId: 'form_789',
+      });
     });
 
     it('should handle Meta lead successfully', async () => {
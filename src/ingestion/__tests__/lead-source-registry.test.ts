@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import {
+  LeadSourceAdapter,
+  createDefaultLeadSourceRegistry,
+} from '../adapters';
+import { LeadNormalizer } from '../normalizer';
+import { WebhookServer } from '../webhook-server';
+import { LeadIngestionSystem } from '../lead-ingestion-system';
+import { DatabaseManager } from '../../database/manager';
+import { NormalizedLeadDataSchema, RawLeadData } from '../types';
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+/**
+ * A property portal added without touching the built-in sources
+ */
+function createPortalAdapter(): LeadSourceAdapter {
+  return {
+    source: 'zillow',
+    aliases: ['zillow_premier'],
+    validate: (payload) =>
+      payload.contact?.email ? [] : ['Portal lead requires contact.email'],
+    extractSourceId: (payload) => payload.listingLeadId,
+    normalize: (rawData: RawLeadData) => ({
+      source: 'zillow',
+      contactInfo: {
+        name: rawData.rawData.contact.name,
+        email: rawData.rawData.contact.email,
+        preferredChannel: 'email',
+        timezone: 'UTC',
+      },
+      leadType: 'hot',
+      urgencyLevel: 8,
+      intentSignals: ['buying_intent'],
+      qualificationData: { qualificationScore: 0.8 },
+    }),
+    fetch: vi.fn().mockResolvedValue([]),
+  };
+}
+
+const portalPayload = {
+  listingLeadId: 'zl-42',
+  contact: { name: 'Grace Hopper', email: 'grace@example.com' },
+};
+
+describe('LeadSourceRegistry', () => {
+  it('should resolve sources by alias and fall back to the generic adapter', () => {
+    const registry = createDefaultLeadSourceRegistry();
+
+    expect(registry.resolve('Facebook').source).toBe('meta_ads');
+    expect(registry.resolve('web_form').source).toBe('website');
+    expect(registry.get('unknown_portal')).toBeUndefined();
+    expect(registry.resolve('unknown_portal').source).toBe('third_party');
+  });
+
+  it('should only poll sources whose client is configured', () => {
+    const registry = createDefaultLeadSourceRegistry();
+    expect(registry.pollable()).toEqual([]);
+
+    registry.register(createPortalAdapter());
+    expect(registry.pollable().map((adapter) => adapter.source)).toEqual([
+      'zillow',
+    ]);
+  });
+
+  it('should reject adapters with invalid or conflicting names', () => {
+    const registry = createDefaultLeadSourceRegistry();
+
+    expect(() =>
+      registry.register({ ...createPortalAdapter(), source: 'Zillow Portal' })
+    ).toThrow('Invalid lead source name');
+    expect(() =>
+      registry.register({ ...createPortalAdapter(), aliases: ['facebook'] })
+    ).toThrow('Lead source name facebook is already used by meta_ads');
+  });
+
+  it('should replace a built-in adapter registered again', () => {
+    const registry = createDefaultLeadSourceRegistry();
+    const website = {
+      ...createPortalAdapter(),
+      source: 'website',
+      aliases: [],
+    };
+
+    registry.register(website);
+
+    expect(registry.resolve('website')).toBe(website);
+    expect(registry.get('web_form')).toBeUndefined();
+    expect(registry.list()).toHaveLength(5);
+  });
+
+  it('should normalize leads of registered sources', async () => {
+    const registry = createDefaultLeadSourceRegistry();
+    registry.register(createPortalAdapter());
+
+    const normalized = await new LeadNormalizer(registry).normalize({
+      source: 'zillow_premier',
+      rawData: portalPayload,
+      timestamp: new Date(),
+    });
+
+    expect(NormalizedLeadDataSchema.parse(normalized)).toMatchObject({
+      source: 'zillow',
+      contactInfo: { name: 'Grace Hopper', email: 'grace@example.com' },
+    });
+  });
+});
+
+describe('WebhookServer lead sources', () => {
+  let app: any;
+  let received: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    const registry = createDefaultLeadSourceRegistry();
+    registry.register(createPortalAdapter());
+    const server = new WebhookServer({ port: 0 }, registry);
+    received = vi.fn().mockResolvedValue(undefined);
+    server.onLeadsReceived(received);
+    app = (server as any).app;
+  });
+
+  it('should accept leads of any registered source', async () => {
+    const response = await request(app)
+      .post('/webhook/zillow')
+      .send(portalPayload)
+      .expect(200);
+
+    expect(response.body.count).toBe(1);
+    expect(received).toHaveBeenCalledWith([
+      expect.objectContaining({
+        source: 'zillow',
+        sourceId: 'zl-42',
+        rawData: portalPayload,
+      }),
+    ]);
+  });
+
+  it('should reject payloads the adapter cannot use', async () => {
+    const response = await request(app)
+      .post('/webhook/zillow')
+      .send({ contact: { name: 'No Email' } })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      'Portal lead requires contact.email',
+    ]);
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('should answer 404 for sources without an adapter', async () => {
+    await request(app).post('/webhook/unknown_portal').send({}).expect(404);
+  });
+
+  it('should validate website forms with the website adapter', async () => {
+    await request(app)
+      .post('/webhook/website')
+      .send({ name: 'Ada', message: 'Hello' })
+      .expect(400);
+
+    await request(app)
+      .post('/webhook/website')
+      .send({ name: 'Ada', email: 'ada@example.com', formId: 'contact-1' })
+      .expect(200);
+    expect(received.mock.calls[0][0][0]).toMatchObject({
+      source: 'website',
+      sourceId: 'contact-1',
+      rawData: { email: 'ada@example.com', formName: 'Website Contact Form' },
+    });
+  });
+});
+
+describe('LeadIngestionSystem lead sources', () => {
+  it('should trigger ingestion through the adapter of the source', async () => {
+    const portal = createPortalAdapter();
+    const system = new LeadIngestionSystem({
+      database: { query: vi.fn() } as unknown as DatabaseManager,
+      sourceAdapters: [portal],
+    });
+
+    const since = new Date('2026-01-14T15:00:00.000Z');
+    expect(await system.triggerIngestion('zillow', { since })).toEqual([]);
+    expect(portal.fetch).toHaveBeenCalledWith({ since });
+
+    await expect(system.triggerIngestion('myspace')).rejects.toThrow(
+      'Unknown source: myspace'
+    );
+    await expect(system.triggerIngestion('gmail')).rejects.toThrow(
+      'Leads cannot be fetched from gmail: no client configured'
+    );
+  });
+});
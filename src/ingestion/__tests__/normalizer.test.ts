@@ -150,6 +150,59 @@ describe('LeadNormalizer', () => {
       expect(normalized.qualificationData.propertyType).toBe('condo');
       expect(normalized.qualificationData.location).toBe('Downtown');
       expect(normalized.qualificationData.timeline).toBe('immediate');
+      expect(normalized.consent).toBeUndefined();
+    });
+
+    it('should read the consent checkbox with its evidence', async () => {
+      const rawData: RawLeadData = {
+        source: 'website',
+        sourceId: 'form_contact_124',
+        rawData: {
+          name: 'Bob Smith',
+          email: 'bob.smith@example.com',
+          phone: '555-111-2222',
+          formId: 'contact',
+          pageUrl: 'https://example.com/contact',
+          ipAddress: '203.0.113.7',
+          consent: 'on',
+          consent_text: 'I agree to be contacted about my inquiry',
+        },
+        timestamp: new Date('2026-01-14T15:00:00.000Z'),
+      };
+
+      const normalized = await normalizer.normalize(rawData);
+
+      expect(normalized.consent).toEqual({
+        channels: ['email', 'sms', 'whatsapp', 'voice'],
+        source: 'lead_form',
+        evidence: {
+          leadSource: 'website',
+          sourceId: 'form_contact_124',
+          consentText: 'I agree to be contacted about my inquiry',
+          formId: 'contact',
+          pageUrl: 'https://example.com/contact',
+          ipAddress: '203.0.113.7',
+          submittedAt: '2026-01-14T15:00:00.000Z',
+        },
+      });
+    });
+
+    it('should only record the channels the lead agreed to', async () => {
+      const rawData: RawLeadData = {
+        source: 'website',
+        rawData: {
+          name: 'Bob Smith',
+          email: 'bob.smith@example.com',
+          phone: '555-111-2222',
+          consent: true,
+          consent_channels: 'email, fax',
+        },
+        timestamp: new Date(),
+      };
+
+      const normalized = await normalizer.normalize(rawData);
+
+      expect(normalized.consent?.channels).toEqual(['email']);
     });
   });
 
@@ -0,0 +1,388 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import { createHmac } from 'crypto';
+import { WebhookServer } from '../webhook-server';
+
+vi.mock('../../utils/logger', () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+}));
+
+describe('WebhookServer inbound messages', () => {
+  let server: WebhookServer;
+  let app: any;
+  let inbound: any;
+  let receipts: any;
+
+  beforeEach(() => {
+    server = new WebhookServer({
+      port: 0,
+      webhookSecret: 'shared',
+      whatsapp: { verifyToken: 'verify-me', appSecret: 'app-secret' },
+    });
+    app = (server as any).app;
+    inbound = vi.fn().mockResolvedValue(undefined);
+    receipts = vi.fn().mockResolvedValue(undefined);
+    server.onInboundMessages(inbound);
+    server.onDeliveryReceipts(receipts);
+  });
+
+  describe('SMS', () => {
+    it('should accept JSON gateway callbacks', async () => {
+      const response = await request(app)
+        .post('/webhook/inbound/sms')
+        .set('X-Webhook-Secret', 'shared')
+        .send({ from: '+15551234567', text: 'STOP', id: 'sms-1' });
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ success: true, count: 1 });
+      expect(inbound).toHaveBeenCalledWith([
+        expect.objectContaining({
+          channel: 'sms',
+          from: '+15551234567',
+          content: 'STOP',
+          externalId: 'sms-1',
+        }),
+      ]);
+    });
+
+    it('should accept form-encoded callbacks', async () => {
+      await request(app)
+        .post('/webhook/inbound/sms')
+        .set('X-Webhook-Secret', 'shared')
+        .type('form')
+        .send({ From: '+15551234567', Body: 'Call me', MessageSid: 'SM1' })
+        .expect(200);
+
+      expect(inbound.mock.calls[0][0][0]).toMatchObject({
+        from: '+15551234567',
+        content: 'Call me',
+        externalId: 'SM1',
+      });
+    });
+
+    it('should reject callbacks without a sender', async () => {
+      await request(app)
+        .post('/webhook/inbound/sms')
+        .set('X-Webhook-Secret', 'shared')
+        .send({ text: 'Hello' })
+        .expect(400);
+      expect(inbound).not.toHaveBeenCalled();
+    });
+
+    it('should require the webhook secret', async () => {
+      await request(app)
+        .post('/webhook/inbound/sms')
+        .send({ from: '+15551234567', text: 'Hi' })
+        .expect(403);
+      await request(app)
+        .post('/webhook/inbound/sms')
+        .set('X-Webhook-Secret', 'guess')
+        .send({ from: '+15551234567', text: 'Hi' })
+        .expect(403);
+      expect(inbound).not.toHaveBeenCalled();
+    });
+
+    it('should refuse callbacks when no secret is configured', async () => {
+      server = new WebhookServer({ port: 0 });
+      server.onInboundMessages(inbound);
+      app = (server as any).app;
+
+      await request(app)
+        .post('/webhook/inbound/sms')
+        .set('X-Webhook-Secret', '')
+        .send({ from: '+15551234567', text: 'STOP' })
+        .expect(403);
+      expect(inbound).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('WhatsApp', () => {
+    const payload = {
+      object: 'whatsapp_business_account',
+      entry: [
+        {
+          changes: [
+            {
+              value: {
+                messages: [
+                  {
+                    from: '15551234567',
+                    id: 'wamid.1',
+                    timestamp: '1767225600',
+                    type: 'text',
+                    text: { body: 'Tuesday works' },
+                  },
+                ],
+                statuses: [{ id: 'wamid.0', status: 'read', timestamp: '1767225500' }],
+              },
+            },
+          ],
+        },
+      ],
+    };
+
+    function sign(body: string): string {
+      return `sha256=${createHmac('sha256', 'app-secret').update(body).digest('hex')}`;
+    }
+
+    it('should answer the verification challenge', async () => {
+      const response = await request(app).get('/webhook/inbound/whatsapp').query({
+        'hub.mode': 'subscribe',
+        'hub.verify_token': 'verify-me',
+        'hub.challenge': '42',
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.text).toBe('42');
+    });
+
+    it('should forward signed messages and status updates', async () => {
+      const body = JSON.stringify(payload);
+
+      const response = await request(app)
+        .post('/webhook/inbound/whatsapp')
+        .set('Content-Type', 'application/json')
+        .set('X-Hub-Signature-256', sign(body))
+        .send(body);
+
+      expect(response.body).toEqual({ success: true, count: 1 });
+      expect(inbound).toHaveBeenCalledWith([
+        {
+          channel: 'whatsapp',
+          from: '15551234567',
+          content: 'Tuesday works',
+          externalId: 'wamid.1',
+          receivedAt: new Date(1767225600 * 1000),
+        },
+      ]);
+      expect(receipts).toHaveBeenCalledWith('whatsapp-cloud', payload);
+    });
+
+    it('should reject invalid signatures', async () => {
+      await request(app)
+        .post('/webhook/inbound/whatsapp')
+        .set('Content-Type', 'application/json')
+        .set('X-Hub-Signature-256', 'sha256=invalid')
+        .send(JSON.stringify(payload))
+        .expect(403);
+      expect(inbound).not.toHaveBeenCalled();
+    });
+
+    it('should refuse notifications when no app secret is configured', async () => {
+      server = new WebhookServer({
+        port: 0,
+        webhookSecret: 'shared',
+        whatsapp: { verifyToken: 'verify-me' },
+      });
+      server.onInboundMessages(inbound);
+      app = (server as any).app;
+
+      await request(app)
+        .post('/webhook/inbound/whatsapp')
+        .set('Content-Type', 'application/json')
+        .send(JSON.stringify(payload))
+        .expect(403);
+      expect(inbound).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Email', () => {
+    it('should strip quoted text from parsed replies', async () => {
+      await request(app)
+        .post('/webhook/inbound/email')
+        .set('X-Webhook-Secret', 'shared')
+        .send({
+          messageId: 'msg-2',
+          threadId: 'thread-1',
+          from: { email: 'lead@example.com' },
+          body: 'Sounds good, see you then.\n\nOn Mon, Jan 5, 2026 Sales wrote:\n> Are you free?',
+          inReplyTo: '<abc@example.com>',
+        })
+        .expect(200);
+
+      expect(inbound.mock.calls[0][0][0]).toMatchObject({
+        channel: 'email',
+        from: 'lead@example.com',
+        content: 'Sounds good, see you then.',
+        threadId: 'thread-1',
+        inReplyTo: '<abc@example.com>',
+      });
+    });
+
+    it('should fetch replies announced by Gmail push notifications', async () => {
+      const gmail = {
+        getMessagesSince: vi.fn().mockResolvedValue([
+          {
+            messageId: 'msg-3',
+            threadId: 'thread-2',
+            from: { email: 'lead@example.com' },
+            subject: 'Re: Your viewing',
+            body: 'Thanks!',
+            snippet: 'Thanks!',
+            receivedAt: new Date('2026-01-05T10:00:00Z'),
+            headers: { 'in-reply-to': '<abc@example.com>' },
+          },
+        ]),
+      };
+      server.setGmailClient(gmail as any);
+
+      const notify = (historyId: number) =>
+        request(app)
+          .post('/webhook/inbound/email')
+          .set('X-Webhook-Secret', 'shared')
+          .send({
+            message: {
+              data: Buffer.from(
+                JSON.stringify({ emailAddress: 'sales@example.com', historyId })
+              ).toString('base64'),
+            },
+          });
+
+      // The first notification only records the mailbox position
+      expect((await notify(100)).body).toEqual({ success: true, count: 0 });
+      expect(gmail.getMessagesSince).not.toHaveBeenCalled();
+
+      expect((await notify(105)).body).toEqual({ success: true, count: 1 });
+      expect(gmail.getMessagesSince).toHaveBeenCalledWith('100');
+      expect(inbound.mock.calls[0][0][0]).toMatchObject({
+        from: 'lead@example.com',
+        threadId: 'thread-2',
+        inReplyTo: '<abc@example.com>',
+      });
+    });
+
+    it('should take the secret from the push endpoint URL and keep the mailbox position in the cursor store', async () => {
+      const gmail = { getMessagesSince: vi.fn().mockResolvedValue([]) };
+      const cursors = { advance: vi.fn().mockResolvedValue('100') };
+      server.setGmailClient(gmail as any, cursors as any);
+      const body = {
+        message: {
+          data: Buffer.from(
+            JSON.stringify({ emailAddress: 'sales@example.com', historyId: 105 })
+          ).toString('base64'),
+        },
+      };
+
+      await request(app)
+        .post('/webhook/inbound/email?token=guess')
+        .send(body)
+        .expect(403);
+      await request(app)
+        .post('/webhook/inbound/email?token=shared')
+        .send(body)
+        .expect(200);
+
+      expect(cursors.advance).toHaveBeenCalledTimes(1);
+      expect(cursors.advance).toHaveBeenCalledWith(
+        'gmail:sales@example.com',
+        '105'
+      );
+      expect(gmail.getMessagesSince).toHaveBeenCalledWith('100');
+    });
+  });
+
+  it('should forward delivery receipts to the named provider', async () => {
+    await request(app)
+      .post('/webhook/receipts/http-sms')
+      .set('X-Webhook-Secret', 'shared')
+      .send({ id: 'sms-1', status: 'DELIVRD' })
+      .expect(200);
+
+    expect(receipts).toHaveBeenCalledWith('http-sms', {
+      id: 'sms-1',
+      status: 'DELIVRD',
+    });
+  });
+});
+
+describe('WebhookServer field mapping profiles', () => {
+  let server: WebhookServer;
+  let app: any;
+  let received: any;
+  let profiles: any;
+
+  const profile = {
+    id: '5d6e7f80-1a2b-4c3d-9e4f-5a6b7c8d9e0f',
+    name: 'typeform-buyers',
+    integration: 'zapier',
+    leadSource: 'website',
+    sourceIdPath: '$.token',
+    mappings: [
+      { source: '$.full_name', target: 'contactInfo.name' },
+      { source: '$.email', target: 'contactInfo.email' },
+    ],
+    defaults: { leadType: 'warm' },
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+  };
+
+  beforeEach(() => {
+    server = new WebhookServer({ port: 0 });
+    app = (server as any).app;
+    received = vi.fn().mockResolvedValue(undefined);
+    server.onLeadsReceived(received);
+    profiles = { findByName: vi.fn().mockResolvedValue(profile) };
+    server.setFieldMappingProfiles(profiles);
+  });
+
+  it('should map the payload with the profile named in the header', async () => {
+    const response = await request(app)
+      .post('/webhook/zapier')
+      .set('X-Mapping-Profile', 'typeform-buyers')
+      .send({ token: 'tf-1', full_name: 'Ada Lovelace', email: 'ada@ex.com' })
+      .expect(200);
+
+    expect(response.body.leadId).toBe('tf-1');
+    expect(profiles.findByName).toHaveBeenCalledWith(
+      'zapier',
+      'typeform-buyers'
+    );
+    expect(received.mock.calls[0][0][0]).toMatchObject({
+      source: 'website',
+      sourceId: 'tf-1',
+      rawData: { mappingProfile: 'typeform-buyers', integration: 'zapier' },
+      normalized: {
+        source: 'website',
+        leadType: 'warm',
+        contactInfo: { name: 'Ada Lovelace', email: 'ada@ex.com' },
+      },
+    });
+  });
+
+  it('should reject payloads the profile cannot map', async () => {
+    const response = await request(app)
+      .post('/webhook/zapier?profile=typeform-buyers')
+      .send({ full_name: 'Ada Lovelace' })
+      .expect(400);
+
+    expect(response.body.errors).toEqual([
+      'contactInfo: A lead requires an email or phone number',
+    ]);
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('should answer 404 for unknown profiles', async () => {
+    profiles.findByName.mockResolvedValue(null);
+
+    await request(app)
+      .post('/webhook/integromat')
+      .set('X-Mapping-Profile', 'missing')
+      .send({ email: 'ada@ex.com' })
+      .expect(404);
+    expect(profiles.findByName).toHaveBeenCalledWith('integromat', 'missing');
+    expect(received).not.toHaveBeenCalled();
+  });
+
+  it('should leave payloads without a profile to the source adapter', async () => {
+    await request(app)
+      .post('/webhook/generic')
+      .set('X-Source', 'website')
+      .send({ formId: 'form-9', email: 'ada@ex.com' })
+      .expect(200);
+
+    expect(profiles.findByName).not.toHaveBeenCalled();
+    const lead = received.mock.calls[0][0][0];
+    expect(lead).toMatchObject({ source: 'website', sourceId: 'form-9' });
+    expect(lead.normalized).toBeUndefined();
+  });
+});
@@ -0,0 +1,68 @@
+import { RawLeadData } from '../types';
+import {
+  CommunicationChannel,
+  CommunicationChannelSchema,
+  LeadConsent,
+} from '../../types/communication';
+
+/**
+ * Helpers for sources whose leads arrive as form fields, which may carry
+ * the lead's opt-in to be contacted
+ */
+
+const CHECKED_VALUES = new Set(['true', 'yes', 'on', '1', 'sim', 'si']);
+
+/**
+ * Opt-in ticked on a lead form. `consent_channels` lists the channels agreed
+ * to, as an array or a comma-separated string; a bare `consent` checkbox
+ * covers the channels the form collected contact details for. The consent
+ * text, form, page and submitter are kept as evidence.
+ */
+export function readFormConsent(
+  rawData: RawLeadData,
+  contact: { email?: string; phone?: string }
+): LeadConsent | undefined {
+  const data = rawData.rawData;
+
+  let channels: CommunicationChannel[];
+  if (data.consent_channels !== undefined) {
+    const listed = Array.isArray(data.consent_channels)
+      ? data.consent_channels
+      : String(data.consent_channels).split(',');
+    channels = listed
+      .map((channel: unknown) => String(channel).trim().toLowerCase())
+      .filter(
+        (channel: string): channel is CommunicationChannel =>
+          CommunicationChannelSchema.safeParse(channel).success
+      );
+  } else if (CHECKED_VALUES.has(String(data.consent).trim().toLowerCase())) {
+    channels = [
+      ...(contact.email ? (['email'] as const) : []),
+      ...(contact.phone ? (['sms', 'whatsapp', 'voice'] as const) : []),
+    ];
+  } else {
+    return undefined;
+  }
+
+  if (channels.length === 0) return undefined;
+
+  const evidence: Record<string, unknown> = {
+    leadSource: rawData.source,
+    sourceId: rawData.sourceId,
+    consentText: data.consent_text,
+    formId: data.formId,
+    formName: data.formName,
+    pageUrl: data.pageUrl,
+    ipAddress: data.ipAddress,
+    userAgent: data.userAgent,
+    submittedAt: rawData.timestamp.toISOString(),
+  };
+
+  return {
+    channels: Array.from(new Set(channels)),
+    source: 'lead_form',
+    evidence: Object.fromEntries(
+      Object.entries(evidence).filter(([, value]) => value !== undefined)
+    ),
+  };
+}
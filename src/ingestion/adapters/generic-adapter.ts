@@ -0,0 +1,63 @@
+import { RawLeadData, NormalizedLeadData } from '../types';
+import { LeadSource } from '../../types/lead';
+import { LeadSourceAdapter } from './lead-source-adapter';
+import { readFormConsent } from './form-consent';
+
+/**
+ * Leads from third-party integrations, and from any source without an
+ * adapter of its own
+ */
+export class GenericSourceAdapter implements LeadSourceAdapter {
+  readonly source: LeadSource = 'third_party';
+
+  validate(payload: Record<string, any>): string[] {
+    const email = payload.email || payload.email_address;
+    const phone = payload.phone || payload.phone_number || payload.mobile;
+    return email || phone ? [] : ['Lead requires an email or phone number'];
+  }
+
+  extractSourceId(payload: Record<string, any>): string | undefined {
+    return payload.id === undefined ? undefined : String(payload.id);
+  }
+
+  normalize(rawData: RawLeadData): NormalizedLeadData {
+    const data = rawData.rawData;
+
+    const name = data.name || data.full_name || data.contact_name || 'Unknown';
+    const email = data.email || data.email_address;
+    const phone = data.phone || data.phone_number || data.mobile;
+
+    // Default to cold for unknown sources
+    const leadType = 'cold';
+    const urgencyLevel = 2;
+
+    const intentSignals = data.intent_signals || [];
+    const qualificationData = {
+      budget:
+        data.budget_min || data.budget_max
+          ? { min: data.budget_min, max: data.budget_max }
+          : undefined,
+      location: data.location,
+      propertyType: data.property_type,
+      timeline: data.timeline,
+      qualificationScore: data.qualification_score || 0,
+    };
+
+    return {
+      source: this.source,
+      contactInfo: {
+        name,
+        email,
+        phone,
+        preferredChannel: phone ? 'sms' : 'email',
+        timezone: data.timezone || 'UTC',
+      },
+      leadType,
+      urgencyLevel,
+      intentSignals,
+      qualificationData,
+      sourceMetadata: data,
+      consent: readFormConsent(rawData, { email, phone }),
+    };
+  }
+}
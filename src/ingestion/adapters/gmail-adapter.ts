@@ -0,0 +1,127 @@
+import { RawLeadData, NormalizedLeadData } from '../types';
+import { LeadSource } from '../../types/lead';
+import { GmailClient } from '../../integrations/gmail/client';
+import {
+  LeadSourceAdapter,
+  LeadSourceFetchOptions,
+} from './lead-source-adapter';
+import {
+  analyzeUrgency,
+  extractIntentSignals,
+  extractName,
+  extractPhoneFromText,
+  extractQualificationFromText,
+} from './text-analysis';
+
+// Label added to emails once they have been turned into leads
+const PROCESSED_LABEL = 'Lead Processed';
+
+/**
+ * Leads from emails in the connected Gmail inbox
+ */
+export class GmailSourceAdapter implements LeadSourceAdapter {
+  readonly source: LeadSource = 'gmail';
+  readonly fetch?: (options?: LeadSourceFetchOptions) => Promise<RawLeadData[]>;
+
+  constructor(client?: GmailClient) {
+    if (client) {
+      this.fetch = (options) => this.fetchEmails(client, options);
+    }
+  }
+
+  validate(payload: Record<string, any>): string[] {
+    const email =
+      payload.from?.email || payload.sender?.email || payload.replyTo;
+    return email ? [] : ['Email lead requires a sender address'];
+  }
+
+  extractSourceId(payload: Record<string, any>): string | undefined {
+    return payload.messageId;
+  }
+
+  normalize(rawData: RawLeadData): NormalizedLeadData {
+    const data = rawData.rawData;
+
+    // Extract name from email sender or subject
+    const name = extractName(
+      data.from?.name ||
+        data.sender?.name ||
+        data.from?.email?.split('@')[0] ||
+        'Unknown'
+    );
+
+    // Extract email
+    const email = data.from?.email || data.sender?.email || data.replyTo;
+
+    // Extract phone from email content if available
+    const phone = extractPhoneFromText(data.body || data.snippet || '');
+
+    // Analyze urgency from subject and content
+    const urgencyLevel = analyzeUrgency(data.subject, data.body);
+
+    // Extract intent signals
+    const intentSignals = extractIntentSignals(data.subject, data.body);
+
+    // Extract qualification data from email content
+    const qualificationData = extractQualificationFromText(
+      data.body || data.snippet || ''
+    );
+
+    return {
+      source: this.source,
+      contactInfo: {
+        name,
+        email,
+        phone,
+        preferredChannel: 'email',
+        timezone: this.extractTimezone(data) || 'UTC',
+      },
+      leadType: urgencyLevel >= 7 ? 'hot' : urgencyLevel >= 4 ? 'warm' : 'cold',
+      urgencyLevel,
+      intentSignals,
+      qualificationData,
+      sourceMetadata: {
+        messageId: data.messageId,
+        threadId: data.threadId,
+        subject: data.subject,
+        receivedAt: data.receivedAt,
+      },
+    };
+  }
+
+  /**
+   * Recent emails that might contain leads, labelled as processed
+   */
+  private async fetchEmails(
+    client: GmailClient,
+    options: LeadSourceFetchOptions = {}
+  ): Promise<RawLeadData[]> {
+    const emails = await client.getRecentEmails({
+      maxResults: options.maxResults,
+      query: options.query,
+      since: options.since,
+    });
+
+    const rawLeads: RawLeadData[] = [];
+    for (const email of emails) {
+      rawLeads.push(client.emailToRawLeadData(email));
+      await client.addLabel(email.messageId, PROCESSED_LABEL);
+    }
+    return rawLeads;
+  }
+
+  /**
+   * Extract timezone from email headers or content
+   */
+  private extractTimezone(data: any): string | undefined {
+    // Try to extract from email headers
+    if (data.headers?.date) {
+      const dateMatch = data.headers.date.match(/([+-]\d{4})/);
+      if (dateMatch) {
+        // Convert offset to timezone (simplified)
+        return 'UTC'; // For now, default to UTC
+      }
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,31 @@
+import { GmailClient } from '../../integrations/gmail/client';
+import { MetaClient } from '../../integrations/meta/client';
+import { LeadSourceRegistry } from './lead-source-adapter';
+import { GenericSourceAdapter } from './generic-adapter';
+import { GmailSourceAdapter } from './gmail-adapter';
+import { MetaSourceAdapter } from './meta-adapter';
+import { SlackSourceAdapter } from './slack-adapter';
+import { WebsiteSourceAdapter } from './website-adapter';
+
+export * from './lead-source-adapter';
+export * from './form-consent';
+export * from './generic-adapter';
+export * from './gmail-adapter';
+export * from './meta-adapter';
+export * from './slack-adapter';
+export * from './website-adapter';
+
+/**
+ * Registry with the built-in sources. Gmail and Meta can be polled when
+ * their clients are given.
+ */
+export function createDefaultLeadSourceRegistry(
+  clients: { gmail?: GmailClient; meta?: MetaClient } = {}
+): LeadSourceRegistry {
+  const registry = new LeadSourceRegistry(new GenericSourceAdapter());
+  registry.register(new GmailSourceAdapter(clients.gmail));
+  registry.register(new MetaSourceAdapter(clients.meta));
+  registry.register(new WebsiteSourceAdapter());
+  registry.register(new SlackSourceAdapter());
+  return registry;
+}
@@ -0,0 +1,117 @@
+import { logger } from '../../utils/logger';
+import { RawLeadData, NormalizedLeadData } from '../types';
+import { LeadSource, LeadSourceSchema } from '../../types/lead';
+
+export interface LeadSourceFetchOptions {
+  since?: Date;
+  maxResults?: number;
+  [option: string]: any; // source specific, e.g. the Meta page ID
+}
+
+/**
+ * Everything the ingestion system needs to know about one lead source.
+ * Adding a portal means writing an adapter and registering it.
+ */
+export interface LeadSourceAdapter {
+  // Source recorded on the leads this adapter normalizes
+  readonly source: LeadSource;
+  // Other names the source arrives under, e.g. facebook for meta_ads
+  readonly aliases?: string[];
+
+  /**
+   * Problems that keep a raw payload from becoming a lead; empty when the
+   * payload is usable
+   */
+  validate(payload: Record<string, any>): string[];
+
+  normalize(rawData: RawLeadData): NormalizedLeadData;
+
+  /**
+   * ID of the lead in the source system, when the payload carries one
+   */
+  extractSourceId(payload: Record<string, any>): string | undefined;
+
+  /**
+   * Pull new leads from the source. Only sources that can be polled, and
+   * whose client is configured, have it.
+   */
+  fetch?(options?: LeadSourceFetchOptions): Promise<RawLeadData[]>;
+}
+
+/**
+ * Lead sources known to the ingestion system, by source name and alias.
+ * Names are matched case-insensitively; unknown sources resolve to the
+ * fallback adapter.
+ */
+export class LeadSourceRegistry {
+  private adapters: Map<string, LeadSourceAdapter> = new Map();
+
+  constructor(private fallback: LeadSourceAdapter) {
+    this.register(fallback);
+  }
+
+  /**
+   * Register an adapter. A built-in source is replaced when an adapter for
+   * it is registered again; an alias taken by another source is an error.
+   */
+  register(adapter: LeadSourceAdapter): void {
+    if (!LeadSourceSchema.safeParse(adapter.source).success) {
+      throw new Error(`Invalid lead source name: ${adapter.source}`);
+    }
+
+    const names = [adapter.source, ...(adapter.aliases ?? [])].map((name) =>
+      name.toLowerCase()
+    );
+    for (const name of names) {
+      const existing = this.adapters.get(name);
+      if (existing && existing.source !== adapter.source) {
+        throw new Error(
+          `Lead source name ${name} is already used by ${existing.source}`
+        );
+      }
+    }
+
+    const replaced = this.adapters.get(adapter.source);
+    if (replaced) {
+      for (const [name, existing] of this.adapters) {
+        if (existing === replaced) this.adapters.delete(name);
+      }
+    }
+    for (const name of names) {
+      this.adapters.set(name, adapter);
+    }
+    if (replaced === this.fallback) {
+      this.fallback = adapter;
+    }
+
+    logger.info(`Registered lead source adapter: ${adapter.source}`);
+  }
+
+  /**
+   * Adapter registered under a source name or alias
+   */
+  get(source: string): LeadSourceAdapter | undefined {
+    return this.adapters.get(source.toLowerCase());
+  }
+
+  /**
+   * Adapter for a source, or the fallback for unknown sources
+   */
+  resolve(source: string): LeadSourceAdapter {
+    return this.get(source) ?? this.fallback;
+  }
+
+  /**
+   * Each registered adapter once, in registration order
+   */
+  list(): LeadSourceAdapter[] {
+    return Array.from(new Set(this.adapters.values()));
+  }
+
+  /**
+   * Adapters that can currently be polled for leads
+   */
+  pollable(): LeadSourceAdapter[] {
+    return this.list().filter((adapter) => adapter.fetch !== undefined);
+  }
+}
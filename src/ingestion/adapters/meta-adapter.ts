@@ -0,0 +1,137 @@
+import { RawLeadData, NormalizedLeadData } from '../types';
+import { LeadSource } from '../../types/lead';
+import { MetaClient } from '../../integrations/meta/client';
+import { logger } from '../../utils/logger';
+import {
+  LeadSourceAdapter,
+  LeadSourceFetchOptions,
+} from './lead-source-adapter';
+
+/**
+ * Leads from Meta (Facebook/Instagram) lead ads
+ */
+export class MetaSourceAdapter implements LeadSourceAdapter {
+  readonly source: LeadSource = 'meta_ads';
+  readonly aliases = ['meta', 'facebook', 'instagram'];
+  readonly fetch?: (options?: LeadSourceFetchOptions) => Promise<RawLeadData[]>;
+
+  constructor(client?: MetaClient) {
+    if (client) {
+      this.fetch = (options) => this.fetchPageLeads(client, options);
+    }
+  }
+
+  validate(payload: Record<string, any>): string[] {
+    return payload.email || payload.phone_number || payload.phone
+      ? []
+      : ['Meta lead requires an email or phone number'];
+  }
+
+  extractSourceId(payload: Record<string, any>): string | undefined {
+    return payload.id ?? payload.leadgen_id;
+  }
+
+  normalize(rawData: RawLeadData): NormalizedLeadData {
+    const data = rawData.rawData;
+
+    const name =
+      data.full_name ||
+      data.name ||
+      `${data.first_name || ''} ${data.last_name || ''}`.trim() ||
+      'Unknown';
+    const email = data.email;
+    const phone = data.phone_number || data.phone;
+
+    // Meta leads are typically warm since they came from ads
+    const leadType = 'warm';
+    const urgencyLevel = 5; // Default for ad leads
+
+    // Extract intent signals from form responses
+    const intentSignals = this.extractIntentSignals(data);
+
+    // Extract qualification data from form fields
+    const qualificationData = this.extractQualificationData(data);
+
+    return {
+      source: this.source,
+      contactInfo: {
+        name,
+        email,
+        phone,
+        preferredChannel: phone ? 'sms' : 'email',
+        timezone: 'UTC', // Meta doesn't provide timezone info
+      },
+      leadType,
+      urgencyLevel,
+      intentSignals,
+      qualificationData,
+      sourceMetadata: {
+        adId: data.ad_id,
+        campaignId: data.campaign_id,
+        formId: data.form_id,
+        platform: data.platform || 'facebook',
+        createdTime: data.created_time,
+      },
+    };
+  }
+
+  /**
+   * Leads of the page given as the pageId option. Without one there is
+   * nothing to poll: Meta leads are primarily handled via webhooks.
+   */
+  private async fetchPageLeads(
+    client: MetaClient,
+    options: LeadSourceFetchOptions = {}
+  ): Promise<RawLeadData[]> {
+    if (!options.pageId) {
+      logger.debug('Meta polling needs a page ID - using webhooks');
+      return [];
+    }
+
+    const leads = await client.getPageLeads(options.pageId, {
+      limit: options.maxResults,
+      since: options.since,
+      until: options.until,
+    });
+    return leads.map((lead) => client.metaLeadToRawLeadData(lead));
+  }
+
+  /**
+   * Extract intent signals from Meta form data
+   */
+  private extractIntentSignals(data: any): string[] {
+    const signals: string[] = [];
+
+    // Check form fields for intent
+    if (data.looking_to_buy) signals.push('buying_intent');
+    if (data.looking_to_sell) signals.push('selling_intent');
+    if (data.interested_in_renting) signals.push('rental_intent');
+    if (data.investment_property) signals.push('investment_intent');
+    if (data.need_financing) signals.push('financing_need');
+
+    return signals;
+  }
+
+  /**
+   * Extract qualification data from Meta form
+   */
+  private extractQualificationData(data: any): any {
+    return {
+      budget:
+        data.budget_min || data.budget_max
+          ? {
+              min: data.budget_min ? parseInt(data.budget_min) : undefined,
+              max: data.budget_max ? parseInt(data.budget_max) : undefined,
+            }
+          : undefined,
+      location: data.preferred_location || data.city,
+      propertyType: data.property_type,
+      timeline: data.timeline || data.when_looking_to_buy,
+      qualificationScore: data.budget_min
+        ? 0.8
+        : data.preferred_location
+        ? 0.6
+        : 0.4,
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { RawLeadData, NormalizedLeadData } from '../types';
+import { LeadSource } from '../../types/lead';
+import { LeadSourceAdapter } from './lead-source-adapter';
+import {
+  extractIntentSignals,
+  extractQualificationFromText,
+} from './text-analysis';
+
+/**
+ * Leads referred in Slack messages
+ */
+export class SlackSourceAdapter implements LeadSourceAdapter {
+  readonly source: LeadSource = 'slack';
+
+  validate(payload: Record<string, any>): string[] {
+    const errors: string[] = [];
+    if (!payload.user) errors.push('Slack lead requires the posting user');
+    if (!payload.text && !payload.message) {
+      errors.push('Slack lead requires the message text');
+    }
+    return errors;
+  }
+
+  extractSourceId(payload: Record<string, any>): string | undefined {
+    return payload.ts;
+  }
+
+  normalize(rawData: RawLeadData): NormalizedLeadData {
+    const data = rawData.rawData;
+
+    const name =
+      data.user?.real_name ||
+      data.user?.display_name ||
+      data.user?.name ||
+      'Unknown';
+    const email = data.user?.profile?.email;
+
+    // Slack leads are typically referrals, so warm
+    const leadType = 'warm';
+    const urgencyLevel = 4;
+
+    // Extract intent signals from message content
+    const intentSignals = extractIntentSignals('', data.text || data.message);
+
+    const qualificationData = extractQualificationFromText(
+      data.text || data.message || ''
+    );
+
+    return {
+      source: this.source,
+      contactInfo: {
+        name,
+        email,
+        preferredChannel: 'email',
+        timezone: data.user?.tz || 'UTC',
+      },
+      leadType,
+      urgencyLevel,
+      intentSignals,
+      qualificationData,
+      sourceMetadata: {
+        userId: data.user?.id,
+        channelId: data.channel,
+        messageTs: data.ts,
+        teamId: data.team_id,
+      },
+    };
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Helpers for sources whose leads arrive as free text (emails, chat
+ * messages) rather than as form fields
+ */
+
+/**
+ * Extract name from various text formats
+ */
+export function extractName(text: string): string {
+  if (!text) return 'Unknown';
+
+  // Clean up common email prefixes and suffixes
+  let name = text.replace(/^(re:|fwd:|fw:)/i, '').trim();
+
+  // If it looks like an email, extract the part before @
+  if (name.includes('@')) {
+    name = name.split('@')[0];
+  }
+
+  // Convert underscores and dots to spaces
+  name = name.replace(/[._]/g, ' ');
+
+  // Capitalize first letter of each word
+  name = name.replace(/\b\w/g, (l) => l.toUpperCase());
+
+  return name || 'Unknown';
+}
+
+/**
+ * Extract phone number from text using regex
+ */
+export function extractPhoneFromText(text: string): string | undefined {
+  const phoneRegex =
+    /(\+?1?[-.\s]?)?\(?([0-9]{3})\)?[-.\s]?([0-9]{3})[-.\s]?([0-9]{4})/;
+  const match = text.match(phoneRegex);
+  return match ? match[0].replace(/\D/g, '') : undefined;
+}
+
+/**
+ * Analyze urgency level from text content
+ */
+export function analyzeUrgency(subject?: string, body?: string): number {
+  const text = `${subject || ''} ${body || ''}`.toLowerCase();
+
+  // High urgency keywords
+  if (text.match(/urgent|asap|immediately|emergency|today|now|quick/)) {
+    return 9;
+  }
+
+  // Medium-high urgency
+  if (text.match(/soon|this week|deadline|time sensitive/)) {
+    return 7;
+  }
+
+  // Medium urgency
+  if (text.match(/interested|looking for|need|want|inquiry/)) {
+    return 5;
+  }
+
+  // Low urgency
+  return 3;
+}
+
+/**
+ * Extract intent signals from text
+ */
+export function extractIntentSignals(
+  subject?: string,
+  body?: string
+): string[] {
+  const text = `${subject || ''} ${body || ''}`.toLowerCase();
+  const signals: string[] = [];
+
+  // Real estate specific intent signals
+  if (text.match(/buy|purchase|looking to buy/)) signals.push('buying_intent');
+  if (text.match(/sell|selling|list my/)) signals.push('selling_intent');
+  if (text.match(/rent|rental|lease/)) signals.push('rental_intent');
+  if (text.match(/invest|investment|roi/)) signals.push('investment_intent');
+  if (text.match(/mortgage|financing|loan/)) signals.push('financing_need');
+  if (text.match(/agent|realtor|help/)) signals.push('agent_request');
+  if (text.match(/valuation|appraisal|worth/))
+    signals.push('valuation_request');
+  if (text.match(/market|price|cost/)) signals.push('market_research');
+
+  return signals;
+}
+
+/**
+ * Extract qualification data from text
+ */
+export function extractQualificationFromText(text: string): any {
+  const lowerText = text.toLowerCase();
+
+  // Extract budget information - improved regex to handle various formats
+  const budgetMatch = text.match(/\$?([\d,]+)(?:\s*[-–—]\s*\$?([\d,]+))?/);
+  let budget;
+  if (budgetMatch) {
+    const min = parseInt(budgetMatch[1].replace(/,/g, ''));
+    const max = budgetMatch[2]
+      ? parseInt(budgetMatch[2].replace(/,/g, ''))
+      : undefined;
+    budget = { min, max };
+  }
+
+  // Extract location
+  const locationMatch = text.match(/in\s+([A-Za-z\s,]+?)(?:\s|$|\.)/);
+  const location = locationMatch ? locationMatch[1].trim() : undefined;
+
+  // Extract property type
+  let propertyType;
+  if (lowerText.includes('house') || lowerText.includes('home'))
+    propertyType = 'house';
+  else if (lowerText.includes('condo') || lowerText.includes('condominium'))
+    propertyType = 'condo';
+  else if (lowerText.includes('apartment')) propertyType = 'apartment';
+  else if (lowerText.includes('commercial')) propertyType = 'commercial';
+
+  // Extract timeline
+  let timeline;
+  if (lowerText.match(/this month|30 days/)) timeline = 'immediate';
+  else if (lowerText.match(/next month|60 days/)) timeline = '1-2 months';
+  else if (lowerText.match(/3 months|quarter/)) timeline = '3 months';
+  else if (lowerText.match(/6 months|half year/)) timeline = '6 months';
+  else if (lowerText.match(/year|12 months/)) timeline = '1 year';
+
+  return {
+    budget,
+    location,
+    propertyType,
+    timeline,
+    qualificationScore: budget ? 0.7 : location ? 0.5 : 0.3,
+  };
+}
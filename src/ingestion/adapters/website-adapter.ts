@@ -0,0 +1,117 @@
+import { RawLeadData, NormalizedLeadData } from '../types';
+import { LeadSource } from '../../types/lead';
+import { LeadSourceAdapter } from './lead-source-adapter';
+import { readFormConsent } from './form-consent';
+
+/**
+ * Leads from forms on our websites
+ */
+export class WebsiteSourceAdapter implements LeadSourceAdapter {
+  readonly source: LeadSource = 'website';
+  readonly aliases = ['web_form'];
+
+  validate(payload: Record<string, any>): string[] {
+    return payload.email || payload.phone || payload.phoneNumber
+      ? []
+      : ['Form submission requires an email or phone number'];
+  }
+
+  extractSourceId(payload: Record<string, any>): string | undefined {
+    return payload.formId;
+  }
+
+  normalize(rawData: RawLeadData): NormalizedLeadData {
+    const data = rawData.rawData;
+
+    const name =
+      data.name ||
+      data.full_name ||
+      (data.firstName && data.lastName
+        ? `${data.firstName} ${data.lastName}`
+        : null) ||
+      'Unknown';
+    const email = data.email;
+    const phone = data.phone || data.phoneNumber;
+
+    // Website forms are typically hot leads
+    const leadType = 'hot';
+    const urgencyLevel = this.analyzeUrgency(data);
+
+    // Extract intent signals from form data
+    const intentSignals = this.extractIntentSignals(data);
+
+    // Extract qualification data
+    const qualificationData = this.extractQualificationData(data);
+
+    return {
+      source: this.source,
+      contactInfo: {
+        name,
+        email,
+        phone,
+        preferredChannel: phone ? 'sms' : 'email',
+        timezone: data.timezone || 'UTC',
+      },
+      leadType,
+      urgencyLevel,
+      intentSignals,
+      qualificationData,
+      sourceMetadata: {
+        formName: data.formName,
+        pageUrl: data.pageUrl,
+        referrer: data.referrer,
+        userAgent: data.userAgent,
+        ipAddress: data.ipAddress,
+      },
+      consent: readFormConsent(rawData, { email, phone }),
+    };
+  }
+
+  /**
+   * Analyze urgency for website leads
+   */
+  private analyzeUrgency(data: any): number {
+    // Contact form submissions are typically high urgency
+    if (data.formName?.toLowerCase().includes('contact')) return 8;
+
+    // Quote requests are very high urgency
+    if (data.formName?.toLowerCase().includes('quote')) return 9;
+
+    // General inquiries are medium urgency
+    return 6;
+  }
+
+  /**
+   * Extract intent signals from website form data
+   */
+  private extractIntentSignals(data: any): string[] {
+    const signals: string[] = [];
+
+    if (data.service?.includes('buy')) signals.push('buying_intent');
+    if (data.service?.includes('sell')) signals.push('selling_intent');
+    if (data.service?.includes('rent')) signals.push('rental_intent');
+    if (data.inquiry_type === 'valuation') signals.push('valuation_request');
+    if (data.need_agent) signals.push('agent_request');
+
+    return signals;
+  }
+
+  /**
+   * Extract qualification data from website form
+   */
+  private extractQualificationData(data: any): any {
+    return {
+      budget:
+        data.budget_min || data.budget_max
+          ? {
+              min: data.budget_min ? parseInt(data.budget_min) : undefined,
+              max: data.budget_max ? parseInt(data.budget_max) : undefined,
+            }
+          : undefined,
+      location: data.location || data.city || data.area,
+      propertyType: data.property_type || data.propertyType,
+      timeline: data.timeline || data.timeframe,
+      qualificationScore: data.budget_min ? 0.9 : data.location ? 0.7 : 0.5,
+    };
+  }
+}
@@ -1,5 +1,9 @@
+import { config } from '../config/environment';
 import { DatabaseManager } from '../database/manager';
+import { LeadRepository, withOutboxEvent } from '../database/repositories';
+import { Lead } from '../types/lead';
 import { logger } from '../utils/logger';
+import { phoneDigitVariants } from '../utils/phone';
 import { NormalizedLeadData, DeduplicationResult } from './types';
 
 /**
@@ -7,7 +11,11 @@ import { NormalizedLeadData, DeduplicationResult } from './types';
  * based on contact information and other matching criteria
  */
 export class LeadDeduplicator {
-  constructor(private dbManager: DatabaseManager) {}
+  private leads: LeadRepository;
+
+  constructor(private dbManager: DatabaseManager) {
+    this.leads = new LeadRepository(dbManager);
+  }
 
   /**
    * Check if a normalized lead is a duplicate of an existing lead
@@ -51,78 +59,53 @@ export class LeadDeduplicator {
   /**
    * Find leads by email address
    */
-  private async findByEmail(email?: string): Promise<any[]> {
+  private async findByEmail(email?: string): Promise<Lead[]> {
     if (!email) return [];
 
-    const result = await this.dbManager.query(
-      'SELECT * FROM leads WHERE email = $1',
-      [email.toLowerCase()]
-    );
-
-    return result.rows;
+    return this.leads.findByEmail(email);
   }
 
   /**
    * Find leads by phone number
    */
-  private async findByPhone(phone?: string): Promise<any[]> {
+  private async findByPhone(phone?: string): Promise<Lead[]> {
     if (!phone) return [];
 
-    // Normalize phone number (remove all non-digits)
-    const normalizedPhone = phone.replace(/\D/g, '');
-
-    // Try different phone number formats
-    const phoneVariations = [
-      normalizedPhone,
-      normalizedPhone.slice(-10), // Last 10 digits
-      `1${normalizedPhone}`, // With country code
-    ];
-
-    const placeholders = phoneVariations.map((_, i) => `$${i + 1}`).join(', ');
-
-    const result = await this.dbManager.query(
-      `SELECT * FROM leads WHERE regexp_replace(phone, '[^0-9]', '', 'g') IN (${placeholders})`,
-      phoneVariations
+    // Match the number with and without its country code
+    return this.leads.findByPhoneDigits(
+      phoneDigitVariants(phone, config.DEFAULT_PHONE_COUNTRY_CODE)
     );
-
-    return result.rows;
   }
 
   /**
    * Find leads by name (fuzzy matching)
    */
-  private async findByName(name: string): Promise<any[]> {
+  private async findByName(name: string): Promise<Lead[]> {
     if (!name || name === 'Unknown') return [];
 
     // Use PostgreSQL's similarity function for fuzzy name matching
-    const result = await this.dbManager.query(
-      `SELECT *, similarity(name, $1) as name_similarity 
-       FROM leads 
-       WHERE similarity(name, $1) > 0.6
-       ORDER BY name_similarity DESC`,
-      [name]
-    );
+    const matches = await this.leads.findBySimilarName(name, 0.6);
 
-    return result.rows;
+    return matches.map((match) => match.lead);
   }
 
   /**
    * Combine matches from different criteria and remove duplicates
    */
   private combineMatches(
-    emailMatches: any[],
-    phoneMatches: any[],
-    nameMatches: any[]
-  ): any[] {
+    emailMatches: Lead[],
+    phoneMatches: Lead[],
+    nameMatches: Lead[]
+  ): Lead[] {
     const allMatches = [...emailMatches, ...phoneMatches, ...nameMatches];
 
     // Remove duplicates based on lead ID
-    const uniqueMatches = allMatches.reduce((acc: any[], match: any) => {
-      if (!acc.find((m: any) => m.id === match.id)) {
+    const uniqueMatches = allMatches.reduce((acc: Lead[], match: Lead) => {
+      if (!acc.find((m) => m.id === match.id)) {
         acc.push(match);
       }
       return acc;
-    }, [] as any[]);
+    }, [] as Lead[]);
 
     return uniqueMatches;
   }
@@ -132,9 +115,9 @@ export class LeadDeduplicator {
    */
   private findBestMatch(
     leadData: NormalizedLeadData,
-    matches: any[]
+    matches: Lead[]
   ): DeduplicationResult {
-    let bestMatch: any = null;
+    let bestMatch: Lead | null = null;
     let highestScore = 0;
     let matchingFields: string[] = [];
 
@@ -153,7 +136,7 @@ export class LeadDeduplicator {
 
     return {
       isDuplicate,
-      existingLeadId: isDuplicate ? bestMatch.id : undefined,
+      existingLeadId: isDuplicate ? bestMatch?.id : undefined,
       confidence: highestScore,
       matchingFields,
     };
@@ -164,16 +147,18 @@ export class LeadDeduplicator {
    */
   private calculateMatchScore(
     newLead: NormalizedLeadData,
-    existingLead: any
+    existingLead: Lead
   ): { total: number; fields: string[] } {
+    const existingContact = existingLead.contactInfo;
+
     let score = 0;
     const fields: string[] = [];
 
     // Email match (highest weight)
-    if (newLead.contactInfo.email && existingLead.email) {
+    if (newLead.contactInfo.email && existingContact.email) {
       if (
         newLead.contactInfo.email.toLowerCase() ===
-        existingLead.email.toLowerCase()
+        existingContact.email.toLowerCase()
       ) {
         score += 0.5;
         fields.push('email');
@@ -181,9 +166,9 @@ export class LeadDeduplicator {
     }
 
     // Phone match (high weight)
-    if (newLead.contactInfo.phone && existingLead.phone) {
+    if (newLead.contactInfo.phone && existingContact.phone) {
       const newPhone = newLead.contactInfo.phone.replace(/\D/g, '');
-      const existingPhone = existingLead.phone.replace(/\D/g, '');
+      const existingPhone = existingContact.phone.replace(/\D/g, '');
 
       if (
         newPhone === existingPhone ||
@@ -195,10 +180,10 @@ export class LeadDeduplicator {
     }
 
     // Name match (medium weight)
-    if (newLead.contactInfo.name && existingLead.name) {
+    if (newLead.contactInfo.name && existingContact.name) {
       const similarity = this.calculateNameSimilarity(
         newLead.contactInfo.name,
-        existingLead.name
+        existingContact.name
       );
 
       if (similarity > 0.8) {
@@ -214,10 +199,11 @@ export class LeadDeduplicator {
     }
 
     // Location match (if available)
-    if (newLead.qualificationData.location && existingLead.location) {
+    const existingLocation = existingLead.qualificationData.location;
+    if (newLead.qualificationData.location && existingLocation) {
       if (
         newLead.qualificationData.location.toLowerCase() ===
-        existingLead.location.toLowerCase()
+        existingLocation.toLowerCase()
       ) {
         score += 0.1;
         fields.push('location');
@@ -226,7 +212,7 @@ export class LeadDeduplicator {
 
     // Time proximity (leads created close in time are more likely to be duplicates)
     const timeDiff = Math.abs(
-      Date.now() - new Date(existingLead.created_at).getTime()
+      Date.now() - existingLead.createdAt.getTime()
     );
     const daysDiff = timeDiff / (1000 * 60 * 60 * 24);
 
@@ -341,40 +327,45 @@ export class LeadDeduplicator {
 
       // Update the existing lead
       await this.dbManager.query(
-        `
-        UPDATE leads SET
-          name = $2,
-          email = $3,
-          phone = $4,
-          preferred_channel = $5,
-          timezone = $6,
-          urgency_level = $7,
-          intent_signals = $8,
-          budget_min = $9,
-          budget_max = $10,
-          location = $11,
-          property_type = $12,
-          timeline = $13,
-          qualification_score = $14,
-          updated_at = CURRENT_TIMESTAMP
-        WHERE id = $1
-      `,
-        [
-          existingLeadId,
-          mergedContactInfo.name,
-          mergedContactInfo.email,
-          mergedContactInfo.phone,
-          mergedContactInfo.preferredChannel,
-          mergedContactInfo.timezone,
-          urgencyLevel,
-          mergedIntentSignals,
-          mergedQualificationData.budget_min,
-          mergedQualificationData.budget_max,
-          mergedQualificationData.location,
-          mergedQualificationData.property_type,
-          mergedQualificationData.timeline,
-          mergedQualificationData.qualification_score,
-        ]
+        ...withOutboxEvent(
+          `
+          UPDATE leads SET
+            name = $2,
+            email = $3,
+            phone = $4,
+            preferred_channel = $5,
+            timezone = $6,
+            urgency_level = $7,
+            intent_signals = $8,
+            budget_min = $9,
+            budget_max = $10,
+            location = $11,
+            property_type = $12,
+            timeline = $13,
+            qualification_score = $14,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+          RETURNING *
+        `,
+          [
+            existingLeadId,
+            mergedContactInfo.name,
+            mergedContactInfo.email,
+            mergedContactInfo.phone,
+            mergedContactInfo.preferredChannel,
+            mergedContactInfo.timezone,
+            urgencyLevel,
+            mergedIntentSignals,
+            mergedQualificationData.budget_min,
+            mergedQualificationData.budget_max,
+            mergedQualificationData.location,
+            mergedQualificationData.property_type,
+            mergedQualificationData.timeline,
+            mergedQualificationData.qualification_score,
+          ],
+          'lead_updated',
+          'lead'
+        )
       );
 
       logger.info(
@@ -5,6 +5,8 @@
 
 import { LeadIngestionSystem } from './lead-ingestion-system';
 import { DatabaseManager } from '../database/manager';
+import { createRepositories } from '../database/repositories';
+import { ResponseSlaEngine } from '../monitoring/response-sla-engine';
 import { RawLeadData } from './types';
 
 // Example configuration
@@ -49,6 +51,14 @@ async function exampleUsage() {
     console.log('Lead processing failed:', result.errors);
   });
 
+  // Start a response SLA timer for every new lead; the API process checks
+  // the timers for breaches
+  const responseSla = new ResponseSlaEngine(
+    {},
+    { repositories: createRepositories(config.database) }
+  );
+  responseSla.attachToIngestion(ingestionSystem);
+
   // Start the system
   await ingestionSystem.start();
 
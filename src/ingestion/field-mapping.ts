@@ -0,0 +1,329 @@
+import { z } from 'zod';
+import { NormalizedLeadData, NormalizedLeadDataSchema } from './types';
+import { ContactInfoSchema, QualificationDataSchema } from '../types/lead';
+import {
+  FieldMappingProfile,
+  FieldMappingTarget,
+  FieldMappingTransform,
+} from '../types/field-mapping';
+
+export interface FieldMappingResult {
+  // Lead fields read from the payload, defaults included, before validation
+  mapped: Record<string, any>;
+  // The lead, when the mapped fields pass validation
+  normalized?: NormalizedLeadData;
+  sourceId?: string;
+  errors: string[];
+}
+
+const NUMERIC_TARGETS = new Set<FieldMappingTarget>([
+  'urgencyLevel',
+  'qualificationData.budget.min',
+  'qualificationData.budget.max',
+  'qualificationData.qualificationScore',
+]);
+
+const PATH_SEGMENT =
+  /\.([A-Za-z0-9_-]+)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]/g;
+
+/**
+ * Value at a JSONPath-style location (`$.contact.email`, `$.answers[0]`,
+ * `$['Full Name']`), or undefined when the payload has nothing there
+ */
+export function readJsonPath(payload: unknown, path: string): unknown {
+  if (!path.startsWith('$')) {
+    throw new Error(`Invalid path: ${path}`);
+  }
+
+  const segments: string[] = [];
+  let position = 1;
+  for (const match of path.slice(1).matchAll(PATH_SEGMENT)) {
+    if (match.index !== position - 1) {
+      throw new Error(`Invalid path: ${path}`);
+    }
+    segments.push(match[1] ?? match[2] ?? match[3] ?? match[4]);
+    position += match[0].length;
+  }
+  if (position !== path.length) {
+    throw new Error(`Invalid path: ${path}`);
+  }
+
+  let value: any = payload;
+  for (const segment of segments) {
+    if (value === null || typeof value !== 'object') return undefined;
+    if (!Object.prototype.hasOwnProperty.call(value, segment)) {
+      return undefined;
+    }
+    value = value[segment];
+  }
+  return value;
+}
+
+/**
+ * Apply a value transform of a mapping. Throws when the value cannot be
+ * transformed.
+ */
+export function applyFieldTransform(
+  value: unknown,
+  transform: FieldMappingTransform
+): unknown {
+  switch (transform.type) {
+    case 'split_full_name':
+      return splitFullName(String(value))[transform.part];
+    case 'parse_currency':
+      return parseCurrency(value, transform.decimalSeparator);
+    case 'map_enum':
+      return Array.isArray(value)
+        ? value.map((item) => mapEnumValue(item, transform))
+        : mapEnumValue(value, transform);
+  }
+}
+
+/**
+ * Map a webhook payload to a lead with a profile. The result lists every
+ * problem found rather than stopping at the first.
+ */
+export function applyFieldMappingProfile(
+  profile: FieldMappingProfile,
+  payload: Record<string, any>
+): FieldMappingResult {
+  const errors: string[] = [];
+  const mapped: Record<string, any> = {
+    source: profile.leadSource,
+    contactInfo: {},
+    qualificationData: {},
+  };
+
+  for (const [target, value] of Object.entries(profile.defaults)) {
+    setTarget(mapped, target as FieldMappingTarget, value);
+  }
+
+  for (const mapping of profile.mappings) {
+    const value = readJsonPath(payload, mapping.source);
+    if (isEmpty(value)) continue;
+
+    try {
+      const transformed = mapping.transform
+        ? applyFieldTransform(value, mapping.transform)
+        : value;
+      if (!isEmpty(transformed)) {
+        setTarget(mapped, mapping.target, transformed);
+      }
+    } catch (error) {
+      errors.push(
+        `${mapping.target}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  if (!mapped.contactInfo.email && !mapped.contactInfo.phone) {
+    errors.push('contactInfo: A lead requires an email or phone number');
+  }
+
+  // The lead shape first, then the rules leads are created with
+  const validation = NormalizedLeadDataSchema.safeParse(mapped);
+  if (validation.success) {
+    errors.push(
+      ...issuesOf(
+        'contactInfo',
+        ContactInfoSchema,
+        validation.data.contactInfo
+      ),
+      ...issuesOf(
+        'qualificationData',
+        QualificationDataSchema,
+        validation.data.qualificationData
+      )
+    );
+  } else {
+    errors.push(...validation.error.issues.map(formatIssue));
+  }
+
+  const sourceId = readJsonPath(payload, profile.sourceIdPath ?? '$.id');
+
+  return {
+    mapped,
+    normalized:
+      validation.success && errors.length === 0 ? validation.data : undefined,
+    sourceId: isEmpty(sourceId) ? undefined : String(sourceId),
+    // A rule may be checked twice, e.g. the email format
+    errors: Array.from(new Set(errors)),
+  };
+}
+
+/**
+ * "Doe, John" and "John Doe" both give John as first and Doe as last name
+ */
+function splitFullName(value: string): { first?: string; last?: string } {
+  const name = value.trim().replace(/\s+/g, ' ');
+  const comma = name.indexOf(',');
+  if (comma !== -1) {
+    return {
+      first: name.slice(comma + 1).trim() || undefined,
+      last: name.slice(0, comma).trim() || undefined,
+    };
+  }
+
+  const space = name.indexOf(' ');
+  return space === -1
+    ? { first: name || undefined }
+    : { first: name.slice(0, space), last: name.slice(space + 1) };
+}
+
+type DecimalSeparator = '.' | ',';
+
+/**
+ * Amount in "$1,250,000", "R$ 1.250.000,00", "USD 400000.50", "350k",
+ * "1.2M" or "R$ 450 mil". Without a configured decimal separator it is read from the
+ * number, or for "1.250" from the currency (R$ and BRL use a comma).
+ * Throws when the amount stays ambiguous, e.g. a range of two numbers.
+ */
+function parseCurrency(
+  value: unknown,
+  decimalSeparator?: DecimalSeparator
+): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+
+  const text = String(value).toLowerCase();
+  const match = text.match(
+    /(\d(?:[\d.,]*\d)?)\s*(k|mil|milh(?:ão|ao|ões|oes)|mi|m)?(?![a-z])/
+  );
+  if (!match) {
+    throw new Error(`Cannot read an amount from "${value}"`);
+  }
+  if ((text.match(/\d(?:[\d.,]*\d)?/g) ?? []).length > 1) {
+    throw new Error(`Ambiguous amount "${value}": more than one number`);
+  }
+
+  const number = match[1];
+  const decimal =
+    decimalSeparator ??
+    readDecimalSeparator(number) ??
+    currencyDecimalSeparator(text);
+  if (!decimal) {
+    throw new Error(
+      `Ambiguous amount "${value}": set the decimal separator of the transform`
+    );
+  }
+
+  const amount = readAmount(number, decimal);
+  if (amount === undefined) {
+    throw new Error(`Cannot read an amount from "${value}"`);
+  }
+  const multiplier = !match[2]
+    ? 1
+    : match[2] === 'k' || match[2] === 'mil'
+      ? 1000
+      : 1000000;
+  return Math.round(amount * multiplier * 100) / 100;
+}
+
+/**
+ * Decimal separator the number itself shows: the last one when both are
+ * used, the other one when a separator repeats (thousands), and a lone
+ * separator unless exactly three digits follow it, as in "1.250"
+ */
+function readDecimalSeparator(number: string): DecimalSeparator | undefined {
+  const separators = number.replace(/\d/g, '');
+  if (separators === '') return '.';
+
+  const last = separators[separators.length - 1] as DecimalSeparator;
+  if (separators.includes('.') && separators.includes(',')) return last;
+  if (separators.length > 1) return last === '.' ? ',' : '.';
+  return number.length - number.indexOf(last) - 1 === 3 ? undefined : last;
+}
+
+function currencyDecimalSeparator(text: string): DecimalSeparator | undefined {
+  if (/r\$|\bbrl\b/.test(text)) return ',';
+  if (/\$|\busd\b/.test(text)) return '.';
+  return undefined;
+}
+
+/**
+ * Number with the given decimal separator and the other one, if any,
+ * between groups of three digits. Undefined when it does not fit.
+ */
+function readAmount(
+  number: string,
+  decimalSeparator: DecimalSeparator
+): number | undefined {
+  const thousands = decimalSeparator === '.' ? ',' : '.';
+  const [whole, fraction, ...rest] = number.split(decimalSeparator);
+  if (rest.length > 0 || fraction?.includes(thousands)) return undefined;
+  if (
+    whole.includes(thousands) &&
+    !new RegExp(`^\\d{1,3}(?:\\${thousands}\\d{3})+$`).test(whole)
+  ) {
+    return undefined;
+  }
+
+  return Number(
+    whole.split(thousands).join('') + (fraction ? `.${fraction}` : '')
+  );
+}
+
+function mapEnumValue(
+  value: unknown,
+  transform: Extract<FieldMappingTransform, { type: 'map_enum' }>
+): string | number {
+  const key = String(value).trim().toLowerCase();
+  const entry = Object.entries(transform.values).find(
+    ([from]) => from.trim().toLowerCase() === key
+  );
+  if (entry) return entry[1];
+  if (transform.fallback !== undefined) return transform.fallback;
+  throw new Error(`No mapping for value "${value}"`);
+}
+
+/**
+ * Set a lead field, converting the value to the type the field holds
+ */
+function setTarget(
+  lead: Record<string, any>,
+  target: FieldMappingTarget,
+  value: unknown
+): void {
+  let converted = value;
+  if (NUMERIC_TARGETS.has(target) && typeof value === 'string') {
+    const number = Number(value.trim());
+    converted = value.trim() !== '' && Number.isFinite(number) ? number : value;
+  } else if (target === 'intentSignals' && !Array.isArray(value)) {
+    converted = String(value)
+      .split(',')
+      .map((signal) => signal.trim())
+      .filter(Boolean);
+  }
+
+  const path = target.split('.');
+  let node = lead;
+  for (const key of path.slice(0, -1)) {
+    node[key] = node[key] ?? {};
+    node = node[key];
+  }
+  node[path[path.length - 1]] = converted;
+}
+
+function isEmpty(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '')
+  );
+}
+
+function issuesOf(
+  prefix: string,
+  schema: z.ZodTypeAny,
+  data: unknown
+): string[] {
+  const validation = schema.safeParse(data);
+  return validation.success
+    ? []
+    : validation.error.issues.map((issue) =>
+        formatIssue({ ...issue, path: [prefix, ...issue.path] })
+      );
+}
+
+function formatIssue(issue: z.ZodIssue): string {
+  return `${issue.path.join('.')}: ${issue.message}`;
+}
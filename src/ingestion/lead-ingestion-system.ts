@@ -1,5 +1,12 @@
 import { EventEmitter } from 'events';
 import { DatabaseManager } from '../database/manager';
+import {
+  ConsentRepository,
+  FieldMappingProfileRepository,
+  Queryable,
+  SyncCursorRepository,
+  withOutboxEvent,
+} from '../database/repositories';
 import { logger } from '../utils/logger';
 import { LeadNormalizer } from './normalizer';
 import { LeadDeduplicator } from './deduplicator';
@@ -9,12 +16,25 @@ import { OAuth2Client } from 'google-auth-library';
 import { MetaClient, MetaConfig } from '../integrations/meta/client';
 import { RawLeadData, NormalizedLeadData, IngestionResult } from './types';
 import { LeadModel, CreateLead } from '../types/lead';
+import { InboundMessageRouter } from '../communication/inbound-message-router';
+import { ConsentLedger } from '../communication/consent-ledger';
+import { MultiChannelCommunicationManager } from '../communication/multi-channel-manager';
+import {
+  LeadSourceAdapter,
+  LeadSourceFetchOptions,
+  LeadSourceRegistry,
+  createDefaultLeadSourceRegistry,
+} from './adapters';
 
 export interface LeadIngestionConfig {
   database: DatabaseManager;
   webhook?: WebhookConfig;
   gmail?: GmailConfig;
   meta?: MetaConfig;
+  inboundRouter?: InboundMessageRouter; // receives replies posted to the webhook server
+  communicationManager?: MultiChannelCommunicationManager; // receives delivery receipts
+  sourceAdapters?: LeadSourceAdapter[]; // added to the built-in sources
+  fieldMappingProfiles?: FieldMappingProfileRepository; // for integration webhooks
   polling?: {
     enabled: boolean;
     intervalMinutes: number;
@@ -25,6 +45,7 @@ export interface LeadIngestionConfig {
  * Main lead ingestion system that orchestrates all lead sources
  */
 export class LeadIngestionSystem extends EventEmitter {
+  private sources: LeadSourceRegistry;
   private normalizer: LeadNormalizer;
   private deduplicator: LeadDeduplicator;
   private webhookServer?: WebhookServer;
@@ -36,25 +57,28 @@ export class LeadIngestionSystem extends EventEmitter {
   constructor(private config: LeadIngestionConfig) {
     super();
 
-    this.normalizer = new LeadNormalizer();
-    this.deduplicator = new LeadDeduplicator(config.database);
-
     // Initialize integrations based on config
     this.initializeIntegrations();
+
+    // Lead sources, polled through the configured clients
+    this.sources = createDefaultLeadSourceRegistry({
+      gmail: this.gmailClient,
+      meta: this.metaClient,
+    });
+    for (const adapter of config.sourceAdapters ?? []) {
+      this.sources.register(adapter);
+    }
+
+    this.normalizer = new LeadNormalizer(this.sources);
+    this.deduplicator = new LeadDeduplicator(config.database);
+
+    this.initializeWebhookServer();
   }
 
   /**
    * Initialize all configured integrations
    */
   private initializeIntegrations(): void {
-    // Initialize webhook server
-    if (this.config.webhook) {
-      this.webhookServer = new WebhookServer(this.config.webhook);
-      this.webhookServer.onLeadsReceived(async (leads: RawLeadData[]) => {
-        await this.processRawLeads(leads);
-      });
-    }
-
     // Initialize Gmail client
     if (this.config.gmail) {
       const { clientId, clientSecret, redirectUri, refreshToken } = this.config.gmail;
@@ -69,6 +93,44 @@ export class LeadIngestionSystem extends EventEmitter {
     }
   }
 
+  /**
+   * Initialize the webhook server, which receives leads of all registered
+   * sources, replies and delivery receipts
+   */
+  private initializeWebhookServer(): void {
+    if (this.config.webhook) {
+      this.webhookServer = new WebhookServer(this.config.webhook, this.sources);
+      this.webhookServer.onLeadsReceived(async (leads: RawLeadData[]) => {
+        await this.processRawLeads(leads);
+      });
+
+      const { inboundRouter, communicationManager } = this.config;
+      if (inboundRouter) {
+        this.webhookServer.onInboundMessages(async (messages) => {
+          for (const message of messages) {
+            await inboundRouter.route(message);
+          }
+        });
+      }
+      if (communicationManager) {
+        this.webhookServer.onDeliveryReceipts(async (provider, payload) => {
+          await communicationManager.processDeliveryReceipts(provider, payload);
+        });
+      }
+      if (this.gmailClient) {
+        this.webhookServer.setGmailClient(
+          this.gmailClient,
+          new SyncCursorRepository(this.config.database)
+        );
+      }
+      if (this.config.fieldMappingProfiles) {
+        this.webhookServer.setFieldMappingProfiles(
+          this.config.fieldMappingProfiles
+        );
+      }
+    }
+  }
+
   /**
    * Start the lead ingestion system
    */
@@ -167,35 +229,19 @@ export class LeadIngestionSystem extends EventEmitter {
 
     const rawLeads: RawLeadData[] = [];
 
-    // Poll Gmail
-    if (this.gmailClient) {
+    for (const adapter of this.sources.pollable()) {
       try {
-        const emails = await this.gmailClient.getRecentEmails({
+        const leads = await adapter.fetch!({
           maxResults: 20,
           since: new Date(Date.now() - 60 * 60 * 1000), // Last hour
         });
+        rawLeads.push(...leads);
 
-        for (const email of emails) {
-          rawLeads.push(this.gmailClient.emailToRawLeadData(email));
-
-          // Mark email as processed
-          await this.gmailClient.addLabel(email.messageId, 'Lead Processed');
-        }
-
-        logger.info(`Found ${emails.length} potential leads from Gmail`);
-      } catch (error) {
-        logger.error('Gmail polling error:', error);
-      }
-    }
-
-    // Poll Meta (if configured with page IDs)
-    if (this.metaClient) {
-      try {
-        // This would require page IDs to be configured
-        // For now, Meta leads are primarily handled via webhooks
-        logger.debug('Meta polling not implemented - using webhooks');
+        logger.info(
+          `Found ${leads.length} potential leads from ${adapter.source}`
+        );
       } catch (error) {
-        logger.error('Meta polling error:', error);
+        logger.error(`${adapter.source} polling error:`, error);
       }
     }
 
@@ -264,6 +310,13 @@ export class LeadIngestionSystem extends EventEmitter {
           normalizedLead
         );
 
+        if (normalizedLead.consent) {
+          await this.consentLedger(this.config.database).recordLeadConsent(
+            duplicationResult.existingLeadId,
+            normalizedLead.consent
+          );
+        }
+
         logger.info(
           `Merged duplicate lead: ${duplicationResult.existingLeadId}`
         );
@@ -271,6 +324,7 @@ export class LeadIngestionSystem extends EventEmitter {
         return {
           success: true,
           leadId: duplicationResult.existingLeadId,
+          source: normalizedLead.source,
           isDuplicate: true,
           existingLeadId: duplicationResult.existingLeadId,
           errors: [],
@@ -290,6 +344,7 @@ export class LeadIngestionSystem extends EventEmitter {
       return {
         success: true,
         leadId,
+        source: normalizedLead.source,
         isDuplicate: false,
         errors: [],
         warnings: [],
@@ -306,10 +361,27 @@ export class LeadIngestionSystem extends EventEmitter {
   }
 
   /**
-   * Create a new lead in the database
+   * Create a new lead in the database, together with the consent captured
+   * with it
    */
   private async createNewLead(
     normalizedLead: NormalizedLeadData
+  ): Promise<string> {
+    const { consent } = normalizedLead;
+    if (!consent) {
+      return this.insertLead(this.config.database, normalizedLead);
+    }
+
+    return this.config.database.transaction(async (client) => {
+      const leadId = await this.insertLead(client, normalizedLead);
+      await this.consentLedger(client).recordLeadConsent(leadId, consent);
+      return leadId;
+    });
+  }
+
+  private async insertLead(
+    db: Queryable,
+    normalizedLead: NormalizedLeadData
   ): Promise<string> {
     const createLeadData: CreateLead = {
       source: normalizedLead.source,
@@ -326,43 +398,51 @@ export class LeadIngestionSystem extends EventEmitter {
     const leadData = leadModel.data;
 
     // Insert into database
-    const result = await this.config.database.query(
-      `
-      INSERT INTO leads (
-        id, source, name, email, phone, preferred_channel, timezone,
-        lead_type, urgency_level, intent_signals, budget_min, budget_max,
-        location, property_type, timeline, qualification_score, status,
-        created_at, updated_at
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
-      ) RETURNING id
-    `,
-      [
-        leadData.id,
-        leadData.source,
-        leadData.contactInfo.name,
-        leadData.contactInfo.email,
-        leadData.contactInfo.phone,
-        leadData.contactInfo.preferredChannel,
-        leadData.contactInfo.timezone,
-        leadData.leadType,
-        leadData.urgencyLevel,
-        leadData.intentSignals,
-        leadData.qualificationData.budget?.min,
-        leadData.qualificationData.budget?.max,
-        leadData.qualificationData.location,
-        leadData.qualificationData.propertyType,
-        leadData.qualificationData.timeline,
-        leadData.qualificationData.qualificationScore,
-        leadData.status,
-        leadData.createdAt,
-        leadData.updatedAt,
-      ]
+    const result = await db.query(
+      ...withOutboxEvent(
+        `
+        INSERT INTO leads (
+          id, source, name, email, phone, preferred_channel, timezone,
+          lead_type, urgency_level, intent_signals, budget_min, budget_max,
+          location, property_type, timeline, qualification_score, status,
+          created_at, updated_at
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19
+        ) RETURNING *
+      `,
+        [
+          leadData.id,
+          leadData.source,
+          leadData.contactInfo.name,
+          leadData.contactInfo.email,
+          leadData.contactInfo.phone,
+          leadData.contactInfo.preferredChannel,
+          leadData.contactInfo.timezone,
+          leadData.leadType,
+          leadData.urgencyLevel,
+          leadData.intentSignals,
+          leadData.qualificationData.budget?.min,
+          leadData.qualificationData.budget?.max,
+          leadData.qualificationData.location,
+          leadData.qualificationData.propertyType,
+          leadData.qualificationData.timeline,
+          leadData.qualificationData.qualificationScore,
+          leadData.status,
+          leadData.createdAt,
+          leadData.updatedAt,
+        ],
+        'lead_created',
+        'lead'
+      )
     );
 
     return result.rows[0].id;
   }
 
+  private consentLedger(db: Queryable): ConsentLedger {
+    return new ConsentLedger({ repository: new ConsentRepository(db) });
+  }
+
   /**
    * Get ingestion statistics
    */
@@ -408,49 +488,32 @@ export class LeadIngestionSystem extends EventEmitter {
    * Manually trigger lead ingestion from a specific source
    */
   async triggerIngestion(
-    source: 'gmail' | 'meta',
-    options: any = {}
+    source: string,
+    options: LeadSourceFetchOptions = {}
   ): Promise<IngestionResult[]> {
     logger.info(`Manually triggering ingestion from ${source}`);
 
-    const rawLeads: RawLeadData[] = [];
-
-    switch (source) {
-      case 'gmail':
-        if (!this.gmailClient) {
-          throw new Error('Gmail client not configured');
-        }
-
-        const emails = await this.gmailClient.getRecentEmails(options);
-        for (const email of emails) {
-          rawLeads.push(this.gmailClient.emailToRawLeadData(email));
-        }
-        break;
-
-      case 'meta':
-        if (!this.metaClient) {
-          throw new Error('Meta client not configured');
-        }
-
-        // Would need page ID or form ID in options
-        if (options.pageId) {
-          const leads = await this.metaClient.getPageLeads(
-            options.pageId,
-            options
-          );
-          for (const lead of leads) {
-            rawLeads.push(this.metaClient.metaLeadToRawLeadData(lead));
-          }
-        }
-        break;
-
-      default:
-        throw new Error(`Unknown source: ${source}`);
+    const adapter = this.sources.get(source);
+    if (!adapter) {
+      throw new Error(`Unknown source: ${source}`);
+    }
+    if (!adapter.fetch) {
+      throw new Error(
+        `Leads cannot be fetched from ${source}: no client configured`
+      );
     }
 
+    const rawLeads = await adapter.fetch(options);
     return this.processRawLeads(rawLeads);
   }
 
+  /**
+   * Register the adapter of a further lead source
+   */
+  registerSource(adapter: LeadSourceAdapter): void {
+    this.sources.register(adapter);
+  }
+
   /**
    * Check if the system is running
    */
@@ -1,27 +1,15 @@
 import { z } from 'zod';
-import { LeadSource, ContactInfo, QualificationData } from '../types/lead';
-
-// Raw lead data from different sources
-export const RawLeadDataSchema = z.object({
-  source: z.string(),
-  sourceId: z.string().optional(), // External ID from source system
-  rawData: z.record(z.any()), // Original data from source
-  timestamp: z.date(),
-});
-
-export type RawLeadData = z.infer<typeof RawLeadDataSchema>;
+import {
+  LeadSource,
+  LeadSourceSchema,
+  ContactInfo,
+  QualificationData,
+} from '../types/lead';
+import { LeadConsentSchema } from '../types/communication';
 
 // Normalized lead data after processing
 export const NormalizedLeadDataSchema = z.object({
-  source: z.enum([
-    'gmail',
-    'meta_ads',
-    'website',
-    'slack',
-    'third_party',
-    'referral',
-    'other',
-  ]),
+  source: LeadSourceSchema,
   contactInfo: z.object({
     name: z.string(),
     email: z.string().optional(),
@@ -47,10 +35,24 @@ export const NormalizedLeadDataSchema = z.object({
     qualificationScore: z.number().min(0).max(1).default(0),
   }),
   sourceMetadata: z.record(z.any()).optional(), // Additional source-specific data
+  consent: LeadConsentSchema.optional(), // Opt-in given where the lead was captured
 });
 
 export type NormalizedLeadData = z.infer<typeof NormalizedLeadDataSchema>;
 
+// Raw lead data from different sources
+export const RawLeadDataSchema = z.object({
+  source: z.string(),
+  sourceId: z.string().optional(), // External ID from source system
+  rawData: z.record(z.any()), // Original data from source
+  timestamp: z.date(),
+  // Set when the receiver already normalized the lead, e.g. with a
+  // field-mapping profile; the source's adapter is then skipped
+  normalized: NormalizedLeadDataSchema.optional(),
+});
+
+export type RawLeadData = z.infer<typeof RawLeadDataSchema>;
+
 // Lead deduplication result
 export const DeduplicationResultSchema = z.object({
   isDuplicate: z.boolean(),
@@ -65,6 +67,7 @@ export type DeduplicationResult = z.infer<typeof DeduplicationResultSchema>;
 export const IngestionResultSchema = z.object({
   success: z.boolean(),
   leadId: z.string().uuid().optional(),
+  source: NormalizedLeadDataSchema.shape.source.optional(),
   isDuplicate: z.boolean(),
   existingLeadId: z.string().uuid().optional(),
   errors: z.array(z.string()).default([]),
@@ -1,17 +1,35 @@
 import express, { Request, Response, NextFunction } from 'express';
+import { createHmac, timingSafeEqual } from 'crypto';
 import { createServer, Server } from 'http';
 import { logger } from '../utils/logger';
 import { WebhookPayload, RawLeadData } from './types';
 import { MetaClient } from '../integrations/meta/client';
+import { GmailClient, ParsedEmail } from '../integrations/gmail/client';
+import { InboundMessage } from '../communication/inbound-message-router';
+import {
+  LeadSourceAdapter,
+  LeadSourceRegistry,
+  createDefaultLeadSourceRegistry,
+} from './adapters';
+import { applyFieldMappingProfile } from './field-mapping';
+import {
+  FieldMappingProfileRepository,
+  SyncCursorRepository,
+} from '../database/repositories';
+import { MappingIntegration } from '../types/field-mapping';
 
 export interface WebhookConfig {
   port: number;
-  webhookSecret?: string;
+  webhookSecret?: string; // required as X-Webhook-Secret or ?token= on SMS, email and receipt callbacks; refused without it
   metaConfig?: {
     accessToken: string;
     appSecret: string;
     verifyToken: string;
   };
+  whatsapp?: {
+    verifyToken: string;
+    appSecret?: string; // verifies X-Hub-Signature-256; notifications are refused without it
+  };
 }
 
 export interface WebhookHandler {
@@ -30,12 +48,30 @@ export class WebhookServer {
   private server: Server | null = null;
   private handlers: Map<string, WebhookHandler> = new Map();
   private metaClient?: MetaClient;
-
-  constructor(private config: WebhookConfig) {
+  private gmailClient?: GmailClient;
+  private gmailHistoryId?: string; // without a cursor store
+  private gmailCursors?: SyncCursorRepository;
+  private fieldMappingProfiles?: FieldMappingProfileRepository;
+
+  constructor(
+    private config: WebhookConfig,
+    private sources: LeadSourceRegistry = createDefaultLeadSourceRegistry()
+  ) {
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
 
+    if (!config.webhookSecret) {
+      logger.warn(
+        'No webhook secret configured, inbound SMS, email and delivery receipt callbacks are refused'
+      );
+    }
+    if (config.whatsapp && !config.whatsapp.appSecret) {
+      logger.warn(
+        'No WhatsApp app secret configured, inbound WhatsApp notifications are refused'
+      );
+    }
+
     // Initialize Meta client if config provided
     if (config.metaConfig) {
       this.metaClient = new MetaClient(config.metaConfig);
@@ -88,9 +124,6 @@ export class WebhookServer {
       res.json({ status: 'ok', timestamp: new Date().toISOString() });
     });
 
-    // Generic webhook endpoint
-    this.app.post('/webhook/:source', this.handleGenericWebhook.bind(this));
-
     // Meta/Facebook webhook endpoint
     this.app.get('/webhook/meta', this.handleMetaVerification.bind(this));
     this.app.post('/webhook/meta', this.handleMetaWebhook.bind(this));
@@ -106,6 +139,27 @@ export class WebhookServer {
     );
     this.app.post('/webhook/generic', this.handleGenericIntegration.bind(this));
 
+    // Any other source, through its registered handler or adapter
+    this.app.post('/webhook/:source', this.handleGenericWebhook.bind(this));
+
+    // Replies from leads
+    this.app.post('/webhook/inbound/sms', this.handleInboundSms.bind(this));
+    this.app.get(
+      '/webhook/inbound/whatsapp',
+      this.handleWhatsAppVerification.bind(this)
+    );
+    this.app.post(
+      '/webhook/inbound/whatsapp',
+      this.handleInboundWhatsApp.bind(this)
+    );
+    this.app.post('/webhook/inbound/email', this.handleInboundEmail.bind(this));
+
+    // Delivery receipts of outbound messages
+    this.app.post(
+      '/webhook/receipts/:provider',
+      this.handleDeliveryReceipts.bind(this)
+    );
+
     // Error handling middleware
     this.app.use(this.errorHandler.bind(this));
   }
@@ -149,6 +203,24 @@ export class WebhookServer {
     });
   }
 
+  /**
+   * Use a Gmail client to fetch email replies announced by Gmail push
+   * notifications. With a cursor store the mailbox position survives
+   * restarts and is shared between instances; otherwise it is kept in
+   * memory.
+   */
+  setGmailClient(client: GmailClient, cursors?: SyncCursorRepository): void {
+    this.gmailClient = client;
+    this.gmailCursors = cursors;
+  }
+
+  /**
+   * Use field-mapping profiles for Zapier, Integromat and generic webhooks
+   */
+  setFieldMappingProfiles(profiles: FieldMappingProfileRepository): void {
+    this.fieldMappingProfiles = profiles;
+  }
+
   /**
    * Register a custom webhook handler
    */
@@ -158,27 +230,40 @@ export class WebhookServer {
   }
 
   /**
-   * Handle generic webhook requests
+   * Handle generic webhook requests. A handler registered for the source
+   * takes precedence over the source's adapter.
    */
   private async handleGenericWebhook(
     req: Request,
     res: Response
   ): Promise<void> {
     try {
-      const source = req.params.source;
+      const source = String(req.params.source);
       const handler = this.handlers.get(source);
+      const adapter = this.sources.get(source);
 
-      if (!handler) {
+      if (!handler && !adapter) {
         res
           .status(404)
           .json({ error: `No handler registered for source: ${source}` });
         return;
       }
 
-      const leads = await handler.handler(
-        req.body,
-        req.headers as Record<string, string>
-      );
+      let leads: RawLeadData[];
+      if (handler) {
+        leads = await handler.handler(
+          req.body,
+          req.headers as Record<string, string>
+        );
+      } else {
+        const payload = this.parseBody(req);
+        const errors = adapter!.validate(payload);
+        if (errors.length > 0) {
+          res.status(400).json({ error: `Invalid ${source} lead`, errors });
+          return;
+        }
+        leads = [this.toRawLead(adapter!, payload, `${source}_${Date.now()}`)];
+      }
 
       // Emit leads for processing
       this.emitLeads(leads);
@@ -267,13 +352,19 @@ export class WebhookServer {
    */
   private async handleWebsiteForm(req: Request, res: Response): Promise<void> {
     try {
-      const formData = req.body;
+      const formData = this.parseBody(req);
+      const adapter = this.sources.resolve('website');
+
+      const errors = adapter.validate(formData);
+      if (errors.length > 0) {
+        res.status(400).json({ error: 'Invalid form submission', errors });
+        return;
+      }
 
       // Create raw lead data from form submission
-      const rawLeadData: RawLeadData = {
-        source: 'website',
-        sourceId: formData.formId || `form_${Date.now()}`,
-        rawData: {
+      const rawLeadData = this.toRawLead(
+        adapter,
+        {
           ...formData,
           formName: formData.formName || 'Website Contact Form',
           pageUrl: formData.pageUrl || req.headers.referer,
@@ -281,8 +372,8 @@ export class WebhookServer {
           ipAddress: req.ip,
           timestamp: new Date().toISOString(),
         },
-        timestamp: new Date(),
-      };
+        `form_${Date.now()}`
+      );
 
       // Emit lead for processing
       this.emitLeads([rawLeadData]);
@@ -304,104 +395,407 @@ export class WebhookServer {
   private async handleZapierWebhook(
     req: Request,
     res: Response
+  ): Promise<void> {
+    await this.receiveIntegrationLead(req, res, 'zapier', 'Zapier webhook');
+  }
+
+  /**
+   * Handle Integromat/Make webhook
+   */
+  private async handleIntegromatWebhook(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    await this.receiveIntegrationLead(
+      req,
+      res,
+      'integromat',
+      'Integromat webhook'
+    );
+  }
+
+  /**
+   * Handle generic third-party integration
+   */
+  private async handleGenericIntegration(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    await this.receiveIntegrationLead(
+      req,
+      res,
+      'generic',
+      'Generic integration'
+    );
+  }
+
+  /**
+   * Receive a lead from an integration. With a field-mapping profile named
+   * in the X-Mapping-Profile header or the profile query parameter, the
+   * payload is mapped and validated here; without one the generic adapter
+   * guesses its fields later.
+   */
+  private async receiveIntegrationLead(
+    req: Request,
+    res: Response,
+    integration: MappingIntegration,
+    label: string
   ): Promise<void> {
     try {
-      const zapierData = req.body;
-
-      const rawLeadData: RawLeadData = {
-        source: 'third_party',
-        sourceId: zapierData.id || `zapier_${Date.now()}`,
-        rawData: {
-          ...zapierData,
-          integration: 'zapier',
-          receivedAt: new Date().toISOString(),
-        },
-        timestamp: new Date(),
+      const payload = this.parseBody(req);
+      const profileName =
+        (req.headers['x-mapping-profile'] as string) ||
+        (typeof req.query.profile === 'string' ? req.query.profile : '');
+      const rawData = {
+        ...payload,
+        integration,
+        receivedAt: new Date().toISOString(),
+        ...(integration === 'generic' && { headers: req.headers }),
       };
+      let rawLeadData: RawLeadData;
+
+      if (profileName) {
+        if (!this.fieldMappingProfiles) {
+          res
+            .status(404)
+            .json({ error: 'Field mapping profiles not configured' });
+          return;
+        }
+
+        const profile = await this.fieldMappingProfiles.findByName(
+          integration,
+          profileName
+        );
+        if (!profile) {
+          res.status(404).json({
+            error: `No ${integration} mapping profile named ${profileName}`,
+          });
+          return;
+        }
+
+        const result = applyFieldMappingProfile(profile, payload);
+        if (!result.normalized) {
+          res.status(400).json({
+            error: `Payload does not match mapping profile ${profile.name}`,
+            errors: result.errors,
+          });
+          return;
+        }
+
+        rawLeadData = {
+          source: profile.leadSource,
+          sourceId: result.sourceId || `${integration}_${Date.now()}`,
+          rawData: { ...rawData, mappingProfile: profile.name },
+          timestamp: new Date(),
+          normalized: result.normalized,
+        };
+      } else {
+        const source =
+          integration === 'generic'
+            ? (req.headers['x-source'] as string) || 'third_party'
+            : 'third_party';
+        rawLeadData = {
+          source,
+          sourceId:
+            this.sources.resolve(source).extractSourceId(payload) ||
+            `${integration}_${Date.now()}`,
+          rawData,
+          timestamp: new Date(),
+        };
+      }
 
       this.emitLeads([rawLeadData]);
 
       res.json({
         success: true,
-        message: 'Zapier webhook processed',
+        message: `${label} processed`,
         leadId: rawLeadData.sourceId,
       });
     } catch (error) {
-      logger.error('Zapier webhook error:', error);
+      logger.error(`${label} error:`, error);
       res.status(500).json({ error: 'Internal server error' });
     }
   }
 
   /**
-   * Handle Integromat/Make webhook
+   * Handle inbound SMS from the SMS gateway. Form and JSON callbacks are
+   * accepted, with the field names common gateways use.
    */
-  private async handleIntegromatWebhook(
+  private async handleInboundSms(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.verifyWebhookSecret(req)) {
+        res.status(403).json({ error: 'Invalid webhook secret' });
+        return;
+      }
+
+      const body = this.parseBody(req);
+      const from = body.from ?? body.From ?? body.msisdn;
+      const content = body.text ?? body.body ?? body.Body ?? body.message;
+
+      if (!from || typeof content !== 'string') {
+        res.status(400).json({ error: 'Inbound SMS requires a sender and text' });
+        return;
+      }
+
+      const message: InboundMessage = {
+        channel: 'sms',
+        from: String(from),
+        content,
+        externalId: body.id ?? body.messageId ?? body.MessageSid,
+        receivedAt: new Date(),
+      };
+      await this.emitInboundMessages([message]);
+
+      res.json({ success: true, count: 1 });
+    } catch (error) {
+      logger.error('Inbound SMS webhook error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Handle WhatsApp Cloud API webhook verification
+   */
+  private handleWhatsAppVerification(req: Request, res: Response): void {
+    if (!this.config.whatsapp) {
+      res.status(404).json({ error: 'WhatsApp webhook not configured' });
+      return;
+    }
+
+    if (
+      req.query['hub.mode'] === 'subscribe' &&
+      req.query['hub.verify_token'] === this.config.whatsapp.verifyToken
+    ) {
+      res.send(req.query['hub.challenge']);
+    } else {
+      res.status(403).json({ error: 'Verification failed' });
+    }
+  }
+
+  /**
+   * Handle WhatsApp Cloud API notifications: text messages from leads and
+   * status updates of messages we sent
+   */
+  private async handleInboundWhatsApp(
     req: Request,
     res: Response
   ): Promise<void> {
     try {
-      const integromatData = req.body;
-
-      const rawLeadData: RawLeadData = {
-        source: 'third_party',
-        sourceId: integromatData.id || `integromat_${Date.now()}`,
-        rawData: {
-          ...integromatData,
-          integration: 'integromat',
-          receivedAt: new Date().toISOString(),
-        },
-        timestamp: new Date(),
-      };
+      if (!this.config.whatsapp) {
+        res.status(404).json({ error: 'WhatsApp webhook not configured' });
+        return;
+      }
 
-      this.emitLeads([rawLeadData]);
+      // Unsigned notifications could post replies and opt-outs in a lead's
+      // name, so they are refused when there is no app secret to check
+      const rawBody = Buffer.isBuffer(req.body) ? req.body.toString() : '';
+      const signature = req.headers['x-hub-signature-256'] as string;
+      if (
+        !this.config.whatsapp.appSecret ||
+        !verifyHubSignature(rawBody, signature, this.config.whatsapp.appSecret)
+      ) {
+        res.status(403).json({ error: 'Invalid signature' });
+        return;
+      }
 
-      res.json({
-        success: true,
-        message: 'Integromat webhook processed',
-        leadId: rawLeadData.sourceId,
-      });
+      const payload = this.parseBody(req);
+      const messages: InboundMessage[] = [];
+      let hasStatuses = false;
+
+      for (const entry of payload.entry ?? []) {
+        for (const change of entry.changes ?? []) {
+          hasStatuses ||= (change.value?.statuses ?? []).length > 0;
+
+          for (const message of change.value?.messages ?? []) {
+            const content =
+              message.text?.body ??
+              message.button?.text ??
+              message.interactive?.button_reply?.title ??
+              message.interactive?.list_reply?.title;
+            if (!message.from || !content) continue;
+
+            messages.push({
+              channel: 'whatsapp',
+              from: message.from,
+              content,
+              externalId: message.id,
+              receivedAt: message.timestamp
+                ? new Date(Number(message.timestamp) * 1000)
+                : new Date(),
+            });
+          }
+        }
+      }
+
+      if (hasStatuses) {
+        await this.emitDeliveryReceipts('whatsapp-cloud', payload);
+      }
+      await this.emitInboundMessages(messages);
+
+      res.json({ success: true, count: messages.length });
     } catch (error) {
-      logger.error('Integromat webhook error:', error);
+      logger.error('Inbound WhatsApp webhook error:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   }
 
   /**
-   * Handle generic third-party integration
+   * Handle email replies, either as a Gmail push notification (Pub/Sub) or
+   * as an already parsed email
    */
-  private async handleGenericIntegration(
+  private async handleInboundEmail(
     req: Request,
     res: Response
   ): Promise<void> {
     try {
-      const integrationData = req.body;
-      const source = (req.headers['x-source'] as string) || 'third_party';
-
-      const rawLeadData: RawLeadData = {
-        source: source as any,
-        sourceId: integrationData.id || `generic_${Date.now()}`,
-        rawData: {
-          ...integrationData,
-          integration: 'generic',
-          receivedAt: new Date().toISOString(),
-          headers: req.headers,
-        },
-        timestamp: new Date(),
-      };
+      if (!this.verifyWebhookSecret(req)) {
+        res.status(403).json({ error: 'Invalid webhook secret' });
+        return;
+      }
 
-      this.emitLeads([rawLeadData]);
+      const body = this.parseBody(req);
+      let emails: ParsedEmail[];
 
-      res.json({
-        success: true,
-        message: 'Generic integration processed',
-        leadId: rawLeadData.sourceId,
-      });
+      if (body.message?.data) {
+        if (!this.gmailClient) {
+          res.status(404).json({ error: 'Gmail client not configured' });
+          return;
+        }
+        emails = await this.fetchNotifiedEmails(body.message.data);
+      } else {
+        const from =
+          typeof body.from === 'string' ? body.from : body.from?.email;
+        if (!from || typeof body.body !== 'string') {
+          res
+            .status(400)
+            .json({ error: 'Inbound email requires a sender and body' });
+          return;
+        }
+        emails = [
+          {
+            messageId: body.messageId,
+            threadId: body.threadId,
+            from: { email: from },
+            subject: body.subject ?? '',
+            body: body.body,
+            snippet: '',
+            receivedAt: body.receivedAt ? new Date(body.receivedAt) : new Date(),
+            headers: body.inReplyTo ? { 'in-reply-to': body.inReplyTo } : {},
+          },
+        ];
+      }
+
+      const messages = emails.map(
+        (email): InboundMessage => ({
+          channel: 'email',
+          from: email.from.email,
+          content: extractReplyText(email.body),
+          externalId: email.messageId,
+          threadId: email.threadId,
+          inReplyTo: email.headers['in-reply-to'],
+          receivedAt: email.receivedAt,
+        })
+      );
+      await this.emitInboundMessages(messages);
+
+      res.json({ success: true, count: messages.length });
     } catch (error) {
-      logger.error('Generic integration error:', error);
+      logger.error('Inbound email webhook error:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   }
 
+  /**
+   * Handle delivery receipt callbacks of a message provider
+   */
+  private async handleDeliveryReceipts(
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    try {
+      if (!this.verifyWebhookSecret(req)) {
+        res.status(403).json({ error: 'Invalid webhook secret' });
+        return;
+      }
+
+      await this.emitDeliveryReceipts(
+        String(req.params.provider),
+        this.parseBody(req)
+      );
+      res.json({ success: true });
+    } catch (error) {
+      logger.error('Delivery receipt webhook error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  /**
+   * Emails added since the last Gmail notification. The first notification
+   * only records the mailbox position.
+   */
+  private async fetchNotifiedEmails(data: string): Promise<ParsedEmail[]> {
+    const notification = JSON.parse(Buffer.from(data, 'base64').toString());
+    const historyId = String(notification.historyId);
+
+    let startHistoryId: string | null | undefined;
+    if (this.gmailCursors) {
+      startHistoryId = await this.gmailCursors.advance(
+        `gmail:${notification.emailAddress}`,
+        historyId
+      );
+    } else {
+      startHistoryId = this.gmailHistoryId;
+      this.gmailHistoryId = historyId;
+    }
+    if (!startHistoryId) return [];
+
+    return this.gmailClient!.getMessagesSince(startHistoryId);
+  }
+
+  /**
+   * Raw lead for a payload of the adapter's source
+   */
+  private toRawLead(
+    adapter: LeadSourceAdapter,
+    payload: Record<string, any>,
+    fallbackSourceId: string
+  ): RawLeadData {
+    return {
+      source: adapter.source,
+      sourceId: adapter.extractSourceId(payload) || fallbackSourceId,
+      rawData: payload,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * JSON bodies on /webhook routes arrive raw, for signature verification
+   */
+  private parseBody(req: Request): any {
+    if (Buffer.isBuffer(req.body)) {
+      return req.body.length > 0 ? JSON.parse(req.body.toString()) : {};
+    }
+    return req.body ?? {};
+  }
+
+  /**
+   * Whether the request carries the shared secret. These callbacks carry
+   * no provider signature, so without a configured secret anyone could
+   * post opt-outs or replies in a lead's name, and every request is refused.
+   * Senders that cannot set headers, such as Gmail's Pub/Sub push
+   * subscriptions, pass it in the URL as ?token=.
+   */
+  private verifyWebhookSecret(req: Request): boolean {
+    if (!this.config.webhookSecret) return false;
+
+    const token = req.headers['x-webhook-secret'] ?? req.query.token;
+    const provided = Buffer.from(typeof token === 'string' ? token : '');
+    const expected = Buffer.from(this.config.webhookSecret);
+    return (
+      provided.length === expected.length && timingSafeEqual(provided, expected)
+    );
+  }
+
   /**
    * Error handling middleware
    */
@@ -437,6 +831,44 @@ export class WebhookServer {
     }
   }
 
+  /**
+   * Forward inbound messages (to be replaced by onInboundMessages)
+   */
+  private async emitInboundMessages(messages: InboundMessage[]): Promise<void> {
+    logger.info(`Received ${messages.length} inbound messages`);
+  }
+
+  /**
+   * Forward delivery receipts (to be replaced by onDeliveryReceipts)
+   */
+  private async emitDeliveryReceipts(
+    provider: string,
+    _payload: unknown
+  ): Promise<void> {
+    logger.info(`Received delivery receipts from ${provider}`);
+  }
+
+  /**
+   * Set inbound message callback
+   */
+  onInboundMessages(
+    callback: (messages: InboundMessage[]) => Promise<void>
+  ): void {
+    this.emitInboundMessages = async (messages: InboundMessage[]) => {
+      if (messages.length === 0) return;
+      await callback(messages);
+    };
+  }
+
+  /**
+   * Set delivery receipt callback
+   */
+  onDeliveryReceipts(
+    callback: (provider: string, payload: unknown) => Promise<void>
+  ): void {
+    this.emitDeliveryReceipts = callback;
+  }
+
   /**
    * Set lead processing callback
    */
@@ -450,3 +882,38 @@ export class WebhookServer {
     };
   }
 }
+
+function verifyHubSignature(
+  payload: string,
+  signature: string | undefined,
+  secret: string
+): boolean {
+  if (!signature) return false;
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`
+  );
+  const provided = Buffer.from(signature);
+  return (
+    provided.length === expected.length && timingSafeEqual(provided, expected)
+  );
+}
+
+/**
+ * Text the sender wrote, without the quoted message below it
+ */
+function extractReplyText(body: string): string {
+  const lines: string[] = [];
+  for (const line of body.replace(/\r\n/g, '\n').split('\n')) {
+    if (
+      /^On .+ wrote:\s*$/.test(line) ||
+      /^Em .+ escreveu:\s*$/.test(line) ||
+      /^-{2,}\s*Original Message\s*-{2,}/i.test(line)
+    ) {
+      break;
+    }
+    if (line.startsWith('>')) continue;
+    lines.push(line);
+  }
+  return lines.join('\n').trim() || body.trim();
+}
@@ -111,6 +111,54 @@ export class GmailClient {
     }
   }
 
+  /**
+   * Emails that arrived in the inbox after the given mailbox history id,
+   * e.g. when a push notification reports a new history id
+   */
+  async getMessagesSince(startHistoryId: string): Promise<ParsedEmail[]> {
+    try {
+      const messageIds = new Set<string>();
+      let pageToken: string | undefined;
+
+      do {
+        const resp = await this.gmail.users.history.list({
+          userId: 'me',
+          startHistoryId,
+          historyTypes: ['messageAdded'],
+          labelId: 'INBOX',
+          pageToken,
+        });
+
+        for (const history of resp.data.history || []) {
+          for (const added of history.messagesAdded || []) {
+            if (added.message?.id) messageIds.add(added.message.id);
+          }
+        }
+        pageToken = resp.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      const emails: ParsedEmail[] = [];
+      for (const id of messageIds) {
+        try {
+          const full = await this.gmail.users.messages.get({
+            userId: 'me',
+            id,
+            format: 'full',
+          });
+          const parsed = this.parseEmail(full.data as GmailMessage);
+          if (parsed) emails.push(parsed);
+        } catch (err) {
+          logger.warn(`Failed to parse message ${id}:`, err);
+        }
+      }
+
+      return emails;
+    } catch (error) {
+      logger.error('Failed to get mailbox history:', error);
+      throw new Error(`Failed to fetch mailbox history: ${error}`);
+    }
+  }
+
   /**
    * Parse Gmail message into structured email data
    */
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryJobStore } from '../job-store';
+import { JobQueue } from '../job-queue';
+import { JobWorker } from '../job-worker';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const MINUTE = 60 * 1000;
+
+describe('JobWorker', () => {
+  let store: InMemoryJobStore;
+  let queue: JobQueue;
+  let worker: JobWorker;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+    store = new InMemoryJobStore();
+    queue = new JobQueue(store);
+    worker = new JobWorker(store, {
+      workerId: 'worker-1',
+      retryBaseDelayMs: MINUTE,
+    });
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    vi.useRealTimers();
+  });
+
+  it('should run delayed jobs once they are due', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    worker.register('send', handler);
+
+    const job = await queue.enqueue(
+      'send',
+      { leadId: 'lead-1', sentAt: new Date() },
+      { runAt: new Date(Date.now() + 10 * MINUTE) }
+    );
+
+    expect(await worker.runOnce()).toBe(0);
+    expect(await worker.runOnce(new Date(Date.now() + 10 * MINUTE))).toBe(1);
+
+    // Payloads arrive as they were stored, dates as strings
+    expect(handler).toHaveBeenCalledWith(
+      { leadId: 'lead-1', sentAt: '2026-01-14T15:00:00.000Z' },
+      expect.objectContaining({ id: job.id, attempts: 1 })
+    );
+    expect(await queue.getJob(job.id)).toMatchObject({
+      status: 'completed',
+      lockedBy: undefined,
+    });
+  });
+
+  it('should add a job only once per idempotency key', async () => {
+    const first = await queue.enqueue('send', { step: 1 }, {
+      idempotencyKey: 'sequence-1:step:1',
+    });
+    const second = await queue.enqueue('send', { step: 1 }, {
+      idempotencyKey: 'sequence-1:step:1',
+    });
+
+    expect(second.id).toBe(first.id);
+    worker.register('send', vi.fn().mockResolvedValue(undefined));
+    expect(await worker.runOnce()).toBe(1);
+  });
+
+  it('should retry failed jobs with backoff and then dead-letter them', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('SMTP unavailable'));
+    worker.register('send', handler);
+    const job = await queue.enqueue('send', {}, { maxAttempts: 3 });
+
+    await worker.runOnce();
+    expect(await queue.getJob(job.id)).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      lastError: 'SMTP unavailable',
+      runAt: new Date(Date.now() + MINUTE),
+    });
+
+    // The second retry waits twice as long
+    await worker.runOnce(new Date(Date.now() + MINUTE));
+    expect((await queue.getJob(job.id))?.runAt).toEqual(
+      new Date(Date.now() + 2 * MINUTE)
+    );
+
+    await worker.runOnce(new Date(Date.now() + 2 * MINUTE));
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(await queue.getDeadLetters()).toEqual([
+      expect.objectContaining({ id: job.id, status: 'dead', attempts: 3 }),
+    ]);
+
+    // Retried by hand with a fresh set of attempts
+    handler.mockResolvedValue(undefined);
+    expect(await queue.retryDeadLetter(job.id)).toMatchObject({
+      status: 'pending',
+      attempts: 0,
+    });
+    await worker.runOnce(new Date(Date.now() + 2 * MINUTE));
+    expect((await queue.getJob(job.id))?.status).toBe('completed');
+  });
+
+  it('should defer jobs without using up an attempt', async () => {
+    const later = new Date(Date.now() + 60 * MINUTE);
+    worker.register('send', vi.fn().mockResolvedValue({ deferUntil: later }));
+    const job = await queue.enqueue('send', {}, { maxAttempts: 1 });
+
+    await worker.runOnce();
+
+    expect(await queue.getJob(job.id)).toMatchObject({
+      status: 'pending',
+      attempts: 0,
+      runAt: later,
+    });
+  });
+
+  it('should dead-letter jobs nobody handles', async () => {
+    const job = await queue.enqueue('unknown', {});
+
+    await worker.runOnce();
+
+    expect(await queue.getJob(job.id)).toMatchObject({
+      status: 'dead',
+      lastError: 'No handler for job type unknown',
+    });
+  });
+
+  it('should hand jobs of a worker that died to another one', async () => {
+    const job = await queue.enqueue('send', {});
+    await store.claimDue('dead-worker', new Date(), new Date(Date.now() + MINUTE), 10);
+    const handler = vi.fn().mockResolvedValue(undefined);
+    worker.register('send', handler);
+
+    expect(await worker.runOnce()).toBe(0);
+    expect(await worker.runOnce(new Date(Date.now() + MINUTE))).toBe(1);
+
+    // The late worker can no longer change the job
+    await store.complete(job.id, 'dead-worker', new Date());
+    expect(await queue.getJob(job.id)).toMatchObject({
+      status: 'completed',
+      attempts: 2,
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should finish the job in progress when stopped', async () => {
+    let finish!: () => void;
+    const handler = vi.fn(
+      () => new Promise<void>((resolve) => (finish = resolve))
+    );
+    worker.register('send', handler);
+    const job = await queue.enqueue('send', {});
+
+    worker.start(MINUTE);
+    await vi.waitFor(() => expect(handler).toHaveBeenCalled());
+
+    const stopped = worker.stop();
+    finish();
+    await stopped;
+
+    expect((await queue.getJob(job.id))?.status).toBe('completed');
+  });
+});
@@ -0,0 +1,3 @@
+export * from './job-store';
+export * from './job-queue';
+export * from './job-worker';
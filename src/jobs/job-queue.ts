@@ -0,0 +1,45 @@
+import { EnqueueJobOptions, Job } from '../types/job';
+import { JobStore, createJob } from './job-store';
+
+// Dead jobs listed when no limit is given
+const DEFAULT_DEAD_LETTER_LIMIT = 50;
+
+/**
+ * Durable job queue - work to be done later, by whichever worker process
+ * picks it up. Jobs survive restarts and deploys; see JobWorker for how
+ * they are run, retried and dead-lettered.
+ */
+export class JobQueue {
+  constructor(private store: JobStore) {}
+
+  /**
+   * Queue a job to run at options.runAt, or as soon as a worker is free
+   */
+  async enqueue(
+    type: string,
+    payload: Record<string, any>,
+    options: EnqueueJobOptions = {}
+  ): Promise<Job> {
+    return this.store.enqueue(createJob(type, payload, options));
+  }
+
+  async getJob(jobId: string): Promise<Job | null> {
+    return this.store.findById(jobId);
+  }
+
+  /**
+   * Jobs that ran out of attempts, most recent first
+   */
+  async getDeadLetters(
+    limit: number = DEFAULT_DEAD_LETTER_LIMIT
+  ): Promise<Job[]> {
+    return this.store.findDead(limit);
+  }
+
+  /**
+   * Run a dead job again with a fresh set of attempts
+   */
+  async retryDeadLetter(jobId: string): Promise<Job | null> {
+    return this.store.requeue(jobId, new Date());
+  }
+}
@@ -0,0 +1,210 @@
+import { EnqueueJobOptions, Job } from '../types/job';
+import { generateUUID } from '../types/validation';
+
+// Attempts a job gets before it is moved to the dead-letter queue
+export const DEFAULT_MAX_ATTEMPTS = 5;
+
+/**
+ * Where queued jobs are kept. Jobs are leased to one worker at a time:
+ * a worker that dies mid-job loses its lease when lockedUntil passes and
+ * the job is claimed again, so handlers must cope with running twice.
+ *
+ * Updates from a worker only apply while it still holds the lease.
+ */
+export interface JobStore {
+  /**
+   * Add a job. When a job with the same idempotency key exists, that job
+   * is returned and nothing is added.
+   */
+  enqueue(_job: Job): Promise<Job>;
+
+  /**
+   * Lease up to `limit` jobs that are due, or whose lease ran out, to a
+   * worker until `lockedUntil`. Every claim counts as an attempt.
+   */
+  claimDue(
+    _workerId: string,
+    _now: Date,
+    _lockedUntil: Date,
+    _limit: number
+  ): Promise<Job[]>;
+
+  complete(_jobId: string, _workerId: string, _at: Date): Promise<void>;
+
+  /**
+   * Put a leased job back in the queue to run at `runAt`. A deferred job
+   * gets its attempt back.
+   */
+  reschedule(
+    _jobId: string,
+    _workerId: string,
+    _runAt: Date,
+    _options: { error?: string; deferred?: boolean }
+  ): Promise<void>;
+
+  /** Move a leased job to the dead-letter queue */
+  bury(
+    _jobId: string,
+    _workerId: string,
+    _error: string,
+    _at: Date
+  ): Promise<void>;
+
+  findById(_jobId: string): Promise<Job | null>;
+
+  /** Dead jobs, most recent first */
+  findDead(_limit: number): Promise<Job[]>;
+
+  /**
+   * Give a dead job a fresh set of attempts. Returns null when the job is
+   * not in the dead-letter queue.
+   */
+  requeue(_jobId: string, _runAt: Date): Promise<Job | null>;
+}
+
+/**
+ * New pending job
+ */
+export function createJob(
+  type: string,
+  payload: Record<string, any>,
+  options: EnqueueJobOptions = {}
+): Job {
+  const now = new Date();
+  return {
+    id: generateUUID(),
+    type,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    maxAttempts: options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    runAt: options.runAt ?? now,
+    idempotencyKey: options.idempotencyKey,
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * In-process jobs, lost on restart and not shared between instances
+ */
+export class InMemoryJobStore implements JobStore {
+  private jobs: Map<string, Job> = new Map();
+
+  async enqueue(job: Job): Promise<Job> {
+    const existing = job.idempotencyKey
+      ? Array.from(this.jobs.values()).find(
+          (candidate) => candidate.idempotencyKey === job.idempotencyKey
+        )
+      : undefined;
+    if (existing) return { ...existing };
+
+    // Payloads come back the way they would from the database
+    const stored = { ...job, payload: JSON.parse(JSON.stringify(job.payload)) };
+    this.jobs.set(job.id, stored);
+    return { ...stored };
+  }
+
+  async claimDue(
+    workerId: string,
+    now: Date,
+    lockedUntil: Date,
+    limit: number
+  ): Promise<Job[]> {
+    const due = Array.from(this.jobs.values())
+      .filter(
+        (job) =>
+          (job.status === 'pending' && job.runAt <= now) ||
+          (job.status === 'running' && job.lockedUntil! <= now)
+      )
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+      .slice(0, limit);
+
+    return due.map((job) => {
+      Object.assign(job, {
+        status: 'running',
+        attempts: job.attempts + 1,
+        lockedBy: workerId,
+        lockedUntil,
+        updatedAt: now,
+      });
+      return { ...job };
+    });
+  }
+
+  async complete(jobId: string, workerId: string, at: Date): Promise<void> {
+    this.updateLeased(jobId, workerId, {
+      status: 'completed',
+      completedAt: at,
+      updatedAt: at,
+    });
+  }
+
+  async reschedule(
+    jobId: string,
+    workerId: string,
+    runAt: Date,
+    options: { error?: string; deferred?: boolean }
+  ): Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) return;
+
+    this.updateLeased(jobId, workerId, {
+      status: 'pending',
+      runAt,
+      attempts: options.deferred ? job.attempts - 1 : job.attempts,
+      lastError: options.error ?? job.lastError,
+      updatedAt: new Date(),
+    });
+  }
+
+  async bury(
+    jobId: string,
+    workerId: string,
+    error: string,
+    at: Date
+  ): Promise<void> {
+    this.updateLeased(jobId, workerId, {
+      status: 'dead',
+      lastError: error,
+      updatedAt: at,
+    });
+  }
+
+  async findById(jobId: string): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    return job ? { ...job } : null;
+  }
+
+  async findDead(limit: number): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter((job) => job.status === 'dead')
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .slice(0, limit)
+      .map((job) => ({ ...job }));
+  }
+
+  async requeue(jobId: string, runAt: Date): Promise<Job | null> {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'dead') return null;
+
+    Object.assign(job, {
+      status: 'pending',
+      attempts: 0,
+      runAt,
+      updatedAt: new Date(),
+    });
+    return { ...job };
+  }
+
+  private updateLeased(
+    jobId: string,
+    workerId: string,
+    changes: Partial<Job>
+  ): void {
+    const job = this.jobs.get(jobId);
+    if (!job || job.status !== 'running' || job.lockedBy !== workerId) return;
+
+    Object.assign(job, changes, { lockedBy: undefined, lockedUntil: undefined });
+  }
+}
@@ -0,0 +1,185 @@
+import { hostname } from 'os';
+import { randomBytes } from 'crypto';
+import { Job } from '../types/job';
+import { JobStore } from './job-store';
+import { logger } from '../utils/logger';
+
+/**
+ * What a handler can ask for instead of completing the job: run it again
+ * later without using up an attempt, e.g. when a frequency limit holds a
+ * message back
+ */
+export interface JobDeferral {
+  deferUntil: Date;
+}
+
+export type JobHandler = (
+  payload: Record<string, any>,
+  job: Job
+) => Promise<JobDeferral | void>;
+
+export interface JobWorkerConfig {
+  workerId: string;
+  batchSize: number; // jobs claimed per poll
+  pollIntervalMs: number;
+  // How long a claimed batch stays leased. Must cover running the whole
+  // batch, or another worker may pick up the same jobs.
+  leaseMs: number;
+  retryBaseDelayMs: number; // doubled after every failed attempt
+  retryMaxDelayMs: number;
+}
+
+const DEFAULT_CONFIG: Omit<JobWorkerConfig, 'workerId'> = {
+  batchSize: 10,
+  pollIntervalMs: 5000,
+  leaseMs: 5 * 60 * 1000,
+  retryBaseDelayMs: 30 * 1000,
+  retryMaxDelayMs: 60 * 60 * 1000,
+};
+
+/**
+ * Job worker - claims due jobs and runs them with the handler registered
+ * for their type
+ *
+ * A job whose handler throws is retried with exponential backoff until it
+ * runs out of attempts, then moved to the dead-letter queue. Jobs without
+ * a handler go to the dead-letter queue straight away.
+ *
+ * stop() lets the batch in progress finish, so a deploy that stops the
+ * worker gracefully neither drops nor repeats a job. A worker that is
+ * killed loses its lease and its jobs run again elsewhere.
+ */
+export class JobWorker {
+  private config: JobWorkerConfig;
+  private handlers: Map<string, JobHandler> = new Map();
+  private pollTimer?: NodeJS.Timeout;
+  private currentRun?: Promise<number>;
+
+  constructor(
+    private store: JobStore,
+    config: Partial<JobWorkerConfig> = {}
+  ) {
+    this.config = {
+      ...DEFAULT_CONFIG,
+      workerId: `${hostname()}-${process.pid}-${randomBytes(3).toString('hex')}`,
+      ...config,
+    };
+  }
+
+  register(type: string, handler: JobHandler): void {
+    if (this.handlers.has(type)) {
+      throw new Error(`A handler for job type ${type} is already registered`);
+    }
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Claim and run one batch of due jobs. Returns how many were claimed.
+   */
+  async runOnce(now: Date = new Date()): Promise<number> {
+    const jobs = await this.store.claimDue(
+      this.config.workerId,
+      now,
+      new Date(now.getTime() + this.config.leaseMs),
+      this.config.batchSize
+    );
+
+    for (const job of jobs) {
+      await this.run(job);
+    }
+    return jobs.length;
+  }
+
+  /**
+   * Poll for due jobs until stop() is called
+   */
+  start(intervalMs: number = this.config.pollIntervalMs): void {
+    if (this.pollTimer) return;
+
+    const poll = () => {
+      // Skip a tick while the previous batch is still running
+      if (this.currentRun) return;
+
+      this.currentRun = this.runOnce()
+        .catch((error) => {
+          logger.error('Failed to claim jobs', error);
+          return 0;
+        })
+        .finally(() => {
+          this.currentRun = undefined;
+        });
+    };
+
+    this.pollTimer = setInterval(poll, intervalMs);
+    poll();
+  }
+
+  /**
+   * Stop polling and wait for the batch in progress to finish
+   */
+  async stop(): Promise<void> {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = undefined;
+    }
+    await this.currentRun;
+  }
+
+  private async run(job: Job): Promise<void> {
+    const { workerId } = this.config;
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      logger.error('No handler for job type', { jobId: job.id, type: job.type });
+      await this.store.bury(
+        job.id,
+        workerId,
+        `No handler for job type ${job.type}`,
+        new Date()
+      );
+      return;
+    }
+
+    try {
+      const result = await handler(job.payload, job);
+      if (result) {
+        await this.store.reschedule(job.id, workerId, result.deferUntil, {
+          deferred: true,
+        });
+      } else {
+        await this.store.complete(job.id, workerId, new Date());
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (job.attempts >= job.maxAttempts) {
+        logger.error('Job moved to the dead-letter queue', {
+          jobId: job.id,
+          type: job.type,
+          attempts: job.attempts,
+          error: message,
+        });
+        await this.store.bury(job.id, workerId, message, new Date());
+        return;
+      }
+
+      const retryAt = new Date(Date.now() + this.retryDelay(job.attempts));
+      logger.warn('Job failed, retrying', {
+        jobId: job.id,
+        type: job.type,
+        attempts: job.attempts,
+        retryAt: retryAt.toISOString(),
+        error: message,
+      });
+      await this.store.reschedule(job.id, workerId, retryAt, {
+        error: message,
+      });
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(
+      this.config.retryBaseDelayMs * 2 ** (attempts - 1),
+      this.config.retryMaxDelayMs
+    );
+  }
+}
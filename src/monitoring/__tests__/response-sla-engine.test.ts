@@ -0,0 +1,277 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { ResponseSlaEngine } from '../response-sla-engine';
+import { AgentRoster } from '../../assignment/agent-roster';
+import { Interaction } from '../../types/interaction';
+import { generateUUID } from '../../types/validation';
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const START = new Date('2026-01-14T15:00:00.000Z');
+
+const at = (seconds: number) => new Date(START.getTime() + seconds * 1000);
+
+const createInteraction = (
+  leadId: string,
+  overrides: Partial<Interaction> = {}
+): Interaction => ({
+  id: generateUUID(),
+  leadId,
+  agentId: 'ai-inbound-001',
+  type: 'email',
+  direction: 'outbound',
+  content: 'Thanks for reaching out!',
+  outcome: {
+    status: 'successful',
+    appointmentBooked: false,
+    qualificationUpdated: false,
+    escalationRequired: false,
+  },
+  timestamp: at(30),
+  ...overrides,
+});
+
+describe('ResponseSlaEngine', () => {
+  let engine: ResponseSlaEngine;
+
+  beforeEach(() => {
+    vi.setSystemTime(START);
+    engine = new ResponseSlaEngine({
+      targetSeconds: 60,
+      sourceTargetSeconds: { referral: 300 },
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should start one timer per lead with the target of its source', async () => {
+    const leadId = generateUUID();
+    const timer = await engine.startTimer(leadId, 'website');
+    const again = await engine.startTimer(leadId, 'website', at(120));
+    const referral = await engine.startTimer(generateUUID(), 'referral');
+
+    expect(timer).toMatchObject({ status: 'open', dueAt: at(60) });
+    expect(again).toEqual(timer);
+    expect(referral.dueAt).toEqual(at(300));
+  });
+
+  it('should stop the timer on the first outbound interaction only', async () => {
+    const onTime = generateUUID();
+    const late = generateUUID();
+    await engine.startTimer(onTime, 'website');
+    await engine.startTimer(late, 'meta_ads');
+
+    expect(
+      await engine.recordInteraction(
+        createInteraction(onTime, { direction: 'inbound' })
+      )
+    ).toBeNull();
+    const met = await engine.recordInteraction(createInteraction(onTime));
+    const breached = await engine.recordInteraction(
+      createInteraction(late, { timestamp: at(90) })
+    );
+
+    expect(met).toMatchObject({
+      status: 'met',
+      firstTouchAt: at(30),
+      firstTouchAgentId: 'ai-inbound-001',
+    });
+    expect(breached).toMatchObject({ status: 'breached', breachedAt: at(60) });
+    expect(await engine.recordInteraction(createInteraction(onTime))).toBeNull();
+    expect(await engine.getUntouched()).toHaveLength(0);
+  });
+
+  it('should escalate breaches to the chief agent and the agent manager', async () => {
+    const roster = new AgentRoster();
+    await roster.addAgent({
+      id: 'ana',
+      name: 'Ana',
+      managerEmail: 'manager@example.com',
+      skills: {},
+      maxConcurrentLeads: 3,
+      workingHours: [{ dayOfWeek: 3, start: '09:00', end: '18:00' }],
+    });
+    const leadId = generateUUID();
+    const chiefAgent = { raiseAlert: vi.fn() };
+    const notifier = {
+      sendNotification: vi.fn().mockResolvedValue({ sent: true }),
+    };
+    const repositories = {
+      leads: {
+        findById: vi.fn().mockResolvedValue({ id: leadId, assignedAgent: 'ana' }),
+      },
+    };
+    engine = new ResponseSlaEngine(
+      {},
+      { chiefAgent, notifier, roster, repositories: repositories as any }
+    );
+    await engine.startTimer(leadId, 'website');
+
+    expect(await engine.checkBreaches(at(59))).toHaveLength(0);
+    const first = await engine.checkBreaches(at(61));
+    const repeat = await engine.checkBreaches(at(120));
+    const critical = await engine.checkBreaches(at(60 + 30 * 60));
+
+    expect(first[0]).toMatchObject({
+      status: 'breached',
+      assignedAgentId: 'ana',
+      escalationLevel: 1,
+    });
+    expect(repeat).toHaveLength(0);
+    expect(critical[0].escalationLevel).toBe(2);
+    expect(chiefAgent.raiseAlert.mock.calls.map(([alert]) => alert.level)).toEqual(
+      ['warning', 'critical']
+    );
+    expect(notifier.sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        channel: 'email',
+        to: 'manager@example.com',
+        metadata: { leadId, agentId: 'ana' },
+      })
+    );
+  });
+
+  it('should report compliance by source, agent and hour of day', async () => {
+    const leads = [generateUUID(), generateUUID(), generateUUID()];
+    await engine.startTimer(leads[0], 'website');
+    await engine.startTimer(leads[1], 'website', at(3600));
+    await engine.startTimer(leads[2], 'meta_ads');
+    await engine.recordInteraction(createInteraction(leads[0]));
+    await engine.recordInteraction(
+      createInteraction(leads[1], { agentId: 'ana', timestamp: at(3690) })
+    );
+
+    const query = { from: START, to: at(7200), at: at(7200) };
+    const bySource = await engine.getComplianceReport({
+      ...query,
+      groupBy: 'source',
+    });
+    const byAgent = await engine.getComplianceReport({
+      ...query,
+      groupBy: 'agent',
+    });
+    const byHour = await engine.getComplianceReport({
+      ...query,
+      groupBy: 'hour',
+      timezone: 'America/New_York',
+    });
+
+    expect(bySource.rows).toEqual([
+      {
+        key: 'meta_ads',
+        total: 1,
+        met: 0,
+        breached: 1,
+        open: 0,
+        complianceRate: 0,
+        averageResponseSeconds: null,
+      },
+      {
+        key: 'website',
+        total: 2,
+        met: 1,
+        breached: 1,
+        open: 0,
+        complianceRate: 0.5,
+        averageResponseSeconds: 60,
+      },
+    ]);
+    expect(bySource.overall.complianceRate).toBeCloseTo(1 / 3);
+    expect(byAgent.rows.map((row) => row.key)).toEqual([
+      'ai-inbound-001',
+      'ana',
+      'unassigned',
+    ]);
+    expect(byHour.rows.map((row) => [row.key, row.total])).toEqual([
+      ['10', 2],
+      ['11', 1],
+    ]);
+  });
+
+  it('should start timers for new leads from the ingestion system', async () => {
+    const ingestion = new EventEmitter();
+    const leadId = generateUUID();
+    engine.attachToIngestion(ingestion);
+
+    ingestion.emit('leadProcessed', {
+      success: true,
+      leadId,
+      source: 'gmail',
+      isDuplicate: false,
+      errors: [],
+      warnings: [],
+    });
+    ingestion.emit('leadProcessed', {
+      success: true,
+      leadId: generateUUID(),
+      source: 'gmail',
+      isDuplicate: true,
+      errors: [],
+      warnings: [],
+    });
+    await vi.waitFor(async () => {
+      expect(await engine.getLeadSla(leadId)).not.toBeNull();
+    });
+
+    expect(await engine.getUntouched()).toHaveLength(1);
+  });
+
+  it('should start and stop timers from outbox events', async () => {
+    const leadId = generateUUID();
+    const outbound = createInteraction(leadId);
+    const interactions = {
+      findById: vi.fn(async (id: string) =>
+        id === outbound.id ? outbound : null
+      ),
+    };
+    engine = new ResponseSlaEngine(
+      { targetSeconds: 60 },
+      { repositories: { interactions } as any }
+    );
+    const event = (type: any, aggregateId: string, payload: any) => ({
+      id: generateUUID(),
+      type,
+      aggregateType: type === 'lead_created' ? 'lead' : 'interaction',
+      aggregateId,
+      payload,
+      occurredAt: START,
+    });
+
+    await engine.handle(event('lead_created', leadId, { source: 'website' }));
+    await engine.handle(
+      event('interaction_completed', generateUUID(), {
+        lead_id: leadId,
+        direction: 'inbound',
+      })
+    );
+    expect(await engine.getLeadSla(leadId)).toMatchObject({
+      status: 'open',
+      dueAt: at(60),
+    });
+    expect(interactions.findById).not.toHaveBeenCalled();
+
+    await engine.handle(
+      event('interaction_completed', outbound.id, {
+        lead_id: leadId,
+        direction: 'outbound',
+      })
+    );
+    expect(await engine.getLeadSla(leadId)).toMatchObject({
+      status: 'met',
+      firstTouchInteractionId: outbound.id,
+    });
+    expect(engine.eventTypes).toEqual([
+      'lead_created',
+      'interaction_completed',
+    ]);
+  });
+});
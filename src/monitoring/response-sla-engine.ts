@@ -0,0 +1,420 @@
+import { EventEmitter } from 'events';
+import type { ChiefAgent, SystemAlert } from '../agents/chief-agent';
+import type { AgentRoster } from '../assignment/agent-roster';
+import type { MultiChannelCommunicationManager } from '../communication/multi-channel-manager';
+import type { Repositories } from '../database/repositories';
+import type { EventSubscriber } from '../events';
+import type { IngestionResult } from '../ingestion/types';
+import { DomainEvent, DomainEventType } from '../types/domain-event';
+import { Interaction } from '../types/interaction';
+import { LeadSource } from '../types/lead';
+import {
+  ResponseSlaRecord,
+  SlaComplianceReport,
+  SlaReportGrouping,
+  SlaReportRow,
+} from '../types/response-sla';
+import { getZonedDateTime } from '../utils/timezone';
+import { logger } from '../utils/logger';
+
+/**
+ * One escalation of a breach, fired once the lead has been waiting this
+ * long past its due time
+ */
+export interface EscalationStep {
+  afterBreachMinutes: number;
+  level: Exclude<SystemAlert['level'], 'info'>;
+}
+
+export interface ResponseSlaConfig {
+  targetSeconds: number; // time allowed until the first outbound touch
+  sourceTargetSeconds: Partial<Record<LeadSource, number>>;
+  escalationSteps: EscalationStep[];
+  checkIntervalMs: number;
+}
+
+export interface ResponseSlaOptions {
+  repositories?: Partial<Repositories>;
+  chiefAgent?: Pick<ChiefAgent, 'raiseAlert'>;
+  roster?: AgentRoster; // to find the manager of the assigned agent
+  notifier?: Pick<MultiChannelCommunicationManager, 'sendNotification'>;
+}
+
+export interface SlaReportQuery {
+  from: Date;
+  to: Date;
+  groupBy: SlaReportGrouping;
+  timezone?: string;
+  at?: Date; // open leads past due by then count as breached
+}
+
+const DEFAULT_CONFIG: ResponseSlaConfig = {
+  targetSeconds: 60, // as AIHeadAgentConfig.responseTimeSLA
+  sourceTargetSeconds: {},
+  escalationSteps: [
+    { afterBreachMinutes: 0, level: 'warning' },
+    { afterBreachMinutes: 30, level: 'critical' },
+  ],
+  checkIntervalMs: 30 * 1000,
+};
+
+const UNASSIGNED = 'unassigned';
+
+/**
+ * Response SLA Engine - time from lead creation to the first outbound touch
+ *
+ * Responsibilities:
+ * - Start a timer for every new lead and stop it on the first outbound
+ *   interaction, from the outbox events of whichever process wrote them
+ * - Escalate breaches, step by step, to the Chief Agent's alert feed and
+ *   to the manager of the lead's assigned sales agent
+ * - Report SLA compliance per source, agent and hour of day
+ *
+ * With a repository the timers are kept in the database, so timers
+ * started by the ingestion process are checked by the API process;
+ * otherwise they live in memory.
+ */
+export class ResponseSlaEngine implements EventSubscriber {
+  readonly name = 'response-sla';
+  readonly eventTypes: DomainEventType[] = [
+    'lead_created',
+    'interaction_completed',
+  ];
+
+  private config: ResponseSlaConfig;
+  private records: Map<string, ResponseSlaRecord> = new Map();
+  private checkTimer?: NodeJS.Timeout;
+
+  constructor(
+    config: Partial<ResponseSlaConfig> = {},
+    private options: ResponseSlaOptions = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Start timers for the new leads of an ingestion system; merged
+   * duplicates keep the timer of the lead they were merged into
+   */
+  attachToIngestion(ingestion: EventEmitter): void {
+    ingestion.on('leadProcessed', (result: IngestionResult) => {
+      if (result.isDuplicate || !result.leadId || !result.source) return;
+
+      this.startTimer(result.leadId, result.source).catch((error) =>
+        logger.error('Failed to start response SLA timer', error)
+      );
+    });
+  }
+
+  /**
+   * Start the timer of a new lead, or stop it on an outbound interaction.
+   * Both are no-ops when repeated, as the relay may deliver an event twice.
+   */
+  async handle(event: DomainEvent): Promise<void> {
+    if (event.type === 'lead_created') {
+      await this.startTimer(
+        event.aggregateId,
+        event.payload.source as LeadSource,
+        event.occurredAt
+      );
+      return;
+    }
+
+    if (event.payload.direction !== 'outbound') return;
+    const interactions = this.options.repositories?.interactions;
+    const interaction = await interactions?.findById(event.aggregateId);
+    if (interaction) {
+      await this.recordInteraction(interaction);
+    }
+  }
+
+  getTargetSeconds(source: LeadSource): number {
+    return this.config.sourceTargetSeconds[source] ?? this.config.targetSeconds;
+  }
+
+  /**
+   * Start the timer of a lead. A lead only ever has one timer; starting it
+   * again returns the existing one.
+   */
+  async startTimer(
+    leadId: string,
+    source: LeadSource,
+    startedAt: Date = new Date()
+  ): Promise<ResponseSlaRecord> {
+    const existing = await this.getLeadSla(leadId);
+    if (existing) return existing;
+
+    return this.save({
+      leadId,
+      source,
+      status: 'open',
+      startedAt,
+      dueAt: new Date(startedAt.getTime() + this.getTargetSeconds(source) * 1000),
+      escalationLevel: 0,
+    });
+  }
+
+  /**
+   * Stop the timer of the interaction's lead if it is the first outbound
+   * touch. Returns the stopped timer, or null when nothing changed.
+   */
+  async recordInteraction(
+    interaction: Interaction
+  ): Promise<ResponseSlaRecord | null> {
+    if (interaction.direction !== 'outbound') return null;
+
+    const record = await this.getLeadSla(interaction.leadId);
+    if (!record || record.firstTouchAt) return null;
+
+    const touchedAt = interaction.timestamp;
+    const late = touchedAt > record.dueAt;
+    return this.save({
+      ...record,
+      status: record.status === 'open' && !late ? 'met' : 'breached',
+      breachedAt: late ? (record.breachedAt ?? record.dueAt) : record.breachedAt,
+      firstTouchAt: touchedAt,
+      firstTouchInteractionId: interaction.id,
+      firstTouchAgentId: interaction.agentId,
+      assignedAgentId:
+        (await this.findAssignedAgentId(interaction.leadId)) ??
+        record.assignedAgentId,
+    });
+  }
+
+  /**
+   * Mark overdue timers as breached and fire the escalation steps they
+   * have reached. Returns the timers that were escalated.
+   */
+  async checkBreaches(at: Date = new Date()): Promise<ResponseSlaRecord[]> {
+    const escalated: ResponseSlaRecord[] = [];
+
+    for (const record of await this.getUntouched()) {
+      if (at < record.dueAt) continue;
+
+      let updated: ResponseSlaRecord = {
+        ...record,
+        status: 'breached',
+        breachedAt: record.breachedAt ?? record.dueAt,
+      };
+      const waitingMinutes = (at.getTime() - record.dueAt.getTime()) / 60000;
+      const dueSteps = this.config.escalationSteps
+        .slice(record.escalationLevel)
+        .filter((step) => waitingMinutes >= step.afterBreachMinutes);
+
+      if (dueSteps.length > 0) {
+        updated = {
+          ...updated,
+          assignedAgentId:
+            (await this.findAssignedAgentId(record.leadId)) ??
+            record.assignedAgentId,
+          escalationLevel: record.escalationLevel + dueSteps.length,
+        };
+        // Only the most severe step reached is sent, e.g. after downtime
+        await this.escalate(updated, dueSteps[dueSteps.length - 1], at);
+        escalated.push(updated);
+      }
+
+      if (dueSteps.length > 0 || record.status !== 'breached') {
+        await this.save(updated);
+      }
+    }
+
+    return escalated;
+  }
+
+  /**
+   * Check for breaches periodically
+   */
+  startMonitor(intervalMs: number = this.config.checkIntervalMs): void {
+    this.stopMonitor();
+    this.checkTimer = setInterval(() => {
+      this.checkBreaches().catch((error) =>
+        logger.error('Failed to check response SLA breaches', error)
+      );
+    }, intervalMs);
+    this.checkTimer.unref();
+  }
+
+  stopMonitor(): void {
+    if (this.checkTimer) {
+      clearInterval(this.checkTimer);
+      this.checkTimer = undefined;
+    }
+  }
+
+  async getLeadSla(leadId: string): Promise<ResponseSlaRecord | null> {
+    if (this.options.repositories?.responseSlas) {
+      return this.options.repositories.responseSlas.findByLead(leadId);
+    }
+    return this.records.get(leadId) ?? null;
+  }
+
+  /**
+   * Leads still waiting for their first outbound touch, most overdue first
+   */
+  async getUntouched(): Promise<ResponseSlaRecord[]> {
+    if (this.options.repositories?.responseSlas) {
+      return this.options.repositories.responseSlas.findUntouched();
+    }
+    return Array.from(this.records.values())
+      .filter((record) => !record.firstTouchAt)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  /**
+   * SLA compliance of the leads created in [from, to), grouped by source,
+   * responsible agent or hour of day of lead creation
+   */
+  async getComplianceReport(query: SlaReportQuery): Promise<SlaComplianceReport> {
+    const timezone = query.timezone ?? 'UTC';
+    const at = query.at ?? new Date();
+    const records = this.options.repositories?.responseSlas
+      ? await this.options.repositories.responseSlas.findStartedBetween(
+          query.from,
+          query.to
+        )
+      : Array.from(this.records.values()).filter(
+          (record) =>
+            record.startedAt >= query.from && record.startedAt < query.to
+        );
+
+    const groups = new Map<string, ResponseSlaRecord[]>();
+    for (const record of records) {
+      const key = this.groupKey(record, query.groupBy, timezone);
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+
+    const rows = Array.from(groups.entries())
+      .map(([key, group]) => ({ key, ...summarize(group, at) }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    return {
+      groupBy: query.groupBy,
+      from: query.from,
+      to: query.to,
+      timezone,
+      rows,
+      overall: summarize(records, at),
+    };
+  }
+
+  private groupKey(
+    record: ResponseSlaRecord,
+    groupBy: SlaReportGrouping,
+    timezone: string
+  ): string {
+    switch (groupBy) {
+      case 'source':
+        return record.source;
+      case 'agent':
+        return (
+          record.assignedAgentId ?? record.firstTouchAgentId ?? UNASSIGNED
+        );
+      case 'hour':
+        return String(getZonedDateTime(record.startedAt, timezone).hour).padStart(
+          2,
+          '0'
+        );
+    }
+  }
+
+  private async escalate(
+    record: ResponseSlaRecord,
+    step: EscalationStep,
+    at: Date
+  ): Promise<void> {
+    const waitingMinutes = Math.round(
+      (at.getTime() - record.startedAt.getTime()) / 60000
+    );
+    const message =
+      `Lead ${record.leadId} (${record.source}) has had no outbound contact ` +
+      `for ${waitingMinutes} minutes; the target is ` +
+      `${this.getTargetSeconds(record.source)} seconds` +
+      (record.assignedAgentId
+        ? `. Assigned to ${record.assignedAgentId}.`
+        : '. No agent is assigned.');
+
+    logger.warn('Response SLA breached', {
+      leadId: record.leadId,
+      level: step.level,
+      assignedAgentId: record.assignedAgentId,
+    });
+
+    this.options.chiefAgent?.raiseAlert({
+      level: step.level,
+      title: 'Lead response SLA breached',
+      message,
+      source: 'response-sla',
+    });
+
+    const agent = record.assignedAgentId
+      ? this.options.roster?.getAgent(record.assignedAgentId)
+      : undefined;
+    if (!agent?.managerEmail || !this.options.notifier) return;
+
+    const result = await this.options.notifier.sendNotification({
+      channel: 'email',
+      to: agent.managerEmail,
+      subject: `Response SLA breached: lead assigned to ${agent.name}`,
+      content: message,
+      metadata: { leadId: record.leadId, agentId: agent.id },
+    });
+    if (!result.sent) {
+      logger.warn('Could not notify manager of SLA breach', {
+        leadId: record.leadId,
+        reason: result.reason,
+      });
+    }
+  }
+
+  private async findAssignedAgentId(leadId: string): Promise<string | undefined> {
+    const lead = await this.options.repositories?.leads?.findById(leadId);
+    return lead?.assignedAgent;
+  }
+
+  private async save(record: ResponseSlaRecord): Promise<ResponseSlaRecord> {
+    const saved = this.options.repositories?.responseSlas
+      ? await this.options.repositories.responseSlas.save(record)
+      : record;
+    if (!this.options.repositories?.responseSlas) {
+      this.records.set(saved.leadId, saved);
+    }
+    return saved;
+  }
+}
+
+function summarize(
+  records: ResponseSlaRecord[],
+  at: Date
+): Omit<SlaReportRow, 'key'> {
+  let met = 0;
+  let breached = 0;
+  let open = 0;
+  let responseSeconds = 0;
+  let touched = 0;
+
+  for (const record of records) {
+    if (record.status === 'met') {
+      met++;
+    } else if (record.status === 'breached' || at >= record.dueAt) {
+      breached++;
+    } else {
+      open++;
+    }
+
+    if (record.firstTouchAt) {
+      touched++;
+      responseSeconds +=
+        (record.firstTouchAt.getTime() - record.startedAt.getTime()) / 1000;
+    }
+  }
+
+  return {
+    total: records.length,
+    met,
+    breached,
+    open,
+    complianceRate: met + breached > 0 ? met / (met + breached) : null,
+    averageResponseSeconds: touched > 0 ? responseSeconds / touched : null,
+  };
+}
@@ -11,8 +11,10 @@ export type WebhookEventType =
   | 'lead_created'
   | 'lead_updated'
   | 'lead_routed'
+  | 'lead_deleted'
   | 'interaction_completed'
   | 'appointment_scheduled'
+  | 'appointment_updated'
   | 'feedback_received'
   | 'optimization_triggered';
 
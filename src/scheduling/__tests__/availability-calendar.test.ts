@@ -0,0 +1,332 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AgentSchedule,
+  AvailabilityCalendar,
+  BusyPeriod,
+} from '../availability-calendar';
+
+const WEEKDAYS = [1, 2, 3, 4, 5];
+
+const lisbonAgent: AgentSchedule = {
+  agentId: 'agent-lisbon',
+  timezone: 'Europe/Lisbon',
+  workingHours: WEEKDAYS.map((dayOfWeek) => ({
+    dayOfWeek,
+    start: '09:00',
+    end: '12:00',
+  })),
+};
+
+const saoPauloAgent: AgentSchedule = {
+  agentId: 'agent-sao-paulo',
+  timezone: 'America/Sao_Paulo',
+  workingHours: WEEKDAYS.map((dayOfWeek) => ({
+    dayOfWeek,
+    start: '09:00',
+    end: '10:00',
+  })),
+  blackoutDates: ['2024-07-02'],
+};
+
+// Monday 2024-07-01 to Wednesday 2024-07-03, in UTC
+const range = {
+  start: new Date('2024-07-01T00:00:00.000Z'),
+  end: new Date('2024-07-04T00:00:00.000Z'),
+};
+
+describe('AvailabilityCalendar', () => {
+  const createCalendar = (holidays: string[] = []) =>
+    new AvailabilityCalendar({
+      agents: [lisbonAgent, saoPauloAgent],
+      holidays,
+      bufferMinutes: 15,
+      slotIntervalMinutes: 60,
+    });
+
+  describe('working hours', () => {
+    it('should apply working hours in the agent timezone', () => {
+      const calendar = createCalendar();
+
+      // 09:00-10:00 in Lisbon (UTC+1 in summer)
+      expect(
+        calendar.isWorking(
+          'agent-lisbon',
+          new Date('2024-07-01T08:00:00.000Z'),
+          new Date('2024-07-01T09:00:00.000Z')
+        )
+      ).toBe(true);
+      // 11:30-12:30 runs past the end of the shift
+      expect(
+        calendar.isWorking(
+          'agent-lisbon',
+          new Date('2024-07-01T10:30:00.000Z'),
+          new Date('2024-07-01T11:30:00.000Z')
+        )
+      ).toBe(false);
+    });
+
+    it('should treat weekends, holidays and blackout dates as days off', () => {
+      const calendar = createCalendar(['2024-07-01']);
+
+      expect(
+        calendar.isWorking(
+          'agent-lisbon',
+          new Date('2024-07-01T08:00:00.000Z'),
+          new Date('2024-07-01T09:00:00.000Z')
+        )
+      ).toBe(false);
+      expect(
+        calendar.isWorking(
+          'agent-sao-paulo',
+          new Date('2024-07-02T12:00:00.000Z'),
+          new Date('2024-07-02T13:00:00.000Z')
+        )
+      ).toBe(false);
+      expect(
+        calendar.isWorking(
+          'agent-lisbon',
+          new Date('2024-07-06T08:00:00.000Z'),
+          new Date('2024-07-06T09:00:00.000Z')
+        )
+      ).toBe(false);
+    });
+
+    it('should join back-to-back windows across midnight', () => {
+      const calendar = new AvailabilityCalendar({
+        agents: [
+          {
+            agentId: 'night-shift',
+            timezone: 'UTC',
+            workingHours: [
+              { dayOfWeek: 1, start: '22:00', end: '24:00' },
+              { dayOfWeek: 2, start: '00:00', end: '02:00' },
+            ],
+          },
+        ],
+      });
+
+      expect(
+        calendar.isWorking(
+          'night-shift',
+          new Date('2024-07-01T23:30:00.000Z'),
+          new Date('2024-07-02T00:30:00.000Z')
+        )
+      ).toBe(true);
+    });
+
+    it('should reject invalid schedules', () => {
+      expect(
+        () =>
+          new AvailabilityCalendar({
+            agents: [
+              {
+                ...lisbonAgent,
+                workingHours: [{ dayOfWeek: 1, start: '12:00', end: '09:00' }],
+              },
+            ],
+          })
+      ).toThrow('must end after they start');
+      expect(
+        () =>
+          new AvailabilityCalendar({
+            agents: [{ ...lisbonAgent, timezone: 'Mars/Olympus_Mons' }],
+          })
+      ).toThrow(RangeError);
+    });
+  });
+
+  describe('findConflicts', () => {
+    const existing: BusyPeriod = {
+      appointmentId: 'apt-1',
+      leadId: 'lead-1',
+      agentId: 'agent-lisbon',
+      start: new Date('2024-07-01T08:00:00.000Z'),
+      end: new Date('2024-07-01T09:00:00.000Z'),
+    };
+
+    it('should detect overlaps within the buffer time', () => {
+      const calendar = createCalendar();
+
+      const conflicts = calendar.findConflicts(
+        {
+          leadId: 'lead-2',
+          agentId: 'agent-lisbon',
+          start: new Date('2024-07-01T09:10:00.000Z'),
+          end: new Date('2024-07-01T10:10:00.000Z'),
+        },
+        [existing]
+      );
+
+      expect(conflicts).toEqual([existing]);
+    });
+
+    it('should allow appointments that respect the buffer time', () => {
+      const calendar = createCalendar();
+
+      expect(
+        calendar.findConflicts(
+          {
+            leadId: 'lead-1',
+            agentId: 'agent-lisbon',
+            start: new Date('2024-07-01T09:15:00.000Z'),
+            end: new Date('2024-07-01T10:15:00.000Z'),
+          },
+          [existing]
+        )
+      ).toEqual([]);
+    });
+
+    it('should ignore other leads and agents and the appointment itself', () => {
+      const calendar = createCalendar();
+      const period = {
+        leadId: 'lead-2',
+        agentId: 'agent-sao-paulo',
+        start: existing.start,
+        end: existing.end,
+      };
+
+      expect(calendar.findConflicts(period, [existing])).toEqual([]);
+      expect(
+        calendar.findConflicts(
+          { ...existing, appointmentId: 'apt-1', start: existing.end },
+          [existing]
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('imported busy blocks', () => {
+    it('should block the agent during imported events', () => {
+      const calendar = createCalendar();
+      calendar.importBusyBlocks('agent-lisbon', [
+        {
+          start: new Date('2024-07-01T08:00:00.000Z'),
+          end: new Date('2024-07-01T09:00:00.000Z'),
+        },
+      ]);
+
+      const slots = calendar.findSlots({
+        leadId: 'lead-1',
+        durationMinutes: 60,
+        range: { start: range.start, end: new Date('2024-07-02T00:00:00.000Z') },
+        busy: [],
+        agentIds: ['agent-lisbon'],
+      });
+
+      // The 09:00 slot falls within the buffer after the imported event
+      expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2024-07-01T10:00:00.000Z',
+      ]);
+      expect(
+        calendar.findConflicts(
+          {
+            leadId: 'lead-1',
+            start: new Date('2024-07-01T08:00:00.000Z'),
+            end: new Date('2024-07-01T09:00:00.000Z'),
+          },
+          []
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('findSlots', () => {
+    it('should list free slots across agents, earliest first', () => {
+      const calendar = createCalendar();
+
+      const slots = calendar.findSlots({
+        leadId: 'lead-1',
+        durationMinutes: 60,
+        range,
+        busy: [],
+      });
+
+      // Lisbon: 3 slots on each of 3 days; Sao Paulo: 1 slot on 2 days
+      expect(slots).toHaveLength(11);
+      expect(slots[0]).toEqual({
+        agentId: 'agent-lisbon',
+        start: new Date('2024-07-01T08:00:00.000Z'),
+        end: new Date('2024-07-01T09:00:00.000Z'),
+      });
+      expect(
+        slots
+          .filter((slot) => slot.agentId === 'agent-sao-paulo')
+          .map((slot) => slot.start.toISOString())
+      ).toEqual(['2024-07-01T12:00:00.000Z', '2024-07-03T12:00:00.000Z']);
+    });
+
+    it('should skip slots clashing with the agent or the lead', () => {
+      const calendar = createCalendar();
+
+      const slots = calendar.findSlots({
+        leadId: 'lead-1',
+        durationMinutes: 60,
+        range: { start: range.start, end: new Date('2024-07-02T00:00:00.000Z') },
+        busy: [
+          {
+            leadId: 'lead-2',
+            agentId: 'agent-lisbon',
+            start: new Date('2024-07-01T08:00:00.000Z'),
+            end: new Date('2024-07-01T09:00:00.000Z'),
+          },
+          {
+            leadId: 'lead-1',
+            agentId: 'agent-other',
+            start: new Date('2024-07-01T12:00:00.000Z'),
+            end: new Date('2024-07-01T12:30:00.000Z'),
+          },
+        ],
+      });
+
+      expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2024-07-01T10:00:00.000Z',
+      ]);
+    });
+
+    it('should only offer configured start times and honour the limit', () => {
+      const calendar = new AvailabilityCalendar({
+        agents: [lisbonAgent],
+        slotStartTimes: ['09:00', '11:00', '11:30'],
+      });
+
+      const slots = calendar.findSlots({
+        leadId: 'lead-1',
+        durationMinutes: 45,
+        range,
+        busy: [],
+        limit: 4,
+      });
+
+      expect(slots.map((slot) => slot.start.toISOString())).toEqual([
+        '2024-07-01T08:00:00.000Z',
+        '2024-07-01T10:00:00.000Z',
+        '2024-07-02T08:00:00.000Z',
+        '2024-07-02T10:00:00.000Z',
+      ]);
+    });
+
+    it('should reject empty or oversized ranges', () => {
+      const calendar = createCalendar();
+
+      expect(() =>
+        calendar.findSlots({
+          leadId: 'lead-1',
+          durationMinutes: 60,
+          range: { start: range.end, end: range.start },
+          busy: [],
+        })
+      ).toThrow('must end after it starts');
+      expect(() =>
+        calendar.findSlots({
+          leadId: 'lead-1',
+          durationMinutes: 60,
+          range: {
+            start: range.start,
+            end: new Date('2024-12-31T00:00:00.000Z'),
+          },
+          busy: [],
+        })
+      ).toThrow('cannot exceed');
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appointmentUid,
+  createAppointmentAttachment,
+  createAppointmentEvent,
+  createCalendar,
+  parseBusyBlocks,
+} from '../ics';
+import { Appointment } from '../../types/appointment';
+
+const appointment: Appointment = {
+  id: '3f1e2d4c-5b6a-4789-8abc-def012345678',
+  leadId: '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f',
+  type: 'site_visit',
+  status: 'scheduled',
+  scheduledAt: new Date('2024-07-01T14:00:00.000Z'),
+  duration: 90,
+  location: 'Rua Augusta, 100; Lisboa',
+  confirmationSent: false,
+  remindersSent: 0,
+  sequence: 2,
+  createdAt: new Date('2024-06-01T10:00:00.000Z'),
+  updatedAt: new Date('2024-06-02T10:00:00.000Z'),
+};
+
+describe('iCalendar', () => {
+  describe('createAppointmentEvent', () => {
+    it('should describe the appointment in UTC with its sequence', () => {
+      const event = createAppointmentEvent(appointment, {
+        now: new Date('2024-06-03T08:00:00.000Z'),
+      });
+
+      expect(event).toEqual(
+        expect.arrayContaining([
+          `UID:${appointmentUid(appointment.id)}`,
+          'DTSTAMP:20240603T080000Z',
+          'SEQUENCE:2',
+          'DTSTART:20240701T140000Z',
+          'DTEND:20240701T153000Z',
+          'SUMMARY:Property viewing',
+          'STATUS:TENTATIVE',
+          'LOCATION:Rua Augusta\\, 100\\; Lisboa',
+        ])
+      );
+      expect(event[0]).toBe('BEGIN:VEVENT');
+      expect(event[event.length - 1]).toBe('END:VEVENT');
+    });
+
+    it('should add alarms for pending reminders only', () => {
+      const event = createAppointmentEvent(appointment, {
+        reminders: [
+          {
+            id: 'r1',
+            type: 'email',
+            scheduledAt: new Date('2024-06-30T14:00:00.000Z'),
+            status: 'pending',
+            content: 'Tomorrow',
+          },
+          {
+            id: 'r2',
+            type: 'sms',
+            scheduledAt: new Date('2024-07-01T12:30:00.000Z'),
+            status: 'pending',
+            content: 'Soon',
+          },
+          {
+            id: 'r3',
+            type: 'sms',
+            scheduledAt: new Date('2024-07-01T13:00:00.000Z'),
+            status: 'sent',
+            content: 'Already sent',
+          },
+        ],
+      });
+
+      expect(event.filter((line) => line.startsWith('TRIGGER:'))).toEqual([
+        'TRIGGER:-P1D',
+        'TRIGGER:-PT1H30M',
+      ]);
+    });
+
+    it('should mark cancellations and drop their alarms', () => {
+      const attachment = createAppointmentAttachment(appointment, 'CANCEL', {
+        reminders: [
+          {
+            id: 'r1',
+            type: 'email',
+            scheduledAt: new Date('2024-06-30T14:00:00.000Z'),
+            status: 'pending',
+            content: 'Tomorrow',
+          },
+        ],
+      });
+
+      expect(attachment.contentType).toBe(
+        'text/calendar; charset=utf-8; method=CANCEL'
+      );
+      expect(attachment.content).toContain('METHOD:CANCEL');
+      expect(attachment.content).toContain('STATUS:CANCELLED');
+      expect(attachment.content).not.toContain('BEGIN:VALARM');
+    });
+  });
+
+  describe('createCalendar', () => {
+    it('should use CRLF line endings and fold long lines', () => {
+      const calendar = createCalendar(
+        [createAppointmentEvent({ ...appointment, notes: 'á'.repeat(80) })],
+        'REQUEST'
+      );
+      const lines = calendar.split('\r\n');
+
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+      expect(lines.some((line) => line.startsWith(' '))).toBe(true);
+    });
+  });
+
+  describe('parseBusyBlocks', () => {
+    it('should read back the events it generates', () => {
+      const calendar = createCalendar([createAppointmentEvent(appointment)]);
+
+      expect(parseBusyBlocks(calendar)).toEqual([
+        {
+          start: new Date('2024-07-01T14:00:00.000Z'),
+          end: new Date('2024-07-01T15:30:00.000Z'),
+          uid: appointmentUid(appointment.id),
+          summary: 'Property viewing',
+        },
+      ]);
+    });
+
+    it('should handle timezones, durations, all-day and free events', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'DTSTART;TZID=America/Sao_Paulo:20240701T090000',
+        'DURATION:PT1H30M',
+        'SUMMARY:Dentist\\, downtown',
+        'BEGIN:VALARM',
+        'TRIGGER:-PT15M',
+        'DESCRIPTION:Alarm',
+        'END:VALARM',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART;VALUE=DATE:20240704',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20240705T100000Z',
+        'DTEND:20240705T110000Z',
+        'TRANSP:TRANSPARENT',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'DTSTART:20240706T100000Z',
+        'DTEND:20240706T110000Z',
+        'STATUS:CANCELLED',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n');
+
+      expect(parseBusyBlocks(ics)).toEqual([
+        {
+          start: new Date('2024-07-01T12:00:00.000Z'),
+          end: new Date('2024-07-01T13:30:00.000Z'),
+          uid: undefined,
+          summary: 'Dentist, downtown',
+        },
+        {
+          start: new Date('2024-07-04T00:00:00.000Z'),
+          end: new Date('2024-07-05T00:00:00.000Z'),
+          uid: undefined,
+          summary: undefined,
+        },
+      ]);
+    });
+
+    it('should block every occurrence of recurring events', () => {
+      const ics = [
+        'BEGIN:VCALENDAR',
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'DTSTART;TZID=America/New_York:20240304T090000',
+        'DTEND;TZID=America/New_York:20240304T093000',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5',
+        'EXDATE;TZID=America/New_York:20240306T090000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:standup',
+        'RECURRENCE-ID;TZID=America/New_York:20240311T090000',
+        'DTSTART;TZID=America/New_York:20240311T110000',
+        'DTEND;TZID=America/New_York:20240311T113000',
+        'END:VEVENT',
+        'BEGIN:VEVENT',
+        'UID:review',
+        'DTSTART:20240101T150000Z',
+        'DURATION:PT1H',
+        'RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;UNTIL=20240601T000000Z',
+        'END:VEVENT',
+        'END:VCALENDAR',
+      ].join('\n');
+
+      const blocks = parseBusyBlocks(ics, {
+        from: new Date('2024-03-01T00:00:00.000Z'),
+        until: new Date('2024-12-31T00:00:00.000Z'),
+      });
+
+      // The weekly stand-up stays at 09:00 local across the DST change
+      // of March 10; the second occurrence is excluded and the fourth moved
+      expect(blocks.map((block) => [block.uid, block.start.toISOString()]))
+        .toEqual([
+          ['standup', '2024-03-04T14:00:00.000Z'],
+          ['standup', '2024-03-13T13:00:00.000Z'],
+          ['standup', '2024-03-18T13:00:00.000Z'],
+          ['standup', '2024-03-11T15:00:00.000Z'],
+          ['review', '2024-03-29T15:00:00.000Z'],
+          ['review', '2024-05-31T15:00:00.000Z'],
+        ]);
+      expect(blocks[0].end).toEqual(new Date('2024-03-04T14:30:00.000Z'));
+    });
+
+    it('should expand open-ended rules up to the horizon only', () => {
+      const ics = [
+        'BEGIN:VEVENT',
+        'DTSTART:20240101T120000Z',
+        'DTEND:20240101T130000Z',
+        'RRULE:FREQ=DAILY',
+        'END:VEVENT',
+      ].join('\n');
+
+      const blocks = parseBusyBlocks(ics, {
+        from: new Date('2024-06-01T00:00:00.000Z'),
+        until: new Date('2024-06-08T00:00:00.000Z'),
+      });
+
+      expect(blocks).toHaveLength(7);
+      expect(blocks[0].start).toEqual(new Date('2024-06-01T12:00:00.000Z'));
+    });
+
+    it('should reject recurrence rules it cannot expand', () => {
+      expect(() =>
+        parseBusyBlocks(
+          [
+            'BEGIN:VEVENT',
+            'DTSTART:20240101T120000Z',
+            'DURATION:PT1H',
+            'RRULE:FREQ=MONTHLY;BYSETPOS=-1;BYDAY=MO,TU,WE,TH,FR',
+            'END:VEVENT',
+          ].join('\n')
+        )
+      ).toThrow('Unsupported iCalendar recurrence rule');
+    });
+
+    it('should reject malformed dates', () => {
+      expect(() =>
+        parseBusyBlocks('BEGIN:VEVENT\nDTSTART:July 1st\nEND:VEVENT')
+      ).toThrow('Invalid iCalendar date');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { SendWindowScheduler } from '../send-window';
+
+const NEW_YORK = 'America/New_York';
+const SAO_PAULO = 'America/Sao_Paulo';
+
+describe('SendWindowScheduler', () => {
+  const scheduler = new SendWindowScheduler();
+
+  describe('resolveRegion', () => {
+    it('should find the region of a phone number', () => {
+      expect(scheduler.resolveRegion({ phone: '+1 212 555 0100' })).toBe('US');
+      expect(scheduler.resolveRegion({ phone: '+1 305 555 0100' })).toBe('US-FL');
+      expect(scheduler.resolveRegion({ phone: '(918) 555-0100' })).toBe('US-OK');
+      expect(scheduler.resolveRegion({ phone: '+55 11 91234 5678' })).toBe('BR');
+      expect(scheduler.resolveRegion({ phone: '+44 20 7946 0000' })).toBe('default');
+      expect(scheduler.resolveRegion({})).toBe('default');
+    });
+
+    it('should prefer an explicit region', () => {
+      expect(
+        scheduler.resolveRegion({ phone: '+1 212 555 0100', region: 'BR' })
+      ).toBe('BR');
+    });
+  });
+
+  describe('check', () => {
+    it('should apply quiet hours in the lead timezone', () => {
+      // Wednesday 22:00 in New York, 03:00 UTC on Thursday
+      const decision = scheduler.check(
+        { timezone: NEW_YORK, phone: '+1 212 555 0100' },
+        new Date('2026-01-15T03:00:00.000Z')
+      );
+
+      expect(decision).toEqual({
+        allowed: false,
+        reason: 'Within quiet hours for US',
+        nextAllowedTime: new Date('2026-01-15T13:00:00.000Z'),
+      });
+    });
+
+    it('should allow messages inside the window', () => {
+      expect(
+        scheduler.check(
+          { timezone: NEW_YORK },
+          new Date('2026-01-14T15:00:00.000Z')
+        )
+      ).toEqual({ allowed: true });
+    });
+
+    it('should apply stricter state rules', () => {
+      // 20:30 in New York
+      const at = new Date('2026-01-15T01:30:00.000Z');
+
+      expect(
+        scheduler.check({ timezone: NEW_YORK, phone: '+1 212 555 0100' }, at)
+          .allowed
+      ).toBe(true);
+      expect(
+        scheduler.check({ timezone: NEW_YORK, phone: '+1 305 555 0100' }, at)
+      ).toMatchObject({
+        allowed: false,
+        reason: 'Within quiet hours for US-FL',
+      });
+    });
+
+    it('should skip days without a window', () => {
+      // Saturday 17:00 in São Paulo, after the Saturday window closed
+      const decision = scheduler.check(
+        { timezone: SAO_PAULO, phone: '+55 11 91234 5678' },
+        new Date('2026-01-17T20:00:00.000Z')
+      );
+
+      // Monday 09:00 in São Paulo
+      expect(decision.nextAllowedTime).toEqual(
+        new Date('2026-01-19T12:00:00.000Z')
+      );
+    });
+
+    it('should use the timezones of the region when the lead has none', () => {
+      // 08:00 in São Paulo but 07:00 in Manaus and 06:00 in Rio Branco
+      const at = new Date('2026-01-14T11:00:00.000Z');
+
+      // UTC is the lead schema's default, not where the lead is
+      for (const timezone of [undefined, 'UTC']) {
+        expect(
+          scheduler.check({ timezone, phone: '+55 11 91234 5678' }, at)
+        ).toEqual({
+          allowed: false,
+          reason: 'Within quiet hours for BR',
+          // 09:00 in Rio Branco, the last of the zones to open
+          nextAllowedTime: new Date('2026-01-14T14:00:00.000Z'),
+        });
+      }
+    });
+
+    it('should refuse leads whose timezone is unknown', () => {
+      expect(
+        scheduler.check({ phone: '+44 20 7946 0000' }, new Date())
+      ).toEqual({ allowed: false, reason: 'Timezone of the lead is unknown' });
+    });
+
+    it('should respect preferred contact hours', () => {
+      const decision = scheduler.check(
+        { timezone: 'UTC', preferredHours: { startHour: 18, endHour: 19 } },
+        new Date('2026-01-14T10:00:00.000Z')
+      );
+
+      expect(decision).toEqual({
+        allowed: false,
+        reason: 'Outside of preferred contact hours',
+        nextAllowedTime: new Date('2026-01-14T18:00:00.000Z'),
+      });
+    });
+  });
+
+  describe('nextAllowedTime', () => {
+    it('should intersect overnight preferences with the legal window', () => {
+      expect(
+        scheduler.nextAllowedTime(
+          { timezone: 'UTC', preferredHours: { startHour: 20, endHour: 9 } },
+          new Date('2026-01-14T12:00:00.000Z')
+        )
+      ).toEqual(new Date('2026-01-14T20:00:00.000Z'));
+    });
+
+    it('should ignore preferences that never overlap the legal window', () => {
+      const at = new Date('2026-01-14T12:00:00.000Z');
+
+      expect(
+        scheduler.nextAllowedTime(
+          { timezone: 'UTC', preferredHours: { startHour: 1, endHour: 3 } },
+          at
+        )
+      ).toEqual(at);
+    });
+
+    it('should read preferred hours in their own timezone', () => {
+      // 09:00-10:59 in New York is 14:00-16:00 UTC
+      expect(
+        scheduler.nextAllowedTime(
+          { preferredHours: { startHour: 9, endHour: 10, timezone: NEW_YORK } },
+          new Date('2026-01-14T10:00:00.000Z')
+        )
+      ).toEqual(new Date('2026-01-14T14:00:00.000Z'));
+    });
+  });
+
+  it('should reject windows that end before they start', () => {
+    expect(
+      () =>
+        new SendWindowScheduler({
+          default: [{ dayOfWeek: 1, start: '21:00', end: '08:00' }],
+        })
+    ).toThrow('Send window 21:00-08:00 of default must end after it starts');
+  });
+});
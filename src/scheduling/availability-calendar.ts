@@ -0,0 +1,354 @@
+import {
+  addDays,
+  dayOfWeek,
+  parseTimeOfDay,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from '../utils/timezone';
+
+/**
+ * Working window on one day of the week, in the agent's local time
+ */
+export interface WorkingHours {
+  dayOfWeek: number; // 0 = Sunday
+  start: string; // HH:mm
+  end: string; // HH:mm, 24:00 for end of day
+}
+
+/**
+ * Weekly working hours and days off of a human agent
+ */
+export interface AgentSchedule {
+  agentId: string;
+  timezone: string;
+  workingHours: WorkingHours[];
+  blackoutDates?: string[]; // YYYY-MM-DD in the agent's timezone
+}
+
+export interface AvailabilityConfig {
+  agents: AgentSchedule[];
+  holidays: string[]; // YYYY-MM-DD, closed for every agent in their own timezone
+  bufferMinutes: number; // minimum gap between two appointments
+  slotIntervalMinutes: number;
+  slotStartTimes?: string[]; // when set, only offer slots starting at these local times
+}
+
+/**
+ * Time already taken by an appointment, for the lead and (optionally) the
+ * agent attending it. Blocks imported from external calendars have no lead.
+ */
+export interface BusyPeriod {
+  appointmentId?: string;
+  leadId?: string;
+  agentId?: string;
+  start: Date;
+  end: Date;
+}
+
+export interface TimeRange {
+  start: Date;
+  end: Date;
+}
+
+export interface AvailableSlot {
+  agentId: string;
+  start: Date;
+  end: Date;
+}
+
+export interface SlotSearch {
+  leadId: string;
+  durationMinutes: number;
+  range: TimeRange;
+  busy: BusyPeriod[];
+  agentIds?: string[];
+  limit?: number;
+}
+
+const DEFAULT_AVAILABILITY_CONFIG: AvailabilityConfig = {
+  agents: [],
+  holidays: [],
+  bufferMinutes: 15,
+  slotIntervalMinutes: 30,
+};
+
+// Keeps slot searches bounded; callers page through longer periods
+export const MAX_SLOT_SEARCH_DAYS = 62;
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Availability Calendar - working hours, days off and double-booking rules
+ *
+ * Responsibilities:
+ * - Decide whether an agent works during a given period in their timezone
+ * - Detect overlaps with existing appointments, including buffer time
+ * - Enumerate free appointment slots across agents
+ * - Keep busy blocks imported from agents' external calendars
+ */
+export class AvailabilityCalendar {
+  private config: AvailabilityConfig;
+  private schedules: Map<string, AgentSchedule>;
+  private importedBusy: Map<string, BusyPeriod[]> = new Map();
+
+  constructor(config: Partial<AvailabilityConfig> = {}) {
+    this.config = { ...DEFAULT_AVAILABILITY_CONFIG, ...config };
+    this.schedules = new Map(
+      this.config.agents.map((schedule) => [schedule.agentId, schedule])
+    );
+    this.validateConfig();
+  }
+
+  get bufferMinutes(): number {
+    return this.config.bufferMinutes;
+  }
+
+  /**
+   * Ids of every agent with a schedule
+   */
+  getAgentIds(): string[] {
+    return Array.from(this.schedules.keys());
+  }
+
+  hasSchedule(agentId: string): boolean {
+    return this.schedules.has(agentId);
+  }
+
+  /**
+   * Replace the busy blocks imported for an agent, e.g. from an .ics file
+   */
+  importBusyBlocks(agentId: string, blocks: TimeRange[]): void {
+    this.importedBusy.set(
+      agentId,
+      blocks.map((block) => ({ agentId, start: block.start, end: block.end }))
+    );
+  }
+
+  getImportedBusyBlocks(agentId: string): BusyPeriod[] {
+    return this.importedBusy.get(agentId) ?? [];
+  }
+
+  /**
+   * Whether the agent works for the whole of the given period. Back-to-back
+   * windows, such as shifts running past midnight, count as one.
+   */
+  isWorking(agentId: string, start: Date, end: Date): boolean {
+    const schedule = this.schedules.get(agentId);
+    if (!schedule) return false;
+
+    const firstDate = addDays(toZonedDateString(start, schedule.timezone), -1);
+    const lastDate = toZonedDateString(end, schedule.timezone);
+
+    let covered = start.getTime();
+    for (const window of this.workingWindows(schedule, firstDate, lastDate)) {
+      if (window.start.getTime() > covered) break;
+      covered = Math.max(covered, window.end.getTime());
+      if (covered >= end.getTime()) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Busy periods that clash with the candidate. Periods clash when they
+   * share the lead or the agent and are closer than the buffer time. The
+   * agent's imported busy blocks are always taken into account.
+   */
+  findConflicts(candidate: BusyPeriod, busy: BusyPeriod[]): BusyPeriod[] {
+    const buffer = this.config.bufferMinutes * MINUTE_MS;
+    const periods = candidate.agentId
+      ? [...busy, ...this.getImportedBusyBlocks(candidate.agentId)]
+      : busy;
+
+    return periods.filter((period) => {
+      if (
+        candidate.appointmentId &&
+        period.appointmentId === candidate.appointmentId
+      ) {
+        return false;
+      }
+
+      const sharesLead =
+        period.leadId !== undefined && period.leadId === candidate.leadId;
+      const sharesAgent =
+        candidate.agentId !== undefined && period.agentId === candidate.agentId;
+      if (!sharesLead && !sharesAgent) return false;
+
+      return (
+        candidate.start.getTime() < period.end.getTime() + buffer &&
+        candidate.end.getTime() + buffer > period.start.getTime()
+      );
+    });
+  }
+
+  /**
+   * Free slots within the range, earliest first. Every slot lies inside
+   * the agent's working hours and clashes with neither the agent's nor the
+   * lead's existing appointments.
+   */
+  findSlots(search: SlotSearch): AvailableSlot[] {
+    const { range, durationMinutes } = search;
+    if (range.end <= range.start) {
+      throw new Error('Availability range must end after it starts');
+    }
+    if (
+      range.end.getTime() - range.start.getTime() >
+      MAX_SLOT_SEARCH_DAYS * 24 * 60 * MINUTE_MS
+    ) {
+      throw new Error(
+        `Availability range cannot exceed ${MAX_SLOT_SEARCH_DAYS} days`
+      );
+    }
+
+    const agentIds = search.agentIds ?? this.getAgentIds();
+    const slots: AvailableSlot[] = [];
+
+    for (const agentId of agentIds) {
+      const schedule = this.schedules.get(agentId);
+      if (!schedule) continue;
+
+      for (const start of this.candidateStarts(schedule, range, durationMinutes)) {
+        const end = new Date(start.getTime() + durationMinutes * MINUTE_MS);
+        const conflicts = this.findConflicts(
+          { leadId: search.leadId, agentId, start, end },
+          search.busy
+        );
+        if (conflicts.length === 0) {
+          slots.push({ agentId, start, end });
+        }
+      }
+    }
+
+    slots.sort(
+      (a, b) =>
+        a.start.getTime() - b.start.getTime() ||
+        a.agentId.localeCompare(b.agentId)
+    );
+
+    return search.limit !== undefined ? slots.slice(0, search.limit) : slots;
+  }
+
+  /**
+   * Slot start times inside the agent's working windows and the range
+   */
+  private candidateStarts(
+    schedule: AgentSchedule,
+    range: TimeRange,
+    durationMinutes: number
+  ): Date[] {
+    const starts: Date[] = [];
+    const lastDate = toZonedDateString(range.end, schedule.timezone);
+
+    for (
+      let date = toZonedDateString(range.start, schedule.timezone);
+      date <= lastDate;
+      date = addDays(date, 1)
+    ) {
+      if (this.isDayOff(schedule, date)) continue;
+
+      for (const hours of schedule.workingHours) {
+        if (hours.dayOfWeek !== dayOfWeek(date)) continue;
+
+        const windowStart = parseTimeOfDay(hours.start);
+        const windowEnd = parseTimeOfDay(hours.end);
+        const offsets = this.config.slotStartTimes
+          ? this.config.slotStartTimes.map(parseTimeOfDay)
+          : this.intervalOffsets(windowStart, windowEnd);
+
+        for (const minutes of offsets) {
+          if (minutes < windowStart || minutes + durationMinutes > windowEnd) {
+            continue;
+          }
+
+          const start = zonedTimeToUtc(date, minutes, schedule.timezone);
+          const end = start.getTime() + durationMinutes * MINUTE_MS;
+          if (start >= range.start && end <= range.end.getTime()) {
+            starts.push(start);
+          }
+        }
+      }
+    }
+
+    return starts;
+  }
+
+  private intervalOffsets(windowStart: number, windowEnd: number): number[] {
+    const offsets: number[] = [];
+    for (
+      let minutes = windowStart;
+      minutes < windowEnd;
+      minutes += this.config.slotIntervalMinutes
+    ) {
+      offsets.push(minutes);
+    }
+    return offsets;
+  }
+
+  /**
+   * Working windows between two local dates (inclusive), earliest first
+   */
+  private workingWindows(
+    schedule: AgentSchedule,
+    firstDate: string,
+    lastDate: string
+  ): TimeRange[] {
+    const windows: TimeRange[] = [];
+
+    for (let date = firstDate; date <= lastDate; date = addDays(date, 1)) {
+      if (this.isDayOff(schedule, date)) continue;
+
+      for (const hours of schedule.workingHours) {
+        if (hours.dayOfWeek !== dayOfWeek(date)) continue;
+        windows.push({
+          start: zonedTimeToUtc(
+            date,
+            parseTimeOfDay(hours.start),
+            schedule.timezone
+          ),
+          end: zonedTimeToUtc(date, parseTimeOfDay(hours.end), schedule.timezone),
+        });
+      }
+    }
+
+    return windows.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  private isDayOff(schedule: AgentSchedule, date: string): boolean {
+    return (
+      this.config.holidays.includes(date) ||
+      (schedule.blackoutDates ?? []).includes(date)
+    );
+  }
+
+  private validateConfig(): void {
+    if (this.config.bufferMinutes < 0) {
+      throw new Error('Buffer time cannot be negative');
+    }
+    if (this.config.slotIntervalMinutes <= 0) {
+      throw new Error('Slot interval must be positive');
+    }
+
+    this.config.slotStartTimes?.forEach(parseTimeOfDay);
+
+    for (const schedule of this.config.agents) {
+      // Throws a RangeError for unknown timezones
+      new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+
+      for (const hours of schedule.workingHours) {
+        if (
+          !Number.isInteger(hours.dayOfWeek) ||
+          hours.dayOfWeek < 0 ||
+          hours.dayOfWeek > 6
+        ) {
+          throw new Error(
+            `Invalid day of week ${hours.dayOfWeek} for agent ${schedule.agentId}`
+          );
+        }
+        if (parseTimeOfDay(hours.start) >= parseTimeOfDay(hours.end)) {
+          throw new Error(
+            `Working hours for agent ${schedule.agentId} must end after they start`
+          );
+        }
+      }
+    }
+  }
+}
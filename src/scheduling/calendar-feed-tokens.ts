@@ -0,0 +1,43 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+/**
+ * Secret token in the address of an agent's calendar feed. Calendar apps
+ * cannot send credentials, so the address itself must not be guessable
+ * from the agent ID. Changing the secret revokes every feed address.
+ */
+export function createCalendarFeedToken(
+  agentId: string,
+  secret: string
+): string {
+  const payload = Buffer.from(agentId).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Agent of a feed token, or null when it is malformed or was not signed
+ * with the secret
+ */
+export function verifyCalendarFeedToken(
+  token: string,
+  secret: string
+): string | null {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const provided = Buffer.from(signature);
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    return null;
+  }
+
+  return Buffer.from(payload, 'base64url').toString() || null;
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', `calendar-feed:${secret}`)
+    .update(payload)
+    .digest('base64url');
+}
@@ -0,0 +1,700 @@
+import { Appointment } from '../types/appointment';
+import { Reminder } from '../types/workflow';
+import { TimeRange } from './availability-calendar';
+import {
+  addDays,
+  dayOfWeek,
+  getZonedDateTime,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from '../utils/timezone';
+
+/**
+ * iCalendar (RFC 5545) generation and parsing for appointments
+ */
+
+export type IcsMethod = 'PUBLISH' | 'REQUEST' | 'CANCEL';
+
+export interface IcsParticipant {
+  email: string;
+  name?: string;
+}
+
+export interface AppointmentEventOptions {
+  reminders?: Reminder[]; // pending reminders become VALARMs
+  organizer?: IcsParticipant;
+  attendee?: IcsParticipant;
+  cancelled?: boolean; // force STATUS:CANCELLED, as required by METHOD:CANCEL
+  now?: Date;
+}
+
+export interface IcsAttachment {
+  filename: string;
+  contentType: string;
+  content: string;
+}
+
+/**
+ * Busy block read from an imported calendar
+ */
+export interface IcsBusyBlock extends TimeRange {
+  uid?: string;
+  summary?: string;
+}
+
+const PRODUCT_ID = '-//Agentic Lead Management//Appointments//EN';
+const UID_DOMAIN = 'appointments.leads-exemplo';
+const MAX_LINE_OCTETS = 75;
+const CRLF = '\r\n';
+
+const APPOINTMENT_SUMMARIES: Record<Appointment['type'], string> = {
+  consultation: 'Consultation',
+  site_visit: 'Property viewing',
+  callback: 'Callback',
+  follow_up: 'Follow-up',
+};
+
+/**
+ * Stable iCalendar UID of an appointment, so updates replace the event
+ */
+export function appointmentUid(appointmentId: string): string {
+  return `${appointmentId}@${UID_DOMAIN}`;
+}
+
+/**
+ * VEVENT lines for an appointment
+ */
+export function createAppointmentEvent(
+  appointment: Appointment,
+  options: AppointmentEventOptions = {}
+): string[] {
+  const end = new Date(
+    appointment.scheduledAt.getTime() + appointment.duration * 60 * 1000
+  );
+  const cancelled = options.cancelled || appointment.status === 'cancelled';
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${appointmentUid(appointment.id)}`,
+    `DTSTAMP:${formatDateTime(options.now ?? new Date())}`,
+    `SEQUENCE:${appointment.sequence ?? 0}`,
+    `DTSTART:${formatDateTime(appointment.scheduledAt)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(APPOINTMENT_SUMMARIES[appointment.type])}`,
+    `STATUS:${cancelled ? 'CANCELLED' : appointment.status === 'confirmed' ? 'CONFIRMED' : 'TENTATIVE'}`,
+    `LAST-MODIFIED:${formatDateTime(appointment.updatedAt)}`,
+  ];
+
+  if (appointment.location) {
+    lines.push(`LOCATION:${escapeText(appointment.location)}`);
+  }
+  if (appointment.notes) {
+    lines.push(`DESCRIPTION:${escapeText(appointment.notes)}`);
+  }
+  if (options.organizer) {
+    lines.push(`ORGANIZER${participantParams(options.organizer)}:mailto:${options.organizer.email}`);
+  }
+  if (options.attendee) {
+    lines.push(
+      `ATTENDEE;ROLE=REQ-PARTICIPANT;RSVP=TRUE${participantParams(options.attendee)}:mailto:${options.attendee.email}`
+    );
+  }
+
+  if (!cancelled) {
+    for (const reminder of options.reminders ?? []) {
+      if (reminder.status !== 'pending') continue;
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${escapeText(reminder.content)}`,
+        `TRIGGER:${formatDuration(reminder.scheduledAt.getTime() - appointment.scheduledAt.getTime())}`,
+        'END:VALARM'
+      );
+    }
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Complete VCALENDAR document with CRLF line endings and folded lines
+ */
+export function createCalendar(
+  events: string[][],
+  method: IcsMethod = 'PUBLISH',
+  name?: string
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flat(),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
+
+/**
+ * Calendar for one appointment, ready to attach to an email
+ */
+export function createAppointmentAttachment(
+  appointment: Appointment,
+  method: Exclude<IcsMethod, 'PUBLISH'>,
+  options: AppointmentEventOptions = {}
+): IcsAttachment {
+  const event = createAppointmentEvent(appointment, {
+    ...options,
+    cancelled: method === 'CANCEL',
+  });
+
+  return {
+    filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+    content: createCalendar([event], method),
+  };
+}
+
+export interface BusyBlockParseOptions {
+  // Recurring events are expanded into the occurrences between these two
+  from?: Date; // defaults to now
+  until?: Date; // defaults to RECURRENCE_HORIZON_DAYS from now
+}
+
+// How far ahead recurring events are expanded; calendars are re-imported
+// well before then
+export const RECURRENCE_HORIZON_DAYS = 180;
+
+// Bounds the expansion of rules that never produce an occurrence
+const MAX_RECURRENCE_PERIODS = 50000;
+
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Busy blocks of an iCalendar document. Transparent and cancelled events
+ * are skipped; all-day events block the whole day in UTC. Recurring events
+ * block every occurrence in the expansion period, except those excluded
+ * with EXDATE or replaced by an event with a RECURRENCE-ID.
+ */
+export function parseBusyBlocks(
+  ics: string,
+  options: BusyBlockParseOptions = {}
+): IcsBusyBlock[] {
+  const from = options.from ?? new Date();
+  const until =
+    options.until ??
+    new Date(from.getTime() + RECURRENCE_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+  const events = parseEvents(ics);
+
+  // Instances moved or cancelled by a RECURRENCE-ID event, per UID
+  const overridden = new Map<string, Set<number>>();
+  for (const event of events) {
+    const uid = event.properties.get('UID')?.value;
+    const recurrenceId = event.properties.get('RECURRENCE-ID');
+    if (!uid || !recurrenceId) continue;
+
+    const instances = overridden.get(uid) ?? new Set<number>();
+    instances.add(parseDateValue(recurrenceId).getTime());
+    overridden.set(uid, instances);
+  }
+
+  const blocks: IcsBusyBlock[] = [];
+  for (const event of events) {
+    const block = toBusyBlock(event.properties);
+    if (!block) continue;
+
+    const rrule = event.properties.get('RRULE');
+    if (!rrule || event.properties.has('RECURRENCE-ID')) {
+      blocks.push(block);
+      continue;
+    }
+
+    const excluded = new Set(overridden.get(block.uid ?? '') ?? []);
+    for (const exdate of event.exdates) {
+      for (const value of exdate.value.split(',')) {
+        excluded.add(parseDateValue({ ...exdate, value }).getTime());
+      }
+    }
+
+    const duration = block.end.getTime() - block.start.getTime();
+    for (const start of expandRecurrence(
+      event.properties.get('DTSTART')!,
+      rrule.value,
+      until
+    )) {
+      const end = new Date(start.getTime() + duration);
+      if (end <= from || excluded.has(start.getTime())) continue;
+      blocks.push({ ...block, start, end });
+    }
+  }
+
+  return blocks;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface IcsEvent {
+  properties: Map<string, ContentLine>;
+  exdates: ContentLine[]; // EXDATE may appear several times
+}
+
+function parseEvents(ics: string): IcsEvent[] {
+  const events: IcsEvent[] = [];
+  let event: IcsEvent | null = null;
+  let depth = 0;
+
+  for (const line of unfoldLines(ics)) {
+    const contentLine = parseContentLine(line);
+    if (!contentLine) continue;
+
+    if (contentLine.name === 'BEGIN') {
+      if (contentLine.value === 'VEVENT') {
+        event = { properties: new Map(), exdates: [] };
+        depth = 0;
+      } else if (event) {
+        depth++;
+      }
+      continue;
+    }
+    if (contentLine.name === 'END') {
+      if (contentLine.value === 'VEVENT' && event) {
+        events.push(event);
+        event = null;
+      } else if (event) {
+        depth--;
+      }
+      continue;
+    }
+
+    // Properties of nested components (VALARM) do not describe the event
+    if (!event || depth !== 0) continue;
+    if (contentLine.name === 'EXDATE') {
+      event.exdates.push(contentLine);
+    } else if (!event.properties.has(contentLine.name)) {
+      event.properties.set(contentLine.name, contentLine);
+    }
+  }
+
+  return events;
+}
+
+function toBusyBlock(event: Map<string, ContentLine>): IcsBusyBlock | null {
+  const dtstart = event.get('DTSTART');
+  if (!dtstart) return null;
+  if (event.get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT') return null;
+  if (event.get('STATUS')?.value.toUpperCase() === 'CANCELLED') return null;
+
+  const start = parseDateValue(dtstart);
+  const dtend = event.get('DTEND');
+  const duration = event.get('DURATION');
+
+  let end: Date;
+  if (dtend) {
+    end = parseDateValue(dtend);
+  } else if (duration) {
+    end = new Date(start.getTime() + parseDuration(duration.value));
+  } else {
+    // A date-only start lasts one day, a date-time start has no duration
+    const allDay = isDateOnly(dtstart);
+    end = new Date(start.getTime() + (allDay ? 24 * 60 * 60 * 1000 : 0));
+  }
+  if (end <= start) return null;
+
+  return {
+    start,
+    end,
+    uid: event.get('UID')?.value,
+    summary: event.has('SUMMARY')
+      ? unescapeText(event.get('SUMMARY')!.value)
+      : undefined,
+  };
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: ContentLine;
+  byDay?: Array<{ ordinal?: number; weekday: number }>;
+  byMonthDay?: number[];
+}
+
+/**
+ * Start times of the occurrences of a recurring event up to the horizon,
+ * the first being DTSTART itself. Occurrences repeat on the wall clock of
+ * the event's timezone, so they keep their local time across DST changes.
+ */
+function expandRecurrence(
+  dtstart: ContentLine,
+  rrule: string,
+  horizon: Date
+): Date[] {
+  const rule = parseRecurrenceRule(rrule, dtstart);
+  const first = parseDateValue(dtstart);
+  const until = rule.until ? parseDateValue(rule.until) : undefined;
+
+  // Local date and time of the first occurrence
+  const timeZone =
+    isDateOnly(dtstart) || dtstart.value.endsWith('Z') || !dtstart.params.TZID
+      ? 'UTC'
+      : dtstart.params.TZID;
+  const firstDate = toZonedDateString(first, timeZone);
+  const local = getZonedDateTime(first, timeZone);
+  const minutes = local.hour * 60 + local.minute;
+
+  const starts: Date[] = [];
+  let occurrences = 0;
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    const dates = recurrenceDates(rule, firstDate, period * rule.interval);
+    if (dates.length > 0 && zonedTimeToUtc(dates[0], 0, timeZone) > horizon) {
+      break;
+    }
+
+    for (const date of dates) {
+      if (date < firstDate) continue;
+
+      const start = new Date(
+        zonedTimeToUtc(date, minutes, timeZone).getTime() + local.second * 1000
+      );
+      if ((until && start > until) || start > horizon) return starts;
+      if (rule.count !== undefined && occurrences >= rule.count) return starts;
+
+      occurrences++;
+      starts.push(start);
+    }
+  }
+  return starts;
+}
+
+/**
+ * Candidate local dates of one period of the rule, in order. The period is
+ * the day, week (starting Monday), month or year `offset` intervals after
+ * the first occurrence's.
+ */
+function recurrenceDates(
+  rule: RecurrenceRule,
+  firstDate: string,
+  offset: number
+): string[] {
+  const [year, month, day] = firstDate.split('-').map(Number);
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return [addDays(firstDate, offset)];
+    case 'WEEKLY': {
+      const monday = addDays(
+        firstDate,
+        offset * 7 - ((dayOfWeek(firstDate) + 6) % 7)
+      );
+      const weekdays = rule.byDay?.map((byDay) => byDay.weekday) ?? [
+        dayOfWeek(firstDate),
+      ];
+      return weekdays
+        .map((weekday) => addDays(monday, (weekday + 6) % 7))
+        .sort();
+    }
+    case 'MONTHLY': {
+      const monthStart = new Date(Date.UTC(year, month - 1 + offset, 1));
+      return monthDates(
+        monthStart.getUTCFullYear(),
+        monthStart.getUTCMonth() + 1,
+        rule,
+        day
+      );
+    }
+    case 'YEARLY':
+      return monthDates(year + offset, month, { ...rule, byDay: undefined }, day);
+  }
+}
+
+/**
+ * Dates of a month selected by BYDAY or BYMONTHDAY, or its `day`-th day.
+ * Days the month does not have are skipped.
+ */
+function monthDates(
+  year: number,
+  month: number,
+  rule: Pick<RecurrenceRule, 'byDay' | 'byMonthDay'>,
+  day: number
+): string[] {
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const dateOf = (monthDay: number) =>
+    `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(
+      monthDay
+    ).padStart(2, '0')}`;
+
+  const days = new Set<number>();
+  if (rule.byDay) {
+    const firstWeekday = dayOfWeek(dateOf(1));
+    for (const { ordinal, weekday } of rule.byDay) {
+      const matching: number[] = [];
+      for (
+        let monthDay = 1 + ((weekday - firstWeekday + 7) % 7);
+        monthDay <= daysInMonth;
+        monthDay += 7
+      ) {
+        matching.push(monthDay);
+      }
+      if (ordinal === undefined) {
+        matching.forEach((monthDay) => days.add(monthDay));
+      } else {
+        const index = ordinal > 0 ? ordinal - 1 : matching.length + ordinal;
+        if (matching[index] !== undefined) days.add(matching[index]);
+      }
+    }
+  } else {
+    for (const monthDay of rule.byMonthDay ?? [day]) {
+      const resolved = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1;
+      if (resolved >= 1 && resolved <= daysInMonth) days.add(resolved);
+    }
+  }
+
+  return [...days].sort((a, b) => a - b).map(dateOf);
+}
+
+/**
+ * Parts of an RRULE this parser expands. Rules using other parts are
+ * rejected rather than expanded into the wrong occurrences.
+ */
+function parseRecurrenceRule(
+  value: string,
+  dtstart: ContentLine
+): RecurrenceRule {
+  const unsupported = () =>
+    new Error(`Unsupported iCalendar recurrence rule "${value}"`);
+  const parts = new Map(
+    value.split(';').map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=').toUpperCase()] as const;
+    })
+  );
+
+  const freq = parts.get('FREQ');
+  if (
+    freq !== 'DAILY' &&
+    freq !== 'WEEKLY' &&
+    freq !== 'MONTHLY' &&
+    freq !== 'YEARLY'
+  ) {
+    throw unsupported();
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1 };
+  for (const [key, part] of parts) {
+    switch (key) {
+      case 'FREQ':
+      case 'WKST':
+        break;
+      case 'INTERVAL':
+      case 'COUNT': {
+        const number = Number(part);
+        if (!Number.isInteger(number) || number < 1) throw unsupported();
+        if (key === 'INTERVAL') rule.interval = number;
+        else rule.count = number;
+        break;
+      }
+      case 'UNTIL':
+        // A local UNTIL is in the timezone of DTSTART
+        rule.until = { name: 'UNTIL', params: dtstart.params, value: part };
+        break;
+      case 'BYDAY':
+        rule.byDay = part.split(',').map((byDay) => {
+          const match = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/.exec(byDay);
+          if (!match) throw unsupported();
+          return {
+            ordinal: match[1] === undefined ? undefined : Number(match[1]),
+            weekday: RRULE_WEEKDAYS.indexOf(match[2]),
+          };
+        });
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = part.split(',').map((monthDay) => {
+          const number = Number(monthDay);
+          if (!Number.isInteger(number) || number === 0 || Math.abs(number) > 31) {
+            throw unsupported();
+          }
+          return number;
+        });
+        break;
+      default:
+        throw unsupported();
+    }
+  }
+
+  if (
+    (rule.byDay && rule.freq !== 'WEEKLY' && rule.freq !== 'MONTHLY') ||
+    (rule.byDay?.some((byDay) => byDay.ordinal !== undefined) &&
+      rule.freq !== 'MONTHLY') ||
+    (rule.byMonthDay && rule.freq !== 'MONTHLY') ||
+    (rule.byDay && rule.byMonthDay)
+  ) {
+    throw unsupported();
+  }
+  return rule;
+}
+
+function isDateOnly(line: ContentLine): boolean {
+  return line.params.VALUE === 'DATE' || /^\d{8}$/.test(line.value);
+}
+
+function parseDateValue(line: ContentLine): Date {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    line.value
+  );
+  if (!match) {
+    throw new Error(`Invalid iCalendar date "${line.value}"`);
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) {
+    return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  }
+  if (utc || !line.params.TZID) {
+    // Floating times are read as UTC
+    return new Date(
+      Date.UTC(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hour),
+        Number(minute),
+        Number(second)
+      )
+    );
+  }
+
+  const local = zonedTimeToUtc(
+    `${year}-${month}-${day}`,
+    Number(hour) * 60 + Number(minute),
+    line.params.TZID
+  );
+  return new Date(local.getTime() + Number(second) * 1000);
+}
+
+/**
+ * Milliseconds of an iCalendar duration such as PT1H30M or -P1D
+ */
+function parseDuration(value: string): number {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value
+    );
+  if (!match) {
+    throw new Error(`Invalid iCalendar duration "${value}"`);
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const total =
+    ((Number(weeks ?? 0) * 7 + Number(days ?? 0)) * 24 * 60 * 60 +
+      Number(hours ?? 0) * 60 * 60 +
+      Number(minutes ?? 0) * 60 +
+      Number(seconds ?? 0)) *
+    1000;
+  return sign === '-' ? -total : total;
+}
+
+function formatDuration(ms: number): string {
+  const sign = ms < 0 ? '-' : '';
+  let minutes = Math.round(Math.abs(ms) / 60000);
+
+  const days = Math.floor(minutes / (24 * 60));
+  minutes -= days * 24 * 60;
+  const hours = Math.floor(minutes / 60);
+  minutes -= hours * 60;
+
+  let time = '';
+  if (hours) time += `${hours}H`;
+  if (minutes) time += `${minutes}M`;
+  if (!days && !time) time = '0M';
+
+  return `${sign}P${days ? `${days}D` : ''}${time ? `T${time}` : ''}`;
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function participantParams(participant: IcsParticipant): string {
+  return participant.name ? `;CN="${participant.name.replace(/"/g, "'")}"` : '';
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char
+  );
+}
+
+/**
+ * Split lines longer than 75 octets, continuing with a leading space.
+ * Multi-byte characters are never split.
+ */
+function foldLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let limit = MAX_LINE_OCTETS;
+
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = '';
+      limit = MAX_LINE_OCTETS - 1; // room for the leading space
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  return parts.join(`${CRLF} `);
+}
+
+function unfoldLines(ics: string): string[] {
+  return ics
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.trim().length > 0);
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  // The value starts after the first colon outside quoted parameter values
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, separator).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...value] = param.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(separator + 1).trim(),
+  };
+}
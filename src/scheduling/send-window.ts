@@ -0,0 +1,327 @@
+import { WorkingHours } from './availability-calendar';
+import {
+  addDays,
+  dayOfWeek,
+  getZonedDateTime,
+  parseTimeOfDay,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from '../utils/timezone';
+
+/**
+ * Hours a lead asked to be contacted in, as stored in their communication
+ * preferences. Both hours are inclusive; start > end spans midnight.
+ */
+export interface PreferredHours {
+  startHour: number;
+  endHour: number;
+  timezone?: string; // defaults to the lead's timezone
+}
+
+/**
+ * Who a message goes to, as far as send windows are concerned
+ */
+export interface SendWindowTarget {
+  timezone?: string; // lead's IANA timezone; see REGION_TIMEZONES when unknown
+  phone?: string; // E.164 number, used to find the legal region
+  region?: string; // e.g. "US-FL"; overrides the region of the phone number
+  preferredHours?: PreferredHours;
+}
+
+export interface SendWindowDecision {
+  allowed: boolean;
+  reason?: string;
+  nextAllowedTime?: Date;
+}
+
+const EVERY_DAY = [0, 1, 2, 3, 4, 5, 6];
+
+const everyDay = (start: string, end: string): WorkingHours[] =>
+  EVERY_DAY.map((day) => ({ dayOfWeek: day, start, end }));
+
+/**
+ * Hours in which messages may legally be sent, in the lead's local time.
+ * `default` applies to leads whose region is unknown.
+ */
+export const LEGAL_SEND_WINDOWS: Record<string, WorkingHours[]> = {
+  default: everyDay('08:00', '21:00'),
+  US: everyDay('08:00', '21:00'), // TCPA
+  'US-FL': everyDay('08:00', '20:00'), // Florida Telephone Solicitation Act
+  'US-OK': everyDay('08:00', '20:00'), // Oklahoma Telephone Solicitation Act
+  // Telemarketing self-regulation: weekdays 9-21, Saturdays 10-16, never on Sundays
+  BR: [
+    ...[1, 2, 3, 4, 5].map((day) => ({
+      dayOfWeek: day,
+      start: '09:00',
+      end: '21:00',
+    })),
+    { dayOfWeek: 6, start: '10:00', end: '16:00' },
+  ],
+};
+
+/**
+ * Timezones a lead of the region may be in, used when the lead's own
+ * timezone is unknown: a message then has to fall inside the window in
+ * every one of them. Leads without a timezone or a known region are not
+ * messaged at all.
+ */
+export const REGION_TIMEZONES: Record<string, string[]> = {
+  US: [
+    'America/New_York',
+    'America/Chicago',
+    'America/Denver',
+    'America/Phoenix',
+    'America/Los_Angeles',
+    'America/Anchorage',
+    'Pacific/Honolulu',
+  ],
+  'US-FL': ['America/New_York', 'America/Chicago'],
+  'US-OK': ['America/Chicago'],
+  BR: [
+    'America/Noronha',
+    'America/Sao_Paulo',
+    'America/Manaus',
+    'America/Rio_Branco',
+  ],
+};
+
+// The lead schema's default timezone, so it says nothing about where a
+// lead with a known phone region is
+const PLACEHOLDER_TIMEZONE = 'UTC';
+
+// Area codes of US states with stricter hours than the federal rule
+const US_STATE_AREA_CODES: Record<string, string[]> = {
+  'US-FL': [
+    '239', '305', '321', '324', '352', '386', '407', '448', '561', '645',
+    '656', '689', '727', '728', '754', '772', '786', '813', '850', '863',
+    '904', '941', '954',
+  ],
+  'US-OK': ['405', '539', '572', '580', '918'],
+};
+
+// Far enough to cross any weekly pattern of windows
+const SEARCH_DAYS = 8;
+const MAX_ITERATIONS = 32;
+
+type DayWindows = (dayOfWeek: number) => [number, number][];
+
+/**
+ * Send Window Scheduler - when a message may reach a lead
+ *
+ * Responsibilities:
+ * - Work out the lead's legal region from their phone number
+ * - Combine legal quiet hours with the lead's preferred contact hours, both
+ *   in the lead's local time
+ * - Find the next allowed moment for a message that cannot go out now
+ * - Refuse messages to leads whose local time cannot be known
+ *
+ * Preferred hours that never overlap the legal windows are ignored rather
+ * than blocking the lead forever.
+ */
+export class SendWindowScheduler {
+  private rules: Record<string, WorkingHours[]>;
+
+  constructor(rules: Record<string, WorkingHours[]> = {}) {
+    this.rules = { ...LEGAL_SEND_WINDOWS, ...rules };
+
+    for (const [region, windows] of Object.entries(this.rules)) {
+      for (const window of windows) {
+        if (parseTimeOfDay(window.start) >= parseTimeOfDay(window.end)) {
+          throw new Error(
+            `Send window ${window.start}-${window.end} of ${region} must end after it starts`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Region whose quiet hours apply: the explicit one, else the one of the
+   * phone number, else `default`
+   */
+  resolveRegion(target: SendWindowTarget): string {
+    if (target.region && this.rules[target.region]) return target.region;
+    if (!target.phone) return 'default';
+
+    const digits = target.phone.replace(/\D/g, '');
+    const international = target.phone.trim().startsWith('+');
+
+    if (
+      (digits.length === 11 && digits.startsWith('1')) ||
+      (digits.length === 10 && !international)
+    ) {
+      const areaCode = digits.slice(-10, -7);
+      const state = Object.keys(US_STATE_AREA_CODES).find((region) =>
+        US_STATE_AREA_CODES[region].includes(areaCode)
+      );
+      return state && this.rules[state] ? state : 'US';
+    }
+    if (digits.startsWith('55') && digits.length >= 12) return 'BR';
+
+    return 'default';
+  }
+
+  /**
+   * Timezones the lead may be in: their own (or that of their preferred
+   * hours), else those of their region. Empty when neither is known.
+   */
+  resolveTimezones(target: SendWindowTarget): string[] {
+    const regionTimezones =
+      REGION_TIMEZONES[this.resolveRegion(target)] ??
+      REGION_TIMEZONES[this.resolveRegion(target).split('-')[0]] ??
+      [];
+
+    const timezone = target.timezone || target.preferredHours?.timezone;
+    if (
+      timezone &&
+      !(timezone === PLACEHOLDER_TIMEZONE && regionTimezones.length)
+    ) {
+      return [timezone];
+    }
+    return regionTimezones;
+  }
+
+  /**
+   * Whether a message may be sent at the given moment, and if not, when.
+   * Without any timezone for the lead there is no next allowed time.
+   */
+  check(target: SendWindowTarget, at: Date = new Date()): SendWindowDecision {
+    if (this.resolveTimezones(target).length === 0) {
+      return {
+        allowed: false,
+        reason: 'Timezone of the lead is unknown',
+      };
+    }
+
+    const next = this.nextAllowedTime(target, at);
+    if (next.getTime() === at.getTime()) {
+      return { allowed: true };
+    }
+
+    const legal = this.nextLegalTime(target, at);
+    return {
+      allowed: false,
+      reason:
+        legal.getTime() === at.getTime()
+          ? 'Outside of preferred contact hours'
+          : `Within quiet hours for ${this.resolveRegion(target)}`,
+      nextAllowedTime: next,
+    };
+  }
+
+  /**
+   * The first moment at or after `from` inside both the legal window and
+   * the lead's preferred hours
+   */
+  nextAllowedTime(target: SendWindowTarget, from: Date = new Date()): Date {
+    const legalFirst = this.nextLegalTime(target, from);
+    if (!target.preferredHours) return legalFirst;
+
+    const preferredWindows = preferredDayWindows(target.preferredHours);
+    const preferredTimezones = target.preferredHours.timezone
+      ? [target.preferredHours.timezone]
+      : this.resolveTimezones(target);
+
+    let candidate = legalFirst;
+    for (let i = 0; i < MAX_ITERATIONS; i++) {
+      const preferred = nextInAllWindows(
+        preferredWindows,
+        preferredTimezones,
+        candidate
+      );
+      if (!preferred) break;
+      if (preferred.getTime() === candidate.getTime()) return candidate;
+
+      candidate = this.nextLegalTime(target, preferred);
+    }
+
+    return legalFirst;
+  }
+
+  private nextLegalTime(target: SendWindowTarget, from: Date): Date {
+    const windows = this.rules[this.resolveRegion(target)];
+    const byDay: DayWindows = (day) =>
+      windows
+        .filter((window) => window.dayOfWeek === day)
+        .map((window): [number, number] => [
+          parseTimeOfDay(window.start),
+          parseTimeOfDay(window.end),
+        ]);
+
+    const timezones = this.resolveTimezones(target);
+    if (timezones.length === 0) {
+      throw new Error('Timezone of the lead is unknown');
+    }
+
+    const next = nextInAllWindows(byDay, timezones, from);
+    if (!next) {
+      throw new Error(
+        `No send window for region ${this.resolveRegion(target)} within ${SEARCH_DAYS} days`
+      );
+    }
+    return next;
+  }
+}
+
+function preferredDayWindows(hours: PreferredHours): DayWindows {
+  const start = hours.startHour * 60;
+  const end = (hours.endHour + 1) * 60;
+  const windows: [number, number][] =
+    start < end
+      ? [[start, end]]
+      : [
+          [0, end],
+          [start, 24 * 60],
+        ];
+  return () => windows;
+}
+
+/**
+ * The first moment at or after `from` inside a window in every timezone
+ */
+function nextInAllWindows(
+  windowsOf: DayWindows,
+  timeZones: string[],
+  from: Date
+): Date | null {
+  let candidate = from;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    let latest = candidate;
+    for (const timeZone of timeZones) {
+      const next = nextInWindows(windowsOf, timeZone, candidate);
+      if (!next) return null;
+      if (next > latest) latest = next;
+    }
+    if (latest.getTime() === candidate.getTime()) return candidate;
+    candidate = latest;
+  }
+  return null;
+}
+
+/**
+ * `from` when it falls inside a window, else the start of the next window
+ */
+function nextInWindows(
+  windowsOf: DayWindows,
+  timeZone: string,
+  from: Date
+): Date | null {
+  const today = toZonedDateString(from, timeZone);
+  const { hour, minute } = getZonedDateTime(from, timeZone);
+  const minutes = hour * 60 + minute;
+
+  for (let offset = 0; offset < SEARCH_DAYS; offset++) {
+    const date = addDays(today, offset);
+    const windows = windowsOf(dayOfWeek(date)).sort((a, b) => a[0] - b[0]);
+
+    for (const [start, end] of windows) {
+      if (offset === 0) {
+        if (minutes >= end) continue;
+        if (minutes >= start) return from;
+      }
+      return zonedTimeToUtc(date, start, timeZone);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+
+// Agent conversations a lead's replies can belong to
+export const AgentSessionKindSchema = z.enum([
+  're_engagement',
+  'feedback',
+  'sales',
+]);
+
+export type AgentSessionKind = z.infer<typeof AgentSessionKindSchema>;
+
+/**
+ * An agent's conversation with a lead, stored so replies reach it after a
+ * restart or on another instance. `state` is the agent's own session object.
+ */
+export const AgentSessionSchema = z.object({
+  id: z.string().min(1).max(100),
+  kind: AgentSessionKindSchema,
+  leadId: z.string().min(1).max(100),
+  status: z.string().min(1).max(20),
+  state: z.record(z.any()),
+  startedAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export type AgentSession = z.infer<typeof AgentSessionSchema>;
+
+/**
+ * Agent session validation functions
+ */
+export const AgentSessionValidation = {
+  validateSession(data: unknown): ValidationResult<AgentSession> {
+    return validateData(
+      AgentSessionSchema,
+      data,
+      'Agent session validation'
+    ) as ValidationResult<AgentSession>;
+  },
+};
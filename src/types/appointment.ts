@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+
+// Appointment type enum
+export const AppointmentTypeSchema = z.enum([
+  'consultation',
+  'site_visit',
+  'callback',
+  'follow_up',
+]);
+
+export type AppointmentType = z.infer<typeof AppointmentTypeSchema>;
+
+// Appointment status enum
+export const AppointmentStatusSchema = z.enum([
+  'scheduled',
+  'confirmed',
+  'rescheduled',
+  'cancelled',
+  'completed',
+  'no_show',
+]);
+
+export type AppointmentStatus = z.infer<typeof AppointmentStatusSchema>;
+
+// Appointment schema
+export const AppointmentSchema = z.object({
+  id: z.string().uuid(),
+  leadId: z.string().uuid(),
+  campaignId: z.string().optional(),
+  agentId: z.string().optional(), // human agent attending the appointment
+  type: AppointmentTypeSchema,
+  status: AppointmentStatusSchema,
+  scheduledAt: z.date(),
+  duration: z.number().int().positive(), // in minutes
+  location: z.string().optional(),
+  notes: z.string().optional(),
+  confirmationSent: z.boolean(),
+  remindersSent: z.number().int().min(0),
+  sequence: z.number().int().min(0).optional(), // iCalendar SEQUENCE, 0 when unset
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Appointment = z.infer<typeof AppointmentSchema>;
+
+// Time an agent is busy in an external calendar, imported from .ics
+export const AgentBusyBlockSchema = z
+  .object({
+    id: z.string().uuid(),
+    agentId: z.string().min(1).max(100),
+    start: z.date(),
+    end: z.date(),
+    uid: z.string().max(255).optional(), // UID of the imported event
+    importedAt: z.date(),
+  })
+  .refine((block) => block.end > block.start, {
+    message: 'A busy block must end after it starts',
+    path: ['end'],
+  });
+
+export type AgentBusyBlock = z.infer<typeof AgentBusyBlockSchema>;
+
+/**
+ * Appointment validation functions
+ */
+export const AppointmentValidation = {
+  /**
+   * Validate a complete appointment
+   */
+  validateAppointment(data: unknown): ValidationResult<Appointment> {
+    return validateData(
+      AppointmentSchema,
+      data,
+      'Appointment validation'
+    ) as ValidationResult<Appointment>;
+  },
+
+  /**
+   * Validate an imported busy block
+   */
+  validateBusyBlock(data: unknown): ValidationResult<AgentBusyBlock> {
+    return validateData(
+      AgentBusyBlockSchema,
+      data,
+      'Busy block validation'
+    ) as ValidationResult<AgentBusyBlock>;
+  },
+};
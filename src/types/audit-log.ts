@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+
+// Audited entity type enum
+export const AuditEntityTypeSchema = z.enum(['lead', 'interaction', 'sync']);
+
+export type AuditEntityType = z.infer<typeof AuditEntityTypeSchema>;
+
+// Audited action enum
+export const AuditActionSchema = z.enum(['create', 'update', 'delete', 'sync']);
+
+export type AuditAction = z.infer<typeof AuditActionSchema>;
+
+// Audit log entry schema
+export const AuditLogEntrySchema = z.object({
+  id: z.string().uuid(),
+  entityType: AuditEntityTypeSchema,
+  entityId: z.string().min(1, 'Entity ID is required'),
+  action: AuditActionSchema,
+  changes: z.record(z.object({ old: z.any(), new: z.any() })),
+  userId: z.string().optional(),
+  agentId: z.string().min(1, 'Agent ID is required'),
+  timestamp: z.date(),
+  metadata: z.record(z.any()).optional(),
+});
+
+export type AuditLogEntry = z.infer<typeof AuditLogEntrySchema>;
+
+/**
+ * Audit log validation functions
+ */
+export const AuditLogValidation = {
+  /**
+   * Validate a complete audit log entry
+   */
+  validateAuditLogEntry(data: unknown): ValidationResult<AuditLogEntry> {
+    return validateData(
+      AuditLogEntrySchema,
+      data,
+      'Audit log validation'
+    ) as ValidationResult<AuditLogEntry>;
+  },
+};
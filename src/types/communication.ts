@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ValidationResult, validateData } from './validation';
+import { getZonedDateTime } from '../utils/timezone';
 
 // Communication channel enum
 export const CommunicationChannelSchema = z.enum([
@@ -82,6 +83,7 @@ export const ChannelSelectionCriteriaSchema = z.object({
     timeOfDay: z.number().min(0).max(23),
     dayOfWeek: z.number().min(0).max(6), // 0 = Sunday
     previousFailures: z.array(CommunicationChannelSchema),
+    timezone: z.string().optional(), // lead's timezone; its local hour replaces timeOfDay
   }),
 });
 
@@ -89,6 +91,37 @@ export type ChannelSelectionCriteria = z.infer<
   typeof ChannelSelectionCriteriaSchema
 >;
 
+// Consent ledger: every opt-in and opt-out, with where it came from
+export const ConsentActionSchema = z.enum(['opt_in', 'opt_out']);
+
+export type ConsentAction = z.infer<typeof ConsentActionSchema>;
+
+export const ConsentEventSchema = z.object({
+  id: z.string().uuid(),
+  leadId: z.string().uuid(),
+  channel: CommunicationChannelSchema,
+  action: ConsentActionSchema,
+  source: z.string().min(1).max(50), // e.g. inbound_keyword, unsubscribe_link, lead_form
+  evidence: z.record(z.any()).default({}), // message text, IP address, form id...
+  recordedAt: z.coerce.date(),
+});
+
+export type ConsentEvent = z.infer<typeof ConsentEventSchema>;
+
+// Opt-in given together with a lead, e.g. the consent checkbox of a form;
+// without proof of it nothing is recorded
+export const LeadConsentSchema = z.object({
+  channels: z.array(CommunicationChannelSchema).min(1),
+  source: z.string().min(1).max(50),
+  evidence: z
+    .record(z.any())
+    .refine((evidence) => Object.keys(evidence).length > 0, {
+      message: 'Consent evidence is required',
+    }),
+});
+
+export type LeadConsent = z.infer<typeof LeadConsentSchema>;
+
 // Communication validation functions
 export const CommunicationValidation = {
   validateCommunicationPreference(
@@ -131,6 +164,14 @@ export const CommunicationValidation = {
     );
   },
 
+  validateConsentEvent(data: unknown): ValidationResult<ConsentEvent> {
+    return validateData(
+      ConsentEventSchema,
+      data,
+      'Consent event validation'
+    ) as ValidationResult<ConsentEvent>;
+  },
+
   /**
    * Check if a channel is opted out
    */
@@ -142,7 +183,8 @@ export const CommunicationValidation = {
   },
 
   /**
-   * Check if it's within the preferred contact time
+   * Check if it's within the preferred contact time, in the timezone of the
+   * preference
    */
   isWithinContactTime(
     preferences: CommunicationPreference,
@@ -150,8 +192,8 @@ export const CommunicationValidation = {
   ): boolean {
     if (!preferences.bestTimeToContact) return true;
 
-    const { startHour, endHour } = preferences.bestTimeToContact;
-    const currentHour = currentTime.getHours();
+    const { startHour, endHour, timezone } = preferences.bestTimeToContact;
+    const currentHour = getZonedDateTime(currentTime, timezone || 'UTC').hour;
 
     if (startHour <= endHour) {
       return currentHour >= startHour && currentHour <= endHour;
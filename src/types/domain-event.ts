@@ -0,0 +1,56 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+
+// Named after the n8n webhook event types, so workflows can keep
+// switching on the same values
+export const DomainEventTypeSchema = z.enum([
+  'lead_created',
+  'lead_updated',
+  'lead_routed',
+  'lead_deleted',
+  'interaction_completed',
+  'appointment_scheduled',
+  'appointment_updated',
+]);
+
+export type DomainEventType = z.infer<typeof DomainEventTypeSchema>;
+
+export const AggregateTypeSchema = z.enum(['lead', 'interaction', 'appointment']);
+
+export type AggregateType = z.infer<typeof AggregateTypeSchema>;
+
+export const DomainEventSchema = z.object({
+  id: z.string().uuid(),
+  type: DomainEventTypeSchema,
+  aggregateType: AggregateTypeSchema,
+  aggregateId: z.string().min(1),
+  // The row as it was stored by the write that raised the event
+  payload: z.record(z.any()),
+  occurredAt: z.coerce.date(),
+});
+
+export type DomainEvent = z.infer<typeof DomainEventSchema>;
+
+export const OutboxEventSchema = DomainEventSchema.extend({
+  attempts: z.number().int().min(0),
+  // Subscribers that already received the event, skipped on retries
+  deliveredTo: z.array(z.string()),
+  nextAttemptAt: z.coerce.date(),
+  lastError: z.string().optional(),
+  publishedAt: z.coerce.date().optional(),
+});
+
+export type OutboxEvent = z.infer<typeof OutboxEventSchema>;
+
+/**
+ * Domain event validation functions
+ */
+export const DomainEventValidation = {
+  validateOutboxEvent(data: unknown): ValidationResult<OutboxEvent> {
+    return validateData(
+      OutboxEventSchema,
+      data,
+      'Outbox event validation'
+    ) as ValidationResult<OutboxEvent>;
+  },
+};
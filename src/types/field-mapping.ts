@@ -0,0 +1,171 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+import { LeadSourceSchema } from './lead';
+
+// Webhook endpoints that receive leads in a shape chosen by the sender
+export const MappingIntegrationSchema = z.enum([
+  'zapier',
+  'integromat',
+  'generic',
+]);
+
+export type MappingIntegration = z.infer<typeof MappingIntegrationSchema>;
+
+/**
+ * JSONPath-style location in a payload: `$.contact.email`,
+ * `$.answers[0].value` or `$['Full Name']`
+ */
+export const JsonPathSchema = z
+  .string()
+  .max(500)
+  .regex(
+    /^\$(\.[A-Za-z0-9_-]+|\[\d+\]|\['[^']*'\]|\["[^"]*"\])+$/,
+    "Path must look like $.field, $.list[0] or $['field name']"
+  );
+
+// NormalizedLeadData fields a mapping can fill
+export const MAPPABLE_LEAD_FIELDS = [
+  'contactInfo.name',
+  'contactInfo.email',
+  'contactInfo.phone',
+  'contactInfo.preferredChannel',
+  'contactInfo.timezone',
+  'leadType',
+  'urgencyLevel',
+  'intentSignals',
+  'qualificationData.budget.min',
+  'qualificationData.budget.max',
+  'qualificationData.location',
+  'qualificationData.propertyType',
+  'qualificationData.timeline',
+  'qualificationData.qualificationScore',
+] as const;
+
+export const FieldMappingTargetSchema = z.union([
+  z.enum(MAPPABLE_LEAD_FIELDS),
+  // Anything else worth keeping goes to the source metadata
+  z
+    .string()
+    .regex(
+      /^sourceMetadata\.[A-Za-z0-9_]+$/,
+      'Target must be a lead field or sourceMetadata.<key>'
+    ),
+]);
+
+export type FieldMappingTarget = z.infer<typeof FieldMappingTargetSchema>;
+
+export const FieldMappingTransformSchema = z.discriminatedUnion('type', [
+  // "Doe, John" or "John Doe" -> "John" / "Doe"
+  z.object({
+    type: z.literal('split_full_name'),
+    part: z.enum(['first', 'last']),
+  }),
+  // "$1,250,000", "R$ 1.250.000,00", "350k" or "1.2M" -> 1250000, 1250000,
+  // 350000, 1200000. The decimal separator is read from the value unless
+  // set; values that stay ambiguous, such as ranges, fail the mapping.
+  z.object({
+    type: z.literal('parse_currency'),
+    decimalSeparator: z.enum(['.', ',']).optional(),
+  }),
+  // Sender's values to ours, matched case-insensitively; values without a
+  // match take the fallback, or fail the mapping without one
+  z.object({
+    type: z.literal('map_enum'),
+    values: z.record(z.union([z.string(), z.number()])),
+    fallback: z.union([z.string(), z.number()]).optional(),
+  }),
+]);
+
+export type FieldMappingTransform = z.infer<typeof FieldMappingTransformSchema>;
+
+export const FieldMappingSchema = z.object({
+  source: JsonPathSchema,
+  target: FieldMappingTargetSchema,
+  transform: FieldMappingTransformSchema.optional(),
+});
+
+export type FieldMapping = z.infer<typeof FieldMappingSchema>;
+
+export const FieldMappingProfileSchema = z.object({
+  id: z.string().uuid(),
+  // Chosen by the sender with the X-Mapping-Profile header or the profile
+  // query parameter
+  name: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9_-]{0,99}$/,
+      'Profile name must be a lowercase slug of up to 100 characters'
+    ),
+  integration: MappingIntegrationSchema,
+  description: z.string().max(500).optional(),
+  // Source recorded on the leads the profile maps
+  leadSource: LeadSourceSchema.default('third_party'),
+  sourceIdPath: JsonPathSchema.optional(),
+  mappings: z.array(FieldMappingSchema).min(1),
+  // Values for fields the payload leaves empty
+  defaults: z.record(FieldMappingTargetSchema, z.any()).default({}),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export type FieldMappingProfile = z.infer<typeof FieldMappingProfileSchema>;
+
+export const CreateFieldMappingProfileSchema = FieldMappingProfileSchema.omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CreateFieldMappingProfile = z.infer<
+  typeof CreateFieldMappingProfileSchema
+>;
+
+export const UpdateFieldMappingProfileSchema = FieldMappingProfileSchema.pick({
+  name: true,
+  description: true,
+  leadSource: true,
+  sourceIdPath: true,
+  mappings: true,
+  defaults: true,
+})
+  .partial()
+  .refine((updates) => Object.keys(updates).length > 0, {
+    message: 'At least one field must be updated',
+  });
+
+export type UpdateFieldMappingProfile = z.infer<
+  typeof UpdateFieldMappingProfileSchema
+>;
+
+/**
+ * Field mapping validation functions
+ */
+export const FieldMappingValidation = {
+  validateProfile(data: unknown): ValidationResult<FieldMappingProfile> {
+    return validateData(
+      FieldMappingProfileSchema,
+      data,
+      'Field mapping profile validation'
+    ) as ValidationResult<FieldMappingProfile>;
+  },
+
+  validateCreateProfile(
+    data: unknown
+  ): ValidationResult<CreateFieldMappingProfile> {
+    return validateData(
+      CreateFieldMappingProfileSchema,
+      data,
+      'Create field mapping profile validation'
+    ) as ValidationResult<CreateFieldMappingProfile>;
+  },
+
+  validateUpdateProfile(
+    data: unknown
+  ): ValidationResult<UpdateFieldMappingProfile> {
+    return validateData(
+      UpdateFieldMappingProfileSchema,
+      data,
+      'Update field mapping profile validation'
+    ) as ValidationResult<UpdateFieldMappingProfile>;
+  },
+};
@@ -12,6 +12,7 @@ export const InteractionTypeSchema = z.enum([
   'sms',
   'email',
   'whatsapp',
+  'chat',
 ]);
 
 export type InteractionType = z.infer<typeof InteractionTypeSchema>;
@@ -193,6 +194,7 @@ export const InteractionValidation = {
       sms: { min: 0, max: 60 }, // SMS should be instant
       email: { min: 0, max: 300 }, // Up to 5 minutes for email processing
       whatsapp: { min: 0, max: 300 }, // Up to 5 minutes for WhatsApp
+      chat: { min: 0, max: 300 }, // Up to 5 minutes for a chat message
     };
 
     const limits = reasonableDurations[interaction.type];
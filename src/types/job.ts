@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+
+// pending: waiting for run_at; running: leased to a worker; dead: out of
+// attempts, kept in the dead-letter queue until retried by hand
+export const JobStatusSchema = z.enum(['pending', 'running', 'completed', 'dead']);
+
+export type JobStatus = z.infer<typeof JobStatusSchema>;
+
+export const JobSchema = z.object({
+  id: z.string().uuid(),
+  type: z.string().min(1).max(100),
+  payload: z.record(z.any()),
+  status: JobStatusSchema,
+  attempts: z.number().int().min(0),
+  maxAttempts: z.number().int().min(1),
+  runAt: z.coerce.date(),
+  idempotencyKey: z.string().min(1).max(255).optional(),
+  lockedBy: z.string().optional(),
+  lockedUntil: z.coerce.date().optional(),
+  lastError: z.string().optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+  completedAt: z.coerce.date().optional(),
+});
+
+export type Job = z.infer<typeof JobSchema>;
+
+export interface EnqueueJobOptions {
+  runAt?: Date; // defaults to now
+  // Enqueuing again with a key already used returns the existing job
+  // instead of adding a second one
+  idempotencyKey?: string;
+  maxAttempts?: number;
+}
+
+/**
+ * Job validation functions
+ */
+export const JobValidation = {
+  validateJob(data: unknown): ValidationResult<Job> {
+    return validateData(JobSchema, data, 'Job validation') as ValidationResult<Job>;
+  },
+};
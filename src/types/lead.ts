@@ -9,8 +9,9 @@ import {
   sanitizeString,
 } from './validation';
 
-// Lead source enum
-export const LeadSourceSchema = z.enum([
+// Lead sources the platform ships adapters or routing rules for. Further
+// sources come from the adapters registered with the ingestion system.
+export const BUILT_IN_LEAD_SOURCES = [
   'gmail',
   'meta_ads',
   'website',
@@ -18,7 +19,14 @@ export const LeadSourceSchema = z.enum([
   'third_party',
   'referral',
   'other',
-]);
+] as const;
+
+export const LeadSourceSchema = z
+  .string()
+  .regex(
+    /^[a-z][a-z0-9_]{0,49}$/,
+    'Lead source must be a lowercase identifier of up to 50 characters'
+  );
 
 export type LeadSource = z.infer<typeof LeadSourceSchema>;
 
@@ -0,0 +1,65 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+import { LeadSourceSchema } from './lead';
+
+// open until the first outbound touch; a breach stays a breach once touched
+export const ResponseSlaStatusSchema = z.enum(['open', 'met', 'breached']);
+
+export type ResponseSlaStatus = z.infer<typeof ResponseSlaStatusSchema>;
+
+// Time from lead creation to the first outbound interaction
+export const ResponseSlaRecordSchema = z.object({
+  leadId: z.string().uuid(),
+  source: LeadSourceSchema,
+  status: ResponseSlaStatusSchema,
+  startedAt: z.coerce.date(),
+  dueAt: z.coerce.date(),
+  firstTouchAt: z.coerce.date().optional(),
+  firstTouchInteractionId: z.string().uuid().optional(),
+  firstTouchAgentId: z.string().optional(), // who made the first touch
+  assignedAgentId: z.string().optional(), // sales agent responsible at breach or touch
+  breachedAt: z.coerce.date().optional(),
+  escalationLevel: z.number().int().min(0).default(0), // escalation steps fired
+});
+
+export type ResponseSlaRecord = z.infer<typeof ResponseSlaRecordSchema>;
+
+export const SlaReportGroupingSchema = z.enum(['source', 'agent', 'hour']);
+
+export type SlaReportGrouping = z.infer<typeof SlaReportGroupingSchema>;
+
+/**
+ * Compliance of the leads in one group of a report. Leads still open and
+ * not yet due are counted but do not affect the compliance rate.
+ */
+export interface SlaReportRow {
+  key: string;
+  total: number;
+  met: number;
+  breached: number;
+  open: number;
+  complianceRate: number | null; // null when nothing has met or breached yet
+  averageResponseSeconds: number | null;
+}
+
+export interface SlaComplianceReport {
+  groupBy: SlaReportGrouping;
+  from: Date;
+  to: Date;
+  timezone: string; // of the hour-of-day grouping
+  rows: SlaReportRow[];
+  overall: Omit<SlaReportRow, 'key'>;
+}
+
+/**
+ * Response SLA validation functions
+ */
+export const ResponseSlaValidation = {
+  validateResponseSlaRecord(data: unknown): ValidationResult<ResponseSlaRecord> {
+    return validateData(
+      ResponseSlaRecordSchema,
+      data,
+      'Response SLA validation'
+    ) as ValidationResult<ResponseSlaRecord>;
+  },
+};
@@ -0,0 +1,160 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+
+// Comparison operators, named as in campaign step conditions
+export const RuleOperatorSchema = z.enum([
+  'equals',
+  'not_equals',
+  'greater_than',
+  'greater_than_or_equal',
+  'less_than',
+  'less_than_or_equal',
+  'in',
+  'not_in',
+  'contains',
+  'exists',
+]);
+
+export type RuleOperator = z.infer<typeof RuleOperatorSchema>;
+
+/**
+ * Dotted path into the evaluation context, e.g. `lead.source`,
+ * `analysis.intentScore` or `config.intentThresholds.high`.
+ * `lead.ageHours` is the age of the lead at evaluation time.
+ */
+export const RuleFieldSchema = z
+  .string()
+  .regex(
+    /^(lead|analysis|config)(\.[A-Za-z][A-Za-z0-9_]*)+$/,
+    'Field must be a path under lead, analysis or config'
+  );
+
+export type RuleLiteral = string | number | boolean | null | RuleLiteral[];
+
+const RuleLiteralSchema: z.ZodType<RuleLiteral> = z.lazy(() =>
+  z.union([
+    z.string(),
+    z.number(),
+    z.boolean(),
+    z.null(),
+    z.array(RuleLiteralSchema),
+  ])
+);
+
+// A literal, or the value of another field such as a configured threshold
+export const RuleOperandSchema = z.union([
+  RuleLiteralSchema,
+  z.object({ field: RuleFieldSchema }).strict(),
+]);
+
+export type RuleOperand = z.infer<typeof RuleOperandSchema>;
+
+export interface RuleComparison {
+  field: string;
+  operator: RuleOperator;
+  value?: RuleOperand;
+}
+
+export type RuleCondition =
+  | { all: RuleCondition[] }
+  | { any: RuleCondition[] }
+  | { not: RuleCondition }
+  | RuleComparison;
+
+export const RuleConditionSchema: z.ZodType<RuleCondition> = z.lazy(() =>
+  z.union([
+    z.object({ all: z.array(RuleConditionSchema).min(1) }).strict(),
+    z.object({ any: z.array(RuleConditionSchema).min(1) }).strict(),
+    z.object({ not: RuleConditionSchema }).strict(),
+    z
+      .object({
+        field: RuleFieldSchema,
+        operator: RuleOperatorSchema,
+        value: RuleOperandSchema.optional(),
+      })
+      .strict()
+      .refine(
+        (comparison) =>
+          comparison.operator === 'exists' || comparison.value !== undefined,
+        { message: 'A value is required for this operator', path: ['value'] }
+      ),
+  ])
+);
+
+export const RoutingActionSchema = z.object({
+  targetAgent: z.enum(['inbound', 'outbound']),
+  priority: z.enum(['high', 'medium', 'low']),
+  reasoning: z.array(z.string()),
+  estimatedResponseTime: z.number().min(0),
+  suggestedActions: z.array(z.string()),
+});
+
+// Routing rule as stored and edited; success rates are runtime statistics
+export const RoutingRuleDefinitionSchema = z.object({
+  id: z
+    .string()
+    .regex(
+      /^[a-z0-9][a-z0-9_-]{0,99}$/,
+      'Rule id must be lowercase letters, digits, "-" or "_"'
+    ),
+  name: z.string().min(1, 'Rule name is required').max(200),
+  condition: RuleConditionSchema,
+  action: RoutingActionSchema,
+  priority: z.number().int(),
+  enabled: z.boolean().default(true),
+});
+
+export type RoutingRuleDefinition = z.infer<typeof RoutingRuleDefinitionSchema>;
+
+export const RoutingRuleChangeSchema = z.enum([
+  'created',
+  'updated',
+  'deleted',
+  'rolled_back',
+]);
+
+export type RoutingRuleChange = z.infer<typeof RoutingRuleChangeSchema>;
+
+// One entry of a rule's history; deletions carry no definition
+export const RoutingRuleVersionSchema = z.object({
+  ruleId: z.string().min(1),
+  version: z.number().int().min(1),
+  change: RoutingRuleChangeSchema,
+  definition: RoutingRuleDefinitionSchema.nullable(),
+  restoredFromVersion: z.number().int().min(1).optional(),
+  changedBy: z.string().optional(),
+  createdAt: z.coerce.date(),
+});
+
+export type RoutingRuleVersion = z.infer<typeof RoutingRuleVersionSchema>;
+
+/**
+ * Routing rule validation functions
+ */
+export const RoutingRuleValidation = {
+  validateRoutingRule(data: unknown): ValidationResult<RoutingRuleDefinition> {
+    return validateData(
+      RoutingRuleDefinitionSchema,
+      data,
+      'Routing rule validation'
+    ) as ValidationResult<RoutingRuleDefinition>;
+  },
+
+  validateCondition(data: unknown): ValidationResult<RuleCondition> {
+    return validateData(
+      RuleConditionSchema,
+      data,
+      'Routing rule condition validation'
+    );
+  },
+
+  validateRoutingRuleVersion(
+    data: unknown
+  ): ValidationResult<RoutingRuleVersion> {
+    return validateData(
+      RoutingRuleVersionSchema,
+      data,
+      'Routing rule version validation'
+    ) as ValidationResult<RoutingRuleVersion>;
+  },
+};
@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import { ValidationResult, validateData, isValidTimezone } from './validation';
+
+// What a salesperson can handle; matched case-insensitively
+export const AgentSkillsSchema = z.object({
+  languages: z.array(z.string().min(1)).default([]),
+  propertyTypes: z.array(z.string().min(1)).default([]),
+  regions: z.array(z.string().min(1)).default([]),
+});
+
+export type AgentSkills = z.infer<typeof AgentSkillsSchema>;
+
+const TimeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/, 'Time must be HH:mm');
+
+// Working window on one day of the week, in the agent's local time
+export const AgentWorkingHoursSchema = z
+  .object({
+    dayOfWeek: z.number().int().min(0).max(6), // 0 = Sunday
+    start: TimeOfDaySchema,
+    end: TimeOfDaySchema,
+  })
+  .refine((hours) => hours.start < hours.end, {
+    message: 'Working hours must end after they start',
+  });
+
+export const OutOfOfficeSchema = z
+  .object({
+    start: z.coerce.date(),
+    end: z.coerce.date(),
+    reason: z.string().max(200).optional(),
+  })
+  .refine((period) => period.start < period.end, {
+    message: 'Out-of-office period must end after it starts',
+  });
+
+export type OutOfOffice = z.infer<typeof OutOfOfficeSchema>;
+
+// Human salesperson leads can be assigned to
+export const SalesAgentSchema = z.object({
+  id: z.string().min(1, 'Agent ID is required').max(100),
+  name: z.string().min(1, 'Name is required').max(100),
+  email: z.string().email('Invalid email format').optional(),
+  // Receives escalations of response SLA breaches on the agent's leads
+  managerEmail: z.string().email('Invalid email format').optional(),
+  skills: AgentSkillsSchema,
+  maxConcurrentLeads: z.number().int().min(1),
+  // Share of round-robin assignments relative to the other agents
+  weight: z.number().int().min(1).max(100).default(1),
+  timezone: z.string().default('UTC').refine(isValidTimezone, {
+    message: 'Invalid timezone',
+  }),
+  workingHours: z
+    .array(AgentWorkingHoursSchema)
+    .min(1, 'At least one working window is required'),
+  outOfOffice: z.array(OutOfOfficeSchema).default([]),
+  active: z.boolean().default(true),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export type SalesAgent = z.infer<typeof SalesAgentSchema>;
+
+// Create sales agent input schema
+export const CreateSalesAgentSchema = SalesAgentSchema.omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type CreateSalesAgent = z.infer<typeof CreateSalesAgentSchema>;
+
+// Update sales agent input schema
+export const UpdateSalesAgentSchema = CreateSalesAgentSchema.omit({
+  id: true,
+}).partial();
+
+export type UpdateSalesAgent = z.infer<typeof UpdateSalesAgentSchema>;
+
+export const AssignmentStrategySchema = z.enum([
+  'weighted_round_robin',
+  'least_loaded',
+  'manual',
+]);
+
+export type AssignmentStrategy = z.infer<typeof AssignmentStrategySchema>;
+
+// pending and accepted assignments count against the agent's capacity
+export const AssignmentStatusSchema = z.enum([
+  'pending',
+  'accepted',
+  'declined',
+  'expired',
+  'released',
+]);
+
+export type AssignmentStatus = z.infer<typeof AssignmentStatusSchema>;
+
+// Skills a lead needs; each one must be among the agent's skills
+export const AssignmentRequirementsSchema = z.object({
+  language: z.string().min(1).optional(),
+  propertyType: z.string().min(1).optional(),
+  region: z.string().min(1).optional(),
+});
+
+export type AssignmentRequirements = z.infer<
+  typeof AssignmentRequirementsSchema
+>;
+
+export const LeadAssignmentSchema = z.object({
+  id: z.string().uuid(),
+  leadId: z.string().uuid(),
+  agentId: z.string().min(1),
+  strategy: AssignmentStrategySchema,
+  status: AssignmentStatusSchema,
+  requirements: AssignmentRequirementsSchema,
+  assignedBy: z.string().optional(),
+  assignedAt: z.coerce.date(),
+  acceptBy: z.coerce.date(), // reassigned when still pending by then
+  respondedAt: z.coerce.date().optional(),
+  previousAssignmentId: z.string().uuid().optional(),
+});
+
+export type LeadAssignment = z.infer<typeof LeadAssignmentSchema>;
+
+/**
+ * Sales agent validation functions
+ */
+export const SalesAgentValidation = {
+  validateSalesAgent(data: unknown): ValidationResult<SalesAgent> {
+    return validateData(
+      SalesAgentSchema,
+      data,
+      'Sales agent validation'
+    ) as ValidationResult<SalesAgent>;
+  },
+
+  validateCreateSalesAgent(data: unknown): ValidationResult<CreateSalesAgent> {
+    return validateData(
+      CreateSalesAgentSchema,
+      data,
+      'Create sales agent validation'
+    ) as ValidationResult<CreateSalesAgent>;
+  },
+
+  validateUpdateSalesAgent(data: unknown): ValidationResult<UpdateSalesAgent> {
+    return validateData(
+      UpdateSalesAgentSchema,
+      data,
+      'Update sales agent validation'
+    ) as ValidationResult<UpdateSalesAgent>;
+  },
+
+  validateLeadAssignment(data: unknown): ValidationResult<LeadAssignment> {
+    return validateData(
+      LeadAssignmentSchema,
+      data,
+      'Lead assignment validation'
+    ) as ValidationResult<LeadAssignment>;
+  },
+};
@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+import { InteractionTypeSchema } from './interaction';
+
+// One turn of a conversation, as spoken or written
+export const TranscriptTurnSchema = z.object({
+  speaker: z.enum(['agent', 'customer']),
+  text: z.string(),
+  timestamp: z.coerce.date(),
+  confidence: z.number().min(0).max(1).optional(), // speech recognition
+  sentiment: z.number().min(-1).max(1).optional(),
+});
+
+export type TranscriptTurn = z.infer<typeof TranscriptTurnSchema>;
+
+// Where the audio of a call is kept; the audio itself is not stored here
+export const RecordingReferenceSchema = z.object({
+  url: z.string().min(1),
+  contentType: z.string().optional(),
+  durationSeconds: z.number().int().min(0).optional(),
+});
+
+export type RecordingReference = z.infer<typeof RecordingReferenceSchema>;
+
+// Transcript of the conversation an interaction records, redacted
+export const InteractionTranscriptSchema = z.object({
+  interactionId: z.string().uuid(),
+  leadId: z.string().uuid(),
+  sessionId: z.string().optional(),
+  channel: InteractionTypeSchema,
+  turns: z.array(TranscriptTurnSchema),
+  recording: RecordingReferenceSchema.optional(),
+  redactions: z.number().int().min(0).default(0), // values masked before storage
+  createdAt: z.coerce.date(),
+});
+
+export type InteractionTranscript = z.infer<typeof InteractionTranscriptSchema>;
+
+export const TranscriptSearchQuerySchema = z
+  .object({
+    q: z.string().trim().min(2).max(200),
+    lead_id: z.string().uuid().optional(),
+    channel: InteractionTypeSchema.optional(),
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(20),
+  })
+  .refine((query) => !query.from || !query.to || query.from < query.to, {
+    message: 'from must be before to',
+    path: ['from'],
+  });
+
+export type TranscriptSearchQuery = z.infer<typeof TranscriptSearchQuerySchema>;
+
+/**
+ * Transcript matching a search, with the turns that mention the terms
+ */
+export interface TranscriptSearchHit {
+  interactionId: string;
+  leadId: string;
+  channel: InteractionTranscript['channel'];
+  createdAt: Date;
+  recording?: RecordingReference;
+  snippet: string; // matches highlighted with <b></b>
+  matchingTurns: TranscriptTurn[];
+}
+
+/**
+ * Transcript validation functions
+ */
+export const TranscriptValidation = {
+  validateInteractionTranscript(
+    data: unknown
+  ): ValidationResult<InteractionTranscript> {
+    return validateData(
+      InteractionTranscriptSchema,
+      data,
+      'Interaction transcript validation'
+    ) as ValidationResult<InteractionTranscript>;
+  },
+};
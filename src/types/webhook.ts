@@ -0,0 +1,156 @@
+import { z } from 'zod';
+import { URL } from 'url';
+import { ValidationResult, validateData } from './validation';
+import { DomainEventTypeSchema } from './domain-event';
+import { isPrivateHost } from '../utils/network-address';
+
+export const WebhookSubscriptionStatusSchema = z.enum(['active', 'disabled']);
+
+export type WebhookSubscriptionStatus = z.infer<
+  typeof WebhookSubscriptionStatusSchema
+>;
+
+const FilterValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+/**
+ * Fields of the event payload an event must match to be sent, e.g.
+ * `{ "lead_type": ["hot", "warm"], "source": "website" }`. A list accepts
+ * any of its values; every field must match.
+ */
+export const WebhookFilterSchema = z.record(
+  z.union([FilterValueSchema, z.array(FilterValueSchema).min(1)])
+);
+
+export type WebhookFilter = z.infer<typeof WebhookFilterSchema>;
+
+export const WebhookUrlSchema = z
+  .string()
+  .url()
+  .max(2048)
+  .refine((url) => /^https?:\/\//i.test(url), {
+    message: 'Webhook URL must use http or https',
+  });
+
+// For new endpoints. Host names are resolved and checked again when
+// registered and on every delivery; the schema can only reject private
+// hosts written in the URL.
+export const PublicWebhookUrlSchema = WebhookUrlSchema.refine(
+  (url) => !(URL.canParse(url) && isPrivateHost(new URL(url).hostname)),
+  {
+    message:
+      'Webhook URL must not point to a loopback, private or link-local host',
+  }
+);
+
+export const WebhookSubscriptionSchema = z.object({
+  id: z.string().uuid(),
+  url: WebhookUrlSchema,
+  description: z.string().max(500).optional(),
+  eventTypes: z.array(DomainEventTypeSchema).min(1),
+  filter: WebhookFilterSchema.optional(),
+  // Signs every delivery; only shown when created or rotated
+  secret: z.string().min(1),
+  status: WebhookSubscriptionStatusSchema,
+  // Failed attempts since the last successful one
+  consecutiveFailures: z.number().int().min(0),
+  disabledAt: z.coerce.date().optional(),
+  disabledReason: z.string().optional(),
+  createdAt: z.coerce.date(),
+  updatedAt: z.coerce.date(),
+});
+
+export type WebhookSubscription = z.infer<typeof WebhookSubscriptionSchema>;
+
+export const CreateWebhookSubscriptionSchema = WebhookSubscriptionSchema.pick({
+  url: true,
+  description: true,
+  eventTypes: true,
+  filter: true,
+}).extend({ url: PublicWebhookUrlSchema });
+
+export type CreateWebhookSubscription = z.infer<
+  typeof CreateWebhookSubscriptionSchema
+>;
+
+export const UpdateWebhookSubscriptionSchema = CreateWebhookSubscriptionSchema.extend({
+  // Re-enabling clears the failure count
+  status: WebhookSubscriptionStatusSchema,
+})
+  .partial()
+  .refine((updates) => Object.keys(updates).length > 0, {
+    message: 'At least one field must be updated',
+  });
+
+export type UpdateWebhookSubscription = z.infer<
+  typeof UpdateWebhookSubscriptionSchema
+>;
+
+// pending: queued or being retried; failed: out of attempts, can be replayed
+export const WebhookDeliveryStatusSchema = z.enum([
+  'pending',
+  'succeeded',
+  'failed',
+]);
+
+export type WebhookDeliveryStatus = z.infer<typeof WebhookDeliveryStatusSchema>;
+
+export const WebhookDeliverySchema = z.object({
+  id: z.string().uuid(),
+  subscriptionId: z.string().uuid(),
+  eventId: z.string().uuid(),
+  eventType: DomainEventTypeSchema,
+  // The exact body posted, so a replay sends the same bytes
+  body: z.record(z.any()),
+  status: WebhookDeliveryStatusSchema,
+  attempts: z.number().int().min(0),
+  responseStatus: z.number().int().optional(),
+  responseBody: z.string().optional(),
+  lastError: z.string().optional(),
+  durationMs: z.number().int().min(0).optional(),
+  lastAttemptAt: z.coerce.date().optional(),
+  deliveredAt: z.coerce.date().optional(),
+  createdAt: z.coerce.date(),
+});
+
+export type WebhookDelivery = z.infer<typeof WebhookDeliverySchema>;
+
+/**
+ * Webhook validation functions
+ */
+export const WebhookValidation = {
+  validateSubscription(data: unknown): ValidationResult<WebhookSubscription> {
+    return validateData(
+      WebhookSubscriptionSchema,
+      data,
+      'Webhook subscription validation'
+    ) as ValidationResult<WebhookSubscription>;
+  },
+
+  validateCreateSubscription(
+    data: unknown
+  ): ValidationResult<CreateWebhookSubscription> {
+    return validateData(
+      CreateWebhookSubscriptionSchema,
+      data,
+      'Create webhook subscription validation'
+    ) as ValidationResult<CreateWebhookSubscription>;
+  },
+
+  validateUpdateSubscription(
+    data: unknown
+  ): ValidationResult<UpdateWebhookSubscription> {
+    return validateData(
+      UpdateWebhookSubscriptionSchema,
+      data,
+      'Update webhook subscription validation'
+    ) as ValidationResult<UpdateWebhookSubscription>;
+  },
+
+  validateDelivery(data: unknown): ValidationResult<WebhookDelivery> {
+    return validateData(
+      WebhookDeliverySchema,
+      data,
+      'Webhook delivery validation'
+    ) as ValidationResult<WebhookDelivery>;
+  },
+};
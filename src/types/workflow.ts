@@ -0,0 +1,161 @@
+import { z } from 'zod';
+import { ValidationResult, validateData } from './validation';
+
+// Campaign type enum
+export const CampaignTypeSchema = z.enum([
+  'callback_sequence',
+  'appointment_booking',
+  'follow_up',
+  're_engagement',
+]);
+
+// Campaign status enum
+export const CampaignStatusSchema = z.enum([
+  'active',
+  'paused',
+  'completed',
+  'cancelled',
+]);
+
+export const CampaignAudienceSchema = z.object({
+  leadTypes: z.array(z.enum(['hot', 'warm', 'cold'])),
+  sources: z.array(z.string()),
+  qualificationScoreMin: z.number().optional(),
+  qualificationScoreMax: z.number().optional(),
+  tags: z.array(z.string()).optional(),
+});
+
+export const CampaignConditionSchema = z.object({
+  field: z.string(),
+  operator: z.enum([
+    'equals',
+    'not_equals',
+    'greater_than',
+    'less_than',
+    'contains',
+  ]),
+  value: z.any(),
+});
+
+export const CampaignStepSchema = z.object({
+  id: z.string(),
+  order: z.number().int(),
+  type: z.enum(['callback', 'appointment', 'message', 'email', 'wait']),
+  delayHours: z.number().min(0),
+  content: z.string().optional(),
+  conditions: z.array(CampaignConditionSchema).optional(),
+});
+
+export const CampaignPerformanceSchema = z.object({
+  totalLeads: z.number().int().min(0),
+  completedSteps: z.number().int().min(0),
+  appointmentsBooked: z.number().int().min(0),
+  callbacksScheduled: z.number().int().min(0),
+  conversionRate: z.number().min(0),
+  averageCompletionTime: z.number().min(0),
+});
+
+// Multi-step workflow campaign schema
+export const CampaignSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string().min(1, 'Campaign name is required'),
+  type: CampaignTypeSchema,
+  status: CampaignStatusSchema,
+  targetAudience: CampaignAudienceSchema,
+  steps: z.array(CampaignStepSchema),
+  performance: CampaignPerformanceSchema,
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type CampaignAudience = z.infer<typeof CampaignAudienceSchema>;
+export type CampaignCondition = z.infer<typeof CampaignConditionSchema>;
+export type CampaignStep = z.infer<typeof CampaignStepSchema>;
+export type CampaignPerformance = z.infer<typeof CampaignPerformanceSchema>;
+export type Campaign = z.infer<typeof CampaignSchema>;
+
+// Callback schema
+export const CallbackSchema = z.object({
+  id: z.string().uuid(),
+  leadId: z.string().uuid(),
+  campaignId: z.string().optional(),
+  scheduledAt: z.date(),
+  status: z.enum(['pending', 'completed', 'failed', 'cancelled']),
+  attempts: z.number().int().min(0),
+  maxAttempts: z.number().int().min(1),
+  notes: z.string().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date(),
+});
+
+export type Callback = z.infer<typeof CallbackSchema>;
+
+// Reminder schemas
+export const ReminderSchema = z.object({
+  id: z.string().uuid(),
+  type: z.enum(['email', 'sms', 'call']),
+  scheduledAt: z.date(),
+  status: z.enum(['pending', 'sent', 'failed']),
+  content: z.string(),
+  sentAt: z.date().optional(),
+});
+
+export const ReminderSequenceSchema = z.object({
+  id: z.string().uuid(),
+  appointmentId: z.string().uuid(),
+  reminders: z.array(ReminderSchema),
+  status: z.enum(['active', 'completed', 'cancelled']),
+  createdAt: z.date(),
+});
+
+export type Reminder = z.infer<typeof ReminderSchema>;
+export type ReminderSequence = z.infer<typeof ReminderSequenceSchema>;
+
+/**
+ * Workflow validation functions
+ */
+export const WorkflowValidation = {
+  /**
+   * Validate a complete campaign
+   */
+  validateCampaign(data: unknown): ValidationResult<Campaign> {
+    return validateData(
+      CampaignSchema,
+      data,
+      'Campaign validation'
+    ) as ValidationResult<Campaign>;
+  },
+
+  /**
+   * Validate a complete callback
+   */
+  validateCallback(data: unknown): ValidationResult<Callback> {
+    return validateData(
+      CallbackSchema,
+      data,
+      'Callback validation'
+    ) as ValidationResult<Callback>;
+  },
+
+  /**
+   * Validate a single reminder
+   */
+  validateReminder(data: unknown): ValidationResult<Reminder> {
+    return validateData(
+      ReminderSchema,
+      data,
+      'Reminder validation'
+    ) as ValidationResult<Reminder>;
+  },
+
+  /**
+   * Validate a reminder sequence and its reminders
+   */
+  validateReminderSequence(data: unknown): ValidationResult<ReminderSequence> {
+    return validateData(
+      ReminderSequenceSchema,
+      data,
+      'Reminder sequence validation'
+    ) as ValidationResult<ReminderSequence>;
+  },
+};
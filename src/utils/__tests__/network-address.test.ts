@@ -0,0 +1,98 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import dns from 'dns';
+import { URL } from 'url';
+import {
+  isPrivateAddress,
+  isPrivateHost,
+  resolvePublicHost,
+} from '../network-address';
+
+describe('network address checks', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('isPrivateAddress', () => {
+    it('should flag loopback, private and link-local addresses', () => {
+      for (const address of [
+        '127.0.0.1',
+        '10.20.30.40',
+        '172.16.0.1',
+        '192.168.1.10',
+        '169.254.169.254',
+        '100.64.0.1',
+        '0.0.0.0',
+        '::1',
+        '::',
+        'fd00::1',
+        'fe80::1',
+        '::ffff:127.0.0.1',
+        '::ffff:a9fe:a9fe',
+      ]) {
+        expect(isPrivateAddress(address)).toBe(true);
+      }
+    });
+
+    it('should let public addresses through', () => {
+      for (const address of [
+        '93.184.216.34',
+        '172.32.0.1',
+        '8.8.8.8',
+        '2606:4700::1111',
+        '::ffff:8.8.8.8',
+      ]) {
+        expect(isPrivateAddress(address)).toBe(false);
+      }
+      expect(isPrivateAddress('example.com')).toBe(false);
+    });
+  });
+
+  describe('isPrivateHost', () => {
+    it('should read URL hosts, including bracketed IPv6', () => {
+      expect(isPrivateHost('[::1]')).toBe(true);
+      expect(isPrivateHost(new URL('http://2130706433/').hostname)).toBe(true);
+      expect(isPrivateHost('[2606:4700::1111]')).toBe(false);
+    });
+
+    it('should flag names that only resolve inside a network', () => {
+      expect(isPrivateHost('localhost')).toBe(true);
+      expect(isPrivateHost('LOCALHOST.')).toBe(true);
+      expect(isPrivateHost('api.localhost')).toBe(true);
+      expect(isPrivateHost('metadata.google.internal')).toBe(true);
+      expect(isPrivateHost('printer.local')).toBe(true);
+      expect(isPrivateHost('hooks.partner.com')).toBe(false);
+    });
+  });
+
+  describe('resolvePublicHost', () => {
+    it('should refuse names with any private address', async () => {
+      vi.spyOn(dns.promises, 'lookup').mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '192.168.0.7', family: 4 },
+      ] as any);
+
+      await expect(resolvePublicHost('hooks.partner.com')).rejects.toThrow(
+        'Host hooks.partner.com resolves to a private address (192.168.0.7)'
+      );
+    });
+
+    it('should return the addresses of public names', async () => {
+      vi.spyOn(dns.promises, 'lookup').mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+      ] as any);
+
+      expect(await resolvePublicHost('hooks.partner.com')).toEqual([
+        { address: '93.184.216.34', family: 4 },
+      ]);
+    });
+
+    it('should refuse private hosts without resolving them', async () => {
+      const lookup = vi.spyOn(dns.promises, 'lookup');
+
+      await expect(resolvePublicHost('localhost')).rejects.toThrow(
+        'Host localhost is a private address'
+      );
+      expect(lookup).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import { phoneDigitVariants, toE164 } from '../phone';
+
+describe('phone utilities', () => {
+  describe('toE164', () => {
+    it('should keep numbers that carry their country code', () => {
+      expect(toE164('+55 11 98765-4321')).toBe('+5511987654321');
+      expect(toE164('0055 11 98765-4321')).toBe('+5511987654321');
+      expect(toE164('+1 (555) 123-4567')).toBe('+15551234567');
+    });
+
+    it('should tell North American and Brazilian numbers apart', () => {
+      expect(toE164('1 212 555 1234')).toBe('+12125551234');
+      expect(toE164('(11) 98765-4321')).toBe('+5511987654321');
+      expect(toE164('12 98765-4321')).toBe('+5512987654321');
+      expect(toE164('0 21 99876-5432')).toBe('+5521998765432');
+    });
+
+    it('should read national numbers in the default country', () => {
+      expect(toE164('555-123-4567')).toBe('+15551234567');
+      expect(toE164('11 3456-7890', '55')).toBe('+551134567890');
+    });
+
+    it('should reject input without digits', () => {
+      expect(toE164('n/a')).toBeNull();
+    });
+  });
+
+  describe('phoneDigitVariants', () => {
+    it('should give the number with and without the country code', () => {
+      expect(phoneDigitVariants('+55 11 98765-4321')).toEqual([
+        '5511987654321',
+        '11987654321',
+      ]);
+      expect(phoneDigitVariants('11987654321')).toEqual([
+        '5511987654321',
+        '11987654321',
+      ]);
+      expect(phoneDigitVariants('(555) 123-4567')).toEqual([
+        '15551234567',
+        '5551234567',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { redactSensitiveText } from '../redaction';
+
+describe('redactSensitiveText', () => {
+  it('should mask card numbers however they are grouped', () => {
+    expect(
+      redactSensitiveText('My card is 4111 1111 1111 1111, expiry 12/27')
+    ).toEqual({
+      text: 'My card is [REDACTED CARD], expiry 12/27',
+      redactions: 1,
+    });
+    expect(redactSensitiveText('use 5500-0000-0000-0004').text).toBe(
+      'use [REDACTED CARD]'
+    );
+  });
+
+  it('should mask national ID numbers', () => {
+    expect(redactSensitiveText('SSN 123-45-6789').text).toBe(
+      'SSN [REDACTED ID]'
+    );
+    expect(redactSensitiveText('my NI number is AB 12 34 56 C').text).toBe(
+      'my NI number is [REDACTED ID]'
+    );
+    expect(
+      redactSensitiveText('Sure, my NIF is 123456789 and the passport AB1234567')
+    ).toEqual({
+      text: 'Sure, my NIF is [REDACTED ID] and the passport [REDACTED ID]',
+      redactions: 2,
+    });
+  });
+
+  it('should mask numbers that fail the check digit only after card words', () => {
+    expect(redactSensitiveText('order 4111 1111 1111 1112 shipped').text).toBe(
+      'order 4111 1111 1111 1112 shipped'
+    );
+    expect(
+      redactSensitiveText('o número do cartão é 4111 1111 1111 1112').text
+    ).toBe('o número do cartão é [REDACTED CARD]');
+  });
+
+  it('should mask Brazilian CPF and CNPJ numbers', () => {
+    expect(redactSensitiveText('meu CPF é 123.456.789-09')).toEqual({
+      text: 'meu CPF é [REDACTED ID]',
+      redactions: 1,
+    });
+    expect(redactSensitiveText('cpf 12345678909, obrigado').text).toBe(
+      'cpf [REDACTED ID], obrigado'
+    );
+    expect(
+      redactSensitiveText('CNPJ da empresa: 12.345.678/0001-95').text
+    ).toBe('CNPJ da empresa: [REDACTED ID]');
+  });
+
+  it('should leave phone numbers, prices and dates alone', () => {
+    const text =
+      'Call me at +1 555 123 4567 about the $1,250,000 house on 2026-01-14';
+
+    expect(redactSensitiveText(text)).toEqual({ text, redactions: 0 });
+    expect(redactSensitiveText('me liga no +55 11 98765-4321')).toEqual({
+      text: 'me liga no +55 11 98765-4321',
+      redactions: 0,
+    });
+  });
+});
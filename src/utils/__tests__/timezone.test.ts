@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addDays,
+  dayOfWeek,
+  getZonedDateTime,
+  parseTimeOfDay,
+  toZonedDateString,
+  zonedTimeToUtc,
+} from '../timezone';
+
+describe('timezone utilities', () => {
+  it('should break an instant down into local wall-clock parts', () => {
+    const parts = getZonedDateTime(
+      new Date('2024-07-01T02:30:00.000Z'),
+      'America/New_York'
+    );
+
+    expect(parts).toMatchObject({
+      year: 2024,
+      month: 6,
+      day: 30,
+      hour: 22,
+      minute: 30,
+      dayOfWeek: 0,
+    });
+  });
+
+  it('should give the local calendar date of an instant', () => {
+    const instant = new Date('2024-03-10T23:30:00.000Z');
+
+    expect(toZonedDateString(instant, 'UTC')).toBe('2024-03-10');
+    expect(toZonedDateString(instant, 'Europe/Lisbon')).toBe('2024-03-10');
+    expect(toZonedDateString(instant, 'Asia/Tokyo')).toBe('2024-03-11');
+  });
+
+  it('should parse times of day including the end of the day', () => {
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('24:00')).toBe(1440);
+    expect(() => parseTimeOfDay('9:30')).toThrow('Invalid time of day');
+    expect(() => parseTimeOfDay('24:30')).toThrow('Invalid time of day');
+  });
+
+  it('should do calendar arithmetic across month and year ends', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01');
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    expect(dayOfWeek('2024-01-07')).toBe(0);
+  });
+
+  it('should convert local times using the offset in effect that day', () => {
+    expect(zonedTimeToUtc('2024-01-15', 9 * 60, 'America/Sao_Paulo')).toEqual(
+      new Date('2024-01-15T12:00:00.000Z')
+    );
+    expect(zonedTimeToUtc('2024-01-15', 9 * 60, 'America/New_York')).toEqual(
+      new Date('2024-01-15T14:00:00.000Z')
+    );
+    expect(zonedTimeToUtc('2024-07-15', 9 * 60, 'America/New_York')).toEqual(
+      new Date('2024-07-15T13:00:00.000Z')
+    );
+  });
+
+  it('should handle the days of daylight saving transitions', () => {
+    // New York springs forward at 02:00 on 2024-03-10
+    expect(zonedTimeToUtc('2024-03-10', 1 * 60, 'America/New_York')).toEqual(
+      new Date('2024-03-10T06:00:00.000Z')
+    );
+    expect(zonedTimeToUtc('2024-03-10', 9 * 60, 'America/New_York')).toEqual(
+      new Date('2024-03-10T13:00:00.000Z')
+    );
+    // Skipped wall-clock times resolve to just after the gap
+    expect(zonedTimeToUtc('2024-03-10', 2 * 60 + 30, 'America/New_York')).toEqual(
+      new Date('2024-03-10T07:30:00.000Z')
+    );
+    // Lisbon falls back at 02:00 on 2024-10-27
+    expect(zonedTimeToUtc('2024-10-27', 9 * 60, 'Europe/Lisbon')).toEqual(
+      new Date('2024-10-27T09:00:00.000Z')
+    );
+    expect(zonedTimeToUtc('2024-10-27', 24 * 60, 'Europe/Lisbon')).toEqual(
+      new Date('2024-10-28T00:00:00.000Z')
+    );
+  });
+});
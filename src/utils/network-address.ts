@@ -0,0 +1,95 @@
+import dns from 'dns';
+import net from 'net';
+
+/**
+ * Checks for hosts the service calls on behalf of users, such as webhook
+ * endpoints, so those calls cannot reach the service's own network: the
+ * loopback interface, private ranges or the cloud metadata endpoint.
+ */
+
+const PRIVATE_RANGES = new net.BlockList();
+// "This" network, private, shared (carrier-grade NAT), loopback,
+// link-local (cloud metadata at 169.254.169.254), IETF assignments,
+// documentation, benchmarking, multicast and reserved
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(prefix, bits, 'ipv4');
+}
+// Unspecified, loopback, unique local, link-local, multicast and
+// documentation. IPv4-mapped addresses are checked against the IPv4 ranges.
+for (const [prefix, bits] of [
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+  ['2001:db8::', 32],
+] as const) {
+  PRIVATE_RANGES.addSubnet(prefix, bits, 'ipv6');
+}
+
+// Names that only resolve inside a network, e.g. metadata.google.internal
+const PRIVATE_NAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * reachable on the public internet. Anything that is not an IP address is
+ * not.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether a URL host is a private address or a name that only resolves
+ * inside a network. Names are not resolved: see resolvePublicHost.
+ */
+export function isPrivateHost(hostname: string): boolean {
+  const host = hostname
+    .toLowerCase()
+    .replace(/^\[(.*)\]$/, '$1')
+    .replace(/\.$/, '');
+
+  if (net.isIP(host)) return isPrivateAddress(host);
+  return (
+    host === 'localhost' ||
+    PRIVATE_NAME_SUFFIXES.some((suffix) => host.endsWith(suffix))
+  );
+}
+
+/**
+ * Resolve a host name, refusing it when any of its addresses is private.
+ * Rejects with the DNS error when the name does not resolve.
+ */
+export async function resolvePublicHost(
+  hostname: string
+): Promise<dns.LookupAddress[]> {
+  if (isPrivateHost(hostname)) {
+    throw new Error(`Host ${hostname} is a private address`);
+  }
+
+  const addresses = await dns.promises.lookup(hostname, { all: true });
+  const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+  if (blocked) {
+    throw new Error(
+      `Host ${hostname} resolves to a private address (${blocked.address})`
+    );
+  }
+  return addresses;
+}
@@ -0,0 +1,68 @@
+/**
+ * Phone number helpers for matching numbers written in different formats:
+ * with or without the country code, trunk prefix, spaces or punctuation
+ */
+
+// Country codes whose national numbers can be told apart without a prefix
+const NANP_COUNTRY_CODE = '1';
+const BRAZIL_COUNTRY_CODE = '55';
+
+/**
+ * The number in E.164 form, e.g. "+5511987654321", or null when it has no
+ * digits. Numbers without a country code are read as:
+ * - 11 digits starting with 1 and a valid area code: North American. Area
+ *   codes never have 9 in the middle, which keeps Brazilian mobiles in the
+ *   11-19 area codes ("12 98765-4321") apart.
+ * - 11 digits with a mobile 9 after the area code: Brazilian mobile
+ * - 12 digits or more: already international
+ * - anything else: national number of `defaultCountryCode`
+ */
+export function toE164(
+  phone: string,
+  defaultCountryCode: string = NANP_COUNTRY_CODE
+): string | null {
+  const trimmed = phone.trim();
+  let digits = trimmed.replace(/\D/g, '');
+  if (!digits) return null;
+
+  if (trimmed.startsWith('+')) return `+${digits}`;
+  if (digits.startsWith('00')) return `+${digits.slice(2)}`;
+
+  // National trunk prefix, e.g. "0 11 98765-4321" in Brazil
+  if (digits.startsWith('0')) digits = digits.replace(/^0+/, '');
+
+  if (digits.length === 11 && /^1[2-9][0-8]\d[2-9]/.test(digits)) {
+    return `+${digits}`;
+  }
+  if (digits.length === 11 && /^[1-9]{2}9/.test(digits)) {
+    return `+${BRAZIL_COUNTRY_CODE}${digits}`;
+  }
+  // Longer than any national number, so the country code is included
+  if (digits.length >= 12) return `+${digits}`;
+  return `+${defaultCountryCode}${digits}`;
+}
+
+/**
+ * Digit-only forms the number may be stored in: the full E.164 digits and
+ * the national number without the country code
+ */
+export function phoneDigitVariants(
+  phone: string,
+  defaultCountryCode: string = NANP_COUNTRY_CODE
+): string[] {
+  const e164 = toE164(phone, defaultCountryCode);
+  if (!e164) return [];
+
+  const digits = e164.slice(1);
+  const countryCode = [
+    NANP_COUNTRY_CODE,
+    BRAZIL_COUNTRY_CODE,
+    defaultCountryCode,
+  ].find((code) => digits.startsWith(code));
+
+  return Array.from(
+    new Set(
+      countryCode ? [digits, digits.slice(countryCode.length)] : [digits]
+    )
+  );
+}
@@ -0,0 +1,98 @@
+/**
+ * Masking of payment card numbers and national ID numbers in free text,
+ * such as call transcripts, before it is stored. English and Brazilian
+ * Portuguese conversations are covered.
+ */
+
+export interface RedactionResult {
+  text: string;
+  redactions: number;
+}
+
+export const REDACTED_CARD = '[REDACTED CARD]';
+export const REDACTED_ID = '[REDACTED ID]';
+
+// 13 to 19 digits, optionally grouped with spaces or dashes, that do not
+// follow a "+" as phone numbers in international format do
+const CARD_NUMBER = /(?<![+\d])\b\d(?:[ -]?\d){12,18}\b/g;
+
+// Words said shortly before a card number. A card read out on a call is
+// often transcribed with a digit wrong, so after these a number is masked
+// even when its check digit does not match.
+const CARD_CONTEXT =
+  /\b(card|credit|debit|visa|master ?card|amex|cart[aã]o|cr[eé]dito|d[eé]bito)\b/i;
+
+// How far back, in characters, the card context is looked for
+const CARD_CONTEXT_CHARS = 40;
+
+// Brazilian taxpayer numbers written with separators: CPF for people,
+// e.g. 123.456.789-09, and CNPJ for companies, e.g. 12.345.678/0001-95
+const CPF = /\b\d{3}\.\d{3}\.\d{3}-\d{2}\b/g;
+const CNPJ = /\b\d{2}\.\d{3}\.\d{3}\/\d{4}-\d{2}\b/g;
+
+// US Social Security numbers written with separators
+const SSN = /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g;
+
+// UK National Insurance numbers, e.g. AB 12 34 56 C
+const NATIONAL_INSURANCE =
+  /\b[A-CEGHJ-PR-TW-Z]{2} ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/gi;
+
+// Other ID numbers are only recognizable by what is said before them
+const NAMED_ID =
+  /\b(ssn|social security(?: number)?|national (?:id|insurance)(?: number)?|id number|identity (?:card|number)|tax (?:id|number)|nif|cpf|cnpj|passport(?: number)?)(\W+(?:is\W+)?)([A-Z]{0,2}\d(?:[ ./-]?\d){5,13}[A-Z]?)\b/gi;
+
+/**
+ * Text with card and national ID numbers replaced by placeholders
+ */
+export function redactSensitiveText(text: string): RedactionResult {
+  let redactions = 0;
+  const mask =
+    (placeholder: string) =>
+    (): string => {
+      redactions++;
+      return placeholder;
+    };
+
+  const redacted = text
+    .replace(CARD_NUMBER, (match: string, offset: number, whole: string) => {
+      const before = whole.slice(
+        Math.max(0, offset - CARD_CONTEXT_CHARS),
+        offset
+      );
+      if (
+        !passesLuhnCheck(match.replace(/\D/g, '')) &&
+        !CARD_CONTEXT.test(before)
+      ) {
+        return match;
+      }
+      redactions++;
+      return REDACTED_CARD;
+    })
+    .replace(CNPJ, mask(REDACTED_ID))
+    .replace(CPF, mask(REDACTED_ID))
+    .replace(SSN, mask(REDACTED_ID))
+    .replace(NATIONAL_INSURANCE, mask(REDACTED_ID))
+    .replace(NAMED_ID, (_match, name: string, separator: string) => {
+      redactions++;
+      return `${name}${separator}${REDACTED_ID}`;
+    });
+
+  return { text: redacted, redactions };
+}
+
+/**
+ * Whether the number's last digit is the Luhn check digit of the others,
+ * as on every payment card
+ */
+function passesLuhnCheck(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
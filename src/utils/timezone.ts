@@ -0,0 +1,142 @@
+/**
+ * Timezone helpers built on Intl, so wall-clock times in any IANA timezone
+ * can be converted to and from instants without a date library
+ */
+
+/**
+ * Calendar date and wall-clock time of an instant in a timezone
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  dayOfWeek: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$|^24:00$/;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      weekday: 'short',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Break an instant down into its wall-clock parts in the given timezone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    dayOfWeek: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of an instant in the given timezone
+ */
+export function toZonedDateString(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDateTime(date, timeZone);
+  return [
+    String(year).padStart(4, '0'),
+    String(month).padStart(2, '0'),
+    String(day).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * Minutes since midnight for an HH:mm time of day. 24:00 is accepted as
+ * the end of the day.
+ */
+export function parseTimeOfDay(time: string): number {
+  if (!TIME_OF_DAY_PATTERN.test(time)) {
+    throw new Error(`Invalid time of day "${time}": expected HH:mm`);
+  }
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Add whole days to a YYYY-MM-DD calendar date
+ */
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days))
+    .toISOString()
+    .slice(0, 10);
+}
+
+/**
+ * Day of week (0 = Sunday) of a YYYY-MM-DD calendar date
+ */
+export function dayOfWeek(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * The instant at which the clock in `timeZone` shows `minutesOfDay` on the
+ * given YYYY-MM-DD date. Wall-clock times skipped by a DST change resolve
+ * to the instant just after the gap.
+ */
+export function zonedTimeToUtc(
+  date: string,
+  minutesOfDay: number,
+  timeZone: string
+): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutesOfDay);
+
+  // The offset at the wall-clock time is a first guess; re-check it at
+  // the resulting instant in case a DST transition lies between the two
+  const first = wallClock - offsetAt(wallClock, timeZone);
+  const second = wallClock - offsetAt(first, timeZone);
+  if (offsetAt(second, timeZone) === wallClock - second) {
+    return new Date(second);
+  }
+
+  // Neither offset reproduces the wall-clock time, so it falls in a gap
+  return new Date(Math.max(first, second));
+}
+
+function offsetAt(timestamp: number, timeZone: string): number {
+  const parts = getZonedDateTime(new Date(timestamp), timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
@@ -0,0 +1,256 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import axios from 'axios';
+import dns from 'dns';
+import {
+  WebhookDispatcher,
+  WEBHOOK_DELIVERY_JOB,
+  matchesWebhookFilter,
+} from '../webhook-dispatcher';
+import { verifyWebhookSignature } from '../webhook-signature';
+import { InMemoryJobStore, JobQueue, JobWorker } from '../../jobs';
+import { createDomainEvent } from '../../events';
+import { WebhookDelivery, WebhookSubscription } from '../../types/webhook';
+
+vi.mock('axios');
+const mockedAxios = axios as any;
+
+vi.mock('../../utils/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const MINUTE = 60 * 1000;
+const SUBSCRIPTION_ID = '1c2d3e4f-5a6b-4c7d-8e9f-0a1b2c3d4e5f';
+const LEAD_ID = '8b0c2f4e-4c1a-4d2b-9f3e-1a2b3c4d5e6f';
+
+describe('WebhookDispatcher', () => {
+  let http: { post: ReturnType<typeof vi.fn> };
+  let subscription: WebhookSubscription;
+  let deliveries: Map<string, WebhookDelivery>;
+  let subscriptionRepository: any;
+  let deliveryRepository: any;
+  let jobs: JobQueue;
+  let worker: JobWorker;
+  let dispatcher: WebhookDispatcher;
+
+  const leadCreated = (payload: Record<string, any> = { lead_type: 'hot' }) =>
+    createDomainEvent('lead_created', 'lead', LEAD_ID, { id: LEAD_ID, ...payload });
+
+  const onlyDelivery = () => Array.from(deliveries.values())[0];
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-14T15:00:00.000Z'));
+
+    http = { post: vi.fn().mockResolvedValue({ status: 200, data: 'ok' }) };
+    mockedAxios.create.mockReturnValue(http);
+
+    subscription = {
+      id: SUBSCRIPTION_ID,
+      url: 'https://partner.example.com/hooks',
+      eventTypes: ['lead_created'],
+      filter: { lead_type: ['hot', 'warm'] },
+      secret: 'whsec_test',
+      status: 'active',
+      consecutiveFailures: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    subscriptionRepository = {
+      findActiveForEvent: vi.fn(async () =>
+        subscription.status === 'active' ? [subscription] : []
+      ),
+      findById: vi.fn(async () => subscription),
+      recordSuccess: vi.fn(async () => {
+        subscription.consecutiveFailures = 0;
+      }),
+      recordFailure: vi.fn(async (_id: string, disableAfter: number) => {
+        subscription.consecutiveFailures += 1;
+        if (subscription.consecutiveFailures >= disableAfter) {
+          subscription.status = 'disabled';
+        }
+        return { ...subscription };
+      }),
+    };
+
+    deliveries = new Map();
+    deliveryRepository = {
+      create: vi.fn(async (delivery: WebhookDelivery) => {
+        const existing = Array.from(deliveries.values()).find(
+          (candidate) => candidate.eventId === delivery.eventId
+        );
+        if (existing) return existing;
+        deliveries.set(delivery.id, delivery);
+        return delivery;
+      }),
+      findById: vi.fn(async (id: string) => deliveries.get(id) ?? null),
+      recordAttempt: vi.fn(async (id: string, attempt: any) => {
+        const delivery = deliveries.get(id)!;
+        Object.assign(delivery, {
+          status: attempt.status,
+          attempts: delivery.attempts + 1,
+          responseStatus: attempt.responseStatus,
+          lastError: attempt.error,
+        });
+      }),
+      markFailed: vi.fn(async (id: string, error: string) => {
+        Object.assign(deliveries.get(id)!, { status: 'failed', lastError: error });
+      }),
+      reopen: vi.fn(async (id: string) => {
+        const delivery = deliveries.get(id);
+        if (!delivery || delivery.status !== 'failed') return null;
+        delivery.status = 'pending';
+        return delivery;
+      }),
+    };
+
+    const store = new InMemoryJobStore();
+    jobs = new JobQueue(store);
+    worker = new JobWorker(store, { workerId: 'worker-1', retryBaseDelayMs: MINUTE });
+    dispatcher = new WebhookDispatcher(subscriptionRepository, deliveryRepository, jobs, {
+      maxAttempts: 2,
+      disableAfterFailures: 3,
+    });
+    dispatcher.registerJobHandlers(worker);
+  });
+
+  afterEach(async () => {
+    await worker.stop();
+    vi.useRealTimers();
+  });
+
+  it('should post events as signed deliveries', async () => {
+    const event = leadCreated();
+
+    await dispatcher.handle(event);
+    expect(await worker.runOnce()).toBe(1);
+
+    const [url, body, { headers }] = http.post.mock.calls[0];
+    expect(url).toBe('https://partner.example.com/hooks');
+    expect(JSON.parse(body)).toEqual({
+      id: event.id,
+      type: 'lead_created',
+      occurredAt: '2026-01-14T15:00:00.000Z',
+      data: { id: LEAD_ID, lead_type: 'hot' },
+    });
+    expect(headers['X-Webhook-Event']).toBe('lead_created');
+    const timestamp = Number(headers['X-Webhook-Timestamp']);
+    const signature = headers['X-Webhook-Signature'];
+    expect(verifyWebhookSignature(body, 'whsec_test', timestamp, signature)).toBe(
+      true
+    );
+    expect(verifyWebhookSignature(body, 'whsec_other', timestamp, signature)).toBe(
+      false
+    );
+    expect(onlyDelivery()).toMatchObject({
+      status: 'succeeded',
+      attempts: 1,
+      responseStatus: 200,
+    });
+  });
+
+  it('should skip events that do not match the filter', async () => {
+    await dispatcher.handle(leadCreated({ lead_type: 'cold' }));
+
+    expect(deliveries.size).toBe(0);
+    expect(matchesWebhookFilter({ source: 'website' }, { source: 'website' })).toBe(
+      true
+    );
+    expect(matchesWebhookFilter({ source: 'website' }, {})).toBe(false);
+  });
+
+  it('should add one delivery when the relay hands over an event twice', async () => {
+    const event = leadCreated();
+
+    await dispatcher.handle(event);
+    await dispatcher.handle(event);
+    await worker.runOnce();
+
+    expect(deliveries.size).toBe(1);
+    expect(http.post).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry failed deliveries and allow replaying them', async () => {
+    http.post.mockResolvedValue({ status: 503, data: 'Service Unavailable' });
+    await dispatcher.handle(leadCreated());
+
+    await worker.runOnce();
+    expect(onlyDelivery()).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      responseStatus: 503,
+      lastError: 'Endpoint answered with HTTP 503',
+    });
+
+    await worker.runOnce(new Date(Date.now() + MINUTE));
+    expect(onlyDelivery()).toMatchObject({ status: 'failed', attempts: 2 });
+    expect(await jobs.getDeadLetters()).toEqual([
+      expect.objectContaining({ type: WEBHOOK_DELIVERY_JOB }),
+    ]);
+
+    http.post.mockResolvedValue({ status: 204, data: '' });
+    expect(await dispatcher.replay(onlyDelivery().id)).toMatchObject({
+      status: 'pending',
+    });
+    await worker.runOnce(new Date(Date.now() + MINUTE));
+
+    expect(onlyDelivery()).toMatchObject({ status: 'succeeded', attempts: 3 });
+    expect(subscription.consecutiveFailures).toBe(0);
+    expect(await dispatcher.replay(onlyDelivery().id)).toBeNull();
+  });
+
+  it('should disable endpoints that keep failing', async () => {
+    http.post.mockRejectedValue(new Error('connect ECONNREFUSED'));
+    await dispatcher.handle(leadCreated());
+    await dispatcher.handle(leadCreated());
+
+    await worker.runOnce();
+    await worker.runOnce(new Date(Date.now() + MINUTE));
+
+    expect(subscription).toMatchObject({
+      status: 'disabled',
+      consecutiveFailures: 3,
+    });
+    expect(
+      Array.from(deliveries.values()).map((delivery) => delivery.status)
+    ).toEqual(['failed', 'failed']);
+
+    // No new deliveries while disabled
+    await dispatcher.handle(leadCreated());
+    expect(deliveries.size).toBe(2);
+  });
+
+  it('should not post to endpoints on private addresses', async () => {
+    subscription.url = 'http://169.254.169.254/latest/meta-data';
+
+    await dispatcher.handle(leadCreated());
+    expect(await worker.runOnce()).toBe(1);
+
+    expect(http.post).not.toHaveBeenCalled();
+    expect(onlyDelivery()).toMatchObject({
+      status: 'pending',
+      lastError: 'Host 169.254.169.254 is a private address',
+    });
+  });
+
+  it('should connect only to public addresses and not follow redirects', async () => {
+    const { lookup, maxRedirects } = mockedAxios.create.mock.calls[0][0];
+    const resolve = vi.spyOn(dns.promises, 'lookup') as any;
+
+    resolve.mockResolvedValueOnce([{ address: '10.0.0.5', family: 4 }]);
+    await expect(lookup('hooks.partner.example', {})).rejects.toThrow(
+      'Host hooks.partner.example resolves to a private address (10.0.0.5)'
+    );
+
+    resolve.mockResolvedValueOnce([{ address: '93.184.216.34', family: 4 }]);
+    expect(await lookup('hooks.partner.example', {})).toEqual([
+      [{ address: '93.184.216.34', family: 4 }],
+    ]);
+    expect(maxRedirects).toBe(0);
+    resolve.mockRestore();
+  });
+});
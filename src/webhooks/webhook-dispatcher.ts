@@ -0,0 +1,263 @@
+import axios, { AxiosInstance } from 'axios';
+import { URL } from 'url';
+import {
+  WebhookDeliveryRepository,
+  WebhookSubscriptionRepository,
+} from '../database/repositories';
+import { DomainEvent } from '../types/domain-event';
+import { Job } from '../types/job';
+import { WebhookDelivery, WebhookFilter } from '../types/webhook';
+import { generateUUID } from '../types/validation';
+import { EventSubscriber } from '../events/outbox-relay';
+import { JobQueue, JobWorker } from '../jobs';
+import { signWebhookPayload } from './webhook-signature';
+import { logger } from '../utils/logger';
+import { isPrivateHost, resolvePublicHost } from '../utils/network-address';
+
+export const WEBHOOK_DELIVERY_JOB = 'webhooks.deliver';
+
+export interface WebhookDispatcherConfig {
+  timeoutMs: number;
+  // Attempts per delivery, retried with the job worker's backoff
+  maxAttempts: number;
+  // Failed attempts in a row, across deliveries, that disable a subscription
+  disableAfterFailures: number;
+  maxResponseBodyLength: number; // kept in the delivery log
+}
+
+const DEFAULT_CONFIG: WebhookDispatcherConfig = {
+  timeoutMs: 10000,
+  maxAttempts: 8,
+  disableAfterFailures: 20,
+  maxResponseBodyLength: 1000,
+};
+
+/**
+ * Whether an event payload matches a subscription filter
+ */
+export function matchesWebhookFilter(
+  filter: WebhookFilter | undefined,
+  payload: Record<string, any>
+): boolean {
+  if (!filter) return true;
+
+  return Object.entries(filter).every(([field, expected]) => {
+    const actual = Object.prototype.hasOwnProperty.call(payload, field)
+      ? payload[field]
+      : undefined;
+    return Array.isArray(expected)
+      ? expected.includes(actual)
+      : actual === expected;
+  });
+}
+
+/**
+ * Webhook Dispatcher - sends domain events to the partner endpoints
+ * subscribed to them
+ *
+ * As an outbox subscriber it turns every event into one logged delivery
+ * per matching subscription, queued as a job. The job posts the HMAC-signed
+ * body; a failed attempt throws, so the job worker retries it with backoff.
+ * A delivery out of attempts stays failed in the log until replayed.
+ *
+ * Endpoints that keep failing are disabled, and their pending deliveries
+ * fail without being sent, until the subscription is enabled again.
+ *
+ * Deliveries only go to public addresses: an endpoint whose host is, or
+ * resolves to, a loopback, private or link-local address fails, and
+ * redirects are not followed.
+ */
+export class WebhookDispatcher implements EventSubscriber {
+  readonly name = 'webhooks';
+  private subscriptions: WebhookSubscriptionRepository;
+  private deliveries: WebhookDeliveryRepository;
+  private jobs: JobQueue;
+  private config: WebhookDispatcherConfig;
+  private http: AxiosInstance;
+
+  constructor(
+    subscriptions: WebhookSubscriptionRepository,
+    deliveries: WebhookDeliveryRepository,
+    jobs: JobQueue,
+    config: Partial<WebhookDispatcherConfig> = {}
+  ) {
+    this.subscriptions = subscriptions;
+    this.deliveries = deliveries;
+    this.jobs = jobs;
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.http = axios.create({
+      timeout: this.config.timeoutMs,
+      // Any answer is logged; only 2xx counts as delivered
+      validateStatus: () => true,
+      // Keep the body as a string, for the delivery log
+      transformResponse: (data) => data,
+      // A redirect could point anywhere, so it is logged as an answer
+      maxRedirects: 0,
+      // The addresses checked are the ones connected to, so a DNS answer
+      // that changed since registration cannot reach a private host
+      lookup: async (hostname: string) => {
+        const addresses = await resolvePublicHost(hostname);
+        return [
+          addresses.map(({ address, family }) => ({
+            address,
+            family: family === 6 ? (6 as const) : (4 as const),
+          })),
+        ];
+      },
+    });
+  }
+
+  async handle(event: DomainEvent): Promise<void> {
+    const subscriptions = await this.subscriptions.findActiveForEvent(event.type);
+
+    for (const subscription of subscriptions) {
+      if (!matchesWebhookFilter(subscription.filter, event.payload)) continue;
+
+      // The relay may hand over the same event twice; the delivery and its
+      // job are only added once
+      const delivery = await this.deliveries.create({
+        id: generateUUID(),
+        subscriptionId: subscription.id,
+        eventId: event.id,
+        eventType: event.type,
+        body: {
+          id: event.id,
+          type: event.type,
+          occurredAt: event.occurredAt.toISOString(),
+          data: event.payload,
+        },
+        status: 'pending',
+        attempts: 0,
+        createdAt: new Date(),
+      });
+      await this.jobs.enqueue(
+        WEBHOOK_DELIVERY_JOB,
+        { deliveryId: delivery.id },
+        {
+          idempotencyKey: `webhook-delivery:${delivery.id}`,
+          maxAttempts: this.config.maxAttempts,
+        }
+      );
+    }
+  }
+
+  /**
+   * Send a failed delivery again, with a fresh set of attempts. Returns
+   * null when the delivery is not in the failed state.
+   */
+  async replay(deliveryId: string): Promise<WebhookDelivery | null> {
+    const delivery = await this.deliveries.reopen(deliveryId);
+    if (!delivery) return null;
+
+    await this.jobs.enqueue(
+      WEBHOOK_DELIVERY_JOB,
+      { deliveryId },
+      { maxAttempts: this.config.maxAttempts }
+    );
+    return delivery;
+  }
+
+  registerJobHandlers(worker: JobWorker): void {
+    worker.register(WEBHOOK_DELIVERY_JOB, (payload, job) =>
+      this.deliver(payload.deliveryId, job)
+    );
+  }
+
+  private async deliver(deliveryId: string, job: Job): Promise<void> {
+    const delivery = await this.deliveries.findById(deliveryId);
+    if (!delivery || delivery.status !== 'pending') return;
+
+    const subscription = await this.subscriptions.findById(
+      delivery.subscriptionId
+    );
+    if (!subscription) return;
+    if (subscription.status === 'disabled') {
+      await this.deliveries.markFailed(delivery.id, 'Subscription is disabled');
+      return;
+    }
+
+    const body = JSON.stringify(delivery.body);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startedAt = Date.now();
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let error: string | undefined;
+
+    try {
+      // Addresses written in the URL are connected to without a lookup
+      const { hostname } = new URL(subscription.url);
+      if (isPrivateHost(hostname)) {
+        throw new Error(`Host ${hostname} is a private address`);
+      }
+
+      const response = await this.http.post(subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'agentic-lead-management-webhooks',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(
+            body,
+            subscription.secret,
+            timestamp
+          ),
+        },
+      });
+      responseStatus = response.status;
+      responseBody = this.truncate(response.data);
+      if (response.status < 200 || response.status >= 300) {
+        error = `Endpoint answered with HTTP ${response.status}`;
+      }
+    } catch (requestError) {
+      error =
+        requestError instanceof Error ? requestError.message : String(requestError);
+    }
+
+    const attempt = {
+      responseStatus,
+      responseBody,
+      error,
+      durationMs: Date.now() - startedAt,
+      at: new Date(),
+    };
+
+    if (!error) {
+      await this.deliveries.recordAttempt(delivery.id, {
+        ...attempt,
+        status: 'succeeded',
+      });
+      await this.subscriptions.recordSuccess(subscription.id);
+      return;
+    }
+
+    const updated = await this.subscriptions.recordFailure(
+      subscription.id,
+      this.config.disableAfterFailures,
+      attempt.at
+    );
+    const disabled = updated?.status === 'disabled';
+    const outOfAttempts = job.attempts >= job.maxAttempts;
+
+    await this.deliveries.recordAttempt(delivery.id, {
+      ...attempt,
+      status: disabled || outOfAttempts ? 'failed' : 'pending',
+    });
+
+    if (disabled) {
+      logger.warn('Webhook subscription disabled after repeated failures', {
+        subscriptionId: subscription.id,
+        url: subscription.url,
+        failures: updated?.consecutiveFailures,
+      });
+      return;
+    }
+    throw new Error(`Webhook delivery ${delivery.id} failed: ${error}`);
+  }
+
+  private truncate(data: unknown): string | undefined {
+    if (data === undefined || data === null || data === '') return undefined;
+    const text = typeof data === 'string' ? data : JSON.stringify(data);
+    return text.slice(0, this.config.maxResponseBodyLength);
+  }
+}
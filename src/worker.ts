@@ -0,0 +1,151 @@
+// src/worker.ts
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { logger } from './utils/logger';
+import { config } from './config/environment';
+import { DatabaseManager } from './database/manager';
+import { ConsentLedger } from './communication/consent-ledger';
+import { MultiChannelCommunicationManager } from './communication/multi-channel-manager';
+import { RedisCommunicationStateStore } from './communication/communication-state-store';
+import { createMessageProviders } from './communication/providers';
+import { ConsentRepository, createRepositories } from './database/repositories';
+import { JobQueue, JobWorker } from './jobs';
+import { N8nEventSubscriber, OutboxRelay } from './events';
+import { N8nClient } from './orchestration/n8n-client';
+import { WebhookDispatcher } from './webhooks';
+import { AILeadGenerationAgent } from './agents/ai-lead-generation-agent';
+import { CustomerRetentionAgent } from './agents/customer-retention-agent';
+import { ReviewFeedbackCollectorAgent } from './agents/review-feedback-collector';
+import { AIAppointmentWorkflowCoordinator } from './agents/ai-appointment-workflow-coordinator';
+import { VirtualSalesAssistant } from './agents/virtual-sales-assistant';
+import { AgentRoster } from './assignment/agent-roster';
+import { LeadAssignmentManager } from './assignment/lead-assignment-manager';
+import { ResponseSlaEngine } from './monitoring/response-sla-engine';
+
+async function main() {
+  logger.info('Starting job worker');
+
+  // Inicializa o banco
+  const dbManager = new DatabaseManager();
+  await dbManager.initialize();
+
+  const repositories = createRepositories(dbManager);
+  const jobs = new JobQueue(repositories.jobs);
+  const worker = new JobWorker(repositories.jobs);
+
+  const communicationManager = new MultiChannelCommunicationManager(
+    createMessageProviders(),
+    {
+      consentLedger: new ConsentLedger({
+        repository: new ConsentRepository(dbManager),
+      }),
+      store: new RedisCommunicationStateStore(dbManager.getRedisClient()),
+      jobs,
+    }
+  );
+  // Mensagens adiadas para a janela de envio do lead
+  communicationManager.registerJobHandlers(worker);
+
+  // Sequências de prospecção, campanhas de reengajamento e follow-ups de feedback
+  new AILeadGenerationAgent(
+    'ai-lead-generation-agent',
+    repositories,
+    communicationManager,
+    jobs
+  ).registerJobHandlers(worker);
+  new CustomerRetentionAgent(
+    {},
+    repositories,
+    communicationManager,
+    jobs
+  ).registerJobHandlers(worker);
+  new ReviewFeedbackCollectorAgent(
+    {},
+    repositories,
+    communicationManager,
+    jobs
+  ).registerJobHandlers(worker);
+
+  // Callbacks e lembretes de agendamentos vencidos, a cada minuto; lembretes,
+  // confirmações e mensagens de campanha saem pelo gerenciador de comunicação.
+  // Sem um discador configurado os callbacks ficam pendentes
+  const coordinator = new AIAppointmentWorkflowCoordinator(
+    'ai-appointment-workflow-coordinator',
+    dbManager,
+    undefined,
+    undefined,
+    communicationManager
+  );
+  await coordinator.restoreState();
+  await coordinator.registerJobHandlers(worker, jobs);
+
+  // Qualificação por SMS, WhatsApp e chat, com interações e transcrições
+  // gravadas no banco e lembretes às conversas paradas
+  const salesAssistant = new VirtualSalesAssistant(
+    {},
+    repositories,
+    coordinator,
+    communicationManager
+  );
+  salesAssistant.startSessionMonitor();
+
+  // Entrega os eventos do outbox (leads, interações, agendamentos) aos
+  // webhooks de saída e aos workflows do n8n
+  const webhookDispatcher = new WebhookDispatcher(
+    repositories.webhookSubscriptions,
+    repositories.webhookDeliveries,
+    jobs
+  );
+  webhookDispatcher.registerJobHandlers(worker);
+
+  const relay = new OutboxRelay(repositories.outbox);
+  relay.subscribe(webhookDispatcher);
+
+  // Atribui cada lead novo a um corretor, pelo evento lead_created
+  relay.subscribe(
+    new LeadAssignmentManager(
+      new AgentRoster(repositories.salesAgents),
+      {},
+      repositories,
+      dbManager
+    )
+  );
+  // SLA de primeiro contato: o cronômetro começa no lead_created e para na
+  // primeira interação de saída; os alertas de atraso saem pela API
+  relay.subscribe(new ResponseSlaEngine({}, { repositories }));
+  if (config.N8N_BASE_URL && Object.keys(config.N8N_EVENT_WORKFLOWS).length) {
+    relay.subscribe(
+      new N8nEventSubscriber(
+        new N8nClient({
+          baseUrl: config.N8N_BASE_URL,
+          apiKey: config.N8N_API_KEY || undefined,
+        }),
+        config.N8N_EVENT_WORKFLOWS
+      )
+    );
+  }
+
+  worker.start();
+  relay.start();
+  logger.info('Job worker started');
+
+  // Encerramento gracioso: termina os jobs e entregas em andamento antes de
+  // sair. Mensagens fora da janela de envio esperam na fila de jobs, não em
+  // memória, e cada etapa tem chave de idempotência, então um job
+  // interrompido depois do envio não manda a mensagem de novo
+  const shutdown = async () => {
+    logger.info('Stopping job worker...');
+    salesAssistant.stopSessionMonitor();
+    await Promise.all([worker.stop(), relay.stop()]);
+    await dbManager.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(err => {
+  console.error('Fatal error on worker startup:', err);
+  process.exit(1);
+});